@@ -82,6 +82,25 @@ async function updateExchangeRate(rate) {
       
       console.log(`Exchange rate created: 1 USD = ${rate} CAD`);
     }
+    
+    // Record today's rate in the history used for dated conversions
+    const today = new Date();
+    const rateDate = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const { error: historyError } = await supabase
+      .from('exchange_rate_history')
+      .upsert({
+        from_currency: 'USD',
+        to_currency: 'CAD',
+        rate_date: rateDate,
+        rate: rate,
+        source: 'feed'
+      }, { onConflict: 'from_currency,to_currency,rate_date,source' });
+    
+    if (historyError) {
+      throw historyError;
+    }
+    
+    console.log(`Exchange rate history updated for ${rateDate}`);
   } catch (error) {
     console.error('Error updating exchange rate in database:', error);
   }
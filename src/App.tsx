@@ -104,6 +104,11 @@ const App = () => {
                           <RouteGroups.main.Logs />
                         </Suspense>
                       } />
+                      <Route path="/callers" element={
+                        <Suspense fallback={<LoadingSpinner text="Loading caller history..." />}>
+                          <RouteGroups.main.CallerHistory />
+                        </Suspense>
+                      } />
                       <Route path="/leads" element={
                         <Suspense fallback={<LoadingSpinner text="Loading leads..." />}>
                           <RouteGroups.main.Leads />
@@ -235,6 +240,16 @@ const App = () => {
                             <RouteGroups.admin.AnalyticsSystemOps />
                           </Suspense>
                         } />
+                        <Route path="tools" element={
+                          <Suspense fallback={<LoadingSpinner text="Loading tool analytics..." />}>
+                            <RouteGroups.admin.AnalyticsTools />
+                          </Suspense>
+                        } />
+                        <Route path="partners" element={
+                          <Suspense fallback={<LoadingSpinner text="Loading partner payouts..." />}>
+                            <RouteGroups.admin.AnalyticsPartners />
+                          </Suspense>
+                        } />
                       </Route>
                       
                       {/* Audit Section with Nested Routes */}
@@ -269,6 +284,16 @@ const App = () => {
                             <RouteGroups.admin.SystemLogs />
                           </Suspense>
                         } />
+                        <Route path="deliveries" element={
+                          <Suspense fallback={<LoadingSpinner text="Loading lead deliveries..." />}>
+                            <RouteGroups.admin.LeadDeliveries />
+                          </Suspense>
+                        } />
+                        <Route path="reviews" element={
+                          <Suspense fallback={<LoadingSpinner text="Loading review queue..." />}>
+                            <RouteGroups.admin.CallReviews />
+                          </Suspense>
+                        } />
                       </Route>
                       
                       {/* Settings Section with Nested Routes */}
@@ -293,6 +318,11 @@ const App = () => {
                             <RouteGroups.admin.AgentStatusSettings />
                           </Suspense>
                         } />
+                        <Route path="exchange-rates" element={
+                          <Suspense fallback={<LoadingSpinner text="Loading exchange rates..." />}>
+                            <RouteGroups.admin.ExchangeRateSettings />
+                          </Suspense>
+                        } />
                       </Route>
                       
                       {/* Legacy Routes - Keep for backward compatibility */}
@@ -3,15 +3,17 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import type { CallLogsAdvancedFilters, CallSentimentFilter } from '@/types/callLogFilters';
+import {
+  INQUIRY_TYPE_OPTIONS,
+  MAX_ADHERENCE_SCORE,
+  MAX_EVALUATION_SCORE,
+  MIN_ADHERENCE_SCORE,
+  MIN_EVALUATION_SCORE,
+  countAdvancedFilters,
+} from '@/utils/callLogFilters';
 
-// Types for the filter props
-export interface CallLogsAdvancedFilters {
-  minScore?: number; // Minimum evaluation score (1-5)
-  maxScore?: number; // Maximum evaluation score (1-5)
-  sentiment?: 'positive' | 'neutral' | 'negative' | '__all__';
-  inquiryType?: string | '__all__'; // One of: sales, service, general, other
-  reviewRequired?: boolean;
-}
+export type { CallLogsAdvancedFilters };
 
 interface CallLogsAdvancedFilterProps {
   filters: CallLogsAdvancedFilters;
@@ -19,11 +21,16 @@ interface CallLogsAdvancedFilterProps {
   // Now static options, not passed in
 }
 
-const INQUIRY_TYPE_OPTIONS = ['sales', 'service', 'general', 'other'];
+const formatInquiryType = (option: string) => {
+  const label = option.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const toNumber = (value: string) => (value ? Number(value) : undefined);
 
 /**
  * Minimal, modular advanced filter UI for CallLogsTable
- * Filters: Evaluation Score (range), Sentiment, Inquiry Type, Review Required
+ * Filters: Evaluation Score (range), Sentiment, Inquiry Type, Review Required, Prompt Adherence (range)
  */
 const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
   filters,
@@ -33,15 +40,10 @@ const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
   const [showAdvanced, setShowAdvanced] = React.useState(false);
 
   // Helper: count active advanced filters
-  const advancedFilterCount =
-    (filters.minScore ? 1 : 0) +
-    (filters.maxScore ? 1 : 0) +
-    (filters.sentiment && filters.sentiment !== '__all__' ? 1 : 0) +
-    (filters.inquiryType && filters.inquiryType !== '__all__' ? 1 : 0) +
-    (filters.reviewRequired ? 1 : 0);
+  const advancedFilterCount = countAdvancedFilters(filters);
 
   // Update a single filter field
-  const handleChange = (key: keyof CallLogsAdvancedFilters, value: any) => {
+  const handleChange = <K extends keyof CallLogsAdvancedFilters>(key: K, value: CallLogsAdvancedFilters[K]) => {
     onFilterChange({ ...filters, [key]: value });
   };
 
@@ -66,7 +68,7 @@ const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
 
       {/* --- Advanced Panel --- */}
       {showAdvanced && (
-        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4 p-4 rounded bg-muted/50 border border-border">
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 gap-4 p-4 rounded bg-muted/50 border border-border">
           {/* Score Range */}
           <div>
             <Label htmlFor="minScore">Score</Label>
@@ -74,21 +76,22 @@ const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
               <Input
                 id="minScore"
                 type="number"
-                min={1}
-                max={5}
+                min={MIN_EVALUATION_SCORE}
+                max={MAX_EVALUATION_SCORE}
                 placeholder="Min"
                 value={filters.minScore ?? ''}
-                onChange={e => handleChange('minScore', e.target.value ? Number(e.target.value) : undefined)}
+                onChange={e => handleChange('minScore', toNumber(e.target.value))}
                 className="w-16"
               />
               <span>-</span>
               <Input
                 id="maxScore"
                 type="number"
-                max={5}
+                min={MIN_EVALUATION_SCORE}
+                max={MAX_EVALUATION_SCORE}
                 placeholder="Max"
                 value={filters.maxScore ?? ''}
-                onChange={e => handleChange('maxScore', e.target.value ? Number(e.target.value) : undefined)}
+                onChange={e => handleChange('maxScore', toNumber(e.target.value))}
                 className="w-16"
               />
             </div>
@@ -99,7 +102,7 @@ const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
             <Label htmlFor="sentiment">Sentiment</Label>
             <Select
               value={filters.sentiment || '__all__'}
-              onValueChange={val => handleChange('sentiment', val)}
+              onValueChange={val => handleChange('sentiment', val as CallSentimentFilter)}
             >
               <SelectTrigger className="w-32">
                 <SelectValue placeholder="All" />
@@ -113,7 +116,7 @@ const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
             </Select>
           </div>
 
-          {/* Inquiry Type Filter: sales, service, general, other */}
+          {/* Inquiry Type Filter: call_intelligence.inquiry_type values */}
           <div>
             <Label htmlFor="inquiryType">Inquiry Type</Label>
             <Select
@@ -127,13 +130,41 @@ const CallLogsAdvancedFilter: React.FC<CallLogsAdvancedFilterProps> = ({
                 <SelectItem value="__all__">All</SelectItem>
                 {INQUIRY_TYPE_OPTIONS.map(option => (
                   <SelectItem key={option} value={option}>
-                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                    {formatInquiryType(option)}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          {/* Prompt Adherence Range (0-100) */}
+          <div>
+            <Label htmlFor="minAdherence">Adherence %</Label>
+            <div className="flex gap-2">
+              <Input
+                id="minAdherence"
+                type="number"
+                min={MIN_ADHERENCE_SCORE}
+                max={MAX_ADHERENCE_SCORE}
+                placeholder="Min"
+                value={filters.minAdherence ?? ''}
+                onChange={e => handleChange('minAdherence', toNumber(e.target.value))}
+                className="w-16"
+              />
+              <span>-</span>
+              <Input
+                id="maxAdherence"
+                type="number"
+                min={MIN_ADHERENCE_SCORE}
+                max={MAX_ADHERENCE_SCORE}
+                placeholder="Max"
+                value={filters.maxAdherence ?? ''}
+                onChange={e => handleChange('maxAdherence', toNumber(e.target.value))}
+                className="w-16"
+              />
+            </div>
+          </div>
+
           {/* Review Required Filter */}
           <div className="flex items-center gap-2">
             <Checkbox
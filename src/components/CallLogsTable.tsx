@@ -8,14 +8,16 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Calendar, ChevronDown, ChevronUp, Clock, Filter, Phone, PhoneCall, PhoneOutgoing, Search, User, VoicemailIcon, Eye, Info } from 'lucide-react';
+import { Calendar, ChevronDown, ChevronUp, Clock, Filter, Loader2, Phone, PhoneCall, PhoneOutgoing, Search, User, VoicemailIcon, Eye, Info } from 'lucide-react';
 import { CallLog, CallType } from '@/integrations/supabase/call-logs-service';
 import CallLogsAdvancedFilter, { CallLogsAdvancedFilters } from './CallLogsAdvancedFilter';
 import { cn } from '@/lib/utils';
 import CallDetailsPopup from './calls/CallDetailsPopup';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import InquiryTypeBadge from './calls/InquiryTypeBadge';
+import CallOutcomeBadge from './calls/CallOutcomeBadge';
 import { OverallScoreBadge, SentimentBadge, PromptAdherenceBadge } from './calls/EvaluationBadges';
 import { CallIntelligenceService } from '@/services/callIntelligenceService';
 import { LeadEvaluationService } from '@/services/leadEvaluationService';
@@ -23,6 +25,10 @@ import { PromptAdherenceService } from '@/services/promptAdherenceService';
 import { useAuth } from '@/context/AuthContext';
 import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
 import TestCallCheckbox from './calls/TestCallCheckbox';
+import CallBulkActionsBar from './calls/CallBulkActionsBar';
+import CallSearchSnippet from './calls/CallSearchSnippet';
+import { useCallSearch } from '@/hooks/useCallSearch';
+import { normalizeAdvancedFilters } from '@/utils/callLogFilters';
 import { toast } from '@/components/ui/use-toast';
 
 // Call type badge component with theme-aware styling
@@ -70,6 +76,21 @@ export interface ExtendedCallLog extends CallLog {
   is_test_call?: boolean;
 }
 
+// Search, call type and sort; controlled by the parent when it keeps them in the URL
+export interface CallLogsTableView {
+  search: string;
+  callKind: string | null; // calls.call_type (inbound, outbound, missed, voicemail)
+  sortField: keyof CallLog;
+  sortDirection: 'asc' | 'desc';
+}
+
+const DEFAULT_TABLE_VIEW: CallLogsTableView = {
+  search: '',
+  callKind: null,
+  sortField: 'call_start_time',
+  sortDirection: 'desc',
+};
+
 interface CallLogsTableProps {
   callLogs: ExtendedCallLog[];
   loading: boolean;
@@ -79,6 +100,20 @@ interface CallLogsTableProps {
    * when displaying the 'Lead' column, and should be batch-fetched by the parent.
    */
   leadCallIds?: Set<string>;
+  clientId?: string | null; // Client the search is limited to (null for admins viewing all clients)
+  /**
+   * Server-side filtering and paging. When onAdvancedFiltersChange is given the parent
+   * applies the search, call type, advanced filters and sort in its query and callLogs
+   * are already filtered and in order; otherwise they are applied here to the loaded calls.
+   */
+  advancedFilters?: CallLogsAdvancedFilters;
+  onAdvancedFiltersChange?: (filters: CallLogsAdvancedFilters) => void;
+  totalCount?: number | null; // Calls matching the server filters, across all pages
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  view?: CallLogsTableView;
+  onViewChange?: (view: CallLogsTableView) => void;
 }
 
 /**
@@ -94,22 +129,52 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
    * This prevents runtime errors when checking for lead associations.
    */
   leadCallIds = new Set(),
+  clientId = null,
+  advancedFilters: serverAdvancedFilters,
+  onAdvancedFiltersChange,
+  totalCount,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  view: controlledView,
+  onViewChange,
 }) => {
-  // Advanced filter state (minimal, modular)
-  const [advancedFilters, setAdvancedFilters] = useState<CallLogsAdvancedFilters>({});
+  // Advanced filter state (minimal, modular); owned by the parent when it filters on the server
+  const [localAdvancedFilters, setLocalAdvancedFilters] = useState<CallLogsAdvancedFilters>({});
+  const serverFiltered = !!onAdvancedFiltersChange;
+  const advancedFilters = serverFiltered ? serverAdvancedFilters ?? {} : localAdvancedFilters;
+  const setAdvancedFilters = onAdvancedFiltersChange ?? setLocalAdvancedFilters;
+  const activeLocalFilters = useMemo(
+    () => (serverFiltered ? {} : normalizeAdvancedFilters(localAdvancedFilters)),
+    [serverFiltered, localAdvancedFilters]
+  );
   const { user } = useAuth();
-  const [sortField, setSortField] = useState<keyof CallLog>('call_start_time');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCallType, setSelectedCallType] = useState<string | null>(null);
+  const [localView, setLocalView] = useState<CallLogsTableView>(DEFAULT_TABLE_VIEW);
+  const tableView = onViewChange && controlledView ? controlledView : localView;
+  const { sortField, sortDirection, search: searchTerm, callKind: selectedCallType } = tableView;
+  const updateView = (changes: Partial<CallLogsTableView>) => {
+    const next = { ...tableView, ...changes };
+    if (onViewChange) {
+      onViewChange(next);
+    } else {
+      setLocalView(next);
+    }
+  };
+  // Search results are shown best match first until the user sorts by a column
+  const [sortByRelevance, setSortByRelevance] = useState(true);
   const [selectedCall, setSelectedCall] = useState<ExtendedCallLog | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [inquiryTypes, setInquiryTypes] = useState<Map<string, string>>(new Map());
   const [evaluations, setEvaluations] = useState<Map<string, { overallScore: number | null; sentiment: 'positive' | 'neutral' | 'negative'; humanReviewRequired: boolean }>>(new Map());
   const [adherenceScores, setAdherenceScores] = useState<Map<string, number>>(new Map());
+  // Calls selected for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Use useMemo to stabilize the admin check and prevent infinite renders
   const isAdmin = useMemo(() => canViewSensitiveInfo(user), [user]);
+
+  // Transcript and summary matches come from the server
+  const callSearch = useCallSearch(searchTerm, clientId);
   
   // Use ref to track if we're currently fetching to prevent overlapping requests
   const isFetchingRef = useRef(false);
@@ -167,60 +232,64 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
 
   // Handle sorting
   const handleSort = (field: keyof CallLog) => {
+    setSortByRelevance(false);
     if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      updateView({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      updateView({ sortField: field, sortDirection: 'asc' });
     }
   };
 
   // Filter and sort call logs
-  // Apply advanced filters and existing filters
-  const filteredAndSortedLogs = callLogs
+  // Apply advanced filters and existing filters; calls paged by the parent arrive
+  // filtered and sorted by the server
+  const filteredAndSortedLogs = serverFiltered ? callLogs : callLogs
     .filter(log => {
       // 1. Call type filter (existing)
       if (selectedCallType && log.call_type?.toLowerCase() !== selectedCallType.toLowerCase()) {
         return false;
       }
 
-      // 2. Advanced filters (score, sentiment, inquiry type, review required)
+      // 2. Advanced filters on the loaded calls (score, sentiment, inquiry type, review
+      // required, adherence); empty when the parent filters on the server
       const evaluation = evaluations.get(log.id);
       // Score filter (1-5, nullable)
       const evalScore = evaluation?.overallScore ?? null;
       if (
-        (advancedFilters.minScore !== undefined && (evalScore === null || evalScore < advancedFilters.minScore)) ||
-        (advancedFilters.maxScore !== undefined && (evalScore === null || evalScore > advancedFilters.maxScore))
+        (activeLocalFilters.minScore !== undefined && (evalScore === null || evalScore < activeLocalFilters.minScore)) ||
+        (activeLocalFilters.maxScore !== undefined && (evalScore === null || evalScore > activeLocalFilters.maxScore))
       ) {
         return false;
       }
-      // Sentiment filter - handle '__all__' sentinel value
-      const sentiment = evaluation?.sentiment ?? '';
-      if (advancedFilters.sentiment && advancedFilters.sentiment !== '__all__' && sentiment !== advancedFilters.sentiment) {
+      // Sentiment filter
+      if (activeLocalFilters.sentiment && evaluation?.sentiment !== activeLocalFilters.sentiment) {
         return false;
       }
-      // Inquiry type filter (from inquiryTypes map) - handle '__all__' sentinel value
+      // Inquiry type filter (from inquiryTypes map)
       const inquiryType = inquiryTypes.get(log.id) ?? '';
-      if (advancedFilters.inquiryType && advancedFilters.inquiryType !== '__all__' && inquiryType !== advancedFilters.inquiryType) {
+      if (activeLocalFilters.inquiryType && inquiryType !== activeLocalFilters.inquiryType) {
         return false;
       }
       // Review required filter (boolean in LeadEvaluation)
-      const reviewEvaluation = evaluations.get(log.id);
+      if (activeLocalFilters.reviewRequired && !evaluation?.humanReviewRequired) {
+        return false;
+      }
+      // Prompt adherence filter (0-100, nullable)
+      const adherence = adherenceScores.get(log.id) ?? null;
       if (
-        advancedFilters.reviewRequired !== undefined &&
-        reviewEvaluation?.humanReviewRequired !== undefined &&
-        reviewEvaluation?.humanReviewRequired !== advancedFilters.reviewRequired
+        (activeLocalFilters.minAdherence !== undefined && (adherence === null || adherence < activeLocalFilters.minAdherence)) ||
+        (activeLocalFilters.maxAdherence !== undefined && (adherence === null || adherence > activeLocalFilters.maxAdherence))
       ) {
         return false;
       }
 
-      // 3. Search filter (existing)
+      // 3. Search filter: server matches (summary, transcript, caller) plus local fields
       if (searchTerm) {
         const search = searchTerm.toLowerCase();
         return (
+          callSearch.matches.has(log.id) ||
           (log.caller_full_name?.toLowerCase().includes(search) || false) ||
           (log.caller_phone_number?.toLowerCase().includes(search) || false) ||
-          (log.transcript?.toLowerCase().includes(search) || false) ||
           (log.client_id?.toLowerCase().includes(search) || false) ||
           (inquiryType.toLowerCase().includes(search) || false) ||
           (log.call_type?.toLowerCase().includes(search) || false)
@@ -229,6 +298,12 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
       return true;
     })
     .sort((a, b) => {
+      // Best search match first
+      if (sortByRelevance && callSearch.active) {
+        const byRank = (callSearch.matches.get(b.id)?.rank ?? -1) - (callSearch.matches.get(a.id)?.rank ?? -1);
+        if (byRank !== 0) return byRank;
+      }
+
       // Handle sorting based on field type
       if (sortField === 'call_start_time' || sortField === 'call_end_time') {
         const dateA = a[sortField] ? new Date(a[sortField]!) : new Date(0);
@@ -254,6 +329,26 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
         valueB.localeCompare(valueA);
     });
 
+  // Bulk actions apply to the selected calls the filters still show
+  const selectedCalls = filteredAndSortedLogs.filter(log => selectedIds.has(log.id));
+  const allSelected = filteredAndSortedLogs.length > 0 && selectedCalls.length === filteredAndSortedLogs.length;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredAndSortedLogs.map(log => log.id)) : new Set());
+  };
+
   // Render sort icon
   const renderSortIcon = (field: keyof CallLog) => {
     if (sortField !== field) return null;
@@ -278,7 +373,7 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
     </TableHead>
   );
 
-  const colSpan = 7; // Always show all 7 columns, including Lead, for all users
+  const colSpan = 9; // Always show all 9 columns, including Lead and Outcome, for all users
 
   return (
     <div className="bg-card rounded-lg shadow-sm md:shadow border border-border overflow-hidden w-full mx-auto">
@@ -294,11 +389,19 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
             </div>
             <input
               type="text"
-              placeholder="Search by name, phone, inquiry type..."
-              className="pl-10 pr-3 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm"
+              placeholder="Search names, phones, transcripts, summaries..."
+              className="pl-10 pr-9 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm"
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                updateView({ search: e.target.value });
+                setSortByRelevance(true);
+              }}
             />
+            {callSearch.searching && (
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                <Loader2 className="h-4 w-4 animate-spin text-foreground/50" />
+              </div>
+            )}
           </div>
 
           {/* Call Type Filter */}
@@ -310,7 +413,7 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
             <select
               className="pl-10 pr-8 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm appearance-none"
               value={selectedCallType || 'all'}
-              onChange={(e) => setSelectedCallType(e.target.value === 'all' ? null : e.target.value)}
+              onChange={(e) => updateView({ callKind: e.target.value === 'all' ? null : e.target.value })}
             >
               <option value="all">All Call Types</option>
               <option value={CallType.INBOUND}>Inbound</option>
@@ -330,17 +433,33 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
         </div>
       </div>
       
+      {/* Bulk actions on the selected calls */}
+      <CallBulkActionsBar
+        selectedCalls={selectedCalls}
+        onSelectionChange={ids => setSelectedIds(new Set(ids))}
+        onComplete={onRefresh}
+      />
+
       {/* Table */}
       <div className="overflow-x-auto w-full">
         <Table className="w-full ">
           <TableHeader>
             <TableRow>
+              <TableHead className="px-3 py-3 w-[40px]">
+                <Checkbox
+                  checked={allSelected ? true : selectedCalls.length > 0 ? 'indeterminate' : false}
+                  onCheckedChange={checked => toggleAllSelected(checked === true)}
+                  disabled={filteredAndSortedLogs.length === 0}
+                  aria-label="Select all calls"
+                />
+              </TableHead>
               {/* Make caller column width responsive to reduce overflow on small screens */}
               <SortableHeader field="caller_full_name" label="Caller" className="px-3 sm:px-4 py-3 text-xs whitespace-nowrap w-[180px] sm:w-[220px]" />
               {/* Phone Number column (desktop only) - shows caller's phone number */}
               <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell whitespace-nowrap">Phone Number</TableHead>
               {/* Reduce Lead column width */}
               <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell whitespace-nowrap w-[90px]">Lead</TableHead>
+              <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell whitespace-nowrap w-[140px]">Outcome</TableHead>
               <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell whitespace-nowrap w-[120px]">Inquiry Type</TableHead>
               <SortableHeader field="call_start_time" label="Time" className="px-3 sm:px-4 py-3 text-xs whitespace-nowrap" />
               <SortableHeader field="call_type" label="Type" className="px-3 sm:px-4 py-3 text-xs hidden sm:table-cell whitespace-nowrap w-[110px]" />
@@ -386,6 +505,13 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
                   }}
                   title="Click to view call details"
                 >
+                  <TableCell className="px-3 py-3 sm:py-4 w-[40px]">
+                    <Checkbox
+                      checked={selectedIds.has(log.id)}
+                      onCheckedChange={checked => toggleSelected(log.id, checked === true)}
+                      aria-label={`Select call from ${log.caller_full_name || 'unknown caller'}`}
+                    />
+                  </TableCell>
                   <TableCell className="px-3 sm:px-4 py-3 sm:py-4 w-[220px]">
                     <div className="flex items-center">
                       <div className="flex-shrink-0 h-8 w-8 sm:h-9 sm:w-9 rounded-full bg-primary/10 flex items-center justify-center">
@@ -395,6 +521,17 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
                         <div className="text-sm sm:text-base font-semibold text-foreground truncate">
                           {log.caller_full_name || 'Unknown'}
                         </div>
+                        {log.tags && log.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {log.tags.map(tag => (
+                              <Badge key={tag} variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {/* Where the search matched the transcript or summary */}
+                        {callSearch.active && <CallSearchSnippet match={callSearch.matches.get(log.id)} />}
                         {/* For admin: show client name below caller name, just like LeadsTable */}
                         {isAdmin && log.client_name && (
                           <div className="flex items-center mt-0.5 text-xs text-foreground/60">
@@ -443,6 +580,10 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
                       <span className="text-xs text-foreground/50">—</span>
                     )}
                   </TableCell>
+                  {/* Outcome classified in the database (calls.outcome) */}
+                  <TableCell className="px-3 sm:px-4 py-3 sm:py-4 hidden md:table-cell">
+                    <CallOutcomeBadge outcome={log.outcome} />
+                  </TableCell>
                   <TableCell className="px-3 sm:px-4 py-3 sm:py-4 hidden md:table-cell">
                     {log.id && inquiryTypes.get(log.id) ? (
                       <InquiryTypeBadge inquiryType={inquiryTypes.get(log.id)!} />
@@ -495,14 +636,15 @@ const CallLogsTable: React.FC<CallLogsTableProps> = ({
       {/* Pagination section */}
       <div className="px-3 sm:px-4 py-3 sm:py-4 bg-secondary/30 border-t border-border flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 sm:gap-3">
         <div className="text-xs sm:text-sm text-foreground/70">
-          Showing {filteredAndSortedLogs.length} of {callLogs.length} call logs
+          Showing {filteredAndSortedLogs.length} of {totalCount ?? callLogs.length} call logs
         </div>
 
-        {/* Placeholder for future pagination controls */}
-        {filteredAndSortedLogs.length > 10 && (
-          <div className="flex items-center space-x-2 text-xs sm:text-sm">
-            <span className="text-foreground/70">Page 1</span>
-          </div>
+        {/* Next page (cursor pagination by the parent) */}
+        {hasMore && onLoadMore && (
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={loadingMore || loading}>
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
         )}
       </div>
 
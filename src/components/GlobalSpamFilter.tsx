@@ -0,0 +1,30 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+
+/**
+ * GlobalSpamFilter component for the TopBar, next to GlobalCallTypeFilter
+ * Spam and robocalls are left out of call KPIs by default; this switch brings them back
+ */
+interface GlobalSpamFilterProps {
+  includeSpam: boolean;
+  onIncludeSpamChange: (include: boolean) => void;
+}
+
+const GlobalSpamFilter: React.FC<GlobalSpamFilterProps> = ({ includeSpam, onIncludeSpamChange }) => {
+  return (
+    <div className="hidden md:flex items-center gap-2 px-3 h-8 bg-background border border-border rounded-sm">
+      <Switch
+        id="global-include-spam"
+        checked={includeSpam}
+        onCheckedChange={onIncludeSpamChange}
+        className="scale-75"
+      />
+      <Label htmlFor="global-include-spam" className="text-xs font-normal cursor-pointer whitespace-nowrap">
+        Include spam
+      </Label>
+    </div>
+  );
+};
+
+export default GlobalSpamFilter;
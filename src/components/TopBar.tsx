@@ -27,6 +27,7 @@ import { useSystemStatus, MessageType } from '@/hooks/use-system-status';
 import { AgentStatus } from '@/types/dashboard';
 import GlobalClientSelector from './GlobalClientSelector';
 import GlobalCallTypeFilter from './GlobalCallTypeFilter';
+import GlobalSpamFilter from './GlobalSpamFilter';
 import { useCallType } from '@/context/CallTypeContext';
 
 const TopBar = () => {
@@ -273,8 +274,13 @@ const TopBar = () => {
   <span className="hidden md:inline mx-1 text-[hsl(var(--border))] select-none">/</span>
   {/* Global Call Type Filter for admins, context-driven */}
   {(() => {
-    const { selectedCallType, setSelectedCallType } = useCallType();
-    return <GlobalCallTypeFilter selectedCallType={selectedCallType} onCallTypeChange={setSelectedCallType} />;
+    const { selectedCallType, setSelectedCallType, includeSpam, setIncludeSpam } = useCallType();
+    return (
+      <>
+        <GlobalCallTypeFilter selectedCallType={selectedCallType} onCallTypeChange={setSelectedCallType} />
+        <GlobalSpamFilter includeSpam={includeSpam} onIncludeSpamChange={setIncludeSpam} />
+      </>
+    );
   })()}
   {/* Separator for future filters 
   <span className="hidden md:inline mx-1 text-[hsl(var(--border))] select-none">/</span> */}
@@ -2,6 +2,8 @@ import React, { useEffect, useRef } from 'react';
 import { useRealtimeAgentStatus } from '@/hooks/useRealtimeAgentStatus';
 import { useRealtimeSystemMessages } from '@/hooks/useRealtimeSystemMessages';
 import { useRealtimeDashboardMetrics } from '@/hooks/useRealtimeDashboardMetrics';
+import { useCallbackReminders } from '@/hooks/useCallbackReminders';
+import type { Notification } from '@/hooks/useRealtimeNotifications';
 import { AgentStatus, SystemMessage } from '@/types/admin';
 import { DashboardMetrics } from '@/types/dashboard';
 import { toast } from 'sonner';
@@ -11,9 +13,11 @@ interface RealtimeNotificationSystemProps {
   enableAgentStatusNotifications?: boolean;
   enableSystemMessageNotifications?: boolean;
   enableMetricsNotifications?: boolean;
+  enableCallbackReminders?: boolean;
   onAgentStatusChange?: (status: AgentStatus) => void;
   onSystemMessagesChange?: (messages: SystemMessage[]) => void;
   onMetricsChange?: (metrics: DashboardMetrics) => void;
+  onCallbackReminder?: (notification: Notification) => void;
 }
 
 /**
@@ -25,9 +29,11 @@ const RealtimeNotificationSystem: React.FC<RealtimeNotificationSystemProps> = ({
   enableAgentStatusNotifications = true,
   enableSystemMessageNotifications = true,
   enableMetricsNotifications = false, // Usually disabled to avoid spam
+  enableCallbackReminders = false, // AppLayout already runs reminders for the main app
   onAgentStatusChange,
   onSystemMessagesChange,
-  onMetricsChange
+  onMetricsChange,
+  onCallbackReminder
 }) => {
   const lastNotificationRef = useRef<{ [key: string]: number }>({});
 
@@ -158,6 +164,12 @@ const RealtimeNotificationSystem: React.FC<RealtimeNotificationSystemProps> = ({
     }
   });
 
+  // Lead Callback Reminders
+  useCallbackReminders({
+    enabled: enableCallbackReminders,
+    onReminder: onCallbackReminder
+  });
+
   // Connection Status Monitoring
   useEffect(() => {
     const connections = [
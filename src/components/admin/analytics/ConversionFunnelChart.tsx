@@ -2,51 +2,34 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { TrendingDown, Users, Phone, UserCheck } from 'lucide-react';
+import { TrendingDown, Users, Phone, UserCheck, CalendarCheck } from 'lucide-react';
 import { formatNumber, formatPercentage } from '@/utils/formatting';
+import { buildCallOutcomeFunnel } from '@/utils/callOutcome';
+import type { CallOutcomeCounts } from '@/types/callOutcome';
 
 interface ConversionFunnelChartProps {
-  totalCalls: number;
-  totalLeads: number;
-  conversionRate: number;
+  outcomeCounts: CallOutcomeCounts; // Calls by stored outcome (countCallOutcomes)
 }
 
+// Icon and color of each funnel stage, in buildCallOutcomeFunnel order
+const STAGE_STYLES = [
+  { icon: Phone, color: 'bg-blue-500' },
+  { icon: Users, color: 'bg-purple-500' },
+  { icon: UserCheck, color: 'bg-orange-500' },
+  { icon: CalendarCheck, color: 'bg-green-500' }
+];
+
 export const ConversionFunnelChart: React.FC<ConversionFunnelChartProps> = ({
-  totalCalls,
-  totalLeads,
-  conversionRate
+  outcomeCounts
 }) => {
-  // Calculate funnel stages
-  const stages = [
-    {
-      name: 'Total Calls',
-      value: totalCalls,
-      percentage: 100,
-      icon: Phone,
-      color: 'bg-blue-500'
-    },
-    {
-      name: 'Qualified Calls',
-      value: Math.floor(totalCalls * 0.8), // Assume 80% are qualified
-      percentage: 80,
-      icon: Users,
-      color: 'bg-purple-500'
-    },
-    {
-      name: 'Interested Prospects',
-      value: Math.floor(totalCalls * 0.4), // Assume 40% show interest
-      percentage: 40,
-      icon: TrendingDown,
-      color: 'bg-orange-500'
-    },
-    {
-      name: 'Generated Leads',
-      value: totalLeads,
-      percentage: conversionRate,
-      icon: UserCheck,
-      color: 'bg-green-500'
-    }
-  ];
+  // Funnel stages from the calls' classified outcomes
+  const stages = buildCallOutcomeFunnel(outcomeCounts).map((stage, index) => ({
+    ...stage,
+    ...STAGE_STYLES[index]
+  }));
+  const totalCalls = stages[0].value;
+  const totalLeads = stages[2].value;
+  const conversionRate = stages[2].percentage;
 
   const maxValue = Math.max(...stages.map(stage => stage.value));
 
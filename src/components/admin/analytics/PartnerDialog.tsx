@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { Partner, PartnerInput } from '@/types/partnerPayout';
+import { PartnerPayoutService } from '@/services/partnerPayoutService';
+
+interface PartnerDialogProps {
+  open: boolean;
+  /** Partner to edit, or null to add one */
+  partner: Partner | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (partner: Partner) => void;
+}
+
+const EMPTY_PARTNER: PartnerInput = {
+  name: '',
+  contact_person: null,
+  contact_email: null,
+  notes: null,
+  is_active: true,
+};
+
+/**
+ * Add or edit a partner's details
+ * Inactive partners keep their statements but are left out of new months
+ */
+export const PartnerDialog: React.FC<PartnerDialogProps> = ({ open, partner, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [values, setValues] = useState<PartnerInput>(EMPTY_PARTNER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setValues(partner
+        ? {
+            name: partner.name,
+            contact_person: partner.contact_person,
+            contact_email: partner.contact_email,
+            notes: partner.notes,
+            is_active: partner.is_active,
+          }
+        : EMPTY_PARTNER);
+    }
+  }, [open, partner]);
+
+  const setValue = <K extends keyof PartnerInput>(key: K, value: PartnerInput[K]) =>
+    setValues(current => ({ ...current, [key]: value }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = partner
+        ? await PartnerPayoutService.updatePartner(partner.id, values)
+        : await PartnerPayoutService.createPartner(values);
+      onSaved(saved);
+      toast({ title: partner ? 'Partner Updated' : 'Partner Added', description: saved.name });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save partner:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save partner.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{partner ? 'Edit Partner' : 'Add Partner'}</DialogTitle>
+          <DialogDescription>
+            Partners are paid the finder's fee and split of the clients linked to them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="partner-name">Name</Label>
+            <Input
+              id="partner-name"
+              maxLength={200}
+              value={values.name}
+              onChange={event => setValue('name', event.target.value)}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="partner-contact-person">Contact person</Label>
+              <Input
+                id="partner-contact-person"
+                value={values.contact_person || ''}
+                onChange={event => setValue('contact_person', event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="partner-contact-email">Contact email</Label>
+              <Input
+                id="partner-contact-email"
+                type="email"
+                value={values.contact_email || ''}
+                onChange={event => setValue('contact_email', event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="partner-notes">Notes</Label>
+            <Textarea
+              id="partner-notes"
+              rows={3}
+              value={values.notes || ''}
+              onChange={event => setValue('notes', event.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="partner-active"
+              checked={values.is_active}
+              onCheckedChange={checked => setValue('is_active', checked)}
+            />
+            <Label htmlFor="partner-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={isSaving || !values.name.trim()} onClick={handleSave}>
+            {isSaving ? 'Saving...' : 'Save Partner'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, FileDown, FileText, Trash2 } from 'lucide-react';
+import type { Partner, PayoutStatementStatus, PayoutStatementWithLines } from '@/types/partnerPayout';
+import { PartnerPayoutService } from '@/services/partnerPayoutService';
+import { downloadFile } from '@/utils/exportUtils';
+import { pdfToBytes } from '@/utils/pdf';
+import { formatCurrency, formatDate, formatPercentage } from '@/utils/formatters';
+import { formatBillingMonth } from '@/utils/invoices';
+import {
+  PAYOUT_BILLING_SOURCE_LABELS,
+  PAYOUT_STATUS_LABELS,
+  buildPayoutStatementCsv,
+  buildPayoutStatementPdf,
+  getPayoutStatementFilename,
+} from '@/utils/partnerPayouts';
+
+const STATUS_CLASSES: Record<PayoutStatementStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+export const PayoutStatusBadge: React.FC<{ status: PayoutStatementStatus }> = ({ status }) => (
+  <Badge className={STATUS_CLASSES[status]}>{PAYOUT_STATUS_LABELS[status]}</Badge>
+);
+
+interface PayoutStatementDialogProps {
+  partner: Partner;
+  statement: PayoutStatementWithLines | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the updated statement, or null when a pending statement was deleted */
+  onChanged: (statement: PayoutStatementWithLines | null) => void;
+}
+
+/**
+ * A payout statement's lines and totals, with its downloads
+ * Pending statements can be marked paid or deleted to generate them again
+ */
+export const PayoutStatementDialog: React.FC<PayoutStatementDialogProps> = ({ partner, statement, onOpenChange, onChanged }) => {
+  const { toast } = useToast();
+  const [isWorking, setIsWorking] = useState(false);
+  const [paymentReference, setPaymentReference] = useState('');
+
+  useEffect(() => {
+    setPaymentReference('');
+  }, [statement?.id]);
+
+  if (!statement) return null;
+
+  const isPending = statement.status === 'pending';
+  const money = (amount: number) => formatCurrency(amount, statement.currency, 'en-CA');
+
+  const runAction = async (action: () => Promise<PayoutStatementWithLines | null>, title: string) => {
+    setIsWorking(true);
+    try {
+      const updated = await action();
+      onChanged(updated);
+      toast({ title });
+      return true;
+    } catch (error) {
+      console.error('Payout statement action failed:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update statement.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const deleted = await runAction(async () => {
+      await PartnerPayoutService.deletePendingStatement(statement.id);
+      return null;
+    }, 'Statement Deleted');
+    if (deleted) onOpenChange(false);
+  };
+
+  const handleDownloadPdf = () => {
+    const pdf = buildPayoutStatementPdf(statement, partner);
+    downloadFile(new Blob([pdfToBytes(pdf)], { type: 'application/pdf' }), getPayoutStatementFilename(statement, partner, 'pdf'));
+  };
+
+  const handleDownloadCsv = () => {
+    downloadFile(buildPayoutStatementCsv(statement, partner), getPayoutStatementFilename(statement, partner, 'csv'), 'text/csv');
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            {partner.name}
+            <PayoutStatusBadge status={statement.status} />
+          </DialogTitle>
+          <DialogDescription>
+            Payout statement for {formatBillingMonth(statement.billing_month)} · generated {formatDate(statement.created_at)}
+            {statement.paid_at && ` · paid ${formatDate(statement.paid_at)}`}
+            {statement.payment_reference && ` (${statement.payment_reference})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead className="text-right">Billing</TableHead>
+              <TableHead className="text-right">Finder's fee</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+              <TableHead className="text-right">Split %</TableHead>
+              <TableHead className="text-right">Split</TableHead>
+              <TableHead className="text-right">Payout</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {statement.lines.map(line => (
+              <TableRow key={line.id}>
+                <TableCell>
+                  <div>{line.client_name}</div>
+                  <div className="text-xs text-muted-foreground">{PAYOUT_BILLING_SOURCE_LABELS[line.billing_source]}</div>
+                </TableCell>
+                <TableCell className="text-right">{money(line.billing_cad)}</TableCell>
+                <TableCell className="text-right">{money(-line.finders_fee_cad)}</TableCell>
+                <TableCell className="text-right">{money(line.net_revenue_cad)}</TableCell>
+                <TableCell className="text-right">{formatPercentage(line.split_percentage * 100)}</TableCell>
+                <TableCell className="text-right">{money(line.split_cad)}</TableCell>
+                <TableCell className="text-right font-medium">{money(line.payout_cad)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="ml-auto w-72 space-y-1 text-sm">
+          <div className="flex justify-between"><span>Billing</span><span>{money(statement.total_billing_cad)}</span></div>
+          <div className="flex justify-between"><span>Finder's fees</span><span>{money(statement.total_finders_fees_cad)}</span></div>
+          <div className="flex justify-between"><span>Splits</span><span>{money(statement.total_splits_cad)}</span></div>
+          <div className="flex justify-between font-semibold text-base">
+            <span>Payout ({statement.currency})</span><span>{money(statement.total_payout_cad)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The payout is each client's finder's fee plus the split of its billing after the fee.
+          </p>
+        </div>
+
+        {isPending && (
+          <div className="flex flex-wrap items-end gap-3 rounded-md border p-3">
+            <div className="flex-1 min-w-[200px] space-y-2">
+              <Label htmlFor="payout-reference">Payment reference (optional)</Label>
+              <Input
+                id="payout-reference"
+                placeholder="e.g. EFT 20251003-114"
+                maxLength={100}
+                value={paymentReference}
+                onChange={event => setPaymentReference(event.target.value)}
+              />
+            </div>
+            <Button
+              disabled={isWorking}
+              onClick={() => runAction(() => PartnerPayoutService.markPaid(statement.id, paymentReference), 'Statement Marked as Paid')}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Mark Paid
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleDownloadPdf}>
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadCsv}>
+              <FileDown className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+          {isPending && (
+            <Button variant="outline" size="sm" className="text-red-600" disabled={isWorking} onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Statement
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
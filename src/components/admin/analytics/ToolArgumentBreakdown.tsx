@@ -0,0 +1,73 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Braces } from 'lucide-react';
+import type { ToolArgumentBreakdown as ToolArgumentBreakdownData } from '@/types/toolCalls';
+import { formatNumber } from '@/utils/formatting';
+
+interface ToolArgumentBreakdownProps {
+  toolName: string;
+  breakdown: ToolArgumentBreakdownData[];
+  onSelectValue?: (key: string, value: string) => void;
+}
+
+// Share of a value's invocations that came back empty or failed
+const getMissRate = (count: number, misses: number) => (count > 0 ? Math.round((misses / count) * 100) : 0);
+
+export const ToolArgumentBreakdown: React.FC<ToolArgumentBreakdownProps> = ({
+  toolName,
+  breakdown,
+  onSelectValue
+}) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Braces className="h-5 w-5" />
+          Arguments
+        </CardTitle>
+        <CardDescription>
+          What <span className="font-mono">{toolName}</span> is called with, and how often each value came back empty or failed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {breakdown.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No arguments recorded for this tool</div>
+        ) : (
+          breakdown.map(argument => (
+            <div key={argument.key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-sm font-medium">{argument.key}</span>
+                <span className="text-xs text-muted-foreground">{formatNumber(argument.invocations)} calls</span>
+              </div>
+              <div className="space-y-1">
+                {argument.values.map(value => {
+                  const missRate = getMissRate(value.count, value.empty + value.failed);
+                  return (
+                    <button
+                      key={value.value}
+                      type="button"
+                      className="w-full flex items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-muted disabled:cursor-default disabled:hover:bg-transparent"
+                      onClick={() => onSelectValue?.(argument.key, value.value)}
+                      disabled={!onSelectValue}
+                    >
+                      <span className="truncate" title={value.value}>{value.value}</span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <span className="text-xs text-muted-foreground">{formatNumber(value.count)}</span>
+                        {missRate > 0 && (
+                          <Badge variant={missRate >= 50 ? 'destructive' : 'secondary'} className="text-xs">
+                            {missRate}% miss
+                          </Badge>
+                        )}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
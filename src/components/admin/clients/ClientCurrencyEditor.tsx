@@ -0,0 +1,88 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Save } from 'lucide-react';
+import { Client } from '@/types/admin';
+import { CurrencyPreferenceService } from '@/services/currencyPreferenceService';
+import { CURRENCY_LABELS, SUPPORTED_CURRENCIES, getClientBillingCurrency, type CurrencyCode } from '@/utils/currency';
+
+interface ClientCurrencyEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+/**
+ * Editor for a client's billing currency (config_json.billing_currency)
+ * Invoices are issued in it and the client's users see financial figures in it
+ * unless they picked their own display currency
+ */
+const ClientCurrencyEditor: React.FC<ClientCurrencyEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const savedCurrency = useMemo(() => getClientBillingCurrency(client.config_json), [client.config_json]);
+  const [currency, setCurrency] = useState<CurrencyCode>(savedCurrency);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrency(savedCurrency);
+  }, [savedCurrency]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await CurrencyPreferenceService.saveClientBillingCurrency(client, currency);
+      onSaved(updatedClient);
+      toast({
+        title: 'Billing Currency Updated',
+        description: `${client.name} is now billed in ${currency}.`,
+      });
+    } catch (error) {
+      console.error('Failed to save client billing currency:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save billing currency.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Billing Currency</CardTitle>
+        <CardDescription>
+          New invoices are issued in this currency, converted from CAD at the rate of the billing month's last day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3">
+        <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+          <SelectTrigger className="w-full max-w-[280px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUPPORTED_CURRENCIES.map(option => (
+              <SelectItem key={option} value={option}>
+                {CURRENCY_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          size="sm"
+          className="ml-auto"
+          disabled={currency === savedCurrency || isSaving}
+          onClick={handleSave}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Currency'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClientCurrencyEditor;
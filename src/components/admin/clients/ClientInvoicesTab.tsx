@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, Eye, FilePlus, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { Client } from '@/types/admin';
+import type { ClientInvoice, ClientInvoiceWithLines } from '@/types/invoice';
+import { InvoiceService } from '@/services/invoiceService';
+import InvoiceSettingsEditor from './InvoiceSettingsEditor';
+import InvoiceDetailsDialog from './InvoiceDetailsDialog';
+import InvoiceStatusBadge from './InvoiceStatusBadge';
+import { downloadFile, generateExportFilename } from '@/utils/exportUtils';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { buildInvoiceHistoryCsv, formatBillingMonth, getBillingMonth } from '@/utils/invoices';
+
+// Months offered when generating an invoice, most recent first
+const BILLING_MONTH_OPTIONS = 12;
+
+interface ClientInvoicesTabProps {
+  client: Client;
+  onClientSaved: (client: Client) => void;
+}
+
+/**
+ * A client's invoice history, with generation of monthly invoices
+ */
+const ClientInvoicesTab: React.FC<ClientInvoicesTabProps> = ({ client, onClientSaved }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [invoices, setInvoices] = useState<ClientInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [billingMonth, setBillingMonth] = useState(() => getBillingMonth(1));
+  const [openInvoice, setOpenInvoice] = useState<ClientInvoiceWithLines | null>(null);
+
+  // The current month first, so a month can be invoiced before it ends
+  const monthOptions = useMemo(
+    () => Array.from({ length: BILLING_MONTH_OPTIONS }, (_, index) => getBillingMonth(index)),
+    []
+  );
+
+  const loadInvoices = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setInvoices(await InvoiceService.getClientInvoices(client.id));
+    } catch (error) {
+      console.error('Failed to load invoices:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load invoices.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client.id, toast]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const invoice = await InvoiceService.generateInvoice(client, billingMonth, user?.id);
+      setOpenInvoice(invoice);
+      await loadInvoices();
+      toast({
+        title: 'Draft Invoice Created',
+        description: `${formatBillingMonth(billingMonth)}: ${formatCurrency(invoice.total, invoice.currency, 'en-CA')}`,
+      });
+    } catch (error) {
+      console.error('Failed to generate invoice:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate invoice.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleView = async (invoiceId: string) => {
+    try {
+      setOpenInvoice(await InvoiceService.getInvoice(invoiceId));
+    } catch (error) {
+      console.error('Failed to load invoice:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load invoice.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleChanged = (invoice: ClientInvoiceWithLines | null) => {
+    setOpenInvoice(invoice);
+    loadInvoices();
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      buildInvoiceHistoryCsv(invoices),
+      generateExportFilename(`invoices_${client.slug}`, 'csv'),
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <InvoiceSettingsEditor client={client} onSaved={onClientSaved} />
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">Invoices</CardTitle>
+            <CardDescription>
+              Monthly invoices from the plan fee and call usage. Test and spam calls are not billed.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={billingMonth} onValueChange={setBillingMonth}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {monthOptions.map(month => (
+                  <SelectItem key={month} value={month}>{formatBillingMonth(month)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleGenerate} disabled={isGenerating}>
+              <FilePlus className="h-4 w-4 mr-2" />
+              {isGenerating ? 'Generating...' : 'Generate Invoice'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={invoices.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadInvoices} disabled={isLoading} aria-label="Refresh invoices">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading invoices...</p>
+          ) : invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Usage</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => (
+                  <TableRow key={invoice.id} className={invoice.status === 'void' ? 'text-muted-foreground' : undefined}>
+                    <TableCell className="font-medium">{invoice.invoice_number || '—'}</TableCell>
+                    <TableCell>{formatBillingMonth(invoice.billing_month)}</TableCell>
+                    <TableCell><InvoiceStatusBadge status={invoice.status} /></TableCell>
+                    <TableCell className="text-right">
+                      {invoice.billable_calls} calls · {invoice.billable_minutes} min
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(invoice.total, invoice.currency, 'en-CA')}</TableCell>
+                    <TableCell>{invoice.issued_at ? formatDate(invoice.issued_at) : '—'}</TableCell>
+                    <TableCell>{invoice.due_at ? formatDate(invoice.due_at) : '—'}</TableCell>
+                    <TableCell>{invoice.paid_at ? formatDate(invoice.paid_at) : '—'}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => handleView(invoice.id)} aria-label="View invoice">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceDetailsDialog
+        client={client}
+        invoice={openInvoice}
+        onOpenChange={open => !open && setOpenInvoice(null)}
+        onChanged={handleChanged}
+      />
+    </div>
+  );
+};
+
+export default ClientInvoicesTab;
@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Save } from 'lucide-react';
+import { Client } from '@/types/admin';
+import { LeadCallbackService } from '@/services/leadCallbackService';
+import { CALLBACK_TIMEZONES, formatCallbackTime, getClientTimezone } from '@/utils/callbackTiming';
+
+interface ClientTimezoneEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+/**
+ * Editor for a client's timezone (config_json.timezone)
+ * Callback timing captured on calls ("tomorrow after 3") is read in this timezone
+ */
+const ClientTimezoneEditor: React.FC<ClientTimezoneEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const savedTimezone = useMemo(() => getClientTimezone(client.config_json), [client.config_json]);
+  const [timeZone, setTimeZone] = useState(savedTimezone);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setTimeZone(savedTimezone);
+  }, [savedTimezone]);
+
+  // Keep a timezone set outside this list selectable
+  const options = CALLBACK_TIMEZONES.some(option => option.value === savedTimezone)
+    ? CALLBACK_TIMEZONES
+    : [...CALLBACK_TIMEZONES, { value: savedTimezone, label: savedTimezone }];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await LeadCallbackService.saveClientTimezone(client, timeZone);
+      onSaved(updatedClient);
+      toast({
+        title: 'Timezone Updated',
+        description: `${client.name} is now on ${timeZone.replace(/_/g, ' ')} time.`,
+      });
+    } catch (error) {
+      console.error('Failed to save client timezone:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save client timezone.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Timezone</CardTitle>
+        <CardDescription>
+          Callback times requested by customers are scheduled in the dealership's local time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3">
+        <Select value={timeZone} onValueChange={setTimeZone}>
+          <SelectTrigger className="w-full max-w-[280px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label} ({option.value.replace(/_/g, ' ')})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">Now: {formatCallbackTime(new Date(), timeZone)}</span>
+        <Button
+          type="button"
+          size="sm"
+          className="ml-auto"
+          disabled={timeZone === savedTimezone || isSaving}
+          onClick={handleSave}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Timezone'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClientTimezoneEditor;
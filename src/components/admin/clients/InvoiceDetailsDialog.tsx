@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { Ban, CheckCircle, FileDown, FileText, Send, Trash2, X } from 'lucide-react';
+import { Client } from '@/types/admin';
+import type { ClientInvoiceWithLines } from '@/types/invoice';
+import { InvoiceService } from '@/services/invoiceService';
+import InvoiceStatusBadge from './InvoiceStatusBadge';
+import { downloadFile } from '@/utils/exportUtils';
+import { pdfToBytes } from '@/utils/pdf';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import {
+  INVOICE_LINE_TYPE_LABELS,
+  buildInvoiceCsv,
+  buildInvoicePdf,
+  canTransitionInvoice,
+  formatBillingMonth,
+  getInvoiceFilename,
+} from '@/utils/invoices';
+
+interface InvoiceDetailsDialogProps {
+  client: Client;
+  invoice: ClientInvoiceWithLines | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the updated invoice, or null when a draft was deleted */
+  onChanged: (invoice: ClientInvoiceWithLines | null) => void;
+}
+
+/**
+ * An invoice's line items and totals, with its status actions and downloads
+ * Credits can be added and removed while the invoice is a draft
+ */
+const InvoiceDetailsDialog: React.FC<InvoiceDetailsDialogProps> = ({ client, invoice, onOpenChange, onChanged }) => {
+  const { toast } = useToast();
+  const [isWorking, setIsWorking] = useState(false);
+  const [creditDescription, setCreditDescription] = useState('');
+  const [creditAmount, setCreditAmount] = useState('');
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+
+  useEffect(() => {
+    setCreditDescription('');
+    setCreditAmount('');
+    setIsVoiding(false);
+    setVoidReason('');
+  }, [invoice?.id]);
+
+  if (!invoice) return null;
+
+  const isDraft = invoice.status === 'draft';
+  const money = (amount: number) => formatCurrency(amount, invoice.currency, 'en-CA');
+
+  const runAction = async (action: () => Promise<ClientInvoiceWithLines | null>, title: string) => {
+    setIsWorking(true);
+    try {
+      const updated = await action();
+      onChanged(updated);
+      toast({ title });
+      return true;
+    } catch (error) {
+      console.error('Invoice action failed:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update invoice.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAddCredit = async () => {
+    const added = await runAction(
+      () => InvoiceService.addCredit(invoice, creditDescription, Number(creditAmount)),
+      'Credit Added'
+    );
+    if (added) {
+      setCreditDescription('');
+      setCreditAmount('');
+    }
+  };
+
+  const handleDeleteDraft = async () => {
+    const deleted = await runAction(async () => {
+      await InvoiceService.deleteDraft(invoice.id);
+      return null;
+    }, 'Draft Deleted');
+    if (deleted) onOpenChange(false);
+  };
+
+  const handleDownloadPdf = () => {
+    const pdf = buildInvoicePdf(invoice, client);
+    downloadFile(new Blob([pdfToBytes(pdf)], { type: 'application/pdf' }), getInvoiceFilename(invoice, client.slug, 'pdf'));
+  };
+
+  const handleDownloadCsv = () => {
+    downloadFile(buildInvoiceCsv(invoice, client.name), getInvoiceFilename(invoice, client.slug, 'csv'), 'text/csv');
+  };
+
+  const dates: [string, string | null][] = [
+    ['Issued', invoice.issued_at],
+    ['Due', invoice.due_at],
+    ['Paid', invoice.paid_at],
+    ['Voided', invoice.voided_at],
+  ];
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            {invoice.invoice_number || 'Draft Invoice'}
+            <InvoiceStatusBadge status={invoice.status} />
+          </DialogTitle>
+          <DialogDescription>
+            {client.name} · {formatBillingMonth(invoice.billing_month)} · {invoice.billable_calls} billable calls, {invoice.billable_minutes} minutes
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+          {dates.filter(([, value]) => value).map(([label, value]) => (
+            <span key={label}>{label}: {formatDate(value as string)}</span>
+          ))}
+          {invoice.void_reason && <span>Reason: {invoice.void_reason}</span>}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Unit price</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              {isDraft && <TableHead className="w-10" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoice.line_items.map(line => (
+              <TableRow key={line.id}>
+                <TableCell>{line.line_number}</TableCell>
+                <TableCell>
+                  <div>{line.description}</div>
+                  <div className="text-xs text-muted-foreground">{INVOICE_LINE_TYPE_LABELS[line.item_type]}</div>
+                </TableCell>
+                <TableCell className="text-right">{line.quantity}</TableCell>
+                <TableCell className="text-right">{money(line.unit_amount)}</TableCell>
+                <TableCell className="text-right">{money(line.amount)}</TableCell>
+                {isDraft && (
+                  <TableCell>
+                    {line.item_type === 'credit' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isWorking}
+                        onClick={() => runAction(() => InvoiceService.removeLineItem(invoice.id, line.id), 'Credit Removed')}
+                        aria-label="Remove credit"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="ml-auto w-64 space-y-1 text-sm">
+          <div className="flex justify-between"><span>Subtotal</span><span>{money(invoice.subtotal)}</span></div>
+          <div className="flex justify-between"><span>Credits</span><span>{money(-invoice.credits)}</span></div>
+          <div className="flex justify-between font-semibold text-base">
+            <span>Total ({invoice.currency})</span><span>{money(invoice.total)}</span>
+          </div>
+          {invoice.usd_to_cad_rate && (
+            <p className="text-xs text-muted-foreground">
+              Converted from CAD at 1 USD = {invoice.usd_to_cad_rate} CAD
+            </p>
+          )}
+        </div>
+
+        {isDraft && (
+          <div className="flex flex-wrap items-end gap-3 rounded-md border p-3">
+            <div className="flex-1 min-w-[200px] space-y-2">
+              <Label htmlFor="invoice-credit-description">Credit</Label>
+              <Input
+                id="invoice-credit-description"
+                placeholder="e.g. Service outage on Sep 12"
+                maxLength={200}
+                value={creditDescription}
+                onChange={event => setCreditDescription(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-credit-amount">Amount ({invoice.currency})</Label>
+              <Input
+                id="invoice-credit-amount"
+                type="number"
+                min={0}
+                step={0.01}
+                className="w-32"
+                value={creditAmount}
+                onChange={event => setCreditAmount(event.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              disabled={isWorking || !creditDescription.trim() || !(Number(creditAmount) > 0)}
+              onClick={handleAddCredit}
+            >
+              Add Credit
+            </Button>
+          </div>
+        )}
+
+        {isVoiding && (
+          <div className="space-y-2 rounded-md border border-red-200 p-3">
+            <Label htmlFor="invoice-void-reason">Reason for voiding</Label>
+            <Textarea
+              id="invoice-void-reason"
+              rows={2}
+              value={voidReason}
+              onChange={event => setVoidReason(event.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsVoiding(false)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={isWorking || !voidReason.trim()}
+                onClick={async () => {
+                  if (await runAction(() => InvoiceService.voidInvoice(invoice.id, voidReason), 'Invoice Voided')) {
+                    setIsVoiding(false);
+                  }
+                }}
+              >
+                Void Invoice
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleDownloadPdf}>
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadCsv}>
+              <FileDown className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            {isDraft && (
+              <Button variant="outline" size="sm" className="text-red-600" disabled={isWorking} onClick={handleDeleteDraft}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Draft
+              </Button>
+            )}
+            {canTransitionInvoice(invoice.status, 'void') && !isVoiding && (
+              <Button variant="outline" size="sm" className="text-red-600" disabled={isWorking} onClick={() => setIsVoiding(true)}>
+                <Ban className="h-4 w-4 mr-2" />
+                Void
+              </Button>
+            )}
+            {canTransitionInvoice(invoice.status, 'issued') && (
+              <Button size="sm" disabled={isWorking} onClick={() => runAction(() => InvoiceService.issueInvoice(invoice.id), 'Invoice Issued')}>
+                <Send className="h-4 w-4 mr-2" />
+                Issue
+              </Button>
+            )}
+            {canTransitionInvoice(invoice.status, 'paid') && (
+              <Button size="sm" disabled={isWorking} onClick={() => runAction(() => InvoiceService.markPaid(invoice.id), 'Invoice Marked as Paid')}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Mark Paid
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoiceDetailsDialog;
@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { Save } from 'lucide-react';
+import { Client } from '@/types/admin';
+import { InvoiceService } from '@/services/invoiceService';
+import { getInvoiceSettings } from '@/utils/invoices';
+
+interface InvoiceSettingsEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+/**
+ * Editor for a client's invoicing settings (config_json.invoicing)
+ * Minutes over the included minutes are billed at the overage rate
+ */
+const InvoiceSettingsEditor: React.FC<InvoiceSettingsEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const saved = useMemo(() => getInvoiceSettings(client.config_json), [client.config_json]);
+  const [includedMinutes, setIncludedMinutes] = useState('');
+  const [overageRate, setOverageRate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIncludedMinutes(saved.included_minutes === null ? '' : String(saved.included_minutes));
+    setOverageRate(String(saved.overage_rate_cad));
+  }, [saved]);
+
+  const parsedMinutes = includedMinutes.trim() === '' ? null : Number(includedMinutes);
+  const parsedRate = overageRate.trim() === '' ? 0 : Number(overageRate);
+  const isValid =
+    (parsedMinutes === null || (Number.isInteger(parsedMinutes) && parsedMinutes >= 0)) &&
+    Number.isFinite(parsedRate) && parsedRate >= 0;
+  const isDirty = parsedMinutes !== saved.included_minutes || parsedRate !== saved.overage_rate_cad;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await InvoiceService.saveInvoiceSettings(client, {
+        included_minutes: parsedMinutes,
+        overage_rate_cad: parsedRate,
+      });
+      onSaved(updatedClient);
+      toast({
+        title: 'Invoice Settings Updated',
+        description: `New invoices for ${client.name} will use these settings.`,
+      });
+    } catch (error) {
+      console.error('Failed to save invoice settings:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save invoice settings.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Usage Billing</CardTitle>
+        <CardDescription>
+          Call minutes included in the monthly plan fee, and the rate for minutes over them.
+          Leave the included minutes empty for unlimited usage.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="invoice-included-minutes">Included minutes</Label>
+          <Input
+            id="invoice-included-minutes"
+            type="number"
+            min={0}
+            step={1}
+            placeholder="Unlimited"
+            className="w-40"
+            value={includedMinutes}
+            onChange={event => setIncludedMinutes(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invoice-overage-rate">Overage rate (CAD / minute)</Label>
+          <Input
+            id="invoice-overage-rate"
+            type="number"
+            min={0}
+            step={0.01}
+            className="w-40"
+            value={overageRate}
+            onChange={event => setOverageRate(event.target.value)}
+          />
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          className="ml-auto"
+          disabled={!isValid || !isDirty || isSaving}
+          onClick={handleSave}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceSettingsEditor;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { InvoiceStatus } from '@/types/invoice';
+import { INVOICE_STATUS_LABELS } from '@/utils/invoices';
+
+const STATUS_CLASSES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  issued: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-800',
+};
+
+const InvoiceStatusBadge: React.FC<{ status: InvoiceStatus }> = ({ status }) => (
+  <Badge className={STATUS_CLASSES[status]}>{INVOICE_STATUS_LABELS[status]}</Badge>
+);
+
+export default InvoiceStatusBadge;
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Client } from '@/types/admin';
+import type { LeadDeliveryChannel, LeadDeliveryChannelType } from '@/types/leadDelivery';
+import { LeadDeliveryService } from '@/services/leadDeliveryService';
+import {
+  DELIVERY_CHANNEL_LABELS,
+  DIGEST_INTERVAL_OPTIONS,
+  createDeliveryChannel,
+  getDeliveryConfig,
+  parseRecipients,
+  validateDeliveryChannel,
+} from '@/utils/leadDelivery';
+
+interface LeadDeliveryEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+const CHANNEL_TYPES = Object.keys(DELIVERY_CHANNEL_LABELS) as LeadDeliveryChannelType[];
+
+/**
+ * Editor for the channels new leads are delivered to (config_json.lead_delivery)
+ * Recipients are edited as text and parsed on blur so typing a comma doesn't jump the cursor
+ */
+const LeadDeliveryEditor: React.FC<LeadDeliveryEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const savedChannels = useMemo(() => getDeliveryConfig(client.config_json).channels, [client.config_json]);
+  const [channels, setChannels] = useState<LeadDeliveryChannel[]>(savedChannels);
+  const [recipientDrafts, setRecipientDrafts] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setChannels(savedChannels);
+    setRecipientDrafts({});
+  }, [savedChannels]);
+
+  // Recipients still being typed count as entered
+  const editedChannels = channels.map(channel => (
+    recipientDrafts[channel.id] === undefined
+      ? channel
+      : { ...channel, recipients: parseRecipients(recipientDrafts[channel.id]) }
+  ));
+  const errors = editedChannels
+    .map(channel => ({ id: channel.id, error: channel.enabled ? validateDeliveryChannel(channel) : null }))
+    .filter((entry): entry is { id: string; error: string } => !!entry.error);
+  const errorsById = new Map(errors.map(entry => [entry.id, entry.error]));
+  const isDirty = JSON.stringify(editedChannels) !== JSON.stringify(savedChannels);
+
+  const updateChannel = (id: string, changes: Partial<LeadDeliveryChannel>) => {
+    setChannels(current => current.map(channel => (channel.id === id ? { ...channel, ...changes } : channel)));
+  };
+
+  const commitRecipients = (id: string) => {
+    const draft = recipientDrafts[id];
+    if (draft === undefined) return;
+    updateChannel(id, { recipients: parseRecipients(draft) });
+    setRecipientDrafts(current => {
+      const next = { ...current };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await LeadDeliveryService.saveDeliveryConfig(client, { channels: editedChannels });
+      onSaved(updatedClient);
+      toast({
+        title: 'Lead Delivery Updated',
+        description: `New leads for ${client.name} will be sent to ${editedChannels.filter(c => c.enabled).length} channel(s).`,
+      });
+    } catch (error) {
+      console.error('Failed to save lead delivery channels:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save lead delivery channels.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Lead Delivery</CardTitle>
+        <CardDescription>
+          Where new leads are sent when they are created. Failed deliveries are retried with backoff and
+          can be resent from Audit &gt; Lead Deliveries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {channels.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No delivery channels. Leads for this client are only visible in the app.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {channels.map(channel => (
+            <div key={channel.id} className="space-y-3 rounded-md border border-border p-3">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm flex-1">{DELIVERY_CHANNEL_LABELS[channel.type]}</span>
+                <div className="flex items-center gap-2 px-2">
+                  <Switch
+                    id={`delivery-enabled-${channel.id}`}
+                    checked={channel.enabled}
+                    onCheckedChange={(checked) => updateChannel(channel.id, { enabled: checked })}
+                  />
+                  <Label htmlFor={`delivery-enabled-${channel.id}`} className="text-sm">Enabled</Label>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setChannels(current => current.filter(c => c.id !== channel.id))}
+                  aria-label="Remove channel"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {channel.type === 'webhook' ? (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Input
+                    value={channel.url ?? ''}
+                    onChange={(e) => updateChannel(channel.id, { url: e.target.value.trim() || null })}
+                    placeholder="https://crm.example.com/leads"
+                  />
+                  <Input
+                    type="password"
+                    value={channel.secret ?? ''}
+                    onChange={(e) => updateChannel(channel.id, { secret: e.target.value || null })}
+                    placeholder="Signing secret (optional)"
+                    autoComplete="new-password"
+                  />
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    value={recipientDrafts[channel.id] ?? channel.recipients.join(', ')}
+                    onChange={(e) => setRecipientDrafts(current => ({ ...current, [channel.id]: e.target.value }))}
+                    onBlur={() => commitRecipients(channel.id)}
+                    placeholder={channel.type === 'adf_email' ? 'leads@dealer-crm.com' : 'manager@dealership.com, sales@dealership.com'}
+                    className="flex-1 min-w-[220px]"
+                  />
+                  {channel.type === 'email_digest' && (
+                    <Select
+                      value={String(channel.digest_interval_minutes)}
+                      onValueChange={(value) => updateChannel(channel.id, { digest_interval_minutes: Number(value) })}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DIGEST_INTERVAL_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={String(option.value)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
+
+              {errorsById.has(channel.id) && (
+                <p className="text-sm text-destructive">{errorsById.get(channel.id)}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {CHANNEL_TYPES.map(type => (
+            <Button
+              key={type}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setChannels(current => [...current, createDeliveryChannel(type, crypto.randomUUID())])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {DELIVERY_CHANNEL_LABELS[type]}
+            </Button>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            className="ml-auto"
+            disabled={!isDirty || errors.length > 0 || isSaving}
+            onClick={handleSave}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Delivery'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeadDeliveryEditor;
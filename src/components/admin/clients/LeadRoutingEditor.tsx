@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, Save } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Client } from '@/types/admin';
+import type { LeadRoutingConfig, LeadRoutingMode } from '@/types/leadRouting';
+import { LeadAssignmentService } from '@/services/leadAssignmentService';
+import { useLeadRouting } from '@/hooks/useLeadRouting';
+import { ROUTABLE_INQUIRY_TYPES, ROUTING_MODE_LABELS, getRoutingConfig } from '@/utils/leadRouting';
+
+interface LeadRoutingEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<LeadRoutingMode, string> = {
+  manual: 'Leads stay unassigned until someone assigns them.',
+  round_robin: 'Leads rotate through the selected staff (all staff when none are selected).',
+  inquiry_type: 'Leads go to the staff picked for the call\'s inquiry type; other types use the round-robin staff.',
+};
+
+/**
+ * Editor for a client's lead routing rules (config_json.lead_routing)
+ * Staff are toggled per pool; leads are assigned from the Leads page with "Auto-assign"
+ */
+const LeadRoutingEditor: React.FC<LeadRoutingEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const { assignees, loading } = useLeadRouting(client.id);
+  const savedRouting = useMemo(() => getRoutingConfig(client.config_json), [client.config_json]);
+  const [routing, setRouting] = useState<LeadRoutingConfig>(savedRouting);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setRouting(savedRouting);
+  }, [savedRouting]);
+
+  const isDirty = JSON.stringify(routing) !== JSON.stringify(savedRouting);
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+
+  const toggleRouteAssignee = (inquiryType: string, assigneeId: string) => {
+    setRouting(current => {
+      const existing = current.inquiry_routes.find(route => route.inquiry_type === inquiryType);
+      const inquiry_routes = existing
+        ? current.inquiry_routes.map(route => route.inquiry_type === inquiryType
+          ? { ...route, assignee_ids: toggleId(route.assignee_ids, assigneeId) }
+          : route)
+        : [...current.inquiry_routes, { inquiry_type: inquiryType, assignee_ids: [assigneeId] }];
+      return { ...current, inquiry_routes };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await LeadAssignmentService.saveRoutingConfig(client, routing);
+      onSaved(updatedClient);
+      toast({
+        title: 'Lead Routing Updated',
+        description: `Lead routing for ${client.name} has been saved.`,
+      });
+    } catch (error) {
+      console.error('Failed to save lead routing:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save lead routing.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Toggle chip for one staff member in a pool
+  const renderStaffToggle = (selected: boolean, onToggle: () => void, assigneeId: string, label: string) => (
+    <Button
+      key={assigneeId}
+      type="button"
+      variant="outline"
+      size="sm"
+      className={cn('h-7 rounded-full text-xs', selected && 'border-primary bg-primary/10 text-primary')}
+      aria-pressed={selected}
+      onClick={onToggle}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Lead Routing</CardTitle>
+        <CardDescription>
+          How new leads are assigned to this client's staff. Only client users and client admins can own leads.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <RadioGroup
+          value={routing.mode}
+          onValueChange={(mode) => setRouting(current => ({ ...current, mode: mode as LeadRoutingMode }))}
+          className="space-y-2"
+        >
+          {(Object.keys(ROUTING_MODE_LABELS) as LeadRoutingMode[]).map(mode => (
+            <div key={mode} className="flex items-start gap-3">
+              <RadioGroupItem value={mode} id={`routing-mode-${mode}`} className="mt-1" />
+              <Label htmlFor={`routing-mode-${mode}`} className="cursor-pointer font-normal">
+                <span className="font-medium">{ROUTING_MODE_LABELS[mode]}</span>
+                <span className="block text-xs text-muted-foreground">{MODE_DESCRIPTIONS[mode]}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {routing.mode !== 'manual' && !loading && assignees.length === 0 && (
+          <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>This client has no client users yet, so no leads can be assigned.</p>
+          </div>
+        )}
+
+        {routing.mode !== 'manual' && assignees.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Round-robin staff</p>
+            <div className="flex flex-wrap gap-2">
+              {assignees.map(assignee => renderStaffToggle(
+                routing.assignee_ids.includes(assignee.id),
+                () => setRouting(current => ({ ...current, assignee_ids: toggleId(current.assignee_ids, assignee.id) })),
+                assignee.id,
+                assignee.full_name || assignee.email
+              ))}
+            </div>
+          </div>
+        )}
+
+        {routing.mode === 'inquiry_type' && assignees.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Staff by inquiry type</p>
+            {ROUTABLE_INQUIRY_TYPES.map(({ value, label }) => {
+              const route = routing.inquiry_routes.find(candidate => candidate.inquiry_type === value);
+              return (
+                <div key={value} className="flex flex-wrap items-center gap-2 rounded-md border border-border p-2">
+                  <span className="w-24 text-sm text-muted-foreground">{label}</span>
+                  {assignees.map(assignee => renderStaffToggle(
+                    !!route?.assignee_ids.includes(assignee.id),
+                    () => toggleRouteAssignee(value, assignee.id),
+                    assignee.id,
+                    assignee.full_name || assignee.email
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex">
+          <Button
+            type="button"
+            size="sm"
+            className="ml-auto"
+            disabled={!isDirty || isSaving}
+            onClick={handleSave}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Routing'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeadRoutingEditor;
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { RotateCcw, Save } from 'lucide-react';
+import { Client } from '@/types/admin';
+import type { LeadScoreSignal, LeadScoreWeights } from '@/types/leadScoring';
+import { LeadScoringService } from '@/services/leadScoringService';
+import {
+  DEFAULT_LEAD_SCORE_WEIGHTS,
+  LEAD_SCORE_SIGNALS,
+  LEAD_SCORE_SIGNAL_LABELS,
+  MAX_SIGNAL_WEIGHT,
+  getScoringConfig,
+  validateScoreWeights,
+} from '@/utils/leadScoring';
+
+interface LeadScoringEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+const SIGNAL_DESCRIPTIONS: Record<LeadScoreSignal, string> = {
+  lead_intent: 'Intent score (1-5) from the call evaluation',
+  intent_strength: 'How strongly the caller wants to buy',
+  sales_opportunity: 'Sales opportunity from call intelligence',
+  purchase_timeline: 'Sooner purchases score higher',
+  high_intent: 'Call flagged as high intent',
+};
+
+/**
+ * Editor for how much each signal counts towards a client's lead scores (config_json.lead_scoring)
+ * Weights are relative, so the share column shows what each signal is worth out of 100
+ */
+const LeadScoringEditor: React.FC<LeadScoringEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const savedWeights = useMemo(() => getScoringConfig(client.config_json).weights, [client.config_json]);
+  const [weights, setWeights] = useState<LeadScoreWeights>(savedWeights);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setWeights(savedWeights);
+  }, [savedWeights]);
+
+  const errors = validateScoreWeights(weights);
+  const isDirty = JSON.stringify(weights) !== JSON.stringify(savedWeights);
+  const totalWeight = LEAD_SCORE_SIGNALS.reduce((sum, signal) => sum + (weights[signal] || 0), 0);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await LeadScoringService.saveScoringWeights(client, weights);
+      onSaved(updatedClient);
+      toast({
+        title: 'Lead Scoring Updated',
+        description: `Lead scores for ${client.name} now use the new weights.`,
+      });
+    } catch (error) {
+      console.error('Failed to save lead scoring weights:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save lead scoring weights.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Lead Scoring</CardTitle>
+        <CardDescription>
+          How much each signal counts towards a lead's 0-100 score. Signals a call has no data for are left out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {LEAD_SCORE_SIGNALS.map(signal => (
+            <div key={signal} className="flex flex-wrap items-center gap-3 rounded-md border border-border p-2">
+              <div className="flex-1 min-w-[200px]">
+                <Label htmlFor={`score-weight-${signal}`} className="text-sm">{LEAD_SCORE_SIGNAL_LABELS[signal]}</Label>
+                <p className="text-xs text-muted-foreground">{SIGNAL_DESCRIPTIONS[signal]}</p>
+              </div>
+              <Input
+                id={`score-weight-${signal}`}
+                type="number"
+                min={0}
+                max={MAX_SIGNAL_WEIGHT}
+                value={Number.isNaN(weights[signal]) ? '' : weights[signal]}
+                onChange={(e) => setWeights(current => ({ ...current, [signal]: e.target.valueAsNumber }))}
+                className="w-24"
+              />
+              <span className="w-20 text-right text-sm text-muted-foreground tabular-nums">
+                {totalWeight > 0 ? `${Math.round(((weights[signal] || 0) / totalWeight) * 100)} pts` : '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="text-sm text-destructive space-y-1">
+            {errors.map(error => <p key={error}>{error}</p>)}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setWeights(DEFAULT_LEAD_SCORE_WEIGHTS)}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Default
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            className="ml-auto"
+            disabled={!isDirty || errors.length > 0 || isSaving}
+            onClick={handleSave}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Scoring'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeadScoringEditor;
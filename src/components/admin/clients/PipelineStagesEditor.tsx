@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Save, Trash2, AlertTriangle } from 'lucide-react';
+import { Client } from '@/types/admin';
+import type { LeadPipelineStage } from '@/types/leadPipeline';
+import { LeadPipelineService } from '@/services/leadPipelineService';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  getPipelineStages,
+  toStageKey,
+  validatePipelineStages,
+} from '@/utils/leadPipeline';
+
+interface PipelineStagesEditorProps {
+  client: Client;
+  onSaved: (client: Client) => void;
+}
+
+/**
+ * Editor for a client's ordered lead pipeline stages (config_json.lead_pipeline)
+ * Keys of saved stages never change so existing leads keep their stage when a stage is renamed
+ */
+const PipelineStagesEditor: React.FC<PipelineStagesEditorProps> = ({ client, onSaved }) => {
+  const { toast } = useToast();
+  const savedStages = useMemo(() => getPipelineStages(client.config_json), [client.config_json]);
+  const [stages, setStages] = useState<LeadPipelineStage[]>(savedStages);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setStages(savedStages);
+  }, [savedStages]);
+
+  const savedKeys = useMemo(() => new Set(savedStages.map(stage => stage.key)), [savedStages]);
+  const errors = validatePipelineStages(stages);
+  const isDirty = JSON.stringify(stages) !== JSON.stringify(savedStages);
+  const removedKeys = [...savedKeys].filter(key => !stages.some(stage => stage.key === key));
+
+  const updateStage = (index: number, changes: Partial<LeadPipelineStage>) => {
+    setStages(current => current.map((stage, i) => {
+      if (i !== index) return stage;
+      const updated = { ...stage, ...changes };
+      // New stages take their key from the label until they are saved
+      if (changes.label !== undefined && !savedKeys.has(stage.key)) {
+        updated.key = toStageKey(changes.label);
+      }
+      return updated;
+    }));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setStages(current => {
+      const next = [...current];
+      const [stage] = next.splice(index, 1);
+      next.splice(index + direction, 0, stage);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedClient = await LeadPipelineService.savePipelineStages(client, stages);
+      onSaved(updatedClient);
+      toast({
+        title: 'Pipeline Updated',
+        description: `Lead pipeline for ${client.name} has been saved.`,
+      });
+    } catch (error) {
+      console.error('Failed to save pipeline stages:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save pipeline stages.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Lead Pipeline</CardTitle>
+        <CardDescription>
+          Stages leads move through on the Leads board, in order. Closed stages end the pipeline (e.g. won or lost).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {stages.map((stage, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border border-border p-2">
+              <span className="w-6 text-center text-sm text-muted-foreground">{index + 1}</span>
+              <Input
+                value={stage.label}
+                onChange={(e) => updateStage(index, { label: e.target.value })}
+                placeholder="Stage name"
+                className="flex-1 min-w-[160px]"
+              />
+              <input
+                type="color"
+                value={stage.color || '#94a3b8'}
+                onChange={(e) => updateStage(index, { color: e.target.value })}
+                className="h-9 w-9 cursor-pointer rounded border border-border bg-background"
+                aria-label={`${stage.label} colour`}
+              />
+              <div className="flex items-center gap-2 px-2">
+                <Switch
+                  id={`stage-closed-${index}`}
+                  checked={!!stage.is_closed}
+                  onCheckedChange={(checked) => updateStage(index, { is_closed: checked })}
+                />
+                <Label htmlFor={`stage-closed-${index}`} className="text-sm">Closed</Label>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={index === 0}
+                onClick={() => moveStage(index, -1)}
+                aria-label="Move stage up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={index === stages.length - 1}
+                onClick={() => moveStage(index, 1)}
+                aria-label="Move stage down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => setStages(current => current.filter((_, i) => i !== index))}
+                aria-label="Remove stage"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="text-sm text-destructive space-y-1">
+            {errors.map(error => <p key={error}>{error}</p>)}
+          </div>
+        )}
+
+        {removedKeys.length > 0 && (
+          <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>
+              Leads still in a removed stage ({removedKeys.join(', ')}) will show in the first stage until they are moved.
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setStages(current => [...current, { key: '', label: '' }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stage
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setStages(DEFAULT_PIPELINE_STAGES)}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Default
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            className="ml-auto"
+            disabled={!isDirty || errors.length > 0 || isSaving}
+            onClick={handleSave}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Pipeline'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PipelineStagesEditor;
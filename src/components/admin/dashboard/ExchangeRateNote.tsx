@@ -0,0 +1,34 @@
+import React from 'react';
+import { Info } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AppliedExchangeRate } from '@/types/exchangeRate';
+import { describeAppliedRates } from '@/utils/exchangeRates';
+
+interface ExchangeRateNoteProps {
+  rates?: AppliedExchangeRate[];
+  // Shown for months closed before dated rates, which only kept one rate
+  fallbackRate?: number;
+  // What happened at the rates; "Converted" by default
+  lead?: string;
+  className?: string;
+}
+
+/**
+ * Small note under a CAD figure saying which USD to CAD rates it was converted at
+ */
+export const ExchangeRateNote: React.FC<ExchangeRateNoteProps> = ({ rates, fallbackRate, lead = 'Converted', className }) => {
+  const description = rates
+    ? describeAppliedRates(rates, lead)
+    : fallbackRate
+      ? `${lead} at 1 USD = ${fallbackRate} CAD (rate when the month was closed)`
+      : '';
+
+  if (!description) return null;
+
+  return (
+    <p className={cn('text-xs text-muted-foreground flex items-center gap-1', className)}>
+      <Info className="h-3 w-3 flex-shrink-0" />
+      {description}
+    </p>
+  );
+};
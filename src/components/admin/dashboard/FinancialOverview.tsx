@@ -2,6 +2,9 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DollarSign, CreditCard, Target, Percent, TrendingUp } from 'lucide-react';
 import { formatCurrency } from '@/utils/formatting';
+import type { CurrencyCode } from '@/utils/currency';
+import type { AppliedExchangeRate } from '@/types/exchangeRate';
+import { ExchangeRateNote } from './ExchangeRateNote';
 
 interface FinancialMetrics {
   totalRevenue: number;
@@ -13,13 +16,23 @@ interface FinancialMetrics {
     costGrowth: number;
     profitGrowth: number;
   };
+  exchangeRates?: AppliedExchangeRate[]; // USD to CAD rates the costs were converted at
 }
 
 interface FinancialOverviewProps {
   metrics: FinancialMetrics;
+  // Metrics are in CAD; the parent passes the user's display currency (useDisplayCurrency)
+  currency?: CurrencyCode;
+  exchangeRate?: AppliedExchangeRate | null; // Rate CAD amounts are converted at
+  format?: (amount: number, from: CurrencyCode) => string;
 }
 
-export const FinancialOverview: React.FC<FinancialOverviewProps> = ({ metrics }) => {
+export const FinancialOverview: React.FC<FinancialOverviewProps> = ({
+  metrics,
+  currency = 'CAD',
+  exchangeRate = null,
+  format = formatCurrency,
+}) => {
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
       <Card className="border-l-4 border-l-emerald-500 bg-card text-card-foreground border-border">
@@ -29,7 +42,7 @@ export const FinancialOverview: React.FC<FinancialOverviewProps> = ({ metrics })
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">
-            {formatCurrency(metrics.totalRevenue, 'CAD')}
+            {format(metrics.totalRevenue, 'CAD')}
           </div>
           <p className="text-xs text-muted-foreground flex items-center gap-1">
             <TrendingUp className="h-3 w-3" />
@@ -45,12 +58,13 @@ export const FinancialOverview: React.FC<FinancialOverviewProps> = ({ metrics })
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-destructive">
-            {formatCurrency(metrics.totalCosts, 'CAD')}
+            {format(metrics.totalCosts, 'CAD')}
           </div>
           <p className="text-xs text-muted-foreground flex items-center gap-1">
             <TrendingUp className="h-3 w-3" />
             +{metrics.growthTrends.costGrowth}% from last month
           </p>
+          <ExchangeRateNote rates={metrics.exchangeRates} className="mt-1" />
         </CardContent>
       </Card>
 
@@ -61,12 +75,15 @@ export const FinancialOverview: React.FC<FinancialOverviewProps> = ({ metrics })
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-primary">
-            {formatCurrency(metrics.netProfit, 'CAD')}
+            {format(metrics.netProfit, 'CAD')}
           </div>
           <p className="text-xs text-muted-foreground flex items-center gap-1">
             <TrendingUp className="h-3 w-3" />
             +{metrics.growthTrends.profitGrowth}% from last month
           </p>
+          {currency !== 'CAD' && exchangeRate && (
+            <ExchangeRateNote rates={[exchangeRate]} lead={`Shown in ${currency}, converted from CAD`} className="mt-1" />
+          )}
         </CardContent>
       </Card>
 
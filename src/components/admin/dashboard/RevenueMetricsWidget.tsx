@@ -3,7 +3,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { DollarSign, TrendingUp, TrendingDown, Calculator } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { formatCurrency, formatNumber } from '@/utils/formatting';
+import { exchangeRateService } from '@/services/exchangeRateService';
+import type { AppliedExchangeRate } from '@/types/exchangeRate';
+import { formatNumber } from '@/utils/formatting';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
+import { ExchangeRateNote } from './ExchangeRateNote';
 
 interface RevenueMetrics {
   totalMonthlyRevenue: number;
@@ -16,6 +20,7 @@ interface RevenueMetrics {
     revenue: number;
     percentage: number;
   }>;
+  exchangeRate: AppliedExchangeRate;
 }
 
 interface RevenueMetricsWidgetProps {
@@ -25,21 +30,25 @@ interface RevenueMetricsWidgetProps {
 export const RevenueMetricsWidget: React.FC<RevenueMetricsWidgetProps> = ({ totalRevenue }) => {
   const [metrics, setMetrics] = useState<RevenueMetrics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Metrics are in CAD, shown in the user's display currency at today's rate
+  const { currency, format: formatCurrency } = useDisplayCurrency();
 
   const loadRevenueMetrics = async () => {
     try {
-      // Get client revenue data
-      const { data: clients } = await supabase
-        .from('clients')
-        .select('name, monthly_billing_amount_cad, average_monthly_ai_cost_usd, average_monthly_misc_cost_usd')
-        .eq('status', 'active');
+      // Get client revenue data and today's exchange rate
+      const [{ data: clients }, exchangeRate] = await Promise.all([
+        supabase
+          .from('clients')
+          .select('name, monthly_billing_amount_cad, average_monthly_ai_cost_usd, average_monthly_misc_cost_usd')
+          .eq('status', 'active'),
+        exchangeRateService.getAppliedUsdToCadRate()
+      ]);
 
       if (!clients) return;
 
-      // Calculate total costs (convert USD to CAD with approximate rate)
-      const usdToCadRate = 1.35; // Approximate conversion rate
+      // Calculate total costs (average monthly USD costs at today's rate)
       const totalCosts = clients.reduce((sum, client) => 
-        sum + (client.average_monthly_ai_cost_usd + client.average_monthly_misc_cost_usd) * usdToCadRate, 0
+        sum + (client.average_monthly_ai_cost_usd + client.average_monthly_misc_cost_usd) * exchangeRate.rate, 0
       );
 
       const netProfit = totalRevenue - totalCosts;
@@ -62,7 +71,8 @@ export const RevenueMetricsWidget: React.FC<RevenueMetricsWidgetProps> = ({ tota
         netProfit,
         profitMargin,
         averageRevenuePerClient,
-        topRevenueClients
+        topRevenueClients,
+        exchangeRate
       });
     } catch (error) {
       console.error('Failed to load revenue metrics:', error);
@@ -124,6 +134,10 @@ export const RevenueMetricsWidget: React.FC<RevenueMetricsWidgetProps> = ({ tota
             </p>
           </div>
         </div>
+        <ExchangeRateNote
+          rates={[metrics.exchangeRate]}
+          lead={currency === 'CAD' ? 'Converted' : `Shown in ${currency}, converted`}
+        />
 
         {/* Net Profit */}
         <div className="pt-4 border-t">
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { NavLink } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ArrowRight, ClipboardCheck, Hourglass, Timer } from 'lucide-react';
+import { CallReviewService } from '@/services/callReviewService';
+import type { CallReviewQueueStats } from '@/types/callReview';
+import { formatNumber } from '@/utils/formatting';
+
+/**
+ * Size and age of the human review queue, linking to the queue page
+ */
+export const ReviewQueueSummary: React.FC = () => {
+  const [stats, setStats] = useState<CallReviewQueueStats | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    CallReviewService.getQueueStats()
+      .then(data => {
+        if (!cancelled) setStats(data);
+      })
+      .catch(err => {
+        console.error('Failed to load review queue stats:', err);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const formatAge = (hours: number | null) => {
+    if (hours === null) return '—';
+    return hours < 24 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+  };
+
+  const cards = [
+    {
+      title: 'Awaiting Review',
+      icon: ClipboardCheck,
+      value: stats ? formatNumber(stats.unresolved) : '—',
+      detail: stats ? `${stats.unclaimed} unclaimed` : '',
+    },
+    {
+      title: 'High Priority',
+      icon: AlertTriangle,
+      value: stats ? formatNumber(stats.highPriority) : '—',
+      detail: 'Risky or negative calls',
+    },
+    {
+      title: 'Oldest Flag',
+      icon: Hourglass,
+      value: stats?.oldestFlaggedAt ? formatDistanceToNow(new Date(stats.oldestFlaggedAt)) : '—',
+      detail: stats?.oldestFlaggedAt ? 'waiting for review' : 'Queue is empty',
+    },
+    {
+      title: 'Average Wait',
+      icon: Timer,
+      value: stats ? formatAge(stats.averageAgeHours) : '—',
+      detail: 'Across unresolved reviews',
+    },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-foreground">Review Queue</h2>
+        <Button variant="outline" size="sm" asChild>
+          <NavLink to="/admin/audit/reviews">
+            Open Queue
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </NavLink>
+        </Button>
+      </div>
+      {error ? (
+        <p className="text-sm text-muted-foreground">Couldn't load the review queue.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {cards.map(({ title, icon: Icon, value, detail }) => (
+            <Card key={title} className="bg-card text-card-foreground border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-foreground">{value}</div>
+                <p className="text-xs text-muted-foreground">{detail}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,21 +3,37 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { PieChart, Calculator, TrendingUp, TrendingDown, DollarSign, Users, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { PieChart, Calculator, TrendingUp, TrendingDown, DollarSign, Users, AlertCircle, Lock, RotateCcw } from 'lucide-react';
 import { MetricsCalculationService, FinancialMetrics, CostBreakdown, ClientProfitability } from '@/services/metricsCalculationService';
+import { MonthCloseService } from '@/services/monthCloseService';
+import type { Client } from '@/types/admin';
+import type { MonthlyBillingSummary } from '@/types/monthlyBillingSummary';
+import { useAuth } from '@/context/AuthContext';
+import { formatBillingMonth, getBillingMonth } from '@/utils/invoices';
+import { canCloseMonth, getMonthRange } from '@/utils/monthClose';
 import { formatNumber } from '@/utils/formatting';
-import { formatCurrency, convertUsdToCad } from '@/utils/currency';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 import { FinancialTabSkeleton, RefreshLoadingIndicator } from '../LoadingSkeletons';
 import PartialDataHandler from '../PartialDataHandler';
 import DataStatusIndicator from '../DataStatusIndicator';
+import { ExchangeRateNote } from '../ExchangeRateNote';
 import { useDataSection } from '../PartialDataProvider';
 
 interface FinancialTabProps {
   // No props needed - component fetches its own data
 }
 
+const CURRENT_MONTH = 'current';
+
+// Past months that can be viewed, and closed when they are still open
+const PAST_MONTH_OPTIONS = 12;
+
 export const FinancialTab: React.FC<FinancialTabProps> = () => {
   const [financialMetrics, setFinancialMetrics] = useState<FinancialMetrics | null>(null);
   const [costBreakdown, setCostBreakdown] = useState<CostBreakdown | null>(null);
@@ -27,6 +43,25 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { user } = useAuth();
+
+  // Month-end close: past months are read from their snapshot once closed
+  const [selectedMonth, setSelectedMonth] = useState(CURRENT_MONTH);
+  const [closedSummary, setClosedSummary] = useState<MonthlyBillingSummary | null>(null);
+  const [isClosing, setIsClosing] = useState(false);
+  const [reopenDialogOpen, setReopenDialogOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+  // Active clients not invoiced for the month, confirmed before it is frozen at their plan fee
+  const [uninvoicedClients, setUninvoicedClients] = useState<Client[]>([]);
+  const [closeConfirmOpen, setCloseConfirmOpen] = useState(false);
+  const pastMonths = Array.from({ length: PAST_MONTH_OPTIONS }, (_, index) => getBillingMonth(index + 1));
+
+  // Figures are in CAD; past months are shown in the display currency at their month-end rate
+  const {
+    currency: displayCurrency,
+    exchangeRate: displayRate,
+    format: formatCurrency,
+  } = useDisplayCurrency(selectedMonth === CURRENT_MONTH ? undefined : getMonthRange(selectedMonth).endDate);
 
   // Use partial data sections for different parts of the financial data
   const metricsSection = useDataSection('financial-metrics', 'Financial Metrics');
@@ -35,7 +70,7 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
 
   useEffect(() => {
     fetchFinancialData();
-  }, []);
+  }, [selectedMonth]);
 
   const fetchFinancialData = async (isRefresh = false) => {
     try {
@@ -46,16 +81,29 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
       }
       setError(null);
 
+      // A past month is loaded once for all sections, from its snapshot when closed
+      const monthFinancials = selectedMonth === CURRENT_MONTH
+        ? null
+        : MonthCloseService.getMonthFinancials(selectedMonth);
+
       // Load data sections independently with partial data handling
       const [metrics, costs, profitability] = await Promise.allSettled([
-        metricsSection.load(() => MetricsCalculationService.getFinancialMetrics('current_month')),
-        costsSection.load(() => MetricsCalculationService.getCostBreakdown(
-          new Date(new Date().getFullYear(), new Date().getMonth(), 1),
-          new Date()
-        )),
-        profitabilitySection.load(() => MetricsCalculationService.getClientProfitability('current_month'))
+        metricsSection.load(() => monthFinancials
+          ? monthFinancials.then(month => month.metrics)
+          : MetricsCalculationService.getFinancialMetrics('current_month')),
+        costsSection.load(() => monthFinancials
+          ? monthFinancials.then(month => month.costBreakdown)
+          : MetricsCalculationService.getCostBreakdown(
+            new Date(new Date().getFullYear(), new Date().getMonth(), 1),
+            new Date()
+          )),
+        profitabilitySection.load(() => monthFinancials
+          ? monthFinancials.then(month => month.clientProfitability)
+          : MetricsCalculationService.getClientProfitability('current_month'))
       ]);
 
+      setClosedSummary(monthFinancials ? await monthFinancials.then(month => month.summary).catch(() => null) : null);
+
       // Update local state with successful results
       if (metrics.status === 'fulfilled' && metrics.value) {
         setFinancialMetrics(metrics.value);
@@ -112,6 +160,71 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
     fetchFinancialData(true);
   };
 
+  const handleCloseMonth = async (confirmed = false) => {
+    setIsClosing(true);
+    try {
+      if (!confirmed) {
+        const uninvoiced = await MonthCloseService.getUninvoicedClients(selectedMonth);
+        if (uninvoiced.length > 0) {
+          setUninvoicedClients(uninvoiced);
+          setCloseConfirmOpen(true);
+          return;
+        }
+      }
+
+      const summary = await MonthCloseService.closeMonth(selectedMonth, user?.id, { allowUninvoiced: confirmed });
+      setCloseConfirmOpen(false);
+      toast({
+        title: 'Month Closed',
+        description: `${formatBillingMonth(summary.month)} is frozen with its figures as of now.`,
+      });
+      fetchFinancialData(true);
+    } catch (err) {
+      toast({
+        title: 'Error Closing Month',
+        description: err instanceof Error ? err.message : 'Failed to close month',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const openReopenDialog = async () => {
+    setUninvoicedClients([]);
+    setReopenDialogOpen(true);
+    try {
+      setUninvoicedClients(await MonthCloseService.getUninvoicedClients(selectedMonth));
+    } catch (err) {
+      console.error('Error fetching uninvoiced clients:', err);
+    }
+  };
+
+  const handleReopenAndRecompute = async () => {
+    setIsClosing(true);
+    try {
+      // The dialog lists any clients still to be invoiced before the admin confirms
+      const summary = await MonthCloseService.reopenAndRecompute(selectedMonth, reopenReason, user?.id, {
+        allowUninvoiced: true,
+      });
+      setReopenDialogOpen(false);
+      setReopenReason('');
+      toast({
+        title: 'Month Recomputed',
+        description: `${formatBillingMonth(summary.month)} was reopened and closed again with current data.`,
+      });
+      fetchFinancialData(true);
+    } catch (err) {
+      toast({
+        title: 'Error Recomputing Month',
+        description: err instanceof Error ? err.message : 'Failed to recompute month',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
   // Calculate main cost categories for high-level overview
   const getMainCostCategories = (costs: CostBreakdown) => {
     const total = costs.totalCosts;
@@ -122,6 +235,7 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
       { name: 'Tool Costs', value: costs.toolCosts, percentage: (costs.toolCosts / total) * 100, color: 'text-red-600 dark:text-red-400' },
       { name: 'Partner Splits', value: costs.partnerSplits, percentage: (costs.partnerSplits / total) * 100, color: 'text-amber-600 dark:text-amber-400' },
       { name: 'Finder\'s Fees', value: costs.findersFees, percentage: (costs.findersFees / total) * 100, color: 'text-pink-600 dark:text-pink-400' },
+      { name: 'Fixed Costs', value: costs.fixedCosts || 0, percentage: ((costs.fixedCosts || 0) / total) * 100, color: 'text-sky-600 dark:text-sky-400' },
     ].filter(item => item.value > 0).sort((a, b) => b.value - a.value);
   };
 
@@ -195,6 +309,104 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
     <>
       <RefreshLoadingIndicator isVisible={refreshing} />
       <div className="space-y-6">
+      {/* Month selection and month-end close */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+          <SelectTrigger className="w-[190px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CURRENT_MONTH}>Current month</SelectItem>
+            {pastMonths.map(month => (
+              <SelectItem key={month} value={month}>{formatBillingMonth(month)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedMonth !== CURRENT_MONTH && (
+          closedSummary ? (
+            <>
+              <Badge variant="secondary" className="gap-1">
+                <Lock className="h-3 w-3" />
+                Closed {new Date(closedSummary.closed_at).toLocaleDateString()}
+              </Badge>
+              {closedSummary.reopened_at && (
+                <span className="text-xs text-muted-foreground">
+                  Recomputed {closedSummary.recompute_count}x, last: {closedSummary.reopen_reason}
+                </span>
+              )}
+              <Button variant="outline" size="sm" onClick={openReopenDialog} disabled={isClosing}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reopen & Recompute
+              </Button>
+            </>
+          ) : (
+            <>
+              <Badge variant="outline">Open · computed live</Badge>
+              {canCloseMonth(selectedMonth) && (
+                <Button size="sm" onClick={() => handleCloseMonth()} disabled={isClosing || refreshing}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  {isClosing ? 'Closing...' : 'Close Month'}
+                </Button>
+              )}
+            </>
+          )
+        )}
+      </div>
+
+      <Dialog open={reopenDialogOpen} onOpenChange={setReopenDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen {selectedMonth !== CURRENT_MONTH && formatBillingMonth(selectedMonth)}</DialogTitle>
+            <DialogDescription>
+              The month's figures are recomputed from current calls, leads, clients and
+              invoices at the rate history's daily
+              exchange rates, including any overrides, then closed again. The change and your reason are written to
+              the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          {uninvoicedClients.length > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              Not invoiced for this month, so billed at their plan fee: {uninvoicedClients.map(client => client.name).join(', ')}
+            </p>
+          )}
+          <Textarea
+            rows={3}
+            placeholder="Reason for reopening"
+            value={reopenReason}
+            onChange={event => setReopenReason(event.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReopenDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleReopenAndRecompute} disabled={isClosing || !reopenReason.trim()}>
+              {isClosing ? 'Recomputing...' : 'Reopen & Recompute'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={closeConfirmOpen} onOpenChange={setCloseConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close {selectedMonth !== CURRENT_MONTH && formatBillingMonth(selectedMonth)}</DialogTitle>
+            <DialogDescription>
+              These active clients have no issued or paid invoice for the month. Closing now freezes their plan fee
+              as their revenue; issue their invoices first to close with the billed amounts.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="list-disc pl-5 text-sm">
+            {uninvoicedClients.map(client => (
+              <li key={client.id}>{client.name}</li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloseConfirmOpen(false)}>Cancel</Button>
+            <Button onClick={() => handleCloseMonth(true)} disabled={isClosing}>
+              {isClosing ? 'Closing...' : 'Close Anyway'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Cost Breakdown and Profitability Analysis */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* 4.1 Cost Breakdown Visualization */}
@@ -224,8 +436,14 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
           <CardContent>
             {costBreakdown && mainCostCategories.length > 0 ? (
               <div className="space-y-6">
-                <div className="text-2xl font-bold text-foreground">
-                  {formatCurrency(costBreakdown.totalCosts, 'CAD')}
+                <div className="space-y-1">
+                  <div className="text-2xl font-bold text-foreground">
+                    {formatCurrency(costBreakdown.totalCosts, 'CAD')}
+                  </div>
+                  <ExchangeRateNote
+                    rates={costBreakdown.exchangeRates}
+                    fallbackRate={closedSummary?.usd_to_cad_rate}
+                  />
                 </div>
                 
                 {/* Main Cost Categories */}
@@ -349,6 +567,9 @@ export const FinancialTab: React.FC<FinancialTabProps> = () => {
                     </p>
                   </div>
                 </div>
+                {displayCurrency !== 'CAD' && displayRate && (
+                  <ExchangeRateNote rates={[displayRate]} lead={`Shown in ${displayCurrency}, converted from CAD`} />
+                )}
                 
                 <div className="border-t border-border pt-4">
                   <div className="flex items-center justify-between mb-2">
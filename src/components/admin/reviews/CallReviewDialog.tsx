@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle, Phone, RotateCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { format } from 'date-fns';
+import { CallReviewService } from '@/services/callReviewService';
+import type {
+  CallReview,
+  CallReviewVerdict,
+  CallReviewer,
+  CorrectedScores,
+} from '@/types/callReview';
+import {
+  MAX_REVIEW_SCORE,
+  MIN_REVIEW_SCORE,
+  REVIEW_SCORE_FIELDS,
+  REVIEW_VERDICT_DESCRIPTIONS,
+  REVIEW_VERDICT_LABELS,
+  pickCorrectedScores,
+  validateReviewVerdict,
+} from '@/utils/callReview';
+
+interface CallReviewDialogProps {
+  review: CallReview | null;
+  reviewers: CallReviewer[];
+  currentUserId: string | null;
+  onClose: () => void;
+  onUpdated: (review: CallReview) => void;
+  onViewCall: (callId: string) => void;
+}
+
+const UNASSIGNED = 'unassigned';
+const UNCHANGED = 'unchanged';
+
+const SCORE_OPTIONS = Array.from(
+  { length: MAX_REVIEW_SCORE - MIN_REVIEW_SCORE + 1 },
+  (_, i) => MIN_REVIEW_SCORE + i
+);
+
+/**
+ * Dialog for working a flagged call: assign it, record a verdict with corrected
+ * scores and comments, and resolve or reopen it
+ */
+const CallReviewDialog: React.FC<CallReviewDialogProps> = ({
+  review,
+  reviewers,
+  currentUserId,
+  onClose,
+  onUpdated,
+  onViewCall,
+}) => {
+  const { toast } = useToast();
+  // Starts from the saved verdict; render with key={review.id} so each review starts fresh
+  const [verdict, setVerdict] = useState<CallReviewVerdict | null>(review?.verdict ?? null);
+  const [scores, setScores] = useState<CorrectedScores>(review?.corrected_scores ?? {});
+  const [comments, setComments] = useState(review?.comments ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!review) return null;
+
+  const isResolved = review.status === 'resolved';
+  const correctedScores = pickCorrectedScores(scores, review.evaluation);
+  const errors = validateReviewVerdict(verdict, correctedScores, comments);
+
+  const runUpdate = async (action: () => Promise<CallReview>, successTitle: string, failure: string) => {
+    setIsSaving(true);
+    try {
+      const updated = await action();
+      onUpdated(updated);
+      toast({ title: successTitle });
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `${failure}.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssign = (value: string) => {
+    const assigneeId = value === UNASSIGNED ? null : value;
+    runUpdate(
+      () => CallReviewService.assignReview(review.id, assigneeId),
+      assigneeId ? 'Review Assigned' : 'Review Unassigned',
+      'Failed to assign review'
+    );
+  };
+
+  const handleResolve = () => {
+    if (!currentUserId || !verdict || errors.length > 0) return;
+    runUpdate(
+      () => CallReviewService.resolveReview(review, currentUserId, {
+        verdict,
+        corrected_scores: correctedScores,
+        comments,
+      }),
+      'Review Resolved',
+      'Failed to resolve review'
+    );
+  };
+
+  const handleReopen = () => {
+    runUpdate(
+      () => CallReviewService.reopenReview(review.id),
+      'Review Reopened',
+      'Failed to reopen review'
+    );
+  };
+
+  const setScore = (field: keyof CorrectedScores, value: string) => {
+    setScores(current => {
+      const next = { ...current };
+      if (value === UNCHANGED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={!!review} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Review Call
+            <Badge variant={isResolved ? 'default' : 'secondary'}>
+              {isResolved ? 'Resolved' : 'Unresolved'}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {review.caller_name || review.caller_phone || 'Unknown caller'}
+            {review.client_name && ` · ${review.client_name}`}
+            {` · flagged ${format(new Date(review.flagged_at), 'MMM d, yyyy h:mm a')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="rounded-md border border-border bg-muted/50 p-3 text-sm space-y-1">
+            <div className="font-medium">Why it was flagged</div>
+            <p className="text-muted-foreground">{review.review_reason || 'No reason given by the evaluation'}</p>
+            {review.evaluation && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                <Badge variant="outline" className="capitalize">{review.evaluation.sentiment} sentiment</Badge>
+                {review.evaluation.negative_call_flag && <Badge variant="destructive">Negative call</Badge>}
+                {review.evaluation.overall_evaluation_score !== null && (
+                  <Badge variant="outline">Overall {review.evaluation.overall_evaluation_score}</Badge>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Assigned to</Label>
+            <Select
+              value={review.assigned_to ?? UNASSIGNED}
+              onValueChange={handleAssign}
+              disabled={isResolved || isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {reviewers.map(reviewer => (
+                  <SelectItem key={reviewer.id} value={reviewer.id}>
+                    {reviewer.full_name || reviewer.email}
+                    {reviewer.id === currentUserId && ' (me)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Verdict</Label>
+            <RadioGroup
+              value={verdict ?? ''}
+              onValueChange={(value) => setVerdict(value as CallReviewVerdict)}
+              disabled={isResolved}
+              className="space-y-1"
+            >
+              {(Object.keys(REVIEW_VERDICT_LABELS) as CallReviewVerdict[]).map(option => (
+                <div key={option} className="flex items-start gap-2">
+                  <RadioGroupItem value={option} id={`verdict-${option}`} className="mt-0.5" />
+                  <Label htmlFor={`verdict-${option}`} className="font-normal">
+                    <span className="font-medium">{REVIEW_VERDICT_LABELS[option]}</span>
+                    <span className="block text-xs text-muted-foreground">{REVIEW_VERDICT_DESCRIPTIONS[option]}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Corrected scores</Label>
+            <p className="text-xs text-muted-foreground">Leave a score unchanged when the evaluation got it right.</p>
+            <div className="rounded-md border border-border divide-y divide-border">
+              {REVIEW_SCORE_FIELDS.map(({ field, label }) => {
+                const aiScore = review.evaluation?.[field];
+                return (
+                  <div key={field} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span className="flex-1">{label}</span>
+                    <span className="text-muted-foreground tabular-nums w-16 text-right">
+                      AI: {aiScore ?? '—'}/{MAX_REVIEW_SCORE}
+                    </span>
+                    <Select
+                      value={correctedScores[field] !== undefined ? String(correctedScores[field]) : UNCHANGED}
+                      onValueChange={(value) => setScore(field, value)}
+                      disabled={isResolved}
+                    >
+                      <SelectTrigger className="w-[120px] h-8" aria-label={`Corrected ${label}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNCHANGED}>Unchanged</SelectItem>
+                        {SCORE_OPTIONS.map(score => (
+                          <SelectItem key={score} value={String(score)}>{score}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comments">Comments</Label>
+            <Textarea
+              id="review-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="What happened on the call, and what should change?"
+              rows={4}
+              disabled={isResolved}
+            />
+          </div>
+
+          {isResolved && (
+            <p className="text-xs text-muted-foreground">
+              Resolved by {review.resolver_name ?? 'a former user'}
+              {review.resolved_at && ` on ${format(new Date(review.resolved_at), 'MMM d, yyyy h:mm a')}`}.
+              Reopen the review to change the verdict.
+            </p>
+          )}
+
+          {!isResolved && verdict && errors.length > 0 && (
+            <div className="text-sm text-destructive space-y-1">
+              {errors.map(error => <p key={error}>{error}</p>)}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onViewCall(review.call_id)}>
+            <Phone className="h-4 w-4 mr-2" />
+            View Call
+          </Button>
+          {isResolved ? (
+            <Button variant="outline" onClick={handleReopen} disabled={isSaving}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reopen
+            </Button>
+          ) : (
+            <Button onClick={handleResolve} disabled={!currentUserId || errors.length > 0 || isSaving}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Resolve'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CallReviewDialog;
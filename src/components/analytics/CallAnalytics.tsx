@@ -25,18 +25,21 @@ import { AnalyticsService } from '@/services/analyticsService';
 import { CallIntelligenceService } from '@/services/callIntelligenceService';
 import { supabase } from '@/integrations/supabase/client';
 import CallVolumeHeatmap from './CallVolumeHeatmap';
+import { CALL_OUTCOME_COLORS } from '@/utils/callOutcome';
+import type { CallOutcomeShare } from '@/types/callOutcome';
 
 interface CallAnalyticsProps {
   startDate?: string;
   endDate?: string;
   clientId?: string | null;
   callType?: 'all' | 'live' | 'test';
+  includeSpam?: boolean; // Spam calls are left out unless included
 }
 
 interface CallAnalyticsData {
   callVolume: Array<{ date: string, count: number }>;
   callDuration: Array<{ date: string, avgDuration: number }>;
-  callOutcomes: Array<{ outcome: string, count: number, percentage: number }>;
+  callOutcomes: CallOutcomeShare[];
   callInquiries: Array<{ type: string, count: number, percentage: number }>;
   hourlyDistribution: Array<{ hour: number, count: number }>;
   dailyDistribution: Array<{ day: string, count: number }>;
@@ -50,7 +53,7 @@ interface CallAnalyticsData {
   };
 }
 
-const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clientId, callType = 'live' }) => {
+const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clientId, callType = 'live', includeSpam = false }) => {
   const { user } = useAuth();
   const isMobile = useIsMobile();
 
@@ -78,13 +81,6 @@ const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clien
     return data ? transformDataForHeatmap(data) : [];
   }, [data]);
 
-  const outcomeColors = useMemo(() => ({
-    completed: '#10b981',
-    transferred: '#f59e0b',
-    failed: '#ef4444',
-    incomplete: '#6b7280'
-  }), []);
-  
   // Colors for call inquiry types
   const inquiryColors = useMemo(() => ({
     general: '#a78bfa',     // Light purple shade
@@ -106,7 +102,7 @@ const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clien
       if (!user) return;
 
       // Create cache key
-      const cacheKey = `${user.id}_${clientId || 'all'}_${startDate || 'no_start'}_${endDate || 'no_end'}_${callType}`;
+      const cacheKey = `${user.id}_${clientId || 'all'}_${startDate || 'no_start'}_${endDate || 'no_end'}_${callType}_${includeSpam ? 'spam' : 'no_spam'}`;
       
       // Check cache first
       const cached = cacheRef.current.get(cacheKey);
@@ -158,7 +154,8 @@ const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clien
             endDate,
             // Only pass timeframe: 'day' if a date filter is set; for no filter, fetch all-time for consistency
             ...(startDate || endDate ? { timeframe: 'day' } : {}),
-            callType: callType
+            callType: callType,
+            includeSpam
           }),
           AnalyticsService.getCallPerformanceMetrics(effectiveClientId)
         ]);
@@ -192,6 +189,10 @@ const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clien
             } else if (callType === 'test') {
               callsQuery = callsQuery.eq('is_test_call', true);
             }
+
+            if (!includeSpam) {
+              callsQuery = callsQuery.eq('is_spam', false);
+            }
             
             const { data: rawCalls, error } = await callsQuery;
             
@@ -355,7 +356,7 @@ const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clien
     };
 
     fetchAnalytics();
-  }, [user?.id, user?.role, user?.client_id, startDate, endDate, clientId, callType]); // Only depend on specific user properties
+  }, [user?.id, user?.role, user?.client_id, startDate, endDate, clientId, callType, includeSpam]); // Only depend on specific user properties
 
   if (loading) {
     return (
@@ -700,6 +701,40 @@ const CallAnalytics: React.FC<CallAnalyticsProps> = ({ startDate, endDate, clien
             </div>
           </CardContent>
         </Card>
+
+        {/* Call Outcomes, as classified in the database */}
+        <Card className="w-full max-w-full overflow-hidden lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Call Outcomes</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">{formatDateRange}</p>
+          </CardHeader>
+          <CardContent className="w-full max-w-full overflow-hidden px-3 sm:px-6">
+            <div className="h-[220px] sm:h-[300px] w-full min-w-0 overflow-hidden">
+              {data.callOutcomes.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={data.callOutcomes} layout="vertical" margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                    <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                    <YAxis type="category" dataKey="label" width={isMobile ? 100 : 140} tick={{ fontSize: 12 }} />
+                    <Tooltip
+                      formatter={(value, name, props) => [`${value} calls (${props.payload.percentage}%)`, props.payload.label]}
+                      labelFormatter={() => ''}
+                    />
+                    <Bar dataKey="count" radius={[0, 4, 4, 0]}>
+                      {data.callOutcomes.map(entry => (
+                        <Cell key={entry.outcome} fill={CALL_OUTCOME_COLORS[entry.outcome]} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex items-center justify-center h-full">
+                  <p className="text-muted-foreground">No outcome data available</p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -7,6 +7,10 @@ import { useLeads } from '@/context/LeadContext';
 import { useCalls } from '@/context/CallsContext';
 import { DateRangeFilter } from '@/components/analytics/DateRangeFilter';
 import { useDateRange } from '@/hooks/useDateRange';
+import { useLeadPipelineAnalytics } from '@/hooks/useLeadPipeline';
+import { useAuth } from '@/context/AuthContext';
+import { getClientIdFilter } from '@/utils/clientDataIsolation';
+import { formatStageDuration } from '@/utils/leadPipeline';
 
 // Theme-aware colors for charts with better diversity
 // Using CSS variables to ensure they work in both light and dark mode
@@ -38,6 +42,33 @@ const LeadAnalytics: React.FC<LeadAnalyticsProps> = ({ clientId, callType = 'liv
   const { leads, stats } = useLeads();
   const { calls } = useCalls();
   const { dateRange, setDateRange, startDate, endDate } = useDateRange();
+  const { user } = useAuth();
+
+  // CRITICAL: Client-restricted users always see their own client's pipeline
+  const pipelineClientId = getClientIdFilter(user) || clientId;
+  const {
+    conversions: stageConversions,
+    durations: stageDurations,
+    loading: pipelineLoading,
+    error: pipelineError,
+  } = useLeadPipelineAnalytics(pipelineClientId);
+
+  // Stage-to-stage conversion rates for the bar chart
+  const stageConversionData = useMemo(() => stageConversions.map(conversion => ({
+    name: `${conversion.from.label} → ${conversion.to.label}`,
+    value: conversion.rate,
+    entered: conversion.entered,
+    advanced: conversion.advanced,
+  })), [stageConversions]);
+
+  // Average time in each open stage for the bar chart
+  const stageDurationData = useMemo(() => stageDurations.map(duration => ({
+    name: duration.stage.label,
+    value: duration.averageHours,
+    median: duration.medianHours,
+    leads: duration.leads,
+    fill: duration.stage.color || 'hsl(var(--primary))',
+  })), [stageDurations]);
   
   // Prepare data for lead conversion funnel with updated theme-aware colors
   const leadFunnelData = useMemo(() => {
@@ -204,6 +235,100 @@ const LeadAnalytics: React.FC<LeadAnalyticsProps> = ({ clientId, callType = 'liv
           </CardContent>
         </Card>
       </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="bg-card shadow-sm hover:border-primary/20 transition-all duration-300">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-medium text-card-foreground">Stage Conversion</CardTitle>
+            {!pipelineClientId && (
+              <p className="text-xs text-muted-foreground">Using the default pipeline. Select a client to use its stages.</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {pipelineError ? (
+              <p className="text-sm text-destructive">Failed to load pipeline analytics: {pipelineError.message}</p>
+            ) : pipelineLoading ? (
+              <div className="h-[250px] w-full animate-pulse rounded-md bg-muted" />
+            ) : (
+              <div className="h-[250px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={stageConversionData}
+                    layout="vertical"
+                    margin={isMobile ? { top: 5, right: 10, left: 10, bottom: 5 } : { top: 5, right: 30, left: 40, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis type="number" domain={[0, 100]} unit="%" stroke="hsl(var(--muted-foreground))" />
+                    <YAxis type="category" dataKey="name" width={140} stroke="hsl(var(--muted-foreground))" tick={{ fontSize: 12 }} />
+                    <Tooltip
+                      content={({ active, payload }) => {
+                        if (active && payload && payload.length) {
+                          const data = payload[0].payload;
+                          return (
+                            <div className="bg-card border border-border shadow-md p-3 rounded-md">
+                              <p className="text-card-foreground font-medium">{data.name}</p>
+                              <p className="text-primary">{`Conversion: ${data.value}%`}</p>
+                              <p className="text-muted-foreground text-sm">{`${data.advanced} of ${data.entered} leads moved on`}</p>
+                            </div>
+                          );
+                        }
+                        return null;
+                      }}
+                    />
+                    <Bar dataKey="value" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card shadow-sm hover:border-primary/20 transition-all duration-300">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-medium text-card-foreground">Time in Stage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {pipelineError ? (
+              <p className="text-sm text-destructive">Failed to load pipeline analytics: {pipelineError.message}</p>
+            ) : pipelineLoading ? (
+              <div className="h-[250px] w-full animate-pulse rounded-md bg-muted" />
+            ) : (
+              <div className="h-[250px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={stageDurationData}
+                    margin={isMobile ? { top: 5, right: 10, left: -20, bottom: 5 } : { top: 5, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" />
+                    <YAxis unit="h" stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip
+                      content={({ active, payload }) => {
+                        if (active && payload && payload.length) {
+                          const data = payload[0].payload;
+                          return (
+                            <div className="bg-card border border-border shadow-md p-3 rounded-md">
+                              <p className="text-card-foreground font-medium">{data.name}</p>
+                              <p className="text-primary">{`Average: ${formatStageDuration(data.value)}`}</p>
+                              <p className="text-muted-foreground text-sm">{`Median: ${formatStageDuration(data.median)} across ${data.leads} leads`}</p>
+                            </div>
+                          );
+                        }
+                        return null;
+                      }}
+                    />
+                    <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                      {stageDurationData.map((entry, index) => (
+                        <Cell key={`stage-cell-${index}`} fill={entry.fill} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useCallerHistory } from '@/hooks/useCallerHistory';
+import { countRecentCalls, getCallerHistoryPath } from '@/utils/callerHistory';
+
+interface CallerHistorySummaryProps {
+  phone: string | null | undefined;
+  clientId: string | null | undefined;
+  currentCallId?: string; // Left out of the counts
+  onNavigate?: () => void; // Close the surrounding dialog before leaving the page
+}
+
+/**
+ * One-line summary of a caller's earlier calls and leads, linking to their caller history
+ */
+const CallerHistorySummary: React.FC<CallerHistorySummaryProps> = ({ phone, clientId, currentCallId, onNavigate }) => {
+  const navigate = useNavigate();
+  const { history, loading } = useCallerHistory(phone, clientId);
+
+  if (!phone || !clientId) return null;
+
+  if (loading) {
+    return <Skeleton className="h-8 w-full" />;
+  }
+
+  if (!history) return null;
+
+  const otherCalls = history.calls.filter(call => call.id !== currentCallId);
+  const lastWeek = countRecentCalls(history.calls, 7, new Date(), currentCallId);
+  const previousCall = otherCalls[0];
+
+  const openHistory = () => {
+    onNavigate?.();
+    navigate(getCallerHistoryPath(history.phone, history.client_id));
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-3 py-2">
+      <div className="text-sm">
+        {otherCalls.length === 0 ? (
+          <span className="text-muted-foreground">First call from this number</span>
+        ) : (
+          <>
+            <span className="font-medium">
+              {lastWeek > 0
+                ? `Called ${lastWeek} ${lastWeek === 1 ? 'other time' : 'other times'} in the last 7 days`
+                : `${otherCalls.length} earlier ${otherCalls.length === 1 ? 'call' : 'calls'}`}
+            </span>
+            <span className="text-muted-foreground">
+              {previousCall && ` · last ${formatDistanceToNow(new Date(previousCall.call_start_time), { addSuffix: true })}`}
+              {history.leads.length > 0 && ` · ${history.leads.length} ${history.leads.length === 1 ? 'lead' : 'leads'}`}
+            </span>
+          </>
+        )}
+      </div>
+      <Button variant="ghost" size="sm" className="shrink-0" onClick={openHistory}>
+        <History className="h-4 w-4 mr-1" />
+        History
+      </Button>
+    </div>
+  );
+};
+
+export default CallerHistorySummary;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useCallerSearch } from '@/hooks/useCallerHistory';
+import { useAuth } from '@/context/AuthContext';
+import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { getCallerHistoryPath } from '@/utils/callerHistory';
+import { formatPhoneNumber } from '@/utils/formatting';
+
+interface CallerSearchBoxProps {
+  clientId?: string | null; // Client filter (null for admins searching all clients)
+  className?: string;
+  placeholder?: string;
+}
+
+/**
+ * Search callers by phone number or name and open their caller history
+ */
+const CallerSearchBox: React.FC<CallerSearchBoxProps> = ({
+  clientId,
+  className,
+  placeholder = 'Find a caller by phone or name...'
+}) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [term, setTerm] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const { results, active, searching, error } = useCallerSearch(term, clientId);
+  const showClient = canViewSensitiveInfo(user) && !clientId;
+
+  const openCaller = (phone: string, callerClientId: string) => {
+    setTerm('');
+    navigate(getCallerHistoryPath(phone, callerClientId));
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        value={term}
+        onChange={(event) => setTerm(event.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        placeholder={placeholder}
+        className="pl-8 h-9"
+        aria-label="Search callers"
+      />
+
+      {isFocused && active && (
+        <div className="absolute z-50 mt-1 w-full min-w-[280px] rounded-md border bg-popover text-popover-foreground shadow-md">
+          {searching ? (
+            <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : error ? (
+            <div className="p-3 text-sm text-destructive">Caller search failed</div>
+          ) : results.length === 0 ? (
+            <div className="p-3 text-sm text-muted-foreground">No callers found</div>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto py-1">
+              {results.map(result => (
+                <li key={`${result.client_id}:${result.phone}`}>
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 text-left hover:bg-muted"
+                    // Keep the input focused so the list stays open until the click lands
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => openCaller(result.phone, result.client_id)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium truncate">{result.caller_name || 'Unknown caller'}</span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {result.calls} {result.calls === 1 ? 'call' : 'calls'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatPhoneNumber(result.display_phone)}
+                      {showClient && result.client_name && ` · ${result.client_name}`}
+                      {` · last called ${formatDistanceToNow(new Date(result.last_call_at), { addSuffix: true })}`}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CallerSearchBox;
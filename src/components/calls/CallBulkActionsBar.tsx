@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { ChevronDown, Download, FlaskConical, Flag, FlagOff, Loader2, Radio, Tag, Tags, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { CallLog } from '@/integrations/supabase/call-logs-service';
+import { CallBulkActionService } from '@/services/callBulkActionService';
+import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { CALL_BULK_ACTION_LABELS, describeBulkResult, parseCallTags } from '@/utils/callBulkActions';
+import { downloadFile, generateExportFilename } from '@/utils/exportUtils';
+import type { BulkOperationResult } from '@/types/admin';
+import type { CallBulkAction, CallBulkProgress, CallUpdateAction } from '@/types/callBulkActions';
+
+type ConfirmedAction = Exclude<CallUpdateAction, 'add_tags' | 'remove_tags'>;
+type TagAction = Extract<CallUpdateAction, 'add_tags' | 'remove_tags'>;
+
+const CONFIRM_DESCRIPTIONS: Record<ConfirmedAction, string> = {
+  mark_test: 'Test calls are excluded from live reporting.',
+  mark_live: 'Live calls are included in all reporting.',
+  flag_review: 'The calls are added to the human review queue. Calls that have not been evaluated yet, or whose review was already resolved, are skipped; reopen resolved reviews from the review queue.',
+  clear_review: 'Unresolved reviews of these calls are taken off the human review queue.',
+  create_leads: "A lead is created from the caller's name and number for each call that does not have one yet.",
+};
+
+interface CallBulkActionsBarProps {
+  selectedCalls: Pick<CallLog, 'id' | 'caller_full_name' | 'caller_phone_number'>[];
+  onSelectionChange: (ids: string[]) => void; // Failed calls stay selected so they can be retried
+  onComplete?: () => void;                    // Reload the calls after they changed
+}
+
+/**
+ * Bulk actions on the selected call logs, with progress and a report of the calls that failed
+ */
+const CallBulkActionsBar: React.FC<CallBulkActionsBarProps> = ({ selectedCalls, onSelectionChange, onComplete }) => {
+  const { user } = useAuth();
+  const isAdmin = canViewSensitiveInfo(user);
+  const [confirmAction, setConfirmAction] = useState<ConfirmedAction | null>(null);
+  const [tagAction, setTagAction] = useState<TagAction | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [running, setRunning] = useState<{ action: CallBulkAction; progress: CallBulkProgress } | null>(null);
+  const [report, setReport] = useState<{ action: CallBulkAction; result: BulkOperationResult; verb: string } | null>(null);
+
+  if (selectedCalls.length === 0) return null;
+
+  const ids = selectedCalls.map(call => call.id);
+  const tags = parseCallTags(tagInput);
+
+  const finish = (action: CallBulkAction, result: BulkOperationResult, verb: string) => {
+    setRunning(null);
+    onSelectionChange(result.errors.map(error => error.id));
+    toast({
+      title: CALL_BULK_ACTION_LABELS[action],
+      description: describeBulkResult(result, verb),
+      variant: result.processed === 0 ? 'destructive' : 'default',
+    });
+    if (result.failed > 0) {
+      setReport({ action, result, verb });
+    }
+  };
+
+  const fail = (action: CallBulkAction, error: unknown) => {
+    console.error(`Error running bulk action ${action}:`, error);
+    setRunning(null);
+    toast({
+      title: `${CALL_BULK_ACTION_LABELS[action]} failed`,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const runAction = async (action: CallUpdateAction, actionTags?: string[]) => {
+    setConfirmAction(null);
+    setTagAction(null);
+    setRunning({ action, progress: { done: 0, total: ids.length } });
+    try {
+      const result = await CallBulkActionService.runBulkAction(
+        { action, ids, tags: actionTags },
+        user?.id,
+        progress => setRunning({ action, progress })
+      );
+      finish(action, result, action === 'create_leads' ? 'converted to leads' : 'updated');
+      if (result.processed > 0) onComplete?.();
+    } catch (error) {
+      fail(action, error);
+    }
+  };
+
+  const runExport = async () => {
+    setRunning({ action: 'export', progress: { done: 0, total: ids.length } });
+    try {
+      const result = await CallBulkActionService.exportCalls(ids, isAdmin, progress => setRunning({ action: 'export', progress }));
+      if (result.processed > 0) {
+        downloadFile(result.csv, generateExportFilename('calls', 'csv'), 'text/csv;charset=utf-8');
+      }
+      finish('export', result, 'exported');
+    } catch (error) {
+      fail('export', error);
+    }
+  };
+
+  const openTagDialog = (action: TagAction) => {
+    setTagInput('');
+    setTagAction(action);
+  };
+
+  const callLabel = (id: string) => {
+    const call = selectedCalls.find(selected => selected.id === id);
+    return call?.caller_full_name || call?.caller_phone_number || id;
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-border bg-primary/5">
+        <span className="text-sm font-medium">
+          {selectedCalls.length} {selectedCalls.length === 1 ? 'call' : 'calls'} selected
+        </span>
+
+        {running ? (
+          <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+            <Loader2 className="h-4 w-4 animate-spin text-foreground/60" />
+            <span className="text-xs text-foreground/70 whitespace-nowrap">
+              {CALL_BULK_ACTION_LABELS[running.action]}: {running.progress.done} of {running.progress.total}
+            </span>
+            <Progress
+              value={running.progress.total > 0 ? (running.progress.done / running.progress.total) * 100 : 0}
+              className="h-2 max-w-xs"
+            />
+          </div>
+        ) : (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  Actions
+                  <ChevronDown className="h-4 w-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onSelect={() => setConfirmAction('mark_test')}>
+                  <FlaskConical className="h-4 w-4 mr-2" />
+                  {CALL_BULK_ACTION_LABELS.mark_test}
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setConfirmAction('mark_live')}>
+                  <Radio className="h-4 w-4 mr-2" />
+                  {CALL_BULK_ACTION_LABELS.mark_live}
+                </DropdownMenuItem>
+                {isAdmin && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => setConfirmAction('flag_review')}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      {CALL_BULK_ACTION_LABELS.flag_review}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setConfirmAction('clear_review')}>
+                      <FlagOff className="h-4 w-4 mr-2" />
+                      {CALL_BULK_ACTION_LABELS.clear_review}
+                    </DropdownMenuItem>
+                  </>
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => setConfirmAction('create_leads')}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  {CALL_BULK_ACTION_LABELS.create_leads}
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openTagDialog('add_tags')}>
+                  <Tag className="h-4 w-4 mr-2" />
+                  {CALL_BULK_ACTION_LABELS.add_tags}
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openTagDialog('remove_tags')}>
+                  <Tags className="h-4 w-4 mr-2" />
+                  {CALL_BULK_ACTION_LABELS.remove_tags}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Button variant="outline" size="sm" onClick={runExport}>
+              <Download className="h-4 w-4 mr-1" />
+              Export
+            </Button>
+
+            <Button variant="ghost" size="sm" onClick={() => onSelectionChange([])}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={!!confirmAction} onOpenChange={open => !open && setConfirmAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction && `${CALL_BULK_ACTION_LABELS[confirmAction]} for ${selectedCalls.length} ${selectedCalls.length === 1 ? 'call' : 'calls'}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction && CONFIRM_DESCRIPTIONS[confirmAction]}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmAction && runAction(confirmAction)}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!tagAction} onOpenChange={open => !open && setTagAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{tagAction && CALL_BULK_ACTION_LABELS[tagAction]}</DialogTitle>
+            <DialogDescription>
+              {tagAction === 'add_tags' ? 'Tags are added to' : 'Tags are removed from'} {selectedCalls.length} {selectedCalls.length === 1 ? 'call' : 'calls'}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="call-bulk-tags">Tags</Label>
+            <Input
+              id="call-bulk-tags"
+              value={tagInput}
+              onChange={event => setTagInput(event.target.value)}
+              placeholder="follow up, pricing question"
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagAction(null)}>Cancel</Button>
+            <Button onClick={() => tagAction && runAction(tagAction, tags)} disabled={tags.length === 0}>
+              {tagAction && CALL_BULK_ACTION_LABELS[tagAction]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!report} onOpenChange={open => !open && setReport(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{report && CALL_BULK_ACTION_LABELS[report.action]}</DialogTitle>
+            <DialogDescription>
+              {report && `${describeBulkResult(report.result, report.verb)}. The failed calls are still selected.`}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-72 overflow-y-auto divide-y divide-border text-sm">
+            {report?.result.errors.map(error => (
+              <li key={error.id} className="py-2">
+                <p className="font-medium">{callLabel(error.id)}</p>
+                <p className="text-xs text-destructive">{error.error}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setReport(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CallBulkActionsBar;
@@ -10,16 +10,31 @@ import { CallLog } from '@/integrations/supabase/call-logs-service';
 import { useAuth } from '@/context/AuthContext';
 import { canViewSensitiveInfo, canViewCallDetails } from '@/utils/clientDataIsolation';
 import { convertUsdToCad } from '@/utils/currency';
+import { describeAppliedRates } from '@/utils/exchangeRates';
+import { useUsdToCadRate } from '@/hooks/useExchangeRate';
 import { toast } from 'sonner';
 import { getCallerInitials } from './utils';
 import { ToolCallsSection } from './ToolCallsSection';
+import { SpamVerdictSection } from './SpamVerdictSection';
+import CallerHistorySummary from '@/components/callers/CallerHistorySummary';
 
 interface CallDetailsTabProps {
   call: CallLog | null;
+  onNavigate?: () => void; // Close the popup when a link leaves the page
 }
 
-export const CallDetailsTab: React.FC<CallDetailsTabProps> = ({ call }) => {
+export const CallDetailsTab: React.FC<CallDetailsTabProps> = ({ call, onNavigate }) => {
   const { user } = useAuth();
+  // Costs without a stored CAD total convert at the rate of the day of the call
+  const usdToCadRate = useUsdToCadRate(
+    call && call.total_cost_cad == null && canViewSensitiveInfo(user) ? call.created_at : null
+  );
+
+  const formatCostCad = (decimals: number) => {
+    if (call?.total_cost_cad != null) return call.total_cost_cad.toFixed(decimals);
+    if (!usdToCadRate) return '…';
+    return convertUsdToCad(call?.total_call_cost_usd, usdToCadRate.rate).toFixed(decimals);
+  };
 
   const copyToClipboard = (text: string, label: string) => {
     if (!text) return;
@@ -61,6 +76,13 @@ export const CallDetailsTab: React.FC<CallDetailsTabProps> = ({ call }) => {
                   </div>
                 </div>
               </div>
+
+              <CallerHistorySummary
+                phone={call.caller_phone_number}
+                clientId={call.client_id}
+                currentCallId={call.id}
+                onNavigate={onNavigate}
+              />
               
               <Separator />
               
@@ -190,10 +212,14 @@ export const CallDetailsTab: React.FC<CallDetailsTabProps> = ({ call }) => {
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Total Cost (CAD)</span>
                     <span className="text-sm font-medium">
-                      ${call.total_cost_cad?.toFixed(2) || 
-                        convertUsdToCad(call.total_call_cost_usd).toFixed(2)} CAD
+                      ${formatCostCad(2)} CAD
                     </span>
                   </div>
+                  {call.total_cost_cad == null && usdToCadRate && (
+                    <p className="text-xs text-muted-foreground text-right">
+                      {describeAppliedRates([usdToCadRate])}
+                    </p>
+                  )}
                   
                   {/* Cost Breakdown Accordion */}
                   <div className="mt-2">
@@ -281,8 +307,7 @@ export const CallDetailsTab: React.FC<CallDetailsTabProps> = ({ call }) => {
                         <div className="flex justify-between">
                           <span className="text-xs font-medium">Total Cost (CAD)</span>
                           <span className="text-xs font-medium">
-                            ${call.total_cost_cad?.toFixed(4) || 
-                              convertUsdToCad(call.total_call_cost_usd).toFixed(4)} CAD
+                            ${formatCostCad(4)} CAD
                           </span>
                         </div>
                       </div>
@@ -304,6 +329,8 @@ export const CallDetailsTab: React.FC<CallDetailsTabProps> = ({ call }) => {
             </p>
           </CardContent>
         </Card>
+        {/* Spam Check */}
+        <SpamVerdictSection key={call.id} call={call} />
         {/* Tool Calls - Visible to admin users and client_admin */}
         {canViewCallDetails(user) && (
           <Card>
@@ -15,6 +15,9 @@ import { CallLog } from '@/integrations/supabase/call-logs-service';
 import { LeadEvaluationService } from '@/services/leadEvaluationService';
 import { LeadEvaluationSummary } from '@/types/leadEvaluation';
 import { PromptAdherenceService, PromptAdherenceReview } from '@/services/promptAdherenceService';
+import { CallReviewService } from '@/services/callReviewService';
+import type { CallReview } from '@/types/callReview';
+import { REVIEW_VERDICT_LABELS } from '@/utils/callReview';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/context/AuthContext';
 import { canViewCallEvaluation, canViewSensitiveInfo } from '@/utils/clientDataIsolation';
@@ -29,6 +32,7 @@ export const CallEvaluationTab: React.FC<CallEvaluationTabProps> = ({ call }) =>
   const [evaluationLoading, setEvaluationLoading] = useState(false);
   const [promptAdherence, setPromptAdherence] = useState<PromptAdherenceReview | null>(null);
   const [promptAdherenceLoading, setPromptAdherenceLoading] = useState(false);
+  const [review, setReview] = useState<CallReview | null>(null);
 
   // Check if user can view evaluation data
   const canViewEvaluation = canViewCallEvaluation(user);
@@ -62,6 +66,21 @@ export const CallEvaluationTab: React.FC<CallEvaluationTabProps> = ({ call }) =>
     loadEvaluation();
   }, [call, canViewEvaluation]);
 
+  // Load the human review of flagged calls
+  useEffect(() => {
+    if (!call?.id || !evaluation?.humanReviewRequired) {
+      setReview(null);
+      return;
+    }
+
+    CallReviewService.getReviewByCallId(call.id)
+      .then(setReview)
+      .catch(error => {
+        console.error('Error loading call review:', error);
+        setReview(null);
+      });
+  }, [call?.id, evaluation?.humanReviewRequired]);
+
   // Load prompt adherence review data when call changes (only for system-wide users)
   useEffect(() => {
     const loadPromptAdherence = async () => {
@@ -160,6 +179,13 @@ export const CallEvaluationTab: React.FC<CallEvaluationTabProps> = ({ call }) =>
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{evaluation.humanReviewRequired ? 'Yes' : 'No'}</div>
+                {review && (
+                  <p className="text-xs text-muted-foreground">
+                    {review.status === 'resolved'
+                      ? `Reviewed: ${review.verdict ? REVIEW_VERDICT_LABELS[review.verdict] : 'resolved'}`
+                      : review.assignee_name ? `In review by ${review.assignee_name}` : 'Waiting in the review queue'}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,123 +11,38 @@ import {
   SkipForward,
 } from 'lucide-react';
 import { CallLog } from '@/integrations/supabase/call-logs-service';
+import type { CallRecordingPlayer } from '@/hooks/useCallRecordingPlayer';
 import { formatTime } from './utils';
 
 interface CallRecordingTabProps {
   call: CallLog | null;
+  player: CallRecordingPlayer;
 }
 
-export const CallRecordingTab: React.FC<CallRecordingTabProps> = ({ call }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
-  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
-  const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
-
-  // Initialize audio player when call changes
-  useEffect(() => {
-    if (call?.recording_url) {
-      const audio = new Audio(call.recording_url);
-      
-      const handleLoadedMetadata = () => {
-        setDuration(audio.duration);
-      };
-      
-      const handleTimeUpdate = () => {
-        setCurrentTime(audio.currentTime);
-      };
-      
-      const handleEnded = () => {
-        setIsPlaying(false);
-        setCurrentTime(0);
-        audio.currentTime = 0;
-      };
-      
-      audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.addEventListener('timeupdate', handleTimeUpdate);
-      audio.addEventListener('ended', handleEnded);
-      
-      // Set initial playback speed
-      audio.playbackRate = playbackSpeed;
-      
-      setAudioElement(audio);
-      
-      return () => {
-        audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-        audio.removeEventListener('timeupdate', handleTimeUpdate);
-        audio.removeEventListener('ended', handleEnded);
-        audio.pause();
-        setAudioElement(null);
-      };
-    }
-  }, [call, playbackSpeed]);
-
-  // Handle play/pause
-  const togglePlayPause = () => {
-    if (!audioElement) return;
-    
-    if (isPlaying) {
-      audioElement.pause();
-    } else {
-      audioElement.play();
-    }
-    
-    setIsPlaying(!isPlaying);
-  };
-
-  // Handle mute/unmute
-  const toggleMute = () => {
-    if (!audioElement) return;
-    
-    audioElement.muted = !audioElement.muted;
-    setIsMuted(!isMuted);
-  };
-
-  // Handle playback speed change
-  const cyclePlaybackSpeed = () => {
-    if (!audioElement) return;
-    
-    // Define the sequence of speeds
-    const speeds = [1.0, 1.25, 1.5, 1.75, 2.0];
-    
-    // Find the index of the current speed or the closest one
-    const currentIndex = speeds.findIndex(speed => speed === playbackSpeed);
-    
-    // Get the next speed in the sequence or go back to the beginning
-    const nextIndex = (currentIndex + 1) % speeds.length;
-    const nextSpeed = speeds[nextIndex];
-    
-    // Apply the new speed without pausing playback
-    audioElement.playbackRate = nextSpeed;
-    setPlaybackSpeed(nextSpeed);
-  };
+export const CallRecordingTab: React.FC<CallRecordingTabProps> = ({ call, player }) => {
+  const {
+    audioElement,
+    isPlaying,
+    isMuted,
+    currentTime,
+    duration,
+    playbackSpeed,
+    togglePlayPause,
+    toggleMute,
+    cyclePlaybackSpeed,
+    seek,
+    skip,
+  } = player;
 
   // Handle seek
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!audioElement) return;
-    
-    const newTime = parseFloat(e.target.value);
-    audioElement.currentTime = newTime;
-    setCurrentTime(newTime);
+    seek(parseFloat(e.target.value));
   };
 
   // Handle skip forward/backward
-  const skipForward = () => {
-    if (!audioElement) return;
-    
-    const newTime = Math.min(audioElement.currentTime + 10, audioElement.duration);
-    audioElement.currentTime = newTime;
-    setCurrentTime(newTime);
-  };
+  const skipForward = () => skip(10);
 
-  const skipBackward = () => {
-    if (!audioElement) return;
-    
-    const newTime = Math.max(audioElement.currentTime - 10, 0);
-    audioElement.currentTime = newTime;
-    setCurrentTime(newTime);
-  };
+  const skipBackward = () => skip(-10);
 
   return (
     <ScrollArea className="h-full pr-4">
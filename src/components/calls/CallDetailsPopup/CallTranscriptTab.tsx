@@ -1,20 +1,104 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Copy, Download } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Bot, ChevronDown, ChevronUp, Copy, Download, Pause, Play, Search, User } from 'lucide-react';
 import { CallLog } from '@/integrations/supabase/call-logs-service';
+import type { CallRecordingPlayer } from '@/hooks/useCallRecordingPlayer';
+import type { TranscriptMatch, TranscriptTurn } from '@/types/callTranscript';
+import {
+  TRANSCRIPT_SPEAKER_LABELS,
+  findActiveTurnIndex,
+  findTranscriptMatches,
+  parseTranscript,
+} from '@/utils/callTranscript';
+import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { formatTime } from './utils';
 
 interface CallTranscriptTabProps {
   call: CallLog | null;
+  player: CallRecordingPlayer;
 }
 
-export const CallTranscriptTab: React.FC<CallTranscriptTabProps> = ({ call }) => {
+const speakerStyles = {
+  agent: 'text-primary',
+  customer: 'text-emerald-600 dark:text-emerald-400',
+  unknown: 'text-muted-foreground',
+};
+
+/**
+ * Render a turn's text with its search matches highlighted
+ */
+const renderHighlightedText = (turn: TranscriptTurn, matches: TranscriptMatch[], currentMatch: TranscriptMatch | undefined) => {
+  if (matches.length === 0) return turn.text;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach((match, i) => {
+    if (match.offset > position) {
+      parts.push(turn.text.slice(position, match.offset));
+    }
+    parts.push(
+      <mark
+        key={i}
+        className={cn(
+          'rounded-sm px-0.5',
+          match === currentMatch ? 'bg-amber-400 text-black' : 'bg-yellow-200/70 dark:bg-yellow-500/40 text-inherit'
+        )}
+      >
+        {turn.text.slice(match.offset, match.offset + match.length)}
+      </mark>
+    );
+    position = match.offset + match.length;
+  });
+  parts.push(turn.text.slice(position));
+  return parts;
+};
+
+export const CallTranscriptTab: React.FC<CallTranscriptTabProps> = ({ call, player }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
+  const turnRefs = useRef(new Map<number, HTMLDivElement>());
+
+  const hasRecording = Boolean(call?.recording_url && player.audioElement);
+  const durationSeconds = (isFinite(player.duration) && player.duration) || call?.call_duration_seconds || null;
+
+  const turns = useMemo(
+    () => parseTranscript(call?.transcript, durationSeconds),
+    [call?.transcript, durationSeconds]
+  );
+  const hasEstimatedTimes = turns.some(turn => turn.estimated);
+
+  const matches = useMemo(() => findTranscriptMatches(turns, searchQuery), [turns, searchQuery]);
+  const currentMatch = matches[currentMatchIndex];
+
+  const activeTurnIndex = hasRecording ? findActiveTurnIndex(turns, player.currentTime) : -1;
+
+  // Start from the first match whenever the search changes
+  useEffect(() => {
+    setCurrentMatchIndex(0);
+  }, [searchQuery]);
+
+  // Bring the current match into view
+  useEffect(() => {
+    if (!currentMatch) return;
+    const element = turnRefs.current.get(currentMatch.turnIndex);
+    element?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, [currentMatch]);
+
+  // Follow the turn being played, unless the user is stepping through search matches
+  useEffect(() => {
+    if (!player.isPlaying || activeTurnIndex < 0 || searchQuery.trim()) return;
+    const element = turnRefs.current.get(activeTurnIndex);
+    element?.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
+  }, [activeTurnIndex, player.isPlaying, searchQuery]);
+
   // Copy transcript to clipboard
   const copyTranscript = () => {
     if (!call?.transcript) return;
-    
+
     navigator.clipboard.writeText(call.transcript)
       .then(() => toast.success('Transcript copied to clipboard'))
       .catch(() => toast.error('Failed to copy transcript'));
@@ -23,7 +107,7 @@ export const CallTranscriptTab: React.FC<CallTranscriptTabProps> = ({ call }) =>
   // Download transcript as text file
   const downloadTranscript = () => {
     if (!call?.transcript) return;
-    
+
     const element = document.createElement('a');
     const file = new Blob([call.transcript], { type: 'text/plain' });
     element.href = URL.createObjectURL(file);
@@ -33,6 +117,25 @@ export const CallTranscriptTab: React.FC<CallTranscriptTabProps> = ({ call }) =>
     document.body.removeChild(element);
   };
 
+  // Step through search matches, wrapping around at either end
+  const goToMatch = (step: number) => {
+    if (matches.length === 0) return;
+    setCurrentMatchIndex(index => (index + step + matches.length) % matches.length);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    }
+  };
+
+  // Jump the recording to a turn
+  const handleTurnClick = (turn: TranscriptTurn) => {
+    if (!hasRecording || turn.start === null) return;
+    player.seek(turn.start, true);
+  };
+
   return (
     <ScrollArea className="h-full pr-4">
       {call?.transcript ? (
@@ -58,11 +161,116 @@ export const CallTranscriptTab: React.FC<CallTranscriptTabProps> = ({ call }) =>
               </Button>
             </div>
           </CardHeader>
-          <CardContent>
-            <div className="rounded-md border p-4 bg-muted/50">
-              <pre className="text-sm whitespace-pre-wrap font-sans">
-                {call.transcript}
-              </pre>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {hasRecording && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="default"
+                    size="icon"
+                    className="h-8 w-8 rounded-full"
+                    onClick={player.togglePlayPause}
+                    aria-label={player.isPlaying ? 'Pause recording' : 'Play recording'}
+                  >
+                    {player.isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4 ml-0.5" />}
+                  </Button>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {formatTime(player.currentTime)} / {formatTime(durationSeconds || 0)}
+                  </span>
+                </div>
+              )}
+
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search transcript..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
+                  className="pl-8 h-9"
+                  aria-label="Search transcript"
+                />
+              </div>
+
+              {searchQuery.trim() && (
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground tabular-nums min-w-[60px] text-right">
+                    {matches.length > 0 ? `${currentMatchIndex + 1} of ${matches.length}` : 'No matches'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => goToMatch(-1)}
+                    disabled={matches.length === 0}
+                    aria-label="Previous match"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => goToMatch(1)}
+                    disabled={matches.length === 0}
+                    aria-label="Next match"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {hasRecording && hasEstimatedTimes && (
+              <p className="text-xs text-muted-foreground">
+                This transcript has no timestamps, so times are estimated from the recording length.
+              </p>
+            )}
+
+            <div className="rounded-md border bg-muted/50 divide-y divide-border">
+              {turns.map(turn => {
+                const turnMatches = matches.filter(match => match.turnIndex === turn.index);
+                const isActive = turn.index === activeTurnIndex;
+                const canSeek = hasRecording && turn.start !== null;
+                const SpeakerIcon = turn.speaker === 'agent' ? Bot : User;
+
+                return (
+                  <div
+                    key={turn.index}
+                    ref={(element) => {
+                      if (element) {
+                        turnRefs.current.set(turn.index, element);
+                      } else {
+                        turnRefs.current.delete(turn.index);
+                      }
+                    }}
+                    className={cn(
+                      'flex gap-3 p-3 transition-colors',
+                      canSeek && 'cursor-pointer hover:bg-muted',
+                      isActive && 'bg-primary/10 border-l-2 border-l-primary'
+                    )}
+                    onClick={() => handleTurnClick(turn)}
+                    role={canSeek ? 'button' : undefined}
+                    aria-current={isActive ? 'true' : undefined}
+                    title={canSeek ? 'Play from here' : undefined}
+                  >
+                    <div className="w-24 shrink-0 space-y-0.5">
+                      <div className={cn('flex items-center gap-1 text-xs font-medium', speakerStyles[turn.speaker])}>
+                        {turn.speaker !== 'unknown' && <SpeakerIcon className="h-3.5 w-3.5" />}
+                        {TRANSCRIPT_SPEAKER_LABELS[turn.speaker]}
+                      </div>
+                      {turn.start !== null && (
+                        <div className="text-xs text-muted-foreground tabular-nums">
+                          {turn.estimated && '~'}{formatTime(turn.start)}
+                        </div>
+                      )}
+                    </div>
+                    <p className="flex-1 text-sm whitespace-pre-wrap">
+                      {renderHighlightedText(turn, turnMatches, currentMatch)}
+                    </p>
+                  </div>
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -73,4 +281,4 @@ export const CallTranscriptTab: React.FC<CallTranscriptTabProps> = ({ call }) =>
       )}
     </ScrollArea>
   );
-};
\ No newline at end of file
+};
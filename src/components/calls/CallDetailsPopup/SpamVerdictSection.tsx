@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert, ShieldCheck, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { CallLog, callLogsService } from '@/integrations/supabase/call-logs-service';
+import type { SpamFields } from '@/types/callSpam';
+import { SPAM_SCORE_THRESHOLD, SPAM_SIGNAL_LABELS, SPAM_SIGNAL_WEIGHTS, getSpamVerdict } from '@/utils/callSpam';
+
+interface SpamVerdictSectionProps {
+  call: CallLog;
+}
+
+/**
+ * Shows why a call was or wasn't marked as spam and lets the user override the verdict
+ * Spam calls are left out of call volume KPIs unless spam is included in the filters
+ */
+export const SpamVerdictSection: React.FC<SpamVerdictSectionProps> = ({ call }) => {
+  // The popup's call isn't refreshed, so keep the latest verdict here
+  const [fields, setFields] = useState<SpamFields>(call);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const verdict = getSpamVerdict(fields);
+
+  const handleOverride = async (isSpam: boolean | null) => {
+    setIsUpdating(true);
+    try {
+      const updated = await callLogsService.updateCallSpamOverride(call.id, isSpam);
+      if (!updated) throw new Error('Failed to update spam verdict');
+
+      setFields(updated);
+      toast.success(
+        isSpam === null
+          ? 'Spam verdict reset to automatic'
+          : isSpam ? 'Call marked as spam' : 'Call marked as not spam'
+      );
+    } catch (error) {
+      console.error('Error updating spam verdict:', error);
+      toast.error('Failed to update spam verdict');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          {verdict.isSpam ? <ShieldAlert className="h-4 w-4 text-destructive" /> : <ShieldCheck className="h-4 w-4 text-emerald-500" />}
+          Spam Check
+          <Badge variant={verdict.isSpam ? 'destructive' : 'outline'} className="ml-auto">
+            {verdict.isSpam ? 'Spam' : 'Not spam'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {verdict.source === 'override'
+            ? `Marked by a user${verdict.overriddenAt ? ` on ${format(new Date(verdict.overriddenAt), 'MMM d, yyyy h:mm a')}` : ''}. The automatic score was ${verdict.score} of ${SPAM_SCORE_THRESHOLD}.`
+            : `Automatic score ${verdict.score} of ${SPAM_SCORE_THRESHOLD} needed to mark a call as spam.`}
+        </p>
+
+        {verdict.signals.length > 0 && (
+          <div className="space-y-1">
+            {verdict.signals.map(signal => (
+              <div key={signal} className="flex justify-between">
+                <span className="text-sm">{SPAM_SIGNAL_LABELS[signal]}</span>
+                <span className="text-sm text-muted-foreground">+{SPAM_SIGNAL_WEIGHTS[signal]}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {verdict.isSpam ? (
+            <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => handleOverride(false)}>
+              <ShieldCheck className="h-4 w-4 mr-1" />
+              Not spam
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => handleOverride(true)}>
+              <ShieldAlert className="h-4 w-4 mr-1" />
+              Mark as spam
+            </Button>
+          )}
+          {verdict.source === 'override' && (
+            <Button variant="ghost" size="sm" disabled={isUpdating} onClick={() => handleOverride(null)}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Use automatic verdict
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,6 +5,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { AlertCircle, Code } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { TOOL_RESULT_STATUS_LABELS, classifyToolResult } from '@/utils/toolCalls';
 
 interface ToolCallsSectionProps {
   callId: string;
@@ -115,6 +116,18 @@ const formatResult = (result: string): React.ReactNode => {
   }
 };
 
+// Flags results that came back empty or failed; successful results need no badge
+const ResultStatusBadge: React.FC<{ result: string | null }> = ({ result }) => {
+  const status = classifyToolResult(result);
+  if (status === 'success') return null;
+
+  return (
+    <Badge variant={status === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+      {TOOL_RESULT_STATUS_LABELS[status]}
+    </Badge>
+  );
+};
+
 export const ToolCallsSection: React.FC<ToolCallsSectionProps> = ({ callId, clientId }) => {
   const [toolCalls, setToolCalls] = useState<ToolCall[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
@@ -195,6 +208,7 @@ export const ToolCallsSection: React.FC<ToolCallsSectionProps> = ({ callId, clie
             {toolCall.role === 'tool_call_result' && (
               <>
                 <div className="flex items-center justify-end gap-2 mb-1">
+                  <ResultStatusBadge result={toolCall.result} />
                   <span className="text-xs text-muted-foreground">
                     {new Date(toolCall.created_at).toLocaleTimeString()}
                   </span>
@@ -11,6 +11,7 @@ import { Phone, FileText, Mic, MessageSquare, Star } from 'lucide-react';
 import { CallLog } from '@/integrations/supabase/call-logs-service';
 import { useAuth } from '@/context/AuthContext';
 import { canViewSensitiveInfo, canViewCallEvaluation } from '@/utils/clientDataIsolation';
+import { useCallRecordingPlayer } from '@/hooks/useCallRecordingPlayer';
 import { CallDetailsTab } from './CallDetailsTab';
 import { CallRecordingTab } from './CallRecordingTab';
 import { CallTranscriptTab } from './CallTranscriptTab';
@@ -32,6 +33,8 @@ const CallDetailsPopup: React.FC<CallDetailsPopupProps> = ({
     const [activeTab, setActiveTab] = useState('details');
     const canViewSensitive = canViewSensitiveInfo(user);
     const canViewEvaluation = canViewCallEvaluation(user);
+    // Shared by the recording and transcript tabs; released when the popup closes
+    const player = useCallRecordingPlayer(isOpen ? call?.recording_url : null);
 
     if (!isOpen) return null;
 
@@ -98,15 +101,15 @@ const CallDetailsPopup: React.FC<CallDetailsPopupProps> = ({
                     </TabsList>
 
                     <TabsContent value="details" className="flex-1 overflow-hidden mt-4">
-                        <CallDetailsTab call={call} />
+                        <CallDetailsTab call={call} onNavigate={onClose} />
                     </TabsContent>
 
                     <TabsContent value="recording" className="flex-1 overflow-hidden mt-4">
-                        <CallRecordingTab call={call} />
+                        <CallRecordingTab call={call} player={player} />
                     </TabsContent>
 
                     <TabsContent value="transcript" className="flex-1 overflow-hidden mt-4">
-                        <CallTranscriptTab call={call} />
+                        <CallTranscriptTab call={call} player={player} />
                     </TabsContent>
 
                     {canViewEvaluation && (
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { CALL_OUTCOME_COLORS, CALL_OUTCOME_LABELS, readCallOutcome } from '@/utils/callOutcome';
+
+interface CallOutcomeBadgeProps {
+  outcome: string | null | undefined;
+  className?: string;
+}
+
+// Outcome stored on the call by the database classifier
+const CallOutcomeBadge: React.FC<CallOutcomeBadgeProps> = ({ outcome, className }) => {
+  const callOutcome = readCallOutcome(outcome);
+
+  if (!callOutcome) {
+    return (
+      <Badge variant="outline" className={cn('text-xs text-muted-foreground', className)}>
+        Unclassified
+      </Badge>
+    );
+  }
+
+  const color = CALL_OUTCOME_COLORS[callOutcome];
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn('text-xs border whitespace-nowrap', className)}
+      style={{
+        backgroundColor: `${color}15`, // 15% opacity
+        borderColor: `${color}40`, // 40% opacity
+        color: color
+      }}
+    >
+      {CALL_OUTCOME_LABELS[callOutcome]}
+    </Badge>
+  );
+};
+
+export default CallOutcomeBadge;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { FileText, MessageSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CallSearchMatch } from '@/types/callSearch';
+import { getMatchSnippet, splitSnippet } from '@/utils/callSearch';
+
+interface CallSearchSnippetProps {
+  match: CallSearchMatch | undefined;
+  className?: string;
+}
+
+/**
+ * Excerpt of the transcript or summary where a call search matched,
+ * with the matched words highlighted
+ */
+const CallSearchSnippet: React.FC<CallSearchSnippetProps> = ({ match, className }) => {
+  const result = getMatchSnippet(match);
+  if (!result) return null;
+
+  const Icon = result.source === 'transcript' ? MessageSquare : FileText;
+
+  return (
+    <div
+      className={cn('flex items-start gap-1 mt-1 text-xs text-foreground/60 max-w-[420px]', className)}
+      title={result.source === 'transcript' ? 'Matched in transcript' : 'Matched in summary'}
+    >
+      <Icon className="h-3 w-3 mt-0.5 flex-shrink-0" />
+      <span className="line-clamp-2">
+        {splitSnippet(result.snippet).map((segment, index) =>
+          segment.highlighted ? (
+            <mark key={index} className="rounded-sm px-0.5 bg-yellow-200/70 dark:bg-yellow-500/40 text-inherit">
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          )
+        )}
+      </span>
+    </div>
+  );
+};
+
+export default CallSearchSnippet;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Bookmark, Check, Link2, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/context/AuthContext';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import type { SavedView, SavedViewPage } from '@/types/savedView';
+
+interface SavedViewsMenuProps {
+  page: SavedViewPage;
+  clientId: string | null;          // Client views can be shared with (null for admins viewing all clients)
+  clientName?: string | null;
+  currentQuery: string;             // The page's current view as a query string
+  onApply: (query: string) => void;
+  getLink: () => string;            // Absolute link to the current view
+}
+
+/**
+ * Saved views for a page: apply, save, share with the client, copy a link
+ */
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  page,
+  clientId,
+  clientName,
+  currentQuery,
+  onApply,
+  getLink,
+}) => {
+  const { user } = useAuth();
+  const { views, loading, saveView, deleteView } = useSavedViews(page, clientId);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const ownViews = views.filter(view => view.user_id === user?.id);
+  const sharedViews = views.filter(view => view.user_id !== user?.id);
+  const activeView = views.find(view => view.query === currentQuery);
+
+  const openSaveDialog = () => {
+    setName(activeView && activeView.user_id === user?.id ? activeView.name : '');
+    setShared(activeView?.shared ?? false);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveView({ name, query: currentQuery, clientId, shared: shared && !!clientId });
+      toast.success(`View "${name.trim()}" saved`);
+      setIsSaveOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save view');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await deleteView(view.id);
+      toast.success(`View "${view.name}" deleted`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete view');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getLink());
+      toast.success('Link to this view copied');
+    } catch (error) {
+      console.error('Error copying view link:', error);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const renderView = (view: SavedView, canDelete: boolean) => (
+    <DropdownMenuItem key={view.id} onSelect={() => onApply(view.query)} className="flex items-center gap-2">
+      <Check className={`h-4 w-4 ${view.id === activeView?.id ? 'opacity-100' : 'opacity-0'}`} />
+      <div className="min-w-0 flex-1">
+        <div className="truncate">{view.name}</div>
+        {!canDelete && view.owner_name && (
+          <div className="truncate text-xs text-muted-foreground">by {view.owner_name}</div>
+        )}
+      </div>
+      {view.shared && canDelete && <Users className="h-3 w-3 text-muted-foreground" aria-label="Shared" />}
+      {canDelete && (
+        <button
+          type="button"
+          className="rounded p-1 text-muted-foreground hover:text-destructive"
+          onClick={event => {
+            event.preventDefault();
+            event.stopPropagation();
+            handleDelete(view);
+          }}
+          aria-label={`Delete view ${view.name}`}
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant={activeView ? 'secondary' : 'outline'} size="sm">
+            <Bookmark className="h-4 w-4" />
+            <span className="hidden sm:ml-2 sm:inline max-w-[140px] truncate">{activeView ? activeView.name : 'Views'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>My views</DropdownMenuLabel>
+          {ownViews.length > 0 ? (
+            ownViews.map(view => renderView(view, true))
+          ) : (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">{loading ? 'Loading...' : 'No saved views yet'}</p>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared{clientName ? ` with ${clientName}` : ''}</DropdownMenuLabel>
+              {sharedViews.map(view => renderView(view, false))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Save current view...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleCopyLink}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Copy link to this view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, search and sort. Saving with the name of one of your views replaces it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                maxLength={80}
+                placeholder="e.g. Negative calls this week"
+                onChange={event => setName(event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter' && name.trim() && !isSaving) handleSave();
+                }}
+              />
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="saved-view-shared"
+                checked={shared && !!clientId}
+                disabled={!clientId}
+                onCheckedChange={checked => setShared(!!checked)}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="saved-view-shared">
+                  Share with everyone at {clientName || 'this client'}
+                </Label>
+                {!clientId && (
+                  <p className="text-xs text-muted-foreground">Select a client to share views with its users</p>
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Saving...' : 'Save view'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
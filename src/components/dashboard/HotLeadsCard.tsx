@@ -0,0 +1,90 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Flame, Phone, RefreshCw } from 'lucide-react';
+import LeadScoreBadge from '@/components/leads/LeadScoreBadge';
+import { useHotLeads } from '@/hooks/useLeadScores';
+import { HOT_LEAD_SCORE } from '@/utils/leadScoring';
+
+interface HotLeadsCardProps {
+  clientId: string | null; // Client filter (null for admins viewing all clients)
+  showClientName?: boolean;
+  limit?: number;
+}
+
+/**
+ * Dashboard widget listing the highest scoring open leads of the last 30 days
+ */
+export const HotLeadsCard: React.FC<HotLeadsCardProps> = ({ clientId, showClientName = false, limit = 5 }) => {
+  const navigate = useNavigate();
+  const { hotLeads, loading, error } = useHotLeads(clientId, limit);
+
+  return (
+    <Card className="bg-card shadow-sm hover:border-primary/20 transition-all duration-300">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-medium text-card-foreground flex items-center gap-2">
+              <Flame className="h-5 w-5 text-red-500" />
+              Hot Leads
+            </CardTitle>
+            <CardDescription>Open leads scoring {HOT_LEAD_SCORE}+ in the last 30 days</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/leads')}>
+            View all
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-32 flex items-center justify-center text-muted-foreground">
+            <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+            <p>Scoring leads...</p>
+          </div>
+        ) : error ? (
+          <div className="h-32 flex items-center justify-center text-muted-foreground">
+            <p>Couldn't load hot leads.</p>
+          </div>
+        ) : hotLeads.length === 0 ? (
+          <div className="h-32 flex items-center justify-center text-muted-foreground">
+            <p>No hot leads right now.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {hotLeads.map(({ lead, score }) => (
+              <div
+                key={lead.id}
+                className="flex items-center gap-3 p-3 rounded-lg bg-muted/50 border border-border hover:border-input transition-all duration-200 cursor-pointer"
+                onClick={() => navigate(`/leads?lead=${lead.id}`)}
+                role="button"
+                aria-label={`View lead ${lead.full_name}`}
+              >
+                <LeadScoreBadge score={score} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <h4 className="font-medium truncate">{lead.full_name}</h4>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(lead.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap mt-1 gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    <span className="flex items-center">
+                      <Phone className="h-3 w-3 mr-1" />
+                      {lead.phone_number}
+                    </span>
+                    {showClientName && lead.client_name && <span className="truncate">{lead.client_name}</span>}
+                    {score.factors[0] && <span className="truncate">Top signal: {score.factors[0].label.toLowerCase()}</span>}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HotLeadsCard;
@@ -14,6 +14,7 @@ interface MetricsSummaryCardsProps {
     averageHandleTime: string;
     callsTransferred: number;
     totalLeads: number;
+    appointmentsBooked?: number; // Calls whose outcome is appointment_booked (only shown when provided)
     callsGrowth?: number;
     timeGrowth?: number;
     transferGrowth?: number;
@@ -22,8 +23,10 @@ interface MetricsSummaryCardsProps {
     linesAvailable?: number;
     agentsAvailable?: number;
     callsInQueue?: number;
+    myOpenLeads?: number; // Open leads assigned to the current user (only shown when provided)
   };
   isLoading?: boolean;
+  onViewMyLeads?: () => void;
 }
 
 interface AgentInfo {
@@ -37,7 +40,8 @@ interface AgentInfo {
 
 const MetricsSummaryCards: React.FC<MetricsSummaryCardsProps> = ({
   metrics,
-  isLoading = false
+  isLoading = false,
+  onViewMyLeads
 }) => {
   const [isLinesDialogOpen, setIsLinesDialogOpen] = useState(false);
   const [isAgentDialogOpen, setIsAgentDialogOpen] = useState(false);
@@ -178,6 +182,22 @@ const MetricsSummaryCards: React.FC<MetricsSummaryCardsProps> = ({
     }
   ];
 
+  // Open leads assigned to the current user, for dealership staff who own leads
+  if (metrics.myOpenLeads !== undefined) {
+    allFirstRowCards.unshift({
+      title: "My Open Leads",
+      value: metrics.myOpenLeads,
+      icon: <UserCheck className="h-5 w-5 text-primary" />,
+      growth: undefined,
+      format: (value: number) => value.toLocaleString(),
+      subtitle: "Assigned to you and not closed",
+      hasAction: !!onViewMyLeads,
+      actionText: "View my leads",
+      onAction: () => onViewMyLeads?.(),
+      requiresKPIAccess: false
+    });
+  }
+
   // Filter first row cards based on user permissions
   const firstRowCards = allFirstRowCards.filter(card => 
     !card.requiresKPIAccess || canViewKPIs
@@ -213,7 +233,10 @@ const MetricsSummaryCards: React.FC<MetricsSummaryCardsProps> = ({
       value: metrics.totalLeads,
       icon: <Users className="h-5 w-5 text-primary" />,
       growth: metrics.leadsGrowth,
-      format: (value: number) => value.toLocaleString()
+      format: (value: number) => value.toLocaleString(),
+      subtitle: metrics.appointmentsBooked !== undefined
+        ? `${metrics.appointmentsBooked.toLocaleString()} appointments booked`
+        : undefined
     }
   ];
 
@@ -277,7 +300,7 @@ const MetricsSummaryCards: React.FC<MetricsSummaryCardsProps> = ({
     <>
       <div className="space-y-4">
         {/* First Row - Key Operational Metrics */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${firstRowCards.length > 4 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'}`}>
           {firstRowCards.map((card, index) => renderCard(card, index))}
         </div>
 
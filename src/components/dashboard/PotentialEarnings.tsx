@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { useMediaQuery } from '@/hooks/use-media-query';
 import { type TooltipProps } from 'recharts';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 
 interface PotentialEarningsProps {
   totalCalls: number;
@@ -10,6 +11,7 @@ interface PotentialEarningsProps {
   isLoading: boolean;
 }
 
+// Potential value of a lead, in USD
 const LEAD_VALUE = 1200;
 
 const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
@@ -30,6 +32,7 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>)
 
 export const PotentialEarnings: React.FC<PotentialEarningsProps> = ({ totalCalls, totalLeads, isLoading }) => {
   const isDesktop = useMediaQuery('(min-width: 768px)');
+  const { format } = useDisplayCurrency();
   
   const potentialEarnings = totalLeads * LEAD_VALUE;
 
@@ -44,14 +47,8 @@ export const PotentialEarnings: React.FC<PotentialEarningsProps> = ({ totalCalls
     },
   ];
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  // Shown in the user's display currency, converted at today's rate
+  const formatCurrency = (value: number) => format(value, 'USD', 0);
 
   return (
     <Card>
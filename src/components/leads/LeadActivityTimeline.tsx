@@ -0,0 +1,142 @@
+import React from 'react';
+import { format } from 'date-fns';
+import {
+    MessageSquare,
+    RefreshCw,
+    Mail,
+    CalendarCheck,
+    PhoneCall,
+    UserPlus,
+    FileText,
+    Link,
+    GitMerge,
+    UserCheck,
+    PhoneForwarded,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type { LeadTimelineEvent, LeadTimelineEventType } from '@/types/leadActivity';
+
+interface LeadActivityTimelineProps {
+    events: LeadTimelineEvent[];
+    loading?: boolean;
+    error?: string | null;
+    onViewCall?: (callId: string) => void;
+}
+
+const EVENT_STYLES: Record<LeadTimelineEventType, { icon: React.ElementType; color: string }> = {
+    note: { icon: MessageSquare, color: 'bg-blue-100 text-blue-700' },
+    status_change: { icon: RefreshCw, color: 'bg-purple-100 text-purple-700' },
+    sent_to_client: { icon: Mail, color: 'bg-emerald-100 text-emerald-700' },
+    appointment_confirmed: { icon: CalendarCheck, color: 'bg-green-100 text-green-700' },
+    call: { icon: PhoneCall, color: 'bg-teal-100 text-teal-700' },
+    lead_created: { icon: UserPlus, color: 'bg-muted text-muted-foreground' },
+    legacy_notes: { icon: FileText, color: 'bg-muted text-muted-foreground' },
+    merged: { icon: GitMerge, color: 'bg-amber-100 text-amber-700' },
+    assigned: { icon: UserCheck, color: 'bg-sky-100 text-sky-700' },
+    callback_scheduled: { icon: PhoneForwarded, color: 'bg-orange-100 text-orange-700' },
+};
+
+/**
+ * Format a timeline timestamp, tolerating invalid values
+ */
+const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? 'Unknown time' : format(date, 'MMM d, yyyy h:mm a');
+};
+
+/**
+ * Lead Activity Timeline
+ * Shows notes, status changes, delivery/appointment events and the linked call
+ * for a lead as a single vertical timeline (newest first)
+ */
+const LeadActivityTimeline: React.FC<LeadActivityTimelineProps> = ({
+    events,
+    loading = false,
+    error = null,
+    onViewCall,
+}) => {
+    if (loading) {
+        return (
+            <div className="space-y-4">
+                {[0, 1, 2].map(index => (
+                    <div key={index} className="flex gap-3">
+                        <Skeleton className="h-8 w-8 rounded-full" />
+                        <div className="flex-1 space-y-2">
+                            <Skeleton className="h-4 w-1/3" />
+                            <Skeleton className="h-4 w-2/3" />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="bg-destructive/10 text-destructive p-4 rounded-md">
+                <p className="text-sm">{error}</p>
+            </div>
+        );
+    }
+
+    if (events.length === 0) {
+        return (
+            <div className="text-center py-6">
+                <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground opacity-20 mb-2" />
+                <p className="text-muted-foreground">No activity yet</p>
+            </div>
+        );
+    }
+
+    return (
+        <ol className="relative space-y-6">
+            {events.map((event, index) => {
+                const { icon: Icon, color } = EVENT_STYLES[event.type];
+                const isLast = index === events.length - 1;
+
+                return (
+                    <li key={event.id} className="relative flex gap-3">
+                        {/* Connector line between events */}
+                        {!isLast && (
+                            <span className="absolute left-4 top-8 -bottom-6 w-px bg-border" aria-hidden="true" />
+                        )}
+                        <div className={cn('relative z-10 flex h-8 w-8 shrink-0 items-center justify-center rounded-full', color)}>
+                            <Icon className="h-4 w-4" />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                            <div className="flex flex-wrap items-baseline justify-between gap-x-2">
+                                <p className="text-sm font-medium">{event.title}</p>
+                                <time className="text-xs text-muted-foreground" dateTime={event.timestamp}>
+                                    {formatTimestamp(event.timestamp)}
+                                </time>
+                            </div>
+                            {event.author && (
+                                <p className="text-xs text-muted-foreground">by {event.author}</p>
+                            )}
+                            {event.content && (
+                                <p className="mt-2 whitespace-pre-wrap rounded-lg bg-secondary/30 p-3 text-sm">
+                                    {event.content}
+                                </p>
+                            )}
+                            {event.type === 'call' && typeof event.metadata?.call_id === 'string' && onViewCall && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="mt-1 h-7 px-2 text-primary"
+                                    onClick={() => onViewCall(event.metadata?.call_id as string)}
+                                >
+                                    <Link className="h-3.5 w-3.5 mr-1" />
+                                    View Call
+                                </Button>
+                            )}
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
+
+export default LeadActivityTimeline;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, PhoneForwarded } from 'lucide-react';
+import { Lead } from '@/integrations/supabase/lead-service';
+import {
+  formatCallbackTime,
+  fromDateTimeLocalValue,
+  parseCallbackTiming,
+  toDateTimeLocalValue,
+} from '@/utils/callbackTiming';
+
+interface LeadCallbackDialogProps {
+  lead: Lead | null;
+  timeZone: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onReschedule: (lead: Lead, scheduledAt: Date | null) => Promise<void>;
+  onComplete: (lead: Lead) => Promise<void>;
+}
+
+// Quick picks are read with the same parser as captured timing
+const QUICK_PICKS = [
+  { label: 'In 1 hour', text: 'in 1 hour' },
+  { label: 'Tomorrow morning', text: 'tomorrow morning' },
+  { label: 'Tomorrow afternoon', text: 'tomorrow afternoon' },
+  { label: 'Next Monday', text: 'next week' },
+];
+
+/**
+ * Dialog for scheduling, moving, clearing or completing a lead's callback
+ * Times are entered in the client's timezone, not the viewer's
+ */
+const LeadCallbackDialog: React.FC<LeadCallbackDialogProps> = ({
+  lead,
+  timeZone,
+  isOpen,
+  onClose,
+  onReschedule,
+  onComplete,
+}) => {
+  const [value, setValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the current schedule, or the captured timing when nothing is scheduled yet
+  const leadId = lead?.id;
+  const currentSchedule = lead?.callback_scheduled_at;
+  const capturedTiming = lead?.callback_timing_value;
+  useEffect(() => {
+    if (!isOpen || !leadId) return;
+    const initial = currentSchedule
+      ? new Date(currentSchedule)
+      : parseCallbackTiming(capturedTiming, new Date(), timeZone);
+    setValue(initial ? toDateTimeLocalValue(initial, timeZone) : '');
+  }, [isOpen, leadId, currentSchedule, capturedTiming, timeZone]);
+
+  const scheduledAt = value ? fromDateTimeLocalValue(value, timeZone) : null;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      await action();
+      onClose();
+    } catch (error) {
+      console.error('Error updating callback:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!lead) return null;
+
+  const hasOpenCallback = !!lead.callback_scheduled_at && !lead.callback_completed_at;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold flex items-center gap-2">
+            <PhoneForwarded className="h-5 w-5" />
+            Schedule Callback
+          </DialogTitle>
+          <DialogDescription>
+            {lead.full_name} · {lead.phone_number}
+            {lead.callback_timing_value && (
+              <span className="block mt-1">Customer asked for: "{lead.callback_timing_value}"</span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="callback-time">Call back at ({timeZone.replace(/_/g, ' ')})</Label>
+            <Input
+              id="callback-time"
+              type="datetime-local"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+            />
+            {scheduledAt && (
+              <p className="text-xs text-muted-foreground">{formatCallbackTime(scheduledAt, timeZone)}</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {QUICK_PICKS.map(pick => (
+              <Button
+                key={pick.text}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => {
+                  const picked = parseCallbackTiming(pick.text, new Date(), timeZone);
+                  if (picked) setValue(toDateTimeLocalValue(picked, timeZone));
+                }}
+              >
+                {pick.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {hasOpenCallback && (
+              <Button type="button" variant="outline" disabled={isSaving} onClick={() => run(() => onComplete(lead))}>
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Mark Done
+              </Button>
+            )}
+            {lead.callback_scheduled_at && (
+              <Button type="button" variant="ghost" disabled={isSaving} onClick={() => run(() => onReschedule(lead, null))}>
+                Clear
+              </Button>
+            )}
+          </div>
+          <Button type="button" disabled={isSaving || !scheduledAt} onClick={() => scheduledAt && run(() => onReschedule(lead, scheduledAt))}>
+            {isSaving ? 'Saving...' : 'Save Callback'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadCallbackDialog;
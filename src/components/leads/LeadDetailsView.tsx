@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { format } from 'date-fns';
 import {
     Dialog,
@@ -9,7 +9,7 @@ import {
     DialogFooter,
 } from '@/components/ui/dialog';
 import { useAuth } from '@/context/AuthContext';
-import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { canViewSensitiveInfo, getClientIdFilter } from '@/utils/clientDataIsolation';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
@@ -17,6 +17,7 @@ import { Separator } from '@/components/ui/separator';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
     Phone,
     User,
@@ -25,21 +26,36 @@ import {
     FileText,
     X,
     Edit,
+    FileCode,
     Save,
     ExternalLink,
     MessageSquare,
     Clock,
     PhoneCall,
     Link,
+    UserCheck,
+    PhoneForwarded,
 } from 'lucide-react';
 import { Lead as ContextLead } from '@/context/LeadContext';
-import { Lead as SupabaseLead } from '@/integrations/supabase/lead-service';
+import { Lead as SupabaseLead, MergedLead, leadService } from '@/integrations/supabase/lead-service';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import CallDetailsPopup from '@/components/calls/CallDetailsPopup';
 import { CallLog } from '@/integrations/supabase/call-logs-service';
 import InquiryTypeBadge from '@/components/calls/InquiryTypeBadge';
 import { CallIntelligenceService } from '@/services/callIntelligenceService';
+import { LeadActivityService } from '@/services/leadActivityService';
+import LeadActivityTimeline from '@/components/leads/LeadActivityTimeline';
+import type { LeadTimelineEvent } from '@/types/leadActivity';
+import type { LeadPipelineStage } from '@/types/leadPipeline';
+import { DEFAULT_PIPELINE_STAGES, findStage } from '@/utils/leadPipeline';
+import type { LeadAssignee } from '@/types/leadRouting';
+import { DEFAULT_CLIENT_TIMEZONE, formatCallbackTime, getCallbackState } from '@/utils/callbackTiming';
+import { useLeadScores } from '@/hooks/useLeadScores';
+import LeadScoreBadge from '@/components/leads/LeadScoreBadge';
+import CallerHistorySummary from '@/components/callers/CallerHistorySummary';
+
+const UNASSIGNED = 'unassigned';
 
 interface LeadDetailsViewProps {
     lead: SupabaseLead | null;
@@ -47,7 +63,14 @@ interface LeadDetailsViewProps {
     onClose: () => void;
     onStatusChange: (lead: SupabaseLead, status: SupabaseLead['status']) => Promise<void>;
     onAddNote: (lead: SupabaseLead, note: string) => Promise<void>;
+    onEditLead?: (lead: SupabaseLead) => void;
+    stages?: LeadPipelineStage[]; // Client's pipeline stages for the status buttons
     clientName?: string; // Optional client name to display instead of ID
+    assignees?: LeadAssignee[]; // Staff leads can be assigned to
+    onAssignLead?: (lead: SupabaseLead, assignee: LeadAssignee | null) => Promise<void>;
+    callbackTimeZone?: string; // The lead's client timezone for callback times
+    onScheduleCallback?: (lead: SupabaseLead) => void;
+    onExportAdf?: (lead: SupabaseLead) => Promise<void>; // Download the lead as ADF/XML for a dealership CRM
 }
 
 const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
@@ -56,7 +79,14 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
     onClose,
     onStatusChange,
     onAddNote,
+    onEditLead,
+    stages = DEFAULT_PIPELINE_STAGES,
     clientName,
+    assignees = [],
+    onAssignLead,
+    callbackTimeZone = DEFAULT_CLIENT_TIMEZONE,
+    onScheduleCallback,
+    onExportAdf,
 }) => {
     const { user } = useAuth();
     const [activeTab, setActiveTab] = useState('details');
@@ -65,6 +95,30 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
     const [selectedCall, setSelectedCall] = useState<CallLog | null>(null);
     const [isCallDetailsOpen, setIsCallDetailsOpen] = useState(false);
     const [inquiryType, setInquiryType] = useState<string | null>(null);
+    const [timeline, setTimeline] = useState<LeadTimelineEvent[]>([]);
+    const [timelineLoading, setTimelineLoading] = useState(false);
+    const [timelineError, setTimelineError] = useState<string | null>(null);
+    const [mergedLeads, setMergedLeads] = useState<MergedLead[]>([]);
+    const [isExportingAdf, setIsExportingAdf] = useState(false);
+    const scoredLeads = useMemo(() => (lead ? [lead] : []), [lead]);
+    const leadScore = useLeadScores(scoredLeads).get(lead?.id ?? '');
+
+    // Load the activity timeline (client filter enforces data isolation)
+    const loadTimeline = useCallback(async () => {
+        if (!lead) return;
+
+        setTimelineLoading(true);
+        setTimelineError(null);
+        try {
+            const events = await LeadActivityService.getTimeline(lead, getClientIdFilter(user));
+            setTimeline(events);
+        } catch (error) {
+            console.error('Error loading lead activity:', error);
+            setTimelineError('Failed to load lead activity');
+        } finally {
+            setTimelineLoading(false);
+        }
+    }, [lead, user]);
 
     // Get status badge
     const getStatusBadge = (status: string) => {
@@ -82,11 +136,12 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
             'lost': { color: 'bg-red-100 text-red-800 border-red-200', label: 'Lost' }
         };
 
-        const config = statusConfig[normalizedStatus] || { color: 'bg-muted text-muted-foreground border-border', label: 'Unknown' };
+        const stageLabel = findStage(status, stages)?.label;
+        const config = statusConfig[normalizedStatus] || { color: 'bg-muted text-muted-foreground border-border', label: stageLabel || 'Unknown' };
 
         return (
             <Badge className={cn('px-3 py-1 rounded-full text-xs font-medium border', config.color)}>
-                {config.label}
+                {stageLabel || config.label}
             </Badge>
         );
     };
@@ -127,12 +182,25 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
 
         try {
             await onStatusChange(lead, status);
+            loadTimeline();
         } catch (error) {
             console.error('Error changing lead status:', error);
             toast.error('Failed to update lead status');
         }
     };
 
+    // Handle assignment change
+    const handleAssign = async (value: string) => {
+        if (!lead || !onAssignLead) return;
+
+        try {
+            await onAssignLead(lead, assignees.find(assignee => assignee.id === value) ?? null);
+            loadTimeline();
+        } catch (error) {
+            console.error('Error assigning lead:', error);
+        }
+    };
+
     // Handle add note
     const handleAddNote = async () => {
         if (!lead || !newNote.trim()) return;
@@ -142,6 +210,7 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
             await onAddNote(lead, newNote);
             setNewNote('');
             toast.success('Note added successfully');
+            loadTimeline();
         } catch (error) {
             console.error('Error adding note:', error);
             toast.error('Failed to add note');
@@ -150,11 +219,38 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
         }
     };
 
-    // Format notes for display
-    const formatNotes = (notes?: string) => {
-        if (!notes) return [];
+    // Handle ADF export (the parent downloads the file and shows the result)
+    const handleExportAdf = async () => {
+        if (!lead || !onExportAdf) return;
+
+        setIsExportingAdf(true);
+        try {
+            await onExportAdf(lead);
+        } finally {
+            setIsExportingAdf(false);
+        }
+    };
 
-        return notes.split('\n').filter(note => note.trim() !== '');
+    // Open the call details popup for a call linked to this lead
+    const handleViewCall = async (callId: string) => {
+        try {
+            // Import the call logs service
+            const { callLogsService } = await import('@/integrations/supabase/call-logs-service');
+
+            // Fetch the call data
+            const callData = await callLogsService.getCallLogById(callId);
+
+            if (callData) {
+                // Set the selected call and open the popup
+                setSelectedCall(callData);
+                setIsCallDetailsOpen(true);
+            } else {
+                toast.error('Call details not found');
+            }
+        } catch (error) {
+            console.error('Error fetching call details:', error);
+            toast.error('Failed to load call details');
+        }
     };
 
         // Fetch inquiry type when lead changes
@@ -173,6 +269,29 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
         }
     }, [lead]);
 
+    // Load the activity timeline when the dialog opens for a lead
+    useEffect(() => {
+        if (isOpen && lead) {
+            loadTimeline();
+        } else {
+            setTimeline([]);
+        }
+    }, [isOpen, lead, loadTimeline]);
+
+    // Load duplicates merged into this lead so their calls stay reachable
+    useEffect(() => {
+        if (isOpen && lead) {
+            leadService.getMergedLeads(lead.id)
+                .then(setMergedLeads)
+                .catch(error => {
+                    console.error('Error loading merged leads:', error);
+                    setMergedLeads([]);
+                });
+        } else {
+            setMergedLeads([]);
+        }
+    }, [isOpen, lead]);
+
     // Note: The function that automatically adds custom lead data to notes has been removed
     // as per requirements. Initial notes are now added when the record is created in the database.
     // This component now only handles adding additional notes from the frontend.
@@ -198,9 +317,9 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                             <FileText className="h-4 w-4 mr-2" />
                             Details
                         </TabsTrigger>
-                        <TabsTrigger value="notes">
+                        <TabsTrigger value="activity">
                             <MessageSquare className="h-4 w-4 mr-2" />
-                            Notes
+                            Activity
                         </TabsTrigger>
                     </TabsList>
 
@@ -217,6 +336,11 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                         <div className="flex items-center flex-wrap gap-2 mt-1">
                                             <div>{getStatusBadge(lead.status)}</div>
                                             <div>{getSourceBadge(lead.source)}</div>
+                                            {leadScore && (
+                                                <div>
+                                                    <LeadScoreBadge score={leadScore} />
+                                                </div>
+                                            )}
                                             {inquiryType && (
                                                 <div>
                                                     <InquiryTypeBadge inquiryType={inquiryType} />
@@ -225,10 +349,28 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                         </div>
                                     </div>
                                 </div>
-                                <Button variant="outline" size="sm">
-                                    <Edit className="h-4 w-4 mr-2" />
-                                    Edit Lead
-                                </Button>
+                                <div className="flex flex-wrap gap-2">
+                                    {onExportAdf && (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={handleExportAdf}
+                                            disabled={isExportingAdf}
+                                        >
+                                            <FileCode className="h-4 w-4 mr-2" />
+                                            {isExportingAdf ? 'Exporting...' : 'Export ADF'}
+                                        </Button>
+                                    )}
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => onEditLead?.(lead)}
+                                        disabled={!onEditLead}
+                                    >
+                                        <Edit className="h-4 w-4 mr-2" />
+                                        Edit Lead
+                                    </Button>
+                                </div>
                             </div>
 
                             <Separator />
@@ -258,6 +400,13 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                             </div>
                                         </div>
 
+                                        <CallerHistorySummary
+                                            phone={lead.from_phone_number || lead.phone_number}
+                                            clientId={lead.client_id}
+                                            currentCallId={lead.call_id}
+                                            onNavigate={onClose}
+                                        />
+
                                         {/* Hide email for now as requested */}
                                         {/* <div className="flex items-center gap-3">
                                             <Mail className="h-5 w-5 text-muted-foreground" />
@@ -302,6 +451,64 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                             </div>
                                         </div>
 
+                                        <div className="flex items-center gap-3">
+                                            <UserCheck className="h-5 w-5 text-muted-foreground" />
+                                            <div className="flex-1">
+                                                <p className="text-sm text-muted-foreground">Assigned To</p>
+                                                {onAssignLead ? (
+                                                    <Select value={lead.assigned_to || UNASSIGNED} onValueChange={handleAssign}>
+                                                        <SelectTrigger className="h-8 mt-1 w-full max-w-[240px]">
+                                                            <SelectValue placeholder="Unassigned" />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                                                            {assignees
+                                                                .filter(assignee => assignee.client_id === lead.client_id)
+                                                                .map(assignee => (
+                                                                    <SelectItem key={assignee.id} value={assignee.id}>
+                                                                        {assignee.full_name || assignee.email}
+                                                                    </SelectItem>
+                                                                ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                ) : (
+                                                    <p className="font-medium">
+                                                        {assignees.find(assignee => assignee.id === lead.assigned_to)?.full_name || 'Unassigned'}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </div>
+
+                                        <div className="flex items-center gap-3">
+                                            <PhoneForwarded className="h-5 w-5 text-muted-foreground" />
+                                            <div className="flex-1">
+                                                <p className="text-sm text-muted-foreground">Callback</p>
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    <p className="font-medium">
+                                                        {lead.callback_scheduled_at
+                                                            ? formatCallbackTime(lead.callback_scheduled_at, callbackTimeZone)
+                                                            : 'Not scheduled'}
+                                                    </p>
+                                                    {getCallbackState(lead) === 'overdue' && <Badge variant="destructive">Overdue</Badge>}
+                                                    {getCallbackState(lead) === 'due' && <Badge variant="outline" className="border-amber-300 text-amber-700">Due</Badge>}
+                                                    {getCallbackState(lead) === 'done' && <Badge variant="outline">Done</Badge>}
+                                                    {onScheduleCallback && (
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="sm"
+                                                            className="h-6 px-2 text-xs"
+                                                            onClick={() => onScheduleCallback(lead)}
+                                                        >
+                                                            {lead.callback_scheduled_at ? 'Reschedule' : 'Schedule'}
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                                {lead.callback_timing_value && (
+                                                    <p className="text-xs text-muted-foreground">Customer asked for "{lead.callback_timing_value}"</p>
+                                                )}
+                                            </div>
+                                        </div>
+
                                         {/* Show call time and View Call button for all users */}
                                         <div className="flex items-center gap-3">
                                             <PhoneCall className="h-5 w-5 text-muted-foreground" />
@@ -314,26 +521,7 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                                             variant="ghost"
                                                             size="sm"
                                                             className="h-7 px-2 text-primary"
-                                                            onClick={async () => {
-                                                                try {
-                                                                    // Import the call logs service
-                                                                    const { callLogsService } = await import('@/integrations/supabase/call-logs-service');
-
-                                                                    // Fetch the call data
-                                                                    const callData = await callLogsService.getCallLogById(lead.call_id);
-
-                                                                    if (callData) {
-                                                                        // Set the selected call and open the popup
-                                                                        setSelectedCall(callData);
-                                                                        setIsCallDetailsOpen(true);
-                                                                    } else {
-                                                                        toast.error('Call details not found');
-                                                                    }
-                                                                } catch (error) {
-                                                                    console.error('Error fetching call details:', error);
-                                                                    toast.error('Failed to load call details');
-                                                                }
-                                                            }}
+                                                            onClick={() => handleViewCall(lead.call_id)}
                                                         >
                                                             <Link className="h-3.5 w-3.5 mr-1" />
                                                             View Call
@@ -343,6 +531,32 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                             </div>
                                         </div>
 
+                                        {/* Calls from duplicate leads merged into this one */}
+                                        {mergedLeads.length > 0 && (
+                                            <div className="flex items-start gap-3">
+                                                <PhoneCall className="h-5 w-5 text-muted-foreground mt-0.5" />
+                                                <div>
+                                                    <p className="text-sm text-muted-foreground">Merged Calls</p>
+                                                    {mergedLeads.map(merged => (
+                                                        <div key={merged.id} className="flex items-center gap-2">
+                                                            <p className="font-medium text-sm">
+                                                                {format(new Date(merged.created_at), 'MMM d, yyyy h:mm a')}
+                                                            </p>
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="sm"
+                                                                className="h-7 px-2 text-primary"
+                                                                onClick={() => handleViewCall(merged.call_id)}
+                                                            >
+                                                                <Link className="h-3.5 w-3.5 mr-1" />
+                                                                View Call
+                                                            </Button>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+
                                         {/* Only show client information to admins */}
                                         {canViewSensitiveInfo(user) && (
                                             <div className="flex items-center gap-3">
@@ -388,62 +602,18 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                         <div>
                                             <p className="text-sm text-muted-foreground mb-3">Update Status</p>
                                             <div className="flex flex-wrap gap-2">
-                                                {lead.status !== 'new' && (
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        onClick={() => handleStatusChange('new')}
-                                                    >
-                                                        Set as New
-                                                    </Button>
-                                                )}
-                                                {lead.status !== 'contacted' && (
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        onClick={() => handleStatusChange('contacted')}
-                                                    >
-                                                        Set as Contacted
-                                                    </Button>
-                                                )}
-                                                {lead.status !== 'qualified' && (
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        onClick={() => handleStatusChange('qualified')}
-                                                    >
-                                                        Set as Qualified
-                                                    </Button>
-                                                )}
-                                                {lead.status !== 'proposal' && (
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        onClick={() => handleStatusChange('proposal')}
-                                                    >
-                                                        Set as Proposal
-                                                    </Button>
-                                                )}
-                                                {lead.status !== 'closed_won' && (
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        className="text-green-600"
-                                                        onClick={() => handleStatusChange('closed_won')}
-                                                    >
-                                                        Set as Closed (Won)
-                                                    </Button>
-                                                )}
-                                                {lead.status !== 'closed_lost' && (
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        className="text-red-600"
-                                                        onClick={() => handleStatusChange('closed_lost')}
-                                                    >
-                                                        Set as Closed (Lost)
-                                                    </Button>
-                                                )}
+                                                {stages
+                                                    .filter(stage => stage.key.toLowerCase() !== lead.status?.toLowerCase())
+                                                    .map(stage => (
+                                                        <Button
+                                                            key={stage.key}
+                                                            variant="outline"
+                                                            size="sm"
+                                                            onClick={() => handleStatusChange(stage.key)}
+                                                        >
+                                                            Set as {stage.label}
+                                                        </Button>
+                                                    ))}
                                             </div>
                                         </div>
                                     </div>
@@ -489,7 +659,7 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                         </div>
                     </TabsContent>
 
-                    <TabsContent value="notes" className="mt-4">
+                    <TabsContent value="activity" className="mt-4">
                         <div className="space-y-6">
                             {/* Add Note */}
                             <Card>
@@ -515,26 +685,18 @@ const LeadDetailsView: React.FC<LeadDetailsViewProps> = ({
                                 </CardContent>
                             </Card>
 
-                            {/* Notes List */}
+                            {/* Activity Timeline */}
                             <Card>
                                 <CardHeader>
-                                    <CardTitle className="text-base">Notes History</CardTitle>
+                                    <CardTitle className="text-base">Activity</CardTitle>
                                 </CardHeader>
                                 <CardContent>
-                                    {formatNotes(lead.notes).length > 0 ? (
-                                        <div className="space-y-4">
-                                            {formatNotes(lead.notes).map((note, index) => (
-                                                <div key={index} className="p-4 bg-secondary/30 rounded-lg">
-                                                    <p className="text-sm">{note}</p>
-                                                </div>
-                                            ))}
-                                        </div>
-                                    ) : (
-                                        <div className="text-center py-6">
-                                            <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground opacity-20 mb-2" />
-                                            <p className="text-muted-foreground">No notes yet</p>
-                                        </div>
-                                    )}
+                                    <LeadActivityTimeline
+                                        events={timeline}
+                                        loading={timelineLoading}
+                                        error={timelineError}
+                                        onViewCall={handleViewCall}
+                                    />
                                 </CardContent>
                             </Card>
                         </div>
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadPipelineStage } from '@/types/leadPipeline';
+import { DEFAULT_PIPELINE_STAGES } from '@/utils/leadPipeline';
+import {
+  LeadEditFormValues,
+  LeadEditUpdates,
+  formValuesToUpdates,
+  getLeadChanges,
+  leadEditSchema,
+  leadToFormValues,
+} from '@/utils/leadEditing';
+
+interface LeadEditDialogProps {
+  lead: Lead | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (lead: Lead, updates: LeadEditUpdates) => Promise<void>;
+  stages?: LeadPipelineStage[]; // Client's pipeline stages for the status select
+}
+
+const EMPTY_FORM_VALUES: LeadEditFormValues = {
+  full_name: '',
+  phone_number: '',
+  email: '',
+  callback_timing_value: '',
+  lead_status: 'new',
+  custom_fields: [],
+};
+
+/**
+ * Dialog for editing a lead's contact details, status and custom lead data
+ * Only the fields that actually changed are passed to onSave
+ */
+const LeadEditDialog: React.FC<LeadEditDialogProps> = ({
+  lead,
+  isOpen,
+  onClose,
+  onSave,
+  stages = DEFAULT_PIPELINE_STAGES,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<LeadEditFormValues>({
+    resolver: zodResolver(leadEditSchema),
+    defaultValues: lead ? leadToFormValues(lead) : EMPTY_FORM_VALUES,
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'custom_fields',
+  });
+
+  // Reset the form whenever a different lead is opened
+  useEffect(() => {
+    if (isOpen && lead) {
+      form.reset(leadToFormValues(lead));
+    }
+  }, [isOpen, lead, form]);
+
+  const handleSubmit = async (values: LeadEditFormValues) => {
+    if (!lead) return;
+
+    const { changes } = getLeadChanges(lead, formValuesToUpdates(values));
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave(lead, changes);
+      onClose();
+    } catch (error) {
+      console.error('Error saving lead:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!lead) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold flex items-center gap-2">
+            <Edit className="h-5 w-5" />
+            Edit Lead
+          </DialogTitle>
+          <DialogDescription>
+            Update contact details, status and custom data for {lead.full_name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="full_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Full name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="phone_number"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="+1 (555) 123-4567" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="name@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="callback_timing_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Callback Timing</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Tomorrow after 3pm" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      {lead?.callback_schedule_source === 'manual'
+                        ? 'The callback was scheduled by hand; editing this won\'t reschedule it.'
+                        : 'Editing this reschedules the callback.'}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="lead_status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {stages.map(stage => (
+                          <SelectItem key={stage.key} value={stage.key}>
+                            {stage.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Custom lead data editor */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Custom Lead Data</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ key: '', value: '' })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Field
+                </Button>
+              </div>
+              {fields.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No custom data for this lead</p>
+              ) : (
+                fields.map((item, index) => (
+                  <div key={item.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`custom_fields.${index}.key`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="Field" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`custom_fields.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem className="flex-[2]">
+                          <FormControl>
+                            <Input placeholder="Value" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-10 w-10 p-0 text-destructive"
+                      onClick={() => remove(index)}
+                      aria-label="Remove field"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <FormDescription>
+                Values like true/false or JSON objects are saved as their JSON type
+              </FormDescription>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadEditDialog;
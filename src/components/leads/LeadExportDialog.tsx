@@ -11,17 +11,19 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Download, FileSpreadsheet, FileText, X } from 'lucide-react';
+import { Download, FileCode, FileSpreadsheet, FileText, X } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
 
 interface LeadExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onExport: (format: 'csv' | 'excel', options: LeadExportOptions) => Promise<void>;
+  onExport: (format: LeadExportFormat, options: LeadExportOptions) => Promise<void>;
   exportCount: number;
 }
 
+export type LeadExportFormat = 'csv' | 'excel' | 'adf';
+
 export interface LeadExportOptions {
   includeNotes: boolean;
   includeClientId: boolean;
@@ -36,7 +38,7 @@ const LeadExportDialog: React.FC<LeadExportDialogProps> = ({
   exportCount,
 }) => {
   const { user } = useAuth();
-  const [format, setFormat] = useState<'csv' | 'excel'>('csv');
+  const [format, setFormat] = useState<LeadExportFormat>('csv');
   const [isExporting, setIsExporting] = useState(false);
   const [options, setOptions] = useState<LeadExportOptions>({
     includeNotes: true,
@@ -83,7 +85,7 @@ const LeadExportDialog: React.FC<LeadExportDialogProps> = ({
             </Button>
           </div>
           <DialogDescription>
-            Export {exportCount} lead{exportCount !== 1 ? 's' : ''} to CSV or Excel format
+            Export {exportCount} lead{exportCount !== 1 ? 's' : ''} to CSV, Excel or ADF/XML format
           </DialogDescription>
         </DialogHeader>
 
@@ -92,7 +94,7 @@ const LeadExportDialog: React.FC<LeadExportDialogProps> = ({
             <Label>Export Format</Label>
             <RadioGroup
               value={format}
-              onValueChange={(value) => setFormat(value as 'csv' | 'excel')}
+              onValueChange={(value) => setFormat(value as LeadExportFormat)}
               className="flex space-x-4"
             >
               <div className="flex items-center space-x-2">
@@ -109,7 +111,24 @@ const LeadExportDialog: React.FC<LeadExportDialogProps> = ({
                   Excel
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="adf" id="adf" />
+                <Label htmlFor="adf" className="flex items-center gap-2 cursor-pointer">
+                  <FileCode className="h-4 w-4" />
+                  ADF/XML
+                </Label>
+              </div>
             </RadioGroup>
+            {format === 'excel' && (
+              <p className="text-xs text-muted-foreground">
+                Excel workbook with Leads, Call Intelligence and Summary sheets
+              </p>
+            )}
+            {format === 'adf' && (
+              <p className="text-xs text-muted-foreground">
+                ADF 1.0 XML for dealership CRMs, with vehicle interest and the call summary
+              </p>
+            )}
           </div>
 
           <div className="space-y-4">
@@ -128,8 +147,8 @@ const LeadExportDialog: React.FC<LeadExportDialogProps> = ({
                 </Label>
               </div>
               
-              {/* Only show client ID option to admins */}
-              {canViewSensitiveInfo(user) && (
+              {/* Only show client ID option to admins (ADF has fixed fields) */}
+              {canViewSensitiveInfo(user) && format !== 'adf' && (
                 <div className="flex items-center space-x-2">
                   <Checkbox
                     id="includeClientId"
@@ -144,31 +163,35 @@ const LeadExportDialog: React.FC<LeadExportDialogProps> = ({
                 </div>
               )}
               
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="includeCallId"
-                  checked={options.includeCallId}
-                  onCheckedChange={(checked) => 
-                    handleOptionChange('includeCallId', checked === true)
-                  }
-                />
-                <Label htmlFor="includeCallId" className="cursor-pointer">
-                  Include call ID
-                </Label>
-              </div>
-              
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="includeTimestamps"
-                  checked={options.includeTimestamps}
-                  onCheckedChange={(checked) => 
-                    handleOptionChange('includeTimestamps', checked === true)
-                  }
-                />
-                <Label htmlFor="includeTimestamps" className="cursor-pointer">
-                  Include timestamps
-                </Label>
-              </div>
+              {format !== 'adf' && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="includeCallId"
+                      checked={options.includeCallId}
+                      onCheckedChange={(checked) => 
+                        handleOptionChange('includeCallId', checked === true)
+                      }
+                    />
+                    <Label htmlFor="includeCallId" className="cursor-pointer">
+                      Include call ID
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="includeTimestamps"
+                      checked={options.includeTimestamps}
+                      onCheckedChange={(checked) => 
+                        handleOptionChange('includeTimestamps', checked === true)
+                      }
+                    />
+                    <Label htmlFor="includeTimestamps" className="cursor-pointer">
+                      Include timestamps
+                    </Label>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
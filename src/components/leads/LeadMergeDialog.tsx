@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Badge } from '@/components/ui/badge';
+import { GitMerge, PhoneCall } from 'lucide-react';
+import { Lead } from '@/integrations/supabase/lead-service';
+import {
+  DUPLICATE_REASON_LABELS,
+  LeadDuplicateGroup,
+  LeadMergeChoices,
+  LeadMergeUpdates,
+  buildMergedLead,
+} from '@/utils/leadDuplicates';
+
+interface LeadMergeDialogProps {
+  leads: Lead[];
+  group: LeadDuplicateGroup | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onMerge: (primary: Lead, duplicates: Lead[], updates: LeadMergeUpdates) => Promise<void>;
+}
+
+type ChoiceField = keyof LeadMergeChoices;
+
+const CHOICE_FIELDS: { field: ChoiceField; label: string }[] = [
+  { field: 'full_name', label: 'Name' },
+  { field: 'phone_number', label: 'Phone' },
+  { field: 'email', label: 'Email' },
+];
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+/**
+ * Dialog for merging a group of duplicate leads into one primary lead
+ * The duplicates are kept (marked as merged) so every source call stays linked
+ */
+const LeadMergeDialog: React.FC<LeadMergeDialogProps> = ({
+  leads,
+  group,
+  isOpen,
+  onClose,
+  onMerge,
+}) => {
+  const groupLeads = useMemo(
+    () => (group ? group.leadIds.map(id => leads.find(lead => lead.id === id)).filter(Boolean) as Lead[] : []),
+    [group, leads]
+  );
+  const [primaryId, setPrimaryId] = useState<string>('');
+  const [choices, setChoices] = useState<LeadMergeChoices>({ full_name: '', phone_number: '', email: null });
+  const [isMerging, setIsMerging] = useState(false);
+
+  const primary = groupLeads.find(lead => lead.id === primaryId) ?? groupLeads[0];
+  const duplicates = groupLeads.filter(lead => lead.id !== primary?.id);
+
+  // Default to the oldest lead and its values whenever a new group is opened
+  const oldestLeadId = groupLeads[0]?.id;
+  useEffect(() => {
+    if (isOpen && oldestLeadId) {
+      setPrimaryId(oldestLeadId);
+    }
+  }, [isOpen, oldestLeadId]);
+
+  const primaryLeadId = primary?.id;
+  const primaryName = primary?.full_name;
+  const primaryPhone = primary?.phone_number;
+  const defaultEmail = primary?.email || groupLeads.find(lead => lead.email)?.email || null;
+  useEffect(() => {
+    if (primaryLeadId) {
+      setChoices({
+        full_name: primaryName ?? '',
+        phone_number: primaryPhone ?? '',
+        email: defaultEmail,
+      });
+    }
+  }, [primaryLeadId, primaryName, primaryPhone, defaultEmail]);
+
+  // Distinct non-empty values per field, so only real conflicts are shown
+  const fieldOptions = useMemo(() => {
+    const options = {} as Record<ChoiceField, string[]>;
+    CHOICE_FIELDS.forEach(({ field }) => {
+      options[field] = [...new Set(groupLeads.map(lead => lead[field]?.trim()).filter(Boolean) as string[])];
+    });
+    return options;
+  }, [groupLeads]);
+
+  const mergedPreview = useMemo(
+    () => (primary ? buildMergedLead(primary, duplicates, choices) : null),
+    [primary, duplicates, choices]
+  );
+
+  const handleMerge = async () => {
+    if (!primary || !mergedPreview || duplicates.length === 0) return;
+
+    try {
+      setIsMerging(true);
+      await onMerge(primary, duplicates, mergedPreview);
+      onClose();
+    } catch (error) {
+      console.error('Error merging leads:', error);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (!group || groupLeads.length < 2 || !primary) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isMerging && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Duplicate Leads
+          </DialogTitle>
+          <DialogDescription>
+            {groupLeads.length} leads matched on{' '}
+            {group.reasons.map(reason => DUPLICATE_REASON_LABELS[reason].toLowerCase()).join(', ')}.
+            The other leads are kept as merged records so their calls stay linked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Primary lead */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Keep as primary lead</p>
+            <RadioGroup value={primary.id} onValueChange={setPrimaryId} className="space-y-2">
+              {groupLeads.map(lead => (
+                <div key={lead.id} className="flex items-start gap-3 rounded-md border border-border p-3">
+                  <RadioGroupItem value={lead.id} id={`primary-${lead.id}`} className="mt-1" />
+                  <Label htmlFor={`primary-${lead.id}`} className="flex-1 cursor-pointer font-normal">
+                    <span className="font-medium">{lead.full_name}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {lead.phone_number}{lead.email ? ` · ${lead.email}` : ''} · Created {formatDate(lead.created_at)}
+                    </span>
+                  </Label>
+                  {lead.id === groupLeads[0].id && <Badge variant="outline">Oldest</Badge>}
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {/* Conflicting values */}
+          {CHOICE_FIELDS.filter(({ field }) => fieldOptions[field].length > 1).map(({ field, label }) => (
+            <div key={field} className="space-y-2">
+              <p className="text-sm font-medium">{label}</p>
+              <RadioGroup
+                value={choices[field] ?? ''}
+                onValueChange={(value) => setChoices(current => ({ ...current, [field]: value }))}
+                className="flex flex-wrap gap-4"
+              >
+                {fieldOptions[field].map(value => (
+                  <div key={value} className="flex items-center gap-2">
+                    <RadioGroupItem value={value} id={`${field}-${value}`} />
+                    <Label htmlFor={`${field}-${value}`} className="font-normal">{value}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+
+          {/* Combined notes */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Combined notes</p>
+            {mergedPreview?.notes ? (
+              <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-sm font-sans">
+                {mergedPreview.notes}
+              </pre>
+            ) : (
+              <p className="text-sm text-muted-foreground">None of these leads have notes</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Notes and status history on the activity timeline are moved to the primary lead.
+            </p>
+          </div>
+
+          {/* Source calls */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Source calls kept linked</p>
+            <ul className="space-y-1">
+              {groupLeads.map(lead => (
+                <li key={lead.call_id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <PhoneCall className="h-3 w-3" />
+                  <span>Call from {formatDate(lead.call_time || lead.created_at)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleMerge} disabled={isMerging || !choices.full_name || !choices.phone_number}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            {isMerging ? 'Merging...' : `Merge ${groupLeads.length} Leads`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadMergeDialog;
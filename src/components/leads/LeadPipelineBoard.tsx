@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Phone, Calendar, GripVertical } from 'lucide-react';
+import { format } from 'date-fns';
+import { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadPipelineStage } from '@/types/leadPipeline';
+import { findStage, groupLeadsByStage } from '@/utils/leadPipeline';
+import { useAuth } from '@/context/AuthContext';
+import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { cn } from '@/lib/utils';
+
+interface LeadPipelineBoardProps {
+  leads: Lead[];
+  stages: LeadPipelineStage[];
+  loading: boolean;
+  onViewLead: (lead: Lead) => void;
+  onMoveLead: (lead: Lead, stageKey: string) => Promise<void>;
+}
+
+/**
+ * Kanban-style board with one column per pipeline stage
+ * Dragging a card onto another column moves the lead to that stage
+ */
+const LeadPipelineBoard: React.FC<LeadPipelineBoardProps> = ({
+  leads,
+  stages,
+  loading,
+  onViewLead,
+  onMoveLead,
+}) => {
+  const { user } = useAuth();
+  const isAdmin = canViewSensitiveInfo(user);
+  const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [movingLeadId, setMovingLeadId] = useState<string | null>(null);
+
+  const columns = useMemo(() => groupLeadsByStage(leads, stages), [leads, stages]);
+
+  const handleDrop = async (event: React.DragEvent, stage: LeadPipelineStage) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const leadId = event.dataTransfer.getData('text/plain') || draggedLeadId;
+    setDraggedLeadId(null);
+
+    const lead = leads.find(l => l.id === leadId);
+    if (!lead) return;
+
+    // Ignore drops onto the column the lead is already in
+    const currentStage = findStage(lead.lead_status ?? lead.status, stages) ?? stages[0];
+    if (currentStage?.key === stage.key) return;
+
+    try {
+      setMovingLeadId(lead.id);
+      await onMoveLead(lead, stage.key);
+    } finally {
+      setMovingLeadId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex gap-4 overflow-x-auto p-4">
+        {stages.map(stage => (
+          <div key={stage.key} className="w-72 flex-shrink-0 space-y-3">
+            <Skeleton className="h-6 w-32" />
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto p-4">
+      {stages.map(stage => {
+        const stageLeads = columns.get(stage.key) ?? [];
+
+        return (
+          <div
+            key={stage.key}
+            className={cn(
+              'w-72 flex-shrink-0 rounded-lg border border-border bg-muted/30 flex flex-col max-h-[70vh]',
+              dropTarget === stage.key && 'ring-2 ring-primary/40 bg-primary/5'
+            )}
+            onDragOver={(event) => {
+              event.preventDefault();
+              event.dataTransfer.dropEffect = 'move';
+              if (dropTarget !== stage.key) setDropTarget(stage.key);
+            }}
+            onDragLeave={() => setDropTarget(current => (current === stage.key ? null : current))}
+            onDrop={(event) => handleDrop(event, stage)}
+          >
+            <div
+              className="flex items-center justify-between px-3 py-2 border-b border-border rounded-t-lg"
+              style={stage.color ? { borderTop: `3px solid ${stage.color}` } : undefined}
+            >
+              <span className="text-sm font-medium">{stage.label}</span>
+              <Badge variant={stage.is_closed ? 'outline' : 'secondary'} className="text-xs">
+                {stageLeads.length}
+              </Badge>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-2">
+              {stageLeads.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">Drop leads here</p>
+              ) : (
+                stageLeads.map(lead => (
+                  <div
+                    key={lead.id}
+                    draggable={movingLeadId !== lead.id}
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData('text/plain', lead.id);
+                      event.dataTransfer.effectAllowed = 'move';
+                      setDraggedLeadId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedLeadId(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => onViewLead(lead)}
+                    className={cn(
+                      'rounded-md border border-border bg-card p-3 shadow-sm cursor-grab active:cursor-grabbing hover:border-primary/30 transition-colors',
+                      draggedLeadId === lead.id && 'opacity-50',
+                      movingLeadId === lead.id && 'opacity-60 pointer-events-none'
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium truncate">{lead.full_name}</p>
+                      <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    </div>
+                    <div className="mt-1 space-y-1 text-xs text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Phone className="h-3 w-3" />
+                        <span className="truncate">{lead.phone_number}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        <span>{format(new Date(lead.created_at), 'MMM d, yyyy')}</span>
+                      </div>
+                      {isAdmin && lead.client_name && (
+                        <p className="truncate">{lead.client_name}</p>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LeadPipelineBoard;
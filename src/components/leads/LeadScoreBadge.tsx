@@ -0,0 +1,74 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Flame } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { LeadScore } from '@/types/leadScoring';
+import { LEAD_SCORE_SIGNAL_LABELS } from '@/utils/leadScoring';
+
+interface LeadScoreBadgeProps {
+  score: LeadScore | null | undefined;
+  className?: string;
+}
+
+const tierStyles = {
+  hot: 'border-red-300 bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400',
+  warm: 'border-amber-300 bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400',
+  cold: 'border-border text-foreground/60',
+};
+
+/**
+ * Lead score with a popover breaking down what drove it
+ * Clicks are kept from reaching the table row so opening the breakdown doesn't open the lead
+ */
+const LeadScoreBadge: React.FC<LeadScoreBadgeProps> = ({ score, className }) => {
+  if (!score) {
+    return <span className={cn('text-xs text-foreground/50', className)} title="No call evaluation or intelligence yet">—</span>;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild onClick={(e) => e.stopPropagation()}>
+        <button type="button" className={cn('inline-flex', className)} aria-label={`Lead score ${score.score}, show breakdown`}>
+          <Badge variant="outline" className={cn('px-2 py-0.5 text-xs font-semibold tabular-nums', tierStyles[score.tier])}>
+            {score.tier === 'hot' && <Flame className="h-3 w-3 mr-1" />}
+            {score.score}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="start" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm font-medium">Lead score</span>
+            <span className="text-lg font-semibold tabular-nums">{score.score}<span className="text-xs text-muted-foreground">/100</span></span>
+          </div>
+          <div className="space-y-2">
+            {score.factors.map(factor => (
+              <div key={factor.signal} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{factor.label} <span className="text-muted-foreground">({factor.value})</span></span>
+                  <span className="tabular-nums text-muted-foreground">
+                    +{Math.round(factor.points)} / {Math.round(factor.maxPoints)}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted">
+                  <div
+                    className="h-1.5 rounded-full bg-primary"
+                    style={{ width: `${factor.maxPoints > 0 ? (factor.points / factor.maxPoints) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          {score.missing.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              No data for {score.missing.map(signal => LEAD_SCORE_SIGNAL_LABELS[signal].toLowerCase()).join(', ')}; left out of the score.
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LeadScoreBadge;
@@ -29,6 +29,11 @@ import {
   PhoneCall,
   ExternalLink,
   Clock,
+  Copy,
+  GitMerge,
+  UserCheck,
+  PhoneForwarded,
+  Loader2,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -36,6 +41,9 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Lead as ContextLead } from '@/context/LeadContext';
@@ -44,6 +52,21 @@ import { adaptSupabaseLeadToContextLead } from '@/utils/leadAdapter';
 import { cn } from '@/lib/utils';
 import InquiryTypeBadge from '@/components/calls/InquiryTypeBadge';
 import { CallIntelligenceService } from '@/services/callIntelligenceService';
+import type { LeadPipelineStage } from '@/types/leadPipeline';
+import { DEFAULT_PIPELINE_STAGES, findStage } from '@/utils/leadPipeline';
+import {
+  DUPLICATE_REASON_LABELS,
+  LeadDuplicateGroup,
+  findDuplicateGroups,
+  indexDuplicateGroups,
+} from '@/utils/leadDuplicates';
+import type { LeadAssignee } from '@/types/leadRouting';
+import { DEFAULT_CLIENT_TIMEZONE, formatCallbackTime, getCallbackState } from '@/utils/callbackTiming';
+import { compareLeadScores } from '@/utils/leadScoring';
+import { useLeadScores } from '@/hooks/useLeadScores';
+import LeadScoreBadge from '@/components/leads/LeadScoreBadge';
+import CallSearchSnippet from '@/components/calls/CallSearchSnippet';
+import { useCallSearch } from '@/hooks/useCallSearch';
 
 interface LeadsTableProps {
   leads: SupabaseLead[];
@@ -53,8 +76,37 @@ interface LeadsTableProps {
   onDeleteLead: (lead: SupabaseLead) => void;
   onStatusChange: (lead: SupabaseLead, status: SupabaseLead['status']) => void;
   onExportLeads: () => void;
+  stages?: LeadPipelineStage[]; // Client's pipeline stages for the status filter and menu
+  onMergeDuplicates?: (group: LeadDuplicateGroup) => void;
+  assignees?: LeadAssignee[]; // Staff leads can be assigned to (any client in the list)
+  onAssignLead?: (lead: SupabaseLead, assignee: LeadAssignee | null) => void;
+  callbackTimeZones?: Map<string, string>; // Client id -> timezone for showing callback times
+  onScheduleCallback?: (lead: SupabaseLead) => void;
+  clientId?: string | null; // Client the call search is limited to (null for admins viewing all clients)
+  view?: LeadsTableView;
+  onViewChange?: (view: LeadsTableView) => void;
+}
+
+// Lead fields plus the computed lead score
+type LeadSortField = keyof SupabaseLead | 'score';
+
+// Search, filters and sort; controlled by the parent when it keeps them in the URL
+export interface LeadsTableView {
+  search: string;
+  status: SupabaseLead['status'] | 'all';
+  source: SupabaseLead['source'] | 'all';
+  sortField: LeadSortField;
+  sortDirection: 'asc' | 'desc';
 }
 
+const DEFAULT_TABLE_VIEW: LeadsTableView = {
+  search: '',
+  status: 'all',
+  source: 'all',
+  sortField: 'created_at',
+  sortDirection: 'desc',
+};
+
 const LeadsTable: React.FC<LeadsTableProps> = ({
   leads,
   loading,
@@ -63,25 +115,57 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
   onDeleteLead,
   onStatusChange,
   onExportLeads,
+  stages = DEFAULT_PIPELINE_STAGES,
+  onMergeDuplicates,
+  assignees = [],
+  onAssignLead,
+  callbackTimeZones,
+  onScheduleCallback,
+  clientId = null,
+  view: controlledView,
+  onViewChange,
 }) => {
   const { user } = useAuth();
-  const [sortField, setSortField] = useState<keyof SupabaseLead>('created_at');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedStatus, setSelectedStatus] = useState<SupabaseLead['status'] | 'all'>('all');
-  const [selectedSource, setSelectedSource] = useState<SupabaseLead['source'] | 'all'>('all');
+  const [localView, setLocalView] = useState<LeadsTableView>(DEFAULT_TABLE_VIEW);
+  const tableView = onViewChange && controlledView ? controlledView : localView;
+  const {
+    sortField,
+    sortDirection,
+    search: searchTerm,
+    status: selectedStatus,
+    source: selectedSource,
+  } = tableView;
+  const updateView = (changes: Partial<LeadsTableView>) => {
+    const next = { ...tableView, ...changes };
+    if (onViewChange) {
+      onViewChange(next);
+    } else {
+      setLocalView(next);
+    }
+  };
   const [inquiryTypes, setInquiryTypes] = useState<Map<string, string>>(new Map());
+  const leadScores = useLeadScores(leads);
+  // Leads also match on their call's transcript and summary (searched on the server)
+  const callSearch = useCallSearch(searchTerm, clientId);
   
   // Stabilize admin permission check with useMemo to prevent infinite renders
   const isAdmin = useMemo(() => canViewSensitiveInfo(user), [user]);
 
+  // Flag leads that look like the same customer (same client, matching phone/email/name)
+  const duplicatesByLeadId = useMemo(() => indexDuplicateGroups(findDuplicateGroups(leads)), [leads]);
+
+  const assigneeNames = useMemo(
+    () => new Map(assignees.map(assignee => [assignee.id, assignee.full_name || assignee.email])),
+    [assignees]
+  );
+
   // Handle sorting
-  const handleSort = (field: keyof SupabaseLead) => {
+  const handleSort = (field: LeadSortField) => {
     if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      updateView({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      // Highest scores first
+      updateView({ sortField: field, sortDirection: field === 'score' ? 'desc' : 'asc' });
     }
   };
 
@@ -132,6 +216,7 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
           lead.phone_number.toLowerCase().includes(search) ||
           (lead.email?.toLowerCase().includes(search) || false) ||
           (lead.notes?.toLowerCase().includes(search) || false) ||
+          (lead.call_id ? callSearch.matches.has(lead.call_id) : false) ||
           // Search by inquiry type
           (lead.call_id && inquiryTypes.get(lead.call_id)?.toLowerCase().includes(search) || false)
         );
@@ -141,6 +226,10 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
     })
     .sort((a, b) => {
       // Handle sorting based on field type
+      if (sortField === 'score') {
+        return compareLeadScores(leadScores.get(a.id), leadScores.get(b.id), sortDirection);
+      }
+      
       if (sortField === 'created_at') {
         const dateA = new Date(a.created_at);
         const dateB = new Date(b.created_at);
@@ -159,7 +248,7 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
     });
 
   // Render sort icon
-  const renderSortIcon = (field: keyof SupabaseLead) => {
+  const renderSortIcon = (field: LeadSortField) => {
     if (sortField !== field) return null;
     return sortDirection === 'asc' ? 
       <ChevronUp className="h-4 w-4 ml-1" /> : 
@@ -184,15 +273,68 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
     };
 
     // Use normalized status for lookup to ensure case-insensitivity
+    const stageLabel = findStage(status, stages)?.label;
     const config = statusConfig[normalizedStatus] || { variant: 'outline', label: status || 'Unknown' };
 
     return (
       <Badge variant={config.variant as any} className="px-3 py-1 rounded-full text-xs font-medium">
-        {config.label}
+        {stageLabel || config.label}
+      </Badge>
+    );
+  };
+
+  // Get duplicate badge (amber for phone/email matches, muted for name-only matches)
+  const getDuplicateBadge = (lead: SupabaseLead) => {
+    const group = duplicatesByLeadId.get(lead.id);
+    if (!group) return null;
+
+    const reasons = group.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ');
+
+    return (
+      <Badge
+        variant="outline"
+        className={cn(
+          'flex-shrink-0 px-1.5 py-0 text-[10px] font-medium',
+          group.confidence === 'high'
+            ? 'border-amber-300 text-amber-700 dark:text-amber-400'
+            : 'border-border text-foreground/60'
+        )}
+        title={`${group.confidence === 'high' ? 'Duplicate' : 'Possible duplicate'} (${group.leadIds.length} leads): ${reasons}`}
+      >
+        <Copy className="h-3 w-3 mr-1" />
+        {group.leadIds.length}
       </Badge>
     );
   };
 
+  // Get due/overdue badge for a scheduled callback (none for done callbacks or closed leads)
+  const getCallbackBadge = (lead: SupabaseLead) => {
+    const state = getCallbackState(lead);
+    if (!state || state === 'done' || findStage(lead.status, stages)?.is_closed) return null;
+
+    const timeZone = callbackTimeZones?.get(lead.client_id) ?? DEFAULT_CLIENT_TIMEZONE;
+    const scheduledFor = formatCallbackTime(lead.callback_scheduled_at!, timeZone);
+    const labels = { overdue: 'Overdue', due: 'Due', scheduled: 'Callback' };
+
+    return (
+      <div className="mt-1">
+        <Badge
+          variant="outline"
+          className={cn(
+            'px-1.5 py-0 text-[10px] font-medium',
+            state === 'overdue' && 'border-red-300 text-red-700 dark:text-red-400',
+            state === 'due' && 'border-amber-300 text-amber-700 dark:text-amber-400',
+            state === 'scheduled' && 'border-border text-foreground/60'
+          )}
+          title={`Callback ${state === 'scheduled' ? 'scheduled' : state}: ${scheduledFor}`}
+        >
+          <PhoneForwarded className="h-3 w-3 mr-1" />
+          {labels[state]} · {scheduledFor.replace(/^\w+, /, '')}
+        </Badge>
+      </div>
+    );
+  };
+
   // Get source badge
   const getSourceBadge = (source: string) => {
     // Normalize source to handle any case variations
@@ -217,7 +359,7 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
   };
 
   // Column definition for sortable headers
-  const SortableHeader = ({ field, label, className }: { field: keyof SupabaseLead, label: string, className?: string }) => (
+  const SortableHeader = ({ field, label, className }: { field: LeadSortField, label: string, className?: string }) => (
     <th 
       className={cn(
         "px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider cursor-pointer hover:bg-secondary/50 transition-colors",
@@ -246,11 +388,16 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
             </div>
             <input
               type="text"
-              placeholder="Search by name, phone, inquiry type..."
-              className="pl-10 pr-3 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm"
+              placeholder="Search by name, phone, call transcript..."
+              className="pl-10 pr-9 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm"
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => updateView({ search: e.target.value })}
             />
+            {callSearch.searching && (
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                <Loader2 className="h-4 w-4 animate-spin text-foreground/50" />
+              </div>
+            )}
           </div>
 
           {/* Status Filter */}
@@ -262,15 +409,12 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
             <select
               className="pl-10 pr-8 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm appearance-none"
               value={selectedStatus}
-              onChange={(e) => setSelectedStatus(e.target.value as SupabaseLead['status'] | 'all')}
+              onChange={(e) => updateView({ status: e.target.value as SupabaseLead['status'] | 'all' })}
             >
               <option value="all">All Statuses</option>
-              <option value="new">New</option>
-              <option value="contacted">Contacted</option>
-              <option value="qualified">Qualified</option>
-              <option value="proposal">Proposal</option>
-              <option value="closed_won">Closed (Won)</option>
-              <option value="closed_lost">Closed (Lost)</option>
+              {stages.map(stage => (
+                <option key={stage.key} value={stage.key}>{stage.label}</option>
+              ))}
             </select>
           </div>
 
@@ -283,7 +427,7 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
             <select
               className="pl-10 pr-8 py-2 w-full rounded-md border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary/30 text-sm appearance-none"
               value={selectedSource}
-              onChange={(e) => setSelectedSource(e.target.value as SupabaseLead['source'] | 'all')}
+              onChange={(e) => updateView({ source: e.target.value as SupabaseLead['source'] | 'all' })}
             >
               <option value="all">All Sources</option>
               <option value="website">Website</option>
@@ -308,7 +452,9 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
               <SortableHeader field="full_name" label="Name" className="px-3 sm:px-4 py-3 text-xs" />
               <SortableHeader field="phone_number" label="Contact" className="px-3 sm:px-4 py-3 text-xs hidden sm:table-cell" />
               <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell">Inquiry Type</TableHead>
+              <SortableHeader field="score" label="Score" className="px-3 sm:px-4 py-3 text-xs hidden sm:table-cell" />
               <SortableHeader field="status" label="Status" className="px-3 sm:px-4 py-3 text-xs" />
+              <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden xl:table-cell">Assigned To</TableHead>
               <SortableHeader field="created_at" label="Created" className="px-3 sm:px-4 py-3 text-xs hidden lg:table-cell" />
               <TableHead className="px-3 sm:px-4 py-3 text-right text-xs font-medium text-foreground/70 uppercase tracking-wider">Actions</TableHead>
             </TableRow>
@@ -316,7 +462,7 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={7} className="h-20 sm:h-24 text-center">
+                <TableCell colSpan={8} className="h-20 sm:h-24 text-center">
                   <div className="flex flex-col items-center justify-center space-y-2 sm:space-y-3">
                     <div className="animate-spin rounded-full h-6 w-6 sm:h-8 sm:w-8 border-b-2 border-primary"></div>
                     <p className="text-foreground/70 text-xs sm:text-sm font-medium">Loading leads...</p>
@@ -325,7 +471,7 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
               </TableRow>
             ) : filteredAndSortedLeads.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="h-20 sm:h-24 text-center">
+                <TableCell colSpan={8} className="h-20 sm:h-24 text-center">
                   <div className="flex flex-col items-center justify-center space-y-2 sm:space-y-3">
                     <User className="h-8 w-8 sm:h-10 sm:w-10 text-foreground/30" />
                     <div className="space-y-1">
@@ -355,9 +501,16 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
                         <User className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
                       </div>
                       <div className="ml-2 sm:ml-3 md:ml-4 min-w-0 flex-1">
-                        <div className="text-xs sm:text-sm font-medium text-foreground truncate">
-                          {lead.full_name}
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          <span className="text-xs sm:text-sm font-medium text-foreground truncate">
+                            {lead.full_name}
+                          </span>
+                          {getDuplicateBadge(lead)}
                         </div>
+                        {/* Where the search matched the lead's call */}
+                        {callSearch.active && lead.call_id && (
+                          <CallSearchSnippet match={callSearch.matches.get(lead.call_id)} />
+                        )}
                         {/* Mobile: Show phone number below name */}
                         <div className="sm:hidden text-xs text-foreground/60 mt-0.5 flex items-center">
                           <Phone className="h-3 w-3 mr-1" />
@@ -405,8 +558,12 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
                       <span className="text-xs text-foreground/50">—</span>
                     )}
                   </TableCell>
+                  <TableCell className="px-3 sm:px-4 py-3 sm:py-4 hidden sm:table-cell">
+                    <LeadScoreBadge score={leadScores.get(lead.id)} />
+                  </TableCell>
                   <TableCell className="px-3 sm:px-4 py-3 sm:py-4">
                     {getStatusBadge(lead.status)}
+                    {getCallbackBadge(lead)}
                     {/* Mobile: Show created date below status */}
                     <div className="lg:hidden mt-1 text-xs text-foreground/60 flex items-center">
                       <Calendar className="h-3 w-3 mr-1" />
@@ -417,6 +574,18 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
                       </span>
                     </div>
                   </TableCell>
+                  <TableCell className="px-3 sm:px-4 py-3 sm:py-4 hidden xl:table-cell">
+                    {lead.assigned_to ? (
+                      <div className="flex items-center">
+                        <UserCheck className="h-4 w-4 text-foreground/50 mr-2" />
+                        <span className="text-sm text-foreground truncate">
+                          {lead.assigned_to === user?.id ? 'You' : assigneeNames.get(lead.assigned_to) || 'Unknown user'}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-foreground/50">Unassigned</span>
+                    )}
+                  </TableCell>
                   <TableCell className="px-3 sm:px-4 py-3 sm:py-4 hidden lg:table-cell">
                     <div className="flex items-center">
                       <Calendar className="h-4 w-4 text-foreground/50 mr-2" />
@@ -445,39 +614,60 @@ const LeadsTable: React.FC<LeadsTableProps> = ({
                           <Edit className="h-4 w-4 mr-2" />
                           Edit Lead
                         </DropdownMenuItem>
-                        <DropdownMenuSeparator />
-                        <DropdownMenuLabel>Change Status</DropdownMenuLabel>
-                        {lead.status !== 'new' && (
-                          <DropdownMenuItem onClick={() => onStatusChange(lead, 'new')}>
-                            Set as New
-                          </DropdownMenuItem>
-                        )}
-                        {lead.status !== 'contacted' && (
-                          <DropdownMenuItem onClick={() => onStatusChange(lead, 'contacted')}>
-                            Set as Contacted
-                          </DropdownMenuItem>
-                        )}
-                        {lead.status !== 'qualified' && (
-                          <DropdownMenuItem onClick={() => onStatusChange(lead, 'qualified')}>
-                            Set as Qualified
-                          </DropdownMenuItem>
-                        )}
-                        {lead.status !== 'proposal' && (
-                          <DropdownMenuItem onClick={() => onStatusChange(lead, 'proposal')}>
-                            Set as Proposal
+                        {onMergeDuplicates && duplicatesByLeadId.has(lead.id) && (
+                          <DropdownMenuItem onClick={() => onMergeDuplicates(duplicatesByLeadId.get(lead.id)!)}>
+                            <GitMerge className="h-4 w-4 mr-2" />
+                            Merge Duplicates
                           </DropdownMenuItem>
                         )}
-                        {lead.status !== 'closed_won' && (
-                          <DropdownMenuItem onClick={() => onStatusChange(lead, 'closed_won')}>
-                            Set as Closed (Won)
+                        {onScheduleCallback && (
+                          <DropdownMenuItem onClick={() => onScheduleCallback(lead)}>
+                            <PhoneForwarded className="h-4 w-4 mr-2" />
+                            {lead.callback_scheduled_at ? 'Reschedule Callback' : 'Schedule Callback'}
                           </DropdownMenuItem>
                         )}
-                        {lead.status !== 'closed_lost' && (
-                          <DropdownMenuItem onClick={() => onStatusChange(lead, 'closed_lost')}>
-                            Set as Closed (Lost)
-                          </DropdownMenuItem>
+                        {onAssignLead && (
+                          <DropdownMenuSub>
+                            <DropdownMenuSubTrigger>
+                              <UserCheck className="h-4 w-4 mr-2" />
+                              Assign To
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent>
+                              {assignees
+                                .filter(assignee => assignee.client_id === lead.client_id)
+                                .map(assignee => (
+                                  <DropdownMenuItem
+                                    key={assignee.id}
+                                    disabled={assignee.id === lead.assigned_to}
+                                    onClick={() => onAssignLead(lead, assignee)}
+                                  >
+                                    {assignee.full_name || assignee.email}
+                                  </DropdownMenuItem>
+                                ))}
+                              {!assignees.some(assignee => assignee.client_id === lead.client_id) && (
+                                <DropdownMenuItem disabled>No staff users for this client</DropdownMenuItem>
+                              )}
+                              {lead.assigned_to && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem onClick={() => onAssignLead(lead, null)}>
+                                    Unassign
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
                         )}
                         <DropdownMenuSeparator />
+                        <DropdownMenuLabel>Change Status</DropdownMenuLabel>
+                        {stages
+                          .filter(stage => stage.key.toLowerCase() !== lead.status?.toLowerCase())
+                          .map(stage => (
+                            <DropdownMenuItem key={stage.key} onClick={() => onStatusChange(lead, stage.key)}>
+                              Set as {stage.label}
+                            </DropdownMenuItem>
+                          ))}
+                        <DropdownMenuSeparator />
                         <DropdownMenuItem 
                           onClick={() => onDeleteLead(lead)}
                           className="text-red-600"
@@ -9,6 +9,8 @@ interface MemoizedFinancialTabProps {
  * Memoized version of FinancialTab that prevents unnecessary re-renders.
  * Since FinancialTab manages its own state and data fetching, we primarily
  * memoize to prevent re-mounting when parent components re-render.
+ * A display currency change still re-renders it, as FinancialTab reads the
+ * currency from the auth context rather than from props.
  */
 const MemoizedFinancialTab: React.FC<MemoizedFinancialTabProps> = memo(() => {
   return <FinancialTab />;
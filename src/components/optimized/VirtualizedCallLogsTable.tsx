@@ -15,7 +15,9 @@ import { cn } from '@/lib/utils';
 import CallDetailsPopup from '@/components/calls/CallDetailsPopup';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import InquiryTypeBadge from '@/components/calls/InquiryTypeBadge';
+import CallBulkActionsBar from '@/components/calls/CallBulkActionsBar';
 import { CallIntelligenceService } from '@/services/callIntelligenceService';
 import { LeadEvaluationService } from '@/services/leadEvaluationService';
 import { PromptAdherenceService } from '@/services/promptAdherenceService';
@@ -81,13 +83,17 @@ const CallLogRow = memo(({
     isAdmin,
     leadCallIds,
     inquiryTypes,
-    onRowClick
+    selected,
+    onRowClick,
+    onToggleSelected
 }: {
     log: ExtendedCallLog;
     isAdmin: boolean;
     leadCallIds: Set<string>;
     inquiryTypes: Map<string, string>;
+    selected: boolean;
     onRowClick: (log: ExtendedCallLog) => void;
+    onToggleSelected: (id: string, checked: boolean) => void;
 }) => {
     const handleRowClick = useCallback((e: React.MouseEvent) => {
         // Prevent row click if clicking on action buttons
@@ -107,6 +113,13 @@ const CallLogRow = memo(({
             onClick={handleRowClick}
             title="Click to view call details"
         >
+            <TableCell className="px-3 py-3 sm:py-4 w-[40px]">
+                <Checkbox
+                    checked={selected}
+                    onCheckedChange={checked => onToggleSelected(log.id, checked === true)}
+                    aria-label={`Select call from ${log.caller_full_name || 'unknown caller'}`}
+                />
+            </TableCell>
             <TableCell className="px-3 sm:px-4 py-3 sm:py-4 w-[220px]">
                 <div className="flex items-center">
                     <div className="flex-shrink-0 h-8 w-8 sm:h-9 sm:w-9 rounded-full bg-primary/10 flex items-center justify-center">
@@ -212,6 +225,8 @@ const VirtualizedCallLogsTable: React.FC<VirtualizedCallLogsTableProps> = memo((
     const [selectedCall, setSelectedCall] = useState<ExtendedCallLog | null>(null);
     const [isDetailsOpen, setIsDetailsOpen] = useState(false);
     const [inquiryTypes, setInquiryTypes] = useState<Map<string, string>>(new Map());
+    // Calls selected for bulk actions
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
     const isAdmin = canViewSensitiveInfo(user);
 
@@ -295,6 +310,29 @@ const VirtualizedCallLogsTable: React.FC<VirtualizedCallLogsTableProps> = memo((
             });
     }, [callLogs, selectedCallType, searchTerm, sortField, sortDirection, inquiryTypes]);
 
+    // Bulk actions apply to the selected calls the filters still show
+    const selectedCalls = useMemo(
+        () => filteredAndSortedLogs.filter(log => selectedIds.has(log.id)),
+        [filteredAndSortedLogs, selectedIds]
+    );
+    const allSelected = filteredAndSortedLogs.length > 0 && selectedCalls.length === filteredAndSortedLogs.length;
+
+    const handleToggleSelected = useCallback((id: string, checked: boolean) => {
+        setSelectedIds(current => {
+            const next = new Set(current);
+            if (checked) {
+                next.add(id);
+            } else {
+                next.delete(id);
+            }
+            return next;
+        });
+    }, []);
+
+    const handleToggleAllSelected = (checked: boolean) => {
+        setSelectedIds(checked ? new Set(filteredAndSortedLogs.map(log => log.id)) : new Set());
+    };
+
     // Handle row click
     const handleRowClick = useCallback((log: ExtendedCallLog) => {
         setSelectedCall(log);
@@ -336,13 +374,15 @@ const VirtualizedCallLogsTable: React.FC<VirtualizedCallLogsTableProps> = memo((
                     isAdmin={isAdmin}
                     leadCallIds={leadCallIds}
                     inquiryTypes={inquiryTypes}
+                    selected={selectedIds.has(log.id)}
                     onRowClick={handleRowClick}
+                    onToggleSelected={handleToggleSelected}
                 />
             </div>
         );
-    }, [filteredAndSortedLogs, isAdmin, leadCallIds, inquiryTypes, handleRowClick]);
+    }, [filteredAndSortedLogs, isAdmin, leadCallIds, inquiryTypes, selectedIds, handleRowClick, handleToggleSelected]);
 
-    const colSpan = 7;
+    const colSpan = 8;
 
     return (
         <div className="bg-card rounded-lg shadow-sm md:shadow border border-border overflow-hidden w-full mx-auto">
@@ -386,11 +426,26 @@ const VirtualizedCallLogsTable: React.FC<VirtualizedCallLogsTableProps> = memo((
                 </div>
             </div>
 
+            {/* Bulk actions on the selected calls */}
+            <CallBulkActionsBar
+                selectedCalls={selectedCalls}
+                onSelectionChange={ids => setSelectedIds(new Set(ids))}
+                onComplete={onRefresh}
+            />
+
             {/* Table Header */}
             <div className="overflow-x-auto w-full">
                 <Table className="w-full">
                     <TableHeader>
                         <TableRow>
+                            <TableHead className="px-3 py-3 w-[40px]">
+                                <Checkbox
+                                    checked={allSelected ? true : selectedCalls.length > 0 ? 'indeterminate' : false}
+                                    onCheckedChange={checked => handleToggleAllSelected(checked === true)}
+                                    disabled={filteredAndSortedLogs.length === 0}
+                                    aria-label="Select all calls"
+                                />
+                            </TableHead>
                             <SortableHeader field="caller_full_name" label="Caller" className="px-3 sm:px-4 py-3 text-xs whitespace-nowrap w-[220px]" />
                             <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell whitespace-nowrap">Phone Number</TableHead>
                             <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell whitespace-nowrap w-[90px]">Lead</TableHead>
@@ -43,6 +43,10 @@ import { Lead as SupabaseLead } from '@/integrations/supabase/lead-service';
 import { cn } from '@/lib/utils';
 import InquiryTypeBadge from '@/components/calls/InquiryTypeBadge';
 import { CallIntelligenceService } from '@/services/callIntelligenceService';
+import type { LeadScore } from '@/types/leadScoring';
+import { compareLeadScores } from '@/utils/leadScoring';
+import { useLeadScores } from '@/hooks/useLeadScores';
+import LeadScoreBadge from '@/components/leads/LeadScoreBadge';
 
 interface VirtualizedLeadsTableProps {
   leads: SupabaseLead[];
@@ -56,11 +60,15 @@ interface VirtualizedLeadsTableProps {
   itemHeight?: number; // Height of each row
 }
 
+// Lead fields plus the computed lead score
+type LeadSortField = keyof SupabaseLead | 'score';
+
 // Memoized row component for better performance
 const LeadRow = memo(({ 
   lead, 
   user,
   inquiryTypes,
+  score,
   onViewLead,
   onEditLead,
   onDeleteLead,
@@ -69,6 +77,7 @@ const LeadRow = memo(({
   lead: SupabaseLead;
   user: any;
   inquiryTypes: Map<string, string>;
+  score: LeadScore | undefined;
   onViewLead: (lead: SupabaseLead) => void;
   onEditLead: (lead: SupabaseLead) => void;
   onDeleteLead: (lead: SupabaseLead) => void;
@@ -163,6 +172,9 @@ const LeadRow = memo(({
           <span className="text-xs text-foreground/50">—</span>
         )}
       </TableCell>
+      <TableCell className="px-3 sm:px-4 py-3 sm:py-4 hidden sm:table-cell">
+        <LeadScoreBadge score={score} />
+      </TableCell>
       <TableCell className="px-3 sm:px-4 py-3 sm:py-4">
         {getStatusBadge(lead.status)}
         <div className="lg:hidden mt-1 text-xs text-foreground/60 flex items-center">
@@ -267,20 +279,22 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
   itemHeight = 80
 }) => {
   const { user } = useAuth();
-  const [sortField, setSortField] = useState<keyof SupabaseLead>('created_at');
+  const [sortField, setSortField] = useState<LeadSortField>('created_at');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<SupabaseLead['status'] | 'all'>('all');
   const [selectedSource, setSelectedSource] = useState<SupabaseLead['source'] | 'all'>('all');
   const [inquiryTypes, setInquiryTypes] = useState<Map<string, string>>(new Map());
+  const leadScores = useLeadScores(leads);
 
   // Handle sorting
-  const handleSort = useCallback((field: keyof SupabaseLead) => {
+  const handleSort = useCallback((field: LeadSortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
-      setSortDirection('asc');
+      // Highest scores first
+      setSortDirection(field === 'score' ? 'desc' : 'asc');
     }
   }, [sortField, sortDirection]);
 
@@ -338,6 +352,10 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
       })
       .sort((a, b) => {
         // Handle sorting based on field type
+        if (sortField === 'score') {
+          return compareLeadScores(leadScores.get(a.id), leadScores.get(b.id), sortDirection);
+        }
+        
         if (sortField === 'created_at') {
           const dateA = new Date(a.created_at);
           const dateB = new Date(b.created_at);
@@ -354,10 +372,10 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
           valueA.localeCompare(valueB) : 
           valueB.localeCompare(valueA);
       });
-  }, [leads, selectedStatus, selectedSource, searchTerm, sortField, sortDirection, inquiryTypes]);
+  }, [leads, selectedStatus, selectedSource, searchTerm, sortField, sortDirection, inquiryTypes, leadScores]);
 
   // Render sort icon
-  const renderSortIcon = useCallback((field: keyof SupabaseLead) => {
+  const renderSortIcon = useCallback((field: LeadSortField) => {
     if (sortField !== field) return null;
     return sortDirection === 'asc' ? 
       <ChevronUp className="h-4 w-4 ml-1" /> : 
@@ -365,7 +383,7 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
   }, [sortField, sortDirection]);
 
   // Column definition for sortable headers
-  const SortableHeader = useCallback(({ field, label, className }: { field: keyof SupabaseLead, label: string, className?: string }) => (
+  const SortableHeader = useCallback(({ field, label, className }: { field: LeadSortField, label: string, className?: string }) => (
     <th 
       className={cn(
         "px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider cursor-pointer hover:bg-secondary/50 transition-colors",
@@ -390,6 +408,7 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
           lead={lead}
           user={user}
           inquiryTypes={inquiryTypes}
+          score={leadScores.get(lead.id)}
           onViewLead={onViewLead}
           onEditLead={onEditLead}
           onDeleteLead={onDeleteLead}
@@ -397,7 +416,7 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
         />
       </div>
     );
-  }, [filteredAndSortedLeads, user, inquiryTypes, onViewLead, onEditLead, onDeleteLead, onStatusChange]);
+  }, [filteredAndSortedLeads, user, inquiryTypes, leadScores, onViewLead, onEditLead, onDeleteLead, onStatusChange]);
 
   return (
     <div className="bg-card rounded-lg shadow-sm md:shadow border border-border overflow-hidden mx-auto">
@@ -471,6 +490,7 @@ const VirtualizedLeadsTable: React.FC<VirtualizedLeadsTableProps> = memo(({
               <SortableHeader field="full_name" label="Name" className="px-3 sm:px-4 py-3 text-xs" />
               <SortableHeader field="phone_number" label="Contact" className="px-3 sm:px-4 py-3 text-xs hidden sm:table-cell" />
               <TableHead className="px-3 sm:px-4 py-3 text-left text-xs font-medium text-foreground/70 uppercase tracking-wider hidden md:table-cell">Inquiry Type</TableHead>
+              <SortableHeader field="score" label="Score" className="px-3 sm:px-4 py-3 text-xs hidden sm:table-cell" />
               <SortableHeader field="status" label="Status" className="px-3 sm:px-4 py-3 text-xs" />
               <SortableHeader field="created_at" label="Created" className="px-3 sm:px-4 py-3 text-xs hidden lg:table-cell" />
               <TableHead className="px-3 sm:px-4 py-3 text-right text-xs font-medium text-foreground/70 uppercase tracking-wider">Actions</TableHead>
@@ -107,6 +107,7 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
       },
     };
 
+    setPreferences(newPreferences);
     form.reset({
       email: newPreferences.notifications.email,
       leadAlerts: newPreferences.notifications.leadAlerts,
@@ -4,9 +4,15 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Moon, Sun, Monitor } from 'lucide-react';
 import { toast } from 'sonner';
 import { UserData } from '@/hooks/useAuthSession';
+import { CurrencyPreferenceService } from '@/services/currencyPreferenceService';
+import { CURRENCY_LABELS, SUPPORTED_CURRENCIES, isCurrencyCode, type CurrencyCode } from '@/utils/currency';
+
+// Select value for following the client's billing currency
+const CLIENT_CURRENCY = 'client';
 
 interface PreferencesProps {
   user: UserData & {
@@ -14,6 +20,7 @@ interface PreferencesProps {
       displaySettings?: {
         theme?: 'light' | 'dark' | 'system';
         dashboardLayout?: 'compact' | 'detailed';
+        currency?: CurrencyCode;
       };
       language?: string;
       timezone?: string;
@@ -28,6 +35,9 @@ export const Preferences: React.FC<PreferencesProps> = ({ user, onUserUpdate })
   const [localTheme, setLocalTheme] = useState<'light' | 'dark' | 'system'>(currentTheme);
   const [isLoading, setIsLoading] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const currentCurrency = user.preferences?.displaySettings?.currency;
+  const [localCurrency, setLocalCurrency] = useState<string>(isCurrencyCode(currentCurrency) ? currentCurrency : CLIENT_CURRENCY);
+  const [isSavingCurrency, setIsSavingCurrency] = useState(false);
   
   // Use next-themes hook for theme management
   const { setTheme: setNextTheme, theme: activeTheme } = useTheme();
@@ -69,6 +79,29 @@ export const Preferences: React.FC<PreferencesProps> = ({ user, onUserUpdate })
     }
   };
 
+  // Save the display currency; "client" clears it so the client's billing currency applies
+  const handleCurrencyChange = async (value: string) => {
+    const previous = localCurrency;
+    setLocalCurrency(value);
+    setIsSavingCurrency(true);
+
+    try {
+      const preferences = await CurrencyPreferenceService.saveUserDisplayCurrency(
+        user.id,
+        isCurrencyCode(value) ? value : null
+      );
+      onUserUpdate({ ...user, preferences });
+      setLastSyncTime(new Date());
+      toast.success('Display currency updated');
+    } catch (error) {
+      console.error('Error updating display currency:', error);
+      toast.error('Failed to update display currency');
+      setLocalCurrency(previous);
+    } finally {
+      setIsSavingCurrency(false);
+    }
+  };
+
   return (
     <Card className="rounded-lg overflow-hidden shadow-sm">
       <CardContent className="space-y-6 pt-6">
@@ -125,6 +158,26 @@ export const Preferences: React.FC<PreferencesProps> = ({ user, onUserUpdate })
               </RadioGroup>
             </div>
             
+            <div className="space-y-3">
+              <Label htmlFor="display-currency">Display Currency</Label>
+              <Select value={localCurrency} onValueChange={handleCurrencyChange} disabled={isSavingCurrency}>
+                <SelectTrigger id="display-currency" className="w-full md:w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CLIENT_CURRENCY}>Follow client billing currency</SelectItem>
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {CURRENCY_LABELS[currency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Financial figures are converted to this currency at the USD to CAD rate of the day they are for.
+              </p>
+            </div>
+
             {/* Language preference could be added here */}
             
             {/* Timezone preference could be added here */}
@@ -1,4 +1,4 @@
-import { BarChart3, Users, Building2, Activity, Server } from 'lucide-react';
+import { BarChart3, Users, Building2, Activity, Server, Wrench, Handshake } from 'lucide-react';
 
 export const analyticsNavItems = [
   { 
@@ -26,4 +26,14 @@ export const analyticsNavItems = [
     href: '/admin/analytics/system-ops', 
     icon: Server 
   },
+  { 
+    title: 'Tools', 
+    href: '/admin/analytics/tools', 
+    icon: Wrench 
+  },
+  { 
+    title: 'Partner Payouts', 
+    href: '/admin/analytics/partners', 
+    icon: Handshake 
+  },
 ];
\ No newline at end of file
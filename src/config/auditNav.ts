@@ -1,4 +1,4 @@
-import { FileText, User, Building2, Server } from 'lucide-react';
+import { FileText, User, Building2, Server, Send, ClipboardCheck } from 'lucide-react';
 
 export interface SubNavItem {
   title: string;
@@ -32,4 +32,16 @@ export const auditNavItems: SubNavItem[] = [
     icon: Server,
     description: 'View system-level logs and operations.',
   },
+  {
+    title: 'Lead Deliveries',
+    href: '/admin/audit/deliveries',
+    icon: Send,
+    description: 'Track lead deliveries to dealerships and resend failed ones.',
+  },
+  {
+    title: 'Review Queue',
+    href: '/admin/audit/reviews',
+    icon: ClipboardCheck,
+    description: 'Review calls flagged by the evaluation and record verdicts.',
+  },
 ];
\ No newline at end of file
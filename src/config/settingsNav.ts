@@ -1,4 +1,4 @@
-import { ShieldCheck, SlidersHorizontal } from 'lucide-react';
+import { ArrowLeftRight, ShieldCheck, SlidersHorizontal } from 'lucide-react';
 
 export interface SubNavItem {
   title: string;
@@ -20,4 +20,10 @@ export const settingsNavItems: SubNavItem[] = [
     icon: ShieldCheck,
     description: 'Control agent status and broadcast messages.',
   },
+  {
+    title: 'Exchange Rates',
+    href: '/admin/settings/exchange-rates',
+    icon: ArrowLeftRight,
+    description: 'Review USD to CAD rate history and override rates.',
+  },
 ];
@@ -5,6 +5,9 @@ export type CallType = 'all' | 'live' | 'test';
 interface CallTypeContextProps {
   selectedCallType: CallType;
   setSelectedCallType: (type: CallType) => void;
+  // Spam calls are left out of KPIs unless included
+  includeSpam: boolean;
+  setIncludeSpam: (include: boolean) => void;
 }
 
 const CallTypeContext = createContext<CallTypeContextProps | undefined>(undefined);
@@ -17,8 +20,9 @@ export const useCallType = () => {
 
 export const CallTypeProvider = ({ children }: { children: ReactNode }) => {
   const [selectedCallType, setSelectedCallType] = useState<CallType>('live');
+  const [includeSpam, setIncludeSpam] = useState(false);
   return (
-    <CallTypeContext.Provider value={{ selectedCallType, setSelectedCallType }}>
+    <CallTypeContext.Provider value={{ selectedCallType, setSelectedCallType, includeSpam, setIncludeSpam }}>
       {children}
     </CallTypeContext.Provider>
   );
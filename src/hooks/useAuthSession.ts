@@ -6,6 +6,7 @@ import { useNavigate } from "react-router-dom";
 import { clearAuthData } from "@/utils/authHelpers";
 import { logPlatformSession } from "@/services/platformAnalyticsService";
 import { collectPlatformInfo } from "@/utils/collectPlatformInfo";
+import type { CurrencyCode } from "@/utils/currency";
 
 export interface UserData {
   id: string;
@@ -29,6 +30,7 @@ export interface UserData {
     displaySettings: {
       theme: 'light' | 'dark' | 'system';
       dashboardLayout: 'compact' | 'detailed';
+      currency?: CurrencyCode; // Display currency, client billing currency when not set
     };
   };
 }
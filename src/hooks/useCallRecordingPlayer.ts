@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Playback speeds cycled through by the speed button
+const PLAYBACK_SPEEDS = [1.0, 1.25, 1.5, 1.75, 2.0];
+
+export interface CallRecordingPlayer {
+  audioElement: HTMLAudioElement | null;
+  isPlaying: boolean;
+  isMuted: boolean;
+  currentTime: number;
+  duration: number;
+  playbackSpeed: number;
+  togglePlayPause: () => void;
+  toggleMute: () => void;
+  cyclePlaybackSpeed: () => void;
+  seek: (time: number, autoPlay?: boolean) => void;
+  skip: (seconds: number) => void;
+}
+
+/**
+ * One audio player for a call recording, shared by the recording and transcript tabs
+ * so the transcript can follow and control playback
+ * @param recordingUrl The call's recording URL; pass null to stop and release the player
+ */
+export function useCallRecordingPlayer(recordingUrl: string | null | undefined): CallRecordingPlayer {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
+
+  // Initialize audio player when the recording changes
+  useEffect(() => {
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+
+    if (!recordingUrl) return;
+
+    const audio = new Audio(recordingUrl);
+
+    const handleLoadedMetadata = () => {
+      setDuration(audio.duration);
+    };
+
+    const handleTimeUpdate = () => {
+      setCurrentTime(audio.currentTime);
+    };
+
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+
+    const handleEnded = () => {
+      setIsPlaying(false);
+      setCurrentTime(0);
+      audio.currentTime = 0;
+    };
+
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('ended', handleEnded);
+
+    setAudioElement(audio);
+
+    return () => {
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('ended', handleEnded);
+      audio.pause();
+      setAudioElement(null);
+    };
+  }, [recordingUrl]);
+
+  // Keep the chosen speed across recordings
+  useEffect(() => {
+    if (audioElement) {
+      audioElement.playbackRate = playbackSpeed;
+    }
+  }, [audioElement, playbackSpeed]);
+
+  const play = useCallback((audio: HTMLAudioElement) => {
+    audio.play().catch(error => {
+      console.error('Failed to play recording:', error);
+      setIsPlaying(false);
+    });
+  }, []);
+
+  const togglePlayPause = useCallback(() => {
+    if (!audioElement) return;
+
+    if (audioElement.paused) {
+      play(audioElement);
+    } else {
+      audioElement.pause();
+    }
+  }, [audioElement, play]);
+
+  const toggleMute = useCallback(() => {
+    if (!audioElement) return;
+
+    audioElement.muted = !audioElement.muted;
+    setIsMuted(audioElement.muted);
+  }, [audioElement]);
+
+  const cyclePlaybackSpeed = useCallback(() => {
+    setPlaybackSpeed(current => {
+      const nextIndex = (PLAYBACK_SPEEDS.indexOf(current) + 1) % PLAYBACK_SPEEDS.length;
+      return PLAYBACK_SPEEDS[nextIndex];
+    });
+  }, []);
+
+  const seek = useCallback((time: number, autoPlay = false) => {
+    if (!audioElement) return;
+
+    const maxTime = isFinite(audioElement.duration) ? audioElement.duration : time;
+    const newTime = Math.min(Math.max(time, 0), maxTime);
+    audioElement.currentTime = newTime;
+    setCurrentTime(newTime);
+
+    if (autoPlay && audioElement.paused) {
+      play(audioElement);
+    }
+  }, [audioElement, play]);
+
+  const skip = useCallback((seconds: number) => {
+    if (!audioElement) return;
+    seek(audioElement.currentTime + seconds);
+  }, [audioElement, seek]);
+
+  return {
+    audioElement,
+    isPlaying,
+    isMuted,
+    currentTime,
+    duration,
+    playbackSpeed,
+    togglePlayPause,
+    toggleMute,
+    cyclePlaybackSpeed,
+    seek,
+    skip,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Custom hook for server-side call search
+ * Searches call summaries and transcripts as the user types, for the call logs
+ * and leads tables
+ *
+ * CRITICAL: Searches are limited to the user's client (and to their own calls by RLS)
+ */
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { callLogsService } from '@/integrations/supabase/call-logs-service';
+import { getClientIdFilter } from '@/utils/clientDataIsolation';
+import { isSearchableTerm } from '@/utils/callSearch';
+import type { CallSearchMatch } from '@/types/callSearch';
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface UseCallSearchReturn {
+  matches: Map<string, CallSearchMatch>; // Keyed by call ID
+  active: boolean;                       // A search term long enough to search with
+  searching: boolean;
+  error: Error | null;
+}
+
+/**
+ * Search calls for a term
+ * @param term Search text as typed
+ * @param clientId Client filter; defaults to the user's own client for client users
+ */
+export function useCallSearch(term: string, clientId?: string | null): UseCallSearchReturn {
+  const { user } = useAuth();
+  const [matches, setMatches] = useState<Map<string, CallSearchMatch>>(new Map());
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const scopeClientId = clientId || getClientIdFilter(user);
+  const active = isSearchableTerm(term);
+  const trimmedTerm = term.trim();
+
+  useEffect(() => {
+    if (!active) {
+      setMatches(new Map());
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const timeout = setTimeout(() => {
+      callLogsService.searchCalls(trimmedTerm, scopeClientId)
+        .then(result => {
+          if (cancelled) return;
+          setMatches(new Map(result.map(match => [match.call_id, match])));
+          setError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          console.error('Error searching calls:', err);
+          setMatches(new Map());
+          setError(err instanceof Error ? err : new Error('Unknown error searching calls'));
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [active, trimmedTerm, scopeClientId]);
+
+  return { matches, active, searching, error };
+}
@@ -0,0 +1,94 @@
+/**
+ * Custom hooks for lead callbacks: per-client timezones and in-app reminders
+ *
+ * Captured callback timing is scheduled by a database trigger and reminders
+ * for due callbacks are written by a scheduled job (send_due_callback_reminders),
+ * so useCallbackReminders only listens: reminders arrive as 'callback_reminder'
+ * rows on the notifications table, like every other realtime notification.
+ */
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/AuthContext';
+import { simpleRealtimeService as realtimeService, Subscription } from '@/services/simpleRealtimeService';
+import { LeadCallbackService } from '@/services/leadCallbackService';
+import { getClientIdFilter, hasSystemWideAccess } from '@/utils/clientDataIsolation';
+import { isCallbackReminderForUser } from '@/utils/callbackTiming';
+import type { Notification } from '@/hooks/useRealtimeNotifications';
+
+interface UseCallbackRemindersOptions {
+  enabled?: boolean;
+  enableNotifications?: boolean;
+  onReminder?: (notification: Notification) => void;
+}
+
+/**
+ * Show reminders for due callbacks to the staff they are meant for
+ *
+ * CRITICAL: Reminders are received with the user's client filter
+ */
+export function useCallbackReminders(options: UseCallbackRemindersOptions = {}): void {
+  const { enabled = true, enableNotifications = true, onReminder } = options;
+  const { user } = useAuth();
+  const clientIdFilter = user ? getClientIdFilter(user) : null;
+
+  // Keep latest callback in a ref so the subscription isn't recreated each render
+  const onReminderRef = useRef(onReminder);
+  useEffect(() => {
+    onReminderRef.current = onReminder;
+  }, [onReminder]);
+
+  // Listen for reminders written by the scheduled job
+  useEffect(() => {
+    if (!enabled || !user) return;
+
+    const systemWide = hasSystemWideAccess(user);
+    const subscription: Subscription = realtimeService.subscribeToNotifications(
+      clientIdFilter,
+      (notification: Notification) => {
+        if (notification.type !== 'callback_reminder') return;
+        if (!isCallbackReminderForUser(notification, user, systemWide)) return;
+
+        onReminderRef.current?.(notification);
+
+        if (enableNotifications) {
+          toast.warning(notification.title || 'Callback due', {
+            description: notification.body || undefined,
+            duration: 15000,
+          });
+        }
+      }
+    );
+
+    return () => subscription.unsubscribe();
+  }, [enabled, enableNotifications, user, clientIdFilter]);
+}
+
+/**
+ * Timezone of each client in a list of leads (clients without one use Eastern time)
+ */
+export function useClientTimezones(clientIds: string[]): Map<string, string> {
+  const [timezones, setTimezones] = useState<Map<string, string>>(new Map());
+  const key = [...new Set(clientIds)].sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setTimezones(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    LeadCallbackService.getClientTimezones(key.split(','))
+      .then(value => {
+        if (!cancelled) setTimezones(value);
+      })
+      .catch(err => {
+        console.error('Error loading client timezones:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return timezones;
+}
@@ -0,0 +1,116 @@
+/**
+ * Custom hooks for caller history
+ * Loads a caller's profile, and searches callers as the user types
+ *
+ * CRITICAL: Searches are limited to the user's client for client users
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { CallerHistoryService } from '@/services/callerHistoryService';
+import { getClientIdFilter } from '@/utils/clientDataIsolation';
+import { readCallerSearchTerm } from '@/utils/callerHistory';
+import type { CallerHistory, CallerSearchResult } from '@/types/callerHistory';
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface UseCallerHistoryReturn {
+  history: CallerHistory | null;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Load the history of a caller within a client
+ * @param phone Caller's phone number in any format; nothing loads without it
+ */
+export function useCallerHistory(phone: string | null | undefined, clientId: string | null | undefined): UseCallerHistoryReturn {
+  const [history, setHistory] = useState<CallerHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!phone || !clientId) {
+      setHistory(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setHistory(await CallerHistoryService.getCallerHistory(phone, clientId));
+    } catch (err) {
+      console.error('Error fetching caller history:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error fetching caller history'));
+    } finally {
+      setLoading(false);
+    }
+  }, [phone, clientId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { history, loading, error, refetch: fetchHistory };
+}
+
+interface UseCallerSearchReturn {
+  results: CallerSearchResult[];
+  active: boolean; // A search term long enough to search with
+  searching: boolean;
+  error: Error | null;
+}
+
+/**
+ * Search callers by phone number or name
+ * @param term Search text as typed
+ * @param clientId Client filter; defaults to the user's own client for client users
+ */
+export function useCallerSearch(term: string, clientId?: string | null): UseCallerSearchReturn {
+  const { user } = useAuth();
+  const [results, setResults] = useState<CallerSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const scopeClientId = clientId || getClientIdFilter(user);
+  const trimmedTerm = term.trim();
+  const active = readCallerSearchTerm(trimmedTerm) !== null;
+
+  useEffect(() => {
+    if (!active) {
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const timeout = setTimeout(() => {
+      CallerHistoryService.searchCallers(trimmedTerm, scopeClientId)
+        .then(found => {
+          if (cancelled) return;
+          setResults(found);
+          setError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          console.error('Error searching callers:', err);
+          setResults([]);
+          setError(err instanceof Error ? err : new Error('Unknown error searching callers'));
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [active, trimmedTerm, scopeClientId]);
+
+  return { results, active, searching, error };
+}
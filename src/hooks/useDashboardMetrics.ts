@@ -8,7 +8,7 @@ import { CallType } from '@/context/CallTypeContext';
 const metricsCache = new Map<string, { data: DashboardMetrics; timestamp: number }>();
 const CACHE_DURATION = 2 * 60 * 1000; // 2 minutes
 
-export const useDashboardMetrics = (clientId?: string, callType: CallType = 'live') => {
+export const useDashboardMetrics = (clientId?: string, callType: CallType = 'live', includeSpam = false) => {
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
@@ -27,7 +27,7 @@ export const useDashboardMetrics = (clientId?: string, callType: CallType = 'liv
         (user.role === 'admin' || user.role === 'owner')
       );
       const effectiveClientId = isAdminUser ? clientId : (user?.client_id || null);
-      const cacheKey = `${user.id}_${effectiveClientId || 'null'}_${user.role}_${callType}`;
+      const cacheKey = `${user.id}_${effectiveClientId || 'null'}_${user.role}_${callType}_${includeSpam ? 'spam' : 'no_spam'}`;
       
       // Prevent duplicate calls
       if (lastFetchRef.current === cacheKey) {
@@ -52,7 +52,7 @@ export const useDashboardMetrics = (clientId?: string, callType: CallType = 'liv
         console.log('Dashboard Metrics - User Role:', user?.role, 'Client ID:', user?.client_id, 'Is Admin:', isAdminUser, 'Passed Client ID:', clientId, 'Effective Client ID:', effectiveClientId, 'Call Type:', callType);
         
         // Fetch real metrics from database
-        const dashboardMetrics = await DashboardService.getDashboardMetrics(effectiveClientId, callType);
+        const dashboardMetrics = await DashboardService.getDashboardMetrics(effectiveClientId, callType, includeSpam);
         
         console.log('Fetched metrics:', dashboardMetrics);
         
@@ -82,7 +82,7 @@ export const useDashboardMetrics = (clientId?: string, callType: CallType = 'liv
       setIsLoading(false);
     }
     
-  }, [user?.id, user?.role, user?.client_id, clientId, callType, isAuthLoading]); // Only depend on specific user properties, not the whole user object
+  }, [user?.id, user?.role, user?.client_id, clientId, callType, includeSpam, isAuthLoading]); // Only depend on specific user properties, not the whole user object
 
   return { metrics, isLoading, error };
 };
@@ -0,0 +1,75 @@
+/**
+ * Custom hook for the signed-in user's display currency
+ * Users see amounts in their own display currency, otherwise in their client's
+ * billing currency, otherwise in CAD. Amounts are converted at the USD to CAD
+ * rate of the day they are for.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { CurrencyPreferenceService } from '@/services/currencyPreferenceService';
+import type { AppliedExchangeRate } from '@/types/exchangeRate';
+import { convertCurrency, formatCurrency, isCurrencyCode, resolveDisplayCurrency, type CurrencyCode } from '@/utils/currency';
+import { useUsdToCadRate } from './useExchangeRate';
+
+interface UseDisplayCurrencyReturn {
+  currency: CurrencyCode;
+  exchangeRate: AppliedExchangeRate | null; // Rate amounts are converted at
+  ready: boolean; // False while the currency or rate is loading
+  convert: (amount: number, from: CurrencyCode) => number | null; // null until ready
+  format: (amount: number, from: CurrencyCode, decimals?: number) => string;
+}
+
+/**
+ * Convert and format amounts in the user's display currency
+ * @param date Day whose rate to convert at, today by default
+ */
+export function useDisplayCurrency(date?: Date | string): UseDisplayCurrencyReturn {
+  const { user } = useAuth();
+  const userCurrency = user?.preferences?.displaySettings?.currency;
+  const followsClient = !isCurrencyCode(userCurrency) && Boolean(user?.client_id);
+
+  const [clientCurrency, setClientCurrency] = useState<CurrencyCode | null>(null);
+  const [clientCurrencyLoaded, setClientCurrencyLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!followsClient || !user?.client_id) {
+      setClientCurrency(null);
+      setClientCurrencyLoaded(true);
+      return;
+    }
+
+    let cancelled = false;
+    setClientCurrencyLoaded(false);
+    CurrencyPreferenceService.getClientBillingCurrency(user.client_id)
+      .then((currency) => {
+        if (!cancelled) setClientCurrency(currency);
+      })
+      .catch((err) => {
+        console.error('Error loading client billing currency:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setClientCurrencyLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [followsClient, user?.client_id]);
+
+  const currency = resolveDisplayCurrency(userCurrency, clientCurrency);
+  const exchangeRate = useUsdToCadRate(date);
+  const ready = clientCurrencyLoaded && exchangeRate !== null;
+
+  const convert = useCallback((amount: number, from: CurrencyCode): number | null => {
+    if (!clientCurrencyLoaded) return null;
+    if (from === currency) return amount;
+    return exchangeRate ? convertCurrency(amount, from, currency, exchangeRate.rate) : null;
+  }, [clientCurrencyLoaded, currency, exchangeRate]);
+
+  const format = useCallback((amount: number, from: CurrencyCode, decimals: number = 2): string => {
+    const converted = convert(amount, from);
+    return converted === null ? '…' : formatCurrency(converted, currency, decimals);
+  }, [convert, currency]);
+
+  return { currency, exchangeRate, ready, convert, format };
+}
@@ -0,0 +1,37 @@
+/**
+ * Custom hook for the USD to CAD rate of a day
+ * Rates are cached by exchangeRateService, so many components can ask for the
+ * same day without extra queries
+ */
+import { useEffect, useState } from 'react';
+import { exchangeRateService } from '@/services/exchangeRateService';
+import type { AppliedExchangeRate } from '@/types/exchangeRate';
+import { toRateDate } from '@/utils/exchangeRates';
+
+/**
+ * Load the USD to CAD rate of a day
+ * @param date Any time on the day, today by default; nothing loads while it is null
+ * @returns The applied rate, or null while it loads
+ */
+export function useUsdToCadRate(date?: Date | string | null): AppliedExchangeRate | null {
+  const rateDate = date === null ? null : toRateDate(date ?? new Date());
+  const [rate, setRate] = useState<AppliedExchangeRate | null>(null);
+
+  useEffect(() => {
+    if (!rateDate) {
+      setRate(null);
+      return;
+    }
+
+    let cancelled = false;
+    exchangeRateService.getAppliedUsdToCadRate(rateDate).then((applied) => {
+      if (!cancelled) setRate(applied);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rateDate]);
+
+  return rate;
+}
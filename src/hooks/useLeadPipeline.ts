@@ -0,0 +1,108 @@
+/**
+ * Custom hooks for a client's lead pipeline stages and stage analytics
+ * Fall back to the default stages while loading, on error and when no client is selected
+ */
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { LeadPipelineService } from '@/services/leadPipelineService';
+import { leadService, Lead } from '@/integrations/supabase/lead-service';
+import { DEFAULT_PIPELINE_STAGES, computeStageConversions, computeStageDurations } from '@/utils/leadPipeline';
+import type {
+  LeadPipelineStage,
+  LeadStageChange,
+  LeadStageConversion,
+  LeadStageDuration,
+} from '@/types/leadPipeline';
+
+interface UseLeadPipelineReturn {
+  stages: LeadPipelineStage[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * @param clientId The client whose pipeline to load (null/undefined for the default pipeline)
+ */
+export function useLeadPipeline(clientId: string | null | undefined): UseLeadPipelineReturn {
+  const [stages, setStages] = useState<LeadPipelineStage[]>(DEFAULT_PIPELINE_STAGES);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchStages = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await LeadPipelineService.getPipelineStages(clientId);
+      setStages(data);
+    } catch (err) {
+      console.error('Error loading lead pipeline:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error loading lead pipeline'));
+      setStages(DEFAULT_PIPELINE_STAGES);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchStages();
+  }, [fetchStages]);
+
+  return { stages, loading, error, refetch: fetchStages };
+}
+
+interface UseLeadPipelineAnalyticsReturn {
+  stages: LeadPipelineStage[];
+  conversions: LeadStageConversion[];
+  durations: LeadStageDuration[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Stage-to-stage conversion and time-in-stage for a client's leads
+ * Built from the leads table and the status changes on the lead activity timeline
+ *
+ * CRITICAL: clientId must be the user's client filter for client-restricted users
+ */
+export function useLeadPipelineAnalytics(clientId: string | null | undefined): UseLeadPipelineAnalyticsReturn {
+  const { stages, loading: stagesLoading } = useLeadPipeline(clientId);
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [changes, setChanges] = useState<LeadStageChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [leadData, changeData] = await Promise.all([
+        leadService.getLeads(clientId ? { clientId } : undefined),
+        LeadPipelineService.getStageChanges(clientId ?? null),
+      ]);
+      setLeads(leadData);
+      setChanges(changeData);
+    } catch (err) {
+      console.error('Error loading lead pipeline analytics:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error loading lead pipeline analytics'));
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const conversions = useMemo(() => computeStageConversions(stages, leads, changes), [stages, leads, changes]);
+  const durations = useMemo(() => computeStageDurations(stages, leads, changes), [stages, leads, changes]);
+
+  return {
+    stages,
+    conversions,
+    durations,
+    loading: loading || stagesLoading,
+    error,
+    refetch: fetchData,
+  };
+}
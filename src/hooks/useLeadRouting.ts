@@ -0,0 +1,84 @@
+/**
+ * Custom hooks for lead assignment: the staff leads can be assigned to,
+ * the client's routing rules and the current user's open lead count
+ * Fall back to manual routing while loading, on error and when no client is selected
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { LeadAssignmentService } from '@/services/leadAssignmentService';
+import { DEFAULT_ROUTING_CONFIG } from '@/utils/leadRouting';
+import type { LeadAssignee, LeadRoutingConfig } from '@/types/leadRouting';
+
+interface UseLeadRoutingReturn {
+  assignees: LeadAssignee[];
+  routing: LeadRoutingConfig;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * @param clientId The client whose staff and rules to load (null for admins viewing all clients)
+ *
+ * CRITICAL: clientId must be the user's client filter for client-restricted users
+ */
+export function useLeadRouting(clientId: string | null | undefined): UseLeadRoutingReturn {
+  const [assignees, setAssignees] = useState<LeadAssignee[]>([]);
+  const [routing, setRouting] = useState<LeadRoutingConfig>(DEFAULT_ROUTING_CONFIG);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchRouting = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [assigneeData, routingData] = await Promise.all([
+        LeadAssignmentService.getAssignees(clientId ?? null),
+        LeadAssignmentService.getRoutingConfig(clientId),
+      ]);
+      setAssignees(assigneeData);
+      setRouting(routingData);
+    } catch (err) {
+      console.error('Error loading lead routing:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error loading lead routing'));
+      setRouting(DEFAULT_ROUTING_CONFIG);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchRouting();
+  }, [fetchRouting]);
+
+  return { assignees, routing, loading, error, refetch: fetchRouting };
+}
+
+/**
+ * Number of open leads assigned to a user (undefined until loaded or when there is no user)
+ */
+export function useMyOpenLeadCount(userId: string | null | undefined, clientId: string | null | undefined): number | undefined {
+  const [count, setCount] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!userId) {
+      setCount(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    LeadAssignmentService.getOpenAssignedLeadCount(userId, clientId ?? null)
+      .then(value => {
+        if (!cancelled) setCount(value);
+      })
+      .catch(err => {
+        console.error('Error loading open lead count:', err);
+        if (!cancelled) setCount(undefined);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, clientId]);
+
+  return count;
+}
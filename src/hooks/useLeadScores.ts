@@ -0,0 +1,78 @@
+/**
+ * Hooks for lead scores
+ * Scores are computed from each lead's call evaluation and call intelligence
+ * with the lead's own client's weights
+ */
+import { useEffect, useState } from 'react';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadScore } from '@/types/leadScoring';
+import { LeadScoringService, type ScoredLead } from '@/services/leadScoringService';
+
+/**
+ * Scores for a list of leads, keyed by lead ID
+ * Leads without evaluation or call intelligence data have no entry
+ */
+export function useLeadScores(leads: Lead[]): Map<string, LeadScore> {
+  const [scores, setScores] = useState<Map<string, LeadScore>>(new Map());
+
+  useEffect(() => {
+    if (leads.length === 0) {
+      setScores(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    LeadScoringService.scoreLeads(leads)
+      .then(result => {
+        if (!cancelled) setScores(result);
+      })
+      .catch(err => {
+        console.error('Error scoring leads:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [leads]);
+
+  return scores;
+}
+
+/**
+ * The highest scoring open leads of the last 30 days
+ * @param clientId Client filter (null for admins viewing all clients)
+ */
+export function useHotLeads(clientId: string | null, limit = 5): {
+  hotLeads: ScoredLead[];
+  loading: boolean;
+  error: Error | null;
+} {
+  const [hotLeads, setHotLeads] = useState<ScoredLead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    LeadScoringService.getHotLeads(clientId, limit)
+      .then(result => {
+        if (cancelled) return;
+        setHotLeads(result);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading hot leads:', err);
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, limit]);
+
+  return { hotLeads, loading, error };
+}
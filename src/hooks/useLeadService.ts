@@ -8,6 +8,10 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { leadService, Lead, LeadFilters } from '@/integrations/supabase/lead-service';
 import { useAuth } from '@/context/AuthContext';
 import { getClientIdFilter, canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { getLeadChanges } from '@/utils/leadEditing';
+import { LeadMergeUpdates } from '@/utils/leadDuplicates';
+import { AuditService } from '@/services/auditService';
+import type { LeadAssignee, LeadRoutingMode } from '@/types/leadRouting';
 
 interface ExportOptions {
   includeNotes?: boolean;
@@ -28,8 +32,15 @@ interface UseLeadServiceReturn {
   updateLeadStatus: (id: string, status: Lead['status']) => Promise<Lead>;
   addLeadNote: (id: string, note: string) => Promise<Lead>;
   deleteLead: (id: string) => Promise<void>;
+  mergeLeads: (primary: Lead, duplicates: Lead[], updates: LeadMergeUpdates) => Promise<Lead>;
+  assignLead: (lead: Lead, assignee: LeadAssignee | null, rule?: LeadRoutingMode) => Promise<Lead>;
+  autoAssignLeads: (plan: Map<string, string>, assignees: LeadAssignee[], rule: LeadRoutingMode) => Promise<number>;
+  rescheduleCallback: (lead: Lead, scheduledAt: Date | null, timeZone: string) => Promise<Lead>;
+  completeCallback: (lead: Lead) => Promise<Lead>;
   exportLeadsToCSV: (options?: ExportOptions) => Promise<string>;
   exportLeadsToExcel: (options?: ExportOptions) => Promise<Blob>;
+  exportLeadsToAdf: (options?: ExportOptions) => Promise<string>;
+  exportLeadToAdf: (lead: Lead) => Promise<string>;
 }
 
 /**
@@ -122,22 +133,59 @@ export function useLeadService(
   }, [fetchLeads, user]);
   
   // Update an existing lead
+  // Applies the change optimistically, rolls back on failure and writes an audit entry
   const updateLead = useCallback(async (id: string, lead: Partial<Lead>) => {
+    const previousLeads = leads;
+    const existingLead = leads.find(l => l.id === id);
+    const { lead_status: nextStatus, ...fieldUpdates } = lead;
+    const statusChanged = nextStatus !== undefined &&
+      nextStatus.toLowerCase() !== (existingLead?.lead_status ?? existingLead?.status ?? '').toLowerCase();
+
+    setLeads(current => current.map(l => l.id === id
+      ? { ...l, ...lead, ...(nextStatus !== undefined ? { status: nextStatus } : {}) }
+      : l
+    ));
+
     try {
-      const updatedLead = await leadService.updateLead(id, lead);
-      // Refresh the list after updating
-      fetchLeads();
-      return updatedLead;
+      // Status changes go through updateLeadStatus so they land on the activity timeline;
+      // other edits are saved in the same write, so a failure leaves nothing half saved
+      const savedLead = statusChanged
+        ? await leadService.updateLeadStatus(id, nextStatus, user?.id, fieldUpdates)
+        : await leadService.updateLead(id, lead);
+
+      setLeads(current => current.map(l => l.id === id
+        ? { ...l, ...savedLead, status: savedLead.lead_status }
+        : l
+      ));
+
+      if (existingLead) {
+        const { oldValues, newValues } = getLeadChanges(existingLead, lead);
+        if (Object.keys(newValues).length > 0) {
+          await AuditService.logLeadAction(user?.id ?? null, 'update', id, oldValues, newValues, existingLead.client_id);
+        }
+      }
+
+      return { ...existingLead, ...savedLead, status: savedLead.lead_status };
     } catch (err) {
       console.error('Error updating lead:', err);
+      setLeads(previousLeads);
       throw err;
     }
-  }, [fetchLeads]);
+  }, [leads, user]);
   
   // Update lead status
   const updateLeadStatus = useCallback(async (id: string, status: Lead['status']) => {
     try {
-      const updatedLead = await leadService.updateLeadStatus(id, status);
+      const existingLead = leads.find(l => l.id === id);
+      const updatedLead = await leadService.updateLeadStatus(id, status, user?.id);
+      await AuditService.logLeadAction(
+        user?.id ?? null,
+        'update',
+        id,
+        { lead_status: existingLead?.lead_status ?? null },
+        { lead_status: updatedLead.lead_status },
+        updatedLead.client_id
+      );
       // Refresh the list after updating
       fetchLeads();
       return updatedLead;
@@ -145,20 +193,18 @@ export function useLeadService(
       console.error('Error updating lead status:', err);
       throw err;
     }
-  }, [fetchLeads]);
+  }, [fetchLeads, leads, user]);
   
   // Add a note to a lead
   const addLeadNote = useCallback(async (id: string, note: string) => {
     try {
-      const updatedLead = await leadService.addLeadNote(id, note);
-      // Refresh the list after updating
-      fetchLeads();
+      const updatedLead = await leadService.addLeadNote(id, note, user?.id);
       return updatedLead;
     } catch (err) {
       console.error('Error adding lead note:', err);
       throw err;
     }
-  }, [fetchLeads]);
+  }, [user]);
   
   // Delete a lead
   const deleteLead = useCallback(async (id: string) => {
@@ -172,6 +218,174 @@ export function useLeadService(
     }
   }, [fetchLeads]);
   
+  // Merge duplicate leads into a primary lead and record the merge in the audit log
+  const mergeLeads = useCallback(async (primary: Lead, duplicates: Lead[], updates: LeadMergeUpdates) => {
+    try {
+      const mergedLead = await leadService.mergeLeads(primary.id, duplicates.map(lead => lead.id), updates);
+      
+      // Snapshot every lead's values so the merge can be reviewed or undone by hand
+      const snapshot = (lead: Lead) => ({
+        id: lead.id,
+        call_id: lead.call_id,
+        full_name: lead.full_name,
+        phone_number: lead.phone_number,
+        email: lead.email,
+        notes: lead.notes ?? null,
+        custom_lead_data: lead.custom_lead_data ?? null,
+      });
+      await AuditService.logLeadAction(
+        user?.id ?? null,
+        'update',
+        primary.id,
+        { ...snapshot(primary), duplicate_leads: duplicates.map(snapshot) },
+        { ...updates, merged_lead_ids: duplicates.map(lead => lead.id), merged_call_ids: duplicates.map(lead => lead.call_id) },
+        primary.client_id,
+        `Merged ${duplicates.length} duplicate lead(s)`
+      );
+      
+      // Refresh the list after merging
+      fetchLeads();
+      return mergedLead;
+    } catch (err) {
+      console.error('Error merging leads:', err);
+      throw err;
+    }
+  }, [fetchLeads, user]);
+  
+  // Assign a lead to a staff member (null to unassign)
+  // Applies the change optimistically, rolls back on failure and writes an audit entry
+  const assignLead = useCallback(async (lead: Lead, assignee: LeadAssignee | null, rule: LeadRoutingMode = 'manual') => {
+    const previousAssigneeId = lead.assigned_to ?? null;
+
+    setLeads(current => current.map(l => l.id === lead.id
+      ? { ...l, assigned_to: assignee?.id ?? null, assigned_at: assignee ? new Date().toISOString() : null }
+      : l
+    ));
+
+    try {
+      const updatedLead = await leadService.assignLead(lead.id, assignee, {
+        actorId: user?.id,
+        rule,
+        previousAssigneeId
+      });
+
+      setLeads(current => current.map(l => l.id === lead.id ? { ...l, ...updatedLead } : l));
+
+      await AuditService.logLeadAction(
+        user?.id ?? null,
+        'update',
+        lead.id,
+        { assigned_to: previousAssigneeId },
+        { assigned_to: updatedLead.assigned_to ?? null },
+        lead.client_id,
+        rule === 'manual' ? undefined : `Auto-assigned (${rule})`
+      );
+
+      return { ...lead, ...updatedLead };
+    } catch (err) {
+      console.error('Error assigning lead:', err);
+      setLeads(current => current.map(l => l.id === lead.id
+        ? { ...l, assigned_to: lead.assigned_to, assigned_at: lead.assigned_at }
+        : l
+      ));
+      throw err;
+    }
+  }, [user]);
+
+  // Apply planned routing assignments (lead id -> assignee id) one lead at a time
+  // Returns how many leads were assigned; a failed lead doesn't stop the rest
+  const autoAssignLeads = useCallback(async (plan: Map<string, string>, assignees: LeadAssignee[], rule: LeadRoutingMode) => {
+    let assigned = 0;
+
+    for (const [leadId, assigneeId] of plan) {
+      const lead = leads.find(l => l.id === leadId);
+      const assignee = assignees.find(a => a.id === assigneeId);
+      if (!lead || !assignee) continue;
+
+      try {
+        await assignLead(lead, assignee, rule);
+        assigned++;
+      } catch (err) {
+        console.error(`Error auto-assigning lead ${leadId}:`, err);
+      }
+    }
+
+    return assigned;
+  }, [assignLead, leads]);
+
+  // Schedule, move or clear (null) a lead's callback by hand
+  // Applies the change optimistically, rolls back on failure and writes an audit entry
+  const rescheduleCallback = useCallback(async (lead: Lead, scheduledAt: Date | null, timeZone: string) => {
+    const callbackFields = ({ callback_scheduled_at, callback_schedule_source, callback_completed_at, callback_reminder_sent_at }: Lead) =>
+      ({ callback_scheduled_at, callback_schedule_source, callback_completed_at, callback_reminder_sent_at });
+    const previousFields = callbackFields(lead);
+
+    setLeads(current => current.map(l => l.id === lead.id
+      ? {
+          ...l,
+          callback_scheduled_at: scheduledAt ? scheduledAt.toISOString() : null,
+          callback_schedule_source: scheduledAt ? 'manual' : null,
+          callback_completed_at: null,
+          callback_reminder_sent_at: null
+        }
+      : l
+    ));
+
+    try {
+      const updatedLead = await leadService.rescheduleCallback(lead.id, scheduledAt, {
+        actorId: user?.id,
+        timeZone,
+        source: 'manual'
+      });
+
+      setLeads(current => current.map(l => l.id === lead.id ? { ...l, ...updatedLead } : l));
+
+      await AuditService.logLeadAction(
+        user?.id ?? null,
+        'update',
+        lead.id,
+        { callback_scheduled_at: previousFields.callback_scheduled_at ?? null },
+        { callback_scheduled_at: updatedLead.callback_scheduled_at ?? null },
+        lead.client_id,
+        scheduledAt ? 'Callback rescheduled' : 'Callback cleared'
+      );
+
+      return { ...lead, ...updatedLead };
+    } catch (err) {
+      console.error('Error rescheduling callback:', err);
+      setLeads(current => current.map(l => l.id === lead.id ? { ...l, ...previousFields } : l));
+      throw err;
+    }
+  }, [user]);
+
+  // Mark a lead's callback as done (optimistic, audited)
+  const completeCallback = useCallback(async (lead: Lead) => {
+    const completedAt = new Date().toISOString();
+    setLeads(current => current.map(l => l.id === lead.id ? { ...l, callback_completed_at: completedAt } : l));
+
+    try {
+      const updatedLead = await leadService.completeCallback(lead.id, user?.id);
+
+      setLeads(current => current.map(l => l.id === lead.id ? { ...l, ...updatedLead } : l));
+
+      await AuditService.logLeadAction(
+        user?.id ?? null,
+        'update',
+        lead.id,
+        { callback_completed_at: null },
+        { callback_completed_at: updatedLead.callback_completed_at ?? completedAt },
+        lead.client_id,
+        'Callback completed'
+      );
+
+      return { ...lead, ...updatedLead };
+    } catch (err) {
+      console.error('Error completing callback:', err);
+      setLeads(current => current.map(l => l.id === lead.id ? { ...l, callback_completed_at: lead.callback_completed_at } : l));
+      throw err;
+    }
+  }, [user]);
+  
   // Export leads to CSV
   const exportLeadsToCSV = useCallback(async (options?: {
     includeNotes?: boolean;
@@ -222,9 +436,11 @@ export function useLeadService(
       };
       
       // If user is not an admin, force includeClientId to false for privacy
+      // and leave out internal-only columns (AI confidence, per-client breakdown)
       const exportOptions = {
         ...options,
-        includeClientId: isAdmin ? options?.includeClientId : false
+        includeClientId: isAdmin ? options?.includeClientId : false,
+        includeSensitiveInfo: isAdmin
       };
       
       return await leadService.exportLeadsToExcel(filtersToUse, exportOptions);
@@ -234,6 +450,35 @@ export function useLeadService(
     }
   }, [filters, clientIdFilter, isAdmin]);
 
+  // Export leads to ADF/XML for dealership CRMs
+  const exportLeadsToAdf = useCallback(async (options?: ExportOptions) => {
+    try {
+      // Get client ID filter based on user role
+      const clientIdFilter = getClientIdFilter(user);
+      
+      // Merge filters with client ID filter for data isolation
+      const filtersToUse: LeadFilters = {
+        ...(filters || {}),
+        ...(clientIdFilter && !filters?.clientId ? { clientId: clientIdFilter } : {})
+      };
+      
+      return await leadService.exportLeadsToAdf(filtersToUse, { includeNotes: options?.includeNotes });
+    } catch (err) {
+      console.error('Error exporting leads to ADF:', err);
+      throw err;
+    }
+  }, [filters, user]);
+  
+  // Export a single lead to ADF/XML
+  const exportLeadToAdf = useCallback(async (lead: Lead) => {
+    try {
+      return await leadService.exportLeadToAdf(lead);
+    } catch (err) {
+      console.error('Error exporting lead to ADF:', err);
+      throw err;
+    }
+  }, []);
+
   // Initial fetch on component mount
   useEffect(() => {
     if (autoLoad) {
@@ -253,7 +498,14 @@ export function useLeadService(
     updateLeadStatus,
     addLeadNote,
     deleteLead,
+    mergeLeads,
+    assignLead,
+    autoAssignLeads,
+    rescheduleCallback,
+    completeCallback,
     exportLeadsToCSV,
-    exportLeadsToExcel
+    exportLeadsToExcel,
+    exportLeadsToAdf,
+    exportLeadToAdf
   };
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * Custom hook for paged call logs
+ * Search, sort and filters (including the advanced evaluation filters) run on the server and
+ * pages are loaded with a cursor, so totals cover every matching call
+ *
+ * CRITICAL: This hook enforces client data isolation for compliance and privacy
+ */
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { callLogsService, CallLog, CallLogFilters } from '@/integrations/supabase/call-logs-service';
+import { useAuth } from '@/context/AuthContext';
+import { getClientIdFilter } from '@/utils/clientDataIsolation';
+
+interface UsePaginatedCallLogsReturn {
+  callLogs: CallLog[];
+  total: number | null;
+  hasMore: boolean;
+  loading: boolean;
+  loadingMore: boolean;
+  error: Error | null;
+  refetch: (filters?: CallLogFilters) => Promise<void>;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Hook for loading call logs a page at a time
+ * @param initialFilters Filters for the first load
+ */
+export function usePaginatedCallLogs(initialFilters: CallLogFilters = {}): UsePaginatedCallLogsReturn {
+  const { user } = useAuth();
+  const [callLogs, setCallLogs] = useState<CallLog[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const filtersRef = useRef<CallLogFilters>(initialFilters);
+  // Ignore responses to requests made before the filters last changed
+  const requestRef = useRef(0);
+
+  // Memoize the client ID filter to prevent infinite render loops
+  const clientIdFilter = useMemo(() => getClientIdFilter(user), [user]);
+
+  // Merge filters with client ID filter for data isolation
+  const withClientFilter = useCallback((filters: CallLogFilters): CallLogFilters => ({
+    ...filters,
+    ...(clientIdFilter && !filters.clientId ? { clientId: clientIdFilter } : {})
+  }), [clientIdFilter]);
+
+  const refetch = useCallback(async (newFilters?: CallLogFilters) => {
+    if (newFilters) {
+      filtersRef.current = newFilters;
+    }
+    const request = ++requestRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await callLogsService.getCallLogsPage(withClientFilter(filtersRef.current));
+      if (request !== requestRef.current) return;
+
+      setCallLogs(page.calls);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Error in usePaginatedCallLogs hook:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error fetching call logs'));
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [withClientFilter]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+
+    try {
+      setLoadingMore(true);
+      const page = await callLogsService.getCallLogsPage(withClientFilter(filtersRef.current), nextCursor);
+      if (request !== requestRef.current) return;
+
+      setCallLogs(current => [...current, ...page.calls]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Error loading more call logs:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error fetching call logs'));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, withClientFilter]);
+
+  // Initial fetch, and again when the user's client filter changes
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    callLogs,
+    total,
+    hasMore: nextCursor !== null,
+    loading,
+    loadingMore,
+    error,
+    refetch,
+    loadMore
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Custom hook for saved views: the user's own views for a page and the views
+ * shared with the selected client
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { SavedViewService } from '@/services/savedViewService';
+import { sortSavedViews } from '@/utils/savedViews';
+import type { SavedView, SavedViewInput, SavedViewPage } from '@/types/savedView';
+
+interface UseSavedViewsReturn {
+  views: SavedView[];
+  loading: boolean;
+  error: Error | null;
+  saveView: (input: Omit<SavedViewInput, 'page'>) => Promise<SavedView>;
+  deleteView: (viewId: string) => Promise<void>;
+}
+
+/**
+ * @param page The page the views are for
+ * @param clientId The client whose shared views to include (null for admins viewing all clients)
+ *
+ * CRITICAL: clientId must be the user's client filter for client-restricted users
+ */
+export function useSavedViews(page: SavedViewPage, clientId: string | null | undefined): UseSavedViewsReturn {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchViews = useCallback(async () => {
+    if (!userId) {
+      setViews([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SavedViewService.getViews(page, userId, clientId ?? null);
+      setViews(sortSavedViews(data, userId));
+    } catch (err) {
+      console.error('Error loading saved views:', err);
+      setError(err instanceof Error ? err : new Error('Unknown error loading saved views'));
+    } finally {
+      setLoading(false);
+    }
+  }, [page, userId, clientId]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  const saveView = useCallback(async (input: Omit<SavedViewInput, 'page'>) => {
+    if (!userId) {
+      throw new Error('Failed to save view: not signed in');
+    }
+    const saved = await SavedViewService.saveView(userId, { ...input, page });
+    setViews(current => sortSavedViews([...current.filter(view => view.id !== saved.id), saved], userId));
+    return saved;
+  }, [page, userId]);
+
+  const deleteView = useCallback(async (viewId: string) => {
+    await SavedViewService.deleteView(viewId);
+    setViews(current => current.filter(view => view.id !== viewId));
+  }, []);
+
+  return { views, loading, error, saveView, deleteView };
+}
@@ -5,6 +5,17 @@
  */
 import { supabase } from './client';
 import type { Database } from './types';
+import type { CallSearchMatch } from '@/types/callSearch';
+import type { CallLogSort, CallLogsAdvancedFilters } from '@/types/callLogFilters';
+import { isSearchableTerm } from '@/utils/callSearch';
+import {
+  DEFAULT_CALL_LOG_SORT,
+  buildCursorFilter,
+  decodeCallCursor,
+  encodeCallCursor,
+  getAdvancedFilterJoins,
+  normalizeAdvancedFilters,
+} from '@/utils/callLogFilters';
 
 // Type for call logs from database
 export type CallLog = Database['public']['Tables']['calls']['Row'];
@@ -26,6 +37,28 @@ export interface CallLogFilters {
   endDate?: string;
   search?: string;
   clientId?: string;
+  advanced?: CallLogsAdvancedFilters; // Evaluation, inquiry type and adherence filters (paged queries only)
+  callKind?: string | null;           // calls.call_type: inbound, outbound, missed or voicemail (paged queries only)
+  sort?: CallLogSort;                 // Paged queries only; newest first by default
+}
+
+// One page of call logs, in the filters' sort order
+export interface CallLogsPage {
+  calls: CallLog[];
+  total: number | null;       // Calls matching the filters; only counted for the first page
+  nextCursor: string | null;  // Pass to getCallLogsPage for the next page; null on the last page
+}
+
+export const CALL_LOGS_PAGE_SIZE = 50;
+
+// Tables joined only to filter on; their columns are removed from the returned calls
+const FILTER_JOIN_TABLES = ['lead_evaluations', 'call_intelligence', 'prompt_adherence_reviews'];
+
+// The query builder methods the shared call filters use
+interface CallsFilterQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
 }
 
 /**
@@ -78,6 +111,35 @@ class CallLogsService {
     };
   }
   
+  /**
+   * Apply the call type, client and date filters to a calls query
+   */
+  private applyFilters<Q extends CallsFilterQuery<Q>>(query: Q, filters: CallLogFilters): Q {
+    // Support global call type filter: 'all' = no filter, 'live' = is_test_call: false, 'test' = is_test_call: true
+    if (filters.callType === 'live') {
+      query = query.eq('is_test_call', false);
+    } else if (filters.callType === 'test') {
+      query = query.eq('is_test_call', true);
+    } else if (filters.callType && filters.callType !== 'all') {
+      // For legacy/other call_type string filters (e.g., 'inbound', 'outbound')
+      query = query.eq('call_type', filters.callType);
+    }
+    
+    if (filters.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+    
+    if (filters.startDate) {
+      query = query.gte('call_start_time', filters.startDate);
+    }
+    
+    if (filters.endDate) {
+      query = query.lte('call_start_time', filters.endDate);
+    }
+    
+    return query;
+  }
+  
   /**
    * Get all call logs with optional filtering
    */
@@ -94,33 +156,17 @@ class CallLogsService {
         .from('calls')
         .select('*');
       
+      // Search runs on the server (full-text over summary and transcript) and
+      // returns every matching call as calls rows, so the filters below apply as usual
+      if (filters && isSearchableTerm(filters.search)) {
+        query = supabase
+          .rpc('calls_matching_search', { p_query: filters.search.trim() })
+          .select('*') as unknown as typeof query;
+      }
+      
       // Apply filters if provided
       if (filters) {
-        // Support global call type filter: 'all' = no filter, 'live' = is_test_call: false, 'test' = is_test_call: true
-        if (filters.callType === 'live') {
-          query = query.eq('is_test_call', false);
-        } else if (filters.callType === 'test') {
-          query = query.eq('is_test_call', true);
-        } else if (filters.callType && filters.callType !== 'all') {
-          // For legacy/other call_type string filters (e.g., 'inbound', 'outbound')
-          query = query.eq('call_type', filters.callType);
-        }
-        
-        if (filters.clientId) {
-          query = query.eq('client_id', filters.clientId);
-        }
-        
-        if (filters.startDate) {
-          query = query.gte('call_start_time', filters.startDate);
-        }
-        
-        if (filters.endDate) {
-          query = query.lte('call_start_time', filters.endDate);
-        }
-        
-        if (filters.search) {
-          query = query.or(`caller_full_name.ilike.%${filters.search}%,caller_phone_number.ilike.%${filters.search}%,call_summary.ilike.%${filters.search}%`);
-        }
+        query = this.applyFilters(query, filters);
       }
       
       // Order by most recent first
@@ -145,6 +191,137 @@ class CallLogsService {
     }
   }
   
+  /**
+   * Get one page of call logs with the search, sort and advanced filters applied on the server
+   * Searches page through every matching call (calls_matching_search), and evaluation,
+   * inquiry type and adherence filters inner join the related tables, so totals and
+   * pages are exact
+   * @param filters Call filters; pass the user's client filter for client data isolation
+   * @param cursor nextCursor of the previous page (null for the first page)
+   */
+  public async getCallLogsPage(
+    filters: CallLogFilters = {},
+    cursor: string | null = null,
+    pageSize = CALL_LOGS_PAGE_SIZE
+  ): Promise<CallLogsPage> {
+    const after = decodeCallCursor(cursor);
+    if (cursor && !after) {
+      throw new Error('Failed to fetch call logs: invalid page cursor');
+    }
+    
+    try {
+      const advanced = normalizeAdvancedFilters(filters.advanced);
+      const select = ['*', ...getAdvancedFilterJoins(advanced)].join(', ');
+      const sort = filters.sort ?? DEFAULT_CALL_LOG_SORT;
+      // Only the first page is counted; later pages keep the first page's total
+      const countOption = after ? undefined : { count: 'exact' as const };
+      
+      let query = supabase
+        .from('calls')
+        .select(select, countOption);
+      
+      if (isSearchableTerm(filters.search)) {
+        // Returns calls rows, so the filters, joins and order below apply as usual
+        query = supabase
+          .rpc('calls_matching_search', { p_query: filters.search.trim() }, countOption)
+          .select(select) as unknown as typeof query;
+      }
+      
+      query = this.applyFilters(query, filters);
+      
+      if (filters.callKind) {
+        query = query.ilike('call_type', filters.callKind);
+      }
+      if (advanced.minScore !== undefined) {
+        query = query.gte('lead_evaluations.overall_evaluation_score', advanced.minScore);
+      }
+      if (advanced.maxScore !== undefined) {
+        query = query.lte('lead_evaluations.overall_evaluation_score', advanced.maxScore);
+      }
+      if (advanced.sentiment) {
+        query = query.eq('lead_evaluations.sentiment', advanced.sentiment);
+      }
+      if (advanced.reviewRequired) {
+        query = query.eq('lead_evaluations.human_review_required', true);
+      }
+      if (advanced.inquiryType) {
+        query = query.eq('call_intelligence.inquiry_type', advanced.inquiryType);
+      }
+      if (advanced.minAdherence !== undefined) {
+        query = query.gte('prompt_adherence_reviews.prompt_adherence_score', advanced.minAdherence);
+      }
+      if (advanced.maxAdherence !== undefined) {
+        query = query.lte('prompt_adherence_reviews.prompt_adherence_score', advanced.maxAdherence);
+      }
+      
+      if (after) {
+        query = query.or(buildCursorFilter(after, sort));
+      }
+      
+      // Fetch one extra call to know whether there is another page
+      const ascending = sort.direction === 'asc';
+      const { data, error, count } = await query
+        .order(sort.field, { ascending, nullsFirst: false })
+        .order('id', { ascending })
+        .limit(pageSize + 1);
+      
+      if (error) {
+        console.error('Error fetching call logs page:', error);
+        throw new Error(`Failed to fetch call logs: ${error.message}`);
+      }
+      
+      const rows = (data || []) as unknown as Record<string, unknown>[];
+      const calls = rows.slice(0, pageSize).map(row => {
+        const call = { ...row };
+        FILTER_JOIN_TABLES.forEach(table => delete call[table]);
+        return call as unknown as CallLog;
+      });
+      const last = calls[calls.length - 1];
+      
+      return {
+        calls,
+        total: after ? null : count ?? null,
+        nextCursor: rows.length > pageSize && last
+          ? encodeCallCursor({ value: last[sort.field] ?? null, id: last.id })
+          : null,
+      };
+    } catch (error) {
+      console.error('Error in getCallLogsPage:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Search calls by summary and transcript (full-text, ranked) and by caller name or phone
+   * Runs as the current user, so database RLS keeps results to their own client's calls
+   * @param term Search text as typed; the database parses it safely
+   * @param clientId Client filter (null for admins searching all clients)
+   * @returns Matches in rank order, with highlighted snippets
+   */
+  public async searchCalls(term: string, clientId?: string | null, limit = 100): Promise<CallSearchMatch[]> {
+    if (!isSearchableTerm(term)) {
+      return [];
+    }
+    
+    try {
+      const { data, error } = await supabase.rpc('search_calls', {
+        p_query: term.trim(),
+        p_client_id: clientId || null,
+        p_limit: limit
+      });
+      
+      if (error) {
+        console.error('Error searching calls:', error);
+        throw new Error(`Failed to search calls: ${error.message}`);
+      }
+      
+      return (data as CallSearchMatch[] | null) ?? [];
+    } catch (error) {
+      console.error('Error in searchCalls:', error);
+      throw error;
+    }
+  }
+  
   /**
    * Get a single call log by ID
    */
@@ -259,6 +436,28 @@ class CallLogsService {
     }
   }
   
+  /**
+   * Override the spam verdict of a call
+   * @param id - The call ID
+   * @param isSpam - The user's verdict, or null to go back to the automatic score
+   * @returns The updated call or null if there was an error
+   */
+  public async updateCallSpamOverride(id: string, isSpam: boolean | null): Promise<CallLog | null> {
+    try {
+      const result = await this.updateCallLog(id, { spam_override: isSpam });
+
+      // The verdict changes which calls count towards reporting
+      if (result) {
+        this.cache.data = null;
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error updating call spam override:', error);
+      return null;
+    }
+  }
+
   /**
    * Delete a call log
    */
@@ -7,6 +7,9 @@
 import { supabase } from './client';
 import type { Database } from './types';
 import { format } from 'date-fns';
+import { LeadActivityService } from '@/services/leadActivityService';
+import type { LeadRoutingMode } from '@/types/leadRouting';
+import { buildIlikeOrFilter, isSearchableTerm } from '@/utils/callSearch';
 
 // Type for leads from database
 export type Lead = {
@@ -27,9 +30,23 @@ export type Lead = {
   custom_lead_data?: any;
   sent_to?: string;
   sent_to_client_at?: string; // Timestamp when email was sent to client
+  appointment_confirmed_at?: string | null;
+  callback_timing_captured?: boolean | null;
+  callback_timing_value?: string | null;
+  callback_scheduled_at?: string | null; // When to call the customer back
+  callback_schedule_source?: 'parsed' | 'manual' | 'unparsed' | null;
+  callback_completed_at?: string | null;
+  callback_reminder_sent_at?: string | null;
+  merged_into_lead_id?: string | null; // Set when this lead was merged into another lead
+  merged_at?: string | null;
+  assigned_to?: string | null; // Staff member (users.id) who owns the lead
+  assigned_at?: string | null;
   client_name?: string; // For admin view
 };
 
+// A duplicate lead that was merged into a primary lead (keeps its call link)
+export type MergedLead = Pick<Lead, 'id' | 'call_id' | 'full_name' | 'phone_number' | 'email' | 'created_at' | 'merged_at'>;
+
 // Interface for lead filters
 export interface LeadFilters {
   status?: string;
@@ -40,6 +57,17 @@ export interface LeadFilters {
   clientId?: string;
 }
 
+/**
+ * Normalize status to ensure consistent case (using 'New' instead of 'new')
+ */
+export function normalizeLeadStatus(status: string | undefined): string | undefined {
+  // If status is 'new', capitalize it to 'New' for consistency
+  if (status?.toLowerCase() === 'new') {
+    return 'New';
+  }
+  return status;
+}
+
 /**
  * Service for managing leads in Supabase
  */
@@ -111,6 +139,24 @@ class LeadService {
           clients(name)
         `);
       
+      const search = filters?.search;
+      if (isSearchableTerm(search)) {
+        // Contact fields, plus leads whose call transcript or summary matches; returns
+        // leads rows, so the filters and order below apply as usual
+        query = supabase
+          .rpc('leads_matching_search', { p_query: search.trim() })
+          .select(`
+            *,
+            clients(name)
+          `) as unknown as typeof query;
+      } else if (filters?.search?.trim()) {
+        // Too short to search calls: contact fields only
+        query = query.or(buildIlikeOrFilter(['full_name', 'phone_number', 'email'], filters.search));
+      }
+      
+      // Leads merged into another lead are only shown as part of their primary lead
+      query = query.is('merged_into_lead_id', null);
+      
       // Apply filters if provided
       if (filters) {
         // CRITICAL: Always filter by client_id if provided for data isolation
@@ -133,10 +179,7 @@ class LeadService {
         if (filters.endDate) {
           query = query.lte('created_at', filters.endDate);
         }
-        
-        if (filters.search) {
-          query = query.or(`full_name.ilike.%${filters.search}%,phone_number.ilike.%${filters.search}%,email.ilike.%${filters.search}%`);
-        }
+
       }
       
       // Order by most recent first
@@ -306,44 +349,227 @@ class LeadService {
   
   /**
    * Update lead status
-   * Ensures consistent case handling for status values
+   * Ensures consistent case handling for status values and records the
+   * change on the lead activity timeline
+   * @param fieldUpdates Other fields edited with the status, saved in the same write
    */
-  public async updateLeadStatus(id: string, status: Lead['status']): Promise<Lead> {
-    // Normalize status to ensure consistent case (using 'New' instead of 'new')
-    let normalizedStatus = status;
+  public async updateLeadStatus(
+    id: string,
+    status: Lead['status'],
+    actorId?: string | null,
+    fieldUpdates: Partial<Lead> = {}
+  ): Promise<Lead> {
+    const normalizedStatus = normalizeLeadStatus(status);
     
-    // If status is 'new', capitalize it to 'New' for consistency
-    if (status?.toLowerCase() === 'new') {
-      normalizedStatus = 'New';
-    }
+    // Read the previous status so the timeline can show "from -> to"
+    const { data: previous } = await supabase
+      .from('leads')
+      .select('lead_status')
+      .eq('id', id)
+      .single();
     
     // Map status to lead_status to match the database schema
-    return this.updateLead(id, { lead_status: normalizedStatus });
+    const updatedLead = await this.updateLead(id, { ...fieldUpdates, lead_status: normalizedStatus });
+    
+    if (previous?.lead_status !== normalizedStatus) {
+      try {
+        await LeadActivityService.addActivity({
+          lead_id: id,
+          client_id: updatedLead.client_id,
+          activity_type: 'status_change',
+          metadata: { from: previous?.lead_status ?? null, to: normalizedStatus },
+          created_by: actorId ?? null
+        });
+      } catch (activityError) {
+        // The status change itself succeeded; don't fail it because the timeline entry did
+        console.error('Error recording status change activity:', activityError);
+      }
+    }
+    
+    return updatedLead;
   }
-  
+
+  /**
+   * Assign a lead to a staff member (or unassign it with null)
+   * The database checks the assignee belongs to the lead's client and stamps
+   * assigned_at; the change is recorded on the lead activity timeline
+   */
+  public async assignLead(
+    id: string,
+    assignee: { id: string; full_name: string } | null,
+    options?: { actorId?: string | null; rule?: LeadRoutingMode; previousAssigneeId?: string | null }
+  ): Promise<Lead> {
+    const updatedLead = await this.updateLead(id, { assigned_to: assignee?.id ?? null });
+
+    try {
+      await LeadActivityService.addActivity({
+        lead_id: id,
+        client_id: updatedLead.client_id,
+        activity_type: 'assigned',
+        metadata: {
+          from: options?.previousAssigneeId ?? null,
+          to: assignee?.id ?? null,
+          to_name: assignee?.full_name ?? null,
+          rule: options?.rule ?? 'manual'
+        },
+        created_by: options?.actorId ?? null
+      });
+    } catch (activityError) {
+      // The assignment itself succeeded; don't fail it because the timeline entry did
+      console.error('Error recording assignment activity:', activityError);
+    }
+
+    return { ...updatedLead, status: updatedLead.lead_status };
+  }
+
+  /**
+   * Schedule, reschedule or clear (null) a lead's callback
+   * A new time resets the reminder and completion in the database; the
+   * change is recorded on the lead activity timeline
+   */
+  public async rescheduleCallback(
+    id: string,
+    scheduledAt: Date | null,
+    options?: { actorId?: string | null; timeZone?: string; source?: 'parsed' | 'manual'; note?: string | null }
+  ): Promise<Lead> {
+    const source = options?.source ?? 'manual';
+    const updatedLead = await this.updateLead(id, {
+      callback_scheduled_at: scheduledAt ? scheduledAt.toISOString() : null,
+      callback_schedule_source: scheduledAt ? source : null,
+    });
+
+    try {
+      await LeadActivityService.addActivity({
+        lead_id: id,
+        client_id: updatedLead.client_id,
+        activity_type: 'callback_scheduled',
+        content: options?.note ?? null,
+        metadata: {
+          action: scheduledAt ? 'scheduled' : 'cleared',
+          scheduled_at: updatedLead.callback_scheduled_at ?? null,
+          time_zone: options?.timeZone ?? null,
+          source,
+          timing_text: updatedLead.callback_timing_value ?? null
+        },
+        created_by: options?.actorId ?? null
+      });
+    } catch (activityError) {
+      // The schedule change itself succeeded; don't fail it because the timeline entry did
+      console.error('Error recording callback activity:', activityError);
+    }
+
+    return { ...updatedLead, status: updatedLead.lead_status };
+  }
+
+  /**
+   * Mark a lead's scheduled callback as done
+   */
+  public async completeCallback(id: string, actorId?: string | null): Promise<Lead> {
+    const updatedLead = await this.updateLead(id, { callback_completed_at: new Date().toISOString() });
+
+    try {
+      await LeadActivityService.addActivity({
+        lead_id: id,
+        client_id: updatedLead.client_id,
+        activity_type: 'callback_scheduled',
+        metadata: { action: 'completed', scheduled_at: updatedLead.callback_scheduled_at ?? null },
+        created_by: actorId ?? null
+      });
+    } catch (activityError) {
+      // The completion itself succeeded; don't fail it because the timeline entry did
+      console.error('Error recording callback activity:', activityError);
+    }
+
+    return { ...updatedLead, status: updatedLead.lead_status };
+  }
+
   /**
    * Add a note to a lead
+   * Notes are stored as authored, timestamped entries on the lead activity
+   * timeline. leads.notes is left untouched (it holds the initial notes
+   * written when the lead was created).
    */
-  public async addLeadNote(id: string, note: string): Promise<Lead> {
+  public async addLeadNote(id: string, note: string, authorId?: string | null): Promise<Lead> {
     try {
-      // First get the current lead to append to existing notes
       const lead = await this.getLeadById(id);
       
       if (!lead) {
         throw new Error(`Lead with ID ${id} not found`);
       }
       
-      const updatedNotes = lead.notes 
-        ? `${lead.notes}\n${note}` 
-        : note;
+      await LeadActivityService.addActivity({
+        lead_id: id,
+        client_id: lead.client_id,
+        activity_type: 'note',
+        content: note,
+        created_by: authorId ?? null
+      });
       
-      return this.updateLead(id, { notes: updatedNotes });
+      return lead;
     } catch (error) {
       console.error('Error in addLeadNote:', error);
       throw error;
     }
   }
   
+  /**
+   * Merge duplicate leads into a primary lead
+   * Runs the merge_leads database function, which updates the primary lead,
+   * marks the duplicates as merged (keeping their call links), moves their
+   * timeline activities and records a 'merged' activity in one transaction
+   */
+  public async mergeLeads(
+    primaryId: string,
+    duplicateIds: string[],
+    updates: Partial<Pick<Lead, 'full_name' | 'phone_number' | 'email' | 'notes' | 'custom_lead_data'>>
+  ): Promise<Lead> {
+    try {
+      const { data, error } = await supabase.rpc('merge_leads', {
+        p_primary_lead_id: primaryId,
+        p_duplicate_lead_ids: duplicateIds,
+        p_updates: updates
+      });
+      
+      if (error) {
+        console.error('Error merging leads:', error);
+        throw new Error(`Failed to merge leads: ${error.message}`);
+      }
+      
+      // Invalidate cache
+      this.cache.data = null;
+      
+      const merged = Array.isArray(data) ? data[0] : data;
+      return { ...merged, status: merged.lead_status } as Lead;
+    } catch (error) {
+      console.error('Error in mergeLeads:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the leads that were merged into a lead
+   * Their call_ids are the lead's additional source calls
+   */
+  public async getMergedLeads(leadId: string): Promise<MergedLead[]> {
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('id, call_id, full_name, phone_number, email, created_at, merged_at')
+        .eq('merged_into_lead_id', leadId)
+        .order('created_at', { ascending: true });
+      
+      if (error) {
+        console.error('Error fetching merged leads:', error);
+        throw new Error(`Failed to fetch merged leads: ${error.message}`);
+      }
+      
+      return (data || []) as MergedLead[];
+    } catch (error) {
+      console.error('Error in getMergedLeads:', error);
+      throw error;
+    }
+  }
+  
   /**
    * Delete a lead
    * 
@@ -381,6 +607,7 @@ class LeadService {
         .from('leads')
         .select('*')
         .eq('client_id', clientId)
+        .is('merged_into_lead_id', null)
         .order('created_at', { ascending: false });
       
       if (error) {
@@ -488,7 +715,10 @@ class LeadService {
   }
   
   /**
-   * Export leads to Excel format
+   * Export leads to an Excel (.xlsx) workbook
+   * 
+   * Sheets: Leads (typed date and phone columns), Call Intelligence
+   * (inquiry type, vehicle interest, intent) and Summary.
    * 
    * CRITICAL: This method should filter by client_id for non-admin users
    */
@@ -499,24 +729,90 @@ class LeadService {
       includeClientId?: boolean;
       includeCallId?: boolean;
       includeTimestamps?: boolean;
+      includeSensitiveInfo?: boolean;
     }
   ): Promise<Blob> {
     try {
-      // For now, we'll just convert the CSV to a blob with Excel mime type
-      // In a real implementation, you would use a library like exceljs or xlsx
-      const csvContent = await this.exportLeadsToCSV(filters, options);
+      const leads = await this.getLeads(filters);
       
-      // Convert CSV to Blob with Excel mime type
-      const blob = new Blob([csvContent], { 
-        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
-      });
+      // Default options (same defaults as the CSV export)
+      const exportOptions = {
+        includeNotes: true,
+        includeClientId: false, // Default to false for privacy
+        includeCallId: true,
+        includeTimestamps: true,
+        includeSensitiveInfo: false,
+        ...options
+      };
+      
+      // Workbook code (and exceljs) is only loaded when an Excel export is requested
+      const [{ buildLeadWorkbook, workbookToBlob }, { CallIntelligenceService }] = await Promise.all([
+        import('@/utils/leadWorkbook'),
+        import('@/services/callIntelligenceService')
+      ]);
       
-      return blob;
+      const callIds = leads.map(lead => lead.call_id).filter(Boolean);
+      const intelligenceByCallId = await CallIntelligenceService.getCallIntelligenceByCallIds(callIds);
+      
+      const workbook = buildLeadWorkbook(leads, intelligenceByCallId, exportOptions);
+      return await workbookToBlob(workbook);
     } catch (error) {
       console.error('Error in exportLeadsToExcel:', error);
       throw error;
     }
   }
+  
+  /**
+   * Export leads as an ADF 1.0 XML document for import into a dealership CRM
+   * 
+   * Vehicle interest comes from call intelligence and the call summary is
+   * included in the customer comments.
+   * 
+   * CRITICAL: This method should filter by client_id for non-admin users
+   */
+  public async exportLeadsToAdf(
+    filters?: LeadFilters,
+    options?: { includeNotes?: boolean }
+  ): Promise<string> {
+    try {
+      const leads = await this.getLeads(filters);
+      return await this.buildAdfExport(leads, { includeNotes: true, ...options });
+    } catch (error) {
+      console.error('Error in exportLeadsToAdf:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Export a single lead as an ADF 1.0 XML document
+   */
+  public async exportLeadToAdf(lead: Lead, options?: { includeNotes?: boolean }): Promise<string> {
+    try {
+      return await this.buildAdfExport([lead], { includeNotes: true, ...options });
+    } catch (error) {
+      console.error('Error in exportLeadToAdf:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Load the call intelligence and call summaries for leads and build the ADF document
+   */
+  private async buildAdfExport(leads: Lead[], options: { includeNotes?: boolean }): Promise<string> {
+    const [{ buildLeadAdfDocument }, { CallIntelligenceService }, { CallsService }] = await Promise.all([
+      import('@/utils/leadAdf'),
+      import('@/services/callIntelligenceService'),
+      import('@/services/callsService')
+    ]);
+    
+    const callIds = leads.map(lead => lead.call_id).filter(Boolean);
+    const [intelligenceByCallId, summariesByCallId] = await Promise.all([
+      CallIntelligenceService.getCallIntelligenceByCallIds(callIds),
+      CallsService.getCallSummaries(callIds)
+    ]);
+    
+    return buildLeadAdfDocument(leads, { ...options, intelligenceByCallId, summariesByCallId });
+  }
 }
 
 // Export singleton instance
@@ -42,6 +42,16 @@ export interface Database {
                     transcriber_model?: string;
                     call_llm_model?: string;
                     call_summary_cost?: number;
+                    is_spam?: boolean;
+                    spam_score?: number;
+                    spam_signals?: string[];
+                    spam_override?: boolean | null;
+                    spam_overridden_by?: string | null;
+                    spam_overridden_at?: string | null;
+                    caller_phone_normalized?: string | null;
+                    tags?: string[];
+                    outcome?: string | null;
+                    status?: string | null;
                 };
                 Insert: {
                     id?: string;
@@ -80,6 +90,9 @@ export interface Database {
                     transcriber_model?: string;
                     call_llm_model?: string;
                     call_summary_cost?: number;
+                    is_spam?: boolean;
+                    spam_override?: boolean | null;
+                    tags?: string[];
                 };
                 Update: {
                     id?: string;
@@ -118,6 +131,9 @@ export interface Database {
                     transcriber_model?: string;
                     call_llm_model?: string;
                     call_summary_cost?: number;
+                    is_spam?: boolean;
+                    spam_override?: boolean | null;
+                    tags?: string[];
                 };
             };
             lead_evaluations: {
@@ -248,6 +264,7 @@ export interface Database {
                     average_monthly_misc_cost_usd: number;
                     partner_split_percentage: number;
                     finders_fee_cad: number;
+                    partner_id: string | null; // Partner paid the client's finder's fee and split
                     slug: string;
                     config_json: any;
                     joined_at: string;
@@ -270,6 +287,7 @@ export interface Database {
                     average_monthly_misc_cost_usd?: number;
                     partner_split_percentage?: number;
                     finders_fee_cad: number;
+                    partner_id?: string | null;
                     slug: string;
                     config_json?: any;
                     joined_at?: string;
@@ -292,6 +310,7 @@ export interface Database {
                     average_monthly_misc_cost_usd?: number;
                     partner_split_percentage?: number;
                     finders_fee_cad?: number;
+                    partner_id?: string | null;
                     slug?: string;
                     config_json?: any;
                     joined_at?: string;
@@ -13,6 +13,7 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { cn } from '@/lib/utils';
 import { ThemeProvider } from 'next-themes';
 import { useRealtimeNotifications } from '@/hooks/useRealtimeNotifications';
+import { useCallbackReminders } from '@/hooks/useCallbackReminders';
 import { NotificationModal } from '@/components/NotificationModal';
 import { useState as useLocalState } from 'react';
 
@@ -44,6 +45,8 @@ const AppLayout = () => {
   // Handle notification display with auto-dismiss
   const handleNotification = (notification: any) => {
     console.log('Received notification in AppLayout:', notification);
+    // Callback reminders are shown as toasts, only to the staff they're for
+    if (notification?.type === 'callback_reminder') return;
     setCurrentNotification(notification);
   };
 
@@ -52,6 +55,9 @@ const AppLayout = () => {
     user,
     onNotification: handleNotification
   });
+
+  // Show callback reminders as the database sends them
+  useCallbackReminders({ enabled: isAuthenticated });
   // Force refresh the page
   const handleForceRefresh = () => {
     window.location.reload();
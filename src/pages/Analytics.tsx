@@ -8,6 +8,7 @@ import QualityAnalytics from '@/components/analytics/QualityAnalytics';
 import SimpleAIAnalytics from '@/components/analytics/SimpleAIAnalytics';
 import { DateRangeFilter } from '@/components/analytics/DateRangeFilter';
 import GlobalCallTypeFilter from '@/components/GlobalCallTypeFilter';
+import GlobalSpamFilter from '@/components/GlobalSpamFilter';
 import { useDateRange } from '@/hooks/useDateRange';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useAuth } from '@/context/AuthContext';
@@ -21,7 +22,7 @@ import { cn } from '@/lib/utils';
 const Analytics = () => {
   const { user } = useAuth();
   const { selectedClientId } = useClient();
-  const { selectedCallType, setSelectedCallType } = useCallType();
+  const { selectedCallType, setSelectedCallType, includeSpam, setIncludeSpam } = useCallType();
   const [activeTab, setActiveTab] = useState('calls');
   
   // Handle tab change
@@ -47,6 +48,7 @@ const Analytics = () => {
   // Tab options
   const allTabOptions = [
     { id: 'calls', label: 'Call Analytics', shortLabel: 'Calls' },
+    { id: 'leads', label: 'Lead Analytics', shortLabel: 'Leads' },
     { id: 'quality', label: 'Quality Analytics', shortLabel: 'Quality' },
     { id: 'ai-accuracy', label: 'AI Accuracy', shortLabel: 'AI Accuracy', adminOnly: true },
   ];
@@ -80,6 +82,7 @@ const Analytics = () => {
           selectedCallType={selectedCallType}
           onCallTypeChange={(type) => setSelectedCallType(type)}
         />
+        <GlobalSpamFilter includeSpam={includeSpam} onIncludeSpamChange={setIncludeSpam} />
         {/* Date filter */}
         <DateRangeFilter
           className="w-full sm:w-auto max-w-xs"
@@ -145,13 +148,13 @@ const Analytics = () => {
             endDate={dateFilters.end}
             clientId={selectedClientId}
             callType={selectedCallType}
+            includeSpam={includeSpam}
           />
         </TabsContent>
 
-        {/* Lead Analytics hidden for future updates */}
-        {/* <TabsContent value="leads">
-          <LeadAnalytics />
-        </TabsContent> */}
+        <TabsContent value="leads">
+          <LeadAnalytics clientId={selectedClientId || undefined} callType={selectedCallType} />
+        </TabsContent>
 
         <TabsContent value="quality">
           <QualityAnalytics 
@@ -0,0 +1,287 @@
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, History, RefreshCw } from 'lucide-react';
+import CallerSearchBox from '@/components/callers/CallerSearchBox';
+import CallOutcomeBadge from '@/components/calls/CallOutcomeBadge';
+import InquiryTypeBadge from '@/components/calls/InquiryTypeBadge';
+import CallDetailsPopup from '@/components/calls/CallDetailsPopup';
+import { useAuth } from '@/context/AuthContext';
+import { useClient } from '@/context/ClientContext';
+import { useCallerHistory } from '@/hooks/useCallerHistory';
+import { useToast } from '@/hooks/use-toast';
+import { callLogsService, CallLog } from '@/integrations/supabase/call-logs-service';
+import { getClientIdFilter } from '@/utils/clientDataIsolation';
+import { CALLER_SENTIMENT_LABELS, countRecentCalls } from '@/utils/callerHistory';
+import { formatDuration, formatPhoneNumber } from '@/utils/formatting';
+
+const formatDateTime = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '—');
+
+const SENTIMENT_TICKS: Record<number, string> = { 1: 'Positive', 0: 'Neutral', [-1]: 'Negative' };
+
+/**
+ * Caller history page
+ * Everything one phone number did with a client: calls, leads, sentiment over
+ * time and what they called about
+ */
+const CallerHistory: React.FC = () => {
+  const { user } = useAuth();
+  const { selectedClientId } = useClient();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [viewedCall, setViewedCall] = useState<CallLog | null>(null);
+
+  const phone = searchParams.get('phone');
+  // CRITICAL: Client users only ever see their own client's callers
+  const clientId = getClientIdFilter(user) || searchParams.get('client');
+  const searchClientId = getClientIdFilter(user) || selectedClientId;
+
+  const { history, loading, error, refetch } = useCallerHistory(phone, clientId);
+
+  const recentCalls = useMemo(
+    () => (history ? countRecentCalls(history.calls, 7, new Date()) : 0),
+    [history]
+  );
+
+  const sentimentData = useMemo(
+    () => (history?.sentimentTrend || []).map(point => ({
+      ...point,
+      label: format(new Date(point.date), 'MMM d'),
+    })),
+    [history]
+  );
+
+  const handleViewCall = async (callId: string) => {
+    try {
+      setViewedCall(await callLogsService.getCallLogById(callId));
+    } catch (err) {
+      console.error('Failed to load call:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to load call.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-8 w-full max-w-full overflow-x-hidden">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Caller History
+          </h1>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Every call and lead from the same phone number
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <CallerSearchBox clientId={searchClientId} className="w-full sm:w-72" />
+          {phone && (
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              <span className="hidden sm:ml-2 sm:inline">Refresh</span>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!phone || !clientId ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            Search for a caller by phone number or name to see their history.
+          </CardContent>
+        </Card>
+      ) : error ? (
+        <div className="bg-destructive/10 text-destructive p-4 rounded-md">
+          <p className="text-sm">Error loading caller history: {error.message}</p>
+        </div>
+      ) : loading && !history ? (
+        <div className="space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : !history || history.calls.length + history.leads.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            No calls or leads from {formatPhoneNumber(phone)}.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{history.caller_name || 'Unknown caller'}</CardTitle>
+              <CardDescription>{formatPhoneNumber(history.phone)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+                <div>
+                  <p className="text-sm text-muted-foreground">Calls</p>
+                  <p className="text-2xl font-bold">{history.calls.length}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Last 7 days</p>
+                  <p className="text-2xl font-bold">{recentCalls}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Leads</p>
+                  <p className="text-2xl font-bold">{history.leads.length}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">First call</p>
+                  <p className="text-sm font-medium">{formatDateTime(history.firstCallAt)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Last call</p>
+                  <p className="text-sm font-medium">{formatDateTime(history.lastCallAt)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-base">Sentiment</CardTitle>
+                <CardDescription>Evaluated sentiment of each call, oldest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {sentimentData.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No evaluated calls yet.</p>
+                ) : (
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={sentimentData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" />
+                      <YAxis
+                        domain={[-1, 1]}
+                        ticks={[-1, 0, 1]}
+                        width={70}
+                        tickFormatter={value => SENTIMENT_TICKS[Number(value)] ?? ''}
+                      />
+                      <Tooltip
+                        formatter={(_value, _name, item) => [CALLER_SENTIMENT_LABELS[item.payload.sentiment as keyof typeof CALLER_SENTIMENT_LABELS], 'Sentiment']}
+                      />
+                      <Line type="monotone" dataKey="value" stroke="#8884d8" name="Sentiment" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Inquiry types</CardTitle>
+                <CardDescription>What this caller called about</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {history.inquiryTypes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No classified calls yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {history.inquiryTypes.map(({ inquiry_type, count }) => (
+                      <li key={inquiry_type} className="flex items-center justify-between">
+                        <InquiryTypeBadge inquiryType={inquiry_type} />
+                        <span className="text-sm font-medium">{count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Calls</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Sentiment</TableHead>
+                    <TableHead>Inquiry</TableHead>
+                    <TableHead>Summary</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.calls.map(call => (
+                    <TableRow key={call.id}>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(call.call_start_time)}</TableCell>
+                      <TableCell>{call.call_duration_seconds != null ? formatDuration(call.call_duration_seconds) : '—'}</TableCell>
+                      <TableCell><CallOutcomeBadge outcome={call.outcome} /></TableCell>
+                      <TableCell>{call.sentiment ? CALLER_SENTIMENT_LABELS[call.sentiment] : '—'}</TableCell>
+                      <TableCell>{call.inquiry_type ? <InquiryTypeBadge inquiryType={call.inquiry_type} /> : '—'}</TableCell>
+                      <TableCell className="max-w-md">
+                        <p className="text-sm line-clamp-2">{call.call_summary || '—'}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => handleViewCall(call.id)} aria-label="View call">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {history.leads.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Leads</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {history.leads.map(lead => (
+                  <div key={lead.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                    <div>
+                      <p className="text-sm font-medium">{lead.full_name}</p>
+                      <p className="text-xs text-muted-foreground">{formatDateTime(lead.created_at)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="capitalize">{lead.lead_status}</Badge>
+                      {lead.call_id && (
+                        <Button variant="ghost" size="sm" onClick={() => handleViewCall(lead.call_id!)} aria-label="View lead call">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <CallDetailsPopup
+        call={viewedCall}
+        isOpen={!!viewedCall}
+        onClose={() => setViewedCall(null)}
+      />
+    </div>
+  );
+};
+
+export default CallerHistory;
@@ -14,18 +14,24 @@ import { useCallType } from '@/context/CallTypeContext'; // Global call type fil
 
 import MetricsSummaryCards from '@/components/dashboard/MetricsSummaryCards';
 import useDashboardMetrics from '@/hooks/useDashboardMetrics';
+import { useMyOpenLeadCount } from '@/hooks/useLeadRouting';
 import { CallActivityTimeline } from '@/components/dashboard/CallActivityTimeline';
+import HotLeadsCard from '@/components/dashboard/HotLeadsCard';
 import { CallsService, CallStats } from '@/services/callsService';
 import CallDetailsPopup from '@/components/calls/CallDetailsPopup';
 import { callLogsService } from '@/integrations/supabase/call-logs-service';
 
 const Dashboard = () => {
   // Global call type filter from context
-  const { selectedCallType } = useCallType();
+  const { selectedCallType, includeSpam } = useCallType();
   const { user } = useAuth();
   const { selectedClientId } = useClient();
   const navigate = useNavigate();
 
+  // Dealership staff own assigned leads; show them how many are still open
+  const isLeadAssignee = user?.role === 'client_user' || user?.role === 'client_admin';
+  const myOpenLeads = useMyOpenLeadCount(isLeadAssignee ? user?.id : null, user?.client_id);
+
   // State for real data
   const [calls, setCalls] = useState<Call[]>([]);
   const [stats, setStats] = useState<CallStats>({ totalCalls: 0, sent: 0, answered: 0, failed: 0 });
@@ -55,7 +61,7 @@ const Dashboard = () => {
   const effectiveClientId = getEffectiveClientId();
 
   // Use our custom hook to fetch dashboard metrics
-  const { metrics, isLoading: metricsLoading, error: metricsError } = useDashboardMetrics(effectiveClientId, selectedCallType);
+  const { metrics, isLoading: metricsLoading, error: metricsError } = useDashboardMetrics(effectiveClientId, selectedCallType, includeSpam);
 
   useEffect(() => {
     const fetchCallsAndStats = async () => {
@@ -68,7 +74,7 @@ const Dashboard = () => {
         const recentCalls = await CallsService.getRecentCalls(5, effectiveClientId, selectedCallType);
 
         // Fetch call stats
-        const callStats = await CallsService.getCallStats(effectiveClientId, selectedCallType);
+        const callStats = await CallsService.getCallStats(effectiveClientId, selectedCallType, includeSpam);
 
         setCalls(recentCalls);
         setStats(callStats);
@@ -81,7 +87,7 @@ const Dashboard = () => {
     };
 
     fetchCallsAndStats();
-  }, [effectiveClientId, canViewAllClients, user?.client_id, selectedCallType]);
+  }, [effectiveClientId, canViewAllClients, user?.client_id, selectedCallType, includeSpam]);
 
   // Updated chart colors to be theme-aware
   const chartData = [
@@ -217,6 +223,7 @@ const Dashboard = () => {
           averageHandleTime: metrics.averageHandleTime,
           callsTransferred: metrics.callsTransferred,
           totalLeads: metrics.totalLeads,
+          appointmentsBooked: metrics.appointmentsBooked,
           callsGrowth: metrics.callsGrowth,
           timeGrowth: metrics.timeGrowth,
           transferGrowth: metrics.transferGrowth,
@@ -224,7 +231,8 @@ const Dashboard = () => {
           todaysCalls: metrics.todaysCalls || 0,
           linesAvailable: 10, // Static value as requested
           agentsAvailable: 1, // Static value as requested
-          callsInQueue: 0 // Static value - could be dynamic in the future
+          callsInQueue: 0, // Static value - could be dynamic in the future
+          myOpenLeads
         } : {
           totalCalls: 156,
           averageHandleTime: '2h 22m',
@@ -237,14 +245,19 @@ const Dashboard = () => {
           todaysCalls: 0,
           linesAvailable: 10,
           agentsAvailable: 1,
-          callsInQueue: 0
+          callsInQueue: 0,
+          myOpenLeads
         }}
         isLoading={metricsLoading}
+        onViewMyLeads={() => navigate('/leads?assigned=me')}
       />
 
       {/* Call Activity Timeline */}
       <CallActivityTimeline clientId={effectiveClientId} />
 
+      {/* Highest scoring open leads */}
+      <HotLeadsCard clientId={effectiveClientId ?? null} showClientName={canViewAllClients && !effectiveClientId} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <PotentialEarnings
           totalCalls={metrics?.totalCalls || 0}
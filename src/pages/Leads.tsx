@@ -1,17 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, RefreshCw, User } from 'lucide-react';
-import LeadsTable from '@/components/leads/LeadsTable';
+import { Download, RefreshCw, User, List, Columns, UserCheck, Shuffle } from 'lucide-react';
+import LeadsTable, { LeadsTableView } from '@/components/leads/LeadsTable';
+import SavedViewsMenu from '@/components/common/SavedViewsMenu';
 import LeadDetailsView from '@/components/leads/LeadDetailsView';
-import LeadExportDialog, { LeadExportOptions } from '@/components/leads/LeadExportDialog';
+import LeadExportDialog, { LeadExportFormat, LeadExportOptions } from '@/components/leads/LeadExportDialog';
+import LeadEditDialog from '@/components/leads/LeadEditDialog';
+import LeadPipelineBoard from '@/components/leads/LeadPipelineBoard';
+import LeadMergeDialog from '@/components/leads/LeadMergeDialog';
+import LeadCallbackDialog from '@/components/leads/LeadCallbackDialog';
 import { useLeadService } from '@/hooks/useLeadService';
+import { useLeadPipeline } from '@/hooks/useLeadPipeline';
+import { useLeadRouting } from '@/hooks/useLeadRouting';
+import { useClientTimezones } from '@/hooks/useCallbackReminders';
+import { CallIntelligenceService } from '@/services/callIntelligenceService';
 import { downloadFile, generateExportFilename } from '@/utils/exportUtils';
+import { ADF_MIME_TYPE } from '@/utils/leadAdf';
 import { toast } from 'sonner';
 import { Lead } from '@/integrations/supabase/lead-service';
 import { useAuth } from '@/context/AuthContext';
 import { useClient } from '@/context/ClientContext';
-import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { canViewSensitiveInfo, getClientIdFilter } from '@/utils/clientDataIsolation';
+import { LeadEditUpdates } from '@/utils/leadEditing';
+import { findStage } from '@/utils/leadPipeline';
+import { LeadDuplicateGroup, LeadMergeUpdates } from '@/utils/leadDuplicates';
+import { countOpenAssignedLeads, planLeadAssignments } from '@/utils/leadRouting';
+import type { LeadAssignee } from '@/types/leadRouting';
+import { DEFAULT_CLIENT_TIMEZONE, formatCallbackTime } from '@/utils/callbackTiming';
+import type { LeadsViewState } from '@/types/savedView';
+import {
+  LEADS_VIEW_PARAMS,
+  buildViewLink,
+  leadsViewFromParams,
+  leadsViewToParams,
+  replaceViewParams,
+} from '@/utils/savedViews';
 
 
 /**
@@ -20,7 +45,7 @@ import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
  */
 const Leads: React.FC = () => {
   const { user } = useAuth();
-  const { selectedClientId } = useClient();
+  const { selectedClientId, clients } = useClient();
   
   const { 
     leads, 
@@ -28,12 +53,71 @@ const Leads: React.FC = () => {
     error, 
     forceRefresh,
     refetch,
+    updateLead,
     updateLeadStatus,
     addLeadNote,
     deleteLead,
+    mergeLeads,
+    assignLead,
+    autoAssignLeads,
+    rescheduleCallback,
+    completeCallback,
     exportLeadsToCSV,
-    exportLeadsToExcel
+    exportLeadsToExcel,
+    exportLeadsToAdf,
+    exportLeadToAdf
   } = useLeadService();
+
+  // Pipeline stages, staff and routing rules for the selected client (or the user's own client)
+  const scopeClientId = selectedClientId || getClientIdFilter(user);
+  const { stages } = useLeadPipeline(scopeClientId);
+  const { assignees, routing } = useLeadRouting(scopeClientId);
+
+  // The view (search, filters, "My leads", layout, sort) lives in the URL, so the
+  // dashboard, saved views and copied links can all open it
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewQuery = searchParams.toString();
+  const view = useMemo(() => leadsViewFromParams(new URLSearchParams(viewQuery)), [viewQuery]);
+  const viewParams = useMemo(() => leadsViewToParams(view), [view]);
+  const showMyLeads = view.assignedToMe;
+
+  const updateView = useCallback((changes: Partial<LeadsViewState>) => {
+    setSearchParams(current => replaceViewParams(
+      current,
+      leadsViewToParams({ ...leadsViewFromParams(current), ...changes }),
+      LEADS_VIEW_PARAMS
+    ), { replace: true });
+  }, [setSearchParams]);
+
+  const applyView = (query: string) => {
+    setSearchParams(current => replaceViewParams(
+      current,
+      leadsViewToParams(leadsViewFromParams(new URLSearchParams(query))),
+      LEADS_VIEW_PARAMS
+    ));
+  };
+
+  const tableView: LeadsTableView = {
+    search: view.search,
+    status: view.status,
+    source: view.source as LeadsTableView['source'],
+    sortField: view.sortField as LeadsTableView['sortField'],
+    sortDirection: view.sortDirection
+  };
+  const myOpenLeadCount = useMemo(
+    () => (user ? countOpenAssignedLeads(leads, user.id, stages) : 0),
+    [leads, user, stages]
+  );
+  const visibleLeads = useMemo(
+    () => (showMyLeads && user ? leads.filter(lead => lead.assigned_to === user.id) : leads),
+    [leads, showMyLeads, user]
+  );
+
+  // Callback times are shown and entered in each lead's client timezone
+  const leadClientIds = useMemo(() => leads.map(lead => lead.client_id), [leads]);
+  const callbackTimeZones = useClientTimezones(leadClientIds);
+  const getLeadTimeZone = (lead: Lead) => callbackTimeZones.get(lead.client_id) ?? DEFAULT_CLIENT_TIMEZONE;
   
   // Refetch leads when selectedClientId changes
   useEffect(() => {
@@ -44,6 +128,28 @@ const Leads: React.FC = () => {
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [mergeGroup, setMergeGroup] = useState<LeadDuplicateGroup | null>(null);
+  const [isAutoAssigning, setIsAutoAssigning] = useState(false);
+  const [callbackLead, setCallbackLead] = useState<Lead | null>(null);
+
+  const toggleMyLeads = () => updateView({ assignedToMe: !showMyLeads });
+
+  // Open a lead linked from elsewhere (e.g. the dashboard's hot leads) with ?lead=<id>
+  const linkedLeadId = searchParams.get('lead');
+  useEffect(() => {
+    if (!linkedLeadId) return;
+    const linkedLead = leads.find(lead => lead.id === linkedLeadId);
+    if (!linkedLead) return;
+
+    setSelectedLead(linkedLead);
+    setIsDetailsOpen(true);
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      next.delete('lead');
+      return next;
+    }, { replace: true });
+  }, [linkedLeadId, leads, setSearchParams]);
 
   // Handle view lead
   const handleViewLead = (lead: Lead) => {
@@ -51,9 +157,108 @@ const Leads: React.FC = () => {
     setIsDetailsOpen(true);
   };
 
-  // Handle edit lead (placeholder for now)
+  // Handle edit lead
   const handleEditLead = (lead: Lead) => {
-    toast.info('Edit lead functionality coming soon');
+    setEditingLead(lead);
+  };
+
+  // Handle save from the edit dialog (optimistic update + audit entry in the hook)
+  const handleSaveLead = async (lead: Lead, updates: LeadEditUpdates) => {
+    try {
+      const updatedLead = await updateLead(lead.id, updates);
+      if (selectedLead?.id === lead.id) {
+        setSelectedLead(updatedLead);
+      }
+      toast.success('Lead updated successfully');
+    } catch (error) {
+      toast.error('Failed to update lead');
+      throw error;
+    }
+  };
+
+  // Handle merge of a duplicate group
+  const handleMergeLeads = async (primary: Lead, duplicates: Lead[], updates: LeadMergeUpdates) => {
+    try {
+      await mergeLeads(primary, duplicates, updates);
+      toast.success(`Merged ${duplicates.length + 1} leads into ${updates.full_name}`);
+    } catch (error) {
+      toast.error('Failed to merge leads');
+      throw error;
+    }
+  };
+
+  // Handle manual assignment (optimistic, rolled back on failure)
+  const handleAssignLead = async (lead: Lead, assignee: LeadAssignee | null) => {
+    try {
+      const updatedLead = await assignLead(lead, assignee);
+      if (selectedLead?.id === lead.id) {
+        setSelectedLead(updatedLead);
+      }
+      toast.success(assignee ? `${lead.full_name} assigned to ${assignee.full_name || assignee.email}` : `${lead.full_name} unassigned`);
+    } catch (error) {
+      toast.error('Failed to assign lead');
+    }
+  };
+
+  // Handle a callback scheduled, moved or cleared by hand (optimistic, rolled back on failure)
+  const handleRescheduleCallback = async (lead: Lead, scheduledAt: Date | null) => {
+    const timeZone = getLeadTimeZone(lead);
+    try {
+      const updatedLead = await rescheduleCallback(lead, scheduledAt, timeZone);
+      if (selectedLead?.id === lead.id) {
+        setSelectedLead(updatedLead);
+      }
+      toast.success(scheduledAt
+        ? `Callback for ${lead.full_name} set for ${formatCallbackTime(scheduledAt, timeZone)}`
+        : `Callback for ${lead.full_name} cleared`);
+    } catch (error) {
+      toast.error('Failed to update callback');
+      throw error;
+    }
+  };
+
+  // Handle a callback marked as done
+  const handleCompleteCallback = async (lead: Lead) => {
+    try {
+      const updatedLead = await completeCallback(lead);
+      if (selectedLead?.id === lead.id) {
+        setSelectedLead(updatedLead);
+      }
+      toast.success(`Callback for ${lead.full_name} marked as done`);
+    } catch (error) {
+      toast.error('Failed to complete callback');
+      throw error;
+    }
+  };
+
+  // New leads are routed on insert; this assigns the open leads still unassigned
+  // (e.g. from before the client's routing rules were set up)
+  const handleAutoAssign = async () => {
+    if (!scopeClientId) return;
+
+    try {
+      setIsAutoAssigning(true);
+      const clientLeads = leads.filter(lead => lead.client_id === scopeClientId);
+      const callIds = clientLeads.filter(lead => !lead.assigned_to).map(lead => lead.call_id).filter(Boolean);
+      const inquiryTypes = await CallIntelligenceService.getCallInquiryTypes(callIds);
+      const plan = planLeadAssignments(clientLeads, routing, assignees, inquiryTypes, stages);
+
+      if (plan.size === 0) {
+        toast.info('No unassigned open leads to route');
+        return;
+      }
+
+      const assigned = await autoAssignLeads(plan, assignees, routing.mode);
+      if (assigned < plan.size) {
+        toast.error(`Assigned ${assigned} of ${plan.size} leads`);
+      } else {
+        toast.success(`Assigned ${assigned} lead${assigned === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      toast.error('Failed to auto-assign leads');
+    } finally {
+      setIsAutoAssigning(false);
+    }
   };
 
   // Handle delete lead
@@ -72,12 +277,22 @@ const Leads: React.FC = () => {
   const handleStatusChange = async (lead: Lead, status: Lead['status']) => {
     try {
       await updateLeadStatus(lead.id, status);
-      toast.success(`Lead status updated to ${status}`);
+      toast.success(`Lead status updated to ${findStage(status, stages)?.label ?? status}`);
     } catch (error) {
       toast.error('Failed to update lead status');
     }
   };
 
+  // Handle a lead dropped onto another board column (optimistic, rolled back on failure)
+  const handleMoveLead = async (lead: Lead, stageKey: string) => {
+    try {
+      await updateLead(lead.id, { lead_status: stageKey });
+      toast.success(`${lead.full_name} moved to ${findStage(stageKey, stages)?.label ?? stageKey}`);
+    } catch (error) {
+      toast.error('Failed to move lead');
+    }
+  };
+
   // Handle add note
   const handleAddNote = async (lead: Lead, note: string) => {
     try {
@@ -89,7 +304,7 @@ const Leads: React.FC = () => {
   };
 
   // Handle export
-  const handleExport = async (format: 'csv' | 'excel', options: LeadExportOptions) => {
+  const handleExport = async (format: LeadExportFormat, options: LeadExportOptions) => {
     try {
       if (format === 'csv') {
         const csvData = await exportLeadsToCSV(options);
@@ -99,6 +314,14 @@ const Leads: React.FC = () => {
           'text/csv;charset=utf-8'
         );
         toast.success('Leads exported to CSV successfully');
+      } else if (format === 'adf') {
+        const adfData = await exportLeadsToAdf(options);
+        downloadFile(
+          adfData,
+          generateExportFilename('leads_adf', 'xml'),
+          ADF_MIME_TYPE
+        );
+        toast.success('Leads exported to ADF/XML successfully');
       } else {
         const excelData = await exportLeadsToExcel(options);
         downloadFile(
@@ -112,6 +335,21 @@ const Leads: React.FC = () => {
     }
   };
 
+  // Handle single lead ADF export from the details view
+  const handleExportLeadAdf = async (lead: Lead) => {
+    try {
+      const adfData = await exportLeadToAdf(lead);
+      downloadFile(
+        adfData,
+        generateExportFilename(`lead_${(lead.full_name || lead.id).replace(/[^a-z0-9]+/gi, '-').toLowerCase()}`, 'xml'),
+        ADF_MIME_TYPE
+      );
+      toast.success('Lead exported to ADF/XML');
+    } catch (error) {
+      toast.error('Failed to export lead');
+    }
+  };
+
   // No need to adapt leads anymore since LeadsTable now accepts Supabase lead format directly
 
   return (
@@ -126,6 +364,59 @@ const Leads: React.FC = () => {
         </div>
         
         <div className="flex gap-2">
+          <div className="flex rounded-md border border-border">
+            <Button
+              variant={view.layout === 'table' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-r-none"
+              onClick={() => updateView({ layout: 'table' })}
+              aria-label="Table view"
+            >
+              <List className="h-4 w-4" />
+              <span className="hidden sm:ml-2 sm:inline">Table</span>
+            </Button>
+            <Button
+              variant={view.layout === 'board' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-l-none"
+              onClick={() => updateView({ layout: 'board' })}
+              aria-label="Board view"
+            >
+              <Columns className="h-4 w-4" />
+              <span className="hidden sm:ml-2 sm:inline">Board</span>
+            </Button>
+          </div>
+          <Button
+            variant={showMyLeads ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={toggleMyLeads}
+            aria-pressed={showMyLeads}
+          >
+            <UserCheck className="h-4 w-4" />
+            <span className="hidden sm:ml-2 sm:inline">My Leads</span>
+            {myOpenLeadCount > 0 && (
+              <span className="ml-1 sm:ml-2 rounded-full bg-primary/10 px-1.5 text-xs text-primary">{myOpenLeadCount}</span>
+            )}
+          </Button>
+          <SavedViewsMenu
+            page="leads"
+            clientId={scopeClientId}
+            clientName={clients.find(client => client.id === selectedClientId)?.name}
+            currentQuery={viewParams.toString()}
+            onApply={applyView}
+            getLink={() => buildViewLink(window.location.origin, location.pathname, viewParams)}
+          />
+          {scopeClientId && routing.mode !== 'manual' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAutoAssign}
+              disabled={isAutoAssigning || loading}
+            >
+              <Shuffle className="h-4 w-4" />
+              <span className="hidden sm:ml-2 sm:inline">{isAutoAssigning ? 'Assigning...' : 'Auto-assign'}</span>
+            </Button>
+          )}
           <Button 
             variant="outline" 
             size="sm" 
@@ -154,15 +445,32 @@ const Leads: React.FC = () => {
             <div className="bg-destructive/10 text-destructive p-4 m-4 rounded-md">
               <p className="text-sm">Error loading leads: {typeof error === 'string' ? error : error.message || 'Unknown error'}</p>
             </div>
+          ) : view.layout === 'board' ? (
+            <LeadPipelineBoard
+              leads={visibleLeads}
+              stages={stages}
+              loading={loading}
+              onViewLead={handleViewLead}
+              onMoveLead={handleMoveLead}
+            />
           ) : (
             <LeadsTable 
-              leads={leads} 
+              leads={visibleLeads} 
               loading={loading} 
+              stages={stages}
               onViewLead={handleViewLead}
               onEditLead={handleEditLead}
               onDeleteLead={handleDeleteLead}
               onStatusChange={handleStatusChange}
               onExportLeads={() => setIsExportOpen(true)}
+              onMergeDuplicates={setMergeGroup}
+              assignees={assignees}
+              onAssignLead={handleAssignLead}
+              callbackTimeZones={callbackTimeZones}
+              onScheduleCallback={setCallbackLead}
+              clientId={scopeClientId}
+              view={tableView}
+              onViewChange={changes => updateView(changes)}
             />
           )}
         </CardContent>
@@ -175,6 +483,41 @@ const Leads: React.FC = () => {
         onClose={() => setIsDetailsOpen(false)}
         onStatusChange={handleStatusChange}
         onAddNote={handleAddNote}
+        onEditLead={handleEditLead}
+        stages={stages}
+        assignees={assignees}
+        onAssignLead={handleAssignLead}
+        callbackTimeZone={selectedLead ? getLeadTimeZone(selectedLead) : undefined}
+        onScheduleCallback={setCallbackLead}
+        onExportAdf={handleExportLeadAdf}
+      />
+
+      {/* Lead Callback Dialog */}
+      <LeadCallbackDialog
+        lead={callbackLead}
+        timeZone={callbackLead ? getLeadTimeZone(callbackLead) : DEFAULT_CLIENT_TIMEZONE}
+        isOpen={!!callbackLead}
+        onClose={() => setCallbackLead(null)}
+        onReschedule={handleRescheduleCallback}
+        onComplete={handleCompleteCallback}
+      />
+
+      {/* Lead Edit Dialog */}
+      <LeadEditDialog
+        lead={editingLead}
+        isOpen={!!editingLead}
+        onClose={() => setEditingLead(null)}
+        onSave={handleSaveLead}
+        stages={stages}
+      />
+
+      {/* Duplicate Lead Merge Dialog */}
+      <LeadMergeDialog
+        leads={leads}
+        group={mergeGroup}
+        isOpen={!!mergeGroup}
+        onClose={() => setMergeGroup(null)}
+        onMerge={handleMergeLeads}
       />
 
       {/* Lead Export Dialog */}
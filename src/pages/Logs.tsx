@@ -1,15 +1,37 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { FileText, RefreshCw, Filter } from 'lucide-react';
-import { useCallLogs } from '@/hooks/useCallLogs';
+import { usePaginatedCallLogs } from '@/hooks/usePaginatedCallLogs';
+import type { CallLogFilters } from '@/integrations/supabase/call-logs-service';
 import { useCallType } from '@/context/CallTypeContext'; // Global call type filter
 import { leadService } from '@/integrations/supabase/lead-service';
-import CallLogsTable, { ExtendedCallLog } from '@/components/CallLogsTable';
+import CallLogsTable, { CallLogsTableView, ExtendedCallLog } from '@/components/CallLogsTable';
+import SavedViewsMenu from '@/components/common/SavedViewsMenu';
+import CallerSearchBox from '@/components/callers/CallerSearchBox';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
 import { useAuth } from '@/context/AuthContext';
 import { useClient } from '@/context/ClientContext';
-import { canViewSensitiveInfo } from '@/utils/clientDataIsolation';
+import { canViewSensitiveInfo, getClientIdFilter } from '@/utils/clientDataIsolation';
 import { CachedAdminService } from '@/services/cachedAdminService';
+import type { CallLogsViewState } from '@/types/savedView';
+import type { CallLogSortField } from '@/types/callLogFilters';
+import {
+  CALL_LOGS_VIEW_PARAMS,
+  buildViewLink,
+  callLogsViewFromParams,
+  callLogsViewToParams,
+  readCallTypeParam,
+  replaceViewParams,
+  toViewDate,
+  viewDateToIso,
+} from '@/utils/savedViews';
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
 
 /**
  * Logs page component for displaying call logs from Supabase
@@ -17,7 +39,7 @@ import { CachedAdminService } from '@/services/cachedAdminService';
  */
 const Logs: React.FC = () => {
   // Global call type filter from context
-  const { selectedCallType } = useCallType();
+  const { selectedCallType, setSelectedCallType } = useCallType();
   // State for call IDs that have an associated lead
   const [leadCallIds, setLeadCallIds] = useState<Set<string>>(new Set());
   const [leadsLoading, setLeadsLoading] = useState(false);
@@ -25,18 +47,103 @@ const Logs: React.FC = () => {
   const { user } = useAuth();
   const { selectedClientId, clients } = useClient();
   const [selectedClientName, setSelectedClientName] = useState<string | null>(null);
-  // Pass selectedCallType as initial filter
-  const { callLogs, loading, error, forceRefresh, refetch } = useCallLogs(true, { callType: selectedCallType });
+
+  // The view (search, call type, dates, advanced filters, sort) lives in the URL,
+  // so saved views and copied links open exactly the same view
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewQuery = searchParams.toString();
+  const view = useMemo(
+    () => callLogsViewFromParams(new URLSearchParams(viewQuery), selectedCallType),
+    [viewQuery, selectedCallType]
+  );
+  const viewParams = useMemo(() => callLogsViewToParams(view), [view]);
+
+  const updateView = useCallback((changes: Partial<CallLogsViewState>) => {
+    setSearchParams(current => replaceViewParams(
+      current,
+      callLogsViewToParams({ ...callLogsViewFromParams(current, selectedCallType), ...changes }),
+      CALL_LOGS_VIEW_PARAMS
+    ), { replace: true });
+  }, [setSearchParams, selectedCallType]);
+
+  const applyView = (query: string) => {
+    const saved = callLogsViewFromParams(new URLSearchParams(query), selectedCallType);
+    setSelectedCallType(saved.callType);
+    setSearchParams(current => replaceViewParams(current, callLogsViewToParams(saved), CALL_LOGS_VIEW_PARAMS));
+  };
+
+  // A link's call type replaces the global toggle when it is opened; after that
+  // the toggle is mirrored into the URL. The URL is read through a ref (updateView
+  // changes with every URL change) so the effect only reacts to the global toggle
+  const urlViewRef = useRef({ linkCallType: readCallTypeParam(searchParams), updateView });
+  urlViewRef.current = { linkCallType: readCallTypeParam(searchParams), updateView };
+  const openedLinkRef = useRef(false);
+  useEffect(() => {
+    const { linkCallType, updateView: updateUrlView } = urlViewRef.current;
+    if (!openedLinkRef.current) {
+      openedLinkRef.current = true;
+      if (linkCallType && linkCallType !== selectedCallType) {
+        setSelectedCallType(linkCallType);
+        return;
+      }
+    }
+    if (linkCallType !== selectedCallType) {
+      updateUrlView({ callType: selectedCallType });
+    }
+  }, [selectedCallType, setSelectedCallType]);
+
+  // Pass the view's filters as initial filters; calls are loaded a page at a time
+  const {
+    callLogs,
+    total,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    refetch,
+    loadMore
+  } = usePaginatedCallLogs({ callType: view.callType, advanced: view.advanced });
   const [clientsMap, setClientsMap] = useState<Record<string, string>>({});
 
   // Client selection is now handled by the global ClientContext
   
-  // Refetch logs when selectedClientId changes
-  // Refetch logs when selectedClientId or selectedCallType changes
+  // Search, filters and sort all run on the server, so every page is in order
+  const [search, setSearch] = useState(view.search);
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(view.search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [view.search]);
+
+  // Refetch logs when the client or the view's filters change. The filters are
+  // compared by value, since the view is decoded again whenever the URL changes
+  const filters: CallLogFilters = {
+    clientId: selectedClientId,
+    callType: view.callType,
+    startDate: viewDateToIso(view.startDate, 'start'),
+    endDate: viewDateToIso(view.endDate, 'end'),
+    advanced: view.advanced,
+    search,
+    callKind: view.callKind,
+    sort: { field: view.sortField as CallLogSortField, direction: view.sortDirection }
+  };
+  const filtersKey = JSON.stringify(filters);
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
   useEffect(() => {
-    refetch({ clientId: selectedClientId, callType: selectedCallType });
-    // Only depend on selectedClientId and selectedCallType, since refetch is stable
-  }, [selectedClientId, selectedCallType]);
+    refetch(filtersRef.current);
+  }, [refetch, filtersKey]);
+
+  const dateRange: DateRange | undefined = view.startDate
+    ? { from: parseISO(view.startDate), to: view.endDate ? parseISO(view.endDate) : undefined }
+    : undefined;
+
+  const tableView: CallLogsTableView = {
+    search: view.search,
+    callKind: view.callKind,
+    sortField: view.sortField as CallLogsTableView['sortField'],
+    sortDirection: view.sortDirection
+  };
   
   // Get selected client name when client ID changes
   useEffect(() => {
@@ -144,15 +251,34 @@ const Logs: React.FC = () => {
           <p className="text-xs sm:text-sm text-muted-foreground mt-1">View and manage your call and appointment data</p>
         </div>
         
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={forceRefresh}
-          disabled={loading}
-        >
-          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-          <span className="hidden sm:ml-2 sm:inline">Refresh</span>
-        </Button>
+        <div className="flex flex-wrap justify-end gap-2">
+          <CallerSearchBox
+            clientId={selectedClientId || getClientIdFilter(user)}
+            className="w-full sm:w-64"
+          />
+          <DateRangePicker
+            value={dateRange}
+            onChange={range => updateView({ startDate: toViewDate(range?.from), endDate: toViewDate(range?.to) })}
+            placeholder="All dates"
+          />
+          <SavedViewsMenu
+            page="call_logs"
+            clientId={selectedClientId || getClientIdFilter(user)}
+            clientName={clients.find(client => client.id === selectedClientId)?.name}
+            currentQuery={viewParams.toString()}
+            onApply={applyView}
+            getLink={() => buildViewLink(window.location.origin, location.pathname, viewParams)}
+          />
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={() => refetch()}
+            disabled={loading}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span className="hidden sm:ml-2 sm:inline">Refresh</span>
+          </Button>
+        </div>
       </div>
 
       {/* Client selection is now handled by the global client selector in TopBar */}
@@ -167,8 +293,17 @@ const Logs: React.FC = () => {
             <CallLogsTable 
               callLogs={enhancedCallLogs} 
               loading={loading || leadsLoading} 
-              onRefresh={forceRefresh} 
+              onRefresh={() => refetch()} 
               leadCallIds={leadCallIds}
+              clientId={selectedClientId}
+              advancedFilters={view.advanced}
+              onAdvancedFiltersChange={advanced => updateView({ advanced })}
+              view={tableView}
+              onViewChange={changes => updateView(changes)}
+              totalCount={total}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
             />
           )}
         </CardContent>
@@ -0,0 +1,394 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, FileDown, FilePlus, Handshake, Pencil, Plus } from 'lucide-react';
+import { DashboardHeader } from '@/components/admin/dashboard/DashboardHeader';
+import { PartnerDialog } from '@/components/admin/analytics/PartnerDialog';
+import { PayoutStatementDialog, PayoutStatusBadge } from '@/components/admin/analytics/PayoutStatementDialog';
+import { useAuth } from '@/context/AuthContext';
+import { useClient } from '@/context/ClientContext';
+import { PartnerPayoutService } from '@/services/partnerPayoutService';
+import type { Partner, PayoutStatement, PayoutStatementWithLines } from '@/types/partnerPayout';
+import { downloadFile } from '@/utils/exportUtils';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { formatBillingMonth, getBillingMonth } from '@/utils/invoices';
+import { buildPayoutSummaryCsv } from '@/utils/partnerPayouts';
+import { useToast } from '@/hooks/use-toast';
+
+// Months that can be viewed, most recent first
+const MONTH_OPTIONS = 12;
+// Select value for clients without a partner
+const NO_PARTNER = 'none';
+
+const money = (amount: number) => formatCurrency(amount, 'CAD', 'en-CA');
+
+const PartnerPayouts: React.FC = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { clients } = useClient();
+  const [billingMonth, setBillingMonth] = useState(getBillingMonth(1));
+  const [partners, setPartners] = useState<Partner[]>([]);
+  const [statements, setStatements] = useState<PayoutStatement[]>([]);
+  const [clientPartners, setClientPartners] = useState<Record<string, string | null>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [viewed, setViewed] = useState<{ partner: Partner; statement: PayoutStatementWithLines } | null>(null);
+  const [editedPartner, setEditedPartner] = useState<Partner | null>(null);
+  const [partnerDialogOpen, setPartnerDialogOpen] = useState(false);
+  const months = Array.from({ length: MONTH_OPTIONS }, (_, index) => getBillingMonth(index));
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const loadPayouts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [partnerList, monthStatements] = await Promise.all([
+        PartnerPayoutService.getPartners(),
+        PartnerPayoutService.getStatements(billingMonth),
+      ]);
+      setPartners(partnerList);
+      setStatements(monthStatements);
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Failed to load partner payouts:', error);
+      showError(error, 'Failed to load partner payouts.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [billingMonth, showError]);
+
+  useEffect(() => {
+    loadPayouts();
+  }, [loadPayouts]);
+
+  useEffect(() => {
+    setClientPartners(Object.fromEntries(clients.map(client => [client.id, client.partner_id ?? null])));
+  }, [clients]);
+
+  const activeClients = useMemo(
+    () => clients.filter(client => client.status === 'active').sort((a, b) => a.name.localeCompare(b.name)),
+    [clients]
+  );
+
+  // Active partners, plus inactive ones that already have a statement this month
+  const rows = useMemo(() => partners
+    .map(partner => ({
+      partner,
+      statement: statements.find(statement => statement.partner_id === partner.id) || null,
+      clientCount: activeClients.filter(client => clientPartners[client.id] === partner.id).length,
+    }))
+    .filter(row => row.partner.is_active || row.statement), [partners, statements, activeClients, clientPartners]);
+
+  const summary = useMemo(() => {
+    const total = (status?: PayoutStatement['status']) => statements
+      .filter(statement => !status || statement.status === status)
+      .reduce((sum, statement) => sum + statement.total_payout_cad, 0);
+    return { total: total(), pending: total('pending'), paid: total('paid') };
+  }, [statements]);
+
+  const handleGenerate = async (partner: Partner) => {
+    setWorkingId(partner.id);
+    try {
+      const statement = await PartnerPayoutService.generateStatement(partner, billingMonth, user?.id);
+      setStatements(current => [...current, statement]);
+      setViewed({ partner, statement });
+      toast({ title: 'Statement Generated', description: `${partner.name} · ${formatBillingMonth(billingMonth)}` });
+    } catch (error) {
+      console.error('Failed to generate payout statement:', error);
+      showError(error, 'Failed to generate statement.');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleView = async (partner: Partner, statementId: string) => {
+    setWorkingId(partner.id);
+    try {
+      setViewed({ partner, statement: await PartnerPayoutService.getStatement(statementId) });
+    } catch (error) {
+      console.error('Failed to load payout statement:', error);
+      showError(error, 'Failed to load statement.');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleStatementChanged = (updated: PayoutStatementWithLines | null) => {
+    if (!viewed) return;
+    const statementId = viewed.statement.id;
+    if (updated) {
+      setViewed({ ...viewed, statement: updated });
+      setStatements(current => current.map(statement => (statement.id === statementId ? updated : statement)));
+    } else {
+      setStatements(current => current.filter(statement => statement.id !== statementId));
+    }
+  };
+
+  const handleAssignPartner = async (clientId: string, value: string) => {
+    const partnerId = value === NO_PARTNER ? null : value;
+    const previous = clientPartners[clientId] ?? null;
+    setClientPartners(current => ({ ...current, [clientId]: partnerId }));
+    try {
+      await PartnerPayoutService.assignClientPartner(clientId, partnerId);
+    } catch (error) {
+      console.error('Failed to link client to partner:', error);
+      setClientPartners(current => ({ ...current, [clientId]: previous }));
+      showError(error, 'Failed to link client to partner.');
+    }
+  };
+
+  const handlePartnerSaved = (saved: Partner) => {
+    setPartners(current => [...current.filter(partner => partner.id !== saved.id), saved]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const handleExportMonth = () => {
+    downloadFile(
+      buildPayoutSummaryCsv(statements, partners),
+      `partner-payouts_${billingMonth.slice(0, 7)}.csv`,
+      'text/csv'
+    );
+  };
+
+  const openPartnerDialog = (partner: Partner | null) => {
+    setEditedPartner(partner);
+    setPartnerDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        title="Partner Payouts"
+        subtitle="Monthly statements of each partner's finder's fees and revenue splits"
+        lastUpdated={lastUpdated}
+        isLoading={isLoading}
+        onRefresh={loadPayouts}
+      />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={billingMonth} onValueChange={setBillingMonth}>
+          <SelectTrigger className="w-[190px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map(month => (
+              <SelectItem key={month} value={month}>{formatBillingMonth(month)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" disabled={statements.length === 0} onClick={handleExportMonth}>
+          <FileDown className="h-4 w-4 mr-2" />
+          Export Month CSV
+        </Button>
+        <Button size="sm" className="ml-auto" onClick={() => openPartnerDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Partner
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Payouts</CardDescription>
+            <CardTitle className="text-2xl">{money(summary.total)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Pending</CardDescription>
+            <CardTitle className="text-2xl text-amber-600">{money(summary.pending)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Paid</CardDescription>
+            <CardTitle className="text-2xl text-emerald-600">{money(summary.paid)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Handshake className="h-5 w-5" />
+            Statements for {formatBillingMonth(billingMonth)}
+          </CardTitle>
+          <CardDescription>
+            Each statement itemizes the partner's active clients: billing, finder's fee and split. Amounts are in CAD.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">Loading partner payouts...</div>
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">No partners yet</div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Partner</TableHead>
+                  <TableHead className="text-right">Clients</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Billing</TableHead>
+                  <TableHead className="text-right">Finder's Fees</TableHead>
+                  <TableHead className="text-right">Splits</TableHead>
+                  <TableHead className="text-right">Payout</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ partner, statement, clientCount }) => (
+                  <TableRow key={partner.id}>
+                    <TableCell>
+                      <div className="font-medium">{partner.name}</div>
+                      {partner.contact_email && (
+                        <div className="text-xs text-muted-foreground">{partner.contact_email}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{clientCount}</TableCell>
+                    <TableCell>
+                      {statement ? (
+                        <PayoutStatusBadge status={statement.status} />
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Not generated</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{statement ? money(statement.total_billing_cad) : '—'}</TableCell>
+                    <TableCell className="text-right">{statement ? money(statement.total_finders_fees_cad) : '—'}</TableCell>
+                    <TableCell className="text-right">{statement ? money(statement.total_splits_cad) : '—'}</TableCell>
+                    <TableCell className="text-right font-medium">{statement ? money(statement.total_payout_cad) : '—'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {statement ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={workingId === partner.id}
+                          onClick={() => handleView(partner, statement.id)}
+                          aria-label="View statement"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={workingId === partner.id || clientCount === 0}
+                          onClick={() => handleGenerate(partner)}
+                        >
+                          <FilePlus className="h-4 w-4 mr-2" />
+                          Generate
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => openPartnerDialog(partner)} aria-label="Edit partner">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Client Partners</CardTitle>
+          <CardDescription>
+            The partner each active client's finder's fee and split is paid to. Changes apply to statements generated afterwards.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {activeClients.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">No active clients</div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead className="text-right">Monthly Billing</TableHead>
+                  <TableHead className="text-right">Finder's Fee</TableHead>
+                  <TableHead className="text-right">Split</TableHead>
+                  <TableHead>Partner</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {activeClients.map(client => {
+                  const partnerId = clientPartners[client.id] ?? null;
+                  const options = partners.filter(partner => partner.is_active || partner.id === partnerId);
+                  return (
+                    <TableRow key={client.id}>
+                      <TableCell>{client.name}</TableCell>
+                      <TableCell className="text-right">{money(client.monthly_billing_amount_cad)}</TableCell>
+                      <TableCell className="text-right">{money(client.finders_fee_cad)}</TableCell>
+                      <TableCell className="text-right">{formatPercentage(client.partner_split_percentage * 100)}</TableCell>
+                      <TableCell>
+                        <Select value={partnerId || NO_PARTNER} onValueChange={value => handleAssignPartner(client.id, value)}>
+                          <SelectTrigger className="w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_PARTNER}>No partner</SelectItem>
+                            {options.map(partner => (
+                              <SelectItem key={partner.id} value={partner.id}>{partner.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {viewed && (
+        <PayoutStatementDialog
+          partner={viewed.partner}
+          statement={viewed.statement}
+          onOpenChange={open => { if (!open) setViewed(null); }}
+          onChanged={handleStatementChanged}
+        />
+      )}
+
+      <PartnerDialog
+        open={partnerDialogOpen}
+        partner={editedPartner}
+        onOpenChange={setPartnerDialogOpen}
+        onSaved={handlePartnerSaved}
+      />
+    </div>
+  );
+};
+
+export default PartnerPayouts;
@@ -0,0 +1,390 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, Wrench, X } from 'lucide-react';
+import { subDays, format } from 'date-fns';
+import { DashboardHeader } from '@/components/admin/dashboard/DashboardHeader';
+import { ToolArgumentBreakdown } from '@/components/admin/analytics/ToolArgumentBreakdown';
+import CallDetailsPopup from '@/components/calls/CallDetailsPopup';
+import { useClient } from '@/context/ClientContext';
+import { callLogsService, CallLog } from '@/integrations/supabase/call-logs-service';
+import { ToolCallService } from '@/services/toolCallService';
+import type { ToolInvocation, ToolResultStatus, ToolStats } from '@/types/toolCalls';
+import {
+  TOOL_RESULT_STATUS_LABELS,
+  getArgumentBreakdown,
+  getToolStats,
+  hasArgumentValue,
+} from '@/utils/toolCalls';
+import { formatNumber, formatPercentage } from '@/utils/formatting';
+import { useToast } from '@/hooks/use-toast';
+
+type Period = '7' | '30' | '90';
+type StatusFilter = Exclude<ToolResultStatus, 'success'> | 'misses' | 'all';
+
+// Invocations listed in the drill-down
+const MAX_DRILL_DOWN_ROWS = 200;
+
+const getStatusBadgeVariant = (status: ToolResultStatus) => {
+  switch (status) {
+    case 'failed':
+      return 'destructive';
+    case 'empty':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+const getRateClassName = (rate: number) =>
+  rate >= 25 ? 'text-destructive font-medium' : rate >= 10 ? 'text-amber-600 font-medium' : '';
+
+const matchesStatus = (invocation: ToolInvocation, filter: StatusFilter) => {
+  if (filter === 'all') return true;
+  if (filter === 'misses') return invocation.status !== 'success';
+  return invocation.status === filter;
+};
+
+const formatArguments = (args: Record<string, unknown> | null) =>
+  args
+    ? Object.entries(args)
+        .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+        .join(', ')
+    : '—';
+
+const ToolAnalytics: React.FC = () => {
+  const { toast } = useToast();
+  const { clients } = useClient();
+  const [invocations, setInvocations] = useState<ToolInvocation[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [clientId, setClientId] = useState<string>('all');
+  const [period, setPeriod] = useState<Period>('30');
+  const [byClient, setByClient] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [selectedTool, setSelectedTool] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('misses');
+  const [argumentFilter, setArgumentFilter] = useState<{ key: string; value: string } | null>(null);
+  const [viewedCall, setViewedCall] = useState<CallLog | null>(null);
+
+  // Analytics pages are admin-only, so every client's tool calls can be listed
+  const loadInvocations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await ToolCallService.getInvocations({
+        clientId: clientId === 'all' ? null : clientId,
+        startDate: subDays(new Date(), Number(period)).toISOString(),
+      });
+      setInvocations(data.invocations);
+      setTruncated(data.truncated);
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Failed to load tool calls:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load tool calls.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clientId, period, toast]);
+
+  useEffect(() => {
+    loadInvocations();
+  }, [loadInvocations]);
+
+  const toolStats = useMemo(() => getToolStats(invocations, byClient), [invocations, byClient]);
+
+  const summary = useMemo(() => {
+    const failed = invocations.filter(invocation => invocation.status === 'failed').length;
+    const empty = invocations.filter(invocation => invocation.status === 'empty').length;
+    const total = invocations.length;
+    return {
+      total,
+      failureRate: total > 0 ? (failed / total) * 100 : 0,
+      emptyRate: total > 0 ? (empty / total) * 100 : 0,
+      tools: new Set(invocations.map(invocation => invocation.tool_name)).size,
+    };
+  }, [invocations]);
+
+  const argumentBreakdown = useMemo(
+    () => (selectedTool ? getArgumentBreakdown(invocations, selectedTool) : []),
+    [invocations, selectedTool]
+  );
+
+  const drillDown = useMemo(() => {
+    if (!selectedTool) return [];
+    return invocations.filter(invocation => {
+      if (invocation.tool_name !== selectedTool || !matchesStatus(invocation, statusFilter)) return false;
+      return !argumentFilter || hasArgumentValue(invocation, argumentFilter.key, argumentFilter.value);
+    });
+  }, [invocations, selectedTool, statusFilter, argumentFilter]);
+
+  const handleSelectTool = (stats: ToolStats) => {
+    setSelectedTool(current => (current === stats.tool_name ? null : stats.tool_name));
+    setArgumentFilter(null);
+  };
+
+  const handleViewCall = async (callId: string) => {
+    try {
+      setViewedCall(await callLogsService.getCallLogById(callId));
+    } catch (error) {
+      console.error('Failed to load call:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load call.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        title="Tool Calls"
+        subtitle="How agents use their tools, and where tools fail or come back empty"
+        lastUpdated={lastUpdated}
+        isLoading={isLoading}
+        onRefresh={loadInvocations}
+      />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={clientId} onValueChange={(value) => { setClientId(value); setSelectedTool(null); }}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All clients</SelectItem>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch id="tools-by-client" checked={byClient} onCheckedChange={setByClient} />
+          <Label htmlFor="tools-by-client">Split by client</Label>
+        </div>
+      </div>
+
+      {truncated && (
+        <p className="text-sm text-muted-foreground">
+          Showing the newest {formatNumber(invocations.length)} invocations only. Pick a client or a shorter period to include them all.
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Invocations</CardDescription>
+            <CardTitle className="text-2xl">{formatNumber(summary.total)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Failure Rate</CardDescription>
+            <CardTitle className="text-2xl">{formatPercentage(summary.failureRate)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Empty-Result Rate</CardDescription>
+            <CardTitle className="text-2xl">{formatPercentage(summary.emptyRate)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tools Used</CardDescription>
+            <CardTitle className="text-2xl">{formatNumber(summary.tools)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Tools
+          </CardTitle>
+          <CardDescription>Select a tool to see its arguments and the calls where it failed or found nothing</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">Loading tool calls...</div>
+            </div>
+          ) : toolStats.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">No tool calls in this period</div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tool</TableHead>
+                  {byClient && <TableHead>Client</TableHead>}
+                  <TableHead className="text-right">Invocations</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Empty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {toolStats.map(stats => (
+                  <TableRow
+                    key={`${stats.tool_name}-${stats.client_id ?? 'all'}`}
+                    className="cursor-pointer"
+                    data-state={selectedTool === stats.tool_name ? 'selected' : undefined}
+                    onClick={() => handleSelectTool(stats)}
+                  >
+                    <TableCell className="font-mono text-sm">{stats.tool_name}</TableCell>
+                    {byClient && <TableCell>{stats.client_name ?? '—'}</TableCell>}
+                    <TableCell className="text-right">{formatNumber(stats.invocations)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(stats.calls)}</TableCell>
+                    <TableCell className={`text-right ${getRateClassName(stats.failureRate)}`}>
+                      {formatNumber(stats.failed)} ({formatPercentage(stats.failureRate)})
+                    </TableCell>
+                    <TableCell className={`text-right ${getRateClassName(stats.emptyRate)}`}>
+                      {formatNumber(stats.empty)} ({formatPercentage(stats.emptyRate)})
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedTool && (
+        <div className="grid gap-4 lg:grid-cols-3">
+          <ToolArgumentBreakdown
+            toolName={selectedTool}
+            breakdown={argumentBreakdown}
+            onSelectValue={(key, value) => setArgumentFilter({ key, value })}
+          />
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="font-mono">{selectedTool}</CardTitle>
+                  <CardDescription>
+                    {drillDown.length > MAX_DRILL_DOWN_ROWS
+                      ? `Latest ${MAX_DRILL_DOWN_ROWS} of ${formatNumber(drillDown.length)} invocations`
+                      : `${formatNumber(drillDown.length)} invocations`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {argumentFilter && (
+                    <Button variant="outline" size="sm" onClick={() => setArgumentFilter(null)}>
+                      {argumentFilter.key}: {argumentFilter.value}
+                      <X className="h-3 w-3 ml-1" />
+                    </Button>
+                  )}
+                  <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="misses">Failed or empty</SelectItem>
+                      <SelectItem value="empty">{TOOL_RESULT_STATUS_LABELS.empty}</SelectItem>
+                      <SelectItem value="failed">{TOOL_RESULT_STATUS_LABELS.failed}</SelectItem>
+                      <SelectItem value="all">All invocations</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {drillDown.length === 0 ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="text-muted-foreground">No matching invocations</div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Client</TableHead>
+                      <TableHead>Arguments</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead className="text-right">Call</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {drillDown.slice(0, MAX_DRILL_DOWN_ROWS).map(invocation => (
+                      <TableRow key={invocation.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(new Date(invocation.created_at), 'MMM d, h:mm a')}
+                        </TableCell>
+                        <TableCell className="text-sm">{invocation.client_name ?? '—'}</TableCell>
+                        <TableCell className="max-w-[220px]">
+                          <span className="text-xs font-mono text-muted-foreground line-clamp-2" title={formatArguments(invocation.arguments)}>
+                            {formatArguments(invocation.arguments)}
+                          </span>
+                        </TableCell>
+                        <TableCell className="max-w-[220px]">
+                          <div className="space-y-1">
+                            <Badge variant={getStatusBadgeVariant(invocation.status)}>
+                              {TOOL_RESULT_STATUS_LABELS[invocation.status]}
+                            </Badge>
+                            {invocation.result && (
+                              <span className="block text-xs text-muted-foreground line-clamp-2" title={invocation.result}>
+                                {invocation.result}
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleViewCall(invocation.call_id)} aria-label="View call">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <CallDetailsPopup
+        call={viewedCall}
+        isOpen={!!viewedCall}
+        onClose={() => setViewedCall(null)}
+      />
+    </div>
+  );
+};
+
+export default ToolAnalytics;
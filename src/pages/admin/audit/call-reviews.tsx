@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClipboardCheck, Eye, Hand } from 'lucide-react';
+import { DashboardHeader } from '@/components/admin/dashboard/DashboardHeader';
+import CallReviewDialog from '@/components/admin/reviews/CallReviewDialog';
+import CallDetailsPopup from '@/components/calls/CallDetailsPopup';
+import { useAuth } from '@/context/AuthContext';
+import { callLogsService, CallLog } from '@/integrations/supabase/call-logs-service';
+import { CallReviewService } from '@/services/callReviewService';
+import type { CallReview, CallReviewPriority, CallReviewStatus, CallReviewer } from '@/types/callReview';
+import {
+  REVIEW_PRIORITY_LABELS,
+  REVIEW_VERDICT_LABELS,
+  getReviewPriority,
+  getReviewQueueStats,
+  sortReviewsByPriority,
+} from '@/utils/callReview';
+import { useToast } from '@/hooks/use-toast';
+import { format, formatDistanceToNow } from 'date-fns';
+
+type AssigneeFilter = 'all' | 'mine' | 'unclaimed';
+
+const getPriorityBadgeVariant = (priority: CallReviewPriority) => {
+  switch (priority) {
+    case 'high':
+      return 'destructive';
+    case 'medium':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+const CallReviews: React.FC = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<CallReview[]>([]);
+  const [reviewers, setReviewers] = useState<CallReviewer[]>([]);
+  const [status, setStatus] = useState<CallReviewStatus | 'all'>('unresolved');
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [claimingIds, setClaimingIds] = useState<Set<string>>(new Set());
+  const [selectedReviewId, setSelectedReviewId] = useState<string | null>(null);
+  const [viewedCall, setViewedCall] = useState<CallLog | null>(null);
+
+  // Audit pages are admin-only, so reviews for every client are listed
+  const loadReviews = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await CallReviewService.getReviews({ clientId: null, status });
+      setReviews(data);
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Failed to load call reviews:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load call reviews.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  useEffect(() => {
+    CallReviewService.getReviewers()
+      .then(setReviewers)
+      .catch(error => console.error('Failed to load reviewers:', error));
+  }, []);
+
+  const visibleReviews = useMemo(() => reviews.filter(review => {
+    if (assigneeFilter === 'mine') return review.assigned_to === user?.id;
+    if (assigneeFilter === 'unclaimed') return !review.assigned_to;
+    return true;
+  }), [reviews, assigneeFilter, user?.id]);
+
+  const stats = useMemo(() => getReviewQueueStats(reviews), [reviews]);
+  const selectedReview = reviews.find(review => review.id === selectedReviewId) ?? null;
+
+  // Keep the list in step with changes made in the dialog; reviews that no longer
+  // match the status filter stay visible until the next refresh
+  const handleReviewUpdated = (updated: CallReview) => {
+    setReviews(current => sortReviewsByPriority(
+      current.map(review => (review.id === updated.id ? updated : review))
+    ));
+  };
+
+  const handleClaim = async (review: CallReview) => {
+    if (!user?.id) return;
+    setClaimingIds(current => new Set([...current, review.id]));
+    try {
+      handleReviewUpdated(await CallReviewService.claimReview(review.id, user.id));
+      toast({ title: 'Review Claimed', description: 'The review is now assigned to you.' });
+    } catch (error) {
+      console.error('Failed to claim call review:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to claim review.',
+        variant: 'destructive',
+      });
+      await loadReviews();
+    } finally {
+      setClaimingIds(current => new Set([...current].filter(id => id !== review.id)));
+    }
+  };
+
+  const handleViewCall = async (callId: string) => {
+    try {
+      setViewedCall(await callLogsService.getCallLogById(callId));
+    } catch (error) {
+      console.error('Failed to load call:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load call.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col space-y-6 overflow-y-auto pr-2">
+      <DashboardHeader
+        title="Review Queue"
+        subtitle="Calls the evaluation flagged for human review"
+        lastUpdated={lastUpdated}
+        isLoading={isLoading}
+        onRefresh={loadReviews}
+      />
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Flagged Calls
+              </CardTitle>
+              <CardDescription>
+                {status === 'resolved'
+                  ? 'Resolved reviews, newest first.'
+                  : `${stats.unresolved} unresolved, ${stats.unclaimed} unclaimed. Highest priority first: failure risk, negative calls and time waiting raise priority.`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={assigneeFilter} onValueChange={(value) => setAssigneeFilter(value as AssigneeFilter)}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
+                  <SelectItem value="unclaimed">Unclaimed</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={status} onValueChange={(value) => setStatus(value as CallReviewStatus | 'all')}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unresolved">Unresolved</SelectItem>
+                  <SelectItem value="resolved">Resolved</SelectItem>
+                  <SelectItem value="all">All reviews</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">Loading review queue...</div>
+            </div>
+          ) : visibleReviews.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">No reviews found</div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Call</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Flagged</TableHead>
+                  <TableHead>Assignee</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleReviews.map(review => {
+                  const { priority } = getReviewPriority(review);
+                  const isResolved = review.status === 'resolved';
+                  return (
+                    <TableRow key={review.id}>
+                      <TableCell>
+                        {isResolved ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Badge variant={getPriorityBadgeVariant(priority)}>{REVIEW_PRIORITY_LABELS[priority]}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{review.caller_name || 'Unknown caller'}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {review.caller_phone}
+                          {review.call_start_time && ` · ${format(new Date(review.call_start_time), 'MMM d, h:mm a')}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{review.client_name ?? '—'}</TableCell>
+                      <TableCell className="max-w-[260px]">
+                        <span className="text-sm text-muted-foreground line-clamp-2" title={review.review_reason ?? undefined}>
+                          {review.review_reason ?? '—'}
+                        </span>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {formatDistanceToNow(new Date(review.flagged_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {review.assignee_name ?? <span className="text-muted-foreground">Unclaimed</span>}
+                      </TableCell>
+                      <TableCell>
+                        {isResolved ? (
+                          <Badge variant="default">{review.verdict ? REVIEW_VERDICT_LABELS[review.verdict] : 'Resolved'}</Badge>
+                        ) : (
+                          <Badge variant="outline">Unresolved</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {!isResolved && !review.assigned_to && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={!user?.id || claimingIds.has(review.id)}
+                            onClick={() => handleClaim(review)}
+                          >
+                            <Hand className="h-4 w-4 mr-1" />
+                            Claim
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedReviewId(review.id)} aria-label="Open review">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CallReviewDialog
+        key={selectedReview?.id ?? 'none'}
+        review={selectedReview}
+        reviewers={reviewers}
+        currentUserId={user?.id ?? null}
+        onClose={() => setSelectedReviewId(null)}
+        onUpdated={handleReviewUpdated}
+        onViewCall={handleViewCall}
+      />
+
+      <CallDetailsPopup
+        call={viewedCall}
+        isOpen={!!viewedCall}
+        onClose={() => setViewedCall(null)}
+      />
+    </div>
+  );
+};
+
+export default CallReviews;
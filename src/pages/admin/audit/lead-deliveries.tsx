@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Eye, RotateCw, Send } from 'lucide-react';
+import { DashboardHeader } from '@/components/admin/dashboard/DashboardHeader';
+import { LeadDeliveryService } from '@/services/leadDeliveryService';
+import type { LeadDelivery, LeadDeliveryAttempt, LeadDeliveryStatus } from '@/types/leadDelivery';
+import { DELIVERY_CHANNEL_LABELS, DELIVERY_STATUS_LABELS } from '@/utils/leadDelivery';
+import { useToast } from '@/hooks/use-toast';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const STATUS_FILTERS: (LeadDeliveryStatus | 'all')[] = ['failed', 'retrying', 'pending', 'sending', 'delivered', 'all'];
+
+const getStatusBadgeVariant = (status: LeadDeliveryStatus) => {
+  switch (status) {
+    case 'delivered':
+      return 'default';
+    case 'failed':
+      return 'destructive';
+    case 'retrying':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+const LeadDeliveries: React.FC = () => {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<LeadDelivery[]>([]);
+  const [status, setStatus] = useState<LeadDeliveryStatus | 'all'>('failed');
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [resendingIds, setResendingIds] = useState<Set<string>>(new Set());
+  const [detailsDelivery, setDetailsDelivery] = useState<LeadDelivery | null>(null);
+  const [attempts, setAttempts] = useState<LeadDeliveryAttempt[]>([]);
+  const [isLoadingAttempts, setIsLoadingAttempts] = useState(false);
+
+  // Audit pages are admin-only, so deliveries for every client are listed
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await LeadDeliveryService.getDeliveries({ clientId: null, status });
+      setDeliveries(data);
+      setSelectedIds(new Set());
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Failed to load lead deliveries:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load lead deliveries.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleResend = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    setResendingIds(current => new Set([...current, ...ids]));
+    try {
+      const { delivered, failed } = await LeadDeliveryService.resendDeliveries(ids);
+      toast({
+        title: failed > 0 ? 'Resend Finished With Failures' : 'Leads Resent',
+        description: `${delivered} delivered, ${failed} failed.`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Failed to resend lead deliveries:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resend lead deliveries.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResendingIds(current => new Set([...current].filter(id => !ids.includes(id))));
+    }
+  };
+
+  const handleViewAttempts = async (delivery: LeadDelivery) => {
+    setDetailsDelivery(delivery);
+    setAttempts([]);
+    setIsLoadingAttempts(true);
+    try {
+      setAttempts(await LeadDeliveryService.getAttempts(delivery.id));
+    } catch (error) {
+      console.error('Failed to load delivery attempts:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load delivery attempts.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingAttempts(false);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // Deliveries already being sent can't be resent until that run finishes
+  const resendable = deliveries.filter(delivery => delivery.status !== 'sending');
+  const allSelected = resendable.length > 0 && resendable.every(delivery => selectedIds.has(delivery.id));
+
+  return (
+    <div className="h-full flex flex-col space-y-6 overflow-y-auto pr-2">
+      <DashboardHeader
+        title="Lead Deliveries"
+        subtitle="Leads sent to dealerships by email digest, ADF/XML email and webhook"
+        lastUpdated={lastUpdated}
+        isLoading={isLoading}
+        onRefresh={loadDeliveries}
+      />
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Send className="h-5 w-5" />
+                Deliveries
+              </CardTitle>
+              <CardDescription>
+                Failed deliveries stopped retrying after their last attempt. Resending starts a fresh round of retries.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={status} onValueChange={(value) => setStatus(value as LeadDeliveryStatus | 'all')}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_FILTERS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {option === 'all' ? 'All statuses' : DELIVERY_STATUS_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                disabled={selectedIds.size === 0 || resendingIds.size > 0}
+                onClick={() => handleResend([...selectedIds])}
+              >
+                <RotateCw className="h-4 w-4 mr-2" />
+                Resend Selected ({selectedIds.size})
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">Loading lead deliveries...</div>
+            </div>
+          ) : deliveries.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-muted-foreground">No deliveries found</div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(checked ? new Set(resendable.map(delivery => delivery.id)) : new Set())}
+                      aria-label="Select all deliveries"
+                    />
+                  </TableHead>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(delivery.id)}
+                        disabled={delivery.status === 'sending'}
+                        onCheckedChange={(checked) => toggleSelected(delivery.id, !!checked)}
+                        aria-label={`Select delivery for ${delivery.lead_name ?? 'lead'}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{delivery.lead_name ?? 'Deleted lead'}</TableCell>
+                    <TableCell>{delivery.client_name ?? '—'}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{DELIVERY_CHANNEL_LABELS[delivery.channel_type]}</div>
+                      <div className="text-xs text-muted-foreground truncate max-w-[220px]" title={delivery.destination}>
+                        {delivery.destination}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusBadgeVariant(delivery.status)}>
+                        {DELIVERY_STATUS_LABELS[delivery.status]}
+                      </Badge>
+                      {(delivery.status === 'retrying' || delivery.status === 'pending') && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Next {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.attempt_count} / {delivery.max_attempts}</TableCell>
+                    <TableCell className="max-w-[260px]">
+                      <span className="text-sm text-muted-foreground line-clamp-2" title={delivery.last_error ?? undefined}>
+                        {delivery.last_error ?? '—'}
+                      </span>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handleViewAttempts(delivery)} aria-label="View attempts">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={delivery.status === 'sending' || resendingIds.has(delivery.id)}
+                        onClick={() => handleResend([delivery.id])}
+                        aria-label="Resend"
+                      >
+                        <RotateCw className={`h-4 w-4 ${resendingIds.has(delivery.id) ? 'animate-spin' : ''}`} />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!detailsDelivery} onOpenChange={(open) => !open && setDetailsDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Attempts</DialogTitle>
+            <DialogDescription>
+              {detailsDelivery && (
+                <>
+                  {detailsDelivery.lead_name ?? 'Deleted lead'} via {DELIVERY_CHANNEL_LABELS[detailsDelivery.channel_type]} to {detailsDelivery.destination}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingAttempts ? (
+            <div className="py-6 text-center text-muted-foreground">Loading attempts...</div>
+          ) : attempts.length === 0 ? (
+            <div className="py-6 text-center text-muted-foreground">No attempts yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map(attempt => (
+                  <TableRow key={attempt.id}>
+                    <TableCell>{attempt.attempt_number}</TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(attempt.attempted_at), 'MMM d, h:mm:ss a')}
+                      {attempt.triggered_by && <div className="text-xs text-muted-foreground">Manual resend</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={attempt.succeeded ? 'default' : 'destructive'}>
+                        {attempt.succeeded ? 'Sent' : 'Failed'}
+                        {attempt.response_status ? ` (${attempt.response_status})` : ''}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {attempt.duration_ms !== null ? `${attempt.duration_ms} ms` : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground break-all">{attempt.error ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LeadDeliveries;
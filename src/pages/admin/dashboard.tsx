@@ -4,7 +4,9 @@ import { Button } from '@/components/ui/button';
 import { DashboardHeader } from '@/components/admin/dashboard/DashboardHeader';
 import { FinancialOverview } from '@/components/admin/dashboard/FinancialOverview';
 import { BusinessMetrics } from '@/components/admin/dashboard/BusinessMetrics';
+import { ReviewQueueSummary } from '@/components/admin/dashboard/ReviewQueueSummary';
 import { useAdminDashboardData } from '@/hooks/useAdminDashboardData';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import { AlertCircle, BarChart3, Users, Building2, Activity, ArrowRight } from 'lucide-react';
@@ -200,6 +202,8 @@ const AdminDashboardPage: React.FC = () => {
     enableToasts: false,
     retryAttempts: 2
   });
+  // Financial metrics are in CAD, shown in the user's display currency
+  const displayCurrency = useDisplayCurrency();
 
   // Show loading skeleton on initial load
   if (isLoading && !data.dashboardMetrics && !data.financialMetrics) {
@@ -225,7 +229,8 @@ const AdminDashboardPage: React.FC = () => {
       revenueGrowth: 0,
       costGrowth: 0,
       profitGrowth: 0
-    }
+    },
+    exchangeRates: data.costBreakdown?.exchangeRates
   } : null;
 
   // Prepare business metrics for BusinessMetrics component
@@ -256,7 +261,12 @@ const AdminDashboardPage: React.FC = () => {
       {financialMetrics ? (
         <div className="space-y-2">
           <h2 className="text-lg font-semibold text-foreground">Financial Overview</h2>
-          <FinancialOverview metrics={financialMetrics} />
+          <FinancialOverview
+            metrics={financialMetrics}
+            currency={displayCurrency.currency}
+            exchangeRate={displayCurrency.exchangeRate}
+            format={displayCurrency.format}
+          />
         </div>
       ) : (
         <div className="flex items-center justify-center py-8">
@@ -276,6 +286,9 @@ const AdminDashboardPage: React.FC = () => {
         </div>
       )}
       
+      {/* Human Review Queue */}
+      <ReviewQueueSummary />
+      
       {/* Quick Access Cards */}
       <QuickAccessGrid />
     </div>
@@ -28,7 +28,16 @@ import {
 import { AdminService } from '@/services/adminService';
 import { Client } from '@/types/admin';
 import ClientForm from '@/components/admin/clients/ClientForm';
+import PipelineStagesEditor from '@/components/admin/clients/PipelineStagesEditor';
+import LeadRoutingEditor from '@/components/admin/clients/LeadRoutingEditor';
+import ClientTimezoneEditor from '@/components/admin/clients/ClientTimezoneEditor';
+import ClientCurrencyEditor from '@/components/admin/clients/ClientCurrencyEditor';
+import LeadDeliveryEditor from '@/components/admin/clients/LeadDeliveryEditor';
+import LeadScoringEditor from '@/components/admin/clients/LeadScoringEditor';
+import ClientInvoicesTab from '@/components/admin/clients/ClientInvoicesTab';
 import { formatCurrency, formatDate, formatPercentage } from '@/utils/formatters';
+import { describeAppliedRates } from '@/utils/exchangeRates';
+import { useUsdToCadRate } from '@/hooks/useExchangeRate';
 
 const ClientDetails = () => {
   const { id } = useParams<{ id: string }>();
@@ -40,6 +49,7 @@ const ClientDetails = () => {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const usdToCadRate = useUsdToCadRate();
 
   useEffect(() => {
     const loadClient = async () => {
@@ -276,6 +286,7 @@ const ClientDetails = () => {
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="billing">Billing</TabsTrigger>
+          <TabsTrigger value="invoices">Invoices</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
         </TabsList>
@@ -492,16 +503,18 @@ const ClientDetails = () => {
                     <div>
                       <p className="font-medium">Estimated Monthly Profit</p>
                       <p className="text-muted-foreground">
-                        {formatCurrency(
+                        {usdToCadRate ? formatCurrency(
                           client.monthly_billing_amount_cad -
-                          (client.average_monthly_ai_cost_usd + client.average_monthly_misc_cost_usd) * 1.35 -
+                          (client.average_monthly_ai_cost_usd + client.average_monthly_misc_cost_usd) * usdToCadRate.rate -
                           (client.monthly_billing_amount_cad * client.partner_split_percentage / 100),
                           'CAD'
-                        )}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        (Assuming USD/CAD exchange rate of 1.35)
+                        ) : '…'}
                       </p>
+                      {usdToCadRate && (
+                        <p className="text-xs text-muted-foreground">
+                          ({describeAppliedRates([usdToCadRate])})
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -510,8 +523,25 @@ const ClientDetails = () => {
           </Card>
         </TabsContent>
 
+        {/* Invoices Tab */}
+        <TabsContent value="invoices" className="space-y-6">
+          <ClientInvoicesTab client={client} onClientSaved={setClient} />
+        </TabsContent>
+
         {/* Settings Tab */}
         <TabsContent value="settings" className="space-y-6">
+          <PipelineStagesEditor client={client} onSaved={setClient} />
+
+          <LeadRoutingEditor client={client} onSaved={setClient} />
+
+          <ClientTimezoneEditor client={client} onSaved={setClient} />
+
+          <ClientCurrencyEditor client={client} onSaved={setClient} />
+
+          <LeadDeliveryEditor client={client} onSaved={setClient} />
+
+          <LeadScoringEditor client={client} onSaved={setClient} />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Client Configuration</CardTitle>
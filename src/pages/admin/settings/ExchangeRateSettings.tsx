@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeftRight, History, PenLine, RefreshCw, Trash2 } from 'lucide-react';
+import { DashboardHeader } from '@/components/admin/dashboard/DashboardHeader';
+import { exchangeRateService } from '@/services/exchangeRateService';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import type { AppliedExchangeRate, ExchangeRateHistoryEntry } from '@/types/exchangeRate';
+import { describeAppliedRates, toRateDate } from '@/utils/exchangeRates';
+
+/**
+ * USD to CAD rate history, with manual overrides for days the feed got wrong
+ * or missed. Every conversion of a cost looks up the rate of its own day here.
+ */
+const ExchangeRateSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const [history, setHistory] = useState<ExchangeRateHistoryEntry[]>([]);
+  const [todayRate, setTodayRate] = useState<AppliedExchangeRate | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [error, setError] = useState<string | null>(null);
+
+  // Override form state
+  const [overrideDate, setOverrideDate] = useState(toRateDate(new Date()));
+  const [overrideRate, setOverrideRate] = useState('');
+  const [overrideNote, setOverrideNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFetchingFeed, setIsFetchingFeed] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [entries, applied] = await Promise.all([
+        exchangeRateService.getRateHistory(),
+        exchangeRateService.getAppliedUsdToCadRate(),
+      ]);
+      setHistory(entries);
+      setTodayRate(applied);
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error('Failed to load exchange rates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load exchange rates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  // Days that have an override; their feed rate is not used
+  const overriddenDays = new Set(history.filter(entry => entry.source === 'manual').map(entry => entry.rate_date));
+
+  const handleSaveOverride = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await exchangeRateService.setManualRate(overrideDate, Number(overrideRate), overrideNote, user?.id);
+      toast({
+        title: 'Override Saved',
+        description: `Costs on ${saved.rate_date} now convert at 1 USD = ${saved.rate} CAD.`,
+      });
+      setOverrideRate('');
+      setOverrideNote('');
+      loadRates();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to save exchange rate',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async (entry: ExchangeRateHistoryEntry) => {
+    setRemovingId(entry.id);
+    try {
+      await exchangeRateService.removeManualRate(entry.id);
+      toast({
+        title: 'Override Removed',
+        description: `Costs on ${entry.rate_date} convert at the feed rate again.`,
+      });
+      loadRates();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to remove exchange rate override',
+        variant: 'destructive',
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleFetchFeedRate = async () => {
+    setIsFetchingFeed(true);
+    try {
+      const rate = await exchangeRateService.fetchLatestRate();
+      if (rate === null) {
+        throw new Error('The rate feed did not return a USD to CAD rate');
+      }
+      toast({
+        title: 'Feed Rate Updated',
+        description: `Today's feed rate is 1 USD = ${rate} CAD.`,
+      });
+      loadRates();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to fetch the latest rate',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsFetchingFeed(false);
+    }
+  };
+
+  const canSaveOverride = Boolean(overrideDate) && Number(overrideRate) > 0 && overrideNote.trim().length > 0;
+
+  return (
+    <div className="space-y-6 pb-8">
+      <DashboardHeader
+        title="Exchange Rates"
+        subtitle="USD to CAD rates used to convert costs, by day"
+        lastUpdated={lastUpdated}
+        isLoading={isLoading}
+        onRefresh={loadRates}
+      />
+
+      {/* Today's Rate */}
+      <Card className="bg-card text-card-foreground border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Today's Rate
+          </CardTitle>
+          <CardDescription>
+            Costs are converted at the rate of the day they were incurred. Days without a rate use the latest earlier one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <div className="text-2xl font-bold">
+              {todayRate ? `1 USD = ${todayRate.rate} CAD` : '…'}
+            </div>
+            {todayRate && (
+              <p className="text-xs text-muted-foreground">{describeAppliedRates([todayRate])}</p>
+            )}
+          </div>
+          <Button variant="outline" onClick={handleFetchFeedRate} disabled={isFetchingFeed}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetchingFeed ? 'animate-spin' : ''}`} />
+            {isFetchingFeed ? 'Fetching...' : 'Fetch Latest Feed Rate'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Manual Override */}
+      <Card className="bg-card text-card-foreground border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PenLine className="h-5 w-5" />
+            Manual Override
+          </CardTitle>
+          <CardDescription>
+            Set the rate for a day. An override wins over the feed rate for that day and is written to the audit log.
+            Reopen closed months to apply it to their figures.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="override-date">Day</Label>
+              <Input
+                id="override-date"
+                type="date"
+                value={overrideDate}
+                max={toRateDate(new Date())}
+                onChange={event => setOverrideDate(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-rate">CAD per 1 USD</Label>
+              <Input
+                id="override-rate"
+                type="number"
+                min="0"
+                step="0.0001"
+                placeholder="1.3500"
+                value={overrideRate}
+                onChange={event => setOverrideRate(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-note">Reason</Label>
+              <Input
+                id="override-note"
+                placeholder="e.g. Feed missed this day; Bank of Canada rate"
+                value={overrideNote}
+                onChange={event => setOverrideNote(event.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={handleSaveOverride} disabled={isSaving || !canSaveOverride}>
+            {isSaving ? 'Saving...' : 'Save Override'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Rate History */}
+      <Card className="bg-card text-card-foreground border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Rate History
+          </CardTitle>
+          <CardDescription>The last 90 rates, newest day first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? 'Loading rates...' : 'No rates recorded yet. Costs convert at the default rate.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>CAD per 1 USD</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(entry => {
+                  const overridden = entry.source === 'feed' && overriddenDays.has(entry.rate_date);
+                  return (
+                    <TableRow key={entry.id} className={overridden ? 'text-muted-foreground' : undefined}>
+                      <TableCell>{entry.rate_date}</TableCell>
+                      <TableCell className={overridden ? 'line-through' : 'font-medium'}>{entry.rate}</TableCell>
+                      <TableCell>
+                        {entry.source === 'manual' ? (
+                          <Badge>Manual override</Badge>
+                        ) : (
+                          <Badge variant="outline">{overridden ? 'Feed (overridden)' : 'Feed'}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.note || '—'}</TableCell>
+                      <TableCell>
+                        {entry.source === 'manual' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveOverride(entry)}
+                            disabled={removingId === entry.id}
+                            aria-label={`Remove override for ${entry.rate_date}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExchangeRateSettings;
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildLeadTimeline } from '../leadActivityService';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadActivity } from '@/types/leadActivity';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const lead: Lead = {
+  id: 'lead-1',
+  full_name: 'Jane Doe',
+  phone_number: '+14165550123',
+  email: null,
+  lead_status: 'contacted',
+  status: 'contacted',
+  source: 'ai_agent',
+  call_id: 'call-1',
+  client_id: 'client-1',
+  created_at: '2025-07-15T14:35:00Z',
+  notes: 'Interested in a 2023 Civic',
+  sent_to: 'sales@dealer.com',
+  sent_to_client_at: '2025-07-15T14:40:00Z',
+};
+
+const makeActivity = (overrides: Partial<LeadActivity>): LeadActivity => ({
+  id: 'activity-1',
+  lead_id: 'lead-1',
+  client_id: 'client-1',
+  activity_type: 'note',
+  content: null,
+  metadata: null,
+  created_by: 'user-1',
+  created_at: '2025-07-16T09:00:00Z',
+  author_name: 'Sam Staff',
+  ...overrides,
+});
+
+describe('buildLeadTimeline', () => {
+  it('should merge activities, lead milestones and the linked call newest first', () => {
+    const timeline = buildLeadTimeline(
+      lead,
+      [
+        makeActivity({ id: 'note-1', content: 'Left voicemail' }),
+        makeActivity({
+          id: 'status-1',
+          activity_type: 'status_change',
+          metadata: { from: 'New', to: 'contacted' },
+          created_at: '2025-07-16T10:00:00Z',
+        }),
+      ],
+      { id: 'call-1', call_start_time: '2025-07-15T14:30:00Z', call_summary: 'Asked about Civic pricing' }
+    );
+
+    expect(timeline.map(event => event.type)).toEqual([
+      'status_change',
+      'note',
+      'sent_to_client',
+      'lead_created',
+      'legacy_notes',
+      'call',
+    ]);
+    expect(timeline[0].title).toBe('Status changed from New to Contacted');
+    expect(timeline[1].author).toBe('Sam Staff');
+    expect(timeline[2].content).toBe('Sent to sales@dealer.com');
+  });
+
+  it('should not duplicate milestones that are already stored as activities', () => {
+    const timeline = buildLeadTimeline(lead, [
+      makeActivity({
+        id: 'sent-1',
+        activity_type: 'sent_to_client',
+        created_by: null,
+        author_name: null,
+        created_at: lead.sent_to_client_at!,
+        metadata: { sent_to: 'sales@dealer.com' },
+      }),
+    ]);
+
+    expect(timeline.filter(event => event.type === 'sent_to_client')).toHaveLength(1);
+    expect(timeline.find(event => event.type === 'sent_to_client')?.id).toBe('sent-1');
+  });
+
+  it('should skip the legacy notes entry when the lead has no notes', () => {
+    const timeline = buildLeadTimeline({ ...lead, notes: undefined }, []);
+
+    expect(timeline.some(event => event.type === 'legacy_notes')).toBe(false);
+  });
+});
@@ -84,6 +84,7 @@ const transformClient = (row: Database['public']['Tables']['clients']['Row']): C
     slug: row.slug,
     config_json: row.config_json || {},
     is_in_test_mode: (row as any).is_in_test_mode ?? false,
+    partner_id: row.partner_id ?? null,
     joined_at: new Date(joinedAt),
     last_active_at: row.last_active_at ? new Date(row.last_active_at) : null,
   };
@@ -1,9 +1,11 @@
 import { supabase } from '@/integrations/supabase/client';
+import { countCallOutcomes, countCallsWithStatus, getCallOutcomeShares } from '@/utils/callOutcome';
+import type { CallOutcomeShare } from '@/types/callOutcome';
 
 export interface AnalyticsMetrics {
   callVolume: Array<{ date: string, count: number }>;
   callDuration: Array<{ date: string, avgDuration: number }>;
-  callOutcomes: Array<{ outcome: string, count: number, percentage: number }>;
+  callOutcomes: CallOutcomeShare[];
   leadConversion: Array<{ date: string, leads: number, calls: number, rate: number }>;
   hourlyDistribution: Array<{ hour: number, count: number }>;
   dailyDistribution: Array<{ day: string, count: number }>;
@@ -16,6 +18,7 @@ export interface AnalyticsFilters {
   clientId?: string;
   timeframe?: 'day' | 'week' | 'month';
   callType?: 'all' | 'live' | 'test';
+  includeSpam?: boolean; // Spam calls are left out unless included
 }
 
 export const AnalyticsService = {
@@ -24,7 +27,7 @@ export const AnalyticsService = {
    */
   getAnalyticsData: async (filters?: AnalyticsFilters): Promise<AnalyticsMetrics> => {
     try {
-      const { startDate, endDate, clientId, timeframe = 'month', callType = 'live' } = filters || {};
+      const { startDate, endDate, clientId, timeframe = 'month', callType = 'live', includeSpam = false } = filters || {};
       
       // Calculate date range if not provided
       const now = new Date();
@@ -70,6 +73,11 @@ export const AnalyticsService = {
         callsQuery = callsQuery.eq('is_test_call', true);
       }
 
+      // Leave out spam unless included
+      if (!includeSpam) {
+        callsQuery = callsQuery.eq('is_spam', false);
+      }
+
       // Fetch data
       const [callsResult, leadsResult] = await Promise.all([
         callsQuery.order('created_at', { ascending: true }),
@@ -111,8 +119,9 @@ export const AnalyticsService = {
       
       // Calculate performance metrics
       const totalCalls = calls.length;
-      const completedCalls = calls.filter(call => call.call_end_time).length;
-      const transferredCalls = calls.filter(call => call.transfer_flag).length;
+      // Status is derived with the call's outcome in the database
+      const completedCalls = totalCalls - countCallsWithStatus(calls, 'failed');
+      const transferredCalls = countCallsWithStatus(calls, 'transferred');
       const avgDuration = calls.reduce((sum, call) => sum + (call.call_duration_seconds || 0), 0) / totalCalls;
       
       const completionRate = totalCalls > 0 ? (completedCalls / totalCalls) * 100 : 0;
@@ -265,22 +274,8 @@ async function processAnalyticsData(calls: any[], leads: any[], timeframe: strin
     leadConversionMap[periodKey].leads += 1;
   });
 
-  // Calculate call outcomes
-  const outcomeMap: { [key: string]: number } = {};
-  calls.forEach(call => {
-    let outcome = 'completed';
-    if (call.transfer_flag) {
-      outcome = 'transferred';
-    } else if (call.hangup_reason && call.hangup_reason.includes('failed')) {
-      outcome = 'failed';
-    } else if (!call.call_end_time) {
-      outcome = 'incomplete';
-    }
-    
-    outcomeMap[outcome] = (outcomeMap[outcome] || 0) + 1;
-  });
-
-  const totalOutcomes = Object.values(outcomeMap).reduce((sum, count) => sum + count, 0);
+  // Call outcomes are classified in the database (calls.outcome)
+  const callOutcomes = getCallOutcomeShares(countCallOutcomes(calls));
 
   // Convert to arrays and calculate percentages
   const callVolume = Object.entries(callVolumeMap)
@@ -294,12 +289,6 @@ async function processAnalyticsData(calls: any[], leads: any[], timeframe: strin
     }))
     .sort((a, b) => a.date.localeCompare(b.date));
 
-  const callOutcomes = Object.entries(outcomeMap).map(([outcome, count]) => ({
-    outcome,
-    count,
-    percentage: totalOutcomes > 0 ? Math.round((count / totalOutcomes) * 100) : 0
-  }));
-
   const leadConversion = Object.entries(leadConversionMap)
     .map(([date, data]) => ({
       date,
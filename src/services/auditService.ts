@@ -634,6 +634,29 @@ export const AuditService = {
     );
   },
 
+  logLeadAction: async (
+    userId: string | null,
+    action: 'create' | 'update' | 'delete',
+    leadId: string,
+    oldValues?: Record<string, unknown>,
+    newValues?: Record<string, unknown>,
+    clientId?: string,
+    details?: string
+  ): Promise<AuditLog> => {
+    return AuditService.logAuditEvent(
+      userId,
+      action,
+      'leads',
+      leadId,
+      oldValues,
+      newValues,
+      clientId,
+      undefined,
+      undefined,
+      details
+    );
+  },
+
   logUserAction: async (
     userId: string,
     action: 'create' | 'update' | 'delete',
@@ -0,0 +1,242 @@
+/**
+ * Call Bulk Action Service
+ * Runs an action on many calls at once (test/live, review flag, leads, tags)
+ * and exports calls with their transcripts. Calls are handled one by one so
+ * each failure is reported in the BulkOperationResult instead of failing the batch.
+ *
+ * Client data isolation is enforced by RLS: calls a user cannot change are reported as failed
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { leadService } from '@/integrations/supabase/lead-service';
+import { AuditService } from './auditService';
+import type { BulkOperationResult } from '@/types/admin';
+import type { CallBulkOperation, CallBulkProgress, CallExportResult, CallExportRow, CallLeadSource } from '@/types/callBulkActions';
+import { applyTagChange, buildCallExportCsv, buildLeadFromCall, chunkIds } from '@/utils/callBulkActions';
+
+// IDs per `in` filter, to keep request URLs short
+const ID_BATCH_SIZE = 100;
+
+const EXPORT_SELECT = 'id, client_id, call_start_time, caller_full_name, caller_phone_number, call_type, call_duration_seconds, outcome, is_test_call, tags, call_summary, transcript, clients(name)';
+
+const MANUAL_REVIEW_REASON = 'Flagged manually from call logs';
+
+type ProgressCallback = (progress: CallBulkProgress) => void;
+
+/**
+ * Load the given calls in batches, keyed by ID
+ */
+async function fetchCallsById<T extends { id: string }>(ids: string[], select: string): Promise<Map<string, T>> {
+  const calls = new Map<string, T>();
+
+  for (const batch of chunkIds(ids, ID_BATCH_SIZE)) {
+    const { data, error } = await supabase.from('calls').select(select).in('id', batch);
+
+    if (error) {
+      console.error('Error fetching calls for bulk action:', error);
+      throw new Error(`Failed to fetch calls: ${error.message}`);
+    }
+
+    ((data || []) as unknown as T[]).forEach(call => calls.set(call.id, call));
+  }
+
+  return calls;
+}
+
+/**
+ * Call IDs among the given calls that already have a lead
+ */
+async function fetchCallIdsWithLeads(ids: string[]): Promise<Set<string>> {
+  const callIds = new Set<string>();
+
+  for (const batch of chunkIds(ids, ID_BATCH_SIZE)) {
+    const { data, error } = await supabase.from('leads').select('call_id').in('call_id', batch);
+
+    if (error) {
+      console.error('Error fetching leads for bulk action:', error);
+      throw new Error(`Failed to fetch leads: ${error.message}`);
+    }
+
+    (data || []).forEach(lead => callIds.add(lead.call_id));
+  }
+
+  return callIds;
+}
+
+/**
+ * Update one call; a call RLS hides from the user updates no rows and fails
+ */
+async function updateCall(id: string, changes: Record<string, unknown>): Promise<void> {
+  const { data, error } = await supabase
+    .from('calls')
+    .update(changes)
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Call not found or not editable');
+  }
+}
+
+/**
+ * Set or clear the human review flag on a call's evaluation
+ * The review queue follows the flag (see enqueue_call_review). A resolved review
+ * is not queued again by the flag, so flagging its call fails instead
+ */
+async function setReviewFlag(callId: string, flagged: boolean): Promise<void> {
+  if (flagged) {
+    const { data: review, error: reviewError } = await supabase
+      .from('call_reviews')
+      .select('status')
+      .eq('call_id', callId)
+      .maybeSingle();
+
+    if (reviewError) {
+      throw new Error(reviewError.message);
+    }
+    if (review?.status === 'resolved') {
+      throw new Error('Review already resolved; reopen it from the review queue');
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('lead_evaluations')
+    .update(flagged
+      ? { human_review_required: true, review_reason: MANUAL_REVIEW_REASON }
+      : { human_review_required: false })
+    .eq('call_id', callId)
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Call has not been evaluated yet');
+  }
+}
+
+export const CallBulkActionService = {
+  /**
+   * Run an action on each call, reporting progress after every call
+   * @param userId User running the action, for the audit log
+   */
+  async runBulkAction(
+    operation: CallBulkOperation,
+    userId?: string,
+    onProgress?: ProgressCallback
+  ): Promise<BulkOperationResult> {
+    const results: BulkOperationResult = {
+      success: true,
+      processed: 0,
+      failed: 0,
+      errors: []
+    };
+    const total = operation.ids.length;
+    const tags = operation.tags || [];
+
+    if ((operation.action === 'add_tags' || operation.action === 'remove_tags') && tags.length === 0) {
+      throw new Error('Failed to update tags: no tags given');
+    }
+
+    // Calls the action needs to read before changing them
+    const calls = operation.action === 'create_leads'
+      ? await fetchCallsById<CallLeadSource>(operation.ids, 'id, client_id, caller_full_name, caller_phone_number, call_start_time')
+      : operation.action === 'add_tags' || operation.action === 'remove_tags'
+        ? await fetchCallsById<{ id: string; tags: string[] | null }>(operation.ids, 'id, tags')
+        : null;
+    const callIdsWithLeads = operation.action === 'create_leads'
+      ? await fetchCallIdsWithLeads(operation.ids)
+      : new Set<string>();
+
+    onProgress?.({ done: 0, total });
+
+    for (const id of operation.ids) {
+      try {
+        switch (operation.action) {
+          case 'mark_test':
+          case 'mark_live':
+            await updateCall(id, { is_test_call: operation.action === 'mark_test' });
+            break;
+          case 'flag_review':
+          case 'clear_review':
+            await setReviewFlag(id, operation.action === 'flag_review');
+            break;
+          case 'create_leads': {
+            const call = calls?.get(id) as CallLeadSource | undefined;
+            if (!call) throw new Error('Call not found');
+            if (callIdsWithLeads.has(id)) throw new Error('Call already has a lead');
+            await leadService.createLead(buildLeadFromCall(call));
+            break;
+          }
+          case 'add_tags':
+          case 'remove_tags': {
+            const call = calls?.get(id) as { id: string; tags: string[] | null } | undefined;
+            if (!call) throw new Error('Call not found');
+            await updateCall(id, { tags: applyTagChange(call.tags, tags, operation.action) });
+            break;
+          }
+        }
+        results.processed++;
+      } catch (error) {
+        results.failed++;
+        results.errors.push({
+          id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      onProgress?.({ done: results.processed + results.failed, total });
+    }
+
+    results.success = results.failed === 0;
+
+    // Log bulk operation audit event
+    if (userId) {
+      try {
+        await AuditService.logBulkOperation(userId, 'calls', operation.action, operation.ids);
+      } catch (auditError) {
+        console.error('Failed to log bulk operation audit event:', auditError);
+      }
+    }
+
+    return results;
+  },
+
+  /**
+   * Export calls with their summaries and transcripts as CSV
+   * Calls the user cannot read are reported as failed
+   * @param includeClient Add the client name column (admins only)
+   */
+  async exportCalls(ids: string[], includeClient = false, onProgress?: ProgressCallback): Promise<CallExportResult> {
+    const total = ids.length;
+    const rows: CallExportRow[] = [];
+    const errors: BulkOperationResult['errors'] = [];
+
+    onProgress?.({ done: 0, total });
+
+    for (const batch of chunkIds(ids, ID_BATCH_SIZE)) {
+      const calls = await fetchCallsById<CallExportRow>(batch, EXPORT_SELECT);
+      batch.forEach(id => {
+        const call = calls.get(id);
+        if (call) {
+          rows.push(call);
+        } else {
+          errors.push({ id, error: 'Call not found' });
+        }
+      });
+      onProgress?.({ done: rows.length + errors.length, total });
+    }
+
+    rows.sort((a, b) => b.call_start_time.localeCompare(a.call_start_time));
+
+    return {
+      success: errors.length === 0,
+      processed: rows.length,
+      failed: errors.length,
+      errors,
+      csv: buildCallExportCsv(rows, includeClient),
+    };
+  },
+};
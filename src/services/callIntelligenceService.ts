@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { LeadIntelligenceRow } from '@/utils/leadWorkbook';
 
 export interface CallInquiryData {
   type: string;
@@ -138,6 +139,51 @@ export const CallIntelligenceService = {
     }
   },
 
+  /**
+   * Get the lead-relevant call intelligence fields for multiple calls in batch
+   * Used by the lead Excel export
+   * 
+   * @param callIds - Array of call IDs to get intelligence for
+   * @returns Map of call ID to intelligence row
+   */
+  async getCallIntelligenceByCallIds(callIds: string[]): Promise<Map<string, LeadIntelligenceRow>> {
+    const intelligenceMap = new Map<string, LeadIntelligenceRow>();
+    if (callIds.length === 0) return intelligenceMap;
+
+    try {
+      // Chunk the IN list so large exports don't exceed the request URL limit
+      const chunkSize = 200;
+      for (let i = 0; i < callIds.length; i += chunkSize) {
+        const chunk = callIds.slice(i, i + chunkSize);
+        const { data, error } = await supabase
+          .from('call_intelligence')
+          .select(`
+            call_id, inquiry_type, inquiry_subtype, is_urgent, is_high_intent,
+            vehicle_interest, intent_strength, purchase_timeline, budget_range,
+            financing_needed, trade_in_available, customer_sentiment,
+            sales_opportunity_score, recommended_next_actions, ai_confidence_score
+          `)
+          .in('call_id', chunk);
+
+        if (error) {
+          console.error('Error fetching call intelligence for export:', error);
+          continue;
+        }
+
+        data?.forEach(item => {
+          if (item.call_id) {
+            intelligenceMap.set(item.call_id, item as LeadIntelligenceRow);
+          }
+        });
+      }
+
+      return intelligenceMap;
+    } catch (error) {
+      console.error('Exception in getCallIntelligenceByCallIds:', error);
+      return intelligenceMap;
+    }
+  },
+
   /**
    * Process raw call inquiry data into a format suitable for charts
    * 
@@ -0,0 +1,244 @@
+/**
+ * Call Review Service
+ * Loads the human review queue and records claims, assignments and verdicts
+ * (call_reviews). Changes are audit logged by the table's audit trigger.
+ *
+ * CRITICAL: Pass the user's client filter to getReviews for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  CallReview,
+  CallReviewEvaluation,
+  CallReviewFilters,
+  CallReviewQueueStats,
+  CallReviewVerdictInput,
+  CallReviewer,
+} from '@/types/callReview';
+import { getReviewQueueStats, sortReviewsByPriority } from '@/utils/callReview';
+
+const MAX_REVIEWS = 500;
+
+const REVIEW_SELECT = `
+  *,
+  clients(name),
+  calls(caller_full_name, caller_phone_number, call_start_time),
+  lead_evaluations(
+    lead_completion_score,
+    clarity_politeness_score,
+    relevance_questions_score,
+    objection_handling_score,
+    naturalness_score,
+    lead_intent_score,
+    failure_risk_score,
+    sentiment,
+    negative_call_flag,
+    overall_evaluation_score
+  ),
+  assignee:users!call_reviews_assigned_to_fkey(full_name, email),
+  resolver:users!call_reviews_resolved_by_fkey(full_name, email)
+`;
+
+type ReviewUser = { full_name: string | null; email: string } | null;
+
+// call_reviews row with the relations in REVIEW_SELECT
+type CallReviewRow = Omit<CallReview, 'corrected_scores'> & {
+  corrected_scores: CallReview['corrected_scores'] | null;
+  clients: { name: string } | null;
+  calls: { caller_full_name: string | null; caller_phone_number: string | null; call_start_time: string } | null;
+  lead_evaluations: CallReviewEvaluation | null;
+  assignee: ReviewUser;
+  resolver: ReviewUser;
+};
+
+const transformReview = ({ clients, calls, lead_evaluations, assignee, resolver, ...review }: CallReviewRow): CallReview => ({
+  ...review,
+  corrected_scores: review.corrected_scores || {},
+  client_name: clients?.name ?? null,
+  caller_name: calls?.caller_full_name ?? null,
+  caller_phone: calls?.caller_phone_number ?? null,
+  call_start_time: calls?.call_start_time ?? null,
+  assignee_name: assignee ? assignee.full_name || assignee.email : null,
+  resolver_name: resolver ? resolver.full_name || resolver.email : null,
+  evaluation: lead_evaluations ?? null,
+});
+
+export const CallReviewService = {
+  /**
+   * Get reviews in queue order: unresolved first, highest priority, then oldest
+   * @param filters Client filter (null for admins viewing all clients) and status
+   */
+  async getReviews(filters: CallReviewFilters = {}): Promise<CallReview[]> {
+    let query = supabase
+      .from('call_reviews')
+      .select(REVIEW_SELECT)
+      .order('flagged_at', { ascending: filters.status === 'unresolved' })
+      .limit(MAX_REVIEWS);
+
+    // CRITICAL: Filter by client for client-restricted users
+    if (filters.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+    if (filters.status && filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching call reviews:', error);
+      throw new Error(`Failed to fetch call reviews: ${error.message}`);
+    }
+
+    return sortReviewsByPriority(((data || []) as CallReviewRow[]).map(transformReview));
+  },
+
+  /**
+   * Get the review of a call, if it was ever flagged
+   */
+  async getReviewByCallId(callId: string): Promise<CallReview | null> {
+    const { data, error } = await supabase
+      .from('call_reviews')
+      .select(REVIEW_SELECT)
+      .eq('call_id', callId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching call review:', error);
+      throw new Error(`Failed to fetch call review: ${error.message}`);
+    }
+
+    return data ? transformReview(data as CallReviewRow) : null;
+  },
+
+  /**
+   * Get the users reviews can be assigned to (admins and owners)
+   */
+  async getReviewers(): Promise<CallReviewer[]> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, full_name, email')
+      .in('role', ['admin', 'owner'])
+      .order('full_name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching reviewers:', error);
+      throw new Error(`Failed to fetch reviewers: ${error.message}`);
+    }
+
+    return (data || []) as CallReviewer[];
+  },
+
+  /**
+   * Claim an unclaimed review for a reviewer
+   * Fails when someone else claimed it first
+   */
+  async claimReview(reviewId: string, userId: string): Promise<CallReview> {
+    const { data, error } = await supabase
+      .from('call_reviews')
+      .update({ assigned_to: userId })
+      .eq('id', reviewId)
+      .eq('status', 'unresolved')
+      .is('assigned_to', null)
+      .select(REVIEW_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error claiming call review:', error);
+      throw new Error(`Failed to claim review: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('Failed to claim review: it was already claimed or resolved');
+    }
+
+    return transformReview(data as CallReviewRow);
+  },
+
+  /**
+   * Assign a review to a reviewer, or unassign it with null
+   */
+  async assignReview(reviewId: string, assigneeId: string | null): Promise<CallReview> {
+    const { data, error } = await supabase
+      .from('call_reviews')
+      .update({ assigned_to: assigneeId })
+      .eq('id', reviewId)
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error assigning call review:', error);
+      throw new Error(`Failed to assign review: ${error.message}`);
+    }
+
+    return transformReview(data as CallReviewRow);
+  },
+
+  /**
+   * Record a reviewer's verdict and resolve the review
+   * An unclaimed review is assigned to the reviewer resolving it
+   */
+  async resolveReview(review: CallReview, userId: string, input: CallReviewVerdictInput): Promise<CallReview> {
+    const { data, error } = await supabase
+      .from('call_reviews')
+      .update({
+        status: 'resolved',
+        verdict: input.verdict,
+        corrected_scores: input.corrected_scores,
+        comments: input.comments?.trim() || null,
+        resolved_by: userId,
+        resolved_at: new Date().toISOString(),
+        ...(review.assigned_to ? {} : { assigned_to: userId }),
+      })
+      .eq('id', review.id)
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error resolving call review:', error);
+      throw new Error(`Failed to resolve review: ${error.message}`);
+    }
+
+    return transformReview(data as CallReviewRow);
+  },
+
+  /**
+   * Put a resolved review back in the queue, keeping its verdict for reference
+   */
+  async reopenReview(reviewId: string): Promise<CallReview> {
+    const { data, error } = await supabase
+      .from('call_reviews')
+      .update({ status: 'unresolved', resolved_by: null, resolved_at: null })
+      .eq('id', reviewId)
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error reopening call review:', error);
+      throw new Error(`Failed to reopen review: ${error.message}`);
+    }
+
+    return transformReview(data as CallReviewRow);
+  },
+
+  /**
+   * Size and age of the unresolved queue for the admin dashboard
+   */
+  async getQueueStats(): Promise<CallReviewQueueStats> {
+    const { data, error } = await supabase
+      .from('call_reviews')
+      .select('status, assigned_to, flagged_at, lead_evaluations(failure_risk_score, sentiment, negative_call_flag)')
+      .eq('status', 'unresolved');
+
+    if (error) {
+      console.error('Error fetching review queue stats:', error);
+      throw new Error(`Failed to fetch review queue stats: ${error.message}`);
+    }
+
+    return getReviewQueueStats((data || []).map(row => ({
+      status: row.status,
+      assigned_to: row.assigned_to,
+      flagged_at: row.flagged_at,
+      // Each review has one evaluation (call_reviews.evaluation_id)
+      evaluation: row.lead_evaluations as unknown as CallReviewEvaluation | null,
+    })));
+  },
+};
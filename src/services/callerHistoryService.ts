@@ -0,0 +1,134 @@
+/**
+ * Caller History Service
+ * Loads everything one phone number did with one client (calls, leads, call
+ * sentiment and inquiry types) and searches callers by number or name
+ *
+ * CRITICAL: Pass the user's client filter to searchCallers for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { CallIntelligenceService } from '@/services/callIntelligenceService';
+import type {
+  CallerHistory,
+  CallerHistoryCall,
+  CallerHistoryLead,
+  CallerSearchResult,
+  CallerSentiment,
+} from '@/types/callerHistory';
+import {
+  buildCallerHistory,
+  groupCallerSearchResults,
+  readCallerSearchTerm,
+  type CallerSearchRow,
+} from '@/utils/callerHistory';
+import { normalizePhone } from '@/utils/leadDuplicates';
+
+// Calls loaded per caller; repeat callers rarely come close
+const MAX_CALLER_CALLS = 500;
+
+// Matching calls scanned per search before grouping them by caller
+const MAX_SEARCH_ROWS = 500;
+
+const CALLER_CALL_SELECT = 'id, call_start_time, call_duration_seconds, caller_full_name, call_summary, outcome, is_spam';
+
+// Escape LIKE wildcards in user input
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+export const CallerHistoryService = {
+  /**
+   * Get a caller's calls and leads within a client
+   * @param phone Caller's phone number in any format
+   * @returns null when the number is too short to match on
+   */
+  async getCallerHistory(phone: string, clientId: string): Promise<CallerHistory | null> {
+    const normalized = normalizePhone(phone);
+    if (!normalized) return null;
+
+    const [callsResult, leadsResult] = await Promise.all([
+      supabase
+        .from('calls')
+        .select(CALLER_CALL_SELECT)
+        .eq('client_id', clientId)
+        .eq('caller_phone_normalized', normalized)
+        .order('call_start_time', { ascending: false })
+        .limit(MAX_CALLER_CALLS),
+      supabase
+        .from('leads')
+        .select('id, call_id, full_name, lead_status, created_at')
+        .eq('client_id', clientId)
+        .or(`phone_normalized.eq.${normalized},from_phone_normalized.eq.${normalized}`)
+        .is('merged_into_lead_id', null)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (callsResult.error) {
+      console.error('Error fetching caller calls:', callsResult.error);
+      throw new Error(`Failed to fetch caller calls: ${callsResult.error.message}`);
+    }
+    if (leadsResult.error) {
+      console.error('Error fetching caller leads:', leadsResult.error);
+      throw new Error(`Failed to fetch caller leads: ${leadsResult.error.message}`);
+    }
+
+    const callRows = (callsResult.data || []) as unknown as Omit<CallerHistoryCall, 'sentiment' | 'inquiry_type'>[];
+    const callIds = callRows.map(call => call.id);
+
+    const [evaluationsResult, inquiryTypes] = await Promise.all([
+      callIds.length > 0
+        ? supabase.from('lead_evaluations').select('call_id, sentiment').in('call_id', callIds)
+        : Promise.resolve({ data: [], error: null }),
+      CallIntelligenceService.getCallInquiryTypes(callIds),
+    ]);
+
+    if (evaluationsResult.error) {
+      console.error('Error fetching caller sentiment:', evaluationsResult.error);
+      throw new Error(`Failed to fetch caller sentiment: ${evaluationsResult.error.message}`);
+    }
+
+    const sentiments = new Map<string, CallerSentiment>(
+      (evaluationsResult.data || []).map(row => [row.call_id, row.sentiment] as [string, CallerSentiment])
+    );
+
+    const calls: CallerHistoryCall[] = callRows.map(call => ({
+      ...call,
+      is_spam: call.is_spam ?? false,
+      sentiment: sentiments.get(call.id) ?? null,
+      inquiry_type: inquiryTypes.get(call.id) ?? null,
+    }));
+
+    return buildCallerHistory(normalized, clientId, calls, (leadsResult.data || []) as CallerHistoryLead[]);
+  },
+
+  /**
+   * Find callers by phone number (3+ digits) or name, latest caller first
+   * @param clientId Client filter (null for admins searching all clients)
+   */
+  async searchCallers(term: string, clientId: string | null): Promise<CallerSearchResult[]> {
+    const search = readCallerSearchTerm(term);
+    if (!search) return [];
+
+    let query = supabase
+      .from('calls')
+      .select('caller_phone_normalized, caller_phone_number, caller_full_name, client_id, call_start_time, clients(name)')
+      .not('caller_phone_normalized', 'is', null)
+      .order('call_start_time', { ascending: false })
+      .limit(MAX_SEARCH_ROWS);
+
+    // CRITICAL: Filter by client for client-restricted users
+    if (clientId) {
+      query = query.eq('client_id', clientId);
+    }
+
+    query = 'phoneDigits' in search
+      ? query.ilike('caller_phone_normalized', `%${escapeLike(search.phoneDigits)}%`)
+      : query.ilike('caller_full_name', `%${escapeLike(search.name)}%`);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error searching callers:', error);
+      throw new Error(`Failed to search callers: ${error.message}`);
+    }
+
+    return groupCallerSearchResults((data || []) as unknown as CallerSearchRow[]);
+  },
+};
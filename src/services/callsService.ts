@@ -104,7 +104,7 @@ export const CallsService = {
   /**
    * Get call statistics
    */
-  getCallStats: async (clientId?: string, callType: 'all' | 'live' | 'test' = 'live'): Promise<CallStats> => {
+  getCallStats: async (clientId?: string, callType: 'all' | 'live' | 'test' = 'live', includeSpam = false): Promise<CallStats> => {
     try {
       let query = supabase.from('calls').select('*');
 
@@ -119,6 +119,11 @@ export const CallsService = {
         query = query.eq('is_test_call', true);
       }
 
+      // Leave out spam unless included
+      if (!includeSpam) {
+        query = query.eq('is_spam', false);
+      }
+
       const { data, error } = await query;
 
       if (error) {
@@ -206,6 +211,42 @@ export const CallsService = {
       console.error('Error fetching recent calls:', error);
       return [];
     }
+  },
+
+  /**
+   * Get the AI call summary for multiple calls, keyed by call ID
+   * Calls without a summary are left out
+   */
+  getCallSummaries: async (callIds: string[]): Promise<Map<string, string>> => {
+    const summaries = new Map<string, string>();
+    if (callIds.length === 0) return summaries;
+
+    try {
+      // Chunk the IN list so large exports don't exceed the request URL limit
+      const chunkSize = 200;
+      for (let i = 0; i < callIds.length; i += chunkSize) {
+        const { data, error } = await supabase
+          .from('calls')
+          .select('id, call_summary')
+          .in('id', callIds.slice(i, i + chunkSize));
+
+        if (error) {
+          console.error('Error fetching call summaries:', error);
+          continue;
+        }
+
+        data?.forEach(record => {
+          if (record.call_summary) {
+            summaries.set(record.id, record.call_summary);
+          }
+        });
+      }
+
+      return summaries;
+    } catch (error) {
+      console.error('Error fetching call summaries:', error);
+      return summaries;
+    }
   }
 };
 
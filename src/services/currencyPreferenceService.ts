@@ -0,0 +1,79 @@
+/**
+ * Currency Preference Service
+ * Loads and saves each client's billing currency (clients.config_json.billing_currency)
+ * and each user's display currency (users.preferences.displaySettings.currency)
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from '@/services/adminService';
+import type { Client } from '@/types/admin';
+import { getClientBillingCurrency, type CurrencyCode } from '@/utils/currency';
+
+export const CurrencyPreferenceService = {
+  /**
+   * Billing currency of a client, CAD when not set
+   */
+  async getClientBillingCurrency(clientId: string): Promise<CurrencyCode> {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('config_json')
+      .eq('id', clientId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching client billing currency:', error);
+      throw new Error(`Failed to fetch billing currency: ${error.message}`);
+    }
+
+    return getClientBillingCurrency(data?.config_json);
+  },
+
+  /**
+   * Save a client's billing currency, keeping the rest of config_json intact
+   * Goes through AdminService so the change is audit logged
+   */
+  async saveClientBillingCurrency(client: Client, currency: CurrencyCode): Promise<Client> {
+    const config_json = {
+      ...(client.config_json || {}),
+      billing_currency: currency,
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+
+  /**
+   * Save a user's display currency, keeping their other preferences intact
+   * @param currency null to follow the client's billing currency again
+   * @returns The user's preferences as saved
+   */
+  async saveUserDisplayCurrency(userId: string, currency: CurrencyCode | null): Promise<Record<string, unknown>> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('preferences')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching user preferences:', error);
+      throw new Error(`Failed to save display currency: ${error.message}`);
+    }
+
+    const preferences = (data?.preferences || {}) as Record<string, unknown>;
+    const { currency: _previous, ...displaySettings } = (preferences.displaySettings || {}) as Record<string, unknown>;
+    const updatedPreferences = {
+      ...preferences,
+      displaySettings: currency ? { ...displaySettings, currency } : displaySettings,
+    };
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ preferences: updatedPreferences })
+      .eq('id', userId);
+
+    if (updateError) {
+      console.error('Error saving display currency:', updateError);
+      throw new Error(`Failed to save display currency: ${updateError.message}`);
+    }
+
+    return updatedPreferences;
+  },
+};
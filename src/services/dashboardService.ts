@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { DashboardMetrics, SystemMessage, AgentStatus } from '@/types/dashboard';
+import { countCallOutcomes, countCallsWithStatus, getCallOutcomeShares } from '@/utils/callOutcome';
 
 export interface CallMetrics {
   totalCalls: number;
@@ -221,7 +222,7 @@ export const DashboardService = {
   /**
    * Get comprehensive dashboard metrics for a client or all clients (admin)
    */
-  getDashboardMetrics: async (clientId?: string | null, callType: 'all' | 'live' | 'test' = 'live'): Promise<DashboardMetrics> => {
+  getDashboardMetrics: async (clientId?: string | null, callType: 'all' | 'live' | 'test' = 'live', includeSpam = false): Promise<DashboardMetrics> => {
     try {
       const now = new Date();
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -246,6 +247,11 @@ export const DashboardService = {
         callsQuery = callsQuery.eq('is_test_call', true);
       }
 
+      // Spam and robocalls don't count towards KPIs unless included
+      if (!includeSpam) {
+        callsQuery = callsQuery.eq('is_spam', false);
+      }
+
       // Fetch all data
       const [callsResult, leadsResult] = await Promise.all([
         callsQuery,
@@ -267,8 +273,9 @@ export const DashboardService = {
       const avgCallDurationSeconds = totalCalls > 0 ? Math.round(totalDuration / totalCalls) : 0;
       const averageHandleTime = formatDuration(avgCallDurationSeconds);
 
-      // Calculate calls transferred
-      const callsTransferred = calls.filter(call => call.transfer_flag === true).length;
+      // Calculate calls transferred and appointments booked from the stored status and outcome
+      const callsTransferred = countCallsWithStatus(calls, 'transferred');
+      const appointmentsBooked = countCallOutcomes(calls).appointment_booked;
 
       // Calculate today's metrics (EST timezone)
       // Get today's date in EST timezone
@@ -311,12 +318,12 @@ export const DashboardService = {
       // Calculate transfers for growth comparison
       const transfersLastWeek = calls.filter(call => {
         const callDate = new Date(call.created_at);
-        return call.transfer_flag === true && callDate >= twoWeeksAgo && callDate < lastWeek;
+        return call.status === 'transferred' && callDate >= twoWeeksAgo && callDate < lastWeek;
       }).length;
 
       const transfersThisWeek = calls.filter(call => {
         const callDate = new Date(call.created_at);
-        return call.transfer_flag === true && callDate >= lastWeek;
+        return call.status === 'transferred' && callDate >= lastWeek;
       }).length;
 
       // Calculate average duration for growth comparison
@@ -355,6 +362,7 @@ export const DashboardService = {
         averageHandleTime,
         callsTransferred,
         totalLeads,
+        appointmentsBooked,
         callsGrowth,
         timeGrowth,
         transferGrowth,
@@ -662,23 +670,9 @@ export const DashboardService = {
         }))
         .sort((a, b) => a.date.getTime() - b.date.getTime());
 
-      // Calculate call outcomes
-      const outcomeMap: { [key: string]: number } = {};
-      calls.forEach(call => {
-        let outcome = 'completed';
-        if (call.transfer_flag) {
-          outcome = 'transferred';
-        } else if (call.hangup_reason && call.hangup_reason.includes('failed')) {
-          outcome = 'failed';
-        }
-        
-        outcomeMap[outcome] = (outcomeMap[outcome] || 0) + 1;
-      });
-
-      const callOutcomes = Object.entries(outcomeMap).map(([outcome, count]) => ({
-        outcome,
-        count
-      }));
+      // Call outcomes are classified in the database (calls.outcome)
+      const callOutcomes = getCallOutcomeShares(countCallOutcomes(calls))
+        .map(({ outcome, count }) => ({ outcome, count }));
 
       const leadConversion = Object.entries(leadConversionMap)
         .map(([dateStr, data]) => ({
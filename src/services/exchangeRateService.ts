@@ -1,8 +1,14 @@
 /**
  * Exchange Rate Service
  * Handles fetching and caching of currency exchange rates
+ *
+ * USD to CAD conversions look up the rate for the day being converted in
+ * exchange_rate_history, so historical costs use that day's rate. Admins can
+ * override any day's rate from the exchange rates settings page.
  */
 import { supabase } from '@/integrations/supabase/client';
+import type { AppliedExchangeRate, ExchangeRateHistoryEntry, ExchangeRateLookup } from '@/types/exchangeRate';
+import { DEFAULT_USD_TO_CAD_RATE, resolveExchangeRate, toRateDate } from '@/utils/exchangeRates';
 
 // Interface for exchange rate data
 export interface ExchangeRate {
@@ -16,11 +22,17 @@ export interface ExchangeRate {
 // Cache for exchange rates to minimize database calls
 interface RateCache {
   [key: string]: {
-    rate: number;
+    rate: AppliedExchangeRate;
     timestamp: number;
   };
 }
 
+// numeric columns can arrive as strings
+const transformHistoryEntry = (row: ExchangeRateHistoryEntry): ExchangeRateHistoryEntry => ({
+  ...row,
+  rate: Number(row.rate),
+});
+
 class ExchangeRateService {
   private static instance: ExchangeRateService;
   private cache: RateCache = {};
@@ -39,87 +51,196 @@ class ExchangeRateService {
   }
 
   /**
-   * Get exchange rate from USD to CAD
+   * Get exchange rate from USD to CAD for a day (today by default)
+   */
+  public async getUsdToCadRate(date: Date | string = new Date()): Promise<number> {
+    const applied = await this.getAppliedUsdToCadRate(date);
+    return applied.rate;
+  }
+
+  /**
+   * Get the USD to CAD rate for a day along with where it came from
    * Uses cached value if available and not expired
    */
-  public async getUsdToCadRate(): Promise<number> {
-    const cacheKey = 'USD_CAD';
+  public async getAppliedUsdToCadRate(date: Date | string = new Date()): Promise<AppliedExchangeRate> {
+    const rateDate = toRateDate(date);
+    const cacheKey = `USD_CAD_${rateDate}`;
     
     // Check cache first
     const cachedRate = this.cache[cacheKey];
     const now = Date.now();
     
     if (cachedRate && now - cachedRate.timestamp < this.cacheTTL) {
-      console.log('Using cached exchange rate');
       return cachedRate.rate;
     }
     
     try {
-      // Fetch from database
-      const { data, error } = await supabase
-        .from('exchange_rates')
-        .select('*')
-        .eq('from_currency', 'USD')
-        .eq('to_currency', 'CAD')
-        .single();
-      
-      if (error) {
-        console.error('Error fetching exchange rate:', error);
-        // Fallback to default rate if error
-        return 1.35; // Default USD to CAD rate as fallback
+      // Rows of the latest day on or before the date (at most a feed and a manual row)
+      let entries = await this.fetchHistory(
+        this.historyQuery().lte('rate_date', rateDate).order('rate_date', { ascending: false }).limit(2)
+      );
+
+      // Days before the history starts use its first rate
+      if (entries.length === 0) {
+        entries = await this.fetchHistory(
+          this.historyQuery().order('rate_date', { ascending: true }).limit(2)
+        );
       }
-      
-      if (data) {
-        // Update cache
-        this.cache[cacheKey] = {
-          rate: data.rate,
-          timestamp: now
-        };
-        
-        return data.rate;
+
+      const applied = resolveExchangeRate(entries, rateDate);
+
+      // Update cache
+      this.cache[cacheKey] = {
+        rate: applied,
+        timestamp: now
+      };
+
+      return applied;
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error);
+      // Fallback to default rate if error
+      return { rate: DEFAULT_USD_TO_CAD_RATE, rateDate: null, source: 'default' };
+    }
+  }
+
+  /**
+   * Load the USD to CAD rates for a date range once, to convert many amounts
+   * at their own day's rate
+   */
+  public async getUsdToCadRateLookup(startDate: Date | string, endDate: Date | string): Promise<ExchangeRateLookup> {
+    const fromDate = toRateDate(startDate);
+    const toDate = toRateDate(endDate);
+
+    try {
+      const [before, during] = await Promise.all([
+        this.fetchHistory(
+          this.historyQuery().lt('rate_date', fromDate).order('rate_date', { ascending: false }).limit(2)
+        ),
+        this.fetchHistory(
+          this.historyQuery().gte('rate_date', fromDate).lte('rate_date', toDate).order('rate_date', { ascending: true })
+        ),
+      ]);
+
+      let entries = [...before, ...during];
+
+      // A range before the history starts uses its first rate
+      if (entries.length === 0) {
+        entries = await this.fetchHistory(
+          this.historyQuery().order('rate_date', { ascending: true }).limit(2)
+        );
       }
-      
-      // If no data found, use default and try to create a record
-      await this.createDefaultRate();
-      return 1.35; // Default USD to CAD rate
+
+      return (date) => resolveExchangeRate(entries, date);
     } catch (error) {
-      console.error('Unexpected error in getUsdToCadRate:', error);
-      return 1.35; // Default USD to CAD rate as fallback
+      console.error('Error fetching exchange rates:', error);
+      return () => ({ rate: DEFAULT_USD_TO_CAD_RATE, rateDate: null, source: 'default' });
     }
   }
 
   /**
-   * Convert USD amount to CAD
+   * Convert USD amount to CAD at the rate of a day (today by default)
    */
-  public async convertUsdToCad(amountUsd: number): Promise<number> {
+  public async convertUsdToCad(amountUsd: number, date: Date | string = new Date()): Promise<number> {
     if (!amountUsd) return 0;
     
-    const rate = await this.getUsdToCadRate();
+    const rate = await this.getUsdToCadRate(date);
     return amountUsd * rate;
   }
 
   /**
-   * Create default exchange rate record if none exists
+   * USD to CAD rate history, newest day first, feed and manual rows alike
    */
-  private async createDefaultRate(): Promise<void> {
+  public async getRateHistory(limit: number = 90): Promise<ExchangeRateHistoryEntry[]> {
     try {
-      const { error } = await supabase
-        .from('exchange_rates')
-        .insert({
-          from_currency: 'USD',
-          to_currency: 'CAD',
-          rate: 1.35, // Default rate
-          last_updated: new Date().toISOString()
-        });
-      
-      if (error) {
-        console.error('Error creating default exchange rate:', error);
-      }
+      return await this.fetchHistory(
+        this.historyQuery().order('rate_date', { ascending: false }).order('source', { ascending: false }).limit(limit)
+      );
     } catch (error) {
-      console.error('Unexpected error in createDefaultRate:', error);
+      console.error('Error fetching exchange rate history:', error);
+      throw new Error(`Failed to fetch exchange rate history: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Override the USD to CAD rate for a day; replaces an earlier override for the same day
+   * @param note Why the feed rate is overridden, required and kept in the audit log
+   */
+  public async setManualRate(rateDate: string, rate: number, note: string, userId?: string): Promise<ExchangeRateHistoryEntry> {
+    if (!(rate > 0)) {
+      throw new Error('Failed to save exchange rate: the rate must be greater than zero');
+    }
+    if (!note.trim()) {
+      throw new Error('Failed to save exchange rate: a note is required for manual overrides');
+    }
+
+    const { data, error } = await supabase
+      .from('exchange_rate_history')
+      .upsert({
+        from_currency: 'USD',
+        to_currency: 'CAD',
+        rate_date: toRateDate(rateDate),
+        rate,
+        source: 'manual',
+        note: note.trim(),
+        created_by: userId || null,
+      }, { onConflict: 'from_currency,to_currency,rate_date,source' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving exchange rate override:', error);
+      throw new Error(`Failed to save exchange rate: ${error.message}`);
+    }
+
+    this.clearCache();
+    return transformHistoryEntry(data as unknown as ExchangeRateHistoryEntry);
+  }
+
+  /**
+   * Remove a manual override; the day goes back to the feed rate
+   */
+  public async removeManualRate(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('exchange_rate_history')
+      .delete()
+      .eq('id', id)
+      .eq('source', 'manual');
+
+    if (error) {
+      console.error('Error removing exchange rate override:', error);
+      throw new Error(`Failed to remove exchange rate override: ${error.message}`);
+    }
+
+    this.clearCache();
+  }
+
+  /**
+   * Run a USD to CAD rate history query
+   */
+  private async fetchHistory(
+    query: PromiseLike<{ data: unknown; error: { message: string } | null }>
+  ): Promise<ExchangeRateHistoryEntry[]> {
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return ((data || []) as ExchangeRateHistoryEntry[]).map(transformHistoryEntry);
+  }
+
+  private historyQuery() {
+    return supabase
+      .from('exchange_rate_history')
+      .select('*')
+      .eq('from_currency', 'USD')
+      .eq('to_currency', 'CAD');
+  }
+
+  private clearCache(): void {
+    this.cache = {};
+  }
+
   /**
    * Update exchange rate in database
    * This would be called by a scheduled function/cron job
@@ -155,9 +276,19 @@ class ExchangeRateService {
           });
       }
       
+      // Keep the day's rate in the history; a manual override for the day still wins
+      await supabase
+        .from('exchange_rate_history')
+        .upsert({
+          from_currency: fromCurrency,
+          to_currency: toCurrency,
+          rate_date: toRateDate(new Date()),
+          rate: newRate,
+          source: 'feed',
+        }, { onConflict: 'from_currency,to_currency,rate_date,source' });
+      
       // Clear cache
-      const cacheKey = `${fromCurrency}_${toCurrency}`;
-      delete this.cache[cacheKey];
+      this.clearCache();
     } catch (error) {
       console.error('Error updating exchange rate:', error);
     }
@@ -0,0 +1,296 @@
+/**
+ * Invoice Service
+ * Generates monthly client invoices from the plan fee and call usage, manages
+ * credits on drafts, and moves invoices through draft -> issued -> paid/void
+ * (client_invoices). Changes are audit logged by the tables' audit triggers.
+ *
+ * Invoices are managed by admins and owners; RLS only shows client users their
+ * issued invoices
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from './adminService';
+import { exchangeRateService } from './exchangeRateService';
+import type { Client } from '@/types/admin';
+import type { BillableUsage, ClientInvoice, ClientInvoiceWithLines, InvoiceBilling, InvoiceLineItem, InvoiceSettings } from '@/types/invoice';
+import { getClientTimezone } from '@/utils/callbackTiming';
+import { getClientBillingCurrency } from '@/utils/currency';
+import { getMonthRange } from '@/utils/monthClose';
+import {
+  buildCreditLineItem,
+  buildInvoiceLineItems,
+  calculateBillableUsage,
+  formatBillingMonth,
+  getInvoicePeriod,
+  getInvoiceSettings,
+} from '@/utils/invoices';
+
+// Calls per page when counting a month's usage
+const USAGE_PAGE_SIZE = 1000;
+
+// Postgres unique_violation: the month already has a live invoice
+const UNIQUE_VIOLATION = '23505';
+
+type InvoiceRow = ClientInvoice & { client_invoice_line_items?: InvoiceLineItem[] };
+
+// numeric columns can arrive as strings
+const transformLineItem = (line: InvoiceLineItem): InvoiceLineItem => ({
+  ...line,
+  quantity: Number(line.quantity),
+  unit_amount: Number(line.unit_amount),
+  amount: Number(line.amount),
+});
+
+const transformInvoice = ({ client_invoice_line_items, ...invoice }: InvoiceRow): ClientInvoiceWithLines => ({
+  ...invoice,
+  subtotal: Number(invoice.subtotal),
+  credits: Number(invoice.credits),
+  total: Number(invoice.total),
+  usd_to_cad_rate: invoice.usd_to_cad_rate === null || invoice.usd_to_cad_rate === undefined ? null : Number(invoice.usd_to_cad_rate),
+  line_items: (client_invoice_line_items || [])
+    .map(transformLineItem)
+    .sort((a, b) => a.line_number - b.line_number),
+});
+
+/**
+ * Set an invoice's status; the status trigger checks the transition and stamps the dates
+ */
+async function updateInvoiceStatus(id: string, changes: Partial<ClientInvoice>): Promise<ClientInvoiceWithLines> {
+  const { data, error } = await supabase
+    .from('client_invoices')
+    .update(changes)
+    .eq('id', id)
+    .select('*, client_invoice_line_items(*)')
+    .single();
+
+  if (error) {
+    console.error('Error updating invoice status:', error);
+    throw new Error(`Failed to update invoice: ${error.message}`);
+  }
+
+  return transformInvoice(data as unknown as InvoiceRow);
+}
+
+export const InvoiceService = {
+  /**
+   * Get a client's invoices, newest month first
+   */
+  async getClientInvoices(clientId: string): Promise<ClientInvoice[]> {
+    const { data, error } = await supabase
+      .from('client_invoices')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('billing_month', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching client invoices:', error);
+      throw new Error(`Failed to fetch invoices: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as InvoiceRow[]).map(row => transformInvoice(row));
+  },
+
+  /**
+   * Get an invoice with its line items
+   */
+  async getInvoice(id: string): Promise<ClientInvoiceWithLines> {
+    const { data, error } = await supabase
+      .from('client_invoices')
+      .select('*, client_invoice_line_items(*)')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching invoice:', error);
+      throw new Error(`Failed to fetch invoice: ${error.message}`);
+    }
+
+    return transformInvoice(data as unknown as InvoiceRow);
+  },
+
+  /**
+   * Count the live, non-spam calls a client took in a period
+   */
+  async getBillableUsage(clientId: string, periodStart: string, periodEnd: string): Promise<BillableUsage> {
+    const calls: { call_duration_seconds: number | null }[] = [];
+
+    for (let from = 0; ; from += USAGE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('calls')
+        .select('call_duration_seconds')
+        .eq('client_id', clientId)
+        .eq('is_test_call', false)
+        .eq('is_spam', false)
+        .gte('call_start_time', periodStart)
+        .lt('call_start_time', periodEnd)
+        .order('call_start_time', { ascending: true })
+        .order('id', { ascending: true }) // Unique order, so pages never skip or repeat a call
+        .range(from, from + USAGE_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching billable calls:', error);
+        throw new Error(`Failed to fetch billable calls: ${error.message}`);
+      }
+
+      calls.push(...((data || []) as { call_duration_seconds: number | null }[]));
+      if (!data || data.length < USAGE_PAGE_SIZE) break;
+    }
+
+    return calculateBillableUsage(calls);
+  },
+
+  /**
+   * Currency to invoice a client's month in
+   * Clients billed in USD are converted at the rate of the month's last day
+   */
+  async getInvoiceBilling(client: Client, billingMonth: string): Promise<InvoiceBilling> {
+    const currency = getClientBillingCurrency(client.config_json);
+    if (currency === 'CAD') {
+      return { currency, usd_to_cad_rate: null };
+    }
+
+    const usdToCadRate = await exchangeRateService.getUsdToCadRate(getMonthRange(billingMonth).endDate);
+    return { currency, usd_to_cad_rate: usdToCadRate };
+  },
+
+  /**
+   * Generate a draft invoice for a client's billing month
+   * The month runs in the client's timezone, and is billed in the client's billing currency
+   * @param billingMonth First day of the month, YYYY-MM-01
+   */
+  async generateInvoice(client: Client, billingMonth: string, userId?: string): Promise<ClientInvoiceWithLines> {
+    const period = getInvoicePeriod(billingMonth, getClientTimezone(client.config_json));
+    const [usage, billing] = await Promise.all([
+      InvoiceService.getBillableUsage(client.id, period.start, period.end),
+      InvoiceService.getInvoiceBilling(client, billingMonth),
+    ]);
+    const lineItems = buildInvoiceLineItems(client, billingMonth, usage, getInvoiceSettings(client.config_json), billing);
+
+    const { data: invoice, error } = await supabase
+      .from('client_invoices')
+      .insert({
+        client_id: client.id,
+        billing_month: billingMonth,
+        period_start: period.start,
+        period_end: period.end,
+        billable_calls: usage.billable_calls,
+        billable_minutes: usage.billable_minutes,
+        currency: billing.currency,
+        usd_to_cad_rate: billing.usd_to_cad_rate,
+        created_by: userId || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating invoice:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(`Failed to generate invoice: ${client.name} already has an invoice for ${formatBillingMonth(billingMonth)}`);
+      }
+      throw new Error(`Failed to generate invoice: ${error.message}`);
+    }
+
+    const { error: linesError } = await supabase
+      .from('client_invoice_line_items')
+      .insert(lineItems.map(line => ({ ...line, invoice_id: invoice.id })));
+
+    if (linesError) {
+      console.error('Error creating invoice line items:', linesError);
+      // Don't leave an empty draft behind
+      await supabase.from('client_invoices').delete().eq('id', invoice.id);
+      throw new Error(`Failed to generate invoice: ${linesError.message}`);
+    }
+
+    return InvoiceService.getInvoice(invoice.id);
+  },
+
+  /**
+   * Add a credit to a draft invoice
+   * @param amount Amount to take off, as a positive number
+   */
+  async addCredit(invoice: ClientInvoiceWithLines, description: string, amount: number): Promise<ClientInvoiceWithLines> {
+    const credit = buildCreditLineItem(invoice.line_items, description, amount);
+
+    const { error } = await supabase
+      .from('client_invoice_line_items')
+      .insert({ ...credit, invoice_id: invoice.id });
+
+    if (error) {
+      console.error('Error adding invoice credit:', error);
+      throw new Error(`Failed to add credit: ${error.message}`);
+    }
+
+    return InvoiceService.getInvoice(invoice.id);
+  },
+
+  /**
+   * Remove a line item from a draft invoice
+   */
+  async removeLineItem(invoiceId: string, lineItemId: string): Promise<ClientInvoiceWithLines> {
+    const { error } = await supabase
+      .from('client_invoice_line_items')
+      .delete()
+      .eq('id', lineItemId);
+
+    if (error) {
+      console.error('Error removing invoice line item:', error);
+      throw new Error(`Failed to remove line item: ${error.message}`);
+    }
+
+    return InvoiceService.getInvoice(invoiceId);
+  },
+
+  /**
+   * Delete a draft invoice, e.g. to generate it again with fresh usage
+   */
+  async deleteDraft(id: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('client_invoices')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'draft')
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting draft invoice:', error);
+      throw new Error(`Failed to delete invoice: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Failed to delete invoice: only drafts can be deleted');
+    }
+  },
+
+  /**
+   * Issue a draft: numbers it and sets the due date
+   */
+  async issueInvoice(id: string): Promise<ClientInvoiceWithLines> {
+    return updateInvoiceStatus(id, { status: 'issued' });
+  },
+
+  /**
+   * Mark an issued invoice as paid
+   * @param paidAt When the payment came in (defaults to now)
+   */
+  async markPaid(id: string, paidAt?: string): Promise<ClientInvoiceWithLines> {
+    return updateInvoiceStatus(id, { status: 'paid', paid_at: paidAt || null });
+  },
+
+  /**
+   * Void a draft or issued invoice; the month can then be invoiced again
+   */
+  async voidInvoice(id: string, reason: string): Promise<ClientInvoiceWithLines> {
+    return updateInvoiceStatus(id, { status: 'void', void_reason: reason.trim() });
+  },
+
+  /**
+   * Save a client's invoicing settings (config_json.invoicing)
+   */
+  async saveInvoiceSettings(client: Client, settings: InvoiceSettings): Promise<Client> {
+    const config_json = {
+      ...(client.config_json || {}),
+      invoicing: settings,
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+};
@@ -0,0 +1,326 @@
+/**
+ * Lead Activity Service
+ * Reads and writes the lead_activities timeline (notes, status changes,
+ * delivery and appointment events)
+ *
+ * CRITICAL: Activities carry the lead's client_id and are protected by RLS;
+ * pass the user's client filter to getActivities for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type {
+  LeadActivity,
+  NewLeadActivity,
+  LeadTimelineCall,
+  LeadTimelineEvent,
+} from '@/types/leadActivity';
+import { formatCallbackTime } from '@/utils/callbackTiming';
+
+/**
+ * Format a status value for display ("closed_won" -> "Closed Won")
+ */
+const formatStatusLabel = (status: string | null | undefined): string => {
+  if (!status) return 'Unknown';
+  return status
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+};
+
+/**
+ * Read a text value from an activity's metadata
+ */
+const metadataText = (metadata: LeadActivity['metadata'] | undefined, key: string): string | null => {
+  const value = metadata?.[key];
+  return typeof value === 'string' && value ? value : null;
+};
+
+/**
+ * Build the combined, newest-first timeline for a lead
+ *
+ * Stored activities are merged with events derived from the lead row and its
+ * linked call. Derived sent-to-client and appointment events are only added when
+ * no stored activity of that type exists (older leads predate the trigger).
+ *
+ * @param lead The lead being viewed
+ * @param activities Stored activities for the lead
+ * @param call The linked call, if loaded
+ * @returns Timeline events sorted newest first
+ */
+export function buildLeadTimeline(
+  lead: Lead,
+  activities: LeadActivity[],
+  call?: LeadTimelineCall | null
+): LeadTimelineEvent[] {
+  const events: LeadTimelineEvent[] = [];
+
+  activities.forEach(activity => {
+    switch (activity.activity_type) {
+      case 'note':
+        events.push({
+          id: activity.id,
+          type: 'note',
+          timestamp: activity.created_at,
+          title: 'Note added',
+          content: activity.content,
+          author: activity.author_name || null,
+        });
+        break;
+      case 'status_change':
+        events.push({
+          id: activity.id,
+          type: 'status_change',
+          timestamp: activity.created_at,
+          title: `Status changed from ${formatStatusLabel(metadataText(activity.metadata, 'from'))} to ${formatStatusLabel(metadataText(activity.metadata, 'to'))}`,
+          author: activity.author_name || null,
+          metadata: activity.metadata,
+        });
+        break;
+      case 'sent_to_client': {
+        const sentTo = metadataText(activity.metadata, 'sent_to');
+        events.push({
+          id: activity.id,
+          type: 'sent_to_client',
+          timestamp: activity.created_at,
+          title: 'Sent to client',
+          content: sentTo ? `Sent to ${sentTo}` : activity.content,
+          author: activity.author_name || null,
+        });
+        break;
+      }
+      case 'appointment_confirmed':
+        events.push({
+          id: activity.id,
+          type: 'appointment_confirmed',
+          timestamp: activity.created_at,
+          title: 'Appointment confirmed',
+          content: activity.content,
+          author: activity.author_name || null,
+        });
+        break;
+      case 'merged':
+        events.push({
+          id: activity.id,
+          type: 'merged',
+          timestamp: activity.created_at,
+          title: 'Duplicate leads merged',
+          content: activity.content,
+          author: activity.author_name || null,
+          metadata: activity.metadata,
+        });
+        break;
+      case 'assigned': {
+        const rule = metadataText(activity.metadata, 'rule');
+        events.push({
+          id: activity.id,
+          type: 'assigned',
+          timestamp: activity.created_at,
+          title: metadataText(activity.metadata, 'to')
+            ? `Assigned to ${metadataText(activity.metadata, 'to_name') || 'a team member'}`
+            : 'Unassigned',
+          content: rule && rule !== 'manual'
+            ? `Assigned automatically (${rule === 'round_robin' ? 'round-robin' : 'by inquiry type'})`
+            : activity.content,
+          author: activity.author_name || null,
+          metadata: activity.metadata,
+        });
+        break;
+      }
+      case 'callback_scheduled': {
+        const scheduledAt = metadataText(activity.metadata, 'scheduled_at');
+        events.push({
+          id: activity.id,
+          type: 'callback_scheduled',
+          timestamp: activity.created_at,
+          title: metadataText(activity.metadata, 'action') === 'completed'
+            ? 'Callback completed'
+            : scheduledAt
+              ? `Callback scheduled for ${formatCallbackTime(scheduledAt, metadataText(activity.metadata, 'time_zone') || undefined)}`
+              : 'Callback cleared',
+          content: metadataText(activity.metadata, 'source') === 'parsed'
+            ? `From the customer's requested timing "${metadataText(activity.metadata, 'timing_text')}"`
+            : activity.content,
+          author: activity.author_name || null,
+          metadata: activity.metadata,
+        });
+        break;
+      }
+    }
+  });
+
+  const hasStored = (type: LeadActivity['activity_type']) =>
+    activities.some(activity => activity.activity_type === type);
+
+  if (lead.sent_to_client_at && !hasStored('sent_to_client')) {
+    events.push({
+      id: `${lead.id}-sent_to_client`,
+      type: 'sent_to_client',
+      timestamp: lead.sent_to_client_at,
+      title: 'Sent to client',
+      content: lead.sent_to ? `Sent to ${lead.sent_to}` : null,
+    });
+  }
+
+  if (lead.appointment_confirmed_at && !hasStored('appointment_confirmed')) {
+    events.push({
+      id: `${lead.id}-appointment_confirmed`,
+      type: 'appointment_confirmed',
+      timestamp: lead.appointment_confirmed_at,
+      title: 'Appointment confirmed',
+    });
+  }
+
+  if (call?.call_start_time) {
+    events.push({
+      id: `${call.id}-call`,
+      type: 'call',
+      timestamp: call.call_start_time,
+      title: 'Inbound call handled by AI agent',
+      content: call.call_summary || null,
+      metadata: {
+        call_id: call.id,
+        duration_seconds: call.call_duration_seconds ?? null,
+      },
+    });
+  }
+
+  if (lead.created_at) {
+    events.push({
+      id: `${lead.id}-created`,
+      type: 'lead_created',
+      timestamp: lead.created_at,
+      title: 'Lead captured',
+    });
+
+    // Notes written to leads.notes when the record was created (or before the
+    // activity timeline existed) are shown as one entry at creation time
+    if (lead.notes?.trim()) {
+      events.push({
+        id: `${lead.id}-legacy_notes`,
+        type: 'legacy_notes',
+        timestamp: lead.created_at,
+        title: 'Initial notes',
+        content: lead.notes,
+      });
+    }
+  }
+
+  return events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+export const LeadActivityService = {
+  /**
+   * Get stored activities for a lead, newest first
+   *
+   * @param leadId - The lead ID
+   * @param clientId - Optional client ID filter (required for client-restricted users)
+   * @returns Array of activities with author names
+   */
+  async getActivities(leadId: string, clientId?: string | null): Promise<LeadActivity[]> {
+    try {
+      let query = supabase
+        .from('lead_activities')
+        .select('*, users(full_name, email)')
+        .eq('lead_id', leadId);
+
+      // CRITICAL: Restrict to the user's client when a client filter applies
+      if (clientId) {
+        query = query.eq('client_id', clientId);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching lead activities:', error);
+        throw new Error(`Failed to fetch lead activities: ${error.message}`);
+      }
+
+      return (data || []).map(row => ({
+        ...row,
+        author_name: row.users?.full_name || row.users?.email || null,
+        users: undefined,
+      })) as LeadActivity[];
+    } catch (error) {
+      console.error('Error in getActivities:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record a new activity for a lead
+   *
+   * @param activity - The activity to insert (client_id must match the lead)
+   * @returns The stored activity
+   */
+  async addActivity(activity: NewLeadActivity): Promise<LeadActivity> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_activities')
+        .insert({
+          lead_id: activity.lead_id,
+          client_id: activity.client_id,
+          activity_type: activity.activity_type,
+          content: activity.content ?? null,
+          metadata: activity.metadata ?? null,
+          created_by: activity.created_by ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding lead activity:', error);
+        throw new Error(`Failed to add lead activity: ${error.message}`);
+      }
+
+      return data as unknown as LeadActivity;
+    } catch (error) {
+      console.error('Error in addActivity:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the call linked to a lead for the timeline
+   *
+   * @param callId - The lead's call_id
+   * @returns Call timeline fields or null if not found
+   */
+  async getLinkedCall(callId: string): Promise<LeadTimelineCall | null> {
+    try {
+      const { data, error } = await supabase
+        .from('calls')
+        .select('id, call_start_time, call_duration_seconds, call_summary, caller_phone_number')
+        .eq('id', callId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        console.error('Error fetching linked call:', error);
+        return null;
+      }
+
+      return data as LeadTimelineCall;
+    } catch (error) {
+      console.error('Exception in getLinkedCall:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Load everything needed for a lead's timeline and build it
+   *
+   * @param lead - The lead being viewed
+   * @param clientId - Optional client ID filter for client-restricted users
+   * @returns Timeline events sorted newest first
+   */
+  async getTimeline(lead: Lead, clientId?: string | null): Promise<LeadTimelineEvent[]> {
+    const [activities, call] = await Promise.all([
+      this.getActivities(lead.id, clientId),
+      lead.call_id ? this.getLinkedCall(lead.call_id) : Promise.resolve(null),
+    ]);
+
+    return buildLeadTimeline(lead, activities, call);
+  },
+};
@@ -0,0 +1,104 @@
+/**
+ * Lead Assignment Service
+ * Loads the staff leads can be assigned to, loads and saves each client's
+ * routing rules (clients.config_json.lead_routing) and counts a user's open leads
+ *
+ * CRITICAL: Pass the user's client filter to getAssignees for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import { AdminService } from '@/services/adminService';
+import { LeadPipelineService } from '@/services/leadPipelineService';
+import type { Client } from '@/types/admin';
+import type { LeadAssignee, LeadRoutingConfig } from '@/types/leadRouting';
+import { DEFAULT_ROUTING_CONFIG, getRoutingConfig, isOpenLead } from '@/utils/leadRouting';
+
+export const LeadAssignmentService = {
+  /**
+   * Get the staff (client_admin and client_user) leads can be assigned to
+   * @param clientId Client filter (null for admins viewing all clients)
+   */
+  async getAssignees(clientId: string | null): Promise<LeadAssignee[]> {
+    let query = supabase
+      .from('users')
+      .select('id, full_name, email, role, client_id')
+      .in('role', ['client_admin', 'client_user'])
+      .not('client_id', 'is', null)
+      .order('full_name', { ascending: true });
+
+    // CRITICAL: Filter by client for client-restricted users
+    if (clientId) {
+      query = query.eq('client_id', clientId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching lead assignees:', error);
+      throw new Error(`Failed to fetch lead assignees: ${error.message}`);
+    }
+
+    return (data || []) as LeadAssignee[];
+  },
+
+  /**
+   * Get the routing rules for a client
+   * Returns manual assignment when no client is given (e.g. admin "all clients" view)
+   */
+  async getRoutingConfig(clientId: string | null | undefined): Promise<LeadRoutingConfig> {
+    if (!clientId) return DEFAULT_ROUTING_CONFIG;
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('config_json')
+      .eq('id', clientId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return DEFAULT_ROUTING_CONFIG;
+      console.error('Error fetching lead routing rules:', error);
+      throw new Error(`Failed to fetch lead routing rules: ${error.message}`);
+    }
+
+    return getRoutingConfig(data?.config_json);
+  },
+
+  /**
+   * Save a client's routing rules, keeping the rest of config_json intact
+   * Goes through AdminService so the change is audit logged
+   */
+  async saveRoutingConfig(client: Client, routing: LeadRoutingConfig): Promise<Client> {
+    const config_json = {
+      ...(client.config_json || {}),
+      lead_routing: {
+        mode: routing.mode,
+        assignee_ids: routing.assignee_ids,
+        inquiry_routes: routing.inquiry_routes.filter(route => route.assignee_ids.length > 0),
+      },
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+
+  /**
+   * Count the open leads (not in a closed pipeline stage) assigned to a user
+   * @param clientId The user's client, whose pipeline decides which stages are closed
+   */
+  async getOpenAssignedLeadCount(userId: string, clientId: string | null): Promise<number> {
+    const [stages, { data, error }] = await Promise.all([
+      LeadPipelineService.getPipelineStages(clientId),
+      supabase
+        .from('leads')
+        .select('id, lead_status, assigned_to')
+        .eq('assigned_to', userId)
+        .is('merged_into_lead_id', null),
+    ]);
+
+    if (error) {
+      console.error('Error fetching assigned leads:', error);
+      throw new Error(`Failed to fetch assigned leads: ${error.message}`);
+    }
+
+    return ((data || []) as Lead[]).filter(lead => isOpenLead(lead, stages)).length;
+  },
+};
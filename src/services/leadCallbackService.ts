@@ -0,0 +1,57 @@
+/**
+ * Lead Callback Service
+ * Loads and saves each client's timezone (clients.config_json.timezone), which
+ * callback times are entered and shown in. Captured callback timing is
+ * scheduled by the schedule_captured_callback trigger, and reminders are sent
+ * by the send_due_callback_reminders job.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from '@/services/adminService';
+import type { Client } from '@/types/admin';
+import { DEFAULT_CLIENT_TIMEZONE, getClientTimezone } from '@/utils/callbackTiming';
+
+export const LeadCallbackService = {
+  /**
+   * Get the timezone of each client
+   * @param clientIds Clients to look up (null for all clients the user can see)
+   */
+  async getClientTimezones(clientIds: string[] | null): Promise<Map<string, string>> {
+    if (clientIds && clientIds.length === 0) return new Map();
+
+    let query = supabase.from('clients').select('id, config_json');
+    if (clientIds) {
+      query = query.in('id', clientIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching client timezones:', error);
+      throw new Error(`Failed to fetch client timezones: ${error.message}`);
+    }
+
+    return new Map((data || []).map(client => [client.id, getClientTimezone(client.config_json)]));
+  },
+
+  /**
+   * Get the timezone of one client, defaulting to Eastern time
+   */
+  async getClientTimezone(clientId: string | null | undefined): Promise<string> {
+    if (!clientId) return DEFAULT_CLIENT_TIMEZONE;
+    const timezones = await LeadCallbackService.getClientTimezones([clientId]);
+    return timezones.get(clientId) ?? DEFAULT_CLIENT_TIMEZONE;
+  },
+
+  /**
+   * Save a client's timezone, keeping the rest of config_json intact
+   * Goes through AdminService so the change is audit logged
+   */
+  async saveClientTimezone(client: Client, timeZone: string): Promise<Client> {
+    const config_json = {
+      ...(client.config_json || {}),
+      timezone: timeZone,
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+};
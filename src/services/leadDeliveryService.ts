@@ -0,0 +1,103 @@
+/**
+ * Lead Delivery Service
+ * Loads lead deliveries and their attempts, resends deliveries through the
+ * deliver-leads edge function and saves each client's delivery channels
+ * (clients.config_json.lead_delivery)
+ *
+ * CRITICAL: Pass the user's client filter to getDeliveries for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from '@/services/adminService';
+import type { Client } from '@/types/admin';
+import type {
+  LeadDelivery,
+  LeadDeliveryAttempt,
+  LeadDeliveryConfig,
+  LeadDeliveryFilters,
+} from '@/types/leadDelivery';
+
+const MAX_DELIVERIES = 200;
+
+export const LeadDeliveryService = {
+  /**
+   * Get the most recent deliveries, newest first
+   * @param filters Client filter (null for admins viewing all clients) and status
+   */
+  async getDeliveries(filters: LeadDeliveryFilters = {}): Promise<LeadDelivery[]> {
+    let query = supabase
+      .from('lead_deliveries')
+      .select('*, leads(full_name), clients(name)')
+      .order('created_at', { ascending: false })
+      .limit(MAX_DELIVERIES);
+
+    // CRITICAL: Filter by client for client-restricted users
+    if (filters.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+    if (filters.status && filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching lead deliveries:', error);
+      throw new Error(`Failed to fetch lead deliveries: ${error.message}`);
+    }
+
+    return (data || []).map(({ leads, clients, ...delivery }) => ({
+      ...delivery,
+      lead_name: leads?.full_name ?? null,
+      client_name: clients?.name ?? null,
+    })) as LeadDelivery[];
+  },
+
+  /**
+   * Get every attempt made for a delivery, newest first
+   */
+  async getAttempts(deliveryId: string): Promise<LeadDeliveryAttempt[]> {
+    const { data, error } = await supabase
+      .from('lead_delivery_attempts')
+      .select('*')
+      .eq('delivery_id', deliveryId)
+      .order('attempted_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching delivery attempts:', error);
+      throw new Error(`Failed to fetch delivery attempts: ${error.message}`);
+    }
+
+    return (data || []) as LeadDeliveryAttempt[];
+  },
+
+  /**
+   * Send deliveries again now, with a fresh round of retries
+   * Only admins and owners can resend (checked by the edge function)
+   * @returns How many deliveries went out and how many failed this time
+   */
+  async resendDeliveries(deliveryIds: string[]): Promise<{ delivered: number; failed: number }> {
+    const { data, error } = await supabase.functions.invoke('deliver-leads', {
+      body: { deliveryIds, resend: true },
+    });
+
+    if (error) {
+      console.error('Error resending lead deliveries:', error);
+      throw new Error(`Failed to resend lead deliveries: ${error.message}`);
+    }
+
+    return { delivered: data?.delivered ?? 0, failed: data?.failed ?? 0 };
+  },
+
+  /**
+   * Save a client's delivery channels, keeping the rest of config_json intact
+   * Goes through AdminService so the change is audit logged
+   */
+  async saveDeliveryConfig(client: Client, delivery: LeadDeliveryConfig): Promise<Client> {
+    const config_json = {
+      ...(client.config_json || {}),
+      lead_delivery: { channels: delivery.channels },
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+};
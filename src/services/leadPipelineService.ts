@@ -0,0 +1,106 @@
+/**
+ * Lead Pipeline Service
+ * Loads and saves each client's pipeline stages (clients.config_json.lead_pipeline)
+ * and reads the status history used for stage analytics
+ *
+ * CRITICAL: Pass the user's client filter to getStageChanges for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from '@/services/adminService';
+import type { Client } from '@/types/admin';
+import type { LeadPipelineStage, LeadStageChange } from '@/types/leadPipeline';
+import { DEFAULT_PIPELINE_STAGES, getPipelineStages, validatePipelineStages } from '@/utils/leadPipeline';
+
+const PAGE_SIZE = 1000;
+
+export const LeadPipelineService = {
+  /**
+   * Get the pipeline stages for a client
+   * Returns the default stages when no client is given (e.g. admin "all clients" view)
+   */
+  async getPipelineStages(clientId: string | null | undefined): Promise<LeadPipelineStage[]> {
+    if (!clientId) return DEFAULT_PIPELINE_STAGES;
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('config_json')
+      .eq('id', clientId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return DEFAULT_PIPELINE_STAGES;
+      console.error('Error fetching pipeline stages:', error);
+      throw new Error(`Failed to fetch pipeline stages: ${error.message}`);
+    }
+
+    return getPipelineStages(data?.config_json);
+  },
+
+  /**
+   * Save a client's pipeline stages, keeping the rest of config_json intact
+   * Goes through AdminService so the change is audit logged
+   */
+  async savePipelineStages(client: Client, stages: LeadPipelineStage[]): Promise<Client> {
+    const errors = validatePipelineStages(stages);
+    if (errors.length > 0) {
+      throw new Error(errors.join('. '));
+    }
+
+    const config_json = {
+      ...(client.config_json || {}),
+      lead_pipeline: {
+        stages: stages.map(stage => ({
+          key: stage.key,
+          label: stage.label.trim(),
+          ...(stage.color ? { color: stage.color } : {}),
+          ...(stage.is_closed ? { is_closed: true } : {}),
+        })),
+      },
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+
+  /**
+   * Get status changes recorded on the lead activity timeline
+   * @param clientId Client filter (null for admins viewing all clients)
+   */
+  async getStageChanges(clientId: string | null): Promise<LeadStageChange[]> {
+    const changes: LeadStageChange[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('lead_activities')
+        .select('lead_id, metadata, created_at')
+        .eq('activity_type', 'status_change')
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      // CRITICAL: Filter by client for client-restricted users
+      if (clientId) {
+        query = query.eq('client_id', clientId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching lead stage changes:', error);
+        throw new Error(`Failed to fetch lead stage changes: ${error.message}`);
+      }
+
+      (data || []).forEach(row => {
+        if (!row.metadata?.to) return;
+        changes.push({
+          lead_id: row.lead_id,
+          from: row.metadata.from ?? null,
+          to: row.metadata.to,
+          changed_at: row.created_at,
+        });
+      });
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return changes;
+  },
+};
@@ -0,0 +1,195 @@
+/**
+ * Lead Scoring Service
+ * Loads the evaluation and call intelligence signals behind lead scores, scores
+ * leads with their client's weights and saves each client's weights
+ * (clients.config_json.lead_scoring)
+ *
+ * CRITICAL: Pass the user's client filter to getHotLeads for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import { AdminService } from '@/services/adminService';
+import type { Client } from '@/types/admin';
+import type { LeadScore, LeadScoreWeights, LeadScoringSignals } from '@/types/leadScoring';
+import { getPipelineStages } from '@/utils/leadPipeline';
+import { isOpenLead } from '@/utils/leadRouting';
+import { calculateLeadScore, getScoringConfig, HOT_LEAD_SCORE } from '@/utils/leadScoring';
+
+// Chunk IN lists so large lead lists don't exceed the request URL limit
+const CHUNK_SIZE = 200;
+
+// Hot leads are picked from leads created this recently
+const HOT_LEAD_WINDOW_DAYS = 30;
+
+// Rows per request when loading the window's leads (PostgREST's default row cap)
+const LEAD_PAGE_SIZE = 1000;
+
+export interface ScoredLead {
+  lead: Lead;
+  score: LeadScore;
+}
+
+const chunk = <T,>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+export const LeadScoringService = {
+  /**
+   * Get the scoring signals of multiple calls, keyed by call ID
+   * Calls with neither an evaluation nor call intelligence are left out
+   */
+  async getScoringSignals(callIds: string[]): Promise<Map<string, LeadScoringSignals>> {
+    const signals = new Map<string, LeadScoringSignals>();
+    const uniqueIds = [...new Set(callIds.filter(Boolean))];
+    if (uniqueIds.length === 0) return signals;
+
+    const merge = (callId: string, values: LeadScoringSignals) => {
+      signals.set(callId, { ...signals.get(callId), ...values });
+    };
+
+    for (const ids of chunk(uniqueIds)) {
+      const [evaluations, intelligence] = await Promise.all([
+        supabase
+          .from('lead_evaluations')
+          .select('call_id, lead_intent_score')
+          .in('call_id', ids),
+        supabase
+          .from('call_intelligence')
+          .select('call_id, intent_strength, sales_opportunity_score, purchase_timeline, is_high_intent')
+          .in('call_id', ids),
+      ]);
+
+      if (evaluations.error) {
+        console.error('Error fetching lead evaluations for scoring:', evaluations.error);
+        throw new Error(`Failed to fetch lead evaluations: ${evaluations.error.message}`);
+      }
+      if (intelligence.error) {
+        console.error('Error fetching call intelligence for scoring:', intelligence.error);
+        throw new Error(`Failed to fetch call intelligence: ${intelligence.error.message}`);
+      }
+
+      (evaluations.data || []).forEach(row => merge(row.call_id, { lead_intent_score: row.lead_intent_score }));
+      (intelligence.data || []).forEach(row => merge(row.call_id, {
+        // NUMERIC columns can arrive as strings
+        intent_strength: row.intent_strength === null ? null : Number(row.intent_strength),
+        sales_opportunity_score: row.sales_opportunity_score === null ? null : Number(row.sales_opportunity_score),
+        purchase_timeline: row.purchase_timeline,
+        is_high_intent: row.is_high_intent,
+      }));
+    }
+
+    return signals;
+  },
+
+  /**
+   * Get the config_json of each client
+   */
+  async getClientConfigs(clientIds: string[]): Promise<Map<string, unknown>> {
+    const uniqueIds = [...new Set(clientIds.filter(Boolean))];
+    if (uniqueIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, config_json')
+      .in('id', uniqueIds);
+
+    if (error) {
+      console.error('Error fetching client scoring config:', error);
+      throw new Error(`Failed to fetch client scoring config: ${error.message}`);
+    }
+
+    return new Map((data || []).map(client => [client.id, client.config_json]));
+  },
+
+  /**
+   * Score leads with their own client's weights
+   * @returns Map of lead ID to score; leads without any signals are left out
+   */
+  async scoreLeads(leads: Lead[], clientConfigs?: Map<string, unknown>): Promise<Map<string, LeadScore>> {
+    const [signals, configs] = await Promise.all([
+      LeadScoringService.getScoringSignals(leads.map(lead => lead.call_id)),
+      clientConfigs ?? LeadScoringService.getClientConfigs(leads.map(lead => lead.client_id)),
+    ]);
+
+    const scores = new Map<string, LeadScore>();
+    leads.forEach(lead => {
+      const { weights } = getScoringConfig(configs.get(lead.client_id));
+      const score = calculateLeadScore(lead.call_id ? signals.get(lead.call_id) : null, weights);
+      if (score) scores.set(lead.id, score);
+    });
+
+    return scores;
+  },
+
+  /**
+   * Get the highest scoring open leads created in the last 30 days
+   * Every lead in the window is loaded, a page at a time, since scores are computed here
+   * @param clientId Client filter (null for admins viewing all clients)
+   * @param limit Maximum number of leads to return
+   */
+  async getHotLeads(clientId: string | null, limit = 5): Promise<ScoredLead[]> {
+    const since = new Date(Date.now() - HOT_LEAD_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const rows = [];
+
+    for (let from = 0; ; from += LEAD_PAGE_SIZE) {
+      // id completes the order so pages never skip or repeat a lead
+      let query = supabase
+        .from('leads')
+        .select('*, clients(name)')
+        .is('merged_into_lead_id', null)
+        .not('call_id', 'is', null)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      // CRITICAL: Filter by client for client-restricted users
+      if (clientId) {
+        query = query.eq('client_id', clientId);
+      }
+
+      const { data, error } = await query.range(from, from + LEAD_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching leads for hot leads:', error);
+        throw new Error(`Failed to fetch hot leads: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < LEAD_PAGE_SIZE) break;
+    }
+
+    const leads = rows.map(({ clients, ...lead }) => ({
+      ...lead,
+      status: lead.lead_status,
+      source: 'ai_agent',
+      client_name: clients?.name || null,
+    })) as Lead[];
+
+    const configs = await LeadScoringService.getClientConfigs(leads.map(lead => lead.client_id));
+    const openLeads = leads.filter(lead => isOpenLead(lead, getPipelineStages(configs.get(lead.client_id))));
+    const scores = await LeadScoringService.scoreLeads(openLeads, configs);
+
+    return openLeads
+      .filter(lead => (scores.get(lead.id)?.score ?? 0) >= HOT_LEAD_SCORE)
+      .map(lead => ({ lead, score: scores.get(lead.id)! }))
+      .sort((a, b) => b.score.score - a.score.score)
+      .slice(0, limit);
+  },
+
+  /**
+   * Save a client's scoring weights, keeping the rest of config_json intact
+   * Goes through AdminService so the change is audit logged
+   */
+  async saveScoringWeights(client: Client, weights: LeadScoreWeights): Promise<Client> {
+    const config_json = {
+      ...(client.config_json || {}),
+      lead_scoring: { weights },
+    };
+
+    return AdminService.updateClientWithAudit(client.id, { config_json });
+  },
+};
@@ -0,0 +1,277 @@
+/**
+ * Month Close Service
+ * Closes a month by freezing its financial figures in monthly_billing_summary,
+ * with USD costs converted at the rate of the day they were incurred, and
+ * reopens closed months to recompute them. Closes and recomputes are audit
+ * logged by the table's audit trigger, with the figures before and after.
+ *
+ * Company-wide figures: admins and owners only (enforced by RLS)
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from './adminService';
+import { exchangeRateService } from './exchangeRateService';
+import { MetricsCalculationService } from './metricsCalculationService';
+import type { Client } from '@/types/admin';
+import type { AppliedExchangeRate, ExchangeRateLookup } from '@/types/exchangeRate';
+import type { MonthCloseFigures, MonthFinancials, MonthlyBillingSummary } from '@/types/monthlyBillingSummary';
+import { collectAppliedRates } from '@/utils/exchangeRates';
+import { formatBillingMonth } from '@/utils/invoices';
+import {
+  buildMonthCloseFigures,
+  canCloseMonth,
+  getMonthRange,
+  getUninvoicedClients,
+  summaryToFinancialMetrics,
+} from '@/utils/monthClose';
+
+export interface MonthCloseOptions {
+  // Close even though some active clients have no issued invoice; they are billed their plan fee
+  allowUninvoiced?: boolean;
+}
+
+/**
+ * Count rows created in a date range, optionally narrowed by a column value
+ */
+async function countCreated(
+  table: 'calls' | 'leads',
+  startDate: Date,
+  endDate: Date,
+  filter?: { column: string; value: string }
+): Promise<number> {
+  let query = supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .gte('created_at', startDate.toISOString())
+    .lte('created_at', endDate.toISOString());
+
+  if (filter) {
+    query = query.eq(filter.column, filter.value);
+  }
+
+  const { count, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to count ${table}: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Make.com operations costs for a date range, in USD and in CAD at each day's rate
+ */
+async function getFixedCosts(
+  startDate: Date,
+  endDate: Date,
+  rateFor: ExchangeRateLookup
+): Promise<{ usd: number; cad: number; exchangeRates: AppliedExchangeRate[] }> {
+  const toDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+  const { data, error } = await supabase
+    .from('make_operations')
+    .select('cost_usd, date')
+    .gte('date', toDate(startDate))
+    .lte('date', toDate(endDate));
+
+  if (error) {
+    throw new Error(`Failed to fetch Make.com operations costs: ${error.message}`);
+  }
+
+  const operations = (data || []).map((operation) => ({
+    costUsd: Number(operation.cost_usd || 0),
+    rate: rateFor(operation.date),
+  }));
+
+  return {
+    usd: Math.round(operations.reduce((sum, operation) => sum + operation.costUsd, 0) * 10000) / 10000,
+    cad: operations.reduce((sum, operation) => sum + operation.costUsd * operation.rate.rate, 0),
+    exchangeRates: collectAppliedRates(operations.map((operation) => operation.rate)),
+  };
+}
+
+/**
+ * Compute a month's figures from calls, leads, invoices and rates as they are now
+ * Revenue, active clients, splits and client profitability all come from what
+ * each client was billed (see MetricsCalculationService.getBilledClients)
+ */
+async function computeMonthFigures(month: string): Promise<MonthCloseFigures> {
+  const { startDate, endDate } = getMonthRange(month);
+  const rateFor = await exchangeRateService.getUsdToCadRateLookup(startDate, endDate);
+
+  const [costBreakdown, clientProfitability, billed, callsProcessed, leadsCaptured, appointmentsConfirmed, fixedCosts] =
+    await Promise.all([
+      MetricsCalculationService.getCostBreakdown(startDate, endDate),
+      MetricsCalculationService.getClientProfitabilityForPeriod(startDate, endDate),
+      MetricsCalculationService.getBilledClients(startDate),
+      countCreated('calls', startDate, endDate),
+      countCreated('leads', startDate, endDate),
+      countCreated('calls', startDate, endDate, { column: 'outcome', value: 'appointment_booked' }),
+      getFixedCosts(startDate, endDate, rateFor),
+    ]);
+
+  return buildMonthCloseFigures({
+    month,
+    usdToCadRate: rateFor(endDate).rate,
+    costBreakdown: {
+      ...costBreakdown,
+      exchangeRates: collectAppliedRates([...(costBreakdown.exchangeRates || []), ...fixedCosts.exchangeRates]),
+    },
+    clientProfitability,
+    grossRevenueCad: Array.from(billed.revenueByClient.values()).reduce((sum, revenue) => sum + revenue, 0),
+    activeClients: billed.revenueByClient.size,
+    callsProcessed,
+    leadsCaptured,
+    appointmentsConfirmed,
+    fixedCostsUsd: fixedCosts.usd,
+    fixedCostsCad: fixedCosts.cad,
+  });
+}
+
+/**
+ * Refuse to freeze a month while active clients are not invoiced for it,
+ * unless the admin confirmed billing them at their plan fee
+ */
+async function checkInvoiced(month: string, action: string, options: MonthCloseOptions): Promise<void> {
+  if (options.allowUninvoiced) return;
+
+  const uninvoiced = await MonthCloseService.getUninvoicedClients(month);
+  if (uninvoiced.length > 0) {
+    throw new Error(
+      `Failed to ${action}: ${uninvoiced.map(client => client.name).join(', ')} ` +
+      `${uninvoiced.length === 1 ? 'has' : 'have'} no issued invoice for ${formatBillingMonth(month)}`
+    );
+  }
+}
+
+/**
+ * Read back a month just written
+ */
+async function getSavedMonth(month: string): Promise<MonthlyBillingSummary> {
+  const summary = await MetricsCalculationService.getClosedMonth(month);
+  if (!summary) {
+    throw new Error(`Failed to read back ${formatBillingMonth(month)}`);
+  }
+  return summary;
+}
+
+export const MonthCloseService = {
+  /**
+   * One month of the financial dashboard: the snapshot when the month is
+   * closed, otherwise computed live
+   * @param month First day of the month, YYYY-MM-01
+   */
+  async getMonthFinancials(month: string): Promise<MonthFinancials> {
+    const summary = await MetricsCalculationService.getClosedMonth(month);
+
+    if (summary) {
+      return {
+        month,
+        metrics: summaryToFinancialMetrics(summary),
+        costBreakdown: summary.cost_breakdown,
+        clientProfitability: summary.client_profitability,
+        summary,
+      };
+    }
+
+    const { startDate, endDate } = getMonthRange(month);
+    const [metrics, costBreakdown, clientProfitability] = await Promise.all([
+      MetricsCalculationService.getFinancialMetricsForPeriod(startDate, endDate),
+      MetricsCalculationService.getCostBreakdown(startDate, endDate),
+      MetricsCalculationService.getClientProfitabilityForPeriod(startDate, endDate),
+    ]);
+
+    return { month, metrics, costBreakdown, clientProfitability, summary: null };
+  },
+
+  /**
+   * Active clients with no issued or paid invoice for a month
+   * Closing the month bills them at their plan fee, so it needs confirming
+   */
+  async getUninvoicedClients(month: string): Promise<Client[]> {
+    const [clients, { data, error }] = await Promise.all([
+      AdminService.getClients({ status: 'active' }),
+      supabase
+        .from('client_invoices')
+        .select('client_id, status')
+        .eq('billing_month', month),
+    ]);
+
+    if (error) {
+      console.error('Error fetching client invoices:', error);
+      throw new Error(`Failed to fetch client invoices: ${error.message}`);
+    }
+
+    return getUninvoicedClients(clients, data || []);
+  },
+
+  /**
+   * Close a month that has ended, freezing its figures
+   * Refused while active clients are not invoiced for the month, unless allowUninvoiced is set
+   */
+  async closeMonth(month: string, userId?: string, options: MonthCloseOptions = {}): Promise<MonthlyBillingSummary> {
+    if (!canCloseMonth(month)) {
+      throw new Error(`Failed to close month: ${formatBillingMonth(month)} has not ended yet`);
+    }
+    if (await MetricsCalculationService.getClosedMonth(month)) {
+      throw new Error(`Failed to close month: ${formatBillingMonth(month)} is already closed`);
+    }
+    await checkInvoiced(month, 'close month', options);
+
+    const figures = await computeMonthFigures(month);
+
+    const { error } = await supabase
+      .from('monthly_billing_summary')
+      .insert({ ...figures, closed_by: userId || null });
+
+    if (error) {
+      console.error('Error closing month:', error);
+      throw new Error(`Failed to close month: ${error.message}`);
+    }
+
+    return getSavedMonth(month);
+  },
+
+  /**
+   * Reopen a closed month and recompute its figures from current data
+   * Rates come from the rate history, so overrides added since the close apply
+   * @param reason Why the month is reopened, kept with the snapshot and in the audit log
+   */
+  async reopenAndRecompute(
+    month: string,
+    reason: string,
+    userId?: string,
+    options: MonthCloseOptions = {}
+  ): Promise<MonthlyBillingSummary> {
+    if (!reason.trim()) {
+      throw new Error('Failed to reopen month: a reason is required');
+    }
+
+    const existing = await MetricsCalculationService.getClosedMonth(month);
+    if (!existing) {
+      throw new Error(`Failed to reopen month: ${formatBillingMonth(month)} is not closed`);
+    }
+    await checkInvoiced(month, 'reopen month', options);
+
+    const figures = await computeMonthFigures(month);
+
+    const { error } = await supabase
+      .from('monthly_billing_summary')
+      .update({
+        ...figures,
+        closed_at: new Date().toISOString(),
+        reopened_at: new Date().toISOString(),
+        reopened_by: userId || null,
+        reopen_reason: reason.trim(),
+        recompute_count: existing.recompute_count + 1,
+      })
+      .eq('id', existing.id);
+
+    if (error) {
+      console.error('Error recomputing month:', error);
+      throw new Error(`Failed to recompute month: ${error.message}`);
+    }
+
+    return getSavedMonth(month);
+  },
+};
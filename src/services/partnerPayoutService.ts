@@ -0,0 +1,284 @@
+/**
+ * Partner Payout Service
+ * Manages partners and the clients linked to them, and generates monthly
+ * payout statements itemizing each client's billing, finder's fee and split
+ * (partner_payout_statements). Statements go pending -> paid; changes are
+ * audit logged by the tables' audit triggers.
+ *
+ * Partners and statements are admin and owner data only (RLS)
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AdminService } from './adminService';
+import type { Client } from '@/types/admin';
+import type {
+  Partner,
+  PartnerInput,
+  PayoutStatement,
+  PayoutStatementLine,
+  PayoutStatementWithLines,
+} from '@/types/partnerPayout';
+import type { ClientInvoice } from '@/types/invoice';
+import { formatBillingMonth } from '@/utils/invoices';
+import { buildPayoutStatementLines } from '@/utils/partnerPayouts';
+
+// Postgres unique_violation: the partner already has a statement for the month
+const UNIQUE_VIOLATION = '23505';
+
+type StatementRow = PayoutStatement & { partner_payout_statement_lines?: PayoutStatementLine[] };
+type PayoutClient = Pick<Client, 'id' | 'name' | 'monthly_billing_amount_cad' | 'finders_fee_cad' | 'partner_split_percentage'>;
+type PayoutInvoice = Pick<ClientInvoice, 'client_id' | 'status' | 'total' | 'currency' | 'usd_to_cad_rate'>;
+
+// numeric columns can arrive as strings
+const transformLine = (line: PayoutStatementLine): PayoutStatementLine => ({
+  ...line,
+  billing_cad: Number(line.billing_cad),
+  finders_fee_cad: Number(line.finders_fee_cad),
+  net_revenue_cad: Number(line.net_revenue_cad),
+  split_percentage: Number(line.split_percentage),
+  split_cad: Number(line.split_cad),
+  payout_cad: Number(line.payout_cad),
+});
+
+const transformStatement = ({ partner_payout_statement_lines, ...statement }: StatementRow): PayoutStatementWithLines => ({
+  ...statement,
+  total_billing_cad: Number(statement.total_billing_cad),
+  total_finders_fees_cad: Number(statement.total_finders_fees_cad),
+  total_splits_cad: Number(statement.total_splits_cad),
+  total_payout_cad: Number(statement.total_payout_cad),
+  lines: (partner_payout_statement_lines || [])
+    .map(transformLine)
+    .sort((a, b) => a.client_name.localeCompare(b.client_name)),
+});
+
+const normalizePartnerInput = (input: PartnerInput): PartnerInput => ({
+  name: input.name.trim(),
+  contact_person: input.contact_person?.trim() || null,
+  contact_email: input.contact_email?.trim() || null,
+  notes: input.notes?.trim() || null,
+  is_active: input.is_active,
+});
+
+export const PartnerPayoutService = {
+  /**
+   * Get all partners by name
+   */
+  async getPartners(): Promise<Partner[]> {
+    const { data, error } = await supabase
+      .from('partners')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching partners:', error);
+      throw new Error(`Failed to fetch partners: ${error.message}`);
+    }
+
+    return (data || []) as unknown as Partner[];
+  },
+
+  /**
+   * Add a partner
+   */
+  async createPartner(input: PartnerInput): Promise<Partner> {
+    const { data, error } = await supabase
+      .from('partners')
+      .insert(normalizePartnerInput(input))
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating partner:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(`Failed to create partner: a partner named ${input.name.trim()} already exists`);
+      }
+      throw new Error(`Failed to create partner: ${error.message}`);
+    }
+
+    return data as unknown as Partner;
+  },
+
+  /**
+   * Update a partner's details
+   */
+  async updatePartner(id: string, input: PartnerInput): Promise<Partner> {
+    const { data, error } = await supabase
+      .from('partners')
+      .update(normalizePartnerInput(input))
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating partner:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(`Failed to update partner: a partner named ${input.name.trim()} already exists`);
+      }
+      throw new Error(`Failed to update partner: ${error.message}`);
+    }
+
+    return data as unknown as Partner;
+  },
+
+  /**
+   * Link a client to a partner, or unlink it with null
+   * Goes through AdminService so the change is audit logged
+   */
+  async assignClientPartner(clientId: string, partnerId: string | null): Promise<Client> {
+    return AdminService.updateClientWithAudit(clientId, { partner_id: partnerId });
+  },
+
+  /**
+   * Get every partner's statements for a month
+   * @param billingMonth First day of the month, YYYY-MM-01
+   */
+  async getStatements(billingMonth: string): Promise<PayoutStatement[]> {
+    const { data, error } = await supabase
+      .from('partner_payout_statements')
+      .select('*')
+      .eq('billing_month', billingMonth);
+
+    if (error) {
+      console.error('Error fetching payout statements:', error);
+      throw new Error(`Failed to fetch payout statements: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as StatementRow[]).map(row => transformStatement(row));
+  },
+
+  /**
+   * Get a statement with its lines
+   */
+  async getStatement(id: string): Promise<PayoutStatementWithLines> {
+    const { data, error } = await supabase
+      .from('partner_payout_statements')
+      .select('*, partner_payout_statement_lines(*)')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching payout statement:', error);
+      throw new Error(`Failed to fetch payout statement: ${error.message}`);
+    }
+
+    return transformStatement(data as unknown as StatementRow);
+  },
+
+  /**
+   * Generate a pending statement for a partner's month from their active clients
+   * @param billingMonth First day of the month, YYYY-MM-01
+   */
+  async generateStatement(partner: Partner, billingMonth: string, userId?: string): Promise<PayoutStatementWithLines> {
+    const { data: clientRows, error: clientsError } = await supabase
+      .from('clients')
+      .select('id, name, monthly_billing_amount_cad, finders_fee_cad, partner_split_percentage')
+      .eq('partner_id', partner.id)
+      .eq('status', 'active');
+
+    if (clientsError) {
+      console.error('Error fetching partner clients:', clientsError);
+      throw new Error(`Failed to generate statement: ${clientsError.message}`);
+    }
+
+    const clients = (clientRows || []) as unknown as PayoutClient[];
+    if (clients.length === 0) {
+      throw new Error(`Failed to generate statement: ${partner.name} has no active clients`);
+    }
+
+    const { data: invoices, error: invoicesError } = await supabase
+      .from('client_invoices')
+      .select('client_id, status, total, currency, usd_to_cad_rate')
+      .in('client_id', clients.map(client => client.id))
+      .eq('billing_month', billingMonth);
+
+    if (invoicesError) {
+      console.error('Error fetching client invoices:', invoicesError);
+      throw new Error(`Failed to generate statement: ${invoicesError.message}`);
+    }
+
+    // numeric columns can arrive as strings
+    const lines = buildPayoutStatementLines(
+      clients.map(client => ({
+        ...client,
+        monthly_billing_amount_cad: Number(client.monthly_billing_amount_cad || 0),
+        finders_fee_cad: Number(client.finders_fee_cad || 0),
+        partner_split_percentage: Number(client.partner_split_percentage || 0),
+      })),
+      ((invoices || []) as unknown as PayoutInvoice[]).map(invoice => ({
+        ...invoice,
+        total: Number(invoice.total),
+        usd_to_cad_rate: invoice.usd_to_cad_rate === null ? null : Number(invoice.usd_to_cad_rate),
+      }))
+    );
+
+    const { data: statement, error } = await supabase
+      .from('partner_payout_statements')
+      .insert({
+        partner_id: partner.id,
+        billing_month: billingMonth,
+        created_by: userId || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating payout statement:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(`Failed to generate statement: ${partner.name} already has a statement for ${formatBillingMonth(billingMonth)}`);
+      }
+      throw new Error(`Failed to generate statement: ${error.message}`);
+    }
+
+    const { error: linesError } = await supabase
+      .from('partner_payout_statement_lines')
+      .insert(lines.map(line => ({ ...line, statement_id: statement.id })));
+
+    if (linesError) {
+      console.error('Error creating payout statement lines:', linesError);
+      // Don't leave an empty statement behind
+      await supabase.from('partner_payout_statements').delete().eq('id', statement.id);
+      throw new Error(`Failed to generate statement: ${linesError.message}`);
+    }
+
+    return PartnerPayoutService.getStatement(statement.id);
+  },
+
+  /**
+   * Delete a pending statement, e.g. to generate it again after fixing a client's fee or split
+   */
+  async deletePendingStatement(id: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('partner_payout_statements')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting payout statement:', error);
+      throw new Error(`Failed to delete statement: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Failed to delete statement: only pending statements can be deleted');
+    }
+  },
+
+  /**
+   * Mark a pending statement as paid; paid statements are final
+   * @param paymentReference Cheque or transfer number, optional
+   */
+  async markPaid(id: string, paymentReference?: string): Promise<PayoutStatementWithLines> {
+    const { data, error } = await supabase
+      .from('partner_payout_statements')
+      .update({ status: 'paid', payment_reference: paymentReference?.trim() || null })
+      .eq('id', id)
+      .select('*, partner_payout_statement_lines(*)')
+      .single();
+
+    if (error) {
+      console.error('Error marking payout statement paid:', error);
+      throw new Error(`Failed to mark statement paid: ${error.message}`);
+    }
+
+    return transformStatement(data as unknown as StatementRow);
+  },
+};
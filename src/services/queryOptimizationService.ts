@@ -69,7 +69,7 @@ export class QueryOptimizationService {
           LEFT JOIN (
             SELECT 
               client_id,
-              SUM(COALESCE(total_call_cost_usd, 0) * 1.35) as total_cost
+              SUM(COALESCE(total_call_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as total_cost
             FROM calls 
             WHERE created_at >= date_trunc('month', CURRENT_DATE)
             GROUP BY client_id
@@ -130,16 +130,16 @@ export class QueryOptimizationService {
       const query = `
         WITH cost_aggregations AS (
           SELECT 
-            SUM(COALESCE(openai_api_cost_usd, 0) * 1.35) as ai_costs,
-            SUM(COALESCE(vapi_call_cost_usd, 0) * 1.35) as vapi_costs,
-            SUM(COALESCE(vapi_llm_cost_usd, 0) * 1.35) as vapi_llm_costs,
-            SUM(COALESCE(tts_cost_usd, 0) * 1.35) as tts_costs,
-            SUM(COALESCE(transcriber_cost_usd, 0) * 1.35) as transcriber_costs,
-            SUM(COALESCE(call_summary_cost_usd, 0) * 1.35) as call_summary_costs,
-            SUM(COALESCE(twillio_call_cost_usd, 0) * 1.35) as twilio_costs,
-            SUM(COALESCE(sms_cost_usd, 0) * 1.35) as sms_costs,
-            SUM(COALESCE(tool_cost_usd, 0) * 1.35) as tool_costs,
-            SUM(COALESCE(total_call_cost_usd, 0) * 1.35) as total_call_costs
+            SUM(COALESCE(openai_api_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as ai_costs,
+            SUM(COALESCE(vapi_call_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as vapi_costs,
+            SUM(COALESCE(vapi_llm_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as vapi_llm_costs,
+            SUM(COALESCE(tts_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as tts_costs,
+            SUM(COALESCE(transcriber_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as transcriber_costs,
+            SUM(COALESCE(call_summary_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as call_summary_costs,
+            SUM(COALESCE(twillio_call_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as twilio_costs,
+            SUM(COALESCE(sms_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as sms_costs,
+            SUM(COALESCE(tool_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as tool_costs,
+            SUM(COALESCE(total_call_cost_usd, 0) * get_usd_to_cad_rate(created_at::date)) as total_call_costs
           FROM calls 
           WHERE created_at >= '${startDate.toISOString()}'
             AND created_at <= '${endDate.toISOString()}'
@@ -0,0 +1,101 @@
+/**
+ * Saved View Service
+ * Stores named call logs and leads views (saved_views) per user; a view can be
+ * shared with every user of one client
+ *
+ * CRITICAL: RLS only returns the user's own views and views shared with a client
+ * they can access; pass the user's client filter to getViews to list one client's views
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { SavedView, SavedViewInput, SavedViewPage } from '@/types/savedView';
+
+const VIEW_SELECT = '*, owner:users!saved_views_user_id_fkey(full_name, email)';
+
+// saved_views row with the owner in VIEW_SELECT
+type SavedViewRow = SavedView & {
+  owner: { full_name: string | null; email: string } | null;
+};
+
+const transformView = ({ owner, ...view }: SavedViewRow): SavedView => ({
+  ...view,
+  owner_name: owner ? owner.full_name || owner.email : null,
+});
+
+export const SavedViewService = {
+  /**
+   * Get the views for a page: the user's own and those shared with the client
+   * @param clientId Client filter (null for admins viewing all clients)
+   */
+  async getViews(page: SavedViewPage, userId: string, clientId: string | null): Promise<SavedView[]> {
+    let query = supabase
+      .from('saved_views')
+      .select(VIEW_SELECT)
+      .eq('page', page)
+      .order('name', { ascending: true });
+
+    // CRITICAL: Only the selected client's shared views (plus the user's own)
+    query = clientId
+      ? query.or(`user_id.eq.${userId},and(shared.eq.true,client_id.eq.${clientId})`)
+      : query.eq('user_id', userId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching saved views:', error);
+      throw new Error(`Failed to fetch saved views: ${error.message}`);
+    }
+
+    return ((data || []) as SavedViewRow[]).map(transformView);
+  },
+
+  /**
+   * Save a view; saving with the name of one of the user's views replaces it
+   */
+  async saveView(userId: string, input: SavedViewInput): Promise<SavedView> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Failed to save view: a name is required');
+    }
+    if (input.shared && !input.clientId) {
+      throw new Error('Failed to save view: choose a client to share it with');
+    }
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .upsert(
+        {
+          user_id: userId,
+          client_id: input.clientId,
+          page: input.page,
+          name,
+          query: input.query,
+          shared: input.shared,
+        },
+        { onConflict: 'user_id,page,name' }
+      )
+      .select(VIEW_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error saving view:', error);
+      throw new Error(`Failed to save view: ${error.message}`);
+    }
+
+    return transformView(data as SavedViewRow);
+  },
+
+  /**
+   * Delete one of the user's views
+   */
+  async deleteView(viewId: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', viewId);
+
+    if (error) {
+      console.error('Error deleting view:', error);
+      throw new Error(`Failed to delete view: ${error.message}`);
+    }
+  },
+};
@@ -0,0 +1,63 @@
+/**
+ * Tool Call Service
+ * Loads agent tool invocations (tool_calls) for tool analytics
+ *
+ * CRITICAL: Pass the user's client filter to getInvocations for client data isolation
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { ToolCallFilters, ToolCallRow, ToolInvocations } from '@/types/toolCalls';
+import { pairToolCalls } from '@/utils/toolCalls';
+
+// PostgREST returns at most 1000 rows per request (max_rows), so rows are paged
+const TOOL_CALL_PAGE_SIZE = 1000;
+
+// Two rows per invocation (call and result)
+const MAX_TOOL_CALL_ROWS = 20000;
+
+const TOOL_CALL_SELECT = 'id, call_id, client_id, role, tool_name, arguments, result, created_at, clients(name)';
+
+export const ToolCallService = {
+  /**
+   * Get tool invocations paired with their results, newest first
+   * At most MAX_TOOL_CALL_ROWS rows are loaded; `truncated` is set when older ones were left out
+   * @param filters Client filter (null for admins viewing all clients) and date range
+   */
+  async getInvocations(filters: ToolCallFilters = {}): Promise<ToolInvocations> {
+    const rows: ToolCallRow[] = [];
+
+    for (let from = 0; from < MAX_TOOL_CALL_ROWS; from += TOOL_CALL_PAGE_SIZE) {
+      // A call and its result share an id, so role completes the order
+      let query = supabase
+        .from('tool_calls')
+        .select(TOOL_CALL_SELECT)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .order('role', { ascending: true });
+
+      // CRITICAL: Filter by client for client-restricted users
+      if (filters.clientId) {
+        query = query.eq('client_id', filters.clientId);
+      }
+      if (filters.startDate) {
+        query = query.gte('created_at', filters.startDate);
+      }
+      if (filters.endDate) {
+        query = query.lte('created_at', filters.endDate);
+      }
+
+      const { data, error } = await query.range(from, from + TOOL_CALL_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching tool calls:', error);
+        throw new Error(`Failed to fetch tool calls: ${error.message}`);
+      }
+
+      rows.push(...((data || []) as unknown as ToolCallRow[]));
+      if (!data || data.length < TOOL_CALL_PAGE_SIZE) {
+        return { invocations: pairToolCalls(rows), truncated: false };
+      }
+    }
+
+    return { invocations: pairToolCalls(rows), truncated: true };
+  },
+};
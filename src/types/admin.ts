@@ -1,3 +1,5 @@
+import type { CurrencyCode } from '@/utils/currency';
+
 export interface Client {
   id: string;
   name: string;
@@ -13,6 +15,7 @@ export interface Client {
   average_monthly_misc_cost_usd: number; // Calculated field, not input
   partner_split_percentage: number; // Backend managed field
   finders_fee_cad: number;
+  partner_id?: string | null; // Partner paid the finder's fee and split, see partnerPayoutService
   slug: string;
   config_json: any;
   joined_at: Date;
@@ -47,6 +50,7 @@ export interface CreateClientData {
 export interface UpdateClientData extends Partial<CreateClientData> {
   status?: 'active' | 'inactive' | 'trial' | 'churned' | 'pending';
   is_in_test_mode?: boolean;
+  partner_id?: string | null;
 }
 
 export interface ClientFilters {
@@ -102,6 +106,7 @@ export interface User {
     displaySettings: {
       theme: 'light' | 'dark' | 'system';
       dashboardLayout: 'compact' | 'detailed';
+      currency?: CurrencyCode; // Display currency, client billing currency when not set
     };
   };
 }
@@ -0,0 +1,56 @@
+/**
+ * Call bulk action types
+ * Actions run on the calls selected in the call logs tables; each reports a
+ * BulkOperationResult with the calls it could not change
+ */
+import type { BulkOperationResult } from '@/types/admin';
+
+export type CallBulkAction =
+  | 'mark_test'
+  | 'mark_live'
+  | 'flag_review'   // Set lead_evaluations.human_review_required
+  | 'clear_review'
+  | 'create_leads'
+  | 'add_tags'
+  | 'remove_tags'
+  | 'export';        // CSV with transcripts
+
+// Actions that change the calls (everything but export)
+export type CallUpdateAction = Exclude<CallBulkAction, 'export'>;
+
+export interface CallBulkOperation {
+  action: CallUpdateAction;
+  ids: string[];
+  tags?: string[];  // For add_tags and remove_tags
+}
+
+// Calls handled so far, reported while an action runs
+export interface CallBulkProgress {
+  done: number;
+  total: number;
+}
+
+export interface CallExportResult extends BulkOperationResult {
+  csv: string;
+}
+
+// Call fields used to build a lead from a call
+export interface CallLeadSource {
+  id: string;
+  client_id: string;
+  caller_full_name?: string | null;
+  caller_phone_number?: string | null;
+  call_start_time: string;
+}
+
+// Call fields in a bulk export
+export interface CallExportRow extends CallLeadSource {
+  call_type: string;
+  call_duration_seconds: number | null;
+  outcome?: string | null;
+  is_test_call?: boolean | null;
+  tags?: string[] | null;
+  call_summary?: string | null;
+  transcript?: string | null;
+  clients?: { name: string } | null;
+}
@@ -0,0 +1,33 @@
+/**
+ * Call log filter types
+ * Advanced filters are applied on the server by joining each call's
+ * evaluation (lead_evaluations), call intelligence (call_intelligence) and
+ * prompt adherence review (prompt_adherence_reviews)
+ */
+
+export type CallSentimentFilter = 'positive' | 'neutral' | 'negative' | '__all__';
+
+export interface CallLogsAdvancedFilters {
+  minScore?: number; // Minimum evaluation score (1-5)
+  maxScore?: number; // Maximum evaluation score (1-5)
+  sentiment?: CallSentimentFilter;
+  inquiryType?: string | '__all__'; // call_intelligence.inquiry_type
+  reviewRequired?: boolean;
+  minAdherence?: number; // Minimum prompt adherence score (0-100)
+  maxAdherence?: number; // Maximum prompt adherence score (0-100)
+}
+
+export type CallLogSortField = 'caller_full_name' | 'call_start_time' | 'call_type';
+
+// Order of paged calls; ties are broken by id in the same direction and
+// calls without a value come last
+export interface CallLogSort {
+  field: CallLogSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Position after the last call of a page: its sort column value and id
+export interface CallLogCursor {
+  value: string | null;
+  id: string;
+}
@@ -0,0 +1,32 @@
+/**
+ * Call outcome types
+ * Each call's outcome and status are derived by classify_call_outcome and stored
+ * on the call (see 20250828000000_add_call_outcomes.sql)
+ */
+
+export type CallOutcome =
+  | 'appointment_booked' // The call's lead has a confirmed appointment
+  | 'lead_captured'      // The call has a lead
+  | 'transferred'        // Transferred to staff
+  | 'voicemail'          // Left or reached a voicemail
+  | 'failed'             // Failed to connect, or the agent errored
+  | 'hang_up'            // Caller hung up early or the line went silent
+  | 'spam'               // Spam or robocall
+  | 'completed';         // Answered, no lead
+
+export type CallStatus = 'completed' | 'failed' | 'transferred';
+
+export type CallOutcomeCounts = Record<CallOutcome, number>;
+
+export interface CallOutcomeShare {
+  outcome: CallOutcome;
+  label: string;
+  count: number;
+  percentage: number;
+}
+
+export interface CallOutcomeFunnelStage {
+  name: string;
+  value: number;
+  percentage: number; // Share of all calls
+}
@@ -0,0 +1,84 @@
+/**
+ * Call review types
+ * Calls flagged with lead_evaluations.human_review_required are queued in
+ * call_reviews for an admin to review (see 20250820000000_add_call_reviews.sql)
+ */
+import type { LeadEvaluation } from './leadEvaluation';
+
+export type CallReviewStatus = 'unresolved' | 'resolved';
+
+export type CallReviewVerdict =
+  | 'agent_error'       // The agent got it wrong
+  | 'no_issue'          // The call was fine; the flag was a false alarm
+  | 'evaluation_error'; // The evaluation scores were wrong
+
+export type CallReviewPriority = 'high' | 'medium' | 'low';
+
+// Evaluation scores (1-5) a reviewer can correct
+export type ReviewScoreField =
+  | 'lead_completion_score'
+  | 'clarity_politeness_score'
+  | 'relevance_questions_score'
+  | 'objection_handling_score'
+  | 'naturalness_score'
+  | 'lead_intent_score'
+  | 'failure_risk_score';
+
+export type CorrectedScores = Partial<Record<ReviewScoreField, number>>;
+
+export type CallReviewEvaluation = Pick<
+  LeadEvaluation,
+  ReviewScoreField | 'sentiment' | 'negative_call_flag' | 'overall_evaluation_score'
+>;
+
+export interface CallReview {
+  id: string;
+  call_id: string;
+  evaluation_id: string;
+  client_id: string;
+  review_reason: string | null;
+  status: CallReviewStatus;
+  assigned_to: string | null;
+  claimed_at: string | null;
+  verdict: CallReviewVerdict | null;
+  corrected_scores: CorrectedScores;
+  comments: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  flagged_at: string;
+  created_at: string;
+  updated_at: string;
+  // Joined for display
+  client_name?: string | null;
+  caller_name?: string | null;
+  caller_phone?: string | null;
+  call_start_time?: string | null;
+  assignee_name?: string | null;
+  resolver_name?: string | null;
+  evaluation?: CallReviewEvaluation | null;
+}
+
+export interface CallReviewFilters {
+  clientId?: string | null;  // Client filter (null for admins viewing all clients)
+  status?: CallReviewStatus | 'all';
+}
+
+export interface CallReviewVerdictInput {
+  verdict: CallReviewVerdict;
+  corrected_scores: CorrectedScores;
+  comments: string | null;
+}
+
+export interface CallReviewer {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export interface CallReviewQueueStats {
+  unresolved: number;
+  unclaimed: number;
+  highPriority: number;
+  oldestFlaggedAt: string | null;
+  averageAgeHours: number | null;
+}
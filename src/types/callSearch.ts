@@ -0,0 +1,19 @@
+/**
+ * Call search types
+ * Calls are searched server-side by summary and transcript (full-text) and by
+ * caller name and phone number (see 20250822000000_add_call_search.sql)
+ */
+
+// One row returned by the search_calls database function
+export interface CallSearchMatch {
+  call_id: string;
+  rank: number;
+  summary_snippet: string | null;     // Summary excerpt with matches marked, when the summary matched
+  transcript_snippet: string | null;  // Transcript excerpt with matches marked, when the transcript matched
+}
+
+// A piece of a snippet, highlighted when it is a matched word
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
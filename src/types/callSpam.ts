@@ -0,0 +1,32 @@
+/**
+ * Call spam types
+ * Calls are scored for spam by score_spam_call and marked is_spam in the database
+ * (see 20250901000000_add_spam_detection.sql); users can override the verdict
+ */
+
+export type SpamSignal =
+  | 'instant_hang_up'    // Lasted under 3 seconds
+  | 'robocall_script'    // Robocall phrases in the transcript
+  | 'repeat_caller'      // Same number called the client 4+ times in 24 hours
+  | 'caller_never_spoke' // No customer turn in the transcript
+  | 'silent_hang_up'     // The line went silent until the call timed out
+  | 'hidden_caller_id';  // No caller number, or an anonymous one
+
+export type SpamVerdictSource = 'score' | 'override';
+
+export interface SpamVerdict {
+  isSpam: boolean;
+  source: SpamVerdictSource;
+  score: number;
+  signals: SpamSignal[];
+  overriddenAt: string | null;
+}
+
+// The calls columns a spam verdict is read from
+export interface SpamFields {
+  is_spam?: boolean;
+  spam_score?: number;
+  spam_signals?: string[];
+  spam_override?: boolean | null;
+  spam_overridden_at?: string | null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Call transcript types
+ * calls.transcript is stored as plain text ("AI: ...\nUser: ..."); it is parsed
+ * into speaker turns so the transcript can follow the recording
+ */
+
+export type TranscriptSpeaker = 'agent' | 'customer' | 'unknown';
+
+export interface TranscriptTurn {
+  index: number;
+  speaker: TranscriptSpeaker;
+  text: string;
+  start: number | null;  // Seconds into the recording; null when unknown
+  estimated: boolean;    // true when start is estimated from the text length rather than read from the transcript
+}
+
+export interface TranscriptMatch {
+  turnIndex: number;
+  offset: number;  // Position of the match within the turn's text
+  length: number;
+}
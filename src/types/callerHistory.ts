@@ -0,0 +1,62 @@
+/**
+ * Caller history types
+ * A caller is everyone who called one client from the same normalized phone number
+ * (calls.caller_phone_normalized, see 20250903000000_add_caller_history.sql)
+ */
+
+export type CallerSentiment = 'positive' | 'neutral' | 'negative';
+
+// A call from the caller, with its evaluation sentiment and inquiry type
+export interface CallerHistoryCall {
+  id: string;
+  call_start_time: string;
+  call_duration_seconds: number | null;
+  caller_full_name: string | null;
+  call_summary: string | null;
+  outcome: string | null;
+  is_spam: boolean;
+  sentiment: CallerSentiment | null;
+  inquiry_type: string | null;
+}
+
+export interface CallerHistoryLead {
+  id: string;
+  call_id: string | null;
+  full_name: string;
+  lead_status: string;
+  created_at: string;
+}
+
+export interface CallerSentimentPoint {
+  date: string;             // call_start_time
+  sentiment: CallerSentiment;
+  value: number;            // 1 positive, 0 neutral, -1 negative
+}
+
+export interface CallerInquiryCount {
+  inquiry_type: string;
+  count: number;
+}
+
+export interface CallerHistory {
+  phone: string;            // Normalized
+  client_id: string;
+  caller_name: string | null; // Latest name given on a call or lead
+  calls: CallerHistoryCall[]; // Newest first
+  leads: CallerHistoryLead[]; // Newest first
+  sentimentTrend: CallerSentimentPoint[]; // Oldest first
+  inquiryTypes: CallerInquiryCount[];     // Most common first
+  firstCallAt: string | null;
+  lastCallAt: string | null;
+}
+
+// A caller found by the caller search box
+export interface CallerSearchResult {
+  phone: string;            // Normalized
+  display_phone: string;    // As last received
+  caller_name: string | null;
+  client_id: string;
+  client_name: string | null;
+  calls: number;
+  last_call_at: string;
+}
@@ -17,6 +17,7 @@ export interface DashboardMetrics {
   averageHandleTime: string;
   callsTransferred: number;
   totalLeads: number;
+  appointmentsBooked?: number; // Calls whose outcome is appointment_booked
   callsGrowth?: number;
   timeGrowth?: number;
   transferGrowth?: number;
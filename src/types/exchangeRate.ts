@@ -0,0 +1,32 @@
+/**
+ * Exchange rate types
+ * Dated USD to CAD rates with manual overrides
+ * (see 20250911000000_add_exchange_rate_history.sql)
+ */
+
+export type ExchangeRateHistorySource =
+  | 'feed'    // Daily rate from the rate feed
+  | 'manual'; // Admin override, wins over the feed rate for its day
+
+export interface ExchangeRateHistoryEntry {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate_date: string; // YYYY-MM-DD
+  rate: number;
+  source: ExchangeRateHistorySource;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The rate a conversion used; 'default' when there is no rate history at all
+export interface AppliedExchangeRate {
+  rate: number;
+  rateDate: string | null;
+  source: ExchangeRateHistorySource | 'default';
+}
+
+// Resolves the rate for a day from rates already loaded for a date range
+export type ExchangeRateLookup = (date: Date | string) => AppliedExchangeRate;
@@ -0,0 +1,87 @@
+/**
+ * Client invoice types
+ * Monthly invoices built from a client's plan fee and call usage
+ * (see 20250907000000_add_client_invoices.sql)
+ */
+
+import type { CurrencyCode } from '@/utils/currency';
+
+export type InvoiceStatus = 'draft' | 'issued' | 'paid' | 'void';
+
+export type InvoiceLineItemType =
+  | 'base_fee'  // The client's monthly plan fee
+  | 'overage'   // Call minutes over the included minutes
+  | 'credit';   // Money taken off the invoice (negative amount)
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  line_number: number;
+  item_type: InvoiceLineItemType;
+  description: string;
+  quantity: number;
+  unit_amount: number;
+  amount: number;
+  created_at: string;
+}
+
+export type NewInvoiceLineItem = Omit<InvoiceLineItem, 'id' | 'invoice_id' | 'created_at'>;
+
+export interface ClientInvoice {
+  id: string;
+  client_id: string;
+  invoice_number: string | null; // Assigned when issued
+  billing_month: string;         // First day of the month, YYYY-MM-01
+  period_start: string;
+  period_end: string;
+  status: InvoiceStatus;
+  currency: string;              // Client's billing currency when generated
+  usd_to_cad_rate: number | null; // Rate CAD amounts were converted at; null for CAD invoices
+  billable_calls: number;
+  billable_minutes: number;
+  subtotal: number;
+  credits: number;
+  total: number;
+  notes: string | null;
+  void_reason: string | null;
+  issued_at: string | null;
+  due_at: string | null;
+  paid_at: string | null;
+  voided_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientInvoiceWithLines extends ClientInvoice {
+  line_items: InvoiceLineItem[];
+}
+
+// Per-client invoicing settings, kept in clients.config_json.invoicing
+export interface InvoiceSettings {
+  included_minutes: number | null; // null: unlimited, no overage is billed
+  overage_rate_cad: number;        // Per minute over the included minutes
+}
+
+// Currency an invoice is issued in; plan fees and overage rates are in CAD
+export interface InvoiceBilling {
+  currency: CurrencyCode;
+  usd_to_cad_rate: number | null; // Rate of the billing month's last day; null for CAD
+}
+
+export interface InvoicePeriod {
+  start: string;
+  end: string;
+}
+
+// Calls billed on an invoice: live, non-spam calls in the period
+export interface BillableUsage {
+  billable_calls: number;
+  billable_minutes: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  credits: number;
+  total: number;
+}
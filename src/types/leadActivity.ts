@@ -0,0 +1,50 @@
+/**
+ * Lead activity timeline types
+ */
+
+// Activity types stored in the lead_activities table
+export type LeadActivityType = 'note' | 'status_change' | 'sent_to_client' | 'appointment_confirmed' | 'merged' | 'assigned' | 'callback_scheduled';
+
+export interface LeadActivity {
+  id: string;
+  lead_id: string;
+  client_id: string;
+  activity_type: LeadActivityType;
+  content: string | null;
+  metadata: Record<string, unknown> | null;
+  created_by: string | null;
+  created_at: string;
+  // Joined from users for display
+  author_name?: string | null;
+}
+
+export interface NewLeadActivity {
+  lead_id: string;
+  client_id: string;
+  activity_type: LeadActivityType;
+  content?: string | null;
+  metadata?: Record<string, unknown> | null;
+  created_by?: string | null;
+}
+
+// Timeline entries combine stored activities with events derived from the lead and its call
+export type LeadTimelineEventType = LeadActivityType | 'lead_created' | 'call' | 'legacy_notes';
+
+export interface LeadTimelineEvent {
+  id: string;
+  type: LeadTimelineEventType;
+  timestamp: string;
+  title: string;
+  content?: string | null;
+  author?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+// Subset of the calls row shown on the timeline
+export interface LeadTimelineCall {
+  id: string;
+  call_start_time: string | null;
+  call_duration_seconds?: number | null;
+  call_summary?: string | null;
+  caller_phone_number?: string | null;
+}
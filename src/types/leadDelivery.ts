@@ -0,0 +1,61 @@
+/**
+ * Lead delivery types
+ * Channels are configured per client in clients.config_json.lead_delivery;
+ * each lead gets one delivery per enabled channel, with one attempt row per try
+ */
+
+export type LeadDeliveryChannelType = 'email_digest' | 'adf_email' | 'webhook';
+
+export interface LeadDeliveryChannel {
+  id: string;
+  type: LeadDeliveryChannelType;
+  enabled: boolean;
+  recipients: string[]; // Email channels
+  url: string | null; // Webhook channel
+  secret: string | null; // Webhook channel: signs the body (X-Dealermate-Signature)
+  digest_interval_minutes: number; // Email digest channel
+}
+
+export interface LeadDeliveryConfig {
+  channels: LeadDeliveryChannel[];
+}
+
+export type LeadDeliveryStatus = 'pending' | 'sending' | 'retrying' | 'delivered' | 'failed';
+
+export interface LeadDelivery {
+  id: string;
+  lead_id: string;
+  client_id: string;
+  channel_id: string;
+  channel_type: LeadDeliveryChannelType;
+  destination: string;
+  status: LeadDeliveryStatus;
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined for display
+  lead_name?: string | null;
+  client_name?: string | null;
+}
+
+export interface LeadDeliveryAttempt {
+  id: string;
+  delivery_id: string;
+  client_id: string;
+  attempt_number: number;
+  succeeded: boolean;
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number | null;
+  triggered_by: string | null;
+  attempted_at: string;
+}
+
+export interface LeadDeliveryFilters {
+  clientId?: string | null;
+  status?: LeadDeliveryStatus | 'all';
+}
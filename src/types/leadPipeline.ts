@@ -0,0 +1,41 @@
+/**
+ * Lead pipeline types
+ * Each client defines its ordered stages in clients.config_json.lead_pipeline;
+ * a lead's lead_status holds the key of the stage it is in
+ */
+
+export interface LeadPipelineStage {
+  key: string;          // Stored in leads.lead_status (e.g. 'test_drive')
+  label: string;        // Display name (e.g. 'Test Drive')
+  color?: string;       // Optional hex colour for the board column
+  is_closed?: boolean;  // Outcome stages (won/lost) that end the pipeline
+}
+
+export interface LeadPipelineConfig {
+  stages: LeadPipelineStage[];
+}
+
+// Stage-to-stage conversion between two consecutive stages
+export interface LeadStageConversion {
+  from: LeadPipelineStage;
+  to: LeadPipelineStage;
+  entered: number;   // Leads that were ever in `from`
+  advanced: number;  // Of those, leads that later reached `to` or a later open stage
+  rate: number;      // advanced / entered as a percentage (0-100)
+}
+
+// Time spent in a stage across all leads that passed through it
+export interface LeadStageDuration {
+  stage: LeadPipelineStage;
+  leads: number;
+  averageHours: number;
+  medianHours: number;
+}
+
+// A lead's status change as read from lead_activities
+export interface LeadStageChange {
+  lead_id: string;
+  from: string | null;
+  to: string;
+  changed_at: string;
+}
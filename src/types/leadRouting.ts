@@ -0,0 +1,30 @@
+/**
+ * Lead routing types
+ * Each client's assignment rules live in clients.config_json.lead_routing;
+ * a lead's assigned_to holds the id of the staff member who owns it
+ */
+
+// manual: nobody is assigned automatically
+// round_robin: leads rotate through the round-robin pool
+// inquiry_type: leads go to the pool for their call's inquiry type (e.g. service vs. sales)
+export type LeadRoutingMode = 'manual' | 'round_robin' | 'inquiry_type';
+
+export interface LeadInquiryRoute {
+  inquiry_type: string;   // call_intelligence.inquiry_type (e.g. 'service')
+  assignee_ids: string[]; // Staff who take leads of this type, in rotation
+}
+
+export interface LeadRoutingConfig {
+  mode: LeadRoutingMode;
+  assignee_ids: string[];           // Round-robin pool (empty means all staff); fallback for unmatched inquiry types
+  inquiry_routes: LeadInquiryRoute[];
+}
+
+// A staff member leads can be assigned to (client_admin or client_user of the lead's client)
+export interface LeadAssignee {
+  id: string;
+  full_name: string;
+  email: string;
+  role: 'client_admin' | 'client_user';
+  client_id: string;
+}
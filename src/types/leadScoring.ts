@@ -0,0 +1,47 @@
+/**
+ * Lead scoring types
+ * A lead's score (0-100) combines its call's evaluation and call intelligence;
+ * each client weights the signals in clients.config_json.lead_scoring
+ */
+
+export type LeadScoreSignal =
+  | 'lead_intent'        // lead_evaluations.lead_intent_score (1-5)
+  | 'intent_strength'    // call_intelligence.intent_strength (0-1)
+  | 'sales_opportunity'  // call_intelligence.sales_opportunity_score (0-1)
+  | 'purchase_timeline'  // call_intelligence.purchase_timeline ('immediate' ... '6+_months')
+  | 'high_intent';       // call_intelligence.is_high_intent
+
+// Relative weight of each signal; only the ratios matter
+export type LeadScoreWeights = Record<LeadScoreSignal, number>;
+
+export interface LeadScoringConfig {
+  weights: LeadScoreWeights;
+}
+
+// Raw signal values for one call, as stored
+export interface LeadScoringSignals {
+  lead_intent_score?: number | null;
+  intent_strength?: number | null;
+  sales_opportunity_score?: number | null;
+  purchase_timeline?: string | null;
+  is_high_intent?: boolean | null;
+}
+
+export type LeadScoreTier = 'hot' | 'warm' | 'cold';
+
+// How much one signal contributed to a score
+export interface LeadScoreFactor {
+  signal: LeadScoreSignal;
+  label: string;
+  value: string;      // Raw value for display (e.g. "4/5", "1-3 months")
+  weight: number;
+  points: number;     // Share of the 0-100 score; factors add up to the score
+  maxPoints: number;  // Points the signal would add at its best value
+}
+
+export interface LeadScore {
+  score: number;
+  tier: LeadScoreTier;
+  factors: LeadScoreFactor[];
+  missing: LeadScoreSignal[]; // Signals with no data, left out of the score
+}
@@ -0,0 +1,61 @@
+/**
+ * Month-end close types
+ * Closed months keep their financial figures in monthly_billing_summary
+ * (see 20250909000000_add_monthly_billing_summary.sql)
+ */
+import type { ClientProfitability, CostBreakdown, FinancialMetrics } from '@/services/metricsCalculationService';
+
+export interface MonthlyBillingSummary {
+  id: string;
+  month: string; // First day of the month, YYYY-MM-01
+  usd_to_cad_rate: number;          // Rate of the month's last day
+  total_calls_processed: number;
+  total_leads_captured: number;
+  total_appointments_confirmed: number;
+  active_clients: number;           // Clients billed for the month
+  total_gross_revenue_cad: number;  // Issued and paid invoices, or the plan fee of active clients without one, in CAD
+  total_variable_costs_usd: number; // Call and tool costs
+  total_fixed_costs_usd: number;    // Make.com operations costs
+  total_finders_fees_cad: number;
+  total_partner_payout_cad: number;
+  net_profit_usd_cad: number;       // In CAD, USD costs converted at the rate of their day
+  cost_breakdown: CostBreakdown;
+  client_profitability: ClientProfitability[];
+  closed_at: string;
+  closed_by: string | null;
+  reopened_at: string | null;
+  reopened_by: string | null;
+  reopen_reason: string | null;
+  recompute_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Figures collected for a month when it is closed, before they are frozen
+export interface MonthCloseInput {
+  month: string;
+  usdToCadRate: number;
+  costBreakdown: CostBreakdown;
+  clientProfitability: ClientProfitability[];
+  grossRevenueCad: number;
+  activeClients: number;
+  callsProcessed: number;
+  leadsCaptured: number;
+  appointmentsConfirmed: number;
+  fixedCostsUsd: number;
+  fixedCostsCad: number; // Each day's operations at that day's rate
+}
+
+export type MonthCloseFigures = Omit<
+  MonthlyBillingSummary,
+  'id' | 'closed_at' | 'closed_by' | 'reopened_at' | 'reopened_by' | 'reopen_reason' | 'recompute_count' | 'created_at' | 'updated_at'
+>;
+
+// One month of the financial dashboard, from its snapshot when closed
+export interface MonthFinancials {
+  month: string;
+  metrics: FinancialMetrics;
+  costBreakdown: CostBreakdown;
+  clientProfitability: ClientProfitability[];
+  summary: MonthlyBillingSummary | null; // null while the month is open
+}
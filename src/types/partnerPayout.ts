@@ -0,0 +1,70 @@
+/**
+ * Partner payout types
+ * Partners linked to clients, and their monthly payout statements
+ * (see 20250915000000_add_partner_payouts.sql)
+ */
+
+export interface Partner {
+  id: string;
+  name: string;
+  contact_person: string | null;
+  contact_email: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PartnerInput = Pick<Partner, 'name' | 'contact_person' | 'contact_email' | 'notes' | 'is_active'>;
+
+export type PayoutStatementStatus = 'pending' | 'paid';
+
+export type PayoutBillingSource =
+  | 'invoice' // The month's issued or paid invoice
+  | 'plan';   // The client's monthly plan fee, when the month has no invoice
+
+export interface PayoutStatementLine {
+  id: string;
+  statement_id: string;
+  client_id: string | null;   // null once the client is deleted
+  client_name: string;        // Name when the statement was generated
+  billing_source: PayoutBillingSource;
+  billing_cad: number;
+  finders_fee_cad: number;    // Deducted from the billing before the split
+  net_revenue_cad: number;    // billing - finder's fee, never below zero
+  split_percentage: number;   // 0-1, like clients.partner_split_percentage
+  split_cad: number;          // net revenue * split percentage
+  payout_cad: number;         // finder's fee + split
+  created_at: string;
+}
+
+export type NewPayoutStatementLine = Omit<PayoutStatementLine, 'id' | 'statement_id' | 'created_at'>;
+
+export interface PayoutStatement {
+  id: string;
+  partner_id: string;
+  billing_month: string; // First day of the month, YYYY-MM-01
+  status: PayoutStatementStatus;
+  currency: string;
+  total_billing_cad: number;
+  total_finders_fees_cad: number;
+  total_splits_cad: number;
+  total_payout_cad: number;
+  payment_reference: string | null;
+  paid_at: string | null;
+  paid_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayoutStatementWithLines extends PayoutStatement {
+  lines: PayoutStatementLine[];
+}
+
+export interface PayoutTotals {
+  total_billing_cad: number;
+  total_finders_fees_cad: number;
+  total_splits_cad: number;
+  total_payout_cad: number;
+}
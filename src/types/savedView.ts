@@ -0,0 +1,55 @@
+/**
+ * Saved view types
+ * A view is a page's filters, search and sort encoded in its URL query string,
+ * saved by name per user and optionally shared with a client
+ * (see 20250826000000_add_saved_views.sql)
+ */
+import type { CallType } from '@/context/CallTypeContext';
+import type { CallLogsAdvancedFilters } from './callLogFilters';
+
+export type SavedViewPage = 'call_logs' | 'leads';
+
+export type ViewSortDirection = 'asc' | 'desc';
+
+export interface CallLogsViewState {
+  search: string;
+  callType: CallType;            // Global live/test toggle (CallTypeContext)
+  callKind: string | null;       // calls.call_type (inbound, outbound, missed, voicemail)
+  startDate: string | null;      // yyyy-MM-dd, in the browser's timezone
+  endDate: string | null;        // yyyy-MM-dd, inclusive
+  advanced: CallLogsAdvancedFilters;
+  sortField: string;
+  sortDirection: ViewSortDirection;
+}
+
+export interface LeadsViewState {
+  search: string;
+  status: string;                // Pipeline stage key or 'all'
+  source: string;                // Lead source or 'all'
+  assignedToMe: boolean;
+  layout: 'table' | 'board';
+  sortField: string;
+  sortDirection: ViewSortDirection;
+}
+
+export interface SavedView {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  page: SavedViewPage;
+  name: string;
+  query: string;                 // URL query string of the view, without '?'
+  shared: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined for display
+  owner_name?: string | null;
+}
+
+export interface SavedViewInput {
+  page: SavedViewPage;
+  name: string;
+  query: string;
+  clientId: string | null;       // Client the view is for (required to share)
+  shared: boolean;
+}
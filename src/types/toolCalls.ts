@@ -0,0 +1,74 @@
+/**
+ * Tool call types
+ * Each agent tool invocation is stored in tool_calls as two rows sharing an id:
+ * the call (role 'tool_calls', with arguments) and its result (role 'tool_call_result')
+ */
+
+export type ToolCallRole = 'tool_calls' | 'tool_call_result';
+
+export type ToolResultStatus =
+  | 'success' // Returned data
+  | 'empty'   // Ran, but found nothing (e.g. no matching inventory)
+  | 'failed'; // Returned an error, or no result was recorded
+
+export interface ToolCallRow {
+  id: string;
+  call_id: string;
+  client_id: string;
+  role: ToolCallRole;
+  tool_name: string | null;
+  arguments: unknown;
+  result: string | null;
+  created_at: string;
+  // Joined for display
+  clients?: { name: string } | null;
+}
+
+// A tool call paired with its result
+export interface ToolInvocation {
+  id: string;
+  call_id: string;
+  client_id: string;
+  client_name: string | null;
+  tool_name: string;
+  arguments: Record<string, unknown> | null;
+  result: string | null;
+  status: ToolResultStatus;
+  created_at: string;
+}
+
+export interface ToolInvocations {
+  invocations: ToolInvocation[];
+  truncated: boolean; // Only the newest invocations were loaded
+}
+
+export interface ToolCallFilters {
+  clientId?: string | null;  // Client filter (null for admins viewing all clients)
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ToolStats {
+  tool_name: string;
+  client_id: string | null;   // Set when grouped by client
+  client_name: string | null;
+  invocations: number;
+  calls: number;              // Distinct calls that used the tool
+  failed: number;
+  empty: number;
+  failureRate: number;        // Percent of invocations
+  emptyRate: number;          // Percent of invocations
+}
+
+export interface ToolArgumentValue {
+  value: string;
+  count: number;
+  empty: number;
+  failed: number;
+}
+
+export interface ToolArgumentBreakdown {
+  key: string;
+  invocations: number;        // Invocations that passed this argument
+  values: ToolArgumentValue[];
+}
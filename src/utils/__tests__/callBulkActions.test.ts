@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TAG_LENGTH,
+  applyTagChange,
+  buildCallExportCsv,
+  buildLeadFromCall,
+  chunkIds,
+  describeBulkResult,
+  parseCallTags,
+} from '../callBulkActions';
+import type { CallExportRow } from '@/types/callBulkActions';
+
+describe('parseCallTags', () => {
+  it('trims, lowercases and dedupes comma-separated tags', () => {
+    expect(parseCallTags(' Follow Up, pricing  question,,follow up ')).toEqual(['follow up', 'pricing question']);
+  });
+
+  it('caps tag length', () => {
+    expect(parseCallTags('x'.repeat(60))[0]).toHaveLength(MAX_TAG_LENGTH);
+  });
+});
+
+describe('applyTagChange', () => {
+  it('adds and removes tags', () => {
+    expect(applyTagChange(['vip'], ['follow up', 'vip'], 'add_tags')).toEqual(['follow up', 'vip']);
+    expect(applyTagChange(['follow up', 'vip'], ['vip', 'missing'], 'remove_tags')).toEqual(['follow up']);
+    expect(applyTagChange(null, ['vip'], 'add_tags')).toEqual(['vip']);
+  });
+});
+
+describe('buildLeadFromCall', () => {
+  it('builds a new lead from the caller', () => {
+    expect(buildLeadFromCall({
+      id: 'call-1',
+      client_id: 'client-1',
+      caller_full_name: ' Jane Smith ',
+      caller_phone_number: '+14165550123',
+      call_start_time: '2025-09-05T10:00:00Z',
+    })).toEqual({
+      full_name: 'Jane Smith',
+      phone_number: '+14165550123',
+      from_phone_number: '+14165550123',
+      email: null,
+      lead_status: 'new',
+      source: 'direct_call',
+      call_id: 'call-1',
+      client_id: 'client-1',
+      call_time: '2025-09-05T10:00:00Z',
+    });
+  });
+
+  it('needs a caller number', () => {
+    expect(() => buildLeadFromCall({
+      id: 'call-1',
+      client_id: 'client-1',
+      caller_phone_number: null,
+      call_start_time: '2025-09-05T10:00:00Z',
+    })).toThrow('Call has no caller phone number');
+  });
+});
+
+describe('buildCallExportCsv', () => {
+  const row: CallExportRow = {
+    id: 'call-1',
+    client_id: 'client-1',
+    call_start_time: '2025-09-05T10:00:00Z',
+    caller_full_name: 'Jane "JJ" Smith',
+    caller_phone_number: '4165550123',
+    call_type: 'inbound',
+    call_duration_seconds: 95,
+    outcome: 'lead_captured',
+    is_test_call: false,
+    tags: ['follow up', 'vip'],
+    call_summary: 'Asked about pricing',
+    transcript: 'AI: Hello\nUser: Hi, how much is it?',
+    clients: { name: 'Acme' },
+  };
+
+  it('escapes cells and keeps transcripts', () => {
+    const [header, line] = buildCallExportCsv([row]).split('\n', 2);
+    expect(header).toBe('Call ID,Started At,Caller,Phone Number,Call Type,Duration (s),Outcome,Test Call,Tags,Summary,Transcript');
+    expect(line).toContain('"Jane ""JJ"" Smith"');
+    expect(line).toContain('"follow up; vip"');
+    expect(buildCallExportCsv([row])).toContain('"AI: Hello\nUser: Hi, how much is it?"');
+  });
+
+  it('adds the client name for admins', () => {
+    const csv = buildCallExportCsv([row], true);
+    expect(csv.split('\n')[0]).toMatch(/^Call ID,Client,Started At/);
+    expect(csv).toContain('"call-1","Acme"');
+  });
+});
+
+describe('chunkIds', () => {
+  it('splits IDs into batches', () => {
+    expect(chunkIds(['a', 'b', 'c', 'd', 'e'], 2)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(chunkIds([], 2)).toEqual([]);
+  });
+});
+
+describe('describeBulkResult', () => {
+  it('summarizes processed and failed calls', () => {
+    expect(describeBulkResult({ success: true, processed: 1, failed: 0, errors: [] })).toBe('1 call updated');
+    expect(describeBulkResult({ success: false, processed: 8, failed: 2, errors: [] }, 'exported')).toBe('8 calls exported, 2 failed');
+  });
+});
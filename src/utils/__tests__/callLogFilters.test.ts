@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCursorFilter,
+  countAdvancedFilters,
+  decodeCallCursor,
+  encodeCallCursor,
+  getAdvancedFilterJoins,
+  normalizeAdvancedFilters,
+} from '../callLogFilters';
+
+const CALL_ID = '6f1c2a9e-3b4d-4e5f-8a6b-7c8d9e0f1a2b';
+
+describe('normalizeAdvancedFilters', () => {
+  it('drops "all" selections and unchecked review required', () => {
+    expect(normalizeAdvancedFilters({ sentiment: '__all__', inquiryType: '__all__', reviewRequired: false })).toEqual({});
+  });
+
+  it('clamps scores to their scales and reads a reversed range', () => {
+    expect(normalizeAdvancedFilters({ minScore: 0, maxScore: 9, minAdherence: 80, maxAdherence: 20 })).toEqual({
+      minScore: 1,
+      maxScore: 5,
+      minAdherence: 20,
+      maxAdherence: 80,
+    });
+  });
+
+  it('ignores scores that are not numbers', () => {
+    expect(normalizeAdvancedFilters({ minScore: Number.NaN })).toEqual({});
+  });
+});
+
+describe('countAdvancedFilters', () => {
+  it('counts the adherence range as one filter', () => {
+    expect(countAdvancedFilters({ minScore: 3, sentiment: 'negative', minAdherence: 10, maxAdherence: 60 })).toBe(3);
+    expect(countAdvancedFilters(undefined)).toBe(0);
+  });
+});
+
+describe('getAdvancedFilterJoins', () => {
+  it('joins only the tables the filters need', () => {
+    expect(getAdvancedFilterJoins({})).toEqual([]);
+    expect(getAdvancedFilterJoins({ reviewRequired: true, inquiryType: 'service' })).toEqual([
+      'lead_evaluations!inner(call_id)',
+      'call_intelligence!inner(call_id)',
+    ]);
+    expect(getAdvancedFilterJoins({ maxAdherence: 50 })).toEqual(['prompt_adherence_reviews!inner(call_id)']);
+  });
+});
+
+describe('call cursors', () => {
+  const cursor = { value: '2025-08-21T14:03:07.123456+00:00', id: CALL_ID };
+
+  it('round-trips the exact timestamp and id', () => {
+    expect(decodeCallCursor(encodeCallCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCallCursor('not-a-cursor')).toBeNull();
+    expect(decodeCallCursor(btoa(JSON.stringify(['2025-08-21', 'abc'])))).toBeNull();
+    expect(decodeCallCursor(btoa(JSON.stringify([42, CALL_ID])))).toBeNull();
+    expect(decodeCallCursor(null)).toBeNull();
+  });
+
+  it('builds the keyset filter for the next page', () => {
+    expect(buildCursorFilter(cursor)).toBe(
+      `call_start_time.lt."2025-08-21T14:03:07.123456+00:00",and(call_start_time.eq."2025-08-21T14:03:07.123456+00:00",id.lt.${CALL_ID}),call_start_time.is.null`
+    );
+  });
+
+  it('quotes sort values and pages through calls without one', () => {
+    const sort = { field: 'caller_full_name', direction: 'asc' } as const;
+    expect(buildCursorFilter({ value: 'Lee, "Sam"', id: CALL_ID }, sort)).toBe(
+      `caller_full_name.gt."Lee, \\"Sam\\"",and(caller_full_name.eq."Lee, \\"Sam\\"",id.gt.${CALL_ID}),caller_full_name.is.null`
+    );
+    expect(buildCursorFilter({ value: null, id: CALL_ID }, sort)).toBe(`and(caller_full_name.is.null,id.gt.${CALL_ID})`);
+    expect(decodeCallCursor(encodeCallCursor({ value: null, id: CALL_ID }))).toEqual({ value: null, id: CALL_ID });
+  });
+});
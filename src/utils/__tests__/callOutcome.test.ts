@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCallOutcomeFunnel,
+  countCallOutcomes,
+  countCallsWithStatus,
+  getCallOutcomeShares,
+  readCallOutcome,
+} from '../callOutcome';
+
+const calls = [
+  { outcome: 'appointment_booked', status: 'completed' },
+  { outcome: 'lead_captured', status: 'transferred' },
+  { outcome: 'lead_captured', status: 'completed' },
+  { outcome: 'transferred', status: 'transferred' },
+  { outcome: 'hang_up', status: 'completed' },
+  { outcome: 'spam', status: 'completed' },
+  { outcome: 'failed', status: 'failed' },
+  { outcome: null, status: null },
+];
+
+describe('readCallOutcome', () => {
+  it('reads stored outcomes and rejects anything else', () => {
+    expect(readCallOutcome('voicemail')).toBe('voicemail');
+    expect(readCallOutcome('lead-generated')).toBeNull();
+    expect(readCallOutcome(null)).toBeNull();
+  });
+});
+
+describe('countCallOutcomes', () => {
+  it('counts every outcome and skips unclassified calls', () => {
+    expect(countCallOutcomes(calls)).toEqual({
+      appointment_booked: 1,
+      lead_captured: 2,
+      transferred: 1,
+      completed: 0,
+      voicemail: 0,
+      hang_up: 1,
+      failed: 1,
+      spam: 1,
+    });
+  });
+});
+
+describe('countCallsWithStatus', () => {
+  it('counts transfers by status, including transfers that captured a lead', () => {
+    expect(countCallsWithStatus(calls, 'transferred')).toBe(2);
+    expect(countCallsWithStatus(calls, 'failed')).toBe(1);
+  });
+});
+
+describe('getCallOutcomeShares', () => {
+  it('lists outcomes that occurred, best first, with their share', () => {
+    const shares = getCallOutcomeShares(countCallOutcomes(calls));
+
+    expect(shares.map(share => share.outcome)).toEqual([
+      'appointment_booked', 'lead_captured', 'transferred', 'hang_up', 'failed', 'spam',
+    ]);
+    expect(shares[1]).toEqual({ outcome: 'lead_captured', label: 'Lead captured', count: 2, percentage: 28.6 });
+  });
+});
+
+describe('buildCallOutcomeFunnel', () => {
+  it('narrows from all calls to appointments', () => {
+    expect(buildCallOutcomeFunnel(countCallOutcomes(calls))).toEqual([
+      { name: 'Total Calls', value: 7, percentage: 100 },
+      { name: 'Conversations', value: 4, percentage: 57.1 },
+      { name: 'Leads Captured', value: 3, percentage: 42.9 },
+      { name: 'Appointments Booked', value: 1, percentage: 14.3 },
+    ]);
+  });
+
+  it('handles no calls', () => {
+    expect(buildCallOutcomeFunnel(countCallOutcomes([])).every(stage => stage.value === 0 && stage.percentage === 0)).toBe(true);
+  });
+});
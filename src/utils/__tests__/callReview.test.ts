@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getReviewPriority,
+  getReviewQueueStats,
+  pickCorrectedScores,
+  sortReviewsByPriority,
+  validateReviewVerdict,
+} from '../callReview';
+import type { CallReview, CallReviewEvaluation } from '@/types/callReview';
+
+const NOW = new Date('2025-08-20T12:00:00Z');
+
+const evaluation = (overrides: Partial<CallReviewEvaluation> = {}): CallReviewEvaluation => ({
+  lead_completion_score: 4,
+  clarity_politeness_score: 4,
+  relevance_questions_score: 4,
+  objection_handling_score: 3,
+  naturalness_score: 4,
+  lead_intent_score: 3,
+  failure_risk_score: 2,
+  sentiment: 'neutral',
+  negative_call_flag: false,
+  overall_evaluation_score: 3.5,
+  ...overrides,
+});
+
+type QueueReview = Pick<CallReview, 'id' | 'status' | 'assigned_to' | 'flagged_at' | 'evaluation'>;
+
+const makeReview = (id: string, overrides: Partial<QueueReview> = {}): QueueReview => ({
+  id,
+  status: 'unresolved',
+  assigned_to: null,
+  flagged_at: '2025-08-20T10:00:00Z',
+  evaluation: evaluation(),
+  ...overrides,
+});
+
+describe('getReviewPriority', () => {
+  it('ranks risky negative calls as high priority', () => {
+    const review = makeReview('1', {
+      evaluation: evaluation({ failure_risk_score: 4, negative_call_flag: true, sentiment: 'negative' }),
+    });
+    expect(getReviewPriority(review, NOW)).toEqual({ priority: 'high', points: 70 });
+  });
+
+  it('ranks low risk calls as low priority', () => {
+    expect(getReviewPriority(makeReview('1'), NOW)).toEqual({ priority: 'low', points: 20 });
+  });
+
+  it('raises priority the longer a review waits, up to a cap', () => {
+    expect(getReviewPriority(makeReview('1', { flagged_at: '2025-08-15T12:00:00Z' }), NOW).points).toBe(35);
+    expect(getReviewPriority(makeReview('1', { flagged_at: '2025-06-01T12:00:00Z' }), NOW).points).toBe(41);
+  });
+
+  it('still ranks a review whose evaluation is missing', () => {
+    expect(getReviewPriority(makeReview('1', { evaluation: null }), NOW)).toEqual({ priority: 'low', points: 0 });
+  });
+});
+
+describe('sortReviewsByPriority', () => {
+  it('puts unresolved first, then highest priority, then oldest', () => {
+    const sorted = sortReviewsByPriority([
+      makeReview('resolved', { status: 'resolved', evaluation: evaluation({ failure_risk_score: 5 }) }),
+      makeReview('newer', { flagged_at: '2025-08-20T11:00:00Z' }),
+      makeReview('older', { flagged_at: '2025-08-20T09:00:00Z' }),
+      makeReview('risky', { evaluation: evaluation({ failure_risk_score: 5 }) }),
+    ], NOW);
+    expect(sorted.map(review => review.id)).toEqual(['risky', 'older', 'newer', 'resolved']);
+  });
+});
+
+describe('pickCorrectedScores', () => {
+  it('keeps only scores that differ from the evaluation', () => {
+    expect(pickCorrectedScores(
+      { lead_completion_score: 4, naturalness_score: 2, failure_risk_score: 5 },
+      evaluation()
+    )).toEqual({ naturalness_score: 2, failure_risk_score: 5 });
+  });
+});
+
+describe('validateReviewVerdict', () => {
+  it('requires a verdict', () => {
+    expect(validateReviewVerdict(null, {}, null)).toEqual(['Choose a verdict']);
+    expect(validateReviewVerdict('no_issue', {}, null)).toEqual([]);
+  });
+
+  it('rejects scores outside 1-5', () => {
+    expect(validateReviewVerdict('agent_error', { naturalness_score: 6 }, null)).toHaveLength(1);
+    expect(validateReviewVerdict('agent_error', { naturalness_score: 2.5 }, null)).toHaveLength(1);
+  });
+
+  it('asks what the evaluation got wrong', () => {
+    expect(validateReviewVerdict('evaluation_error', {}, '  ')).toHaveLength(1);
+    expect(validateReviewVerdict('evaluation_error', { lead_intent_score: 5 }, null)).toEqual([]);
+    expect(validateReviewVerdict('evaluation_error', {}, 'Caller was a spam bot')).toEqual([]);
+  });
+});
+
+describe('getReviewQueueStats', () => {
+  it('summarises the unresolved queue', () => {
+    const stats = getReviewQueueStats([
+      makeReview('1', { flagged_at: '2025-08-20T06:00:00Z', assigned_to: 'user-1' }),
+      makeReview('2', { flagged_at: '2025-08-20T10:00:00Z', evaluation: evaluation({ failure_risk_score: 5, negative_call_flag: true }) }),
+      makeReview('3', { status: 'resolved', flagged_at: '2025-08-01T00:00:00Z' }),
+    ], NOW);
+
+    expect(stats).toEqual({
+      unresolved: 2,
+      unclaimed: 1,
+      highPriority: 1,
+      oldestFlaggedAt: '2025-08-20T06:00:00.000Z',
+      averageAgeHours: 4,
+    });
+  });
+
+  it('reports an empty queue', () => {
+    expect(getReviewQueueStats([], NOW)).toEqual({
+      unresolved: 0,
+      unclaimed: 0,
+      highPriority: 0,
+      oldestFlaggedAt: null,
+      averageAgeHours: null,
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildIlikeOrFilter,
+  escapeLikePattern,
+  getMatchSnippet,
+  isSearchableTerm,
+  splitSnippet,
+} from '../callSearch';
+
+describe('escapeLikePattern', () => {
+  it('escapes LIKE wildcards and backslashes', () => {
+    expect(escapeLikePattern('50%_off\\')).toBe('50\\%\\_off\\\\');
+  });
+
+  it('turns the PostgREST * wildcard into a single character match', () => {
+    expect(escapeLikePattern('a*b')).toBe('a_b');
+  });
+});
+
+describe('buildIlikeOrFilter', () => {
+  it('quotes the pattern for every column', () => {
+    expect(buildIlikeOrFilter(['full_name', 'email'], ' Jane ')).toBe(
+      'full_name.ilike."%Jane%",email.ilike."%Jane%"'
+    );
+  });
+
+  it('keeps filter syntax in the term from changing the filter', () => {
+    expect(buildIlikeOrFilter(['full_name'], 'x%,id.neq.0),("')).toBe(
+      'full_name.ilike."%x\\\\%,id.neq.0),(\\"%"'
+    );
+  });
+});
+
+describe('isSearchableTerm', () => {
+  it('needs at least two characters', () => {
+    expect(isSearchableTerm(' a ')).toBe(false);
+    expect(isSearchableTerm(undefined)).toBe(false);
+    expect(isSearchableTerm('ab')).toBe(true);
+  });
+});
+
+describe('splitSnippet', () => {
+  it('splits highlighted words from plain text', () => {
+    expect(splitSnippet('wants a [[trade]] in for the [[Civic]]')).toEqual([
+      { text: 'wants a ', highlighted: false },
+      { text: 'trade', highlighted: true },
+      { text: ' in for the ', highlighted: false },
+      { text: 'Civic', highlighted: true },
+    ]);
+  });
+
+  it('joins adjacent highlights and keeps unmatched markers as text', () => {
+    expect(splitSnippet('[[oil]][[change]] at [[3')).toEqual([
+      { text: 'oilchange', highlighted: true },
+      { text: ' at [[3', highlighted: false },
+    ]);
+  });
+});
+
+describe('getMatchSnippet', () => {
+  const match = { call_id: 'call-1', rank: 0.5, summary_snippet: 'Caller asked about [[financing]]', transcript_snippet: null };
+
+  it('prefers the transcript excerpt', () => {
+    expect(getMatchSnippet({ ...match, transcript_snippet: 'User: any [[financing]] deals?' })).toEqual({
+      source: 'transcript',
+      snippet: 'User: any [[financing]] deals?',
+    });
+  });
+
+  it('falls back to the summary, or nothing for name and phone matches', () => {
+    expect(getMatchSnippet(match)?.source).toBe('summary');
+    expect(getMatchSnippet({ ...match, summary_snippet: null })).toBeNull();
+    expect(getMatchSnippet(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { SPAM_SCORE_THRESHOLD, SPAM_SIGNAL_WEIGHTS, getSpamVerdict, readSpamSignals } from '../callSpam';
+
+describe('readSpamSignals', () => {
+  it('keeps known signals, strongest first', () => {
+    expect(readSpamSignals(['hidden_caller_id', 'not_a_signal', 'robocall_script', 'repeat_caller']))
+      .toEqual(['robocall_script', 'repeat_caller', 'hidden_caller_id']);
+  });
+
+  it('handles missing signals', () => {
+    expect(readSpamSignals(null)).toEqual([]);
+    expect(readSpamSignals(undefined)).toEqual([]);
+  });
+});
+
+describe('SPAM_SIGNAL_WEIGHTS', () => {
+  it('marks a call as spam on one strong signal or two weaker ones', () => {
+    expect(SPAM_SIGNAL_WEIGHTS.instant_hang_up).toBeGreaterThanOrEqual(SPAM_SCORE_THRESHOLD);
+    expect(SPAM_SIGNAL_WEIGHTS.robocall_script).toBeGreaterThanOrEqual(SPAM_SCORE_THRESHOLD);
+    expect(SPAM_SIGNAL_WEIGHTS.repeat_caller + SPAM_SIGNAL_WEIGHTS.caller_never_spoke).toBeGreaterThanOrEqual(SPAM_SCORE_THRESHOLD);
+    expect(SPAM_SIGNAL_WEIGHTS.caller_never_spoke + SPAM_SIGNAL_WEIGHTS.silent_hang_up).toBeLessThan(SPAM_SCORE_THRESHOLD);
+  });
+});
+
+describe('getSpamVerdict', () => {
+  it('reads a scored verdict', () => {
+    expect(getSpamVerdict({
+      is_spam: true,
+      spam_score: 90,
+      spam_signals: ['caller_never_spoke', 'instant_hang_up'],
+      spam_override: null,
+      spam_overridden_at: null,
+    })).toEqual({
+      isSpam: true,
+      source: 'score',
+      score: 90,
+      signals: ['instant_hang_up', 'caller_never_spoke'],
+      overriddenAt: null,
+    });
+  });
+
+  it('reads a user override', () => {
+    expect(getSpamVerdict({
+      is_spam: false,
+      spam_score: 60,
+      spam_signals: ['robocall_script'],
+      spam_override: false,
+      spam_overridden_at: '2025-09-01T10:00:00Z',
+    })).toMatchObject({ isSpam: false, source: 'override', score: 60, overriddenAt: '2025-09-01T10:00:00Z' });
+  });
+
+  it('treats calls scored before spam detection as not spam', () => {
+    expect(getSpamVerdict({})).toEqual({ isSpam: false, source: 'score', score: 0, signals: [], overriddenAt: null });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findActiveTurnIndex,
+  findTranscriptMatches,
+  parseTimestamp,
+  parseTranscript,
+} from '../callTranscript';
+
+describe('parseTimestamp', () => {
+  it('reads minutes and hours', () => {
+    expect(parseTimestamp('0:12')).toBe(12);
+    expect(parseTimestamp('02:05')).toBe(125);
+    expect(parseTimestamp('1:00:30')).toBe(3630);
+    expect(parseTimestamp('0:01.5')).toBe(1.5);
+  });
+});
+
+describe('parseTranscript', () => {
+  it('splits a transcript into agent and customer turns', () => {
+    const turns = parseTranscript('AI: Thanks for calling.\nUser: I want to book a test drive.\nAI: Sure.');
+    expect(turns.map(turn => turn.speaker)).toEqual(['agent', 'customer', 'agent']);
+    expect(turns[1].text).toBe('I want to book a test drive.');
+    expect(turns.every(turn => turn.start === null)).toBe(true);
+  });
+
+  it('reads timestamps before or after the speaker', () => {
+    const turns = parseTranscript('[0:02] Assistant: Hello\n0:05 Customer: Hi\nBot (1:10): Bye');
+    expect(turns.map(turn => turn.start)).toEqual([2, 5, 70]);
+    expect(turns.map(turn => turn.speaker)).toEqual(['agent', 'customer', 'agent']);
+    expect(turns.some(turn => turn.estimated)).toBe(false);
+  });
+
+  it('joins lines without a speaker onto the previous turn', () => {
+    const turns = parseTranscript('Caller: I am looking for\n\na used truck\nAI: Great');
+    expect(turns).toHaveLength(2);
+    expect(turns[0].text).toBe('I am looking for a used truck');
+  });
+
+  it('keeps text without any speaker as one unknown turn', () => {
+    const turns = parseTranscript('Hello, I am interested in your services');
+    expect(turns).toHaveLength(1);
+    expect(turns[0].speaker).toBe('unknown');
+  });
+
+  it('estimates start times from the text length when there are no timestamps', () => {
+    const turns = parseTranscript('AI: aaaa\nUser: bbbb\nAI: cccccccc', 60);
+    expect(turns.map(turn => turn.start)).toEqual([0, 15, 30]);
+    expect(turns.every(turn => turn.estimated)).toBe(true);
+  });
+
+  it('does not estimate when the transcript has its own timestamps', () => {
+    const turns = parseTranscript('[0:03] AI: Hello\nUser: Hi', 60);
+    expect(turns.map(turn => turn.start)).toEqual([3, null]);
+  });
+
+  it('returns no turns for an empty transcript', () => {
+    expect(parseTranscript(null)).toEqual([]);
+    expect(parseTranscript('  \n ')).toEqual([]);
+  });
+});
+
+describe('findActiveTurnIndex', () => {
+  const turns = parseTranscript('[0:00] AI: Hello\n[0:10] User: Hi\nAI: How can I help?\n[0:30] User: Trucks');
+
+  it('finds the last turn that has started', () => {
+    expect(findActiveTurnIndex(turns, 0)).toBe(0);
+    expect(findActiveTurnIndex(turns, 12)).toBe(1);
+    expect(findActiveTurnIndex(turns, 29)).toBe(1);
+    expect(findActiveTurnIndex(turns, 45)).toBe(3);
+  });
+
+  it('returns -1 when no turn is timed', () => {
+    expect(findActiveTurnIndex(parseTranscript('AI: Hello'), 10)).toBe(-1);
+  });
+});
+
+describe('findTranscriptMatches', () => {
+  const turns = parseTranscript('AI: Which truck?\nUser: The red truck, the Truck with the TRUCK bed');
+
+  it('finds every match case-insensitively in order', () => {
+    const matches = findTranscriptMatches(turns, 'truck');
+    expect(matches).toHaveLength(4);
+    expect(matches[0]).toEqual({ turnIndex: 0, offset: 6, length: 5 });
+    expect(matches.slice(1).every(match => match.turnIndex === 1)).toBe(true);
+  });
+
+  it('ignores an empty search', () => {
+    expect(findTranscriptMatches(turns, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CLIENT_TIMEZONE,
+  fromDateTimeLocalValue,
+  getCallbackState,
+  getClientTimezone,
+  isCallbackReminderForUser,
+  parseCallbackTiming,
+  toDateTimeLocalValue,
+} from '../callbackTiming';
+
+const TORONTO = 'America/Toronto';
+const VANCOUVER = 'America/Vancouver';
+
+// Wednesday, July 16 2025 at 10:00 in Toronto (EDT, UTC-4)
+const callTime = new Date('2025-07-16T14:00:00Z');
+
+const parse = (text: string, reference = callTime, timeZone = TORONTO) =>
+  parseCallbackTiming(text, reference, timeZone)?.toISOString() ?? null;
+
+describe('getClientTimezone', () => {
+  it('should read a valid timezone from config_json and fall back to Eastern time', () => {
+    expect(getClientTimezone({ timezone: VANCOUVER })).toBe(VANCOUVER);
+    expect(getClientTimezone({ timezone: 'Mars/Olympus' })).toBe(DEFAULT_CLIENT_TIMEZONE);
+    expect(getClientTimezone(null)).toBe(DEFAULT_CLIENT_TIMEZONE);
+  });
+});
+
+describe('parseCallbackTiming', () => {
+  it('should read a day and a business-hours time in the client timezone', () => {
+    expect(parse('tomorrow after 3')).toBe('2025-07-17T19:00:00.000Z');
+    expect(parse('tomorrow after 3', callTime, VANCOUVER)).toBe('2025-07-17T22:00:00.000Z');
+    expect(parse('Friday at 11:30am')).toBe('2025-07-18T15:30:00.000Z');
+  });
+
+  it('should read parts of the day and default to 10am when only a day is given', () => {
+    expect(parse('Monday morning')).toBe('2025-07-21T13:00:00.000Z');
+    expect(parse('next week')).toBe('2025-07-21T14:00:00.000Z');
+    expect(parse('Thursday')).toBe('2025-07-17T14:00:00.000Z');
+    expect(parse('this evening')).toBe('2025-07-16T22:00:00.000Z');
+  });
+
+  it('should move a time that has already passed today to the next day', () => {
+    expect(parse('around 9am')).toBe('2025-07-17T13:00:00.000Z');
+    expect(parse('after 3')).toBe('2025-07-16T19:00:00.000Z');
+  });
+
+  it('should read relative times and dates', () => {
+    expect(parse('in 2 hours')).toBe('2025-07-16T16:00:00.000Z');
+    expect(parse('asap')).toBe('2025-07-16T14:00:00.000Z');
+    expect(parse('July 20 at 2pm')).toBe('2025-07-20T18:00:00.000Z');
+    expect(parse('1/5')).toBe('2026-01-05T15:00:00.000Z');
+  });
+
+  it('should return null for text without a day or time', () => {
+    expect(parse('whenever is convenient')).toBeNull();
+    expect(parse('')).toBeNull();
+  });
+});
+
+describe('datetime-local values', () => {
+  it('should round-trip wall-clock time in the client timezone, including across DST', () => {
+    expect(toDateTimeLocalValue(new Date('2025-07-17T19:00:00Z'), TORONTO)).toBe('2025-07-17T15:00');
+    expect(fromDateTimeLocalValue('2025-07-17T15:00', TORONTO)?.toISOString()).toBe('2025-07-17T19:00:00.000Z');
+    expect(fromDateTimeLocalValue('2025-12-01T09:00', TORONTO)?.toISOString()).toBe('2025-12-01T14:00:00.000Z');
+  });
+});
+
+describe('getCallbackState', () => {
+  const now = new Date('2025-07-16T14:00:00Z');
+
+  it('should flag overdue, due-within-a-day and later callbacks', () => {
+    expect(getCallbackState({ callback_scheduled_at: '2025-07-16T13:00:00Z' }, now)).toBe('overdue');
+    expect(getCallbackState({ callback_scheduled_at: '2025-07-17T10:00:00Z' }, now)).toBe('due');
+    expect(getCallbackState({ callback_scheduled_at: '2025-07-20T10:00:00Z' }, now)).toBe('scheduled');
+  });
+
+  it('should report done and unscheduled callbacks', () => {
+    expect(getCallbackState({ callback_scheduled_at: '2025-07-16T13:00:00Z', callback_completed_at: '2025-07-16T13:30:00Z' }, now)).toBe('done');
+    expect(getCallbackState({ callback_scheduled_at: null }, now)).toBeNull();
+  });
+});
+
+describe('isCallbackReminderForUser', () => {
+  const staff = { id: 'ann', client_id: 'client-1' };
+
+  it('should remind the assignee only, or all client staff when the lead is unassigned', () => {
+    expect(isCallbackReminderForUser({ client_id: 'client-1', payload: { assigned_to: 'ann' } }, staff, false)).toBe(true);
+    expect(isCallbackReminderForUser({ client_id: 'client-1', payload: { assigned_to: 'bob' } }, staff, false)).toBe(false);
+    expect(isCallbackReminderForUser({ client_id: 'client-1', payload: {} }, staff, false)).toBe(true);
+    expect(isCallbackReminderForUser({ client_id: 'client-1', payload: {} }, { id: 'admin', client_id: null }, true)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCallerHistory,
+  countRecentCalls,
+  getCallerHistoryPath,
+  groupCallerSearchResults,
+  readCallerSearchTerm,
+} from '../callerHistory';
+import type { CallerHistoryCall } from '@/types/callerHistory';
+
+const call = (id: string, call_start_time: string, overrides: Partial<CallerHistoryCall> = {}): CallerHistoryCall => ({
+  id,
+  call_start_time,
+  call_duration_seconds: 60,
+  caller_full_name: null,
+  call_summary: null,
+  outcome: null,
+  is_spam: false,
+  sentiment: null,
+  inquiry_type: null,
+  ...overrides,
+});
+
+describe('getCallerHistoryPath', () => {
+  it('links to the normalized number', () => {
+    expect(getCallerHistoryPath('+1 (555) 123-4567', 'client-1')).toBe('/callers?phone=5551234567&client=client-1');
+  });
+});
+
+describe('readCallerSearchTerm', () => {
+  it('searches numbers by digits and names by text', () => {
+    expect(readCallerSearchTerm('(555) 12')).toEqual({ phoneDigits: '55512' });
+    expect(readCallerSearchTerm('+1 555 123 4567')).toEqual({ phoneDigits: '5551234567' });
+    expect(readCallerSearchTerm('  Jane ')).toEqual({ name: 'Jane' });
+    expect(readCallerSearchTerm('Unit 12')).toEqual({ name: 'Unit 12' });
+  });
+
+  it('ignores terms too short to search', () => {
+    expect(readCallerSearchTerm('')).toBeNull();
+    expect(readCallerSearchTerm('J')).toBeNull();
+  });
+});
+
+describe('countRecentCalls', () => {
+  it('counts calls in the window, leaving out the current call', () => {
+    const now = new Date('2025-09-10T12:00:00Z');
+    const calls = [
+      call('a', '2025-09-10T10:00:00Z'),
+      call('b', '2025-09-08T10:00:00Z'),
+      call('c', '2025-09-01T10:00:00Z'),
+    ];
+    expect(countRecentCalls(calls, 7, now)).toBe(2);
+    expect(countRecentCalls(calls, 7, now, 'a')).toBe(1);
+  });
+});
+
+describe('buildCallerHistory', () => {
+  it('orders calls and leads, and summarizes sentiment and inquiry types', () => {
+    const history = buildCallerHistory('555-123-4567', 'client-1', [
+      call('a', '2025-09-01T10:00:00Z', { caller_full_name: 'J SMITH', sentiment: 'negative', inquiry_type: 'service' }),
+      call('b', '2025-09-05T10:00:00Z', { sentiment: 'positive', inquiry_type: 'sales' }),
+      call('c', '2025-09-03T10:00:00Z', { inquiry_type: 'service' }),
+    ], [
+      { id: 'l1', call_id: 'b', full_name: 'Jane Smith', lead_status: 'new', created_at: '2025-09-05T10:05:00Z' },
+    ]);
+
+    expect(history.phone).toBe('5551234567');
+    expect(history.caller_name).toBe('Jane Smith');
+    expect(history.calls.map(c => c.id)).toEqual(['b', 'c', 'a']);
+    expect(history.firstCallAt).toBe('2025-09-01T10:00:00Z');
+    expect(history.lastCallAt).toBe('2025-09-05T10:00:00Z');
+    expect(history.sentimentTrend.map(point => point.value)).toEqual([-1, 1]);
+    expect(history.inquiryTypes).toEqual([
+      { inquiry_type: 'service', count: 2 },
+      { inquiry_type: 'sales', count: 1 },
+    ]);
+  });
+
+  it('falls back to the caller ID name without leads', () => {
+    const history = buildCallerHistory('5551234567', 'client-1', [call('a', '2025-09-01T10:00:00Z', { caller_full_name: 'J SMITH' })], []);
+    expect(history.caller_name).toBe('J SMITH');
+  });
+});
+
+describe('groupCallerSearchResults', () => {
+  it('groups calls by caller and client, latest caller first', () => {
+    const results = groupCallerSearchResults([
+      { caller_phone_normalized: '5551234567', caller_phone_number: '+15551234567', caller_full_name: null, client_id: 'c1', call_start_time: '2025-09-02T10:00:00Z' },
+      { caller_phone_normalized: '5551234567', caller_phone_number: '555-123-4567', caller_full_name: 'Jane', client_id: 'c1', call_start_time: '2025-09-01T10:00:00Z' },
+      { caller_phone_normalized: '5559876543', caller_phone_number: '5559876543', caller_full_name: 'Bob', client_id: 'c1', call_start_time: '2025-09-03T10:00:00Z' },
+      { caller_phone_normalized: '5551234567', caller_phone_number: '5551234567', caller_full_name: null, client_id: 'c2', call_start_time: '2025-08-30T10:00:00Z', clients: { name: 'Other' } },
+      { caller_phone_normalized: null, caller_phone_number: null, caller_full_name: 'Jane', client_id: 'c1', call_start_time: '2025-09-04T10:00:00Z' },
+    ]);
+
+    expect(results.map(result => [result.client_id, result.phone, result.calls])).toEqual([
+      ['c1', '5559876543', 1],
+      ['c1', '5551234567', 2],
+      ['c2', '5551234567', 1],
+    ]);
+    expect(results[1].caller_name).toBe('Jane');
+    expect(results[1].display_phone).toBe('+15551234567');
+    expect(results[2].client_name).toBe('Other');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { convertCurrency, formatCurrency, getClientBillingCurrency, resolveDisplayCurrency } from '../currency';
+
+describe('convertCurrency', () => {
+  it('converts both ways at the USD to CAD rate', () => {
+    expect(convertCurrency(100, 'USD', 'CAD', 1.4)).toBeCloseTo(140);
+    expect(convertCurrency(140, 'CAD', 'USD', 1.4)).toBeCloseTo(100);
+    expect(convertCurrency(100, 'CAD', 'CAD', 1.4)).toBe(100);
+    expect(convertCurrency(null, 'USD', 'CAD', 1.4)).toBe(0);
+  });
+});
+
+describe('currency preferences', () => {
+  it('reads the client billing currency, CAD when missing or invalid', () => {
+    expect(getClientBillingCurrency({ billing_currency: 'USD' })).toBe('USD');
+    expect(getClientBillingCurrency({ billing_currency: 'EUR' })).toBe('CAD');
+    expect(getClientBillingCurrency(null)).toBe('CAD');
+  });
+
+  it('uses the user currency, then the client currency, then CAD', () => {
+    expect(resolveDisplayCurrency('CAD', 'USD')).toBe('CAD');
+    expect(resolveDisplayCurrency(undefined, 'USD')).toBe('USD');
+    expect(resolveDisplayCurrency('yen', null)).toBe('CAD');
+  });
+});
+
+describe('formatCurrency', () => {
+  it('labels amounts with their currency', () => {
+    expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50 USD');
+    expect(formatCurrency(-1234.567, 'CAD')).toBe('-$1,234.57 CAD');
+    expect(formatCurrency(1200, 'CAD', 0)).toBe('$1,200 CAD');
+  });
+
+  it('does not show a negative zero', () => {
+    expect(formatCurrency(-0.001, 'CAD')).toBe('$0.00 CAD');
+  });
+});
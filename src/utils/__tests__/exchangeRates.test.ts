@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { collectAppliedRates, DEFAULT_USD_TO_CAD_RATE, describeAppliedRates, resolveExchangeRate, toRateDate } from '../exchangeRates';
+import type { ExchangeRateHistoryEntry } from '@/types/exchangeRate';
+
+const entry = (rate_date: string, rate: number, source: 'feed' | 'manual' = 'feed'): ExchangeRateHistoryEntry => ({
+  id: `${rate_date}-${source}`,
+  from_currency: 'USD',
+  to_currency: 'CAD',
+  rate_date,
+  rate,
+  source,
+  note: source === 'manual' ? 'Correction' : null,
+  created_by: null,
+  created_at: '2025-09-01T00:00:00Z',
+  updated_at: '2025-09-01T00:00:00Z',
+});
+
+const history = [
+  entry('2025-08-01', 1.37),
+  entry('2025-08-05', 1.38),
+  entry('2025-08-05', 1.36, 'manual'),
+  entry('2025-08-10', 1.39),
+];
+
+describe('toRateDate', () => {
+  it('uses the local day of a date and keeps day strings as they are', () => {
+    expect(toRateDate(new Date(2025, 7, 31, 23, 30))).toBe('2025-08-31');
+    expect(toRateDate('2025-08-05')).toBe('2025-08-05');
+  });
+});
+
+describe('resolveExchangeRate', () => {
+  it('uses the latest rate on or before the day', () => {
+    expect(resolveExchangeRate(history, '2025-08-03')).toEqual({ rate: 1.37, rateDate: '2025-08-01', source: 'feed' });
+    expect(resolveExchangeRate(history, '2025-08-20').rate).toBe(1.39);
+  });
+
+  it('prefers a manual override over the feed on the same day', () => {
+    expect(resolveExchangeRate(history, '2025-08-07')).toEqual({ rate: 1.36, rateDate: '2025-08-05', source: 'manual' });
+  });
+
+  it('uses the first rate for days before the history starts', () => {
+    expect(resolveExchangeRate(history, '2025-07-15')).toEqual({ rate: 1.37, rateDate: '2025-08-01', source: 'feed' });
+  });
+
+  it('falls back to the default rate without any history', () => {
+    expect(resolveExchangeRate([], '2025-08-01')).toEqual({ rate: DEFAULT_USD_TO_CAD_RATE, rateDate: null, source: 'default' });
+  });
+});
+
+describe('describeAppliedRates', () => {
+  it('names the single rate used and its day', () => {
+    expect(describeAppliedRates([{ rate: 1.36, rateDate: '2025-08-05', source: 'manual' }]))
+      .toBe('Converted at 1 USD = 1.36 CAD (rate of Aug 5, 2025, manual override)');
+  });
+
+  it('summarizes daily rates as a range', () => {
+    const rates = ['2025-08-01', '2025-08-05', '2025-08-10', '2025-08-05'].map(day => resolveExchangeRate(history, day));
+    expect(collectAppliedRates(rates)).toHaveLength(3);
+    expect(describeAppliedRates(rates))
+      .toBe('Converted at daily rates of 1 USD = 1.36–1.39 CAD from Aug 1, 2025 to Aug 10, 2025, 1 manual override');
+  });
+
+  it('is empty when nothing was converted', () => {
+    expect(describeAppliedRates([])).toBe('');
+  });
+});
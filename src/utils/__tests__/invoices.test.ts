@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCreditLineItem,
+  buildInvoiceCsv,
+  buildInvoiceLineItems,
+  buildInvoicePdf,
+  calculateBillableUsage,
+  calculateInvoiceTotals,
+  canTransitionInvoice,
+  formatBillingMonth,
+  getBillingMonth,
+  getInvoicePeriod,
+  getInvoiceSettings,
+  getInvoiceTotalCad,
+} from '../invoices';
+import type { ClientInvoiceWithLines } from '@/types/invoice';
+
+const client = { subscription_plan: 'Pro' as const, monthly_billing_amount_cad: 499 };
+
+describe('getInvoiceSettings', () => {
+  it('reads config_json.invoicing and falls back on invalid values', () => {
+    expect(getInvoiceSettings({ invoicing: { included_minutes: 1000, overage_rate_cad: 0.25 } }))
+      .toEqual({ included_minutes: 1000, overage_rate_cad: 0.25 });
+    expect(getInvoiceSettings({ invoicing: { included_minutes: -5, overage_rate_cad: 'a lot' } }))
+      .toEqual({ included_minutes: null, overage_rate_cad: 0 });
+    expect(getInvoiceSettings(null)).toEqual({ included_minutes: null, overage_rate_cad: 0 });
+  });
+});
+
+describe('billing months', () => {
+  it('steps back whole months', () => {
+    expect(getBillingMonth(1, new Date(2025, 0, 15))).toBe('2024-12-01');
+    expect(getBillingMonth(0, new Date(2025, 8, 30))).toBe('2025-09-01');
+    expect(formatBillingMonth('2025-09-01')).toBe('September 2025');
+  });
+
+  it('runs the month in the client timezone', () => {
+    expect(getInvoicePeriod('2025-09-01', 'America/Toronto')).toEqual({
+      start: '2025-09-01T04:00:00.000Z',
+      end: '2025-10-01T04:00:00.000Z',
+    });
+    expect(getInvoicePeriod('2025-12-01', 'UTC').end).toBe('2026-01-01T00:00:00.000Z');
+  });
+});
+
+describe('calculateBillableUsage', () => {
+  it('rounds each call up to the whole minute', () => {
+    expect(calculateBillableUsage([
+      { call_duration_seconds: 61 },
+      { call_duration_seconds: 60 },
+      { call_duration_seconds: null },
+    ])).toEqual({ billable_calls: 3, billable_minutes: 3 });
+  });
+});
+
+describe('buildInvoiceLineItems', () => {
+  it('bills the plan fee and minutes over the included minutes', () => {
+    const lines = buildInvoiceLineItems(client, '2025-09-01', { billable_calls: 400, billable_minutes: 1250 }, {
+      included_minutes: 1000,
+      overage_rate_cad: 0.35,
+    });
+
+    expect(lines).toEqual([
+      { line_number: 1, item_type: 'base_fee', description: 'Pro plan - September 2025', quantity: 1, unit_amount: 499, amount: 499 },
+      { line_number: 2, item_type: 'overage', description: 'Call minutes over the 1000 included (1250 used)', quantity: 250, unit_amount: 0.35, amount: 87.5 },
+    ]);
+  });
+
+  it('bills no overage for unlimited plans or usage within the plan', () => {
+    const usage = { billable_calls: 400, billable_minutes: 1250 };
+    expect(buildInvoiceLineItems(client, '2025-09-01', usage, { included_minutes: null, overage_rate_cad: 0.35 })).toHaveLength(1);
+    expect(buildInvoiceLineItems(client, '2025-09-01', usage, { included_minutes: 2000, overage_rate_cad: 0.35 })).toHaveLength(1);
+  });
+
+  it('converts CAD prices for clients billed in USD', () => {
+    const lines = buildInvoiceLineItems(client, '2025-09-01', { billable_calls: 400, billable_minutes: 1250 }, {
+      included_minutes: 1000,
+      overage_rate_cad: 0.35,
+    }, { currency: 'USD', usd_to_cad_rate: 1.4 });
+
+    expect(lines.map(line => [line.unit_amount, line.amount])).toEqual([[356.43, 356.43], [0.25, 62.5]]);
+  });
+});
+
+describe('invoice totals and credits', () => {
+  const lines = [
+    { line_number: 1, item_type: 'base_fee' as const, amount: 499 },
+    { line_number: 2, item_type: 'overage' as const, amount: 87.5 },
+    { line_number: 3, item_type: 'credit' as const, amount: -50 },
+  ];
+
+  it('totals charges less credits', () => {
+    expect(calculateInvoiceTotals(lines)).toEqual({ subtotal: 586.5, credits: 50, total: 536.5 });
+  });
+
+  it('adds credits as the next numbered line', () => {
+    expect(buildCreditLineItem(lines, ' Outage on Sep 12 ', 25)).toEqual({
+      line_number: 4,
+      item_type: 'credit',
+      description: 'Outage on Sep 12',
+      quantity: 1,
+      unit_amount: -25,
+      amount: -25,
+    });
+  });
+
+  it('rejects credits that are not positive or exceed the amount due', () => {
+    expect(() => buildCreditLineItem(lines, 'Goodwill', 0)).toThrow('Credit amount must be more than zero');
+    expect(() => buildCreditLineItem(lines, 'Goodwill', 600)).toThrow('Credit cannot be more than the amount due');
+  });
+});
+
+describe('getInvoiceTotalCad', () => {
+  it('converts USD invoices back at their issue rate', () => {
+    expect(getInvoiceTotalCad({ total: 536.5, currency: 'CAD', usd_to_cad_rate: null })).toBe(536.5);
+    expect(getInvoiceTotalCad({ total: 100, currency: 'USD', usd_to_cad_rate: 1.37 })).toBe(137);
+  });
+});
+
+describe('canTransitionInvoice', () => {
+  it('follows draft -> issued -> paid, with void before payment', () => {
+    expect(canTransitionInvoice('draft', 'issued')).toBe(true);
+    expect(canTransitionInvoice('issued', 'paid')).toBe(true);
+    expect(canTransitionInvoice('issued', 'void')).toBe(true);
+    expect(canTransitionInvoice('draft', 'paid')).toBe(false);
+    expect(canTransitionInvoice('paid', 'void')).toBe(false);
+  });
+});
+
+describe('invoice output', () => {
+  const invoice: ClientInvoiceWithLines = {
+    id: 'inv-1',
+    client_id: 'client-1',
+    invoice_number: 'INV-202509-00012',
+    billing_month: '2025-09-01',
+    period_start: '2025-09-01T04:00:00Z',
+    period_end: '2025-10-01T04:00:00Z',
+    status: 'issued',
+    currency: 'CAD',
+    usd_to_cad_rate: null,
+    billable_calls: 400,
+    billable_minutes: 1250,
+    subtotal: 586.5,
+    credits: 50,
+    total: 536.5,
+    notes: null,
+    void_reason: null,
+    issued_at: '2025-10-01T15:00:00Z',
+    due_at: '2025-10-31T15:00:00Z',
+    paid_at: null,
+    voided_at: null,
+    created_by: null,
+    created_at: '2025-10-01T14:00:00Z',
+    updated_at: '2025-10-01T15:00:00Z',
+    line_items: [
+      { id: 'l3', invoice_id: 'inv-1', line_number: 3, item_type: 'credit', description: 'Outage "Sep 12"', quantity: 1, unit_amount: -50, amount: -50, created_at: '' },
+      { id: 'l1', invoice_id: 'inv-1', line_number: 1, item_type: 'base_fee', description: 'Pro plan - September 2025', quantity: 1, unit_amount: 499, amount: 499, created_at: '' },
+    ],
+  };
+
+  it('writes line items as CSV in line order', () => {
+    const [header, first, second] = buildInvoiceCsv(invoice, 'Acme Motors').split('\n');
+    expect(header).toBe('Invoice,Client,Billing Month,Status,Line,Type,Description,Quantity,Unit Price (CAD),Amount (CAD)');
+    expect(first).toBe('"INV-202509-00012","Acme Motors","2025-09","Issued","1","Plan fee","Pro plan - September 2025","1","499","499.00"');
+    expect(second).toContain('"Outage ""Sep 12"""');
+  });
+
+  it('writes a PDF with the invoice number and totals', () => {
+    const pdf = buildInvoicePdf(invoice, {
+      name: 'Acme Motors',
+      contact_person: 'Jane Smith',
+      contact_email: 'jane@acme.test',
+      billing_address: '1 Main St\nToronto, ON',
+    });
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(INV-202509-00012) Tj');
+    expect(pdf).toContain('(Toronto, ON) Tj');
+    expect(pdf).toContain('($536.50) Tj');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { buildAdfProspect, buildLeadAdfDocument, escapeXml, splitFullName } from '../leadAdf';
+import type { LeadIntelligenceRow } from '../leadWorkbook';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import { buildAdfDocument } from '../../../supabase/functions/_shared/adf.ts';
+
+const makeLead = (overrides: Partial<Lead> = {}): Lead => ({
+  id: 'lead-1',
+  full_name: 'Mary Ann Smith',
+  phone_number: '+14165550123',
+  email: 'mary@example.com',
+  lead_status: 'new',
+  status: 'new',
+  source: 'ai_agent',
+  call_id: 'call-1',
+  client_id: 'client-1',
+  client_name: 'Maple Motors',
+  created_at: '2025-07-15T14:30:00Z',
+  notes: 'Prefers texts',
+  ...overrides,
+});
+
+const intelligenceByCallId = new Map<string, LeadIntelligenceRow>([
+  ['call-1', {
+    call_id: 'call-1',
+    inquiry_type: 'purchase',
+    vehicle_interest: { year: 2023, make: 'Honda', model: 'Civic', trim: 'Touring', price_range: '20-30k' },
+  }],
+]);
+const summariesByCallId = new Map([['call-1', 'Caller wants a test drive on Saturday']]);
+
+describe('splitFullName', () => {
+  it('should use the last word as the last name', () => {
+    expect(splitFullName('Mary Ann Smith')).toEqual({ first: 'Mary Ann', last: 'Smith' });
+    expect(splitFullName('  Cher ')).toEqual({ first: 'Cher', last: '' });
+    expect(splitFullName('')).toEqual({ first: '', last: '' });
+  });
+});
+
+describe('escapeXml', () => {
+  it('should escape markup characters', () => {
+    expect(escapeXml(`Tom & "Jerry" <'s>`)).toBe('Tom &amp; &quot;Jerry&quot; &lt;&apos;s&gt;');
+  });
+});
+
+describe('buildAdfProspect', () => {
+  it('should map vehicle interest, contact details and the call summary', () => {
+    const xml = buildAdfProspect(makeLead(), { intelligenceByCallId, summariesByCallId, includeNotes: true });
+
+    expect(xml).toContain('<prospect status="new">');
+    expect(xml).toContain('<id sequence="1" source="Dealermate">lead-1</id>');
+    expect(xml).toContain('<requestdate>2025-07-15T14:30:00.000Z</requestdate>');
+    expect(xml).toContain('<year>2023</year>');
+    expect(xml).toContain('<make>Honda</make>');
+    expect(xml).toContain('<model>Civic</model>');
+    expect(xml).toContain('<trim>Touring</trim>');
+    expect(xml).toContain('<comments>Price range: 20-30k</comments>');
+    expect(xml).toContain('<name part="first">Mary Ann</name>');
+    expect(xml).toContain('<name part="last">Smith</name>');
+    expect(xml).toContain('<email>mary@example.com</email>');
+    expect(xml).toContain('<phone type="voice">+14165550123</phone>');
+    expect(xml).toContain('<comments>Call summary: Caller wants a test drive on Saturday\nNotes: Prefers texts</comments>');
+    expect(xml).toContain('<vendorname>Maple Motors</vendorname>');
+    expect(xml.indexOf('<email>')).toBeLessThan(xml.indexOf('<phone'));
+  });
+
+  it('should leave out the vehicle, email and notes when they are missing or excluded', () => {
+    const xml = buildAdfProspect(makeLead({ call_id: 'call-2', email: null }), { intelligenceByCallId });
+
+    expect(xml).not.toContain('<vehicle');
+    expect(xml).not.toContain('<email>');
+    expect(xml).not.toContain('<comments>');
+  });
+
+  it('should mark leads already sent to the dealership as resends', () => {
+    const xml = buildAdfProspect(makeLead({ sent_to_client_at: '2025-07-15T15:00:00Z' }));
+    expect(xml).toContain('<prospect status="resend">');
+  });
+
+  it('should escape lead text', () => {
+    const xml = buildAdfProspect(makeLead({ full_name: 'Bob <Builder>', client_name: 'A & B Autos' }));
+    expect(xml).toContain('<name part="last">&lt;Builder&gt;</name>');
+    expect(xml).toContain('<vendorname>A &amp; B Autos</vendorname>');
+  });
+
+  it('should fall back to the custom lead data for the vehicle', () => {
+    const xml = buildAdfProspect(makeLead({
+      call_id: 'call-2',
+      custom_lead_data: JSON.stringify({ vehicle_year: 2021, vehicle_make: 'Mazda', model: 'CX-5' }),
+    }), { intelligenceByCallId });
+
+    expect(xml).toContain('<year>2021</year>');
+    expect(xml).toContain('<make>Mazda</make>');
+    expect(xml).toContain('<model>CX-5</model>');
+  });
+
+  it('should leave the request date empty when created_at cannot be read', () => {
+    const xml = buildAdfProspect(makeLead({ created_at: 'not a date' }));
+    expect(xml).toContain('<requestdate></requestdate>');
+  });
+});
+
+describe('lead delivery', () => {
+  it('should send the same prospect as the export with notes', () => {
+    const lead = makeLead({ callback_timing_value: 'tomorrow after 3' });
+    const exported = buildLeadAdfDocument([lead], { intelligenceByCallId, summariesByCallId, includeNotes: true });
+    const delivered = buildAdfDocument([{
+      ...lead,
+      call_summary: summariesByCallId.get('call-1'),
+      vehicle_interest: { ...intelligenceByCallId.get('call-1')?.vehicle_interest },
+    }], { name: 'Maple Motors' }, { includeNotes: true });
+
+    expect(exported.trimEnd()).toBe(delivered);
+  });
+});
+
+describe('buildLeadAdfDocument', () => {
+  it('should wrap one prospect per lead in an ADF 1.0 document', () => {
+    const xml = buildLeadAdfDocument([makeLead(), makeLead({ id: 'lead-2' })]);
+    const lines = xml.split('\n');
+
+    expect(lines.slice(0, 3)).toEqual(['<?xml version="1.0" encoding="UTF-8"?>', '<?adf version="1.0"?>', '<adf>']);
+    expect(xml.match(/<prospect /g)).toHaveLength(2);
+    expect(xml.trimEnd().endsWith('</adf>')).toBe(true);
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.getElementsByTagName('prospect')).toHaveLength(2);
+  });
+});
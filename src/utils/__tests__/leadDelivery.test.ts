@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DIGEST_INTERVAL_MINUTES,
+  createDeliveryChannel,
+  getDeliveryConfig,
+  parseRecipients,
+  validateDeliveryChannel,
+} from '../leadDelivery';
+
+describe('getDeliveryConfig', () => {
+  it('should return no channels when delivery is not configured', () => {
+    expect(getDeliveryConfig(null).channels).toEqual([]);
+    expect(getDeliveryConfig({ timezone: 'America/Toronto' }).channels).toEqual([]);
+    expect(getDeliveryConfig({ lead_delivery: { channels: 'webhook' } }).channels).toEqual([]);
+  });
+
+  it('should drop unknown channels and fill in missing fields', () => {
+    const config = getDeliveryConfig({
+      lead_delivery: {
+        channels: [
+          { id: 'a', type: 'email_digest', recipients: ['sales@dealer.com', 42] },
+          { id: 'b', type: 'fax', recipients: ['555-0100'] },
+          { type: 'webhook', url: 'https://crm.example.com' },
+          { id: 'c', type: 'webhook', url: 'https://crm.example.com', secret: '', enabled: false },
+        ],
+      },
+    });
+
+    expect(config.channels).toEqual([
+      {
+        id: 'a',
+        type: 'email_digest',
+        enabled: true,
+        recipients: ['sales@dealer.com'],
+        url: null,
+        secret: null,
+        digest_interval_minutes: DEFAULT_DIGEST_INTERVAL_MINUTES,
+      },
+      {
+        id: 'c',
+        type: 'webhook',
+        enabled: false,
+        recipients: [],
+        url: 'https://crm.example.com',
+        secret: null,
+        digest_interval_minutes: DEFAULT_DIGEST_INTERVAL_MINUTES,
+      },
+    ]);
+  });
+});
+
+describe('parseRecipients', () => {
+  it('should split on commas, semicolons and whitespace and remove duplicates', () => {
+    expect(parseRecipients(' Sales@Dealer.com, bdc@dealer.com;\nsales@dealer.com ,, ')).toEqual([
+      'sales@dealer.com',
+      'bdc@dealer.com',
+    ]);
+  });
+});
+
+describe('validateDeliveryChannel', () => {
+  it('should require https webhook URLs', () => {
+    const webhook = createDeliveryChannel('webhook', 'w');
+    expect(validateDeliveryChannel(webhook)).toBe('Webhook URL is required');
+    expect(validateDeliveryChannel({ ...webhook, url: 'not a url' })).toBe('Webhook URL is not a valid URL');
+    expect(validateDeliveryChannel({ ...webhook, url: 'http://crm.example.com' })).toBe('Webhook URL must use https');
+    expect(validateDeliveryChannel({ ...webhook, url: 'https://crm.example.com/leads' })).toBeNull();
+  });
+
+  it('should require valid recipients for email channels', () => {
+    const email = createDeliveryChannel('adf_email', 'e');
+    expect(validateDeliveryChannel(email)).toBe('Add at least one email address');
+    expect(validateDeliveryChannel({ ...email, recipients: ['leads@crm.com', 'nope'] }))
+      .toBe('"nope" is not a valid email address');
+    expect(validateDeliveryChannel({ ...email, recipients: ['leads@crm.com'] })).toBeNull();
+  });
+});
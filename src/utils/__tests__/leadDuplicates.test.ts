@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMergedLead,
+  findDuplicateGroups,
+  nameSimilarity,
+  normalizePhone,
+} from '../leadDuplicates';
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+const makeLead = (overrides: Partial<Lead>): Lead => ({
+  id: 'lead-1',
+  full_name: 'Jane Doe',
+  phone_number: '',
+  email: null,
+  lead_status: 'new',
+  status: 'new',
+  source: 'ai_agent',
+  call_id: `call-${overrides.id ?? '1'}`,
+  client_id: 'client-1',
+  created_at: '2025-07-15T14:35:00Z',
+  ...overrides,
+});
+
+describe('normalizePhone', () => {
+  it('should strip formatting and the North American country code', () => {
+    expect(normalizePhone('+1 (416) 555-0123')).toBe('4165550123');
+    expect(normalizePhone('416.555.0123')).toBe('4165550123');
+  });
+
+  it('should ignore numbers that are too short to match on', () => {
+    expect(normalizePhone('555')).toBe('');
+    expect(normalizePhone(null)).toBe('');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should score reordered and lightly misspelled names as similar', () => {
+    expect(nameSimilarity('Doe, Jane', 'Jane Doe')).toBe(1);
+    expect(nameSimilarity('Jon Smith', 'John Smith')).toBeGreaterThan(0.88);
+    expect(nameSimilarity('Jane Doe', 'Mark Lee')).toBeLessThan(0.5);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('should group leads by phone, from_phone_number and email within a client', () => {
+    const groups = findDuplicateGroups([
+      makeLead({ id: 'a', full_name: 'Jane Doe', phone_number: '+14165550123', created_at: '2025-07-01T00:00:00Z' }),
+      makeLead({ id: 'b', full_name: 'J. Doe', phone_number: '', from_phone_number: '416-555-0123', email: 'JANE@example.com', created_at: '2025-07-02T00:00:00Z' }),
+      makeLead({ id: 'c', full_name: 'Janet Doe-Smith', phone_number: '6475550000', email: 'jane@example.com ', created_at: '2025-07-03T00:00:00Z' }),
+      makeLead({ id: 'd', full_name: 'Jane Doe', phone_number: '+14165550123', client_id: 'client-2' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ id: 'a', leadIds: ['a', 'b', 'c'], reasons: ['phone', 'email'], confidence: 'high' });
+  });
+
+  it('should flag name-only matches as possible duplicates', () => {
+    const groups = findDuplicateGroups([
+      makeLead({ id: 'a', full_name: 'Jonathan Smith', phone_number: '4165550123' }),
+      makeLead({ id: 'b', full_name: 'Jonathon Smith', phone_number: '6475559876' }),
+      makeLead({ id: 'c', full_name: 'Mark Lee', phone_number: '9055551111' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ leadIds: ['a', 'b'], reasons: ['name'], confidence: 'possible' });
+  });
+});
+
+describe('buildMergedLead', () => {
+  it('should combine notes and merge custom data with the primary lead taking precedence', () => {
+    const primary = makeLead({ id: 'a', notes: 'Wants a Civic', custom_lead_data: { budget: '30000' } });
+    const duplicate = makeLead({
+      id: 'b',
+      full_name: 'Jane D',
+      notes: 'Called back about financing',
+      created_at: '2025-07-16T10:00:00Z',
+      custom_lead_data: { budget: '25000', trade_in: true },
+    });
+
+    const merged = buildMergedLead(primary, [duplicate], {
+      full_name: 'Jane Doe',
+      phone_number: '4165550123',
+      email: null,
+    });
+
+    expect(merged.notes).toBe('Wants a Civic\n\n[Merged from Jane D, Jul 16, 2025]\nCalled back about financing');
+    expect(merged.custom_lead_data).toEqual({ budget: '30000', trade_in: true });
+    expect(merged.full_name).toBe('Jane Doe');
+  });
+});
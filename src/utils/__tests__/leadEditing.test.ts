@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  customDataToFields,
+  fieldsToCustomData,
+  formValuesToUpdates,
+  getLeadChanges,
+  leadEditSchema,
+  leadToFormValues,
+} from '../leadEditing';
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+const lead: Lead = {
+  id: 'lead-1',
+  full_name: 'Jane Doe',
+  phone_number: '+14165550123',
+  email: null,
+  lead_status: 'New',
+  status: 'New',
+  source: 'ai_agent',
+  call_id: 'call-1',
+  client_id: 'client-1',
+  created_at: '2025-07-15T14:35:00Z',
+  callback_timing_value: null,
+  custom_lead_data: { trade_in: true, budget: '30000', vehicle: { make: 'Honda', model: 'Civic' } },
+};
+
+describe('leadEditSchema', () => {
+  it('should accept a valid lead', () => {
+    const result = leadEditSchema.safeParse(leadToFormValues(lead));
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject invalid phone numbers and emails', () => {
+    const result = leadEditSchema.safeParse({
+      ...leadToFormValues(lead),
+      phone_number: '555-12',
+      email: 'not-an-email',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      const paths = result.error.issues.map(issue => issue.path.join('.'));
+      expect(paths).toContain('phone_number');
+      expect(paths).toContain('email');
+    }
+  });
+
+  it('should reject duplicate custom field names', () => {
+    const result = leadEditSchema.safeParse({
+      ...leadToFormValues(lead),
+      custom_fields: [
+        { key: 'budget', value: '1' },
+        { key: 'budget', value: '2' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['custom_fields', 1, 'key']);
+    }
+  });
+});
+
+describe('custom lead data conversion', () => {
+  it('should round-trip custom_lead_data through editable fields', () => {
+    const fields = customDataToFields(lead.custom_lead_data);
+
+    expect(fields).toEqual([
+      { key: 'trade_in', value: 'true' },
+      { key: 'budget', value: '30000' },
+      { key: 'vehicle', value: '{"make":"Honda","model":"Civic"}' },
+    ]);
+    expect(fieldsToCustomData(fields)).toEqual(lead.custom_lead_data);
+  });
+
+  it('should return null when all custom fields are removed', () => {
+    expect(fieldsToCustomData([])).toBeNull();
+  });
+});
+
+describe('getLeadChanges', () => {
+  it('should ignore unchanged fields, status case and empty values', () => {
+    const updates = formValuesToUpdates(leadToFormValues(lead));
+
+    expect(getLeadChanges(lead, updates).changes).toEqual({});
+  });
+
+  it('should report old and new values for changed fields', () => {
+    const updates = formValuesToUpdates({
+      ...leadToFormValues(lead),
+      email: 'jane@example.com',
+      lead_status: 'contacted',
+    });
+
+    const { changes, oldValues, newValues } = getLeadChanges(lead, updates);
+
+    expect(changes).toEqual({ email: 'jane@example.com', lead_status: 'contacted' });
+    expect(oldValues).toEqual({ email: null, lead_status: 'New' });
+    expect(newValues).toEqual({ email: 'jane@example.com', lead_status: 'contacted' });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  computeStageConversions,
+  computeStageDurations,
+  getPipelineStages,
+  groupLeadsByStage,
+  toStageKey,
+  validatePipelineStages,
+} from '../leadPipeline';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadPipelineStage, LeadStageChange } from '@/types/leadPipeline';
+
+const stages: LeadPipelineStage[] = [
+  { key: 'new', label: 'New' },
+  { key: 'contacted', label: 'Contacted' },
+  { key: 'test_drive', label: 'Test Drive' },
+  { key: 'sold', label: 'Sold', is_closed: true },
+  { key: 'lost', label: 'Lost', is_closed: true },
+];
+
+const makeLead = (id: string, status: string, createdAt = '2025-07-01T00:00:00Z'): Lead => ({
+  id,
+  full_name: `Lead ${id}`,
+  phone_number: '+14165550123',
+  email: null,
+  lead_status: status,
+  status,
+  source: 'ai_agent',
+  call_id: `call-${id}`,
+  client_id: 'client-1',
+  created_at: createdAt,
+});
+
+const change = (leadId: string, from: string, to: string, at: string): LeadStageChange => ({
+  lead_id: leadId,
+  from,
+  to,
+  changed_at: at,
+});
+
+describe('getPipelineStages', () => {
+  it('should read stages from config_json', () => {
+    expect(getPipelineStages({ features: [], lead_pipeline: { stages } })).toEqual(stages);
+  });
+
+  it('should fall back to the default stages for missing or malformed config', () => {
+    expect(getPipelineStages(null)).toBe(DEFAULT_PIPELINE_STAGES);
+    expect(getPipelineStages({ lead_pipeline: { stages: 'new,contacted' } })).toBe(DEFAULT_PIPELINE_STAGES);
+    expect(getPipelineStages({ lead_pipeline: { stages: [{ label: 'No key' }] } })).toBe(DEFAULT_PIPELINE_STAGES);
+  });
+});
+
+describe('validatePipelineStages', () => {
+  it('should accept a valid pipeline', () => {
+    expect(validatePipelineStages(stages)).toEqual([]);
+  });
+
+  it('should report duplicate keys, blank names and all-closed pipelines', () => {
+    const errors = validatePipelineStages([
+      { key: 'sold', label: 'Sold', is_closed: true },
+      { key: 'sold', label: '', is_closed: true },
+    ]);
+
+    expect(errors).toEqual([
+      'Every stage needs a name',
+      'Stage names must be unique',
+      'At least one stage must be open',
+    ]);
+  });
+});
+
+describe('toStageKey', () => {
+  it('should slugify stage labels', () => {
+    expect(toStageKey(' Test Drive / Booked ')).toBe('test_drive_booked');
+  });
+});
+
+describe('groupLeadsByStage', () => {
+  it('should match statuses case-insensitively and put unknown statuses in the first stage', () => {
+    const columns = groupLeadsByStage(
+      [makeLead('1', 'New'), makeLead('2', 'test_drive'), makeLead('3', 'proposal')],
+      stages
+    );
+
+    expect(columns.get('new')?.map(lead => lead.id)).toEqual(['1', '3']);
+    expect(columns.get('test_drive')?.map(lead => lead.id)).toEqual(['2']);
+    expect(columns.get('sold')).toEqual([]);
+  });
+});
+
+describe('computeStageConversions', () => {
+  it('should count leads that advanced, including skips to later open stages', () => {
+    const leads = [makeLead('a', 'sold'), makeLead('b', 'test_drive'), makeLead('c', 'lost'), makeLead('d', 'New')];
+    const changes = [
+      change('a', 'New', 'contacted', '2025-07-01T02:00:00Z'),
+      change('a', 'contacted', 'test_drive', '2025-07-02T00:00:00Z'),
+      change('a', 'test_drive', 'sold', '2025-07-03T00:00:00Z'),
+      change('b', 'New', 'test_drive', '2025-07-01T05:00:00Z'),
+      change('c', 'New', 'contacted', '2025-07-01T01:00:00Z'),
+      change('c', 'contacted', 'lost', '2025-07-01T03:00:00Z'),
+    ];
+
+    const conversions = computeStageConversions(stages, leads, changes);
+
+    expect(conversions.map(c => [c.from.key, c.to.key, c.entered, c.advanced, c.rate])).toEqual([
+      ['new', 'contacted', 4, 3, 75],
+      ['contacted', 'test_drive', 2, 1, 50],
+      ['test_drive', 'sold', 2, 1, 50],
+    ]);
+  });
+});
+
+describe('computeStageDurations', () => {
+  it('should average time in each open stage and count open leads up to now', () => {
+    const leads = [makeLead('a', 'contacted'), makeLead('b', 'New')];
+    const changes = [change('a', 'New', 'contacted', '2025-07-01T04:00:00Z')];
+
+    const durations = computeStageDurations(stages, leads, changes, new Date('2025-07-01T10:00:00Z'));
+
+    expect(durations.map(d => d.stage.key)).toEqual(['new', 'contacted', 'test_drive']);
+    expect(durations[0]).toMatchObject({ leads: 2, averageHours: 7, medianHours: 7 });
+    expect(durations[1]).toMatchObject({ leads: 1, averageHours: 6, medianHours: 6 });
+    expect(durations[2]).toMatchObject({ leads: 0, averageHours: 0, medianHours: 0 });
+  });
+});
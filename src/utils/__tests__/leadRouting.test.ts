@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ROUTING_CONFIG,
+  countOpenAssignedLeads,
+  getAssigneePool,
+  getRoutingConfig,
+  planLeadAssignments,
+} from '../leadRouting';
+import { DEFAULT_PIPELINE_STAGES } from '../leadPipeline';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadAssignee, LeadRoutingConfig } from '@/types/leadRouting';
+
+const makeLead = (id: string, overrides: Partial<Lead> = {}): Lead => ({
+  id,
+  full_name: `Lead ${id}`,
+  phone_number: '+14165550123',
+  email: null,
+  lead_status: 'new',
+  status: 'new',
+  source: 'ai_agent',
+  call_id: `call-${id}`,
+  client_id: 'client-1',
+  created_at: `2025-07-0${id}T00:00:00Z`,
+  ...overrides,
+});
+
+const staff = (id: string): LeadAssignee => ({
+  id,
+  full_name: `User ${id}`,
+  email: `${id}@dealer.com`,
+  role: 'client_user',
+  client_id: 'client-1',
+});
+
+const assignees = [staff('ann'), staff('bob'), staff('cid')];
+
+describe('getRoutingConfig', () => {
+  it('should read routing rules from config_json and drop malformed routes', () => {
+    const config = getRoutingConfig({
+      lead_routing: {
+        mode: 'inquiry_type',
+        assignee_ids: ['ann'],
+        inquiry_routes: [{ inquiry_type: 'service', assignee_ids: ['bob'] }, { inquiry_type: 'sales' }],
+      },
+    });
+
+    expect(config).toEqual({
+      mode: 'inquiry_type',
+      assignee_ids: ['ann'],
+      inquiry_routes: [{ inquiry_type: 'service', assignee_ids: ['bob'] }],
+    });
+  });
+
+  it('should fall back to manual routing for missing or unknown modes', () => {
+    expect(getRoutingConfig(null)).toBe(DEFAULT_ROUTING_CONFIG);
+    expect(getRoutingConfig({ lead_routing: { mode: 'random' } })).toBe(DEFAULT_ROUTING_CONFIG);
+  });
+});
+
+describe('getAssigneePool', () => {
+  const config: LeadRoutingConfig = {
+    mode: 'inquiry_type',
+    assignee_ids: ['ann', 'gone'],
+    inquiry_routes: [{ inquiry_type: 'service', assignee_ids: ['bob', 'cid'] }],
+  };
+
+  it('should use the route for the inquiry type, case-insensitively', () => {
+    expect(getAssigneePool(config, assignees, 'Service').map(a => a.id)).toEqual(['bob', 'cid']);
+  });
+
+  it('should fall back to the round-robin pool, skipping users who are no longer staff', () => {
+    expect(getAssigneePool(config, assignees, 'sales').map(a => a.id)).toEqual(['ann']);
+    expect(getAssigneePool({ ...config, assignee_ids: [] }, assignees, null)).toEqual(assignees);
+  });
+});
+
+describe('planLeadAssignments', () => {
+  it('should rotate oldest-first, continuing after the most recently assigned user', () => {
+    const leads = [
+      makeLead('1', { assigned_to: 'ann', assigned_at: '2025-07-01T00:00:00Z' }),
+      makeLead('2', { assigned_to: 'bob', assigned_at: '2025-07-02T00:00:00Z' }),
+      makeLead('5'),
+      makeLead('3'),
+      makeLead('4'),
+      makeLead('6', { lead_status: 'closed_won' }),
+    ];
+    const config: LeadRoutingConfig = { mode: 'round_robin', assignee_ids: [], inquiry_routes: [] };
+
+    const plan = planLeadAssignments(leads, config, assignees, new Map(), DEFAULT_PIPELINE_STAGES);
+
+    expect([...plan.entries()]).toEqual([['3', 'cid'], ['4', 'ann'], ['5', 'bob']]);
+  });
+
+  it('should route by inquiry type with a separate rotation per pool', () => {
+    const leads = [makeLead('1'), makeLead('2'), makeLead('3'), makeLead('4')];
+    const inquiryTypes = new Map([
+      ['call-1', 'service'],
+      ['call-2', 'sales'],
+      ['call-3', 'service'],
+      ['call-4', 'parts'],
+    ]);
+    const config: LeadRoutingConfig = {
+      mode: 'inquiry_type',
+      assignee_ids: ['ann'],
+      inquiry_routes: [{ inquiry_type: 'service', assignee_ids: ['bob', 'cid'] }],
+    };
+
+    const plan = planLeadAssignments(leads, config, assignees, inquiryTypes, DEFAULT_PIPELINE_STAGES);
+
+    expect(Object.fromEntries(plan)).toEqual({ '1': 'bob', '2': 'ann', '3': 'cid', '4': 'ann' });
+  });
+
+  it('should not assign anything for manual routing', () => {
+    expect(planLeadAssignments([makeLead('1')], DEFAULT_ROUTING_CONFIG, assignees, new Map(), DEFAULT_PIPELINE_STAGES).size).toBe(0);
+  });
+});
+
+describe('countOpenAssignedLeads', () => {
+  it('should only count leads assigned to the user that are not in a closed stage', () => {
+    const leads = [
+      makeLead('1', { assigned_to: 'ann' }),
+      makeLead('2', { assigned_to: 'ann', lead_status: 'closed_lost' }),
+      makeLead('3', { assigned_to: 'bob' }),
+    ];
+
+    expect(countOpenAssignedLeads(leads, 'ann', DEFAULT_PIPELINE_STAGES)).toBe(1);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LEAD_SCORE_WEIGHTS,
+  DEFAULT_SCORING_CONFIG,
+  MAX_SIGNAL_WEIGHT,
+  calculateLeadScore,
+  compareLeadScores,
+  getLeadScoreTier,
+  getScoringConfig,
+  validateScoreWeights,
+} from '../leadScoring';
+import type { LeadScoringSignals } from '@/types/leadScoring';
+
+const strongSignals: LeadScoringSignals = {
+  lead_intent_score: 5,
+  intent_strength: 1,
+  sales_opportunity_score: 1,
+  purchase_timeline: 'immediate',
+  is_high_intent: true,
+};
+
+describe('calculateLeadScore', () => {
+  it('scores a lead with every signal maxed out at 100', () => {
+    const score = calculateLeadScore(strongSignals);
+    expect(score?.score).toBe(100);
+    expect(score?.tier).toBe('hot');
+    expect(score?.factors).toHaveLength(5);
+    expect(score?.missing).toEqual([]);
+  });
+
+  it('weights each signal by the configured weights', () => {
+    const score = calculateLeadScore({
+      lead_intent_score: 3, // 0.5
+      intent_strength: 0.8,
+      sales_opportunity_score: 0.4,
+      purchase_timeline: '3-6_months', // 0.4
+      is_high_intent: false,
+    });
+    // (30*0.5 + 25*0.8 + 20*0.4 + 15*0.4 + 10*0) / 100
+    expect(score?.score).toBe(49);
+    expect(score?.tier).toBe('warm');
+  });
+
+  it('leaves out missing signals and scales up the rest', () => {
+    const score = calculateLeadScore({ lead_intent_score: 5, intent_strength: 0.5 });
+    // (30*1 + 25*0.5) / 55
+    expect(score?.score).toBe(77);
+    expect(score?.missing).toEqual(['sales_opportunity', 'purchase_timeline', 'high_intent']);
+    expect(score?.factors.map(factor => factor.signal)).toEqual(['lead_intent', 'intent_strength']);
+    expect(score?.factors[0].maxPoints).toBe(54.5);
+  });
+
+  it('lists the biggest contributors first', () => {
+    const score = calculateLeadScore({ lead_intent_score: 1, is_high_intent: true });
+    expect(score?.factors[0].signal).toBe('high_intent');
+    expect(score?.factors[0].value).toBe('Yes');
+  });
+
+  it('ignores signals weighted 0', () => {
+    const score = calculateLeadScore(
+      { lead_intent_score: 1, is_high_intent: true },
+      { ...DEFAULT_LEAD_SCORE_WEIGHTS, lead_intent: 0 }
+    );
+    expect(score?.score).toBe(100);
+    expect(score?.factors).toHaveLength(1);
+  });
+
+  it('returns null when the call has no usable data', () => {
+    expect(calculateLeadScore(null)).toBeNull();
+    expect(calculateLeadScore({})).toBeNull();
+    expect(calculateLeadScore({ purchase_timeline: 'unknown' })).toBeNull();
+  });
+});
+
+describe('getScoringConfig', () => {
+  it('falls back to the defaults', () => {
+    expect(getScoringConfig(null)).toBe(DEFAULT_SCORING_CONFIG);
+    expect(getScoringConfig({ lead_scoring: {} })).toBe(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('merges saved weights over the defaults and drops invalid ones', () => {
+    const { weights } = getScoringConfig({
+      lead_scoring: { weights: { lead_intent: 50, intent_strength: -5, sales_opportunity: 'abc', high_intent: 500 } },
+    });
+    expect(weights.lead_intent).toBe(50);
+    expect(weights.intent_strength).toBe(DEFAULT_LEAD_SCORE_WEIGHTS.intent_strength);
+    expect(weights.sales_opportunity).toBe(DEFAULT_LEAD_SCORE_WEIGHTS.sales_opportunity);
+    expect(weights.high_intent).toBe(MAX_SIGNAL_WEIGHT);
+  });
+});
+
+describe('validateScoreWeights', () => {
+  it('accepts the defaults', () => {
+    expect(validateScoreWeights(DEFAULT_LEAD_SCORE_WEIGHTS)).toEqual([]);
+  });
+
+  it('rejects out of range or empty weights', () => {
+    expect(validateScoreWeights({ ...DEFAULT_LEAD_SCORE_WEIGHTS, lead_intent: NaN })).toHaveLength(1);
+    expect(validateScoreWeights({ ...DEFAULT_LEAD_SCORE_WEIGHTS, high_intent: 101 })).toHaveLength(1);
+  });
+
+  it('requires at least one weight above 0', () => {
+    const zero = { lead_intent: 0, intent_strength: 0, sales_opportunity: 0, purchase_timeline: 0, high_intent: 0 };
+    expect(validateScoreWeights(zero)).toEqual(['At least one signal needs a weight above 0']);
+  });
+});
+
+describe('getLeadScoreTier', () => {
+  it('splits scores into hot, warm and cold', () => {
+    expect(getLeadScoreTier(70)).toBe('hot');
+    expect(getLeadScoreTier(69)).toBe('warm');
+    expect(getLeadScoreTier(40)).toBe('warm');
+    expect(getLeadScoreTier(39)).toBe('cold');
+  });
+});
+
+describe('compareLeadScores', () => {
+  const high = calculateLeadScore(strongSignals);
+  const low = calculateLeadScore({ lead_intent_score: 1 });
+
+  it('sorts by score in either direction', () => {
+    expect(compareLeadScores(high, low, 'desc')).toBeLessThan(0);
+    expect(compareLeadScores(high, low, 'asc')).toBeGreaterThan(0);
+  });
+
+  it('always sorts unscored leads last', () => {
+    expect(compareLeadScores(null, low, 'asc')).toBe(1);
+    expect(compareLeadScores(null, low, 'desc')).toBe(1);
+    expect(compareLeadScores(high, undefined, 'asc')).toBe(-1);
+    expect(compareLeadScores(null, null, 'desc')).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { buildLeadWorkbook, formatVehicleInterest, LeadIntelligenceRow } from '../leadWorkbook';
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+const makeLead = (overrides: Partial<Lead> = {}): Lead => ({
+  id: 'lead-1',
+  full_name: 'Jane Doe',
+  phone_number: '+14165550123',
+  from_phone_number: '0014165550123',
+  email: 'jane@example.com',
+  lead_status: 'New',
+  status: 'New',
+  source: 'ai_agent',
+  call_id: 'call-1',
+  client_id: 'client-1',
+  client_name: 'Maple Motors',
+  created_at: '2025-07-15T14:30:00Z',
+  notes: 'Wants a test drive',
+  ...overrides,
+});
+
+const headersOf = (sheet: ExcelJS.Worksheet): string[] =>
+  (sheet.getRow(1).values as ExcelJS.CellValue[]).filter(Boolean) as string[];
+
+describe('leadWorkbook', () => {
+  const intelligence = new Map<string, LeadIntelligenceRow>([
+    ['call-1', {
+      call_id: 'call-1',
+      inquiry_type: 'purchase',
+      vehicle_interest: { year: '2023', make: 'Honda', model: 'Civic', trim: 'Touring', price_range: '20-30k' },
+      intent_strength: 0.8,
+      is_high_intent: true,
+      ai_confidence_score: 0.9,
+    }],
+  ]);
+
+  it('should create Leads, Call Intelligence and Summary sheets', () => {
+    const workbook = buildLeadWorkbook([makeLead()], intelligence, { includeTimestamps: true });
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Leads', 'Call Intelligence', 'Summary']);
+  });
+
+  it('should write dates as Date cells and phone numbers as text', () => {
+    const workbook = buildLeadWorkbook([makeLead()], intelligence, { includeTimestamps: true });
+    const sheet = workbook.getWorksheet('Leads')!;
+    const row = sheet.getRow(2);
+
+    expect(row.getCell('created_at').value).toBeInstanceOf(Date);
+    expect(row.getCell('phone_number').value).toBe('+14165550123');
+    expect(row.getCell('from_phone_number').value).toBe('0014165550123');
+    expect(sheet.getColumn('phone_number').numFmt).toBe('@');
+  });
+
+  it('should follow the export option toggles', () => {
+    const workbook = buildLeadWorkbook([makeLead()], intelligence, {
+      includeNotes: false,
+      includeClientId: false,
+      includeCallId: false,
+      includeTimestamps: false,
+    });
+    const headers = headersOf(workbook.getWorksheet('Leads')!);
+
+    expect(headers).not.toContain('Notes');
+    expect(headers).not.toContain('Client ID');
+    expect(headers).not.toContain('Call ID');
+    expect(headers).not.toContain('Created At');
+  });
+
+  it('should only include AI confidence for sensitive viewers', () => {
+    const restricted = buildLeadWorkbook([makeLead()], intelligence, { includeSensitiveInfo: false });
+    const full = buildLeadWorkbook([makeLead()], intelligence, { includeSensitiveInfo: true });
+
+    expect(headersOf(restricted.getWorksheet('Call Intelligence')!)).not.toContain('AI Confidence');
+    expect(headersOf(full.getWorksheet('Call Intelligence')!)).toContain('AI Confidence');
+  });
+
+  it('should map call intelligence fields onto the lead', () => {
+    const workbook = buildLeadWorkbook([makeLead(), makeLead({ id: 'lead-2', call_id: 'call-2' })], intelligence);
+    const sheet = workbook.getWorksheet('Call Intelligence')!;
+
+    // Only leads with intelligence data get a row
+    expect(sheet.rowCount).toBe(2);
+    expect(sheet.getRow(2).getCell('inquiry_type').value).toBe('purchase');
+    expect(sheet.getRow(2).getCell('vehicle_interest').value).toBe('2023 Honda Civic Touring');
+    expect(sheet.getRow(2).getCell('is_high_intent').value).toBe('Yes');
+  });
+
+  it('should format vehicle interest and skip missing parts', () => {
+    expect(formatVehicleInterest({ make: 'Ford', model: 'F-150' })).toBe('Ford F-150');
+    expect(formatVehicleInterest(null)).toBe('');
+  });
+});
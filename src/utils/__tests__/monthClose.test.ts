@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMonthCloseFigures,
+  canCloseMonth,
+  getBilledRevenue,
+  getMonthRange,
+  getUninvoicedClients,
+  summaryToFinancialMetrics,
+} from '../monthClose';
+import type { CostBreakdown } from '@/services/metricsCalculationService';
+import type { MonthlyBillingSummary } from '@/types/monthlyBillingSummary';
+
+const costBreakdown: CostBreakdown = {
+  totalCallCosts: 270,
+  aiCosts: 100,
+  vapiCosts: 80,
+  vapiLlmCosts: 20,
+  ttsCosts: 10,
+  transcriberCosts: 5,
+  callSummaryCosts: 5,
+  twilioCosts: 40,
+  smsCosts: 10,
+  toolCosts: 27,
+  variableCostsUsd: 220,
+  partnerSplits: 200,
+  findersFees: 100,
+  totalCosts: 597,
+};
+
+describe('getMonthRange', () => {
+  it('covers the whole month, including its last day', () => {
+    const { startDate, endDate } = getMonthRange('2025-02-01');
+    expect(startDate).toEqual(new Date(2025, 1, 1));
+    expect(endDate.getDate()).toBe(28);
+    expect(endDate.getTime()).toBe(new Date(2025, 2, 1).getTime() - 1);
+  });
+});
+
+describe('canCloseMonth', () => {
+  it('only closes months that have ended', () => {
+    const now = new Date(2025, 8, 15);
+    expect(canCloseMonth('2025-08-01', now)).toBe(true);
+    expect(canCloseMonth('2025-09-01', now)).toBe(false);
+  });
+});
+
+describe('getBilledRevenue', () => {
+  const clients = [
+    { id: 'c1', status: 'active' as const, monthly_billing_amount_cad: 499 },
+    { id: 'c2', status: 'active' as const, monthly_billing_amount_cad: 999 },
+    { id: 'c3', status: 'active' as const, monthly_billing_amount_cad: 299 },
+    { id: 'c4', status: 'churned' as const, monthly_billing_amount_cad: 199 },
+    { id: 'c5', status: 'churned' as const, monthly_billing_amount_cad: 199 },
+  ];
+  const invoices = [
+    { client_id: 'c1', status: 'paid' as const, total: 550, currency: 'CAD' as const, usd_to_cad_rate: null },
+    { client_id: 'c2', status: 'issued' as const, total: 100, currency: 'USD' as const, usd_to_cad_rate: 1.37 },
+    { client_id: 'c3', status: 'draft' as const, total: 999, currency: 'CAD' as const, usd_to_cad_rate: null },
+    { client_id: 'c4', status: 'issued' as const, total: 199, currency: 'CAD' as const, usd_to_cad_rate: null },
+  ];
+
+  it('bills issued invoices in CAD, and the plan fee of active clients without one', () => {
+    expect(Object.fromEntries(getBilledRevenue(clients, invoices))).toEqual({ c1: 550, c2: 137, c3: 299, c4: 199 });
+  });
+
+  it('lists active clients not yet invoiced', () => {
+    expect(getUninvoicedClients(clients, invoices).map(client => client.id)).toEqual(['c3']);
+  });
+});
+
+describe('buildMonthCloseFigures', () => {
+  const figures = buildMonthCloseFigures({
+    month: '2025-08-01',
+    usdToCadRate: 1.35,
+    costBreakdown,
+    clientProfitability: [],
+    grossRevenueCad: 2000,
+    activeClients: 4,
+    callsProcessed: 900,
+    leadsCaptured: 120,
+    appointmentsConfirmed: 30,
+    fixedCostsUsd: 40,
+    fixedCostsCad: 54.004,
+  });
+
+  it('adds fixed costs to the cost breakdown in CAD', () => {
+    expect(figures.cost_breakdown.fixedCosts).toBe(54);
+    expect(figures.cost_breakdown.totalCosts).toBe(651);
+    expect(figures.net_profit_usd_cad).toBe(1349);
+  });
+
+  it('keeps variable costs in USD', () => {
+    expect(figures.total_variable_costs_usd).toBe(220);
+    expect(figures.total_fixed_costs_usd).toBe(40);
+    expect(figures.total_partner_payout_cad).toBe(200);
+    expect(figures.total_finders_fees_cad).toBe(100);
+  });
+});
+
+describe('summaryToFinancialMetrics', () => {
+  it('reads the dashboard metrics back from a closed month', () => {
+    const summary = {
+      total_gross_revenue_cad: 2000,
+      net_profit_usd_cad: 1349,
+      cost_breakdown: { ...costBreakdown, totalCosts: 651 },
+    } as MonthlyBillingSummary;
+
+    expect(summaryToFinancialMetrics(summary)).toEqual({
+      totalRevenue: 2000,
+      totalCosts: 651,
+      netProfit: 1349,
+      profitMargin: 67.45,
+      monthlyRecurringRevenue: 2000,
+    });
+  });
+});
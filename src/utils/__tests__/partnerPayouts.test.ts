@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPayoutStatementCsv,
+  buildPayoutStatementLines,
+  buildPayoutStatementPdf,
+  calculatePayoutTotals,
+  getPayoutStatementFilename,
+} from '../partnerPayouts';
+import type { PayoutStatementWithLines } from '@/types/partnerPayout';
+
+const clients = [
+  { id: 'c2', name: 'Zed Motors', monthly_billing_amount_cad: 499, finders_fee_cad: 100, partner_split_percentage: 0.2 },
+  { id: 'c1', name: 'Acme Motors', monthly_billing_amount_cad: 999, finders_fee_cad: 150, partner_split_percentage: 0.1 },
+];
+
+describe('buildPayoutStatementLines', () => {
+  it('uses the issued invoice, or the plan fee without one', () => {
+    const lines = buildPayoutStatementLines(clients, [
+      { client_id: 'c1', status: 'paid', total: 1200, currency: 'CAD', usd_to_cad_rate: null },
+      { client_id: 'c2', status: 'draft', total: 800, currency: 'CAD', usd_to_cad_rate: null },
+    ]);
+
+    expect(lines.map(line => line.client_name)).toEqual(['Acme Motors', 'Zed Motors']);
+    expect(lines[0]).toMatchObject({
+      client_id: 'c1',
+      billing_source: 'invoice',
+      billing_cad: 1200,
+      finders_fee_cad: 150,
+      net_revenue_cad: 1050,
+      split_percentage: 0.1,
+      split_cad: 105,
+      payout_cad: 255,
+    });
+    expect(lines[1]).toMatchObject({
+      billing_source: 'plan',
+      billing_cad: 499,
+      net_revenue_cad: 399,
+      split_cad: 79.8,
+      payout_cad: 179.8,
+    });
+  });
+
+  it('bills USD invoices in CAD', () => {
+    const [line] = buildPayoutStatementLines([clients[1]], [
+      { client_id: 'c1', status: 'issued', total: 730, currency: 'USD', usd_to_cad_rate: 1.37 },
+    ]);
+    expect(line.billing_cad).toBe(1000.1);
+  });
+
+  it('never splits below zero or above the whole net revenue', () => {
+    const [feeOnly, capped] = buildPayoutStatementLines([
+      { id: 'a', name: 'A', monthly_billing_amount_cad: 80, finders_fee_cad: 100, partner_split_percentage: 0.5 },
+      { id: 'b', name: 'B', monthly_billing_amount_cad: 200, finders_fee_cad: 0, partner_split_percentage: 1.5 },
+    ], []);
+    expect(feeOnly).toMatchObject({ net_revenue_cad: 0, split_cad: 0, payout_cad: 100 });
+    expect(capped).toMatchObject({ split_percentage: 1, split_cad: 200, payout_cad: 200 });
+  });
+});
+
+describe('calculatePayoutTotals', () => {
+  it('sums the lines', () => {
+    expect(calculatePayoutTotals(buildPayoutStatementLines(clients, []))).toEqual({
+      total_billing_cad: 1498,
+      total_finders_fees_cad: 250,
+      total_splits_cad: 164.7,
+      total_payout_cad: 414.7,
+    });
+  });
+});
+
+describe('statement exports', () => {
+  const lines = buildPayoutStatementLines(clients, [
+    { client_id: 'c1', status: 'issued', total: 1200, currency: 'CAD', usd_to_cad_rate: null },
+  ]);
+  const statement: PayoutStatementWithLines = {
+    id: 's1',
+    partner_id: 'p1',
+    billing_month: '2025-09-01',
+    status: 'pending',
+    currency: 'CAD',
+    ...calculatePayoutTotals(lines),
+    payment_reference: null,
+    paid_at: null,
+    paid_by: null,
+    created_by: null,
+    created_at: '2025-10-02T14:00:00Z',
+    updated_at: '2025-10-02T14:00:00Z',
+    lines: lines.map((line, index) => ({ ...line, id: `l${index}`, statement_id: 's1', created_at: '2025-10-02T14:00:00Z' })),
+  };
+  const partner = { name: 'North Auto Group', contact_person: 'Sam Lee', contact_email: null };
+
+  it('writes one CSV row per client', () => {
+    const csv = buildPayoutStatementCsv(statement, partner).split('\n');
+    expect(csv).toHaveLength(3);
+    expect(csv[0]).toContain('Billing Source');
+    expect(csv[1]).toBe('"North Auto Group","2025-09","Pending","Acme Motors","Invoice","1200.00","150.00","1050.00","10.00","105.00","255.00"');
+    expect(csv[2]).toContain('"Plan fee"');
+  });
+
+  it('names downloads after the partner and month', () => {
+    expect(getPayoutStatementFilename(statement, partner, 'pdf')).toBe('payout-statement_north-auto-group_2025-09.pdf');
+  });
+
+  it('renders the payout and marks plan fee lines in the PDF', () => {
+    const pdf = buildPayoutStatementPdf(statement, partner);
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(North Auto Group) Tj');
+    expect(pdf).toContain('(Zed Motors *) Tj');
+    expect(pdf).toContain('($434.80) Tj');
+  });
+});
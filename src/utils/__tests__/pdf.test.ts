@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, measurePdfText, pdfToBytes, toPdfSafeText } from '../pdf';
+
+describe('toPdfSafeText', () => {
+  it('writes Latin-1 and typographic punctuation as WinAnsi bytes', () => {
+    expect(toPdfSafeText('Plan – “Pro”\tcafé €5')).toBe('Plan \x96 \x93Pro\x94 caf\xe9 \x805');
+  });
+
+  it('replaces characters outside WinAnsi', () => {
+    expect(toPdfSafeText('Łódź ✓ 🚗')).toBe('?\xf3d? ? ?');
+  });
+});
+
+describe('measurePdfText', () => {
+  it('scales Helvetica widths with the font size', () => {
+    expect(measurePdfText('10.00', 10)).toBeCloseTo(25.02);
+    expect(measurePdfText('10.00', 20)).toBeCloseTo(50.04);
+  });
+});
+
+describe('buildPdf', () => {
+  const pdf = buildPdf([
+    { texts: [{ text: 'Total (CAD) \\ due', x: 50, y: 700, bold: true }], rules: [{ x1: 50, x2: 562, y: 690 }] },
+    { texts: [{ text: '$5.00', x: 562, y: 700, align: 'right' }] },
+  ]);
+
+  it('escapes text and draws rules', () => {
+    expect(pdf).toContain('BT /F2 10 Tf 50 700 Td (Total \\(CAD\\) \\\\ due) Tj ET');
+    expect(pdf).toContain('50 690 m 562 690 l S');
+    expect(pdf).toContain('/Count 2');
+  });
+
+  it('points the cross-reference table at each object', () => {
+    const xref = pdf.slice(pdf.indexOf('xref\n'));
+    const offsets = xref.split('\n').slice(3).filter(line => line.endsWith(' n ')).map(line => Number(line.slice(0, 10)));
+
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    expect(pdf.endsWith(`startxref\n${pdf.indexOf('xref\n')}\n%%EOF\n`)).toBe(true);
+  });
+
+  it('writes one byte per character', () => {
+    const accented = buildPdf([{ texts: [{ text: 'Montréal', x: 50, y: 700 }] }]);
+    const bytes = pdfToBytes(accented);
+
+    expect(bytes).toHaveLength(accented.length);
+    expect(bytes[accented.indexOf('\xe9')]).toBe(0xe9);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CALL_LOGS_VIEW,
+  DEFAULT_LEADS_VIEW,
+  LEADS_VIEW_PARAMS,
+  buildViewLink,
+  callLogsViewFromParams,
+  callLogsViewToParams,
+  leadsViewFromParams,
+  leadsViewToParams,
+  replaceViewParams,
+  sortSavedViews,
+} from '../savedViews';
+import type { CallLogsViewState, SavedView } from '@/types/savedView';
+
+const makeView = (id: string, userId: string, name: string): SavedView => ({
+  id,
+  user_id: userId,
+  client_id: 'client-1',
+  page: 'leads',
+  name,
+  query: '',
+  shared: userId !== 'me',
+  created_at: '2025-08-26T00:00:00Z',
+  updated_at: '2025-08-26T00:00:00Z',
+});
+
+describe('call logs view params', () => {
+  it('round-trips a full view', () => {
+    const view: CallLogsViewState = {
+      search: 'trade in',
+      callType: 'all',
+      callKind: 'missed',
+      startDate: '2025-08-01',
+      endDate: '2025-08-15',
+      advanced: { minScore: 2, maxScore: 4, sentiment: 'negative', inquiryType: 'service', reviewRequired: true, minAdherence: 50 },
+      sortField: 'caller_full_name',
+      sortDirection: 'asc',
+    };
+
+    expect(callLogsViewFromParams(callLogsViewToParams(view))).toEqual(view);
+  });
+
+  it('always writes the call type but leaves out defaults', () => {
+    expect(callLogsViewToParams(DEFAULT_CALL_LOGS_VIEW).toString()).toBe('calls=live');
+  });
+
+  it('uses the fallback call type when the URL has none', () => {
+    expect(callLogsViewFromParams(new URLSearchParams(), 'test').callType).toBe('test');
+    expect(callLogsViewFromParams(new URLSearchParams('calls=all'), 'test').callType).toBe('all');
+  });
+
+  it('drops malformed values', () => {
+    const view = callLogsViewFromParams(new URLSearchParams(
+      'calls=nope&kind=fax&from=yesterday&to=2025-13-45&sort=transcript&dir=up&minScore=abc&sentiment=angry&maxScore=9'
+    ));
+
+    expect(view).toEqual({ ...DEFAULT_CALL_LOGS_VIEW, advanced: { maxScore: 5 } });
+  });
+});
+
+describe('leads view params', () => {
+  it('round-trips a full view', () => {
+    const view = {
+      search: 'Smith',
+      status: 'qualified',
+      source: 'ai_agent',
+      assignedToMe: true,
+      layout: 'board' as const,
+      sortField: 'score',
+      sortDirection: 'asc' as const,
+    };
+
+    expect(leadsViewFromParams(leadsViewToParams(view))).toEqual(view);
+  });
+
+  it('keeps the dashboard "My leads" link', () => {
+    expect(leadsViewFromParams(new URLSearchParams('assigned=me'))).toEqual({ ...DEFAULT_LEADS_VIEW, assignedToMe: true });
+    expect(leadsViewToParams(DEFAULT_LEADS_VIEW).toString()).toBe('');
+  });
+});
+
+describe('replaceViewParams', () => {
+  it('replaces view params and keeps the others', () => {
+    const next = replaceViewParams(
+      new URLSearchParams('lead=lead-1&q=old&status=new'),
+      new URLSearchParams('q=new'),
+      LEADS_VIEW_PARAMS
+    );
+
+    expect(next.toString()).toBe('lead=lead-1&q=new');
+  });
+});
+
+describe('buildViewLink', () => {
+  it('adds the query only when there is one', () => {
+    expect(buildViewLink('https://app.example.com', '/leads', new URLSearchParams('q=a b'))).toBe('https://app.example.com/leads?q=a+b');
+    expect(buildViewLink('https://app.example.com', '/leads', new URLSearchParams())).toBe('https://app.example.com/leads');
+  });
+});
+
+describe('sortSavedViews', () => {
+  it('lists own views first, then shared views, each by name', () => {
+    const sorted = sortSavedViews([
+      makeView('1', 'other', 'Alpha'),
+      makeView('2', 'me', 'Zulu'),
+      makeView('3', 'me', 'Bravo'),
+    ], 'me');
+
+    expect(sorted.map(view => view.id)).toEqual(['3', '2', '1']);
+  });
+});
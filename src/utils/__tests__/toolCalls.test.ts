@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyToolResult,
+  getArgumentBreakdown,
+  getToolStats,
+  hasArgumentValue,
+  pairToolCalls,
+  parseToolArguments,
+} from '../toolCalls';
+import type { ToolCallRow, ToolInvocation } from '@/types/toolCalls';
+
+const row = (overrides: Partial<ToolCallRow>): ToolCallRow => ({
+  id: 'tc-1',
+  call_id: 'call-1',
+  client_id: 'client-a',
+  role: 'tool_calls',
+  tool_name: 'search_inventory',
+  arguments: null,
+  result: null,
+  created_at: '2025-08-01T10:00:00Z',
+  clients: { name: 'Client A' },
+  ...overrides,
+});
+
+const invocation = (overrides: Partial<ToolInvocation>): ToolInvocation => ({
+  id: 'tc-1',
+  call_id: 'call-1',
+  client_id: 'client-a',
+  client_name: 'Client A',
+  tool_name: 'search_inventory',
+  arguments: null,
+  result: '[{"id": 1}]',
+  status: 'success',
+  created_at: '2025-08-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('parseToolArguments', () => {
+  it('reads objects, JSON strings and escaped JSON strings', () => {
+    expect(parseToolArguments({ make: 'Nissan' })).toEqual({ make: 'Nissan' });
+    expect(parseToolArguments('{"make": "Nissan"}')).toEqual({ make: 'Nissan' });
+    expect(parseToolArguments('{\\"make\\": \\"Nissan\\"}')).toEqual({ make: 'Nissan' });
+    expect(parseToolArguments('"{\\"make\\": \\"Nissan\\"}"')).toEqual({ make: 'Nissan' });
+  });
+
+  it('returns null for anything that is not a JSON object', () => {
+    expect(parseToolArguments(null)).toBeNull();
+    expect(parseToolArguments('not json')).toBeNull();
+    expect(parseToolArguments('[1, 2]')).toBeNull();
+  });
+});
+
+describe('classifyToolResult', () => {
+  it('treats a missing result as failed', () => {
+    expect(classifyToolResult(null)).toBe('failed');
+    expect(classifyToolResult(undefined)).toBe('failed');
+  });
+
+  it('detects empty results', () => {
+    expect(classifyToolResult('')).toBe('empty');
+    expect(classifyToolResult('null')).toBe('empty');
+    expect(classifyToolResult('[]')).toBe('empty');
+    expect(classifyToolResult('{}')).toBe('empty');
+    expect(classifyToolResult('{"count": 0, "vehicles": [{"id": 1}]}')).toBe('empty');
+    expect(classifyToolResult('{"vehicles": [], "message": "Try another model"}')).toBe('empty');
+    expect(classifyToolResult('No vehicles matching Pathfinder were found')).toBe('empty');
+  });
+
+  it('detects failures', () => {
+    expect(classifyToolResult('{"error": "Inventory API unavailable"}')).toBe('failed');
+    expect(classifyToolResult('{"success": false}')).toBe('failed');
+    expect(classifyToolResult('{"status": "error"}')).toBe('failed');
+    expect(classifyToolResult('Request timed out')).toBe('failed');
+  });
+
+  it('treats anything else as success', () => {
+    expect(classifyToolResult('[{"id": 1}]')).toBe('success');
+    expect(classifyToolResult('{"vehicles": [{"id": 1}]}')).toBe('success');
+    expect(classifyToolResult('Appointment booked for Tuesday at 3pm')).toBe('success');
+  });
+});
+
+describe('pairToolCalls', () => {
+  it('pairs calls with results by id, newest first', () => {
+    const invocations = pairToolCalls([
+      row({ id: 'tc-1', arguments: '{"make": "Nissan"}' }),
+      row({ id: 'tc-1', role: 'tool_call_result', tool_name: null, result: '[]' }),
+      row({ id: 'tc-2', tool_name: null, created_at: '2025-08-02T10:00:00Z' }),
+      row({ id: 'orphan', role: 'tool_call_result', result: '[{"id": 1}]' }),
+    ]);
+
+    expect(invocations.map(item => item.id)).toEqual(['tc-2', 'tc-1']);
+    expect(invocations[0]).toMatchObject({ tool_name: 'unknown', result: null, status: 'failed' });
+    expect(invocations[1]).toMatchObject({
+      client_name: 'Client A',
+      arguments: { make: 'Nissan' },
+      result: '[]',
+      status: 'empty',
+    });
+  });
+});
+
+describe('getToolStats', () => {
+  const invocations = [
+    invocation({ id: '1', call_id: 'call-1', status: 'empty' }),
+    invocation({ id: '2', call_id: 'call-1', status: 'success' }),
+    invocation({ id: '3', call_id: 'call-2', client_id: 'client-b', client_name: 'Client B', status: 'failed' }),
+    invocation({ id: '4', call_id: 'call-2', client_id: 'client-b', client_name: 'Client B', tool_name: 'book_appointment' }),
+  ];
+
+  it('counts invocations, calls and rates by tool, most used first', () => {
+    const stats = getToolStats(invocations);
+
+    expect(stats.map(item => item.tool_name)).toEqual(['search_inventory', 'book_appointment']);
+    expect(stats[0]).toMatchObject({
+      client_id: null,
+      invocations: 3,
+      calls: 2,
+      failed: 1,
+      empty: 1,
+      failureRate: 33.3,
+      emptyRate: 33.3,
+    });
+  });
+
+  it('splits each tool by client', () => {
+    const stats = getToolStats(invocations, true);
+
+    expect(stats).toHaveLength(3);
+    expect(stats[0]).toMatchObject({ tool_name: 'search_inventory', client_id: 'client-a', invocations: 2, emptyRate: 50 });
+    expect(stats.find(item => item.client_id === 'client-b' && item.tool_name === 'search_inventory'))
+      .toMatchObject({ client_name: 'Client B', failureRate: 100 });
+  });
+});
+
+describe('getArgumentBreakdown', () => {
+  const invocations = [
+    invocation({ id: '1', arguments: { make: 'Nissan', model: 'Pathfinder' }, status: 'empty' }),
+    invocation({ id: '2', arguments: { make: 'nissan' }, status: 'success' }),
+    invocation({ id: '3', arguments: { make: 'Honda', year: null }, status: 'failed' }),
+    invocation({ id: '4', tool_name: 'book_appointment', arguments: { make: 'Honda' } }),
+  ];
+
+  it('groups values case-insensitively with their empty and failed counts', () => {
+    const breakdown = getArgumentBreakdown(invocations, 'search_inventory');
+
+    expect(breakdown.map(item => item.key)).toEqual(['make', 'model']);
+    expect(breakdown[0]).toEqual({
+      key: 'make',
+      invocations: 3,
+      values: [
+        { value: 'Nissan', count: 2, empty: 1, failed: 0 },
+        { value: 'Honda', count: 1, empty: 0, failed: 1 },
+      ],
+    });
+  });
+
+  it('limits the values kept per argument', () => {
+    expect(getArgumentBreakdown(invocations, 'search_inventory', 1)[0].values).toHaveLength(1);
+  });
+
+  it('matches invocations back to a breakdown value', () => {
+    expect(hasArgumentValue(invocations[1], 'make', 'Nissan')).toBe(true);
+    expect(hasArgumentValue(invocations[2], 'make', 'Nissan')).toBe(false);
+    expect(hasArgumentValue(invocations[2], 'year', 'null')).toBe(false);
+  });
+});
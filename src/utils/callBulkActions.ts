@@ -0,0 +1,112 @@
+/**
+ * Utility functions for call bulk actions
+ * Tag parsing, building leads and CSV exports from calls, and result summaries
+ */
+import type { BulkOperationResult } from '@/types/admin';
+import type { CallBulkAction, CallExportRow, CallLeadSource } from '@/types/callBulkActions';
+import type { Lead } from '@/integrations/supabase/lead-service';
+import { escapeCsvCell } from './exportUtils';
+
+export const MAX_TAG_LENGTH = 40;
+
+export const CALL_BULK_ACTION_LABELS: Record<CallBulkAction, string> = {
+  mark_test: 'Mark as test',
+  mark_live: 'Mark as live',
+  flag_review: 'Flag for review',
+  clear_review: 'Clear review flag',
+  create_leads: 'Create leads',
+  add_tags: 'Add tags',
+  remove_tags: 'Remove tags',
+  export: 'Export with transcripts',
+};
+
+/**
+ * Read comma-separated tags as typed: trimmed, lowercase, without duplicates
+ */
+export function parseCallTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * A call's tags after adding or removing some, sorted
+ */
+export function applyTagChange(existing: string[] | null | undefined, tags: string[], action: 'add_tags' | 'remove_tags'): string[] {
+  const current = new Set(existing || []);
+  tags.forEach(tag => (action === 'add_tags' ? current.add(tag) : current.delete(tag)));
+  return [...current].sort();
+}
+
+/**
+ * Lead for a call that has none, from the caller's name and number
+ * @throws When the call has no caller number to follow up on
+ */
+export function buildLeadFromCall(call: CallLeadSource): Omit<Lead, 'id' | 'created_at'> {
+  const phone = call.caller_phone_number?.trim();
+  if (!phone) {
+    throw new Error('Call has no caller phone number');
+  }
+
+  return {
+    full_name: call.caller_full_name?.trim() || 'Unknown caller',
+    phone_number: phone,
+    from_phone_number: phone,
+    email: null,
+    lead_status: 'new',
+    source: 'direct_call',
+    call_id: call.id,
+    client_id: call.client_id,
+    call_time: call.call_start_time,
+  };
+}
+
+/**
+ * CSV of calls with their summaries and transcripts
+ * @param includeClient Add the client name (admins only)
+ */
+export function buildCallExportCsv(rows: CallExportRow[], includeClient = false): string {
+  const headers = ['Call ID', 'Started At', 'Caller', 'Phone Number', 'Call Type', 'Duration (s)', 'Outcome', 'Test Call', 'Tags', 'Summary', 'Transcript'];
+  if (includeClient) headers.splice(1, 0, 'Client');
+
+  const lines = rows.map(row => {
+    const cells: unknown[] = [
+      row.id,
+      row.call_start_time,
+      row.caller_full_name,
+      row.caller_phone_number,
+      row.call_type,
+      row.call_duration_seconds,
+      row.outcome,
+      row.is_test_call ? 'yes' : 'no',
+      (row.tags || []).join('; '),
+      row.call_summary,
+      row.transcript,
+    ];
+    if (includeClient) cells.splice(1, 0, row.clients?.name);
+    return cells.map(escapeCsvCell).join(',');
+  });
+
+  return [headers.join(','), ...lines].join('\n');
+}
+
+/**
+ * Split IDs into batches small enough for one `in` filter
+ */
+export function chunkIds(ids: string[], size: number): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * One-line summary of a bulk action, e.g. "8 calls updated, 2 failed"
+ */
+export function describeBulkResult(result: BulkOperationResult, verb = 'updated'): string {
+  const calls = `${result.processed} ${result.processed === 1 ? 'call' : 'calls'} ${verb}`;
+  return result.failed > 0 ? `${calls}, ${result.failed} failed` : calls;
+}
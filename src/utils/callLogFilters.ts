@@ -0,0 +1,144 @@
+/**
+ * Utility functions for server-side call log filters and cursor pagination
+ */
+import type { CallLogCursor, CallLogSort, CallLogsAdvancedFilters } from '@/types/callLogFilters';
+
+// call_intelligence.inquiry_type values
+export const INQUIRY_TYPE_OPTIONS = [
+  'general',
+  'purchase',
+  'service',
+  'parts',
+  'test_drive',
+  'finance',
+  'trade_in',
+  'other',
+];
+
+export const MIN_EVALUATION_SCORE = 1;
+export const MAX_EVALUATION_SCORE = 5;
+export const MIN_ADHERENCE_SCORE = 0;
+export const MAX_ADHERENCE_SCORE = 100;
+
+// Newest first
+export const DEFAULT_CALL_LOG_SORT: CallLogSort = { field: 'call_start_time', direction: 'desc' };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const clampRange = (
+  min: number | undefined,
+  max: number | undefined,
+  lowest: number,
+  highest: number
+): [number | undefined, number | undefined] => {
+  const clamp = (value: number | undefined) =>
+    value === undefined || !Number.isFinite(value) ? undefined : Math.min(Math.max(value, lowest), highest);
+  const from = clamp(min);
+  const to = clamp(max);
+  // A reversed range is read as the range between the two numbers
+  if (from !== undefined && to !== undefined && from > to) return [to, from];
+  return [from, to];
+};
+
+/**
+ * Keep only the filters that narrow the results, with scores clamped to their scales
+ * '__all__' selections and unchecked "review required" are dropped
+ */
+export function normalizeAdvancedFilters(filters: CallLogsAdvancedFilters | undefined): CallLogsAdvancedFilters {
+  if (!filters) return {};
+
+  const normalized: CallLogsAdvancedFilters = {};
+  const [minScore, maxScore] = clampRange(filters.minScore, filters.maxScore, MIN_EVALUATION_SCORE, MAX_EVALUATION_SCORE);
+  const [minAdherence, maxAdherence] = clampRange(filters.minAdherence, filters.maxAdherence, MIN_ADHERENCE_SCORE, MAX_ADHERENCE_SCORE);
+
+  if (minScore !== undefined) normalized.minScore = minScore;
+  if (maxScore !== undefined) normalized.maxScore = maxScore;
+  if (filters.sentiment && filters.sentiment !== '__all__') normalized.sentiment = filters.sentiment;
+  if (filters.inquiryType && filters.inquiryType !== '__all__') normalized.inquiryType = filters.inquiryType;
+  if (filters.reviewRequired) normalized.reviewRequired = true;
+  if (minAdherence !== undefined) normalized.minAdherence = minAdherence;
+  if (maxAdherence !== undefined) normalized.maxAdherence = maxAdherence;
+
+  return normalized;
+}
+
+/**
+ * Number of active advanced filters, for the filter button badge
+ */
+export function countAdvancedFilters(filters: CallLogsAdvancedFilters | undefined): number {
+  const normalized = normalizeAdvancedFilters(filters);
+  return (
+    (normalized.minScore !== undefined ? 1 : 0) +
+    (normalized.maxScore !== undefined ? 1 : 0) +
+    (normalized.sentiment ? 1 : 0) +
+    (normalized.inquiryType ? 1 : 0) +
+    (normalized.reviewRequired ? 1 : 0) +
+    (normalized.minAdherence !== undefined || normalized.maxAdherence !== undefined ? 1 : 0)
+  );
+}
+
+/**
+ * Related tables a calls query must inner join so the filters can be applied
+ * to them (PostgREST drops calls without a matching related row)
+ */
+export function getAdvancedFilterJoins(filters: CallLogsAdvancedFilters): string[] {
+  const joins: string[] = [];
+
+  if (filters.minScore !== undefined || filters.maxScore !== undefined || filters.sentiment || filters.reviewRequired) {
+    joins.push('lead_evaluations!inner(call_id)');
+  }
+  if (filters.inquiryType) {
+    joins.push('call_intelligence!inner(call_id)');
+  }
+  if (filters.minAdherence !== undefined || filters.maxAdherence !== undefined) {
+    joins.push('prompt_adherence_reviews!inner(call_id)');
+  }
+
+  return joins;
+}
+
+/**
+ * Encode the position after a call as an opaque cursor string
+ */
+export function encodeCallCursor(cursor: CallLogCursor): string {
+  return btoa(JSON.stringify([cursor.value, cursor.id]));
+}
+
+/**
+ * Read a cursor made by encodeCallCursor
+ * @returns null when the cursor is malformed
+ */
+export function decodeCallCursor(value: string | null | undefined): CallLogCursor | null {
+  if (!value) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(atob(value));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+
+    // Keep the sort value as the database sent it: timestamp microseconds matter for ties
+    const [sortValue, id] = parsed;
+    if (sortValue !== null && typeof sortValue !== 'string') return null;
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+
+    return { value: sortValue, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PostgREST `.or()` filter for the calls after a cursor in the given order
+ * (ties are broken by id, and calls without a value come last)
+ */
+export function buildCursorFilter(cursor: CallLogCursor, sort: CallLogSort = DEFAULT_CALL_LOG_SORT): string {
+  const { field } = sort;
+  const after = sort.direction === 'asc' ? 'gt' : 'lt';
+  const idAfter = `id.${after}.${cursor.id}`;
+
+  if (cursor.value === null) {
+    return `and(${field}.is.null,${idAfter})`;
+  }
+
+  const value = `"${cursor.value.replace(/["\\]/g, '\\$&')}"`;
+  return `${field}.${after}.${value},and(${field}.eq.${value},${idAfter}),${field}.is.null`;
+}
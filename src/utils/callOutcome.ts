@@ -0,0 +1,119 @@
+/**
+ * Utility functions for call outcomes
+ * Outcomes are classified in the database (calls.outcome); these helpers only
+ * label and count them, so every widget reports the same numbers
+ */
+import type {
+  CallOutcome,
+  CallOutcomeCounts,
+  CallOutcomeFunnelStage,
+  CallOutcomeShare,
+  CallStatus,
+} from '@/types/callOutcome';
+
+// Best result first; the order of charts and legends
+export const CALL_OUTCOMES: CallOutcome[] = [
+  'appointment_booked',
+  'lead_captured',
+  'transferred',
+  'completed',
+  'voicemail',
+  'hang_up',
+  'failed',
+  'spam',
+];
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  appointment_booked: 'Appointment booked',
+  lead_captured: 'Lead captured',
+  transferred: 'Transferred',
+  completed: 'Answered, no lead',
+  voicemail: 'Voicemail',
+  hang_up: 'Hang-up',
+  failed: 'Failed',
+  spam: 'Spam',
+};
+
+export const CALL_OUTCOME_COLORS: Record<CallOutcome, string> = {
+  appointment_booked: '#10b981', // Green
+  lead_captured: '#3b82f6',      // Blue
+  transferred: '#f59e0b',        // Orange
+  completed: '#a78bfa',          // Light purple
+  voicemail: '#8b5cf6',          // Purple
+  hang_up: '#6b7280',            // Grey
+  failed: '#ef4444',             // Red
+  spam: '#9ca3af',               // Light grey
+};
+
+// Outcomes that produced a lead
+export const LEAD_OUTCOMES: CallOutcome[] = ['appointment_booked', 'lead_captured'];
+
+// Outcomes where nobody had a conversation with the agent
+const NO_CONVERSATION_OUTCOMES: CallOutcome[] = ['voicemail', 'hang_up', 'failed', 'spam'];
+
+/**
+ * Read a stored outcome
+ * @returns null for calls that haven't been classified
+ */
+export function readCallOutcome(value: string | null | undefined): CallOutcome | null {
+  return CALL_OUTCOMES.includes(value as CallOutcome) ? (value as CallOutcome) : null;
+}
+
+/**
+ * Count calls by outcome; unclassified calls are left out
+ */
+export function countCallOutcomes(calls: { outcome?: string | null }[]): CallOutcomeCounts {
+  const counts = Object.fromEntries(CALL_OUTCOMES.map(outcome => [outcome, 0])) as CallOutcomeCounts;
+
+  calls.forEach(call => {
+    const outcome = readCallOutcome(call.outcome);
+    if (outcome) counts[outcome] += 1;
+  });
+
+  return counts;
+}
+
+/**
+ * Count calls with a stored status
+ */
+export function countCallsWithStatus(calls: { status?: string | null }[], status: CallStatus): number {
+  return calls.filter(call => call.status === status).length;
+}
+
+/**
+ * Outcomes that occurred, with their share of all classified calls
+ */
+export function getCallOutcomeShares(counts: CallOutcomeCounts): CallOutcomeShare[] {
+  const total = CALL_OUTCOMES.reduce((sum, outcome) => sum + counts[outcome], 0);
+
+  return CALL_OUTCOMES
+    .filter(outcome => counts[outcome] > 0)
+    .map(outcome => ({
+      outcome,
+      label: CALL_OUTCOME_LABELS[outcome],
+      count: counts[outcome],
+      percentage: total > 0 ? Math.round((counts[outcome] / total) * 1000) / 10 : 0,
+    }));
+}
+
+/**
+ * Call to appointment funnel: all calls, conversations, leads, appointments
+ */
+export function buildCallOutcomeFunnel(counts: CallOutcomeCounts): CallOutcomeFunnelStage[] {
+  const total = CALL_OUTCOMES.reduce((sum, outcome) => sum + counts[outcome], 0);
+  const noConversation = NO_CONVERSATION_OUTCOMES.reduce((sum, outcome) => sum + counts[outcome], 0);
+  const leads = LEAD_OUTCOMES.reduce((sum, outcome) => sum + counts[outcome], 0);
+
+  const stage = (name: string, value: number): CallOutcomeFunnelStage => ({
+    name,
+    value,
+    percentage: total > 0 ? Math.round((value / total) * 1000) / 10 : 0,
+  });
+
+  return [
+    stage('Total Calls', total),
+    stage('Conversations', total - noConversation),
+    stage('Leads Captured', leads),
+    stage('Appointments Booked', counts.appointment_booked),
+  ];
+}
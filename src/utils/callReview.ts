@@ -0,0 +1,167 @@
+/**
+ * Utility functions for the human review queue
+ * Ranks flagged calls by priority and checks reviewer verdicts
+ */
+import type {
+  CallReview,
+  CallReviewEvaluation,
+  CallReviewPriority,
+  CallReviewQueueStats,
+  CallReviewVerdict,
+  CorrectedScores,
+  ReviewScoreField,
+} from '@/types/callReview';
+
+export const REVIEW_VERDICT_LABELS: Record<CallReviewVerdict, string> = {
+  agent_error: 'Agent error',
+  no_issue: 'No issue',
+  evaluation_error: 'Evaluation wrong',
+};
+
+export const REVIEW_VERDICT_DESCRIPTIONS: Record<CallReviewVerdict, string> = {
+  agent_error: 'The agent handled the call badly; the flag was right',
+  no_issue: 'The call was fine; the flag was a false alarm',
+  evaluation_error: 'The evaluation scored the call wrongly; corrected scores below',
+};
+
+export const REVIEW_PRIORITY_LABELS: Record<CallReviewPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const REVIEW_SCORE_FIELDS: { field: ReviewScoreField; label: string }[] = [
+  { field: 'lead_completion_score', label: 'Lead Completion' },
+  { field: 'clarity_politeness_score', label: 'Clarity & Politeness' },
+  { field: 'relevance_questions_score', label: 'Question Relevance' },
+  { field: 'objection_handling_score', label: 'Objection Handling' },
+  { field: 'naturalness_score', label: 'Naturalness' },
+  { field: 'lead_intent_score', label: 'Lead Intent' },
+  { field: 'failure_risk_score', label: 'Failure Risk' },
+];
+
+export const MIN_REVIEW_SCORE = 1;
+export const MAX_REVIEW_SCORE = 5;
+
+// Priority points at or above these are high / medium
+const HIGH_PRIORITY_POINTS = 60;
+const MEDIUM_PRIORITY_POINTS = 35;
+
+// Waiting reviews gain points each day so old flags don't sit at the bottom forever
+const POINTS_PER_DAY_WAITING = 3;
+const MAX_WAITING_POINTS = 21;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Rank a flagged call: failure risk, a negative call flag, negative sentiment and
+ * time spent waiting all raise its priority
+ */
+export function getReviewPriority(
+  review: Pick<CallReview, 'flagged_at' | 'evaluation'>,
+  now: Date = new Date()
+): { priority: CallReviewPriority; points: number } {
+  const evaluation = review.evaluation;
+  let points = 0;
+
+  if (evaluation) {
+    points += Math.min(Math.max(evaluation.failure_risk_score ?? 0, 0), MAX_REVIEW_SCORE) * 10;
+    if (evaluation.negative_call_flag) points += 20;
+    if (evaluation.sentiment === 'negative') points += 10;
+  }
+
+  const daysWaiting = Math.max(0, (now.getTime() - new Date(review.flagged_at).getTime()) / (24 * HOUR_MS));
+  points += Math.min(Math.floor(daysWaiting) * POINTS_PER_DAY_WAITING, MAX_WAITING_POINTS);
+
+  const priority: CallReviewPriority = points >= HIGH_PRIORITY_POINTS
+    ? 'high'
+    : points >= MEDIUM_PRIORITY_POINTS ? 'medium' : 'low';
+
+  return { priority, points };
+}
+
+/**
+ * Sort reviews for the queue: unresolved first, then highest priority, then oldest flag
+ */
+export function sortReviewsByPriority<T extends Pick<CallReview, 'status' | 'flagged_at' | 'evaluation'>>(
+  reviews: T[],
+  now: Date = new Date()
+): T[] {
+  const points = new Map(reviews.map(review => [review, getReviewPriority(review, now).points]));
+  return [...reviews].sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'unresolved' ? -1 : 1;
+    const byPoints = (points.get(b) ?? 0) - (points.get(a) ?? 0);
+    if (byPoints !== 0) return byPoints;
+    return new Date(a.flagged_at).getTime() - new Date(b.flagged_at).getTime();
+  });
+}
+
+/**
+ * Keep only the scores the reviewer actually changed from the evaluation
+ */
+export function pickCorrectedScores(
+  scores: CorrectedScores,
+  evaluation: CallReviewEvaluation | null | undefined
+): CorrectedScores {
+  const corrected: CorrectedScores = {};
+  REVIEW_SCORE_FIELDS.forEach(({ field }) => {
+    const score = scores[field];
+    if (score !== undefined && score !== evaluation?.[field]) {
+      corrected[field] = score;
+    }
+  });
+  return corrected;
+}
+
+/**
+ * Check a verdict can be saved
+ * @returns Error messages (empty when valid)
+ */
+export function validateReviewVerdict(
+  verdict: CallReviewVerdict | null,
+  correctedScores: CorrectedScores,
+  comments: string | null
+): string[] {
+  const errors: string[] = [];
+
+  if (!verdict) {
+    errors.push('Choose a verdict');
+  }
+
+  REVIEW_SCORE_FIELDS.forEach(({ field, label }) => {
+    const score = correctedScores[field];
+    if (score !== undefined && (!Number.isInteger(score) || score < MIN_REVIEW_SCORE || score > MAX_REVIEW_SCORE)) {
+      errors.push(`${label} must be a whole number from ${MIN_REVIEW_SCORE} to ${MAX_REVIEW_SCORE}`);
+    }
+  });
+
+  if (verdict === 'evaluation_error' && Object.keys(correctedScores).length === 0 && !comments?.trim()) {
+    errors.push('Correct at least one score or explain what the evaluation got wrong');
+  }
+
+  return errors;
+}
+
+/**
+ * Size and age of the unresolved queue
+ */
+export function getReviewQueueStats(
+  reviews: Pick<CallReview, 'status' | 'assigned_to' | 'flagged_at' | 'evaluation'>[],
+  now: Date = new Date()
+): CallReviewQueueStats {
+  const open = reviews.filter(review => review.status === 'unresolved');
+  if (open.length === 0) {
+    return { unresolved: 0, unclaimed: 0, highPriority: 0, oldestFlaggedAt: null, averageAgeHours: null };
+  }
+
+  const flaggedTimes = open.map(review => new Date(review.flagged_at).getTime());
+  const totalAgeMs = flaggedTimes.reduce((sum, time) => sum + Math.max(0, now.getTime() - time), 0);
+
+  return {
+    unresolved: open.length,
+    unclaimed: open.filter(review => !review.assigned_to).length,
+    highPriority: open.filter(review => getReviewPriority(review, now).priority === 'high').length,
+    oldestFlaggedAt: new Date(Math.min(...flaggedTimes)).toISOString(),
+    averageAgeHours: Math.round((totalAgeMs / open.length / HOUR_MS) * 10) / 10,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Utility functions for call search
+ * Escapes user input for PostgREST filters and splits highlighted snippets
+ */
+import type { CallSearchMatch, SnippetSegment } from '@/types/callSearch';
+
+// Shorter terms match too much of every transcript to be useful
+export const MIN_CALL_SEARCH_LENGTH = 2;
+
+// Markers search_calls puts around matched words (ts_headline StartSel / StopSel)
+export const SNIPPET_HIGHLIGHT_START = '[[';
+export const SNIPPET_HIGHLIGHT_END = ']]';
+
+/**
+ * Escape a term for use inside a LIKE / ILIKE pattern so %, _ and \ match literally
+ * PostgREST also treats * as a wildcard; it is turned into _ (any one character)
+ */
+export function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '_');
+}
+
+/**
+ * Build a PostgREST `.or()` filter matching a term anywhere in any of the columns
+ * The pattern is double-quoted so commas, dots and parentheses in the term can't
+ * change the filter
+ */
+export function buildIlikeOrFilter(columns: string[], term: string): string {
+  const pattern = `%${escapeLikePattern(term.trim())}%`;
+  const quoted = `"${pattern.replace(/["\\]/g, '\\$&')}"`;
+  return columns.map(column => `${column}.ilike.${quoted}`).join(',');
+}
+
+/**
+ * Whether a search term is long enough to send to the server
+ */
+export function isSearchableTerm(term: string | null | undefined): term is string {
+  return (term?.trim().length ?? 0) >= MIN_CALL_SEARCH_LENGTH;
+}
+
+/**
+ * Split a search snippet into plain and highlighted segments
+ * Unmatched markers are kept as plain text
+ */
+export function splitSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SNIPPET_HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(SNIPPET_HIGHLIGHT_END, start + SNIPPET_HIGHLIGHT_START.length);
+
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    const match = rest.slice(start + SNIPPET_HIGHLIGHT_START.length, end);
+    if (match) {
+      segments.push({ text: match, highlighted: true });
+    }
+    rest = rest.slice(end + SNIPPET_HIGHLIGHT_END.length);
+  }
+
+  // Join neighbouring segments of the same kind (e.g. two adjacent highlighted words)
+  return segments.reduce<SnippetSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.highlighted === segment.highlighted) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * The snippet to show for a match: the transcript excerpt when the transcript
+ * matched, otherwise the summary excerpt
+ */
+export function getMatchSnippet(match: CallSearchMatch | undefined): { source: 'transcript' | 'summary'; snippet: string } | null {
+  if (match?.transcript_snippet) return { source: 'transcript', snippet: match.transcript_snippet };
+  if (match?.summary_snippet) return { source: 'summary', snippet: match.summary_snippet };
+  return null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Utility functions for call spam detection
+ * Calls are scored in the database (calls.spam_score and calls.spam_signals); these
+ * helpers label the signals and explain the stored verdict
+ */
+import type { SpamFields, SpamSignal, SpamVerdict } from '@/types/callSpam';
+
+// A call scoring this much or more is spam, unless a user says otherwise
+export const SPAM_SCORE_THRESHOLD = 60;
+
+// Strongest signal first; weights match score_spam_call
+export const SPAM_SIGNAL_WEIGHTS: Record<SpamSignal, number> = {
+  instant_hang_up: 60,
+  robocall_script: 60,
+  repeat_caller: 30,
+  caller_never_spoke: 30,
+  silent_hang_up: 20,
+  hidden_caller_id: 10,
+};
+
+export const SPAM_SIGNAL_LABELS: Record<SpamSignal, string> = {
+  instant_hang_up: 'Hung up within 3 seconds',
+  robocall_script: 'Robocall script in transcript',
+  repeat_caller: 'Called 4+ times in 24 hours',
+  caller_never_spoke: 'Caller never spoke',
+  silent_hang_up: 'Line went silent',
+  hidden_caller_id: 'Hidden caller ID',
+};
+
+const isSpamSignal = (value: string): value is SpamSignal => value in SPAM_SIGNAL_WEIGHTS;
+
+/**
+ * Read stored signals, strongest first; unknown signals are skipped
+ */
+export function readSpamSignals(signals: string[] | null | undefined): SpamSignal[] {
+  return (signals || [])
+    .filter(isSpamSignal)
+    .sort((a, b) => SPAM_SIGNAL_WEIGHTS[b] - SPAM_SIGNAL_WEIGHTS[a]);
+}
+
+/**
+ * Explain a call's spam verdict: whether it is spam, and whether the score or a user decided
+ */
+export function getSpamVerdict(call: SpamFields): SpamVerdict {
+  const hasOverride = call.spam_override !== null && call.spam_override !== undefined;
+  return {
+    isSpam: call.is_spam ?? false,
+    source: hasOverride ? 'override' : 'score',
+    score: call.spam_score ?? 0,
+    signals: readSpamSignals(call.spam_signals),
+    overriddenAt: hasOverride ? call.spam_overridden_at ?? null : null,
+  };
+}
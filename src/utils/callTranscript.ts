@@ -0,0 +1,128 @@
+/**
+ * Utility functions for call transcripts
+ * Parses calls.transcript into speaker turns and finds the turn playing at a given
+ * point of the recording
+ */
+import type { TranscriptMatch, TranscriptSpeaker, TranscriptTurn } from '@/types/callTranscript';
+
+export const TRANSCRIPT_SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  agent: 'AI Agent',
+  customer: 'Customer',
+  unknown: 'Unknown',
+};
+
+// Speaker prefixes used by the voice platforms we receive transcripts from
+const SPEAKER_ALIASES: Record<string, TranscriptSpeaker> = {
+  ai: 'agent',
+  agent: 'agent',
+  assistant: 'agent',
+  bot: 'agent',
+  user: 'customer',
+  customer: 'customer',
+  caller: 'customer',
+  human: 'customer',
+};
+
+const TIMESTAMP = '(\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\.\\d+)?)';
+
+// "AI: Hi", "[0:12] AI: Hi", "0:12 AI: Hi" or "AI (0:12): Hi"
+const TURN_PATTERN = new RegExp(
+  `^\\s*(?:[\\[(]${TIMESTAMP}[\\])]\\s*|${TIMESTAMP}\\s+)?` +
+  `(${Object.keys(SPEAKER_ALIASES).join('|')})` +
+  `\\s*(?:[\\[(]${TIMESTAMP}[\\])])?\\s*:\\s*(.*)$`,
+  'i'
+);
+
+/**
+ * Convert "m:ss" or "h:mm:ss" (optionally with fractions) to seconds
+ */
+export function parseTimestamp(value: string): number {
+  return value
+    .split(':')
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/**
+ * Split a transcript into speaker turns
+ * Lines without a speaker prefix continue the previous turn. When the transcript has
+ * no timestamps and the recording length is known, start times are estimated from
+ * how much text comes before each turn
+ * @param transcript The raw calls.transcript text
+ * @param durationSeconds Length of the recording, used for estimated start times
+ */
+export function parseTranscript(transcript: string | null | undefined, durationSeconds?: number | null): TranscriptTurn[] {
+  if (!transcript?.trim()) return [];
+
+  const turns: TranscriptTurn[] = [];
+
+  transcript.split(/\r?\n/).forEach(line => {
+    const match = line.match(TURN_PATTERN);
+    if (match) {
+      const timestamp = match[1] || match[2] || match[4];
+      turns.push({
+        index: turns.length,
+        speaker: SPEAKER_ALIASES[match[3].toLowerCase()],
+        text: match[5].trim(),
+        start: timestamp ? parseTimestamp(timestamp) : null,
+        estimated: false,
+      });
+      return;
+    }
+
+    const text = line.trim();
+    if (!text) return;
+
+    const previous = turns[turns.length - 1];
+    if (previous) {
+      previous.text = previous.text ? `${previous.text} ${text}` : text;
+    } else {
+      turns.push({ index: 0, speaker: 'unknown', text, start: null, estimated: false });
+    }
+  });
+
+  const hasTimestamps = turns.some(turn => turn.start !== null);
+  if (!hasTimestamps && durationSeconds && durationSeconds > 0) {
+    const totalLength = turns.reduce((sum, turn) => sum + turn.text.length, 0);
+    let lengthBefore = 0;
+    turns.forEach(turn => {
+      turn.start = totalLength > 0 ? (lengthBefore / totalLength) * durationSeconds : 0;
+      turn.estimated = true;
+      lengthBefore += turn.text.length;
+    });
+  }
+
+  return turns;
+}
+
+/**
+ * Index of the turn playing at a point of the recording
+ * @returns -1 before the first timed turn or when no turn has a start time
+ */
+export function findActiveTurnIndex(turns: TranscriptTurn[], currentTime: number): number {
+  let active = -1;
+  turns.forEach(turn => {
+    if (turn.start !== null && turn.start <= currentTime) {
+      active = turn.index;
+    }
+  });
+  return active;
+}
+
+/**
+ * Find every case-insensitive occurrence of a search term, in transcript order
+ */
+export function findTranscriptMatches(turns: TranscriptTurn[], query: string): TranscriptMatch[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+
+  const matches: TranscriptMatch[] = [];
+  turns.forEach(turn => {
+    const text = turn.text.toLowerCase();
+    let offset = text.indexOf(term);
+    while (offset !== -1) {
+      matches.push({ turnIndex: turn.index, offset, length: term.length });
+      offset = text.indexOf(term, offset + term.length);
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,349 @@
+/**
+ * Utility functions for callback scheduling
+ * Turns the free-text callback timing captured on a call ("tomorrow after 3")
+ * into a datetime in the client's timezone, and works out due/overdue state
+ */
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+// Clients without a configured timezone (config_json.timezone) use Eastern time, like the dashboard
+export const DEFAULT_CLIENT_TIMEZONE = 'America/New_York';
+
+// Hour used when the caller gave a day but no time (e.g. "Thursday")
+export const DEFAULT_CALLBACK_HOUR = 10;
+
+// Callbacks due within this many hours are shown as "due"
+export const CALLBACK_DUE_SOON_HOURS = 24;
+
+export const CALLBACK_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'America/St_Johns', label: 'Newfoundland' },
+  { value: 'America/Halifax', label: 'Atlantic' },
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Regina', label: 'Saskatchewan' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Vancouver', label: 'Pacific' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+];
+
+export type CallbackState = 'overdue' | 'due' | 'scheduled' | 'done';
+
+export interface ZonedDateTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Whether a string is an IANA timezone this browser knows
+ */
+export function isValidTimezone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the client's timezone from config_json, falling back to Eastern time
+ */
+export function getClientTimezone(configJson: unknown): string {
+  const timeZone = (configJson as { timezone?: unknown } | null | undefined)?.timezone;
+  return isValidTimezone(timeZone) ? timeZone : DEFAULT_CLIENT_TIMEZONE;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function toZonedTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+  };
+}
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+const getTimezoneOffset = (date: Date, timeZone: string): number => {
+  const zoned = toZonedTime(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+};
+
+/**
+ * The instant at which a wall-clock time occurs in a timezone
+ * Day and month overflow roll over (day 32 is the 1st of the next month)
+ */
+export function fromZonedTime(
+  parts: Pick<ZonedDateTime, 'year' | 'month' | 'day' | 'hour' | 'minute'>,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const firstGuess = wallClock - getTimezoneOffset(new Date(wallClock), timeZone);
+  // Re-check the offset at the guessed instant in case it falls across a DST change
+  return new Date(wallClock - getTimezoneOffset(new Date(firstGuess), timeZone));
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30, 'forty five': 45,
+};
+
+const WEEKDAY_PATTERN = /\b(next\s+)?(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|rsday|urday|sday)?\b/;
+const WEEKDAY_PREFIXES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Parts of the day a caller might name, and the hour we call back
+const DAY_PERIODS: [RegExp, number][] = [
+  [/\b(morning|a\.?m\.?\s*sometime)\b/, 9],
+  [/\b(noon|lunch|midday)\b/, 12],
+  [/\bafternoon\b/, 13],
+  [/\b(end of (the )?day|eod|after work)\b/, 16],
+  [/\b(evening|tonight)\b/, 18],
+];
+
+/**
+ * Find the time of day in callback text, as [hour, minute]
+ * "after 3" or "at 5" without am/pm are read as business hours (1-7 -> pm)
+ */
+const parseTimeOfDay = (text: string): [number, number] | null => {
+  const withMeridiem = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|$|[^a-z])/);
+  if (withMeridiem) {
+    let hour = Number(withMeridiem[1]) % 12;
+    if (withMeridiem[3].startsWith('p')) hour += 12;
+    return hour < 24 ? [hour, Number(withMeridiem[2] ?? 0)] : null;
+  }
+
+  const bare = text.match(/\b(at|after|around|about|by|before|@)\s*(\d{1,2})(?::(\d{2}))?\b(?!\s*(hour|hr|min|day|week))/);
+  if (bare) {
+    let hour = Number(bare[2]);
+    const minute = Number(bare[3] ?? 0);
+    if (hour > 23 || minute > 59) return null;
+    if (hour >= 1 && hour <= 7) hour += 12;
+    if (bare[1] === 'before') hour -= 1;
+    return [hour, minute];
+  }
+
+  const clock = text.match(/\b(\d{1,2}):(\d{2})\b/);
+  if (clock) {
+    let hour = Number(clock[1]);
+    if (hour >= 1 && hour <= 7) hour += 12;
+    return hour < 24 ? [hour, Number(clock[2])] : null;
+  }
+
+  for (const [pattern, hour] of DAY_PERIODS) {
+    if (pattern.test(text)) return [hour, 0];
+  }
+
+  return null;
+};
+
+/**
+ * Find the day in callback text as a number of days after the reference day
+ */
+const parseDayOffset = (text: string, reference: ZonedDateTime): number | null => {
+  if (/\bday after tomorrow\b/.test(text)) return 2;
+  if (/\b(tomorrow|tmrw|tmr|tomorow)\b/.test(text)) return 1;
+  if (/\b(today|tonight|this (morning|afternoon|evening)|later)\b/.test(text)) return 0;
+  if (/\bnext week\b/.test(text)) return ((8 - reference.weekday) % 7) || 7; // Next Monday
+  if (/\b(this )?weekend\b/.test(text)) return ((6 - reference.weekday + 7) % 7) || 7; // Next Saturday
+
+  const weekday = text.match(WEEKDAY_PATTERN);
+  if (weekday) {
+    const target = WEEKDAY_PREFIXES.indexOf(weekday[2].slice(0, 3));
+    return ((target - reference.weekday + 7) % 7) || 7;
+  }
+
+  // "July 20", "20 July" or "7/20"
+  const monthDay = text.match(/\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b/)
+    ?? text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]{3})[a-z]*\b/);
+  const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\b/);
+  let month: number | null = null;
+  let day: number | null = null;
+
+  if (monthDay) {
+    const [first, second] = monthDay.slice(1, 3);
+    const monthIndex = MONTHS.indexOf(isNaN(Number(first)) ? first : second);
+    if (monthIndex >= 0) {
+      month = monthIndex + 1;
+      day = Number(isNaN(Number(first)) ? second : first);
+    }
+  } else if (numeric) {
+    month = Number(numeric[1]);
+    day = Number(numeric[2]);
+  }
+
+  if (month && day && month <= 12 && day <= 31) {
+    const referenceDay = Date.UTC(reference.year, reference.month - 1, reference.day);
+    let target = Date.UTC(reference.year, month - 1, day);
+    if (target < referenceDay) target = Date.UTC(reference.year + 1, month - 1, day);
+    return Math.round((target - referenceDay) / (24 * HOUR_MS));
+  }
+
+  return null;
+};
+
+/**
+ * Parse captured callback timing into the datetime to call the customer back
+ * The database schedules captured timing with parse_callback_timing(), a port
+ * of this function; change both together
+ * @param text Free text from leads.callback_timing_value (e.g. "tomorrow after 3")
+ * @param reference When the customer called; relative phrases count from here
+ * @param timeZone The client's timezone; times like "3pm" are local to the dealership
+ * @returns The scheduled callback time, or null when no day or time can be found
+ * @example parseCallbackTiming('tomorrow after 3', callTime, 'America/Toronto')
+ */
+export function parseCallbackTiming(
+  text: string | null | undefined,
+  reference: Date,
+  timeZone: string = DEFAULT_CLIENT_TIMEZONE
+): Date | null {
+  const normalized = text?.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!normalized || isNaN(reference.getTime())) return null;
+
+  if (/\b(asap|as soon as possible|right away|immediately|any ?time)\b/.test(normalized)) {
+    return new Date(reference.getTime());
+  }
+
+  // "in 2 hours", "in an hour", "in 30 minutes", "in 3 days"
+  const relative = normalized.match(/\bin (\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|fifteen|twenty|thirty|forty five) (min|minute|hr|hour|day|week)s?\b/);
+  if (relative) {
+    const amount = Number(relative[1]) || NUMBER_WORDS[relative[1]];
+    const unit = relative[2].startsWith('min') ? MINUTE_MS
+      : relative[2] === 'hr' || relative[2] === 'hour' ? HOUR_MS
+      : relative[2] === 'day' ? 24 * HOUR_MS
+      : 7 * 24 * HOUR_MS;
+    return new Date(reference.getTime() + amount * unit);
+  }
+
+  const zonedReference = toZonedTime(reference, timeZone);
+  const dayOffset = parseDayOffset(normalized, zonedReference);
+  const time = parseTimeOfDay(normalized);
+
+  if (dayOffset === null && !time) return null;
+
+  // "today" or "later" with no time: an hour after the call
+  if (dayOffset === 0 && !time) {
+    return new Date(reference.getTime() + HOUR_MS);
+  }
+
+  const [hour, minute] = time ?? [DEFAULT_CALLBACK_HOUR, 0];
+  const scheduled = fromZonedTime({
+    year: zonedReference.year,
+    month: zonedReference.month,
+    day: zonedReference.day + (dayOffset ?? 0),
+    hour,
+    minute,
+  }, timeZone);
+
+  // A time on its own ("after 3") that has already passed means the next day
+  if (dayOffset === null && scheduled.getTime() <= reference.getTime()) {
+    return fromZonedTime({
+      year: zonedReference.year,
+      month: zonedReference.month,
+      day: zonedReference.day + 1,
+      hour,
+      minute,
+    }, timeZone);
+  }
+
+  return scheduled;
+}
+
+/**
+ * Due state of a lead's scheduled callback
+ * @returns null when no callback is scheduled
+ */
+export function getCallbackState(
+  lead: Pick<Lead, 'callback_scheduled_at' | 'callback_completed_at'>,
+  now: Date = new Date()
+): CallbackState | null {
+  if (!lead.callback_scheduled_at) return null;
+  if (lead.callback_completed_at) return 'done';
+
+  const scheduled = new Date(lead.callback_scheduled_at).getTime();
+  if (isNaN(scheduled)) return null;
+  if (scheduled <= now.getTime()) return 'overdue';
+  if (scheduled - now.getTime() <= CALLBACK_DUE_SOON_HOURS * HOUR_MS) return 'due';
+  return 'scheduled';
+}
+
+/**
+ * Format a datetime-local input value ("2025-07-16T15:00") for an instant in a timezone
+ */
+export function toDateTimeLocalValue(date: Date, timeZone: string): string {
+  const zoned = toZonedTime(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${zoned.year}-${pad(zoned.month)}-${pad(zoned.day)}T${pad(zoned.hour)}:${pad(zoned.minute)}`;
+}
+
+/**
+ * Read a datetime-local input value as wall-clock time in a timezone
+ */
+export function fromDateTimeLocalValue(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return fromZonedTime({ year, month, day, hour, minute }, timeZone);
+}
+
+/**
+ * Display a callback time in the client's timezone ("Wed, Jul 16, 3:00 PM EDT")
+ */
+export function formatCallbackTime(value: string | Date, timeZone: string = DEFAULT_CLIENT_TIMEZONE): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (isNaN(date.getTime())) return 'Unknown time';
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+/**
+ * Whether a 'callback_reminder' notification is meant for a user
+ * Reminders go to the lead's assignee; unassigned leads remind all of the client's staff.
+ * Admins with system-wide access only see reminders for leads assigned to them.
+ */
+export function isCallbackReminderForUser(
+  notification: { client_id?: string | null; payload?: { assigned_to?: string | null } | null },
+  user: { id: string; client_id?: string | null },
+  hasSystemWideAccess: boolean
+): boolean {
+  const assignedTo = notification.payload?.assigned_to;
+  if (assignedTo) return assignedTo === user.id;
+  return !hasSystemWideAccess && !!user.client_id && user.client_id === notification.client_id;
+}
@@ -0,0 +1,169 @@
+/**
+ * Utility functions for caller history
+ * Builds a caller's profile from their calls and leads within one client, and
+ * groups caller search matches by number
+ */
+import type {
+  CallerHistory,
+  CallerHistoryCall,
+  CallerHistoryLead,
+  CallerInquiryCount,
+  CallerSearchResult,
+  CallerSentiment,
+  CallerSentimentPoint,
+} from '@/types/callerHistory';
+import { normalizePhone } from '@/utils/leadDuplicates';
+
+const SENTIMENT_VALUES: Record<CallerSentiment, number> = {
+  positive: 1,
+  neutral: 0,
+  negative: -1,
+};
+
+export const CALLER_SENTIMENT_LABELS: Record<CallerSentiment, string> = {
+  positive: 'Positive',
+  neutral: 'Neutral',
+  negative: 'Negative',
+};
+
+// Digits needed before a search term is matched against phone numbers
+const MIN_PHONE_SEARCH_DIGITS = 3;
+
+/**
+ * Link to a caller's history page
+ */
+export function getCallerHistoryPath(phone: string, clientId: string): string {
+  const params = new URLSearchParams({ phone: normalizePhone(phone), client: clientId });
+  return `/callers?${params.toString()}`;
+}
+
+/**
+ * Read a caller search term as a phone number (3+ digits) or a name (2+ characters)
+ * @returns null when the term is too short to search
+ */
+export function readCallerSearchTerm(term: string): { phoneDigits: string } | { name: string } | null {
+  const trimmed = term.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  // Only numbers that look like phone numbers (digits and formatting) search by phone
+  if (digits.length >= MIN_PHONE_SEARCH_DIGITS && /^[\d\s()+.-]+$/.test(trimmed)) {
+    return { phoneDigits: digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits };
+  }
+  return trimmed.length >= 2 ? { name: trimmed } : null;
+}
+
+/**
+ * Count a caller's calls in the days before a point in time
+ * @param excludeCallId Leave out the call being viewed
+ */
+export function countRecentCalls(
+  calls: Pick<CallerHistoryCall, 'id' | 'call_start_time'>[],
+  days: number,
+  now: Date = new Date(),
+  excludeCallId?: string
+): number {
+  const since = now.getTime() - days * 24 * 60 * 60 * 1000;
+  return calls.filter(call => {
+    const time = new Date(call.call_start_time).getTime();
+    return call.id !== excludeCallId && time >= since && time <= now.getTime();
+  }).length;
+}
+
+/**
+ * Sentiment of each evaluated call, oldest first
+ */
+export function getSentimentTrend(calls: CallerHistoryCall[]): CallerSentimentPoint[] {
+  return calls
+    .filter((call): call is CallerHistoryCall & { sentiment: CallerSentiment } => !!call.sentiment && call.sentiment in SENTIMENT_VALUES)
+    .map(call => ({ date: call.call_start_time, sentiment: call.sentiment, value: SENTIMENT_VALUES[call.sentiment] }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * How often the caller asked about each inquiry type, most common first
+ */
+export function getInquiryTypeCounts(calls: CallerHistoryCall[]): CallerInquiryCount[] {
+  const counts = new Map<string, number>();
+  calls.forEach(call => {
+    if (call.inquiry_type) counts.set(call.inquiry_type, (counts.get(call.inquiry_type) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([inquiry_type, count]) => ({ inquiry_type, count }))
+    .sort((a, b) => b.count - a.count || a.inquiry_type.localeCompare(b.inquiry_type));
+}
+
+/**
+ * Build a caller's profile from their calls and leads
+ */
+export function buildCallerHistory(
+  phone: string,
+  clientId: string,
+  calls: CallerHistoryCall[],
+  leads: CallerHistoryLead[]
+): CallerHistory {
+  const sortedCalls = [...calls].sort((a, b) => b.call_start_time.localeCompare(a.call_start_time));
+  const sortedLeads = [...leads].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  // A name given to a lead is more reliable than the caller ID name
+  const callerName = sortedLeads.find(lead => lead.full_name?.trim())?.full_name
+    ?? sortedCalls.find(call => call.caller_full_name?.trim())?.caller_full_name
+    ?? null;
+
+  return {
+    phone: normalizePhone(phone),
+    client_id: clientId,
+    caller_name: callerName,
+    calls: sortedCalls,
+    leads: sortedLeads,
+    sentimentTrend: getSentimentTrend(sortedCalls),
+    inquiryTypes: getInquiryTypeCounts(sortedCalls),
+    firstCallAt: sortedCalls.length > 0 ? sortedCalls[sortedCalls.length - 1].call_start_time : null,
+    lastCallAt: sortedCalls[0]?.call_start_time ?? null,
+  };
+}
+
+export interface CallerSearchRow {
+  caller_phone_normalized: string | null;
+  caller_phone_number: string | null;
+  caller_full_name: string | null;
+  client_id: string;
+  call_start_time: string;
+  clients?: { name: string } | null;
+}
+
+/**
+ * Group matching calls into one result per caller and client, latest caller first
+ * @param limit Results kept
+ */
+export function groupCallerSearchResults(rows: CallerSearchRow[], limit = 20): CallerSearchResult[] {
+  const callers = new Map<string, CallerSearchResult>();
+
+  rows.forEach(row => {
+    if (!row.caller_phone_normalized) return;
+    const key = `${row.client_id}:${row.caller_phone_normalized}`;
+    const existing = callers.get(key);
+
+    if (!existing) {
+      callers.set(key, {
+        phone: row.caller_phone_normalized,
+        display_phone: row.caller_phone_number || row.caller_phone_normalized,
+        caller_name: row.caller_full_name || null,
+        client_id: row.client_id,
+        client_name: row.clients?.name ?? null,
+        calls: 1,
+        last_call_at: row.call_start_time,
+      });
+      return;
+    }
+
+    existing.calls += 1;
+    if (row.call_start_time > existing.last_call_at) {
+      existing.last_call_at = row.call_start_time;
+      existing.display_phone = row.caller_phone_number || existing.display_phone;
+    }
+    if (!existing.caller_name && row.caller_full_name) existing.caller_name = row.caller_full_name;
+  });
+
+  return [...callers.values()]
+    .sort((a, b) => b.last_call_at.localeCompare(a.last_call_at))
+    .slice(0, limit);
+}
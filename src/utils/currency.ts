@@ -1,22 +1,75 @@
 /**
  * Currency utility functions
  * Provides consistent currency conversion throughout the application
+ *
+ * Revenue is stored in CAD and costs in USD. Clients have a billing currency
+ * (config_json.billing_currency) and users a display currency
+ * (preferences.displaySettings.currency); amounts are converted between them
+ * at the USD to CAD rate from exchangeRateService.
  */
 
+export type CurrencyCode = 'USD' | 'CAD';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['CAD', 'USD'];
+
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+  CAD: 'Canadian dollar (CAD)',
+  USD: 'US dollar (USD)',
+};
+
 /**
- * Fixed USD to CAD exchange rate
- * This is used throughout the application for consistent currency conversion
+ * Currency used when neither the user nor their client has a preference
  */
-export const USD_TO_CAD_RATE = 1.35;
+export const DEFAULT_CURRENCY: CurrencyCode = 'CAD';
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as string[]).includes(value);
+}
 
 /**
  * Convert USD amount to CAD
  * @param amountUsd Amount in USD
+ * @param usdToCadRate Rate of the day the amount is for (see exchangeRateService)
  * @returns Amount in CAD
  */
-export function convertUsdToCad(amountUsd: number | null | undefined): number {
+export function convertUsdToCad(amountUsd: number | null | undefined, usdToCadRate: number): number {
   if (amountUsd === null || amountUsd === undefined) return 0;
-  return amountUsd * USD_TO_CAD_RATE;
+  return amountUsd * usdToCadRate;
+}
+
+/**
+ * Convert an amount between currencies
+ * @param usdToCadRate Rate of the day the amount is for (see exchangeRateService)
+ */
+export function convertCurrency(
+  amount: number | null | undefined,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  usdToCadRate: number
+): number {
+  if (amount === null || amount === undefined) return 0;
+  if (from === to) return amount;
+  return from === 'USD' ? amount * usdToCadRate : amount / usdToCadRate;
+}
+
+/**
+ * A client's billing currency (config_json.billing_currency), CAD when not set
+ */
+export function getClientBillingCurrency(configJson: unknown): CurrencyCode {
+  const currency = (configJson as { billing_currency?: unknown } | null | undefined)?.billing_currency;
+  return isCurrencyCode(currency) ? currency : DEFAULT_CURRENCY;
+}
+
+/**
+ * Currency to show amounts in: the user's own preference, then their client's
+ * billing currency, then CAD
+ */
+export function resolveDisplayCurrency(
+  userCurrency: unknown,
+  clientBillingCurrency?: CurrencyCode | null
+): CurrencyCode {
+  if (isCurrencyCode(userCurrency)) return userCurrency;
+  return clientBillingCurrency || DEFAULT_CURRENCY;
 }
 
 /**
@@ -27,11 +80,17 @@ export function convertUsdToCad(amountUsd: number | null | undefined): number {
  * @returns Formatted currency string
  */
 export function formatCurrency(
-  amount: number | null | undefined, 
-  currency: 'USD' | 'CAD' = 'USD', 
+  amount: number | null | undefined,
+  currency: CurrencyCode = 'USD',
   decimals: number = 2
 ): string {
-  if (amount === null || amount === undefined) return `$0.00 ${currency}`;
-  
-  return `$${amount.toFixed(decimals)} ${currency}`;
+  const value = amount === null || amount === undefined || !Number.isFinite(amount) ? 0 : amount;
+  const digits = Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+
+  const negative = Number(value.toFixed(decimals)) < 0;
+
+  return `${negative ? '-' : ''}$${digits} ${currency}`;
 }
@@ -0,0 +1,97 @@
+/**
+ * Utility functions for dated exchange rates
+ * Picking the rate for a day from the rate history, and describing the rates
+ * a figure was converted at
+ */
+import type { AppliedExchangeRate, ExchangeRateHistoryEntry } from '@/types/exchangeRate';
+import { formatDate } from './formatters';
+
+/**
+ * USD to CAD rate used only while there is no rate history at all
+ */
+export const DEFAULT_USD_TO_CAD_RATE = 1.35;
+
+/**
+ * Rate history day (YYYY-MM-DD) of a date, in local time like the financial metrics
+ * Day strings are returned as they are
+ */
+export function toRateDate(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return date;
+  }
+
+  const value = date instanceof Date ? date : new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Rate for a day from rate history entries: the latest rate on or before the
+ * day, a manual override winning over the feed on the same day. Days before
+ * the history starts use its first rate.
+ */
+export function resolveExchangeRate(entries: ExchangeRateHistoryEntry[], date: Date | string): AppliedExchangeRate {
+  const rateDate = toRateDate(date);
+  const ranked = [...entries].sort((a, b) =>
+    b.rate_date.localeCompare(a.rate_date) || Number(b.source === 'manual') - Number(a.source === 'manual')
+  );
+
+  const firstRateDate = ranked.length > 0 ? ranked[ranked.length - 1].rate_date : null;
+  const entry =
+    ranked.find((candidate) => candidate.rate_date <= rateDate) ||
+    ranked.find((candidate) => candidate.rate_date === firstRateDate);
+
+  if (!entry) {
+    return { rate: DEFAULT_USD_TO_CAD_RATE, rateDate: null, source: 'default' };
+  }
+
+  return { rate: Number(entry.rate), rateDate: entry.rate_date, source: entry.source };
+}
+
+/**
+ * The distinct rates used across a set of conversions, oldest first
+ */
+export function collectAppliedRates(rates: AppliedExchangeRate[]): AppliedExchangeRate[] {
+  const distinct = new Map<string, AppliedExchangeRate>();
+  rates.forEach((applied) => distinct.set(`${applied.rateDate}|${applied.source}`, applied));
+
+  return [...distinct.values()].sort((a, b) => (a.rateDate || '').localeCompare(b.rateDate || ''));
+}
+
+const formatRateDate = (rateDate: string) => {
+  const [year, month, day] = rateDate.split('-').map(Number);
+  return formatDate(new Date(year, month - 1, day));
+};
+
+const formatRate = (rate: number) => Number(rate.toFixed(4)).toString();
+
+/**
+ * One-line note of the USD to CAD rates a figure was converted at, or an empty
+ * string when nothing was converted
+ * @param lead What happened at the rates, e.g. "Shown in USD"
+ */
+export function describeAppliedRates(rates: AppliedExchangeRate[], lead: string = 'Converted'): string {
+  const applied = collectAppliedRates(rates);
+  if (applied.length === 0) return '';
+
+  if (applied.length === 1) {
+    const [only] = applied;
+    if (only.source === 'default' || !only.rateDate) {
+      return `${lead} at 1 USD = ${formatRate(only.rate)} CAD (default rate, no rate history)`;
+    }
+    const override = only.source === 'manual' ? ', manual override' : '';
+    return `${lead} at 1 USD = ${formatRate(only.rate)} CAD (rate of ${formatRateDate(only.rateDate)}${override})`;
+  }
+
+  const values = applied.map((entry) => entry.rate);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const range = low === high ? formatRate(low) : `${formatRate(low)}–${formatRate(high)}`;
+  const dated = applied.filter((entry) => entry.rateDate);
+  const period = dated.length > 0
+    ? ` from ${formatRateDate(dated[0].rateDate as string)} to ${formatRateDate(dated[dated.length - 1].rateDate as string)}`
+    : '';
+  const overrides = applied.filter((entry) => entry.source === 'manual').length;
+  const overrideNote = overrides > 0 ? `, ${overrides} manual override${overrides === 1 ? '' : 's'}` : '';
+
+  return `${lead} at daily rates of 1 USD = ${range} CAD${period}${overrideNote}`;
+}
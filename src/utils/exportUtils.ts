@@ -49,4 +49,13 @@ export function formatDateForFilename(date: Date = new Date()): string {
 export function generateExportFilename(prefix: string, extension: string): string {
   const date = formatDateForFilename();
   return `${prefix}_${date}.${extension}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Quote a value as a CSV cell, doubling any quotes inside it
+ * @param value The cell value; null and undefined become empty cells
+ * @returns The quoted cell
+ */
+export function escapeCsvCell(value: unknown): string {
+  return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
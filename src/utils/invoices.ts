@@ -0,0 +1,402 @@
+/**
+ * Utility functions for client invoices
+ * Billing periods, line items from a client's plan and usage, totals, and
+ * CSV and PDF output
+ */
+import type { Client } from '@/types/admin';
+import type {
+  BillableUsage,
+  ClientInvoice,
+  ClientInvoiceWithLines,
+  InvoiceBilling,
+  InvoiceLineItemType,
+  InvoicePeriod,
+  InvoiceSettings,
+  InvoiceStatus,
+  InvoiceTotals,
+  NewInvoiceLineItem,
+} from '@/types/invoice';
+import { fromZonedTime } from './callbackTiming';
+import { convertCurrency } from './currency';
+import { escapeCsvCell } from './exportUtils';
+import { formatCurrency, formatDate, truncateString } from './formatters';
+import { buildPdf, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, type PdfPage } from './pdf';
+
+export const INVOICE_ISSUER_NAME = 'DealerMate';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export const INVOICE_LINE_TYPE_LABELS: Record<InvoiceLineItemType, string> = {
+  base_fee: 'Plan fee',
+  overage: 'Usage overage',
+  credit: 'Credit',
+};
+
+// Mirrors manage_client_invoice_status()
+const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['issued', 'void'],
+  issued: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  included_minutes: null,
+  overage_rate_cad: 0,
+};
+
+export const CAD_INVOICE_BILLING: InvoiceBilling = {
+  currency: 'CAD',
+  usd_to_cad_rate: null,
+};
+
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Invoices whose amount is final: issued, whether paid yet or not
+export const ISSUED_INVOICE_STATUSES: InvoiceStatus[] = ['issued', 'paid'];
+
+/**
+ * An invoice's amount due in CAD; USD invoices are converted back at the rate they were issued at
+ */
+export function getInvoiceTotalCad(invoice: Pick<ClientInvoice, 'total' | 'currency' | 'usd_to_cad_rate'>): number {
+  if (invoice.currency !== 'USD' || !invoice.usd_to_cad_rate) {
+    return invoice.total;
+  }
+  return roundCurrency(convertCurrency(invoice.total, 'USD', 'CAD', invoice.usd_to_cad_rate));
+}
+
+// Unit prices keep four decimals, like client_invoice_line_items.unit_amount
+const roundUnitAmount = (amount: number) => Math.round(amount * 10000) / 10000;
+
+/**
+ * Whether an invoice can move from one status to another
+ */
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * A client's invoicing settings (config_json.invoicing), with defaults for missing or invalid values
+ */
+export function getInvoiceSettings(configJson: unknown): InvoiceSettings {
+  const invoicing = (configJson as { invoicing?: Partial<Record<keyof InvoiceSettings, unknown>> } | null | undefined)?.invoicing;
+  const includedMinutes = invoicing?.included_minutes;
+  const overageRate = invoicing?.overage_rate_cad;
+
+  return {
+    included_minutes: typeof includedMinutes === 'number' && Number.isInteger(includedMinutes) && includedMinutes >= 0
+      ? includedMinutes
+      : DEFAULT_INVOICE_SETTINGS.included_minutes,
+    overage_rate_cad: typeof overageRate === 'number' && Number.isFinite(overageRate) && overageRate >= 0
+      ? overageRate
+      : DEFAULT_INVOICE_SETTINGS.overage_rate_cad,
+  };
+}
+
+/**
+ * Billing month (YYYY-MM-01) a number of months before the current one
+ */
+export function getBillingMonth(monthsAgo = 1, now: Date = new Date()): string {
+  const date = new Date(Date.UTC(now.getFullYear(), now.getMonth() - monthsAgo, 1));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A billing month as "September 2025"
+ */
+export function formatBillingMonth(billingMonth: string): string {
+  return formatDate(`${billingMonth.slice(0, 7)}-01T00:00:00Z`, { year: 'numeric', month: 'long', timeZone: 'UTC' });
+}
+
+/**
+ * The instants a billing month starts and ends (exclusive) in the client's timezone
+ */
+export function getInvoicePeriod(billingMonth: string, timeZone: string): InvoicePeriod {
+  const [year, month] = billingMonth.split('-').map(Number);
+  return {
+    start: fromZonedTime({ year, month, day: 1, hour: 0, minute: 0 }, timeZone).toISOString(),
+    end: fromZonedTime({ year, month: month + 1, day: 1, hour: 0, minute: 0 }, timeZone).toISOString(),
+  };
+}
+
+/**
+ * Calls and minutes to bill; each call is rounded up to the whole minute
+ */
+export function calculateBillableUsage(calls: { call_duration_seconds: number | null }[]): BillableUsage {
+  return {
+    billable_calls: calls.length,
+    billable_minutes: calls.reduce((sum, call) => sum + Math.ceil(Math.max(call.call_duration_seconds || 0, 0) / 60), 0),
+  };
+}
+
+/**
+ * Line items for a client's month: the plan fee, then minutes over the included minutes
+ * Amounts are converted from CAD when the invoice is in another currency
+ */
+export function buildInvoiceLineItems(
+  client: Pick<Client, 'subscription_plan' | 'monthly_billing_amount_cad'>,
+  billingMonth: string,
+  usage: BillableUsage,
+  settings: InvoiceSettings,
+  billing: InvoiceBilling = CAD_INVOICE_BILLING
+): NewInvoiceLineItem[] {
+  const fromCad = (amount: number) => billing.currency === 'CAD' || !billing.usd_to_cad_rate
+    ? amount
+    : convertCurrency(amount, 'CAD', billing.currency, billing.usd_to_cad_rate);
+
+  const baseFee = roundCurrency(fromCad(Math.max(client.monthly_billing_amount_cad || 0, 0)));
+  const lines: NewInvoiceLineItem[] = [{
+    line_number: 1,
+    item_type: 'base_fee',
+    description: `${client.subscription_plan} plan - ${formatBillingMonth(billingMonth)}`,
+    quantity: 1,
+    unit_amount: baseFee,
+    amount: baseFee,
+  }];
+
+  const overageMinutes = settings.included_minutes === null
+    ? 0
+    : usage.billable_minutes - settings.included_minutes;
+
+  if (overageMinutes > 0 && settings.overage_rate_cad > 0) {
+    const overageRate = roundUnitAmount(fromCad(settings.overage_rate_cad));
+    lines.push({
+      line_number: 2,
+      item_type: 'overage',
+      description: `Call minutes over the ${settings.included_minutes} included (${usage.billable_minutes} used)`,
+      quantity: overageMinutes,
+      unit_amount: overageRate,
+      amount: roundCurrency(overageMinutes * overageRate),
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Charges, credits (as a positive amount) and amount due of a set of line items
+ */
+export function calculateInvoiceTotals(lines: Pick<NewInvoiceLineItem, 'item_type' | 'amount'>[]): InvoiceTotals {
+  const subtotal = roundCurrency(lines.filter(line => line.item_type !== 'credit').reduce((sum, line) => sum + line.amount, 0));
+  const credits = roundCurrency(-lines.filter(line => line.item_type === 'credit').reduce((sum, line) => sum + line.amount, 0));
+  return { subtotal, credits, total: roundCurrency(subtotal - credits) };
+}
+
+/**
+ * Credit line to add after an invoice's existing lines
+ * @throws When the credit is not positive or is more than the amount due
+ */
+export function buildCreditLineItem(
+  lines: Pick<NewInvoiceLineItem, 'line_number' | 'item_type' | 'amount'>[],
+  description: string,
+  amount: number
+): NewInvoiceLineItem {
+  const credit = roundCurrency(amount);
+  if (!Number.isFinite(credit) || credit <= 0) {
+    throw new Error('Credit amount must be more than zero');
+  }
+  if (credit > calculateInvoiceTotals(lines).total) {
+    throw new Error('Credit cannot be more than the amount due');
+  }
+  if (!description.trim()) {
+    throw new Error('Credit needs a description');
+  }
+
+  return {
+    line_number: Math.max(0, ...lines.map(line => line.line_number)) + 1,
+    item_type: 'credit',
+    description: description.trim().slice(0, 200),
+    quantity: 1,
+    unit_amount: -credit,
+    amount: -credit,
+  };
+}
+
+/**
+ * CSV of an invoice's line items
+ */
+export function buildInvoiceCsv(invoice: ClientInvoiceWithLines, clientName: string): string {
+  const headers = ['Invoice', 'Client', 'Billing Month', 'Status', 'Line', 'Type', 'Description', 'Quantity', `Unit Price (${invoice.currency})`, `Amount (${invoice.currency})`];
+  const invoiceCells = [invoice.invoice_number || 'Draft', clientName, invoice.billing_month.slice(0, 7), INVOICE_STATUS_LABELS[invoice.status]];
+
+  const lines = [...invoice.line_items]
+    .sort((a, b) => a.line_number - b.line_number)
+    .map(line => [
+      ...invoiceCells,
+      line.line_number,
+      INVOICE_LINE_TYPE_LABELS[line.item_type],
+      line.description,
+      line.quantity,
+      line.unit_amount,
+      line.amount.toFixed(2),
+    ].map(escapeCsvCell).join(','));
+
+  return [headers.join(','), ...lines].join('\n');
+}
+
+/**
+ * CSV of a client's invoices
+ */
+export function buildInvoiceHistoryCsv(invoices: ClientInvoice[]): string {
+  const headers = ['Invoice', 'Billing Month', 'Status', 'Currency', 'Billable Calls', 'Billable Minutes', 'Subtotal', 'Credits', 'Total', 'Issued At', 'Due At', 'Paid At', 'Voided At', 'Void Reason'];
+
+  const lines = invoices.map(invoice => [
+    invoice.invoice_number || 'Draft',
+    invoice.billing_month.slice(0, 7),
+    INVOICE_STATUS_LABELS[invoice.status],
+    invoice.currency,
+    invoice.billable_calls,
+    invoice.billable_minutes,
+    invoice.subtotal.toFixed(2),
+    invoice.credits.toFixed(2),
+    invoice.total.toFixed(2),
+    invoice.issued_at,
+    invoice.due_at,
+    invoice.paid_at,
+    invoice.voided_at,
+    invoice.void_reason,
+  ].map(escapeCsvCell).join(','));
+
+  return [headers.join(','), ...lines].join('\n');
+}
+
+/**
+ * File name for an invoice download, e.g. "INV-202509-00012.pdf"
+ */
+export function getInvoiceFilename(invoice: ClientInvoice, clientSlug: string, extension: string): string {
+  const name = invoice.invoice_number || `draft-invoice_${clientSlug}_${invoice.billing_month.slice(0, 7)}`;
+  return `${name}.${extension}`;
+}
+
+const MARGIN = 50;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const ROW_HEIGHT = 18;
+// Lowest row on a page before the table continues on the next one
+const TABLE_BOTTOM = 140;
+// Room the totals and footnotes need below the table
+const TOTALS_HEIGHT = 3 * ROW_HEIGHT + 60;
+
+/**
+ * Invoice as a PDF document
+ */
+export function buildInvoicePdf(
+  invoice: ClientInvoiceWithLines,
+  client: Pick<Client, 'name' | 'contact_person' | 'contact_email' | 'billing_address'>
+): string {
+  const money = (amount: number) => formatCurrency(amount, invoice.currency, 'en-CA');
+  const title = invoice.invoice_number || 'DRAFT';
+  const pages: PdfPage[] = [];
+
+  const newPage = (): PdfPage => {
+    const page: PdfPage = {
+      texts: [
+        { text: 'INVOICE', x: MARGIN, y: PDF_PAGE_HEIGHT - 70, size: 22, bold: true },
+        { text: title, x: RIGHT, y: PDF_PAGE_HEIGHT - 62, size: 12, bold: true, align: 'right' },
+        { text: INVOICE_STATUS_LABELS[invoice.status], x: RIGHT, y: PDF_PAGE_HEIGHT - 78, align: 'right' },
+      ],
+      rules: [],
+    };
+    pages.push(page);
+    return page;
+  };
+
+  let page = newPage();
+  let y = PDF_PAGE_HEIGHT - 120;
+
+  // Bill to, and the invoice details beside it
+  const billTo = [
+    client.name,
+    client.contact_person,
+    ...(client.billing_address || '').split(/\r?\n/),
+    client.contact_email,
+  ].filter((line): line is string => Boolean(line && line.trim()));
+  const details: [string, string | null][] = [
+    ['From', INVOICE_ISSUER_NAME],
+    ['Billing month', formatBillingMonth(invoice.billing_month)],
+    ['Issued', invoice.issued_at && formatDate(invoice.issued_at)],
+    ['Due', invoice.due_at && formatDate(invoice.due_at)],
+    ['Paid', invoice.paid_at && formatDate(invoice.paid_at)],
+    ['Voided', invoice.voided_at && formatDate(invoice.voided_at)],
+  ];
+
+  page.texts.push({ text: 'Bill to', x: MARGIN, y, bold: true });
+  billTo.forEach((line, index) => page.texts.push({ text: truncateString(line, 50), x: MARGIN, y: y - 14 * (index + 1) }));
+  details
+    .filter(([, value]) => value)
+    .forEach(([label, value], index) => {
+      page.texts.push({ text: label, x: 330, y: y - 14 * index, bold: true });
+      page.texts.push({ text: value as string, x: RIGHT, y: y - 14 * index, align: 'right' });
+    });
+  y -= 14 * (Math.max(billTo.length + 1, details.length) + 2);
+
+  const tableHeader = () => {
+    page.texts.push(
+      { text: '#', x: MARGIN, y, bold: true },
+      { text: 'Description', x: MARGIN + 25, y, bold: true },
+      { text: 'Qty', x: 390, y, bold: true, align: 'right' },
+      { text: 'Unit price', x: 475, y, bold: true, align: 'right' },
+      { text: 'Amount', x: RIGHT, y, bold: true, align: 'right' }
+    );
+    page.rules?.push({ x1: MARGIN, x2: RIGHT, y: y - 6 });
+    y -= ROW_HEIGHT + 2;
+  };
+
+  tableHeader();
+  [...invoice.line_items]
+    .sort((a, b) => a.line_number - b.line_number)
+    .forEach(line => {
+      if (y < TABLE_BOTTOM) {
+        page = newPage();
+        y = PDF_PAGE_HEIGHT - 120;
+        tableHeader();
+      }
+      page.texts.push(
+        { text: String(line.line_number), x: MARGIN, y },
+        { text: truncateString(line.description, 55), x: MARGIN + 25, y },
+        { text: String(line.quantity), x: 390, y, align: 'right' },
+        { text: money(line.unit_amount), x: 475, y, align: 'right' },
+        { text: money(line.amount), x: RIGHT, y, align: 'right' }
+      );
+      y -= ROW_HEIGHT;
+    });
+
+  page.rules?.push({ x1: MARGIN, x2: RIGHT, y: y + ROW_HEIGHT - 6 });
+  y -= 4;
+  if (y < MARGIN + TOTALS_HEIGHT) {
+    page = newPage();
+    y = PDF_PAGE_HEIGHT - 120;
+  }
+
+  const totals: [string, number, boolean][] = [
+    ['Subtotal', invoice.subtotal, false],
+    ['Credits', -invoice.credits, false],
+    [`Total (${invoice.currency})`, invoice.total, true],
+  ];
+  totals.forEach(([label, amount, bold]) => {
+    page.texts.push(
+      { text: label, x: 475, y, bold, align: 'right' },
+      { text: money(amount), x: RIGHT, y, bold, align: 'right' }
+    );
+    y -= ROW_HEIGHT;
+  });
+
+  // Footnotes at the bottom of the last page
+  const notes = [
+    invoice.status === 'void' && invoice.void_reason ? `Voided: ${invoice.void_reason}` : null,
+    invoice.notes,
+    invoice.usd_to_cad_rate
+      ? `Amounts in ${invoice.currency}, converted from CAD at 1 USD = ${Number(invoice.usd_to_cad_rate)} CAD.`
+      : null,
+    `Usage: ${invoice.billable_calls} calls, ${invoice.billable_minutes} minutes. Test and spam calls are not billed; each call is rounded up to the whole minute.`,
+  ].filter((note): note is string => Boolean(note));
+  notes.forEach((note, index) => {
+    page.texts.push({ text: truncateString(note, 115), x: MARGIN, y: MARGIN + 14 * (notes.length - 1 - index), size: 8 });
+  });
+
+  return buildPdf(pages);
+}
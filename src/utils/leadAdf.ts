@@ -0,0 +1,58 @@
+/**
+ * Utility functions for exporting leads as ADF (Auto-lead Data Format) 1.0 XML,
+ * the format dealership CRMs import leads from
+ *
+ * Each lead becomes one <prospect>: vehicle interest from call_intelligence
+ * (or the agent's custom fields), the customer's contact details, and the call
+ * summary and notes as comments. The XML is built by the deliver-leads edge
+ * function's serializer in supabase/functions/_shared/adf.ts, so exported and
+ * delivered leads match.
+ */
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadIntelligenceRow } from '@/utils/leadWorkbook';
+import { buildAdfProspect as buildProspect } from '../../supabase/functions/_shared/adf.ts';
+
+export { escapeXml, splitFullName } from '../../supabase/functions/_shared/adf.ts';
+
+export const ADF_MIME_TYPE = 'application/xml';
+
+export interface LeadAdfOptions {
+  /** call_intelligence rows keyed by call_id (vehicle interest) */
+  intelligenceByCallId?: Map<string, LeadIntelligenceRow>;
+  /** calls.call_summary keyed by call_id */
+  summariesByCallId?: Map<string, string>;
+  includeNotes?: boolean;
+}
+
+/**
+ * Build one <prospect> element for a lead, with its client as the vendor
+ * Leads already sent to the dealership are marked status="resend" so CRMs can skip duplicates
+ */
+export function buildAdfProspect(lead: Lead, options: LeadAdfOptions = {}): string {
+  const intelligence = lead.call_id ? options.intelligenceByCallId?.get(lead.call_id) : undefined;
+  const summary = lead.call_id ? options.summariesByCallId?.get(lead.call_id) : undefined;
+
+  return buildProspect(
+    {
+      ...lead,
+      call_summary: summary ?? null,
+      vehicle_interest: (intelligence?.vehicle_interest as Record<string, unknown> | null | undefined) ?? null,
+    },
+    { name: lead.client_name || '' },
+    { includeNotes: options.includeNotes }
+  );
+}
+
+/**
+ * Build an ADF document with one prospect per lead
+ */
+export function buildLeadAdfDocument(leads: Lead[], options: LeadAdfOptions = {}): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?adf version="1.0"?>',
+    '<adf>',
+    ...leads.map(lead => buildAdfProspect(lead, options)),
+    '</adf>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,114 @@
+/**
+ * Utility functions for lead delivery
+ * Reads and validates the delivery channels a client has configured in
+ * config_json.lead_delivery (email digest, ADF/XML email to a CRM, HTTP webhook)
+ */
+import type {
+  LeadDeliveryChannel,
+  LeadDeliveryChannelType,
+  LeadDeliveryConfig,
+  LeadDeliveryStatus,
+} from '@/types/leadDelivery';
+
+// Used when a client has not configured delivery: leads are not sent anywhere
+export const DEFAULT_DELIVERY_CONFIG: LeadDeliveryConfig = { channels: [] };
+
+export const DEFAULT_DIGEST_INTERVAL_MINUTES = 60;
+
+export const DELIVERY_CHANNEL_LABELS: Record<LeadDeliveryChannelType, string> = {
+  email_digest: 'Email digest',
+  adf_email: 'ADF/XML email (CRM)',
+  webhook: 'Webhook',
+};
+
+export const DELIVERY_STATUS_LABELS: Record<LeadDeliveryStatus, string> = {
+  pending: 'Pending',
+  sending: 'Sending',
+  retrying: 'Retrying',
+  delivered: 'Delivered',
+  failed: 'Failed',
+};
+
+export const DIGEST_INTERVAL_OPTIONS: { value: number; label: string }[] = [
+  { value: 15, label: 'Every 15 minutes' },
+  { value: 60, label: 'Hourly' },
+  { value: 240, label: 'Every 4 hours' },
+  { value: 1440, label: 'Daily' },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isChannelType = (value: unknown): value is LeadDeliveryChannelType =>
+  typeof value === 'string' && value in DELIVERY_CHANNEL_LABELS;
+
+/**
+ * Create an empty, enabled channel of a type
+ */
+export function createDeliveryChannel(type: LeadDeliveryChannelType, id: string): LeadDeliveryChannel {
+  return {
+    id,
+    type,
+    enabled: true,
+    recipients: [],
+    url: null,
+    secret: null,
+    digest_interval_minutes: DEFAULT_DIGEST_INTERVAL_MINUTES,
+  };
+}
+
+/**
+ * Read the delivery channels from a client's config_json
+ * Channels with an unknown type or no id are dropped
+ */
+export function getDeliveryConfig(configJson: unknown): LeadDeliveryConfig {
+  const delivery = (configJson as { lead_delivery?: { channels?: unknown } } | null | undefined)?.lead_delivery;
+  if (!delivery || !Array.isArray(delivery.channels)) return DEFAULT_DELIVERY_CONFIG;
+
+  const channels = delivery.channels
+    .filter((channel): channel is Partial<LeadDeliveryChannel> & { id: string; type: LeadDeliveryChannelType } =>
+      typeof channel?.id === 'string' && isChannelType(channel?.type))
+    .map(channel => ({
+      ...createDeliveryChannel(channel.type, channel.id),
+      enabled: channel.enabled !== false,
+      recipients: Array.isArray(channel.recipients)
+        ? channel.recipients.filter((recipient): recipient is string => typeof recipient === 'string')
+        : [],
+      url: typeof channel.url === 'string' ? channel.url : null,
+      secret: typeof channel.secret === 'string' && channel.secret ? channel.secret : null,
+      digest_interval_minutes: Number(channel.digest_interval_minutes) > 0
+        ? Number(channel.digest_interval_minutes)
+        : DEFAULT_DIGEST_INTERVAL_MINUTES,
+    }));
+
+  return { channels };
+}
+
+/**
+ * Parse a comma/semicolon/newline separated list of email addresses
+ */
+export function parseRecipients(value: string): string[] {
+  return [...new Set(value.split(/[\s,;]+/).map(recipient => recipient.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Check a channel can be delivered to
+ * @returns An error message, or null when the channel is valid
+ */
+export function validateDeliveryChannel(channel: LeadDeliveryChannel): string | null {
+  if (channel.type === 'webhook') {
+    if (!channel.url) return 'Webhook URL is required';
+    try {
+      const url = new URL(channel.url);
+      if (url.protocol !== 'https:') return 'Webhook URL must use https';
+    } catch {
+      return 'Webhook URL is not a valid URL';
+    }
+    return null;
+  }
+
+  if (channel.recipients.length === 0) return 'Add at least one email address';
+  const invalid = channel.recipients.find(recipient => !EMAIL_PATTERN.test(recipient));
+  if (invalid) return `"${invalid}" is not a valid email address`;
+  return null;
+}
+
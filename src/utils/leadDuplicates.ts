@@ -0,0 +1,238 @@
+/**
+ * Utility functions for duplicate lead detection and merging
+ * Leads are one-per-call, so a customer who calls back creates a second lead.
+ * Duplicates are matched within a client on normalized phone, email and fuzzy name.
+ */
+import { format } from 'date-fns';
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface LeadDuplicateGroup {
+  id: string;                 // Id of the oldest lead in the group
+  leadIds: string[];          // Oldest first
+  reasons: DuplicateReason[];
+  confidence: 'high' | 'possible'; // 'possible' when only the names match
+}
+
+// Minimum name similarity (0-1) for a name-only match
+export const NAME_SIMILARITY_THRESHOLD = 0.88;
+
+/**
+ * Normalize a phone number for matching
+ * Strips formatting and the North American country code; too-short numbers return ''
+ * @example normalizePhone('+1 (416) 555-0123') // '4165550123'
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  if (!phone) return '';
+  const digits = phone.replace(/\D/g, '');
+  const withoutCountryCode = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return withoutCountryCode.length >= 7 ? withoutCountryCode : '';
+}
+
+/**
+ * Normalize an email address for matching
+ */
+export function normalizeEmail(email: string | null | undefined): string {
+  return email?.trim().toLowerCase() || '';
+}
+
+/**
+ * Normalize a name for fuzzy matching (lowercase, no punctuation, single spaces)
+ */
+export function normalizeName(name: string | null | undefined): string {
+  if (!name) return '';
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity between two names from 0 (different) to 1 (same)
+ * Word order is ignored, so "Doe Jane" matches "Jane Doe"
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+
+  const sortTokens = (name: string) => name.split(' ').sort().join(' ');
+  const score = (x: string, y: string) => 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+
+  return Math.max(score(left, right), score(sortTokens(left), sortTokens(right)));
+}
+
+/**
+ * Find groups of duplicate leads
+ * Only leads of the same client are compared; a lead matching any lead of a group joins it
+ * @param leads Leads to check (merged leads should already be excluded)
+ * @returns Groups with two or more leads
+ */
+export function findDuplicateGroups(leads: Lead[]): LeadDuplicateGroup[] {
+  const parent = new Map<string, string>(leads.map(lead => [lead.id, lead.id]));
+  const pairReasons = new Map<string, Set<DuplicateReason>>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const link = (a: string, b: string, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+
+    const key = [a, b].sort().join(':');
+    const reasons = pairReasons.get(key) ?? new Set<DuplicateReason>();
+    reasons.add(reason);
+    pairReasons.set(key, reasons);
+  };
+
+  // Exact matches on a normalized key, bucketed per client
+  const linkByKey = (reason: DuplicateReason, keysOf: (lead: Lead) => string[]) => {
+    const firstByKey = new Map<string, string>();
+    leads.forEach(lead => {
+      new Set(keysOf(lead).filter(Boolean)).forEach(key => {
+        const bucketKey = `${lead.client_id}|${key}`;
+        const first = firstByKey.get(bucketKey);
+        if (first) {
+          link(first, lead.id, reason);
+        } else {
+          firstByKey.set(bucketKey, lead.id);
+        }
+      });
+    });
+  };
+
+  linkByKey('phone', lead => [normalizePhone(lead.phone_number), normalizePhone(lead.from_phone_number)]);
+  linkByKey('email', lead => [normalizeEmail(lead.email)]);
+
+  // Fuzzy names, only compared within the same client and first letter to keep this fast
+  const nameBlocks = new Map<string, Lead[]>();
+  leads.forEach(lead => {
+    const name = normalizeName(lead.full_name);
+    if (name.length < 3) return;
+    const blockKey = `${lead.client_id}|${name[0]}`;
+    const block = nameBlocks.get(blockKey) ?? [];
+    block.push(lead);
+    nameBlocks.set(blockKey, block);
+  });
+
+  nameBlocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        if (nameSimilarity(block[i].full_name, block[j].full_name) >= NAME_SIMILARITY_THRESHOLD) {
+          link(block[i].id, block[j].id, 'name');
+        }
+      }
+    }
+  });
+
+  // Collect groups
+  const members = new Map<string, Lead[]>();
+  leads.forEach(lead => {
+    const root = find(lead.id);
+    const group = members.get(root) ?? [];
+    group.push(lead);
+    members.set(root, group);
+  });
+
+  const groups: LeadDuplicateGroup[] = [];
+  members.forEach(groupLeads => {
+    if (groupLeads.length < 2) return;
+
+    const sorted = [...groupLeads].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+    const ids = new Set(sorted.map(lead => lead.id));
+    const reasons = new Set<DuplicateReason>();
+    pairReasons.forEach((pair, key) => {
+      const [a] = key.split(':');
+      if (ids.has(a)) pair.forEach(reason => reasons.add(reason));
+    });
+
+    const orderedReasons = (['phone', 'email', 'name'] as DuplicateReason[]).filter(reason => reasons.has(reason));
+    groups.push({
+      id: sorted[0].id,
+      leadIds: sorted.map(lead => lead.id),
+      reasons: orderedReasons,
+      confidence: reasons.has('phone') || reasons.has('email') ? 'high' : 'possible',
+    });
+  });
+
+  return groups;
+}
+
+/**
+ * Index duplicate groups by lead id for quick lookup in tables
+ */
+export function indexDuplicateGroups(groups: LeadDuplicateGroup[]): Map<string, LeadDuplicateGroup> {
+  const index = new Map<string, LeadDuplicateGroup>();
+  groups.forEach(group => group.leadIds.forEach(id => index.set(id, group)));
+  return index;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name',
+};
+
+export interface LeadMergeChoices {
+  full_name: string;
+  phone_number: string;
+  email: string | null;
+}
+
+export interface LeadMergeUpdates extends LeadMergeChoices {
+  notes: string | null;
+  custom_lead_data: Record<string, unknown> | null;
+}
+
+/**
+ * Build the primary lead's merged values
+ * Notes from every lead are combined (each duplicate's notes labelled with its source),
+ * and custom_lead_data is merged with the primary lead's values taking precedence
+ */
+export function buildMergedLead(primary: Lead, duplicates: Lead[], choices: LeadMergeChoices): LeadMergeUpdates {
+  const notes = [
+    primary.notes?.trim(),
+    ...duplicates
+      .filter(lead => lead.notes?.trim())
+      .map(lead => `[Merged from ${lead.full_name || 'lead'}, ${format(new Date(lead.created_at), 'MMM d, yyyy')}]\n${lead.notes!.trim()}`),
+  ].filter(Boolean) as string[];
+
+  const customData = [...duplicates].reverse().concat(primary).reduce<Record<string, unknown>>((data, lead) => {
+    const value = lead.custom_lead_data;
+    return value && typeof value === 'object' && !Array.isArray(value) ? { ...data, ...value } : data;
+  }, {});
+
+  return {
+    ...choices,
+    notes: notes.length > 0 ? notes.join('\n\n') : null,
+    custom_lead_data: Object.keys(customData).length > 0 ? customData : null,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Utility functions for the lead edit flow
+ * Validation schema, custom_lead_data field conversion and change detection
+ */
+import * as z from 'zod';
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+// Fields the edit flow is allowed to change
+export const EDITABLE_LEAD_FIELDS = [
+  'full_name',
+  'phone_number',
+  'email',
+  'callback_timing_value',
+  'lead_status',
+  'custom_lead_data',
+] as const;
+
+export type EditableLeadField = typeof EDITABLE_LEAD_FIELDS[number];
+export type LeadEditUpdates = Partial<Pick<Lead, EditableLeadField>>;
+
+// Allows "+1 (416) 555-0123", "416.555.0123" etc. with 7-15 digits
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+const countDigits = (value: string) => value.replace(/\D/g, '').length;
+
+export const leadEditSchema = z.object({
+  full_name: z.string().trim().min(2, 'Name must be at least 2 characters').max(120, 'Name is too long'),
+  phone_number: z
+    .string()
+    .trim()
+    .min(1, 'Phone number is required')
+    .regex(PHONE_PATTERN, 'Phone number can only contain digits, spaces, +, -, ., ( and )')
+    .refine(value => countDigits(value) >= 7 && countDigits(value) <= 15, 'Phone number must have 7 to 15 digits'),
+  email: z.string().trim().email('Invalid email address').optional().or(z.literal('')),
+  callback_timing_value: z.string().trim().max(200, 'Callback timing is too long').optional().or(z.literal('')),
+  lead_status: z.string().min(1, 'Status is required'),
+  custom_fields: z
+    .array(
+      z.object({
+        key: z.string().trim().min(1, 'Field name is required'),
+        value: z.string(),
+      })
+    )
+    .superRefine((fields, ctx) => {
+      const seen = new Set<string>();
+      fields.forEach((field, index) => {
+        const key = field.key.trim();
+        if (seen.has(key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Field names must be unique',
+            path: [index, 'key'],
+          });
+        }
+        seen.add(key);
+      });
+    }),
+});
+
+export type LeadEditFormValues = z.infer<typeof leadEditSchema>;
+
+export interface CustomLeadField {
+  key: string;
+  value: string;
+}
+
+/**
+ * Convert custom_lead_data JSON into editable key/value rows
+ * Objects and arrays are shown as JSON text
+ * @param customData The custom lead data as a JSON object or string
+ * @returns Array of key/value rows
+ */
+export function customDataToFields(customData: unknown): CustomLeadField[] {
+  if (!customData) return [];
+
+  let data: unknown = customData;
+  if (typeof customData === 'string') {
+    try {
+      data = JSON.parse(customData);
+    } catch {
+      return [{ key: 'value', value: customData }];
+    }
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return [];
+
+  return Object.entries(data as Record<string, unknown>).map(([key, value]) => ({
+    key,
+    value: value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? ''),
+  }));
+}
+
+/**
+ * Parse an edited value back to its JSON type where it looks like one
+ */
+function parseFieldValue(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Convert edited key/value rows back into custom_lead_data JSON
+ * @param fields The edited rows
+ * @returns JSON object, or null when there are no fields
+ */
+export function fieldsToCustomData(fields: Partial<CustomLeadField>[]): Record<string, unknown> | null {
+  if (fields.length === 0) return null;
+
+  return fields.reduce<Record<string, unknown>>((data, field) => {
+    data[(field.key ?? '').trim()] = parseFieldValue(field.value ?? '');
+    return data;
+  }, {});
+}
+
+/**
+ * Build the initial form values for a lead
+ */
+export function leadToFormValues(lead: Lead): LeadEditFormValues {
+  return {
+    full_name: lead.full_name || '',
+    phone_number: lead.phone_number || '',
+    email: lead.email || '',
+    callback_timing_value: lead.callback_timing_value || '',
+    lead_status: (lead.lead_status || lead.status || 'new').toLowerCase(),
+    custom_fields: customDataToFields(lead.custom_lead_data),
+  };
+}
+
+/**
+ * Convert submitted form values into a leads row update
+ */
+export function formValuesToUpdates(values: LeadEditFormValues): LeadEditUpdates {
+  return {
+    full_name: values.full_name.trim(),
+    phone_number: values.phone_number.trim(),
+    email: values.email?.trim() ? values.email.trim() : null,
+    callback_timing_value: values.callback_timing_value?.trim() ? values.callback_timing_value.trim() : null,
+    lead_status: values.lead_status,
+    custom_lead_data: fieldsToCustomData(values.custom_fields),
+  };
+}
+
+/**
+ * Normalize a value so empty strings, null and undefined compare equal
+ */
+const comparable = (field: EditableLeadField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (field === 'lead_status') return String(value).toLowerCase();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Work out which editable fields actually changed
+ * Used to skip no-op saves and to build the audit log old/new values
+ * @param lead The lead before editing
+ * @param updates The submitted updates
+ * @returns Changed updates plus old/new values for the audit entry
+ */
+export function getLeadChanges(lead: Lead, updates: LeadEditUpdates): {
+  changes: LeadEditUpdates;
+  oldValues: Record<string, unknown>;
+  newValues: Record<string, unknown>;
+} {
+  const changes: LeadEditUpdates = {};
+  const oldValues: Record<string, unknown> = {};
+  const newValues: Record<string, unknown> = {};
+
+  EDITABLE_LEAD_FIELDS.forEach(field => {
+    if (!(field in updates)) return;
+
+    const before = field === 'lead_status' ? (lead.lead_status ?? lead.status) : lead[field];
+    const after = updates[field];
+
+    if (comparable(field, before) !== comparable(field, after)) {
+      (changes as Record<string, unknown>)[field] = after;
+      oldValues[field] = before ?? null;
+      newValues[field] = after ?? null;
+    }
+  });
+
+  return { changes, oldValues, newValues };
+}
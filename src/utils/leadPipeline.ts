@@ -0,0 +1,238 @@
+/**
+ * Utility functions for per-client lead pipelines
+ * Resolves a client's stages from config_json, groups leads for the board
+ * and computes stage conversion and time-in-stage metrics
+ */
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type {
+  LeadPipelineStage,
+  LeadStageChange,
+  LeadStageConversion,
+  LeadStageDuration,
+} from '@/types/leadPipeline';
+
+// Used when a client has not configured its own pipeline
+export const DEFAULT_PIPELINE_STAGES: LeadPipelineStage[] = [
+  { key: 'new', label: 'New' },
+  { key: 'contacted', label: 'Contacted' },
+  { key: 'qualified', label: 'Qualified' },
+  { key: 'proposal', label: 'Proposal' },
+  { key: 'closed_won', label: 'Closed (Won)', is_closed: true },
+  { key: 'closed_lost', label: 'Closed (Lost)', is_closed: true },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Turn a stage label into the key stored in leads.lead_status
+ * @example toStageKey('Test Drive') // 'test_drive'
+ */
+export function toStageKey(label: string): string {
+  return label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Read the pipeline stages from a client's config_json
+ * Falls back to the default stages when none are configured or the config is malformed
+ */
+export function getPipelineStages(configJson: unknown): LeadPipelineStage[] {
+  const stages = (configJson as { lead_pipeline?: { stages?: unknown } } | null | undefined)?.lead_pipeline?.stages;
+
+  if (!Array.isArray(stages)) return DEFAULT_PIPELINE_STAGES;
+
+  const validStages = stages.filter(
+    (stage): stage is LeadPipelineStage =>
+      !!stage && typeof stage.key === 'string' && stage.key !== '' && typeof stage.label === 'string'
+  );
+
+  return validStages.length > 0 ? validStages : DEFAULT_PIPELINE_STAGES;
+}
+
+/**
+ * Validate stages before they are saved to config_json
+ * @returns List of human-readable problems, empty when valid
+ */
+export function validatePipelineStages(stages: LeadPipelineStage[]): string[] {
+  const errors: string[] = [];
+
+  if (stages.length < 2) {
+    errors.push('A pipeline needs at least two stages');
+  }
+  if (stages.some(stage => !stage.label.trim() || !stage.key)) {
+    errors.push('Every stage needs a name');
+  }
+
+  const keys = stages.map(stage => stage.key);
+  if (new Set(keys).size !== keys.length) {
+    errors.push('Stage names must be unique');
+  }
+  if (stages.length > 0 && stages.every(stage => stage.is_closed)) {
+    errors.push('At least one stage must be open');
+  }
+
+  return errors;
+}
+
+/**
+ * Find the stage a status belongs to (case-insensitive, so 'New' matches 'new')
+ */
+export function findStage(status: string | null | undefined, stages: LeadPipelineStage[]): LeadPipelineStage | undefined {
+  if (!status) return undefined;
+  const normalized = status.toLowerCase();
+  return stages.find(stage => stage.key.toLowerCase() === normalized);
+}
+
+/**
+ * Group leads into board columns
+ * Leads whose status is not one of the stages are shown in the first stage
+ */
+export function groupLeadsByStage(leads: Lead[], stages: LeadPipelineStage[]): Map<string, Lead[]> {
+  const columns = new Map<string, Lead[]>(stages.map(stage => [stage.key, []]));
+  if (stages.length === 0) return columns;
+
+  leads.forEach(lead => {
+    const stage = findStage(lead.lead_status ?? lead.status, stages) ?? stages[0];
+    columns.get(stage.key)!.push(lead);
+  });
+
+  return columns;
+}
+
+interface StageVisit {
+  stageIndex: number;  // -1 when the status is not part of the pipeline
+  enteredAt: number;
+}
+
+/**
+ * Rebuild the sequence of stages a lead has been in from its status changes
+ * The lead starts in the first change's `from` status (or its current status) at created_at
+ */
+function buildStageVisits(lead: Lead, changes: LeadStageChange[], stages: LeadPipelineStage[]): StageVisit[] {
+  const indexOf = (status: string | null | undefined) => {
+    const stage = findStage(status, stages);
+    return stage ? stages.indexOf(stage) : -1;
+  };
+
+  const sorted = [...changes].sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+  const initialStatus = sorted.length > 0 && sorted[0].from ? sorted[0].from : (lead.lead_status ?? lead.status);
+
+  return [
+    { stageIndex: indexOf(initialStatus), enteredAt: new Date(lead.created_at).getTime() },
+    ...sorted.map(change => ({ stageIndex: indexOf(change.to), enteredAt: new Date(change.changed_at).getTime() })),
+  ];
+}
+
+const groupChangesByLead = (changes: LeadStageChange[]) => {
+  const byLead = new Map<string, LeadStageChange[]>();
+  changes.forEach(change => {
+    const list = byLead.get(change.lead_id) ?? [];
+    list.push(change);
+    byLead.set(change.lead_id, list);
+  });
+  return byLead;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Stage-to-stage conversion for each pair of consecutive stages
+ * A lead in stage A counts as advanced when it later reaches the next stage,
+ * or skips ahead to any later open stage. Closed stages only count for their own pair.
+ */
+export function computeStageConversions(
+  stages: LeadPipelineStage[],
+  leads: Lead[],
+  changes: LeadStageChange[]
+): LeadStageConversion[] {
+  const changesByLead = groupChangesByLead(changes);
+  const visitsByLead = leads.map(lead => buildStageVisits(lead, changesByLead.get(lead.id) ?? [], stages));
+
+  const conversions: LeadStageConversion[] = [];
+
+  for (let i = 0; i < stages.length - 1; i++) {
+    if (stages[i].is_closed) continue;
+
+    let entered = 0;
+    let advanced = 0;
+
+    visitsByLead.forEach(visits => {
+      const firstVisit = visits.findIndex(visit => visit.stageIndex === i);
+      if (firstVisit === -1) return;
+
+      entered++;
+      const movedOn = visits.slice(firstVisit + 1).some(visit =>
+        visit.stageIndex === i + 1 || (visit.stageIndex > i + 1 && !stages[visit.stageIndex].is_closed)
+      );
+      if (movedOn) advanced++;
+    });
+
+    conversions.push({
+      from: stages[i],
+      to: stages[i + 1],
+      entered,
+      advanced,
+      rate: entered > 0 ? round1((advanced / entered) * 100) : 0,
+    });
+  }
+
+  return conversions;
+}
+
+/**
+ * Average and median time leads spend in each open stage
+ * Leads still in a stage count up to `now`; re-entering a stage adds to the lead's total
+ */
+export function computeStageDurations(
+  stages: LeadPipelineStage[],
+  leads: Lead[],
+  changes: LeadStageChange[],
+  now: Date = new Date()
+): LeadStageDuration[] {
+  const changesByLead = groupChangesByLead(changes);
+  const hoursByStage = stages.map(() => [] as number[]);
+
+  leads.forEach(lead => {
+    const visits = buildStageVisits(lead, changesByLead.get(lead.id) ?? [], stages);
+    const totals = new Map<number, number>();
+
+    visits.forEach((visit, index) => {
+      if (visit.stageIndex === -1 || stages[visit.stageIndex].is_closed) return;
+      const leftAt = index + 1 < visits.length ? visits[index + 1].enteredAt : now.getTime();
+      const hours = Math.max(0, leftAt - visit.enteredAt) / HOUR_MS;
+      totals.set(visit.stageIndex, (totals.get(visit.stageIndex) ?? 0) + hours);
+    });
+
+    totals.forEach((hours, stageIndex) => hoursByStage[stageIndex].push(hours));
+  });
+
+  return stages
+    .map((stage, index) => ({ stage, hours: hoursByStage[index] }))
+    .filter(({ stage }) => !stage.is_closed)
+    .map(({ stage, hours }) => {
+      const sorted = [...hours].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      const median = sorted.length === 0
+        ? 0
+        : sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+      return {
+        stage,
+        leads: sorted.length,
+        averageHours: sorted.length > 0 ? round1(sorted.reduce((sum, h) => sum + h, 0) / sorted.length) : 0,
+        medianHours: round1(median),
+      };
+    });
+}
+
+/**
+ * Format a duration in hours for display (e.g. '45m', '5.5h', '3.2d')
+ */
+export function formatStageDuration(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${round1(hours)}h`;
+  return `${round1(hours / 24)}d`;
+}
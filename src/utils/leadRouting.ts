@@ -0,0 +1,155 @@
+/**
+ * Utility functions for lead routing and assignment
+ * Resolves a client's routing rules from config_json and picks an assignee
+ * for unassigned leads (round-robin, or by the call's inquiry type)
+ */
+import type { Lead } from '@/integrations/supabase/lead-service';
+import type { LeadPipelineStage } from '@/types/leadPipeline';
+import type { LeadAssignee, LeadInquiryRoute, LeadRoutingConfig, LeadRoutingMode } from '@/types/leadRouting';
+import { findStage } from '@/utils/leadPipeline';
+
+// Used when a client has not configured routing: leads are assigned by hand
+export const DEFAULT_ROUTING_CONFIG: LeadRoutingConfig = {
+  mode: 'manual',
+  assignee_ids: [],
+  inquiry_routes: [],
+};
+
+export const ROUTING_MODE_LABELS: Record<LeadRoutingMode, string> = {
+  manual: 'Manual',
+  round_robin: 'Round-robin',
+  inquiry_type: 'By inquiry type',
+};
+
+// Inquiry types written to call_intelligence.inquiry_type
+export const ROUTABLE_INQUIRY_TYPES: { value: string; label: string }[] = [
+  { value: 'sales', label: 'Sales' },
+  { value: 'service', label: 'Service' },
+  { value: 'parts', label: 'Parts' },
+  { value: 'finance', label: 'Finance' },
+  { value: 'test_drive', label: 'Test Drive' },
+  { value: 'trade_in', label: 'Trade-In' },
+  { value: 'general', label: 'General' },
+  { value: 'other', label: 'Other' },
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Read the routing rules from a client's config_json
+ * Falls back to manual assignment when none are configured or the config is malformed
+ */
+export function getRoutingConfig(configJson: unknown): LeadRoutingConfig {
+  const routing = (configJson as { lead_routing?: Partial<LeadRoutingConfig> } | null | undefined)?.lead_routing;
+
+  if (!routing || !(routing.mode && routing.mode in ROUTING_MODE_LABELS)) return DEFAULT_ROUTING_CONFIG;
+
+  const inquiryRoutes = Array.isArray(routing.inquiry_routes)
+    ? routing.inquiry_routes.filter(
+        (route): route is LeadInquiryRoute =>
+          typeof route?.inquiry_type === 'string' && isStringArray(route.assignee_ids)
+      )
+    : [];
+
+  return {
+    mode: routing.mode,
+    assignee_ids: isStringArray(routing.assignee_ids) ? routing.assignee_ids : [],
+    inquiry_routes: inquiryRoutes,
+  };
+}
+
+/**
+ * Whether a lead still needs follow-up (it is not in a closed pipeline stage)
+ */
+export function isOpenLead(lead: Lead, stages: LeadPipelineStage[]): boolean {
+  return !findStage(lead.lead_status ?? lead.status, stages)?.is_closed;
+}
+
+/**
+ * Count the open leads assigned to a user
+ */
+export function countOpenAssignedLeads(leads: Lead[], userId: string, stages: LeadPipelineStage[]): number {
+  return leads.filter(lead => lead.assigned_to === userId && isOpenLead(lead, stages)).length;
+}
+
+/**
+ * Get the staff a lead would rotate through under the routing rules
+ * Inquiry-type routes fall back to the round-robin pool for unmatched types;
+ * an empty round-robin pool means all of the client's staff
+ */
+export function getAssigneePool(
+  config: LeadRoutingConfig,
+  assignees: LeadAssignee[],
+  inquiryType?: string | null
+): LeadAssignee[] {
+  if (config.mode === 'manual') return [];
+
+  const pick = (ids: string[]) => ids
+    .map(id => assignees.find(assignee => assignee.id === id))
+    .filter(Boolean) as LeadAssignee[];
+
+  if (config.mode === 'inquiry_type' && inquiryType) {
+    const route = config.inquiry_routes.find(
+      candidate => candidate.inquiry_type.toLowerCase() === inquiryType.toLowerCase()
+    );
+    const routePool = route ? pick(route.assignee_ids) : [];
+    if (routePool.length > 0) return routePool;
+  }
+
+  const pool = pick(config.assignee_ids);
+  return pool.length > 0 ? pool : assignees;
+}
+
+/**
+ * Plan assignments for a client's unassigned open leads, oldest first
+ * Each pool rotates starting after the member who most recently received a lead,
+ * so repeated runs keep the rotation fair
+ * @param leads Leads of one client
+ * @param inquiryTypes Map of call_id to call_intelligence.inquiry_type
+ * @returns Map of lead id to assignee id (leads without an eligible assignee are left out)
+ */
+export function planLeadAssignments(
+  leads: Lead[],
+  config: LeadRoutingConfig,
+  assignees: LeadAssignee[],
+  inquiryTypes: Map<string, string>,
+  stages: LeadPipelineStage[]
+): Map<string, string> {
+  const plan = new Map<string, string>();
+  if (config.mode === 'manual' || assignees.length === 0) return plan;
+
+  // Most recent assignment time per assignee, updated as leads are planned
+  const lastAssignedAt = new Map<string, number>();
+  leads.forEach(lead => {
+    if (!lead.assigned_to) return;
+    const time = new Date(lead.assigned_at || lead.created_at).getTime();
+    if (time > (lastAssignedAt.get(lead.assigned_to) ?? -Infinity)) {
+      lastAssignedAt.set(lead.assigned_to, time);
+    }
+  });
+
+  let sequence = Math.max(0, ...lastAssignedAt.values());
+  [...leads]
+    .filter(lead => !lead.assigned_to && isOpenLead(lead, stages))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach(lead => {
+      const pool = getAssigneePool(config, assignees, lead.call_id ? inquiryTypes.get(lead.call_id) : null);
+      if (pool.length === 0) return;
+
+      // Next in rotation: after the pool member assigned most recently
+      let lastIndex = -1;
+      pool.forEach((assignee, index) => {
+        const time = lastAssignedAt.get(assignee.id);
+        if (time !== undefined && (lastIndex === -1 || time > lastAssignedAt.get(pool[lastIndex].id)!)) {
+          lastIndex = index;
+        }
+      });
+      const next = pool[(lastIndex + 1) % pool.length];
+
+      plan.set(lead.id, next.id);
+      lastAssignedAt.set(next.id, ++sequence);
+    });
+
+  return plan;
+}
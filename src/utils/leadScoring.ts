@@ -0,0 +1,202 @@
+/**
+ * Utility functions for lead scoring
+ * Combines a lead's call evaluation and call intelligence into one 0-100 score,
+ * weighted by the client's config_json.lead_scoring
+ */
+import type {
+  LeadScore,
+  LeadScoreFactor,
+  LeadScoreSignal,
+  LeadScoreTier,
+  LeadScoreWeights,
+  LeadScoringConfig,
+  LeadScoringSignals,
+} from '@/types/leadScoring';
+
+export const LEAD_SCORE_SIGNALS: LeadScoreSignal[] = [
+  'lead_intent',
+  'intent_strength',
+  'sales_opportunity',
+  'purchase_timeline',
+  'high_intent',
+];
+
+export const LEAD_SCORE_SIGNAL_LABELS: Record<LeadScoreSignal, string> = {
+  lead_intent: 'Evaluated intent',
+  intent_strength: 'Intent strength',
+  sales_opportunity: 'Sales opportunity',
+  purchase_timeline: 'Purchase timeline',
+  high_intent: 'High intent flag',
+};
+
+// Used when a client has not configured scoring
+export const DEFAULT_LEAD_SCORE_WEIGHTS: LeadScoreWeights = {
+  lead_intent: 30,
+  intent_strength: 25,
+  sales_opportunity: 20,
+  purchase_timeline: 15,
+  high_intent: 10,
+};
+
+export const DEFAULT_SCORING_CONFIG: LeadScoringConfig = { weights: DEFAULT_LEAD_SCORE_WEIGHTS };
+
+// Scores at or above these are hot / warm
+export const HOT_LEAD_SCORE = 70;
+export const WARM_LEAD_SCORE = 40;
+
+export const MAX_SIGNAL_WEIGHT = 100;
+
+// How soon the caller plans to buy, as a 0-1 value
+const PURCHASE_TIMELINE_VALUES: Record<string, { value: number; label: string }> = {
+  immediate: { value: 1, label: 'Immediate' },
+  '1-3_months': { value: 0.7, label: '1-3 months' },
+  '3-6_months': { value: 0.4, label: '3-6 months' },
+  '6+_months': { value: 0.15, label: '6+ months' },
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !isNaN(value);
+
+/**
+ * Read the scoring weights from a client's config_json
+ * Missing or invalid weights fall back to the defaults
+ */
+export function getScoringConfig(configJson: unknown): LeadScoringConfig {
+  const weights = (configJson as { lead_scoring?: { weights?: Partial<Record<string, unknown>> } } | null | undefined)
+    ?.lead_scoring?.weights;
+  if (!weights || typeof weights !== 'object') return DEFAULT_SCORING_CONFIG;
+
+  const merged = { ...DEFAULT_LEAD_SCORE_WEIGHTS };
+  LEAD_SCORE_SIGNALS.forEach(signal => {
+    const weight = Number(weights[signal]);
+    if (weights[signal] !== undefined && !isNaN(weight) && weight >= 0) {
+      merged[signal] = Math.min(weight, MAX_SIGNAL_WEIGHT);
+    }
+  });
+
+  return { weights: merged };
+}
+
+/**
+ * Check weights can be saved
+ * @returns Error messages (empty when valid)
+ */
+export function validateScoreWeights(weights: LeadScoreWeights): string[] {
+  const errors: string[] = [];
+  LEAD_SCORE_SIGNALS.forEach(signal => {
+    const weight = weights[signal];
+    if (!isNumber(weight) || weight < 0 || weight > MAX_SIGNAL_WEIGHT) {
+      errors.push(`${LEAD_SCORE_SIGNAL_LABELS[signal]} weight must be between 0 and ${MAX_SIGNAL_WEIGHT}`);
+    }
+  });
+  if (errors.length === 0 && LEAD_SCORE_SIGNALS.every(signal => weights[signal] === 0)) {
+    errors.push('At least one signal needs a weight above 0');
+  }
+  return errors;
+}
+
+/**
+ * Turn a raw signal into a 0-1 value and a display value
+ * @returns null when the call has no data for the signal
+ */
+function readSignal(signal: LeadScoreSignal, signals: LeadScoringSignals): { value: number; display: string } | null {
+  switch (signal) {
+    case 'lead_intent':
+      // Evaluations score intent 1-5
+      return isNumber(signals.lead_intent_score)
+        ? { value: clamp01((signals.lead_intent_score - 1) / 4), display: `${signals.lead_intent_score}/5` }
+        : null;
+    case 'intent_strength':
+      return isNumber(signals.intent_strength)
+        ? { value: clamp01(signals.intent_strength), display: `${Math.round(signals.intent_strength * 100)}%` }
+        : null;
+    case 'sales_opportunity':
+      return isNumber(signals.sales_opportunity_score)
+        ? { value: clamp01(signals.sales_opportunity_score), display: `${Math.round(signals.sales_opportunity_score * 100)}%` }
+        : null;
+    case 'purchase_timeline': {
+      const timeline = signals.purchase_timeline ? PURCHASE_TIMELINE_VALUES[signals.purchase_timeline] : undefined;
+      return timeline ? { value: timeline.value, display: timeline.label } : null;
+    }
+    case 'high_intent':
+      return typeof signals.is_high_intent === 'boolean'
+        ? { value: signals.is_high_intent ? 1 : 0, display: signals.is_high_intent ? 'Yes' : 'No' }
+        : null;
+  }
+}
+
+/**
+ * Tier for a score: hot, warm or cold
+ */
+export function getLeadScoreTier(score: number): LeadScoreTier {
+  if (score >= HOT_LEAD_SCORE) return 'hot';
+  if (score >= WARM_LEAD_SCORE) return 'warm';
+  return 'cold';
+}
+
+/**
+ * Score a lead from its call's signals
+ * Signals without data are left out and the remaining weights are scaled up,
+ * so a lead isn't penalised for an analysis that never ran
+ * @returns The score with its breakdown, or null when there is no data at all
+ */
+export function calculateLeadScore(
+  signals: LeadScoringSignals | null | undefined,
+  weights: LeadScoreWeights = DEFAULT_LEAD_SCORE_WEIGHTS
+): LeadScore | null {
+  if (!signals) return null;
+
+  const available: { signal: LeadScoreSignal; value: number; display: string }[] = [];
+  const missing: LeadScoreSignal[] = [];
+
+  LEAD_SCORE_SIGNALS.forEach(signal => {
+    const reading = readSignal(signal, signals);
+    if (reading && weights[signal] > 0) {
+      available.push({ signal, ...reading });
+    } else if (!reading) {
+      missing.push(signal);
+    }
+  });
+
+  const totalWeight = available.reduce((sum, entry) => sum + weights[entry.signal], 0);
+  if (totalWeight === 0) return null;
+
+  const factors: LeadScoreFactor[] = available.map(entry => {
+    const maxPoints = (weights[entry.signal] / totalWeight) * 100;
+    return {
+      signal: entry.signal,
+      label: LEAD_SCORE_SIGNAL_LABELS[entry.signal],
+      value: entry.display,
+      weight: weights[entry.signal],
+      points: Math.round(maxPoints * entry.value * 10) / 10,
+      maxPoints: Math.round(maxPoints * 10) / 10,
+    };
+  });
+
+  const score = Math.round(
+    available.reduce((sum, entry) => sum + weights[entry.signal] * entry.value, 0) / totalWeight * 100
+  );
+
+  return {
+    score,
+    tier: getLeadScoreTier(score),
+    // Biggest contributors first
+    factors: factors.sort((a, b) => b.points - a.points),
+    missing,
+  };
+}
+
+/**
+ * Compare two leads by score for sorting; leads without a score always sort last
+ */
+export function compareLeadScores(
+  a: LeadScore | null | undefined,
+  b: LeadScore | null | undefined,
+  direction: 'asc' | 'desc'
+): number {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return direction === 'asc' ? a.score - b.score : b.score - a.score;
+}
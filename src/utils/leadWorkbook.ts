@@ -0,0 +1,344 @@
+/**
+ * Utility functions for building the multi-sheet lead export workbook
+ *
+ * Produces a real .xlsx file (Leads, Call Intelligence and Summary sheets)
+ * with typed date and phone columns instead of CSV text with an Excel mime type.
+ */
+import ExcelJS from 'exceljs';
+import type { Lead } from '@/integrations/supabase/lead-service';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm';
+const PERCENT_FORMAT = '0%';
+const TEXT_FORMAT = '@';
+
+/**
+ * Shape of call_intelligence.vehicle_interest
+ */
+export interface VehicleInterest {
+  make?: string;
+  model?: string;
+  year?: string | number;
+  trim?: string;
+  price_range?: string;
+}
+
+/**
+ * Call intelligence fields included in the export, keyed by call_id
+ */
+export interface LeadIntelligenceRow {
+  call_id: string;
+  inquiry_type: string | null;
+  inquiry_subtype?: string | null;
+  is_urgent?: boolean | null;
+  is_high_intent?: boolean | null;
+  vehicle_interest?: VehicleInterest | null;
+  intent_strength?: number | null;
+  purchase_timeline?: string | null;
+  budget_range?: string | null;
+  financing_needed?: boolean | null;
+  trade_in_available?: boolean | null;
+  customer_sentiment?: string | null;
+  sales_opportunity_score?: number | null;
+  recommended_next_actions?: string[] | null;
+  ai_confidence_score?: number | null;
+}
+
+export interface LeadWorkbookOptions {
+  includeNotes?: boolean;
+  includeClientId?: boolean;
+  includeCallId?: boolean;
+  includeTimestamps?: boolean;
+  /** Internal-only columns (AI confidence, per-client breakdown); gate with canViewSensitiveInfo */
+  includeSensitiveInfo?: boolean;
+}
+
+/**
+ * Parse a timestamp into a Date, returning null for empty or invalid values
+ * @param value The timestamp string
+ * @returns Date or null
+ */
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a yes/no cell from a nullable boolean
+ */
+function toYesNo(value: boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return value ? 'Yes' : 'No';
+}
+
+/**
+ * Format the vehicle_interest JSON as "2023 Honda Civic Touring"
+ * @param vehicle The vehicle interest object
+ * @returns Readable vehicle description
+ */
+export function formatVehicleInterest(vehicle: VehicleInterest | null | undefined): string {
+  if (!vehicle || typeof vehicle !== 'object') return '';
+  return [vehicle.year, vehicle.make, vehicle.model, vehicle.trim]
+    .filter(part => part !== undefined && part !== null && String(part).trim() !== '')
+    .join(' ');
+}
+
+/**
+ * Apply the shared header styling and freeze the header row
+ */
+function styleHeader(sheet: ExcelJS.Worksheet): void {
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  if (sheet.columnCount > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } };
+  }
+}
+
+/**
+ * Count occurrences of each value
+ */
+function countBy<T>(items: T[], getKey: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    const key = getKey(item);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Build the Leads sheet following the export toggles
+ */
+function addLeadsSheet(workbook: ExcelJS.Workbook, leads: Lead[], options: LeadWorkbookOptions): void {
+  const sheet = workbook.addWorksheet('Leads');
+
+  const columns: Partial<ExcelJS.Column>[] = [
+    { header: 'ID', key: 'id', width: 38 },
+    { header: 'Full Name', key: 'full_name', width: 24 },
+    { header: 'Phone Number', key: 'phone_number', width: 18, style: { numFmt: TEXT_FORMAT } },
+    { header: 'Caller Phone', key: 'from_phone_number', width: 18, style: { numFmt: TEXT_FORMAT } },
+    { header: 'Email', key: 'email', width: 28 },
+    { header: 'Status', key: 'status', width: 14 },
+    { header: 'Source', key: 'source', width: 12 },
+    { header: 'Callback Timing', key: 'callback_timing_value', width: 22 },
+  ];
+
+  if (options.includeClientId) {
+    columns.push({ header: 'Client ID', key: 'client_id', width: 38 });
+    columns.push({ header: 'Client', key: 'client_name', width: 24 });
+  }
+
+  if (options.includeCallId) {
+    columns.push({ header: 'Call ID', key: 'call_id', width: 38 });
+  }
+
+  if (options.includeTimestamps) {
+    columns.push({ header: 'Created At', key: 'created_at', width: 18, style: { numFmt: DATE_TIME_FORMAT } });
+    columns.push({ header: 'Sent To Client At', key: 'sent_to_client_at', width: 18, style: { numFmt: DATE_TIME_FORMAT } });
+    columns.push({ header: 'Appointment Confirmed At', key: 'appointment_confirmed_at', width: 18, style: { numFmt: DATE_TIME_FORMAT } });
+  }
+
+  if (options.includeNotes) {
+    columns.push({ header: 'Notes', key: 'notes', width: 50, style: { alignment: { wrapText: true, vertical: 'top' } } });
+  }
+
+  sheet.columns = columns;
+
+  leads.forEach(lead => {
+    sheet.addRow({
+      id: lead.id,
+      full_name: lead.full_name || '',
+      // Phone numbers are written as text so Excel keeps the leading "+" and zeros
+      phone_number: lead.phone_number ? String(lead.phone_number) : '',
+      from_phone_number: lead.from_phone_number ? String(lead.from_phone_number) : '',
+      email: lead.email || '',
+      status: lead.status || lead.lead_status || '',
+      source: lead.source,
+      callback_timing_value: lead.callback_timing_value || '',
+      client_id: lead.client_id,
+      client_name: lead.client_name || '',
+      call_id: lead.call_id,
+      created_at: toDate(lead.created_at),
+      sent_to_client_at: toDate(lead.sent_to_client_at),
+      appointment_confirmed_at: toDate(lead.appointment_confirmed_at),
+      notes: lead.notes || '',
+    });
+  });
+
+  styleHeader(sheet);
+}
+
+/**
+ * Build the Call Intelligence sheet (one row per lead with intelligence data)
+ */
+function addIntelligenceSheet(
+  workbook: ExcelJS.Workbook,
+  leads: Lead[],
+  intelligenceByCallId: Map<string, LeadIntelligenceRow>,
+  options: LeadWorkbookOptions
+): void {
+  const sheet = workbook.addWorksheet('Call Intelligence');
+
+  const columns: Partial<ExcelJS.Column>[] = [
+    { header: 'Lead ID', key: 'lead_id', width: 38 },
+    { header: 'Full Name', key: 'full_name', width: 24 },
+  ];
+
+  if (options.includeCallId) {
+    columns.push({ header: 'Call ID', key: 'call_id', width: 38 });
+  }
+
+  columns.push(
+    { header: 'Inquiry Type', key: 'inquiry_type', width: 14 },
+    { header: 'Inquiry Subtype', key: 'inquiry_subtype', width: 18 },
+    { header: 'Vehicle Interest', key: 'vehicle_interest', width: 30 },
+    { header: 'Price Range', key: 'price_range', width: 14 },
+    { header: 'Purchase Timeline', key: 'purchase_timeline', width: 16 },
+    { header: 'Budget Range', key: 'budget_range', width: 14 },
+    { header: 'Financing Needed', key: 'financing_needed', width: 10 },
+    { header: 'Trade-In', key: 'trade_in_available', width: 10 },
+    { header: 'High Intent', key: 'is_high_intent', width: 10 },
+    { header: 'Urgent', key: 'is_urgent', width: 10 },
+    { header: 'Intent Strength', key: 'intent_strength', width: 12, style: { numFmt: PERCENT_FORMAT } },
+    { header: 'Sales Opportunity', key: 'sales_opportunity_score', width: 12, style: { numFmt: PERCENT_FORMAT } },
+    { header: 'Customer Sentiment', key: 'customer_sentiment', width: 12 },
+    { header: 'Recommended Next Actions', key: 'recommended_next_actions', width: 50, style: { alignment: { wrapText: true, vertical: 'top' } } },
+  );
+
+  if (options.includeSensitiveInfo) {
+    columns.push({ header: 'AI Confidence', key: 'ai_confidence_score', width: 12, style: { numFmt: PERCENT_FORMAT } });
+  }
+
+  sheet.columns = columns;
+
+  leads.forEach(lead => {
+    const intel = intelligenceByCallId.get(lead.call_id);
+    if (!intel) return;
+
+    sheet.addRow({
+      lead_id: lead.id,
+      full_name: lead.full_name || '',
+      call_id: lead.call_id,
+      inquiry_type: intel.inquiry_type || '',
+      inquiry_subtype: intel.inquiry_subtype || '',
+      vehicle_interest: formatVehicleInterest(intel.vehicle_interest),
+      price_range: intel.vehicle_interest?.price_range || '',
+      purchase_timeline: intel.purchase_timeline || '',
+      budget_range: intel.budget_range || '',
+      financing_needed: toYesNo(intel.financing_needed),
+      trade_in_available: toYesNo(intel.trade_in_available),
+      is_high_intent: toYesNo(intel.is_high_intent),
+      is_urgent: toYesNo(intel.is_urgent),
+      intent_strength: intel.intent_strength ?? null,
+      sales_opportunity_score: intel.sales_opportunity_score ?? null,
+      customer_sentiment: intel.customer_sentiment || '',
+      recommended_next_actions: (intel.recommended_next_actions || []).join('\n'),
+      ai_confidence_score: intel.ai_confidence_score ?? null,
+    });
+  });
+
+  styleHeader(sheet);
+}
+
+/**
+ * Append a titled two-column block of counts to the Summary sheet
+ */
+function addCountBlock(sheet: ExcelJS.Worksheet, title: string, counts: Map<string, number>): void {
+  sheet.addRow([]);
+  const titleRow = sheet.addRow([title, 'Count']);
+  titleRow.font = { bold: true };
+
+  Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([label, count]) => sheet.addRow([label, count]));
+}
+
+/**
+ * Build the Summary sheet with totals and breakdowns
+ */
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  leads: Lead[],
+  intelligenceByCallId: Map<string, LeadIntelligenceRow>,
+  options: LeadWorkbookOptions,
+  generatedAt: Date
+): void {
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [
+    { key: 'label', width: 32 },
+    { key: 'value', width: 20 },
+  ];
+
+  const createdDates = leads
+    .map(lead => toDate(lead.created_at))
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const titleRow = sheet.addRow(['Lead Export Summary']);
+  titleRow.font = { bold: true, size: 14 };
+
+  sheet.addRow(['Generated At', generatedAt]).getCell(2).numFmt = DATE_TIME_FORMAT;
+  sheet.addRow(['Total Leads', leads.length]);
+  sheet.addRow(['Sent To Client', leads.filter(lead => !!lead.sent_to_client_at).length]);
+  sheet.addRow(['Appointments Confirmed', leads.filter(lead => !!lead.appointment_confirmed_at).length]);
+
+  if (options.includeTimestamps && createdDates.length > 0) {
+    sheet.addRow(['First Lead', createdDates[0]]).getCell(2).numFmt = DATE_TIME_FORMAT;
+    sheet.addRow(['Latest Lead', createdDates[createdDates.length - 1]]).getCell(2).numFmt = DATE_TIME_FORMAT;
+  }
+
+  addCountBlock(sheet, 'By Status', countBy(leads, lead => lead.status || lead.lead_status || 'Unknown'));
+
+  const leadsWithIntel = leads.filter(lead => intelligenceByCallId.has(lead.call_id));
+  if (leadsWithIntel.length > 0) {
+    addCountBlock(
+      sheet,
+      'By Inquiry Type',
+      countBy(leadsWithIntel, lead => intelligenceByCallId.get(lead.call_id)?.inquiry_type || 'Unknown')
+    );
+  }
+
+  // Per-client breakdown only makes sense (and is only allowed) for system-wide users
+  if (options.includeSensitiveInfo && options.includeClientId) {
+    addCountBlock(sheet, 'By Client', countBy(leads, lead => lead.client_name || lead.client_id));
+  }
+}
+
+/**
+ * Build the lead export workbook
+ * @param leads The leads to export (already filtered for client data isolation)
+ * @param intelligenceByCallId Call intelligence rows keyed by call_id
+ * @param options Export toggles from LeadExportDialog
+ * @param generatedAt Timestamp written to the Summary sheet
+ * @returns The populated workbook
+ */
+export function buildLeadWorkbook(
+  leads: Lead[],
+  intelligenceByCallId: Map<string, LeadIntelligenceRow>,
+  options: LeadWorkbookOptions = {},
+  generatedAt: Date = new Date()
+): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'DealerMate';
+  workbook.created = generatedAt;
+
+  addLeadsSheet(workbook, leads, options);
+  addIntelligenceSheet(workbook, leads, intelligenceByCallId, options);
+  addSummarySheet(workbook, leads, intelligenceByCallId, options, generatedAt);
+
+  return workbook;
+}
+
+/**
+ * Serialize a workbook to an .xlsx Blob for download
+ * @param workbook The workbook to serialize
+ * @returns Blob with the xlsx mime type
+ */
+export async function workbookToBlob(workbook: ExcelJS.Workbook): Promise<Blob> {
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+}
@@ -0,0 +1,113 @@
+/**
+ * Utility functions for the month-end close
+ * Month date ranges, each client's billed revenue, the figures frozen when a
+ * month is closed, and reading dashboard metrics back from a closed month
+ */
+import type { FinancialMetrics } from '@/services/metricsCalculationService';
+import type { Client } from '@/types/admin';
+import type { ClientInvoice } from '@/types/invoice';
+import type { MonthCloseFigures, MonthCloseInput, MonthlyBillingSummary } from '@/types/monthlyBillingSummary';
+import { getBillingMonth, getInvoiceTotalCad, ISSUED_INVOICE_STATUSES, roundCurrency } from './invoices';
+
+/**
+ * First and last instant of a month (YYYY-MM-01), in local time like the live financial metrics
+ */
+export function getMonthRange(month: string): { startDate: Date; endDate: Date } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return {
+    startDate: new Date(year, monthNumber - 1, 1),
+    endDate: new Date(new Date(year, monthNumber, 1).getTime() - 1),
+  };
+}
+
+/**
+ * Only months that have ended can be closed
+ */
+export function canCloseMonth(month: string, now: Date = new Date()): boolean {
+  return month < getBillingMonth(0, now);
+}
+
+type BillingClient = Pick<Client, 'id' | 'status' | 'monthly_billing_amount_cad'>;
+type BillingInvoice = Pick<ClientInvoice, 'client_id' | 'status' | 'total' | 'currency' | 'usd_to_cad_rate'>;
+
+/**
+ * Each client's billed revenue for a month, in CAD
+ * A client is billed its issued or paid invoice, or its plan fee while active
+ * when the month has no invoice for it; clients billed nothing are left out
+ * @param invoices The month's invoices
+ */
+export function getBilledRevenue(clients: BillingClient[], invoices: BillingInvoice[]): Map<string, number> {
+  const invoicedCad = new Map<string, number>();
+  invoices
+    .filter(invoice => ISSUED_INVOICE_STATUSES.includes(invoice.status))
+    .forEach(invoice => {
+      invoicedCad.set(invoice.client_id, (invoicedCad.get(invoice.client_id) || 0) + getInvoiceTotalCad(invoice));
+    });
+
+  const revenue = new Map<string, number>();
+  clients.forEach(client => {
+    const invoiced = invoicedCad.get(client.id);
+    if (invoiced !== undefined) {
+      revenue.set(client.id, roundCurrency(invoiced));
+    } else if (client.status === 'active') {
+      revenue.set(client.id, client.monthly_billing_amount_cad || 0);
+    }
+  });
+  return revenue;
+}
+
+/**
+ * Active clients without an issued or paid invoice for the month, billed at their plan fee
+ * @param invoices The month's invoices
+ */
+export function getUninvoicedClients<T extends BillingClient>(
+  clients: T[],
+  invoices: Pick<ClientInvoice, 'client_id' | 'status'>[]
+): T[] {
+  const invoiced = new Set(
+    invoices.filter(invoice => ISSUED_INVOICE_STATUSES.includes(invoice.status)).map(invoice => invoice.client_id)
+  );
+  return clients.filter(client => client.status === 'active' && !invoiced.has(client.id));
+}
+
+/**
+ * Snapshot figures for a month; fixed costs are added to the dashboard cost breakdown
+ */
+export function buildMonthCloseFigures(input: MonthCloseInput): MonthCloseFigures {
+  const { costBreakdown } = input;
+  const fixedCostsCad = roundCurrency(input.fixedCostsCad);
+  const totalCosts = costBreakdown.totalCosts + fixedCostsCad;
+
+  return {
+    month: input.month,
+    usd_to_cad_rate: input.usdToCadRate,
+    total_calls_processed: input.callsProcessed,
+    total_leads_captured: input.leadsCaptured,
+    total_appointments_confirmed: input.appointmentsConfirmed,
+    active_clients: input.activeClients,
+    total_gross_revenue_cad: roundCurrency(input.grossRevenueCad),
+    total_variable_costs_usd: Math.round(costBreakdown.variableCostsUsd * 10000) / 10000,
+    total_fixed_costs_usd: input.fixedCostsUsd,
+    total_finders_fees_cad: roundCurrency(costBreakdown.findersFees),
+    total_partner_payout_cad: roundCurrency(costBreakdown.partnerSplits),
+    net_profit_usd_cad: roundCurrency(input.grossRevenueCad - totalCosts),
+    cost_breakdown: { ...costBreakdown, fixedCosts: fixedCostsCad, totalCosts },
+    client_profitability: input.clientProfitability,
+  };
+}
+
+/**
+ * Financial dashboard metrics of a closed month
+ */
+export function summaryToFinancialMetrics(summary: MonthlyBillingSummary): FinancialMetrics {
+  const revenue = summary.total_gross_revenue_cad;
+  const profitMargin = revenue > 0 ? (summary.net_profit_usd_cad / revenue) * 100 : 0;
+
+  return {
+    totalRevenue: revenue,
+    totalCosts: summary.cost_breakdown.totalCosts,
+    netProfit: summary.net_profit_usd_cad,
+    profitMargin: Math.round(profitMargin * 100) / 100,
+    monthlyRecurringRevenue: revenue,
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Utility functions for partner payout statements
+ * Statement lines from a partner's clients and their month's billing, totals,
+ * and CSV and PDF output
+ */
+import type { Client } from '@/types/admin';
+import type { ClientInvoice } from '@/types/invoice';
+import type {
+  NewPayoutStatementLine,
+  Partner,
+  PayoutBillingSource,
+  PayoutStatement,
+  PayoutStatementStatus,
+  PayoutStatementWithLines,
+  PayoutTotals,
+} from '@/types/partnerPayout';
+import { escapeCsvCell } from './exportUtils';
+import { formatCurrency, formatDate, formatPercentage, truncateString } from './formatters';
+import { formatBillingMonth, getInvoiceTotalCad, INVOICE_ISSUER_NAME, ISSUED_INVOICE_STATUSES, roundCurrency } from './invoices';
+import { buildPdf, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, type PdfPage } from './pdf';
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatementStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+};
+
+export const PAYOUT_BILLING_SOURCE_LABELS: Record<PayoutBillingSource, string> = {
+  invoice: 'Invoice',
+  plan: 'Plan fee',
+};
+
+type PayoutClient = Pick<Client, 'id' | 'name' | 'monthly_billing_amount_cad' | 'finders_fee_cad' | 'partner_split_percentage'>;
+type PayoutInvoice = Pick<ClientInvoice, 'client_id' | 'status' | 'total' | 'currency' | 'usd_to_cad_rate'>;
+
+/**
+ * Statement lines for a partner's clients, by client name
+ * Each client is billed its month's issued or paid invoice, or its plan fee
+ * when the month has none. The finder's fee comes off the billing before the
+ * split, and the partner is paid both.
+ * @param invoices The clients' invoices for the statement's month
+ */
+export function buildPayoutStatementLines(clients: PayoutClient[], invoices: PayoutInvoice[]): NewPayoutStatementLine[] {
+  return [...clients]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(client => {
+      const invoice = invoices.find(candidate =>
+        candidate.client_id === client.id && ISSUED_INVOICE_STATUSES.includes(candidate.status)
+      );
+      const billing = roundCurrency(Math.max(invoice ? getInvoiceTotalCad(invoice) : client.monthly_billing_amount_cad || 0, 0));
+      const findersFee = roundCurrency(Math.max(client.finders_fee_cad || 0, 0));
+      const netRevenue = roundCurrency(Math.max(billing - findersFee, 0));
+      const splitPercentage = Math.min(Math.max(client.partner_split_percentage || 0, 0), 1);
+      const split = roundCurrency(netRevenue * splitPercentage);
+
+      return {
+        client_id: client.id,
+        client_name: client.name,
+        billing_source: invoice ? 'invoice' : 'plan',
+        billing_cad: billing,
+        finders_fee_cad: findersFee,
+        net_revenue_cad: netRevenue,
+        split_percentage: splitPercentage,
+        split_cad: split,
+        payout_cad: roundCurrency(findersFee + split),
+      };
+    });
+}
+
+/**
+ * Billing, finder's fees, splits and payout of a set of statement lines
+ */
+export function calculatePayoutTotals(
+  lines: Pick<NewPayoutStatementLine, 'billing_cad' | 'finders_fee_cad' | 'split_cad' | 'payout_cad'>[]
+): PayoutTotals {
+  const sum = (key: 'billing_cad' | 'finders_fee_cad' | 'split_cad' | 'payout_cad') =>
+    roundCurrency(lines.reduce((total, line) => total + line[key], 0));
+
+  return {
+    total_billing_cad: sum('billing_cad'),
+    total_finders_fees_cad: sum('finders_fee_cad'),
+    total_splits_cad: sum('split_cad'),
+    total_payout_cad: sum('payout_cad'),
+  };
+}
+
+/**
+ * CSV of a statement's lines, one row per client
+ */
+export function buildPayoutStatementCsv(statement: PayoutStatementWithLines, partner: Pick<Partner, 'name'>): string {
+  const headers = ['Partner', 'Month', 'Status', 'Client', 'Billing Source', 'Billing (CAD)', "Finder's Fee (CAD)", 'Net Revenue (CAD)', 'Split %', 'Split (CAD)', 'Payout (CAD)'];
+  const statementCells = [partner.name, statement.billing_month.slice(0, 7), PAYOUT_STATUS_LABELS[statement.status]];
+
+  const lines = statement.lines.map(line => [
+    ...statementCells,
+    line.client_name,
+    PAYOUT_BILLING_SOURCE_LABELS[line.billing_source],
+    line.billing_cad.toFixed(2),
+    line.finders_fee_cad.toFixed(2),
+    line.net_revenue_cad.toFixed(2),
+    (line.split_percentage * 100).toFixed(2),
+    line.split_cad.toFixed(2),
+    line.payout_cad.toFixed(2),
+  ].map(escapeCsvCell).join(','));
+
+  return [headers.join(','), ...lines].join('\n');
+}
+
+/**
+ * CSV of a month's statements, one row per partner
+ */
+export function buildPayoutSummaryCsv(statements: PayoutStatement[], partners: Pick<Partner, 'id' | 'name'>[]): string {
+  const headers = ['Partner', 'Month', 'Status', 'Billing (CAD)', "Finder's Fees (CAD)", 'Splits (CAD)', 'Payout (CAD)', 'Paid At', 'Payment Reference'];
+
+  const lines = statements.map(statement => [
+    partners.find(partner => partner.id === statement.partner_id)?.name || 'Unknown partner',
+    statement.billing_month.slice(0, 7),
+    PAYOUT_STATUS_LABELS[statement.status],
+    statement.total_billing_cad.toFixed(2),
+    statement.total_finders_fees_cad.toFixed(2),
+    statement.total_splits_cad.toFixed(2),
+    statement.total_payout_cad.toFixed(2),
+    statement.paid_at,
+    statement.payment_reference,
+  ].map(escapeCsvCell).join(','));
+
+  return [headers.join(','), ...lines].join('\n');
+}
+
+/**
+ * File name for a statement download, e.g. "payout-statement_north-auto-group_2025-09.pdf"
+ */
+export function getPayoutStatementFilename(statement: PayoutStatement, partner: Pick<Partner, 'name'>, extension: string): string {
+  const partnerSlug = partner.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'partner';
+  return `payout-statement_${partnerSlug}_${statement.billing_month.slice(0, 7)}.${extension}`;
+}
+
+const MARGIN = 50;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const ROW_HEIGHT = 18;
+const TABLE_FONT_SIZE = 9;
+// Lowest row on a page before the table continues on the next one
+const TABLE_BOTTOM = 140;
+// Room the totals and footnotes need below the table
+const TOTALS_HEIGHT = 4 * ROW_HEIGHT + 60;
+// Right edges of the amount columns
+const COLUMNS = { billing: 262, fee: 327, net: 392, percentage: 437, split: 497 };
+
+/**
+ * Payout statement as a PDF document
+ */
+export function buildPayoutStatementPdf(
+  statement: PayoutStatementWithLines,
+  partner: Pick<Partner, 'name' | 'contact_person' | 'contact_email'>
+): string {
+  const money = (amount: number) => formatCurrency(amount, 'CAD', 'en-CA');
+  const pages: PdfPage[] = [];
+
+  const newPage = (): PdfPage => {
+    const page: PdfPage = {
+      texts: [
+        { text: 'PAYOUT STATEMENT', x: MARGIN, y: PDF_PAGE_HEIGHT - 70, size: 22, bold: true },
+        { text: formatBillingMonth(statement.billing_month), x: RIGHT, y: PDF_PAGE_HEIGHT - 62, size: 12, bold: true, align: 'right' },
+        { text: PAYOUT_STATUS_LABELS[statement.status], x: RIGHT, y: PDF_PAGE_HEIGHT - 78, align: 'right' },
+      ],
+      rules: [],
+    };
+    pages.push(page);
+    return page;
+  };
+
+  let page = newPage();
+  let y = PDF_PAGE_HEIGHT - 120;
+
+  // Partner, and the statement details beside it
+  const payTo = [partner.name, partner.contact_person, partner.contact_email]
+    .filter((line): line is string => Boolean(line && line.trim()));
+  const details: [string, string | null][] = [
+    ['From', INVOICE_ISSUER_NAME],
+    ['Generated', formatDate(statement.created_at)],
+    ['Paid', statement.paid_at && formatDate(statement.paid_at)],
+    ['Reference', statement.payment_reference],
+  ];
+
+  page.texts.push({ text: 'Pay to', x: MARGIN, y, bold: true });
+  payTo.forEach((line, index) => page.texts.push({ text: truncateString(line, 50), x: MARGIN, y: y - 14 * (index + 1) }));
+  details
+    .filter(([, value]) => value)
+    .forEach(([label, value], index) => {
+      page.texts.push({ text: label, x: 330, y: y - 14 * index, bold: true });
+      page.texts.push({ text: truncateString(value as string, 30), x: RIGHT, y: y - 14 * index, align: 'right' });
+    });
+  y -= 14 * (Math.max(payTo.length + 1, details.length) + 2);
+
+  const tableHeader = () => {
+    const size = TABLE_FONT_SIZE;
+    page.texts.push(
+      { text: 'Client', x: MARGIN, y, size, bold: true },
+      { text: 'Billing', x: COLUMNS.billing, y, size, bold: true, align: 'right' },
+      { text: "Finder's fee", x: COLUMNS.fee, y, size, bold: true, align: 'right' },
+      { text: 'Net', x: COLUMNS.net, y, size, bold: true, align: 'right' },
+      { text: 'Split %', x: COLUMNS.percentage, y, size, bold: true, align: 'right' },
+      { text: 'Split', x: COLUMNS.split, y, size, bold: true, align: 'right' },
+      { text: 'Payout', x: RIGHT, y, size, bold: true, align: 'right' }
+    );
+    page.rules?.push({ x1: MARGIN, x2: RIGHT, y: y - 6 });
+    y -= ROW_HEIGHT + 2;
+  };
+
+  tableHeader();
+  statement.lines.forEach(line => {
+    if (y < TABLE_BOTTOM) {
+      page = newPage();
+      y = PDF_PAGE_HEIGHT - 120;
+      tableHeader();
+    }
+    const size = TABLE_FONT_SIZE;
+    const source = line.billing_source === 'plan' ? ' *' : '';
+    page.texts.push(
+      { text: truncateString(line.client_name, 28) + source, x: MARGIN, y, size },
+      { text: money(line.billing_cad), x: COLUMNS.billing, y, size, align: 'right' },
+      { text: money(line.finders_fee_cad), x: COLUMNS.fee, y, size, align: 'right' },
+      { text: money(line.net_revenue_cad), x: COLUMNS.net, y, size, align: 'right' },
+      { text: formatPercentage(line.split_percentage * 100), x: COLUMNS.percentage, y, size, align: 'right' },
+      { text: money(line.split_cad), x: COLUMNS.split, y, size, align: 'right' },
+      { text: money(line.payout_cad), x: RIGHT, y, size, align: 'right' }
+    );
+    y -= ROW_HEIGHT;
+  });
+
+  page.rules?.push({ x1: MARGIN, x2: RIGHT, y: y + ROW_HEIGHT - 6 });
+  y -= 4;
+  if (y < MARGIN + TOTALS_HEIGHT) {
+    page = newPage();
+    y = PDF_PAGE_HEIGHT - 120;
+  }
+
+  const totals: [string, number, boolean][] = [
+    ['Billing', statement.total_billing_cad, false],
+    ["Finder's fees", statement.total_finders_fees_cad, false],
+    ['Splits', statement.total_splits_cad, false],
+    [`Payout (${statement.currency})`, statement.total_payout_cad, true],
+  ];
+  totals.forEach(([label, amount, bold]) => {
+    page.texts.push(
+      { text: label, x: COLUMNS.split, y, bold, align: 'right' },
+      { text: money(amount), x: RIGHT, y, bold, align: 'right' }
+    );
+    y -= ROW_HEIGHT;
+  });
+
+  // Footnotes at the bottom of the last page
+  const notes = [
+    statement.lines.some(line => line.billing_source === 'plan')
+      ? '* No invoice was issued for the month; the client\'s monthly plan fee is used.'
+      : null,
+    "Payout is the finder's fee plus the split of the billing left after the finder's fee.",
+  ].filter((note): note is string => Boolean(note));
+  notes.forEach((note, index) => {
+    page.texts.push({ text: truncateString(note, 115), x: MARGIN, y: MARGIN + 14 * (notes.length - 1 - index), size: 8 });
+  });
+
+  return buildPdf(pages);
+}
@@ -0,0 +1,131 @@
+/**
+ * Minimal PDF writer for text documents (invoices, statements)
+ * Pages hold positioned text in Helvetica and horizontal rules. Coordinates are
+ * in points from the bottom-left corner of a US Letter page. Text is written in
+ * the fonts' WinAnsiEncoding (Latin-1 plus typographic punctuation); anything
+ * else is written as '?'.
+ */
+
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+export interface PdfText {
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right'; // right: x is where the text ends
+}
+
+export interface PdfRule {
+  x1: number;
+  x2: number;
+  y: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+const DEFAULT_FONT_SIZE = 10;
+
+// Helvetica glyph widths (1/1000 em) for the characters amounts are made of
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '$': 556, '%': 889, '(': 333, ')': 333,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+};
+const AVERAGE_GLYPH_WIDTH = 556;
+const BOLD_WIDTH_FACTOR = 1.05;
+
+// WinAnsiEncoding bytes 0x80-0x9f; printable ASCII and 0xa0-0xff match Latin-1
+const WIN_ANSI_BYTES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Text as WinAnsiEncoding bytes, one character per byte, as written to the PDF
+ */
+export function toPdfSafeText(text: string): string {
+  return [...text.replace(/\s/g, ' ')]
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return char;
+      return char in WIN_ANSI_BYTES ? String.fromCharCode(WIN_ANSI_BYTES[char]) : '?';
+    })
+    .join('');
+}
+
+/**
+ * Approximate width of a line of text in points
+ */
+export function measurePdfText(text: string, size = DEFAULT_FONT_SIZE, bold = false): number {
+  const units = [...toPdfSafeText(text)].reduce((sum, char) => sum + (HELVETICA_WIDTHS[char] ?? AVERAGE_GLYPH_WIDTH), 0);
+  return (units * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+const escapePdfString = (text: string) => toPdfSafeText(text).replace(/[\\()]/g, char => `\\${char}`);
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+function buildContentStream(page: PdfPage): string {
+  const rules = (page.rules || []).map(rule =>
+    `${formatNumber(rule.x1)} ${formatNumber(rule.y)} m ${formatNumber(rule.x2)} ${formatNumber(rule.y)} l S`
+  );
+  const texts = page.texts.map(({ text, x, y, size = DEFAULT_FONT_SIZE, bold = false, align = 'left' }) => {
+    const left = align === 'right' ? x - measurePdfText(text, size, bold) : x;
+    return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${formatNumber(y)} Td (${escapePdfString(text)}) Tj ET`;
+  });
+
+  return ['0.75 G 0.5 w', ...rules, '0 g', ...texts].join('\n');
+}
+
+/**
+ * Build a PDF document from its pages
+ * @returns The PDF file contents; every character is one byte
+ */
+export function buildPdf(pages: PdfPage[]): string {
+  const pageList = pages.length > 0 ? pages : [{ texts: [] }];
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and its content stream
+  const pageIds = pageList.map((_, index) => 5 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageList.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pageList.forEach((page, index) => {
+    const stream = buildContentStream(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+}
+
+/**
+ * The bytes of a PDF built by buildPdf, for saving it as a file
+ */
+export function pdfToBytes(pdf: string): Uint8Array {
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+}
@@ -64,6 +64,7 @@ export const RouteGroups = {
     Dashboard: createLazyRoute(() => import('../pages/Dashboard'), { preload: true }),
     Analytics: createLazyRoute(() => import('../pages/Analytics')),
     Logs: createLazyRoute(() => import('../pages/Logs')),
+    CallerHistory: createLazyRoute(() => import('../pages/CallerHistory')),
     Leads: createLazyRoute(() => import('../pages/Leads')),
     Agents: createLazyRoute(() => import('../pages/Agents')),
     Settings: createLazyRoute(() => import('../pages/Settings')),
@@ -83,12 +84,15 @@ export const RouteGroups = {
     AdminIndex: createLazyRoute(() => import('../pages/admin/AdminIndex')),
     AdminSystemStatus: createLazyRoute(() => import('../pages/AdminSystemStatus')),
     AgentStatusSettings: createLazyRoute(() => import('../pages/admin/settings/AgentStatusSettings')),
+    ExchangeRateSettings: createLazyRoute(() => import('../pages/admin/settings/ExchangeRateSettings')),
     // Analytics section pages
     AnalyticsFinancials: createLazyRoute(() => import('../pages/admin/analytics/financials')),
     AnalyticsClients: createLazyRoute(() => import('../pages/admin/analytics/clients')),
     AnalyticsUsers: createLazyRoute(() => import('../pages/admin/analytics/users')),
     AnalyticsPlatform: createLazyRoute(() => import('../pages/admin/analytics/platform')),
     AnalyticsSystemOps: createLazyRoute(() => import('../pages/admin/analytics/system-ops')),
+    AnalyticsTools: createLazyRoute(() => import('../pages/admin/analytics/tools')),
+    AnalyticsPartners: createLazyRoute(() => import('../pages/admin/analytics/partners')),
     // Management section pages
     BusinessManagement: createLazyRoute(() => import('../pages/admin/management/business')),
     RolesPermissions: createLazyRoute(() => import('../pages/admin/management/roles')),
@@ -96,6 +100,8 @@ export const RouteGroups = {
     UserLogs: createLazyRoute(() => import('../pages/admin/audit/user-logs')),
     ClientLogs: createLazyRoute(() => import('../pages/admin/audit/client-logs')),
     SystemLogs: createLazyRoute(() => import('../pages/admin/audit/system-logs')),
+    LeadDeliveries: createLazyRoute(() => import('../pages/admin/audit/lead-deliveries')),
+    CallReviews: createLazyRoute(() => import('../pages/admin/audit/call-reviews')),
   },
 
   // Layout components
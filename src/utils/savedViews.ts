@@ -0,0 +1,210 @@
+/**
+ * Utility functions for saved views
+ * Encodes the call logs and leads page state in URL query parameters, so a
+ * saved view or a copied link reopens exactly the same view
+ */
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import type { CallType } from '@/context/CallTypeContext';
+import type { CallLogsAdvancedFilters, CallSentimentFilter } from '@/types/callLogFilters';
+import type { CallLogsViewState, LeadsViewState, SavedView, ViewSortDirection } from '@/types/savedView';
+import { normalizeAdvancedFilters } from './callLogFilters';
+
+export const CALL_LOG_SORT_FIELDS = ['caller_full_name', 'call_start_time', 'call_type'];
+export const LEAD_SORT_FIELDS = ['full_name', 'phone_number', 'score', 'status', 'created_at'];
+
+const CALL_TYPES: CallType[] = ['all', 'live', 'test'];
+const CALL_KINDS = ['inbound', 'outbound', 'missed', 'voicemail'];
+const SENTIMENTS: CallSentimentFilter[] = ['positive', 'neutral', 'negative'];
+
+export const DEFAULT_CALL_LOGS_VIEW: CallLogsViewState = {
+  search: '',
+  callType: 'live',
+  callKind: null,
+  startDate: null,
+  endDate: null,
+  advanced: {},
+  sortField: 'call_start_time',
+  sortDirection: 'desc',
+};
+
+export const DEFAULT_LEADS_VIEW: LeadsViewState = {
+  search: '',
+  status: 'all',
+  source: 'all',
+  assignedToMe: false,
+  layout: 'table',
+  sortField: 'created_at',
+  sortDirection: 'desc',
+};
+
+// Query parameters owned by each page's view; other parameters (e.g. ?lead=) are left alone
+export const CALL_LOGS_VIEW_PARAMS = [
+  'q', 'calls', 'kind', 'from', 'to', 'sort', 'dir',
+  'minScore', 'maxScore', 'sentiment', 'inquiry', 'review', 'minAdherence', 'maxAdherence',
+];
+export const LEADS_VIEW_PARAMS = ['q', 'status', 'source', 'assigned', 'layout', 'sort', 'dir'];
+
+const DATE_PARAM_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDate = (value: string | null): string | null =>
+  value && DATE_PARAM_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? value : null;
+
+const readNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readDirection = (value: string | null, fallback: ViewSortDirection): ViewSortDirection =>
+  value === 'asc' || value === 'desc' ? value : fallback;
+
+/**
+ * Read a call type from the `calls` parameter
+ * @returns null when the URL doesn't set one
+ */
+export function readCallTypeParam(params: URLSearchParams): CallType | null {
+  const value = params.get('calls');
+  return CALL_TYPES.includes(value as CallType) ? (value as CallType) : null;
+}
+
+/**
+ * Encode a call logs view; the call type is always written so a link never
+ * depends on the opener's global toggle
+ */
+export function callLogsViewToParams(view: CallLogsViewState): URLSearchParams {
+  const params = new URLSearchParams();
+  const advanced = normalizeAdvancedFilters(view.advanced);
+
+  if (view.search.trim()) params.set('q', view.search);
+  params.set('calls', view.callType);
+  if (view.callKind) params.set('kind', view.callKind);
+  if (view.startDate) params.set('from', view.startDate);
+  if (view.endDate) params.set('to', view.endDate);
+  if (view.sortField !== DEFAULT_CALL_LOGS_VIEW.sortField || view.sortDirection !== DEFAULT_CALL_LOGS_VIEW.sortDirection) {
+    params.set('sort', view.sortField);
+    params.set('dir', view.sortDirection);
+  }
+  if (advanced.minScore !== undefined) params.set('minScore', String(advanced.minScore));
+  if (advanced.maxScore !== undefined) params.set('maxScore', String(advanced.maxScore));
+  if (advanced.sentiment) params.set('sentiment', advanced.sentiment);
+  if (advanced.inquiryType) params.set('inquiry', advanced.inquiryType);
+  if (advanced.reviewRequired) params.set('review', '1');
+  if (advanced.minAdherence !== undefined) params.set('minAdherence', String(advanced.minAdherence));
+  if (advanced.maxAdherence !== undefined) params.set('maxAdherence', String(advanced.maxAdherence));
+
+  return params;
+}
+
+/**
+ * Decode a call logs view; unknown or malformed values fall back to the defaults
+ * @param fallbackCallType Call type when the URL doesn't set one (the global toggle)
+ */
+export function callLogsViewFromParams(params: URLSearchParams, fallbackCallType: CallType = 'live'): CallLogsViewState {
+  const sortField = params.get('sort');
+  const kind = params.get('kind');
+  const sentiment = params.get('sentiment') as CallSentimentFilter | null;
+
+  const advanced: CallLogsAdvancedFilters = normalizeAdvancedFilters({
+    minScore: readNumber(params.get('minScore')),
+    maxScore: readNumber(params.get('maxScore')),
+    sentiment: sentiment && SENTIMENTS.includes(sentiment) ? sentiment : undefined,
+    inquiryType: params.get('inquiry') || undefined,
+    reviewRequired: params.get('review') === '1',
+    minAdherence: readNumber(params.get('minAdherence')),
+    maxAdherence: readNumber(params.get('maxAdherence')),
+  });
+
+  return {
+    search: params.get('q') ?? '',
+    callType: readCallTypeParam(params) ?? fallbackCallType,
+    callKind: kind && CALL_KINDS.includes(kind) ? kind : null,
+    startDate: readDate(params.get('from')),
+    endDate: readDate(params.get('to')),
+    advanced,
+    sortField: sortField && CALL_LOG_SORT_FIELDS.includes(sortField) ? sortField : DEFAULT_CALL_LOGS_VIEW.sortField,
+    sortDirection: readDirection(params.get('dir'), DEFAULT_CALL_LOGS_VIEW.sortDirection),
+  };
+}
+
+/**
+ * Encode a leads view; `assigned=me` is the link the dashboard already uses
+ */
+export function leadsViewToParams(view: LeadsViewState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (view.search.trim()) params.set('q', view.search);
+  if (view.status !== 'all') params.set('status', view.status);
+  if (view.source !== 'all') params.set('source', view.source);
+  if (view.assignedToMe) params.set('assigned', 'me');
+  if (view.layout !== DEFAULT_LEADS_VIEW.layout) params.set('layout', view.layout);
+  if (view.sortField !== DEFAULT_LEADS_VIEW.sortField || view.sortDirection !== DEFAULT_LEADS_VIEW.sortDirection) {
+    params.set('sort', view.sortField);
+    params.set('dir', view.sortDirection);
+  }
+
+  return params;
+}
+
+/**
+ * Decode a leads view; unknown or malformed values fall back to the defaults
+ * Statuses are not checked here because each client has its own pipeline stages
+ */
+export function leadsViewFromParams(params: URLSearchParams): LeadsViewState {
+  const sortField = params.get('sort');
+
+  return {
+    search: params.get('q') ?? '',
+    status: params.get('status') || 'all',
+    source: params.get('source') || 'all',
+    assignedToMe: params.get('assigned') === 'me',
+    layout: params.get('layout') === 'board' ? 'board' : 'table',
+    sortField: sortField && LEAD_SORT_FIELDS.includes(sortField) ? sortField : DEFAULT_LEADS_VIEW.sortField,
+    sortDirection: readDirection(params.get('dir'), DEFAULT_LEADS_VIEW.sortDirection),
+  };
+}
+
+/**
+ * Turn a view date (yyyy-MM-dd) into the start or end of that day for API filters
+ */
+export function viewDateToIso(date: string | null, edge: 'start' | 'end'): string | undefined {
+  if (!date) return undefined;
+  const day = parseISO(date);
+  return (edge === 'start' ? startOfDay(day) : endOfDay(day)).toISOString();
+}
+
+/**
+ * Format a picked date as a view date (yyyy-MM-dd)
+ */
+export function toViewDate(date: Date | undefined): string | null {
+  return date ? format(date, 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Replace a page's view parameters in the current query string, keeping the others
+ */
+export function replaceViewParams(current: URLSearchParams, viewParams: URLSearchParams, viewKeys: string[]): URLSearchParams {
+  const next = new URLSearchParams(current);
+  viewKeys.forEach(key => next.delete(key));
+  viewParams.forEach((value, key) => next.append(key, value));
+  return next;
+}
+
+/**
+ * Absolute link to a view
+ */
+export function buildViewLink(origin: string, pathname: string, viewParams: URLSearchParams): string {
+  const query = viewParams.toString();
+  return `${origin}${pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * The user's own views first, then views shared with them, each by name
+ */
+export function sortSavedViews(views: SavedView[], userId: string | undefined): SavedView[] {
+  return [...views].sort((a, b) => {
+    const aOwn = a.user_id === userId;
+    const bOwn = b.user_id === userId;
+    if (aOwn !== bOwn) return aOwn ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+}
@@ -135,11 +135,26 @@ class ThemeBackgroundSync {
      */
     private async syncToDatabase(preference: ThemePreference): Promise<void> {
         try {
+            // Merge into the stored preferences so other settings (notifications, display currency) are kept
+            const { data: current, error: fetchError } = await supabase
+                .from('users')
+                .select('preferences')
+                .eq('id', preference.userId)
+                .single();
+
+            if (fetchError) {
+                throw fetchError;
+            }
+
+            const preferences = (current?.preferences || {}) as Record<string, unknown>;
+
             const { error } = await supabase
                 .from('users')
                 .update({
                     preferences: {
+                        ...preferences,
                         displaySettings: {
+                            ...((preferences.displaySettings || {}) as Record<string, unknown>),
                             theme: preference.theme
                         }
                     }
@@ -1,4 +1,5 @@
 import { ThemeType } from '@/services/themeService';
+import { isCurrencyCode, type CurrencyCode } from '@/utils/currency';
 
 /**
  * Theme validation and sanitization utilities
@@ -15,6 +16,7 @@ export interface UserPreferences {
   displaySettings?: {
     theme?: string | ThemeType;
     dashboardLayout?: string;
+    currency?: CurrencyCode;
   };
   notifications?: any;
   language?: string;
@@ -124,6 +126,15 @@ export class ThemeValidator {
             warnings.push('Dashboard layout must be a string, ignoring');
           }
         }
+
+        // Validate display currency (not set means the client's billing currency)
+        if (prefs.displaySettings.currency !== undefined) {
+          if (isCurrencyCode(prefs.displaySettings.currency)) {
+            sanitized.displaySettings.currency = prefs.displaySettings.currency;
+          } else {
+            warnings.push(`Invalid display currency: "${prefs.displaySettings.currency}", ignoring`);
+          }
+        }
       } else {
         errors.push('displaySettings must be an object, ignoring');
         sanitized.displaySettings = { theme: this.DEFAULT_THEME };
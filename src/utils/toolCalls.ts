@@ -0,0 +1,227 @@
+/**
+ * Utility functions for agent tool calls
+ * Pairs tool calls with their results, classifies results as success, empty or
+ * failed, and builds the per-tool statistics shown in Analytics > Tools
+ */
+import type {
+  ToolArgumentBreakdown,
+  ToolCallRow,
+  ToolInvocation,
+  ToolResultStatus,
+  ToolStats,
+} from '@/types/toolCalls';
+
+export const TOOL_RESULT_STATUS_LABELS: Record<ToolResultStatus, string> = {
+  success: 'Returned data',
+  empty: 'Empty result',
+  failed: 'Failed',
+};
+
+const FAILED_PATTERN = /\b(error|exception|failed|failure|timed out|timeout|unauthori[sz]ed|forbidden|unavailable)\b/i;
+const EMPTY_PATTERN = /\b(no (results?|matches|matching|vehicles?|inventory|availability|records?|data)|nothing found|not found|could(?:n't| not) find|0 results)\b/i;
+
+const MAX_ARGUMENT_VALUE_LENGTH = 60;
+
+const percentage = (part: number, total: number): number =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parse tool arguments, which may be stored as an object, a JSON string, or a
+ * JSON string with escaped quotes
+ * @returns null when the arguments aren't a JSON object
+ */
+export function parseToolArguments(args: unknown): Record<string, unknown> | null {
+  if (isRecord(args)) return args;
+  if (typeof args !== 'string') return null;
+
+  for (const candidate of [args, args.replace(/\\"/g, '"')]) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (isRecord(parsed)) return parsed;
+      if (typeof parsed === 'string') return parseToolArguments(parsed);
+    } catch {
+      // Try the next form
+    }
+  }
+
+  return null;
+}
+
+const classifyParsedResult = (parsed: unknown): ToolResultStatus => {
+  if (parsed === null || parsed === '') return 'empty';
+  if (typeof parsed === 'string') return classifyToolResult(parsed);
+  if (Array.isArray(parsed)) return parsed.length === 0 ? 'empty' : 'success';
+  if (!isRecord(parsed)) return 'success';
+
+  const status = typeof parsed.status === 'string' ? parsed.status : '';
+  if (parsed.error || parsed.success === false || /error|fail/i.test(status)) return 'failed';
+
+  const values = Object.values(parsed);
+  if (values.length === 0) return 'empty';
+  if (parsed.count === 0 || parsed.total === 0) return 'empty';
+
+  // {"vehicles": [], "message": "..."}: every list in the result is empty
+  const lists = values.filter(Array.isArray);
+  if (lists.length > 0 && lists.every(list => list.length === 0)) return 'empty';
+
+  return 'success';
+};
+
+/**
+ * Classify a tool result
+ * A missing result counts as failed, since the agent never got an answer
+ */
+export function classifyToolResult(result: string | null | undefined): ToolResultStatus {
+  if (result === null || result === undefined) return 'failed';
+
+  const text = result.trim();
+  if (!text || text === 'null') return 'empty';
+
+  if (/^[[{"]/.test(text)) {
+    try {
+      return classifyParsedResult(JSON.parse(text));
+    } catch {
+      // Not JSON; classify as text
+    }
+  }
+
+  if (FAILED_PATTERN.test(text)) return 'failed';
+  if (EMPTY_PATTERN.test(text)) return 'empty';
+  return 'success';
+}
+
+/**
+ * Pair each tool call with its result; results without a call are dropped
+ * @returns Invocations, newest first
+ */
+export function pairToolCalls(rows: ToolCallRow[]): ToolInvocation[] {
+  const results = new Map<string, string | null>();
+  rows.forEach(row => {
+    if (row.role === 'tool_call_result') results.set(row.id, row.result);
+  });
+
+  return rows
+    .filter(row => row.role === 'tool_calls')
+    .map(row => {
+      const result = results.get(row.id) ?? null;
+      return {
+        id: row.id,
+        call_id: row.call_id,
+        client_id: row.client_id,
+        client_name: row.clients?.name ?? null,
+        tool_name: row.tool_name || 'unknown',
+        arguments: parseToolArguments(row.arguments),
+        result,
+        status: classifyToolResult(result),
+        created_at: row.created_at,
+      };
+    })
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Invocation, call, failure and empty-result counts by tool
+ * @param byClient Split each tool's numbers by client
+ * @returns Most used first
+ */
+export function getToolStats(invocations: ToolInvocation[], byClient = false): ToolStats[] {
+  const groups = new Map<string, { stats: ToolStats; callIds: Set<string> }>();
+
+  invocations.forEach(invocation => {
+    const key = byClient ? `${invocation.tool_name}\u0000${invocation.client_id}` : invocation.tool_name;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        stats: {
+          tool_name: invocation.tool_name,
+          client_id: byClient ? invocation.client_id : null,
+          client_name: byClient ? invocation.client_name : null,
+          invocations: 0,
+          calls: 0,
+          failed: 0,
+          empty: 0,
+          failureRate: 0,
+          emptyRate: 0,
+        },
+        callIds: new Set(),
+      };
+      groups.set(key, group);
+    }
+
+    group.stats.invocations += 1;
+    group.callIds.add(invocation.call_id);
+    if (invocation.status === 'failed') group.stats.failed += 1;
+    if (invocation.status === 'empty') group.stats.empty += 1;
+  });
+
+  return [...groups.values()]
+    .map(({ stats, callIds }) => ({
+      ...stats,
+      calls: callIds.size,
+      failureRate: percentage(stats.failed, stats.invocations),
+      emptyRate: percentage(stats.empty, stats.invocations),
+    }))
+    .sort((a, b) => b.invocations - a.invocations || a.tool_name.localeCompare(b.tool_name));
+}
+
+const formatArgumentValue = (value: unknown): string => {
+  const text = Array.isArray(value)
+    ? value.map(formatArgumentValue).join(', ')
+    : isRecord(value) ? JSON.stringify(value) : String(value);
+  const trimmed = text.trim() || '(blank)';
+  return trimmed.length > MAX_ARGUMENT_VALUE_LENGTH ? `${trimmed.slice(0, MAX_ARGUMENT_VALUE_LENGTH - 1)}…` : trimmed;
+};
+
+/**
+ * Whether an invocation passed a value from getArgumentBreakdown for an argument
+ */
+export function hasArgumentValue(invocation: ToolInvocation, key: string, value: string): boolean {
+  const rawValue = invocation.arguments?.[key];
+  if (rawValue === null || rawValue === undefined) return false;
+  return formatArgumentValue(rawValue).toLowerCase() === value.toLowerCase();
+}
+
+/**
+ * Which arguments one tool is called with, and how each value fared
+ * Values are grouped case-insensitively, most common first
+ * @param limit Values kept per argument
+ */
+export function getArgumentBreakdown(invocations: ToolInvocation[], toolName: string, limit = 10): ToolArgumentBreakdown[] {
+  const keys = new Map<string, { invocations: number; values: Map<string, ToolArgumentBreakdown['values'][number]> }>();
+
+  invocations
+    .filter(invocation => invocation.tool_name === toolName && invocation.arguments)
+    .forEach(invocation => {
+      Object.entries(invocation.arguments!).forEach(([key, rawValue]) => {
+        if (rawValue === null || rawValue === undefined) return;
+
+        let entry = keys.get(key);
+        if (!entry) {
+          entry = { invocations: 0, values: new Map() };
+          keys.set(key, entry);
+        }
+        entry.invocations += 1;
+
+        const value = formatArgumentValue(rawValue);
+        const valueKey = value.toLowerCase();
+        const valueEntry = entry.values.get(valueKey) ?? { value, count: 0, empty: 0, failed: 0 };
+        valueEntry.count += 1;
+        if (invocation.status === 'empty') valueEntry.empty += 1;
+        if (invocation.status === 'failed') valueEntry.failed += 1;
+        entry.values.set(valueKey, valueEntry);
+      });
+    });
+
+  return [...keys.entries()]
+    .map(([key, entry]) => ({
+      key,
+      invocations: entry.invocations,
+      values: [...entry.values.values()]
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+        .slice(0, limit),
+    }))
+    .sort((a, b) => b.invocations - a.invocations || a.key.localeCompare(b.key));
+}
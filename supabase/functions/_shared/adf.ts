@@ -0,0 +1,150 @@
+// supabase/functions/_shared/adf.ts
+// Builds ADF (Auto-lead Data Format) 1.0 XML, the format dealership CRMs import leads from
+// Shared by the deliver-leads function and the app's ADF export (src/utils/leadAdf.ts),
+// so it must not import anything
+
+export interface AdfLead {
+  id: string;
+  full_name: string;
+  phone_number: string;
+  email?: string | null;
+  notes?: string | null;
+  created_at: string;
+  callback_timing_value?: string | null;
+  custom_lead_data?: Record<string, unknown> | string | null;
+  sent_to_client_at?: string | null;
+  // From the lead's call: calls.call_summary and call_intelligence.vehicle_interest
+  call_summary?: string | null;
+  vehicle_interest?: Record<string, unknown> | null;
+}
+
+export interface AdfVendor {
+  name: string;
+}
+
+export interface AdfOptions {
+  includeNotes?: boolean;
+}
+
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Split a full name into ADF first and last name parts
+ * Everything before the last word is the first name ("Mary Ann Smith" -> "Mary Ann", "Smith")
+ */
+export const splitFullName = (fullName: string): { first: string; last: string } => {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { first: parts[0] || '', last: '' };
+  return { first: parts.slice(0, -1).join(' '), last: parts[parts.length - 1] };
+};
+
+const readCustomData = (customData: AdfLead['custom_lead_data']): Record<string, unknown> => {
+  if (!customData) return {};
+  if (typeof customData === 'object') return customData;
+  try {
+    const parsed = JSON.parse(customData);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// First non-empty custom field among the given keys (the agent's field names vary by client)
+const pick = (data: Record<string, unknown>, keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = data[key];
+    if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+  }
+  return null;
+};
+
+// An unreadable created_at leaves the request date empty rather than failing the whole document
+const formatRequestDate = (createdAt: string): string => {
+  const date = new Date(createdAt);
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+/**
+ * Build one <prospect> element for a lead
+ * Leads already sent to the dealership are marked status="resend" so CRMs can skip duplicates
+ */
+export function buildAdfProspect(lead: AdfLead, vendor: AdfVendor, options: AdfOptions = {}): string {
+  // Vehicle interest from call intelligence, else the agent's custom fields
+  const vehicle = lead.vehicle_interest && typeof lead.vehicle_interest === 'object' ? lead.vehicle_interest : {};
+  const data = readCustomData(lead.custom_lead_data);
+  const { first, last } = splitFullName(lead.full_name || '');
+  const year = pick(vehicle, ['year']) ?? pick(data, ['vehicle_year', 'year']);
+  const make = pick(vehicle, ['make']) ?? pick(data, ['vehicle_make', 'make']);
+  const model = pick(vehicle, ['model']) ?? pick(data, ['vehicle_model', 'model']);
+  const trim = pick(vehicle, ['trim']);
+  const priceRange = pick(vehicle, ['price_range']);
+  const comments = [
+    lead.call_summary?.trim() ? `Call summary: ${lead.call_summary.trim()}` : null,
+    lead.callback_timing_value ? `Requested callback: ${lead.callback_timing_value}` : null,
+    options.includeNotes && lead.notes?.trim() ? `Notes: ${lead.notes.trim()}` : null,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    `  <prospect status="${lead.sent_to_client_at ? 'resend' : 'new'}">`,
+    `    <id sequence="1" source="Dealermate">${escapeXml(lead.id)}</id>`,
+    `    <requestdate>${formatRequestDate(lead.created_at)}</requestdate>`,
+  ];
+
+  if (year || make || model || trim || priceRange) {
+    lines.push('    <vehicle interest="buy" status="new">');
+    if (year) lines.push(`      <year>${escapeXml(year)}</year>`);
+    if (make) lines.push(`      <make>${escapeXml(make)}</make>`);
+    if (model) lines.push(`      <model>${escapeXml(model)}</model>`);
+    if (trim) lines.push(`      <trim>${escapeXml(trim)}</trim>`);
+    // ADF prices must be numbers, so the spoken price range goes in the comments
+    if (priceRange) lines.push(`      <comments>${escapeXml(`Price range: ${priceRange}`)}</comments>`);
+    lines.push('    </vehicle>');
+  }
+
+  lines.push(
+    '    <customer>',
+    '      <contact>',
+    `        <name part="first">${escapeXml(first)}</name>`,
+    `        <name part="last">${escapeXml(last)}</name>`,
+  );
+  if (lead.email) lines.push(`        <email>${escapeXml(lead.email)}</email>`);
+  lines.push(
+    `        <phone type="voice">${escapeXml(lead.phone_number || '')}</phone>`,
+    '      </contact>',
+  );
+  if (comments) lines.push(`      <comments>${escapeXml(comments)}</comments>`);
+  lines.push(
+    '    </customer>',
+    '    <vendor>',
+    `      <vendorname>${escapeXml(vendor.name)}</vendorname>`,
+    '    </vendor>',
+    '    <provider>',
+    '      <name part="full">Dealermate AI Agent</name>',
+    '    </provider>',
+    '  </prospect>',
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Build an ADF document with one prospect per lead
+ */
+export function buildAdfDocument(leads: AdfLead[], vendor: AdfVendor, options: AdfOptions = {}): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?adf version="1.0"?>',
+    '<adf>',
+    ...leads.map(lead => buildAdfProspect(lead, vendor, options)),
+    '</adf>',
+  ].join('\n');
+}
@@ -0,0 +1,402 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import { buildAdfDocument, AdfLead } from '../_shared/adf.ts'
+
+// CORS headers for preflight requests and responses
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Retry policy, the same exponential backoff with jitter as useRetryWithBackoff
+const INITIAL_RETRY_DELAY = 60 * 1000 // 1 minute
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000 // 6 hours
+const BACKOFF_FACTOR = 4
+const WEBHOOK_TIMEOUT = 10000
+
+interface DeliverLeadsPayload {
+  deliveryIds?: string[];
+  resend?: boolean;
+}
+
+interface Delivery {
+  id: string;
+  lead_id: string;
+  client_id: string;
+  channel_id: string;
+  channel_type: 'email_digest' | 'adf_email' | 'webhook';
+  destination: string;
+  attempt_count: number;
+  max_attempts: number;
+}
+
+interface Channel {
+  id: string;
+  type: Delivery['channel_type'];
+  enabled?: boolean;
+  recipients?: string[];
+  url?: string | null;
+  secret?: string | null;
+}
+
+interface Client {
+  id: string;
+  name: string;
+  config_json: { lead_delivery?: { channels?: Channel[] } } | null;
+}
+
+type Lead = AdfLead & { client_id: string; call_id: string | null };
+
+interface SendResult {
+  responseStatus: number | null;
+}
+
+// Delay before the next try after a failed attempt (attempt is 1-based)
+const calculateDelay = (attempt: number): number => {
+  const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(BACKOFF_FACTOR, attempt - 1), MAX_RETRY_DELAY)
+  // Add some jitter so failed deliveries to one endpoint don't all retry together
+  return delay + Math.random() * 30000
+}
+
+// Callers are the scheduled job (service role key) or an admin resending deliveries
+async function authorize(supabase: SupabaseClient, authHeader: string | null): Promise<string | null> {
+  if (!authHeader) {
+    throw new Error('Missing Authorization header')
+  }
+  const token = authHeader.replace('Bearer ', '')
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return null
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+  if (authError || !user) {
+    throw new Error('Authentication failed')
+  }
+
+  const { data: userProfile, error: profileError } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !userProfile) {
+    throw new Error('Could not retrieve user profile.')
+  }
+
+  if (userProfile.role !== 'admin' && userProfile.role !== 'owner') {
+    throw new Error('Permission denied. User must be an admin or owner.')
+  }
+
+  return user.id
+}
+
+async function sendEmail(to: string[], subject: string, content: string): Promise<SendResult> {
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get('SMTP_HOST') ?? '',
+      port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+      tls: Deno.env.get('SMTP_PORT') === '465',
+      auth: {
+        username: Deno.env.get('SMTP_USER') ?? '',
+        password: Deno.env.get('SMTP_PASS') ?? '',
+      },
+    },
+  })
+
+  try {
+    await client.send({
+      from: Deno.env.get('SMTP_SENDER') ?? 'no-reply@dealermate.ca',
+      to,
+      subject,
+      content,
+    })
+  } finally {
+    await client.close()
+  }
+
+  return { responseStatus: null }
+}
+
+async function signBody(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body))
+  return Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function sendWebhook(channel: Channel, delivery: Delivery, lead: Lead, client: Client): Promise<SendResult> {
+  const body = JSON.stringify({
+    event: 'lead.created',
+    delivery_id: delivery.id,
+    client: { id: client.id, name: client.name },
+    lead: {
+      id: lead.id,
+      full_name: lead.full_name,
+      phone_number: lead.phone_number,
+      email: lead.email ?? null,
+      notes: lead.notes ?? null,
+      callback_timing: lead.callback_timing_value ?? null,
+      custom_lead_data: lead.custom_lead_data ?? null,
+      call_summary: lead.call_summary ?? null,
+      vehicle_interest: lead.vehicle_interest ?? null,
+      call_id: lead.call_id,
+      created_at: lead.created_at,
+    },
+  })
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (channel.secret) {
+    headers['X-Dealermate-Signature'] = `sha256=${await signBody(channel.secret, body)}`
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT)
+  try {
+    const response = await fetch(channel.url ?? '', { method: 'POST', headers, body, signal: controller.signal })
+    if (!response.ok) {
+      const error = new Error(`Webhook responded with ${response.status} ${response.statusText}`) as Error & { responseStatus?: number }
+      error.responseStatus = response.status
+      throw error
+    }
+    return { responseStatus: response.status }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+const formatDigestEntry = (lead: Lead): string => [
+  `${lead.full_name} - ${lead.phone_number}${lead.email ? ` - ${lead.email}` : ''}`,
+  `Received: ${new Date(lead.created_at).toUTCString()}`,
+  lead.callback_timing_value ? `Requested callback: ${lead.callback_timing_value}` : null,
+  lead.notes ? `Notes: ${lead.notes}` : null,
+].filter(Boolean).join('\n')
+
+// Record one try and move the delivery to delivered, retrying or failed
+async function recordAttempt(
+  supabase: SupabaseClient,
+  delivery: Delivery,
+  outcome: { succeeded: boolean; responseStatus: number | null; error: string | null; durationMs: number },
+  triggeredBy: string | null
+) {
+  const { count } = await supabase
+    .from('lead_delivery_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('delivery_id', delivery.id)
+
+  await supabase.from('lead_delivery_attempts').insert({
+    delivery_id: delivery.id,
+    client_id: delivery.client_id,
+    attempt_number: (count ?? 0) + 1,
+    succeeded: outcome.succeeded,
+    response_status: outcome.responseStatus,
+    error: outcome.error,
+    duration_ms: outcome.durationMs,
+    triggered_by: triggeredBy,
+  })
+
+  const attemptCount = delivery.attempt_count + 1
+  const now = new Date()
+
+  if (outcome.succeeded) {
+    await supabase
+      .from('lead_deliveries')
+      .update({ status: 'delivered', attempt_count: attemptCount, delivered_at: now.toISOString(), last_error: null })
+      .eq('id', delivery.id)
+
+    // Mark the lead as sent (the first delivery wins; the timeline trigger records it)
+    await supabase
+      .from('leads')
+      .update({ sent_to_client_at: now.toISOString(), sent_to: delivery.destination })
+      .eq('id', delivery.lead_id)
+      .is('sent_to_client_at', null)
+    return
+  }
+
+  const exhausted = attemptCount >= delivery.max_attempts
+  await supabase
+    .from('lead_deliveries')
+    .update({
+      status: exhausted ? 'failed' : 'retrying',
+      attempt_count: attemptCount,
+      last_error: outcome.error,
+      next_attempt_at: new Date(now.getTime() + (exhausted ? 0 : calculateDelay(attemptCount))).toISOString(),
+    })
+    .eq('id', delivery.id)
+}
+
+// Try a group of deliveries that go out together (one digest email, or a single delivery)
+async function attempt(
+  supabase: SupabaseClient,
+  deliveries: Delivery[],
+  send: () => Promise<SendResult>,
+  triggeredBy: string | null
+): Promise<boolean> {
+  const startedAt = Date.now()
+  let outcome
+  try {
+    const result = await send()
+    outcome = { succeeded: true, responseStatus: result.responseStatus, error: null }
+  } catch (error) {
+    outcome = {
+      succeeded: false,
+      responseStatus: (error as { responseStatus?: number }).responseStatus ?? null,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+
+  const durationMs = Date.now() - startedAt
+  for (const delivery of deliveries) {
+    await recordAttempt(supabase, delivery, { ...outcome, durationMs }, triggeredBy)
+  }
+  return outcome.succeeded
+}
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    const triggeredBy = await authorize(supabaseAdmin, req.headers.get('Authorization'))
+    const { deliveryIds, resend }: DeliverLeadsPayload = await req.json().catch(() => ({}))
+
+    // Resends start a fresh round of retries
+    if (resend && deliveryIds?.length) {
+      const { error: resetError } = await supabaseAdmin
+        .from('lead_deliveries')
+        .update({ status: 'pending', attempt_count: 0, next_attempt_at: new Date().toISOString(), last_error: null })
+        .in('id', deliveryIds)
+        .neq('status', 'sending')
+
+      if (resetError) throw new Error(`Failed to reset deliveries: ${resetError.message}`)
+    }
+
+    const { data: claimed, error: claimError } = await supabaseAdmin.rpc('claim_lead_deliveries', {
+      p_delivery_ids: deliveryIds?.length ? deliveryIds : null,
+    })
+    if (claimError) throw new Error(`Failed to claim deliveries: ${claimError.message}`)
+
+    const deliveries = (claimed || []) as Delivery[]
+    if (deliveries.length === 0) {
+      return new Response(JSON.stringify({ success: true, delivered: 0, failed: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      })
+    }
+
+    const [{ data: leads, error: leadsError }, { data: clients, error: clientsError }] = await Promise.all([
+      supabaseAdmin
+        .from('leads')
+        .select('id, client_id, call_id, full_name, phone_number, email, notes, created_at, callback_timing_value, custom_lead_data, sent_to_client_at')
+        .in('id', [...new Set(deliveries.map(delivery => delivery.lead_id))]),
+      supabaseAdmin
+        .from('clients')
+        .select('id, name, config_json')
+        .in('id', [...new Set(deliveries.map(delivery => delivery.client_id))]),
+    ])
+    if (leadsError) throw new Error(`Failed to load leads: ${leadsError.message}`)
+    if (clientsError) throw new Error(`Failed to load clients: ${clientsError.message}`)
+
+    // The call summary and vehicle interest from each lead's call go into the ADF and webhook payloads
+    const callIds = [...new Set((leads as Lead[]).map(lead => lead.call_id).filter((id): id is string => !!id))]
+    const [{ data: calls }, { data: intelligence }] = callIds.length > 0
+      ? await Promise.all([
+          supabaseAdmin.from('calls').select('id, call_summary').in('id', callIds),
+          supabaseAdmin.from('call_intelligence').select('call_id, vehicle_interest').in('call_id', callIds),
+        ])
+      : [{ data: [] }, { data: [] }]
+    const summaryByCallId = new Map((calls || []).map((call: { id: string; call_summary: string | null }) => [call.id, call.call_summary]))
+    const vehicleByCallId = new Map((intelligence || []).map((row: { call_id: string; vehicle_interest: Record<string, unknown> | null }) => [row.call_id, row.vehicle_interest]))
+
+    const leadById = new Map((leads as Lead[]).map(lead => [lead.id, {
+      ...lead,
+      call_summary: lead.call_id ? summaryByCallId.get(lead.call_id) ?? null : null,
+      vehicle_interest: lead.call_id ? vehicleByCallId.get(lead.call_id) ?? null : null,
+    }]))
+    const clientById = new Map((clients as Client[]).map(client => [client.id, client]))
+    const findChannel = (delivery: Delivery) =>
+      clientById.get(delivery.client_id)?.config_json?.lead_delivery?.channels
+        ?.find(channel => channel.id === delivery.channel_id && channel.type === delivery.channel_type)
+
+    let delivered = 0
+    let failed = 0
+    const digests = new Map<string, Delivery[]>()
+
+    for (const delivery of deliveries) {
+      const lead = leadById.get(delivery.lead_id)
+      const client = clientById.get(delivery.client_id)
+      const channel = findChannel(delivery)
+
+      // Channels removed or disabled since the lead was queued can't be retried
+      if (!lead || !client || !channel || channel.enabled === false) {
+        await recordAttempt(supabaseAdmin, { ...delivery, max_attempts: 0 }, {
+          succeeded: false,
+          responseStatus: null,
+          error: !lead ? 'Lead no longer exists' : 'Delivery channel is no longer configured',
+          durationMs: 0,
+        }, triggeredBy)
+        failed++
+        continue
+      }
+
+      if (delivery.channel_type === 'email_digest') {
+        const key = `${delivery.client_id}:${delivery.channel_id}`
+        digests.set(key, [...(digests.get(key) ?? []), delivery])
+        continue
+      }
+
+      const recipients = channel.recipients ?? []
+      const succeeded = delivery.channel_type === 'webhook'
+        ? await attempt(supabaseAdmin, [delivery], () => sendWebhook(channel, delivery, lead, client), triggeredBy)
+        : await attempt(supabaseAdmin, [delivery], () => sendEmail(
+            recipients,
+            `ADF lead: ${lead.full_name}`,
+            // The dealership's CRM gets the lead's notes, as in the digest
+            buildAdfDocument([lead], { name: client.name }, { includeNotes: true })
+          ), triggeredBy)
+
+      if (succeeded) delivered++
+      else failed++
+    }
+
+    for (const digestDeliveries of digests.values()) {
+      const client = clientById.get(digestDeliveries[0].client_id)!
+      const channel = findChannel(digestDeliveries[0])!
+      const digestLeads = digestDeliveries.map(delivery => leadById.get(delivery.lead_id)!)
+
+      const succeeded = await attempt(supabaseAdmin, digestDeliveries, () => sendEmail(
+        channel.recipients ?? [],
+        `${digestLeads.length} new lead${digestLeads.length === 1 ? '' : 's'} for ${client.name}`,
+        digestLeads.map(formatDigestEntry).join('\n\n')
+      ), triggeredBy)
+
+      if (succeeded) delivered += digestDeliveries.length
+      else failed += digestDeliveries.length
+    }
+
+    return new Response(JSON.stringify({ success: true, delivered, failed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+})
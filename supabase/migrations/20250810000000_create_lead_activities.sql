@@ -0,0 +1,88 @@
+-- Lead activity timeline
+-- Replaces appending to the single leads.notes column with timestamped, authored
+-- activity rows (notes, status changes, delivery and appointment events).
+
+create table if not exists public.lead_activities (
+  id uuid not null default gen_random_uuid (),
+  lead_id uuid not null,
+  client_id uuid not null,
+  activity_type text not null,
+  content text null,
+  metadata jsonb null,
+  created_by uuid null,
+  created_at timestamp with time zone not null default now(),
+  constraint lead_activities_pkey primary key (id),
+  constraint lead_activities_lead_id_fkey foreign KEY (lead_id) references leads (id) on delete CASCADE,
+  constraint lead_activities_client_id_fkey foreign KEY (client_id) references clients (id) on delete CASCADE,
+  constraint lead_activities_created_by_fkey foreign KEY (created_by) references users (id) on delete set null,
+  constraint lead_activities_activity_type_check check (
+    (
+      activity_type = any (
+        array[
+          'note'::text,
+          'status_change'::text,
+          'sent_to_client'::text,
+          'appointment_confirmed'::text
+        ]
+      )
+    )
+  )
+) TABLESPACE pg_default;
+
+create index IF not exists idx_lead_activities_lead_id_created_at on public.lead_activities using btree (lead_id, created_at desc) TABLESPACE pg_default;
+
+create index IF not exists idx_lead_activities_client_id on public.lead_activities using btree (client_id) TABLESPACE pg_default;
+
+-- Client data isolation: same helpers as the notifications policies
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "lead_activities_select_policy" ON lead_activities;
+DROP POLICY IF EXISTS "lead_activities_insert_policy" ON lead_activities;
+DROP POLICY IF EXISTS "lead_activities_delete_policy" ON lead_activities;
+
+CREATE POLICY "lead_activities_select_policy" ON lead_activities
+    FOR SELECT USING (
+        is_admin_or_owner() OR
+        user_has_client_access(client_id)
+    );
+
+-- Authors can only write activities as themselves, for leads of a client they can access
+CREATE POLICY "lead_activities_insert_policy" ON lead_activities
+    FOR INSERT WITH CHECK (
+        user_has_client_access(client_id) AND
+        (created_by IS NULL OR created_by = auth.uid()) AND
+        EXISTS (
+            SELECT 1 FROM leads
+            WHERE leads.id = lead_activities.lead_id
+            AND leads.client_id = lead_activities.client_id
+        )
+    );
+
+-- Activities are an append-only history; only admins can remove entries
+CREATE POLICY "lead_activities_delete_policy" ON lead_activities
+    FOR DELETE USING (is_admin_or_owner());
+
+-- Record delivery and appointment events written to the leads row by the
+-- Make.com scenarios, so they appear in the timeline with their real timestamp
+CREATE OR REPLACE FUNCTION record_lead_milestone_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.sent_to_client_at IS NOT NULL AND OLD.sent_to_client_at IS DISTINCT FROM NEW.sent_to_client_at THEN
+        INSERT INTO lead_activities (lead_id, client_id, activity_type, metadata, created_at)
+        VALUES (NEW.id, NEW.client_id, 'sent_to_client', jsonb_build_object('sent_to', NEW.sent_to), NEW.sent_to_client_at);
+    END IF;
+
+    IF NEW.appointment_confirmed_at IS NOT NULL AND OLD.appointment_confirmed_at IS DISTINCT FROM NEW.appointment_confirmed_at THEN
+        INSERT INTO lead_activities (lead_id, client_id, activity_type, created_at)
+        VALUES (NEW.id, NEW.client_id, 'appointment_confirmed', NEW.appointment_confirmed_at);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS lead_milestone_activity_trigger ON leads;
+CREATE TRIGGER lead_milestone_activity_trigger
+    AFTER UPDATE OF sent_to_client_at, appointment_confirmed_at ON leads
+    FOR EACH ROW
+    EXECUTE FUNCTION record_lead_milestone_activity();
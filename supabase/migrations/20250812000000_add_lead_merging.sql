@@ -0,0 +1,117 @@
+-- Duplicate lead merging
+-- Leads are one-per-call_id, so a customer who calls back gets a second lead.
+-- Merging keeps the duplicate rows (and therefore their call links) but marks
+-- them as merged into a primary lead, which lists every source call.
+
+alter table public.leads
+  add column if not exists merged_into_lead_id uuid null,
+  add column if not exists merged_at timestamp with time zone null;
+
+alter table public.leads
+  drop constraint if exists leads_merged_into_lead_id_fkey;
+
+alter table public.leads
+  add constraint leads_merged_into_lead_id_fkey foreign KEY (merged_into_lead_id) references leads (id) on delete set null;
+
+create index IF not exists idx_leads_merged_into_lead_id on public.leads using btree (merged_into_lead_id) TABLESPACE pg_default
+where
+  merged_into_lead_id is not null;
+
+-- Allow 'merged' entries on the activity timeline
+alter table public.lead_activities
+  drop constraint if exists lead_activities_activity_type_check;
+
+alter table public.lead_activities
+  add constraint lead_activities_activity_type_check check (
+    (
+      activity_type = any (
+        array[
+          'note'::text,
+          'status_change'::text,
+          'sent_to_client'::text,
+          'appointment_confirmed'::text,
+          'merged'::text
+        ]
+      )
+    )
+  );
+
+-- Merge duplicate leads into a primary lead in one transaction
+-- p_updates may contain full_name, phone_number, email, notes and custom_lead_data
+CREATE OR REPLACE FUNCTION merge_leads(
+    p_primary_lead_id UUID,
+    p_duplicate_lead_ids UUID[],
+    p_updates JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF leads AS $$
+DECLARE
+    primary_lead leads%ROWTYPE;
+    duplicate_count INTEGER;
+    merged_call_ids UUID[];
+BEGIN
+    SELECT * INTO primary_lead FROM leads WHERE id = p_primary_lead_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Primary lead % not found', p_primary_lead_id;
+    END IF;
+
+    -- Client data isolation: the caller must have access to the lead's client
+    IF NOT (is_admin_or_owner() OR user_has_client_access(primary_lead.client_id)) THEN
+        RAISE EXCEPTION 'Access denied to lead %', p_primary_lead_id;
+    END IF;
+
+    IF primary_lead.merged_into_lead_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Lead % has already been merged into another lead', p_primary_lead_id;
+    END IF;
+
+    IF p_primary_lead_id = ANY (p_duplicate_lead_ids) THEN
+        RAISE EXCEPTION 'A lead cannot be merged into itself';
+    END IF;
+
+    -- Duplicates must belong to the same client and not be merged already
+    SELECT count(*), array_agg(call_id) INTO duplicate_count, merged_call_ids
+    FROM leads
+    WHERE id = ANY (p_duplicate_lead_ids)
+      AND client_id = primary_lead.client_id
+      AND merged_into_lead_id IS NULL;
+
+    IF duplicate_count <> cardinality(p_duplicate_lead_ids) THEN
+        RAISE EXCEPTION 'All duplicate leads must be unmerged leads of the same client';
+    END IF;
+
+    UPDATE leads SET
+        full_name = COALESCE(p_updates->>'full_name', full_name),
+        phone_number = COALESCE(p_updates->>'phone_number', phone_number),
+        email = CASE WHEN p_updates ? 'email' THEN p_updates->>'email' ELSE email END,
+        notes = CASE WHEN p_updates ? 'notes' THEN p_updates->>'notes' ELSE notes END,
+        custom_lead_data = CASE WHEN p_updates ? 'custom_lead_data' THEN p_updates->'custom_lead_data' ELSE custom_lead_data END
+    WHERE id = p_primary_lead_id;
+
+    -- Leads previously merged into a duplicate now point at the primary lead
+    UPDATE leads SET merged_into_lead_id = p_primary_lead_id
+    WHERE merged_into_lead_id = ANY (p_duplicate_lead_ids);
+
+    UPDATE leads SET merged_into_lead_id = p_primary_lead_id, merged_at = now()
+    WHERE id = ANY (p_duplicate_lead_ids);
+
+    -- Keep the duplicates' notes and status history on the primary lead's timeline
+    UPDATE lead_activities SET lead_id = p_primary_lead_id
+    WHERE lead_id = ANY (p_duplicate_lead_ids);
+
+    INSERT INTO lead_activities (lead_id, client_id, activity_type, content, metadata, created_by)
+    VALUES (
+        p_primary_lead_id,
+        primary_lead.client_id,
+        'merged',
+        format('Merged %s duplicate lead(s)', duplicate_count),
+        jsonb_build_object('merged_lead_ids', to_jsonb(p_duplicate_lead_ids), 'merged_call_ids', to_jsonb(merged_call_ids)),
+        auth.uid()
+    );
+
+    RETURN QUERY SELECT * FROM leads WHERE id = p_primary_lead_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION merge_leads(UUID, UUID[], JSONB) IS 'Merge duplicate leads of the same client into a primary lead, keeping their call links';
+
+GRANT EXECUTE ON FUNCTION merge_leads(UUID, UUID[], JSONB) TO authenticated;
@@ -0,0 +1,168 @@
+-- Lead assignment
+-- A lead can be owned by a member of the dealership's staff (a client_user or
+-- client_admin of the lead's client). Assignment rules (manual, round-robin or
+-- by call_intelligence.inquiry_type) live in clients.config_json.lead_routing.
+
+alter table public.leads
+  add column if not exists assigned_to uuid null,
+  add column if not exists assigned_at timestamp with time zone null;
+
+alter table public.leads
+  drop constraint if exists leads_assigned_to_fkey;
+
+alter table public.leads
+  add constraint leads_assigned_to_fkey foreign KEY (assigned_to) references users (id) on delete set null;
+
+create index IF not exists idx_leads_assigned_to on public.leads using btree (assigned_to) TABLESPACE pg_default
+where
+  assigned_to is not null;
+
+-- Assignees must be staff of the lead's client
+CREATE OR REPLACE FUNCTION validate_lead_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.assigned_to IS NULL THEN
+        NEW.assigned_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = NEW.assigned_to
+        AND users.client_id = NEW.client_id
+        AND users.role IN ('client_admin', 'client_user')
+    ) THEN
+        RAISE EXCEPTION 'Leads can only be assigned to users of the same client';
+    END IF;
+
+    -- Reassignments always restart the clock, so routing rotates by when
+    -- each member last received a lead
+    IF TG_OP = 'INSERT' THEN
+        NEW.assigned_at := COALESCE(NEW.assigned_at, now());
+    ELSIF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+        NEW.assigned_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_lead_assignee_trigger ON leads;
+
+CREATE TRIGGER validate_lead_assignee_trigger
+    BEFORE INSERT OR UPDATE OF assigned_to ON leads
+    FOR EACH ROW EXECUTE FUNCTION validate_lead_assignee();
+
+-- Route each new lead under its client's rules as it arrives. Mirrors
+-- getAssigneePool/planLeadAssignments in src/utils/leadRouting.ts: the pool is
+-- the inquiry type's route (inquiry_type mode), else the round-robin pool,
+-- else all of the client's staff; the lead goes to the member after the one
+-- who most recently received a lead from that pool.
+CREATE OR REPLACE FUNCTION route_new_lead()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_routing JSONB;
+    v_mode TEXT;
+    v_staff TEXT[];
+    v_pool TEXT[];
+    v_inquiry_type TEXT;
+    v_route_ids JSONB;
+    v_last TEXT;
+    v_next UUID;
+BEGIN
+    IF NEW.assigned_to IS NOT NULL OR NEW.merged_into_lead_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT clients.config_json->'lead_routing' INTO v_routing
+    FROM clients WHERE clients.id = NEW.client_id;
+
+    v_mode := v_routing->>'mode';
+    IF v_mode IS NULL OR v_mode NOT IN ('round_robin', 'inquiry_type') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT array_agg(users.id::text ORDER BY users.full_name) INTO v_staff
+    FROM users
+    WHERE users.client_id = NEW.client_id
+    AND users.role IN ('client_admin', 'client_user');
+
+    IF v_staff IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Concurrent leads of one client take turns, so they don't pick the same member
+    PERFORM pg_advisory_xact_lock(hashtext('route_new_lead:' || NEW.client_id::text));
+
+    IF v_mode = 'inquiry_type' AND NEW.call_id IS NOT NULL
+        AND jsonb_typeof(v_routing->'inquiry_routes') = 'array' THEN
+        SELECT call_intelligence.inquiry_type INTO v_inquiry_type
+        FROM call_intelligence WHERE call_intelligence.call_id = NEW.call_id
+        LIMIT 1;
+
+        SELECT route->'assignee_ids' INTO v_route_ids
+        FROM jsonb_array_elements(v_routing->'inquiry_routes') AS route
+        WHERE lower(route->>'inquiry_type') = lower(v_inquiry_type)
+        LIMIT 1;
+
+        IF jsonb_typeof(v_route_ids) = 'array' THEN
+            SELECT array_agg(ids.id ORDER BY ids.position) INTO v_pool
+            FROM jsonb_array_elements_text(v_route_ids) WITH ORDINALITY AS ids(id, position)
+            WHERE ids.id = ANY(v_staff);
+        END IF;
+    END IF;
+
+    IF v_pool IS NULL AND jsonb_typeof(v_routing->'assignee_ids') = 'array' THEN
+        SELECT array_agg(ids.id ORDER BY ids.position) INTO v_pool
+        FROM jsonb_array_elements_text(v_routing->'assignee_ids') WITH ORDINALITY AS ids(id, position)
+        WHERE ids.id = ANY(v_staff);
+    END IF;
+
+    v_pool := COALESCE(v_pool, v_staff);
+
+    SELECT leads.assigned_to::text INTO v_last
+    FROM leads
+    WHERE leads.client_id = NEW.client_id
+    AND leads.id <> NEW.id
+    AND leads.assigned_to::text = ANY(v_pool)
+    ORDER BY COALESCE(leads.assigned_at, leads.created_at) DESC
+    LIMIT 1;
+
+    v_next := v_pool[COALESCE(array_position(v_pool, v_last), 0) % array_length(v_pool, 1) + 1]::uuid;
+
+    UPDATE leads SET assigned_to = v_next WHERE leads.id = NEW.id;
+
+    INSERT INTO lead_activities (lead_id, client_id, activity_type, metadata)
+    SELECT NEW.id, NEW.client_id, 'assigned',
+           jsonb_build_object('from', NULL, 'to', v_next, 'to_name', users.full_name, 'rule', v_mode)
+    FROM users WHERE users.id = v_next;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS route_new_lead_trigger ON leads;
+
+CREATE TRIGGER route_new_lead_trigger
+    AFTER INSERT ON leads
+    FOR EACH ROW EXECUTE FUNCTION route_new_lead();
+
+-- Allow 'assigned' entries on the activity timeline
+alter table public.lead_activities
+  drop constraint if exists lead_activities_activity_type_check;
+
+alter table public.lead_activities
+  add constraint lead_activities_activity_type_check check (
+    (
+      activity_type = any (
+        array[
+          'note'::text,
+          'status_change'::text,
+          'sent_to_client'::text,
+          'appointment_confirmed'::text,
+          'merged'::text,
+          'assigned'::text
+        ]
+      )
+    )
+  );
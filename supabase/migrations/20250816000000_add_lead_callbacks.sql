@@ -0,0 +1,390 @@
+-- Lead callback scheduling
+-- The agent captures when the customer wants a call back as free text
+-- (leads.callback_timing_value, e.g. "tomorrow after 3"). A trigger parses it
+-- in the client's timezone (clients.config_json.timezone) into
+-- callback_scheduled_at as the lead is written; staff can reschedule it by
+-- hand. Reminders for due callbacks are written to the notifications table by
+-- a scheduled job.
+
+alter table public.leads
+  add column if not exists callback_scheduled_at timestamp with time zone null,
+  add column if not exists callback_schedule_source text null,
+  add column if not exists callback_completed_at timestamp with time zone null,
+  add column if not exists callback_reminder_sent_at timestamp with time zone null;
+
+alter table public.leads
+  drop constraint if exists leads_callback_schedule_source_check;
+
+-- 'unparsed' marks timing text that could not be read, so it is not parsed again
+alter table public.leads
+  add constraint leads_callback_schedule_source_check check (
+    callback_schedule_source is null
+    or callback_schedule_source = any (array['parsed'::text, 'manual'::text, 'unparsed'::text])
+  );
+
+create index IF not exists idx_leads_callback_due on public.leads using btree (callback_scheduled_at) TABLESPACE pg_default
+where
+  callback_scheduled_at is not null
+  and callback_completed_at is null;
+
+-- Allow 'callback_scheduled' entries on the activity timeline
+alter table public.lead_activities
+  drop constraint if exists lead_activities_activity_type_check;
+
+alter table public.lead_activities
+  add constraint lead_activities_activity_type_check check (
+    (
+      activity_type = any (
+        array[
+          'note'::text,
+          'status_change'::text,
+          'sent_to_client'::text,
+          'appointment_confirmed'::text,
+          'merged'::text,
+          'assigned'::text,
+          'callback_scheduled'::text
+        ]
+      )
+    )
+  );
+
+-- Parse captured callback timing into the time to call back, or NULL when no
+-- day or time can be found. Mirrors parseCallbackTiming in
+-- src/utils/callbackTiming.ts: relative phrases count from p_reference, and
+-- times like "3pm" are wall-clock times in p_time_zone.
+CREATE OR REPLACE FUNCTION parse_callback_timing(
+    p_text TEXT,
+    p_reference TIMESTAMPTZ,
+    p_time_zone TEXT DEFAULT 'America/New_York'
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_text TEXT := btrim(regexp_replace(lower(COALESCE(p_text, '')), '\s+', ' ', 'g'));
+    v_local TIMESTAMP := p_reference AT TIME ZONE p_time_zone;
+    v_today DATE := (p_reference AT TIME ZONE p_time_zone)::date;
+    v_weekday INTEGER := extract(dow FROM p_reference AT TIME ZONE p_time_zone)::integer;
+    v_months TEXT[] := ARRAY['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+    v_match TEXT[];
+    v_amount DOUBLE PRECISION;
+    v_unit INTERVAL;
+    v_day_offset INTEGER;
+    v_month INTEGER;
+    v_day INTEGER;
+    v_target DATE;
+    v_hour INTEGER;
+    v_minute INTEGER := 0;
+    v_scheduled TIMESTAMPTZ;
+BEGIN
+    IF v_text = '' OR p_reference IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_text ~ '\y(asap|as soon as possible|right away|immediately|any ?time)\y' THEN
+        RETURN p_reference;
+    END IF;
+
+    -- "in 2 hours", "in an hour", "in 30 minutes", "in 3 days"
+    v_match := regexp_match(v_text, '\yin (\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|fifteen|twenty|thirty|forty five) (min|minute|hr|hour|day|week)s?\y');
+    IF v_match IS NOT NULL THEN
+        v_amount := CASE
+            WHEN v_match[1] ~ '^\d+$' THEN v_match[1]::double precision
+            ELSE CASE v_match[1]
+                WHEN 'a' THEN 1 WHEN 'an' THEN 1 WHEN 'one' THEN 1 WHEN 'two' THEN 2
+                WHEN 'three' THEN 3 WHEN 'four' THEN 4 WHEN 'five' THEN 5 WHEN 'six' THEN 6
+                WHEN 'seven' THEN 7 WHEN 'eight' THEN 8 WHEN 'nine' THEN 9 WHEN 'ten' THEN 10
+                WHEN 'fifteen' THEN 15 WHEN 'twenty' THEN 20 WHEN 'thirty' THEN 30 ELSE 45
+            END
+        END;
+        v_unit := CASE
+            WHEN v_match[2] LIKE 'min%' THEN interval '1 minute'
+            WHEN v_match[2] IN ('hr', 'hour') THEN interval '1 hour'
+            WHEN v_match[2] = 'day' THEN interval '24 hours'
+            ELSE interval '168 hours'
+        END;
+        RETURN p_reference + v_amount * v_unit;
+    END IF;
+
+    -- The day, as a number of days after the reference day
+    IF v_text ~ '\yday after tomorrow\y' THEN
+        v_day_offset := 2;
+    ELSIF v_text ~ '\y(tomorrow|tmrw|tmr|tomorow)\y' THEN
+        v_day_offset := 1;
+    ELSIF v_text ~ '\y(today|tonight|this (morning|afternoon|evening)|later)\y' THEN
+        v_day_offset := 0;
+    ELSIF v_text ~ '\ynext week\y' THEN
+        v_day_offset := COALESCE(NULLIF((8 - v_weekday) % 7, 0), 7); -- Next Monday
+    ELSIF v_text ~ '\y(this )?weekend\y' THEN
+        v_day_offset := COALESCE(NULLIF((6 - v_weekday + 7) % 7, 0), 7); -- Next Saturday
+    ELSE
+        v_match := regexp_match(v_text, '\y(next\s+)?(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|rsday|urday|sday)?\y');
+        IF v_match IS NOT NULL THEN
+            v_day_offset := COALESCE(NULLIF(
+                (array_position(ARRAY['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'], left(v_match[2], 3)) - 1 - v_weekday + 7) % 7,
+                0), 7);
+        ELSE
+            -- "July 20", "20 July" or "7/20"
+            v_match := COALESCE(
+                regexp_match(v_text, '\y([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\y'),
+                regexp_match(v_text, '\y(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]{3})[a-z]*\y')
+            );
+            IF v_match IS NOT NULL THEN
+                IF v_match[1] ~ '^\d+$' THEN
+                    v_month := array_position(v_months, v_match[2]);
+                    v_day := v_match[1]::integer;
+                ELSE
+                    v_month := array_position(v_months, v_match[1]);
+                    v_day := v_match[2]::integer;
+                END IF;
+            ELSE
+                v_match := regexp_match(v_text, '\y(\d{1,2})/(\d{1,2})\y');
+                IF v_match IS NOT NULL THEN
+                    v_month := v_match[1]::integer;
+                    v_day := v_match[2]::integer;
+                END IF;
+            END IF;
+
+            IF v_month BETWEEN 1 AND 12 AND v_day BETWEEN 1 AND 31 THEN
+                -- Days past the end of the month roll over, like Date.UTC
+                v_target := make_date(extract(year FROM v_today)::integer, v_month, 1) + (v_day - 1);
+                IF v_target < v_today THEN
+                    v_target := make_date(extract(year FROM v_today)::integer + 1, v_month, 1) + (v_day - 1);
+                END IF;
+                v_day_offset := v_target - v_today;
+            END IF;
+        END IF;
+    END IF;
+
+    -- The time of day; "after 3" or "at 5" without am/pm are read as business hours (1-7 -> pm)
+    v_match := regexp_match(v_text, '\y(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|$|[^a-z])');
+    IF v_match IS NOT NULL THEN
+        v_hour := v_match[1]::integer % 12 + CASE WHEN v_match[3] LIKE 'p%' THEN 12 ELSE 0 END;
+        v_minute := COALESCE(v_match[2]::integer, 0);
+    ELSE
+        v_match := regexp_match(v_text, '\y(at|after|around|about|by|before|@)\s*(\d{1,2})(?::(\d{2}))?\y(?!\s*(hour|hr|min|day|week))');
+        IF v_match IS NOT NULL THEN
+            IF v_match[2]::integer <= 23 AND COALESCE(v_match[3]::integer, 0) <= 59 THEN
+                v_hour := v_match[2]::integer;
+                v_minute := COALESCE(v_match[3]::integer, 0);
+                IF v_hour BETWEEN 1 AND 7 THEN
+                    v_hour := v_hour + 12;
+                END IF;
+                IF v_match[1] = 'before' THEN
+                    v_hour := v_hour - 1;
+                END IF;
+            END IF;
+        ELSE
+            v_match := regexp_match(v_text, '\y(\d{1,2}):(\d{2})\y');
+            IF v_match IS NOT NULL THEN
+                v_hour := v_match[1]::integer;
+                IF v_hour BETWEEN 1 AND 7 THEN
+                    v_hour := v_hour + 12;
+                END IF;
+                IF v_hour < 24 THEN
+                    v_minute := v_match[2]::integer;
+                ELSE
+                    v_hour := NULL;
+                END IF;
+            ELSE
+                v_hour := CASE
+                    WHEN v_text ~ '\y(morning|a\.?m\.?\s*sometime)\y' THEN 9
+                    WHEN v_text ~ '\y(noon|lunch|midday)\y' THEN 12
+                    WHEN v_text ~ '\yafternoon\y' THEN 13
+                    WHEN v_text ~ '\y(end of (the )?day|eod|after work)\y' THEN 16
+                    WHEN v_text ~ '\y(evening|tonight)\y' THEN 18
+                END;
+            END IF;
+        END IF;
+    END IF;
+
+    IF v_day_offset IS NULL AND v_hour IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- "today" or "later" with no time: an hour after the call
+    IF v_day_offset = 0 AND v_hour IS NULL THEN
+        RETURN p_reference + interval '1 hour';
+    END IF;
+
+    IF v_hour IS NULL THEN
+        v_hour := 10;
+        v_minute := 0;
+    END IF;
+
+    v_scheduled := ((v_today + COALESCE(v_day_offset, 0))::timestamp + make_interval(hours => v_hour, mins => v_minute)) AT TIME ZONE p_time_zone;
+
+    -- A time on its own ("after 3") that has already passed means the next day
+    IF v_day_offset IS NULL AND v_scheduled <= p_reference THEN
+        v_scheduled := ((v_today + 1)::timestamp + make_interval(hours => v_hour, mins => v_minute)) AT TIME ZONE p_time_zone;
+    END IF;
+
+    RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION parse_callback_timing(TEXT, TIMESTAMPTZ, TEXT) IS 'Parse free-text callback timing into a callback time in a timezone';
+
+-- Schedule the callback a lead's captured timing asks for, as soon as the
+-- timing is written. Timing that cannot be parsed is marked 'unparsed' so it
+-- is not retried until the timing is edited; editing the timing reschedules a
+-- parsed or unparsed callback, but a schedule set by hand is never overwritten.
+CREATE OR REPLACE FUNCTION schedule_captured_callback()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_time_zone TEXT;
+    v_scheduled_at TIMESTAMPTZ;
+BEGIN
+    IF NEW.callback_timing_value IS NULL
+        OR NEW.callback_schedule_source = 'manual'
+        OR NEW.merged_into_lead_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.callback_schedule_source IS NOT NULL
+        AND NEW.callback_timing_value IS NOT DISTINCT FROM OLD.callback_timing_value THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT clients.config_json->>'timezone' INTO v_time_zone
+    FROM clients WHERE clients.id = NEW.client_id;
+
+    IF v_time_zone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_time_zone) THEN
+        v_time_zone := 'America/New_York';
+    END IF;
+
+    v_scheduled_at := parse_callback_timing(NEW.callback_timing_value, COALESCE(NEW.created_at, now()), v_time_zone);
+
+    UPDATE leads
+    SET callback_scheduled_at = v_scheduled_at,
+        callback_schedule_source = CASE WHEN v_scheduled_at IS NULL THEN 'unparsed' ELSE 'parsed' END
+    WHERE leads.id = NEW.id;
+
+    IF v_scheduled_at IS NOT NULL THEN
+        INSERT INTO lead_activities (lead_id, client_id, activity_type, metadata)
+        VALUES (
+            NEW.id,
+            NEW.client_id,
+            'callback_scheduled',
+            jsonb_build_object(
+                'action', 'scheduled',
+                'scheduled_at', v_scheduled_at,
+                'time_zone', v_time_zone,
+                'source', 'parsed',
+                'timing_text', NEW.callback_timing_value
+            )
+        );
+    ELSIF NEW.callback_scheduled_at IS NOT NULL THEN
+        -- Edited timing that can't be read drops the schedule parsed from the old text
+        INSERT INTO lead_activities (lead_id, client_id, activity_type, metadata)
+        VALUES (
+            NEW.id,
+            NEW.client_id,
+            'callback_scheduled',
+            jsonb_build_object(
+                'action', 'cleared',
+                'scheduled_at', NULL,
+                'time_zone', v_time_zone,
+                'source', 'unparsed',
+                'timing_text', NEW.callback_timing_value
+            )
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS schedule_captured_callback_trigger ON leads;
+
+CREATE TRIGGER schedule_captured_callback_trigger
+    AFTER INSERT OR UPDATE OF callback_timing_value ON leads
+    FOR EACH ROW EXECUTE FUNCTION schedule_captured_callback();
+
+-- Write a 'callback_reminder' notification for each callback due within
+-- p_lead_minutes that has not been reminded yet. Run by pg_cron (below) for
+-- every client's leads; rows are locked so overlapping runs never send the
+-- same reminder twice.
+CREATE OR REPLACE FUNCTION send_due_callback_reminders(p_lead_minutes INTEGER DEFAULT 15)
+RETURNS INTEGER AS $$
+DECLARE
+    due_lead RECORD;
+    sent_count INTEGER := 0;
+BEGIN
+    FOR due_lead IN
+        SELECT leads.id, leads.client_id, leads.full_name, leads.phone_number, leads.call_id,
+               leads.callback_scheduled_at, leads.callback_timing_value, leads.assigned_to
+        FROM leads
+        WHERE leads.callback_scheduled_at IS NOT NULL
+        AND leads.callback_completed_at IS NULL
+        AND leads.callback_reminder_sent_at IS NULL
+        AND leads.merged_into_lead_id IS NULL
+        AND leads.callback_scheduled_at <= now() + make_interval(mins => GREATEST(p_lead_minutes, 0))
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        INSERT INTO notifications (type, title, body, call_id, client_id, from_number, from_name, payload)
+        VALUES (
+            'callback_reminder',
+            'Callback due: ' || COALESCE(NULLIF(due_lead.full_name, ''), due_lead.phone_number),
+            'Call ' || due_lead.phone_number || ' back'
+                || COALESCE(' (asked for "' || due_lead.callback_timing_value || '")', ''),
+            due_lead.call_id,
+            due_lead.client_id,
+            due_lead.phone_number,
+            due_lead.full_name,
+            jsonb_build_object(
+                'lead_id', due_lead.id,
+                'scheduled_at', due_lead.callback_scheduled_at,
+                'assigned_to', due_lead.assigned_to
+            )
+        );
+
+        UPDATE leads SET callback_reminder_sent_at = now() WHERE id = due_lead.id;
+        sent_count := sent_count + 1;
+    END LOOP;
+
+    RETURN sent_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION send_due_callback_reminders(INTEGER) IS 'Write reminder notifications for lead callbacks that are due';
+
+REVOKE EXECUTE ON FUNCTION send_due_callback_reminders(INTEGER) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_due_callback_reminders(INTEGER) TO service_role;
+
+-- A rescheduled callback gets a fresh reminder
+CREATE OR REPLACE FUNCTION reset_callback_reminder()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.callback_scheduled_at IS DISTINCT FROM OLD.callback_scheduled_at THEN
+        NEW.callback_reminder_sent_at := NULL;
+        NEW.callback_completed_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_callback_reminder_trigger ON leads;
+
+CREATE TRIGGER reset_callback_reminder_trigger
+    BEFORE UPDATE OF callback_scheduled_at ON leads
+    FOR EACH ROW EXECUTE FUNCTION reset_callback_reminder();
+
+-- Schedule the timing captured on leads from the last week, which arrived
+-- before the trigger existed
+UPDATE leads
+SET callback_timing_value = callback_timing_value
+WHERE callback_timing_value IS NOT NULL
+AND callback_schedule_source IS NULL
+AND merged_into_lead_id IS NULL
+AND created_at >= now() - interval '7 days';
+
+-- Send reminders every 5 minutes without anyone having the app open
+-- Note: This requires the pg_cron extension; enable it (Database -> Extensions)
+-- and run this migration's cron.schedule call again where it is missing
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('send-due-callback-reminders', '*/5 * * * *', 'SELECT send_due_callback_reminders();');
+    ELSE
+        RAISE NOTICE 'pg_cron is not enabled; callback reminders will not be sent until it is scheduled';
+    END IF;
+END $$;
@@ -0,0 +1,185 @@
+-- Lead delivery
+-- Each client configures delivery channels in clients.config_json.lead_delivery
+-- (email digest, ADF/XML email to their CRM, HTTP webhook). When a lead is
+-- created, one lead_deliveries row is queued per enabled channel. The
+-- deliver-leads edge function sends due deliveries, records every try in
+-- lead_delivery_attempts and retries failures with exponential backoff.
+
+create table if not exists public.lead_deliveries (
+  id uuid not null default gen_random_uuid (),
+  lead_id uuid not null,
+  client_id uuid not null,
+  channel_id text not null,
+  channel_type text not null,
+  destination text not null,
+  status text not null default 'pending'::text,
+  attempt_count integer not null default 0,
+  max_attempts integer not null default 5,
+  next_attempt_at timestamp with time zone not null default now(),
+  last_error text null,
+  delivered_at timestamp with time zone null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint lead_deliveries_pkey primary key (id),
+  constraint lead_deliveries_lead_id_fkey foreign KEY (lead_id) references leads (id) on delete CASCADE,
+  constraint lead_deliveries_client_id_fkey foreign KEY (client_id) references clients (id) on delete CASCADE,
+  constraint lead_deliveries_channel_type_check check (
+    channel_type = any (array['email_digest'::text, 'adf_email'::text, 'webhook'::text])
+  ),
+  constraint lead_deliveries_status_check check (
+    status = any (array['pending'::text, 'sending'::text, 'retrying'::text, 'delivered'::text, 'failed'::text])
+  )
+) TABLESPACE pg_default;
+
+create index IF not exists idx_lead_deliveries_due on public.lead_deliveries using btree (next_attempt_at) TABLESPACE pg_default
+where
+  status = any (array['pending'::text, 'retrying'::text]);
+
+create index IF not exists idx_lead_deliveries_client_id_created_at on public.lead_deliveries using btree (client_id, created_at desc) TABLESPACE pg_default;
+
+create index IF not exists idx_lead_deliveries_lead_id on public.lead_deliveries using btree (lead_id) TABLESPACE pg_default;
+
+create table if not exists public.lead_delivery_attempts (
+  id uuid not null default gen_random_uuid (),
+  delivery_id uuid not null,
+  client_id uuid not null,
+  attempt_number integer not null,
+  succeeded boolean not null,
+  response_status integer null,
+  error text null,
+  duration_ms integer null,
+  triggered_by uuid null,
+  attempted_at timestamp with time zone not null default now(),
+  constraint lead_delivery_attempts_pkey primary key (id),
+  constraint lead_delivery_attempts_delivery_id_fkey foreign KEY (delivery_id) references lead_deliveries (id) on delete CASCADE,
+  constraint lead_delivery_attempts_triggered_by_fkey foreign KEY (triggered_by) references users (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_lead_delivery_attempts_delivery_id on public.lead_delivery_attempts using btree (delivery_id, attempted_at desc) TABLESPACE pg_default;
+
+DROP TRIGGER IF EXISTS update_lead_deliveries_updated_at ON lead_deliveries;
+
+CREATE TRIGGER update_lead_deliveries_updated_at
+    BEFORE UPDATE ON lead_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Client data isolation: same helpers as the lead_activities policies.
+-- Rows are only written by the triggers below and the edge function (service role).
+ALTER TABLE lead_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "lead_deliveries_select_policy" ON lead_deliveries;
+DROP POLICY IF EXISTS "lead_delivery_attempts_select_policy" ON lead_delivery_attempts;
+
+CREATE POLICY "lead_deliveries_select_policy" ON lead_deliveries
+    FOR SELECT USING (
+        is_admin_or_owner() OR
+        user_has_client_access(client_id)
+    );
+
+CREATE POLICY "lead_delivery_attempts_select_policy" ON lead_delivery_attempts
+    FOR SELECT USING (
+        is_admin_or_owner() OR
+        user_has_client_access(client_id)
+    );
+
+-- Queue one delivery per enabled channel when a lead is created.
+-- Digest deliveries wait for the end of the channel's digest window.
+CREATE OR REPLACE FUNCTION enqueue_lead_deliveries()
+RETURNS TRIGGER AS $$
+DECLARE
+    channel JSONB;
+    digest_minutes INTEGER;
+    destination TEXT;
+BEGIN
+    FOR channel IN
+        SELECT value
+        FROM clients, jsonb_array_elements(COALESCE(clients.config_json->'lead_delivery'->'channels', '[]'::jsonb))
+        WHERE clients.id = NEW.client_id
+    LOOP
+        CONTINUE WHEN COALESCE((channel->>'enabled')::boolean, true) = false;
+        CONTINUE WHEN channel->>'id' IS NULL
+            OR channel->>'type' NOT IN ('email_digest', 'adf_email', 'webhook');
+
+        IF channel->>'type' = 'webhook' THEN
+            destination := channel->>'url';
+        ELSE
+            SELECT string_agg(recipient, ', ') INTO destination
+            FROM jsonb_array_elements_text(COALESCE(channel->'recipients', '[]'::jsonb)) AS recipient;
+        END IF;
+
+        CONTINUE WHEN destination IS NULL OR destination = '';
+
+        digest_minutes := GREATEST(COALESCE((channel->>'digest_interval_minutes')::integer, 60), 1);
+
+        INSERT INTO lead_deliveries (lead_id, client_id, channel_id, channel_type, destination, next_attempt_at)
+        VALUES (
+            NEW.id,
+            NEW.client_id,
+            channel->>'id',
+            channel->>'type',
+            destination,
+            CASE WHEN channel->>'type' = 'email_digest'
+                THEN date_bin(make_interval(mins => digest_minutes), now(), TIMESTAMPTZ '2000-01-01') + make_interval(mins => digest_minutes)
+                ELSE now()
+            END
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_lead_deliveries_trigger ON leads;
+
+CREATE TRIGGER enqueue_lead_deliveries_trigger
+    AFTER INSERT ON leads
+    FOR EACH ROW EXECUTE FUNCTION enqueue_lead_deliveries();
+
+-- Claim deliveries for sending (status -> 'sending') so concurrent runs never
+-- send the same delivery twice. With p_delivery_ids, those deliveries are
+-- claimed whatever their schedule (used for resends); otherwise due ones are.
+-- Deliveries stuck in 'sending' for 15 minutes (a crashed run) are claimed again.
+CREATE OR REPLACE FUNCTION claim_lead_deliveries(p_delivery_ids UUID[] DEFAULT NULL, p_limit INTEGER DEFAULT 50)
+RETURNS SETOF lead_deliveries AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE lead_deliveries
+    SET status = 'sending'
+    WHERE id IN (
+        SELECT candidate.id
+        FROM lead_deliveries AS candidate
+        WHERE (
+            p_delivery_ids IS NOT NULL
+            AND candidate.id = ANY(p_delivery_ids)
+            AND candidate.status <> 'sending'
+        ) OR (
+            p_delivery_ids IS NULL
+            AND (
+                (candidate.status IN ('pending', 'retrying') AND candidate.next_attempt_at <= now())
+                OR (candidate.status = 'sending' AND candidate.updated_at < now() - interval '15 minutes')
+            )
+        )
+        ORDER BY candidate.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING lead_deliveries.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION claim_lead_deliveries(UUID[], INTEGER) IS 'Lock lead deliveries for the deliver-leads edge function';
+
+-- Only the edge function (service role) claims deliveries
+REVOKE EXECUTE ON FUNCTION claim_lead_deliveries(UUID[], INTEGER) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_lead_deliveries(UUID[], INTEGER) TO service_role;
+
+-- Send due deliveries every minute
+-- Note: This requires the pg_cron and pg_net extensions which may not be available in all Supabase plans
+-- SELECT cron.schedule('deliver-leads', '* * * * *', $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/deliver-leads',
+--     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+--     body := '{}'::jsonb
+--   );
+-- $$);
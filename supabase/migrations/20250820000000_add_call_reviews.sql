@@ -0,0 +1,145 @@
+-- Human review queue
+-- Every call whose lead_evaluations row has human_review_required gets one
+-- call_reviews row. Reviewers (admins and owners) claim or assign reviews,
+-- record a verdict with corrected scores and comments, and resolve them.
+-- Every change is written to the audit log.
+
+create table if not exists public.call_reviews (
+  id uuid not null default gen_random_uuid (),
+  call_id uuid not null,
+  evaluation_id uuid not null,
+  client_id uuid not null,
+  review_reason text null,
+  status text not null default 'unresolved'::text,
+  assigned_to uuid null,
+  claimed_at timestamp with time zone null,
+  verdict text null,
+  corrected_scores jsonb not null default '{}'::jsonb,
+  comments text null,
+  resolved_by uuid null,
+  resolved_at timestamp with time zone null,
+  flagged_at timestamp with time zone not null default now(),
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint call_reviews_pkey primary key (id),
+  constraint call_reviews_call_id_key unique (call_id),
+  constraint call_reviews_call_id_fkey foreign KEY (call_id) references calls (id) on delete CASCADE,
+  constraint call_reviews_evaluation_id_fkey foreign KEY (evaluation_id) references lead_evaluations (id) on delete CASCADE,
+  constraint call_reviews_client_id_fkey foreign KEY (client_id) references clients (id) on delete CASCADE,
+  constraint call_reviews_assigned_to_fkey foreign KEY (assigned_to) references users (id) on delete set null,
+  constraint call_reviews_resolved_by_fkey foreign KEY (resolved_by) references users (id) on delete set null,
+  constraint call_reviews_status_check check (
+    status = any (array['unresolved'::text, 'resolved'::text])
+  ),
+  constraint call_reviews_verdict_check check (
+    verdict is null
+    or verdict = any (array['agent_error'::text, 'no_issue'::text, 'evaluation_error'::text])
+  ),
+  constraint call_reviews_resolution_check check (
+    status = 'unresolved'::text
+    or (verdict is not null and resolved_at is not null)
+  )
+) TABLESPACE pg_default;
+
+create index IF not exists idx_call_reviews_unresolved on public.call_reviews using btree (flagged_at) TABLESPACE pg_default
+where
+  status = 'unresolved'::text;
+
+create index IF not exists idx_call_reviews_client_id on public.call_reviews using btree (client_id, flagged_at desc) TABLESPACE pg_default;
+
+create index IF not exists idx_call_reviews_assigned_to on public.call_reviews using btree (assigned_to) TABLESPACE pg_default
+where
+  assigned_to is not null;
+
+DROP TRIGGER IF EXISTS update_call_reviews_updated_at ON call_reviews;
+
+CREATE TRIGGER update_call_reviews_updated_at
+    BEFORE UPDATE ON call_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Reviews can only be assigned to admins and owners
+CREATE OR REPLACE FUNCTION validate_call_review_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.assigned_to IS NULL THEN
+        NEW.claimed_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = NEW.assigned_to
+        AND users.role IN ('admin', 'owner')
+    ) THEN
+        RAISE EXCEPTION 'Reviews can only be assigned to admins and owners';
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+        NEW.claimed_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_call_review_assignee_trigger ON call_reviews;
+
+CREATE TRIGGER validate_call_review_assignee_trigger
+    BEFORE INSERT OR UPDATE OF assigned_to ON call_reviews
+    FOR EACH ROW EXECUTE FUNCTION validate_call_review_assignee();
+
+-- Client data isolation: client users can see how their calls were reviewed,
+-- only admins and owners work the queue. Rows are created by the trigger below.
+ALTER TABLE call_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "call_reviews_select_policy" ON call_reviews;
+DROP POLICY IF EXISTS "call_reviews_update_policy" ON call_reviews;
+
+CREATE POLICY "call_reviews_select_policy" ON call_reviews
+    FOR SELECT USING (
+        is_admin_or_owner() OR
+        user_has_client_access(client_id)
+    );
+
+CREATE POLICY "call_reviews_update_policy" ON call_reviews
+    FOR UPDATE USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+-- Queue a review when an evaluation flags a call. A call flagged again while
+-- its review is still open keeps that review with the latest reason.
+CREATE OR REPLACE FUNCTION enqueue_call_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT NEW.human_review_required THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO call_reviews (call_id, evaluation_id, client_id, review_reason, flagged_at)
+    VALUES (NEW.call_id, NEW.id, NEW.client_id, NEW.review_reason, COALESCE(NEW.evaluated_at, now()))
+    ON CONFLICT (call_id) DO UPDATE
+        SET review_reason = EXCLUDED.review_reason,
+            evaluation_id = EXCLUDED.evaluation_id
+        WHERE call_reviews.status = 'unresolved';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_call_review_trigger ON lead_evaluations;
+
+CREATE TRIGGER enqueue_call_review_trigger
+    AFTER INSERT OR UPDATE OF human_review_required, review_reason ON lead_evaluations
+    FOR EACH ROW EXECUTE FUNCTION enqueue_call_review();
+
+-- Queue the calls already flagged
+INSERT INTO call_reviews (call_id, evaluation_id, client_id, review_reason, flagged_at)
+SELECT call_id, id, client_id, review_reason, COALESCE(evaluated_at, now())
+FROM lead_evaluations
+WHERE human_review_required
+ON CONFLICT (call_id) DO NOTHING;
+
+-- Audit every claim, assignment, verdict and reopen
+DROP TRIGGER IF EXISTS audit_call_reviews_trigger ON call_reviews;
+CREATE TRIGGER audit_call_reviews_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON call_reviews
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
@@ -0,0 +1,76 @@
+-- Full-text call search
+-- Calls are searched by their summary and transcript with Postgres full-text
+-- search, ranked, and returned with highlighted snippets. Caller name and
+-- phone number are matched as plain substrings.
+
+-- Summary words rank above transcript words
+CREATE OR REPLACE FUNCTION call_search_vector(p_call_summary TEXT, p_transcript TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('english'::regconfig, COALESCE(p_call_summary, '')), 'A')
+        || setweight(to_tsvector('english'::regconfig, COALESCE(p_transcript, '')), 'B');
+$$ LANGUAGE sql IMMUTABLE;
+
+create index IF not exists idx_calls_search_vector on public.calls using gin (call_search_vector (call_summary, transcript)) TABLESPACE pg_default;
+
+-- Search runs as the caller (SECURITY INVOKER), so the calls RLS policies keep
+-- each user to their own client's calls. The query is parsed with
+-- websearch_to_tsquery, which accepts any user input ("quoted phrases", -not, or).
+-- Snippets mark matches with [[ and ]].
+CREATE OR REPLACE FUNCTION search_calls(
+    p_query TEXT,
+    p_client_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+    call_id UUID,
+    rank REAL,
+    summary_snippet TEXT,
+    transcript_snippet TEXT
+) AS $$
+DECLARE
+    v_term TEXT := btrim(COALESCE(p_query, ''));
+    v_query tsquery;
+BEGIN
+    IF length(v_term) = 0 THEN
+        RETURN;
+    END IF;
+
+    v_query := websearch_to_tsquery('english'::regconfig, v_term);
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        (
+            CASE
+                WHEN strpos(lower(COALESCE(c.caller_full_name, '')), lower(v_term)) > 0
+                  OR strpos(COALESCE(c.caller_phone_number, ''), v_term) > 0 THEN 1
+                ELSE 0
+            END
+            + ts_rank(call_search_vector(c.call_summary, c.transcript), v_query)
+        )::REAL,
+        CASE
+            WHEN to_tsvector('english'::regconfig, COALESCE(c.call_summary, '')) @@ v_query THEN
+                ts_headline('english'::regconfig, c.call_summary, v_query,
+                    'StartSel=[[, StopSel=]], MaxWords=30, MinWords=10, MaxFragments=1')
+        END,
+        CASE
+            WHEN to_tsvector('english'::regconfig, COALESCE(c.transcript, '')) @@ v_query THEN
+                ts_headline('english'::regconfig, c.transcript, v_query,
+                    'StartSel=[[, StopSel=]], MaxWords=18, MinWords=6, MaxFragments=2, FragmentDelimiter=" … "')
+        END
+    FROM calls c
+    WHERE (p_client_id IS NULL OR c.client_id = p_client_id)
+    AND (
+        call_search_vector(c.call_summary, c.transcript) @@ v_query
+        OR strpos(lower(COALESCE(c.caller_full_name, '')), lower(v_term)) > 0
+        OR strpos(COALESCE(c.caller_phone_number, ''), v_term) > 0
+    )
+    ORDER BY 2 DESC, c.call_start_time DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+COMMENT ON FUNCTION search_calls(TEXT, UUID, INTEGER) IS 'Full-text search over call summaries and transcripts, ranked with highlighted snippets';
+
+REVOKE EXECUTE ON FUNCTION search_calls(TEXT, UUID, INTEGER) FROM public, anon;
+GRANT EXECUTE ON FUNCTION search_calls(TEXT, UUID, INTEGER) TO authenticated;
@@ -0,0 +1,32 @@
+-- Server-side call log filters and cursor pagination
+-- Call logs are paged newest first by (call_start_time, id) and filtered by
+-- inner joins to lead_evaluations, call_intelligence and prompt_adherence_reviews,
+-- which are already indexed on call_id and the filtered columns. Searches page
+-- through calls_matching_search.
+
+-- Keyset pagination: call_start_time.lt / (call_start_time.eq and id.lt)
+create index IF not exists idx_calls_client_start_time_id on public.calls using btree (client_id, call_start_time desc, id desc) TABLESPACE pg_default;
+
+create index IF not exists idx_calls_start_time_id on public.calls using btree (call_start_time desc, id desc) TABLESPACE pg_default;
+
+-- Searched call logs are paged like any other calls query: this returns every
+-- call matching the search (the same match as search_calls, without its limit
+-- or ranking) as calls rows, so PostgREST applies the filters, joins, order,
+-- cursor and count to it. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION calls_matching_search(p_query TEXT)
+RETURNS SETOF calls AS $$
+    SELECT c.*
+    FROM calls c,
+        btrim(COALESCE(p_query, '')) AS t(term)
+    WHERE t.term <> ''
+    AND (
+        call_search_vector(c.call_summary, c.transcript) @@ websearch_to_tsquery('english'::regconfig, t.term)
+        OR strpos(lower(COALESCE(c.caller_full_name, '')), lower(t.term)) > 0
+        OR strpos(COALESCE(c.caller_phone_number, ''), t.term) > 0
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+COMMENT ON FUNCTION calls_matching_search(TEXT) IS 'Every call matching a call search, for paged and filtered search results';
+
+REVOKE EXECUTE ON FUNCTION calls_matching_search(TEXT) FROM public, anon;
+GRANT EXECUTE ON FUNCTION calls_matching_search(TEXT) TO authenticated;
@@ -0,0 +1,69 @@
+-- Saved views
+-- Named filter/sort setups for the call logs and leads pages. A view is the
+-- page's URL query string, so opening a saved view and opening a shared link
+-- show the same thing. Views belong to one user and can be shared with all
+-- users of one client.
+
+create table if not exists public.saved_views (
+  id uuid not null default gen_random_uuid (),
+  user_id uuid not null,
+  client_id uuid null,
+  page text not null,
+  name text not null,
+  query text not null default ''::text,
+  shared boolean not null default false,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint saved_views_pkey primary key (id),
+  constraint saved_views_user_page_name_key unique (user_id, page, name),
+  constraint saved_views_user_id_fkey foreign KEY (user_id) references users (id) on delete CASCADE,
+  constraint saved_views_client_id_fkey foreign KEY (client_id) references clients (id) on delete CASCADE,
+  constraint saved_views_page_check check (
+    page = any (array['call_logs'::text, 'leads'::text])
+  ),
+  constraint saved_views_name_check check (length(btrim(name)) between 1 and 80),
+  constraint saved_views_shared_client_check check (not shared or client_id is not null)
+) TABLESPACE pg_default;
+
+create index IF not exists idx_saved_views_user_page on public.saved_views using btree (user_id, page) TABLESPACE pg_default;
+
+create index IF not exists idx_saved_views_client_shared on public.saved_views using btree (client_id, page) TABLESPACE pg_default
+where
+  shared;
+
+DROP TRIGGER IF EXISTS update_saved_views_updated_at ON saved_views;
+
+CREATE TRIGGER update_saved_views_updated_at
+    BEFORE UPDATE ON saved_views
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Client data isolation: users see their own views and the views shared with a
+-- client they can access; only the owner can change or delete a view
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "saved_views_select_policy" ON saved_views;
+DROP POLICY IF EXISTS "saved_views_insert_policy" ON saved_views;
+DROP POLICY IF EXISTS "saved_views_update_policy" ON saved_views;
+DROP POLICY IF EXISTS "saved_views_delete_policy" ON saved_views;
+
+CREATE POLICY "saved_views_select_policy" ON saved_views
+    FOR SELECT USING (
+        user_id = auth.uid() OR
+        (shared AND user_has_client_access(client_id))
+    );
+
+CREATE POLICY "saved_views_insert_policy" ON saved_views
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND
+        (client_id IS NULL OR user_has_client_access(client_id))
+    );
+
+CREATE POLICY "saved_views_update_policy" ON saved_views
+    FOR UPDATE USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid() AND
+        (client_id IS NULL OR user_has_client_access(client_id))
+    );
+
+CREATE POLICY "saved_views_delete_policy" ON saved_views
+    FOR DELETE USING (user_id = auth.uid());
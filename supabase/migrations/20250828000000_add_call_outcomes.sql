@@ -0,0 +1,165 @@
+-- Call outcomes
+-- Every call gets one outcome (appointment booked, lead captured, transferred,
+-- voicemail, failed, hang-up, spam, or completed) and a status (completed,
+-- failed, transferred). Both are derived here, in the database, and stored on
+-- the call, so every widget counts calls the same way.
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS is_spam boolean NOT NULL DEFAULT false;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS outcome text NULL;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS status text NULL;
+
+ALTER TABLE calls DROP CONSTRAINT IF EXISTS calls_outcome_check;
+ALTER TABLE calls ADD CONSTRAINT calls_outcome_check check (
+  outcome is null
+  or outcome = any (array[
+    'appointment_booked'::text, 'lead_captured'::text, 'transferred'::text, 'voicemail'::text,
+    'failed'::text, 'hang_up'::text, 'spam'::text, 'completed'::text
+  ])
+);
+
+ALTER TABLE calls DROP CONSTRAINT IF EXISTS calls_status_check;
+ALTER TABLE calls ADD CONSTRAINT calls_status_check check (
+  status is null
+  or status = any (array['completed'::text, 'failed'::text, 'transferred'::text])
+);
+
+create index IF not exists idx_calls_client_id_outcome on public.calls using btree (client_id, outcome) TABLESPACE pg_default;
+
+-- The classifier. Checked in order, first match wins:
+--   spam               marked as spam
+--   appointment_booked the call's lead has a confirmed appointment
+--   lead_captured      the call has a lead
+--   transferred        transferred to staff
+--   voicemail          left a voicemail, or reached one
+--   failed             the call failed to connect or the agent errored
+--   hang_up            the caller hung up, the line went silent, or the call lasted under 10 seconds
+--   completed          anything else: answered, no lead
+CREATE OR REPLACE FUNCTION classify_call_outcome(
+    p_hangup_reason TEXT,
+    p_call_type TEXT,
+    p_transfer_flag BOOLEAN,
+    p_duration_seconds DOUBLE PRECISION,
+    p_is_spam BOOLEAN,
+    p_has_lead BOOLEAN,
+    p_appointment_booked BOOLEAN
+)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN COALESCE(p_is_spam, false) THEN 'spam'
+        WHEN COALESCE(p_appointment_booked, false) THEN 'appointment_booked'
+        WHEN COALESCE(p_has_lead, false) THEN 'lead_captured'
+        WHEN COALESCE(p_transfer_flag, false) THEN 'transferred'
+        WHEN lower(COALESCE(p_call_type, '')) = 'voicemail'
+          OR lower(COALESCE(p_hangup_reason, '')) LIKE '%voicemail%' THEN 'voicemail'
+        WHEN lower(COALESCE(p_hangup_reason, '')) LIKE '%failed%'
+          OR lower(COALESCE(p_hangup_reason, '')) LIKE '%error%'
+          OR lower(COALESCE(p_hangup_reason, '')) IN ('customer-busy', 'customer-did-not-answer') THEN 'failed'
+        WHEN lower(COALESCE(p_hangup_reason, '')) IN ('customer-ended-call', 'silence-timed-out')
+          OR COALESCE(p_duration_seconds, 0) < 10 THEN 'hang_up'
+        ELSE 'completed'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Status is the call's technical result, independent of what it achieved
+CREATE OR REPLACE FUNCTION call_status_for_outcome(p_outcome TEXT, p_transfer_flag BOOLEAN)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_outcome = 'failed' THEN 'failed'
+        WHEN COALESCE(p_transfer_flag, false) THEN 'transferred'
+        ELSE 'completed'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Classify a call when it is written
+CREATE OR REPLACE FUNCTION set_call_outcome()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_has_lead BOOLEAN := false;
+    v_appointment_booked BOOLEAN := false;
+BEGIN
+    SELECT true, leads.appointment_confirmed_at IS NOT NULL
+    INTO v_has_lead, v_appointment_booked
+    FROM leads
+    WHERE leads.call_id = NEW.id;
+
+    NEW.outcome := classify_call_outcome(
+        NEW.hangup_reason, NEW.call_type, NEW.transfer_flag, NEW.call_duration_seconds,
+        NEW.is_spam, COALESCE(v_has_lead, false), COALESCE(v_appointment_booked, false)
+    );
+    NEW.status := call_status_for_outcome(NEW.outcome, NEW.transfer_flag);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_call_outcome_trigger ON calls;
+
+CREATE TRIGGER set_call_outcome_trigger
+    BEFORE INSERT OR UPDATE OF hangup_reason, call_type, transfer_flag, call_duration_seconds, is_spam ON calls
+    FOR EACH ROW EXECUTE FUNCTION set_call_outcome();
+
+-- Reclassify one call from its lead. The call is only written when its
+-- outcome changes, so the calls audit log only records real changes.
+CREATE OR REPLACE FUNCTION refresh_call_outcome(p_call_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_has_lead BOOLEAN := false;
+    v_appointment_booked BOOLEAN := false;
+BEGIN
+    SELECT true, leads.appointment_confirmed_at IS NOT NULL
+    INTO v_has_lead, v_appointment_booked
+    FROM leads
+    WHERE leads.call_id = p_call_id;
+
+    UPDATE calls
+    SET outcome = classified.outcome,
+        status = call_status_for_outcome(classified.outcome, calls.transfer_flag)
+    FROM (
+        SELECT c.id, classify_call_outcome(
+            c.hangup_reason, c.call_type, c.transfer_flag, c.call_duration_seconds,
+            c.is_spam, COALESCE(v_has_lead, false), COALESCE(v_appointment_booked, false)
+        ) AS outcome
+        FROM calls c
+        WHERE c.id = p_call_id
+    ) AS classified
+    WHERE calls.id = classified.id
+    AND calls.outcome IS DISTINCT FROM classified.outcome;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION refresh_call_outcome(UUID) FROM public, anon, authenticated;
+
+-- Reclassify a call when its lead is created, moved, confirmed or deleted.
+-- Runs as the definer because client users can edit leads but not calls.
+CREATE OR REPLACE FUNCTION refresh_call_outcome_from_lead()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM refresh_call_outcome(OLD.call_id);
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.call_id IS DISTINCT FROM OLD.call_id) THEN
+        PERFORM refresh_call_outcome(NEW.call_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_call_outcome_trigger ON leads;
+
+CREATE TRIGGER refresh_call_outcome_trigger
+    AFTER INSERT OR DELETE OR UPDATE OF call_id, appointment_confirmed_at ON leads
+    FOR EACH ROW EXECUTE FUNCTION refresh_call_outcome_from_lead();
+
+-- Classify existing calls. Touching is_spam re-runs set_call_outcome; the audit
+-- trigger is off meanwhile, so the backfill doesn't log one entry per call
+ALTER TABLE calls DISABLE TRIGGER audit_calls_trigger;
+
+UPDATE calls SET is_spam = is_spam;
+
+ALTER TABLE calls ENABLE TRIGGER audit_calls_trigger;
+
+COMMENT ON COLUMN calls.outcome IS 'What the call achieved; set by classify_call_outcome, do not write directly';
+COMMENT ON COLUMN calls.status IS 'completed, failed or transferred; set with the outcome';
+COMMENT ON COLUMN calls.is_spam IS 'Spam or robocall; a spam call''s outcome is always spam';
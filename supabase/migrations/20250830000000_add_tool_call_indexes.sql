@@ -0,0 +1,6 @@
+-- Tool call analytics
+-- Analytics > Tools reads tool calls by date, for all clients or one client
+
+create index IF not exists idx_tool_calls_created_at on public.tool_calls using btree (created_at desc) TABLESPACE pg_default;
+
+create index IF not exists idx_tool_calls_client_id_created_at on public.tool_calls using btree (client_id, created_at desc) TABLESPACE pg_default;
@@ -0,0 +1,139 @@
+-- Spam and robocall detection
+-- Every call is scored from its duration, hang-up reason, transcript and how
+-- often its number called the same client in the previous 24 hours. Calls
+-- scoring 60 or more are marked is_spam, which makes their outcome spam and
+-- keeps them out of call volume KPIs. Users can override the verdict with
+-- spam_override; the override wins over the score.
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS spam_score integer NOT NULL DEFAULT 0;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS spam_signals text[] NOT NULL DEFAULT '{}'::text[];
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS spam_override boolean NULL;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS spam_overridden_by uuid NULL;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS spam_overridden_at timestamp with time zone NULL;
+
+ALTER TABLE calls DROP CONSTRAINT IF EXISTS calls_spam_overridden_by_fkey;
+ALTER TABLE calls ADD CONSTRAINT calls_spam_overridden_by_fkey
+  foreign KEY (spam_overridden_by) references users (id) on delete set null;
+
+-- Repeat callers: earlier calls from the same number to the same client
+create index IF not exists idx_calls_client_caller_start_time on public.calls using btree (client_id, caller_phone_number, call_start_time desc) TABLESPACE pg_default
+where
+  caller_phone_number is not null;
+
+create index IF not exists idx_calls_client_id_is_spam on public.calls using btree (client_id, is_spam) TABLESPACE pg_default;
+
+-- The scorer. Each signal adds its weight; 60 or more is spam:
+--   instant_hang_up     60  the call lasted under 3 seconds
+--   robocall_script     60  the transcript has robocall phrases (warranty, press 1, recorded message, ...)
+--   repeat_caller       30  the number called the same client 4 or more times in the previous 24 hours
+--   caller_never_spoke  30  the transcript has no customer turn
+--   silent_hang_up      20  the line went silent until the call timed out
+--   hidden_caller_id    10  no caller number, or an anonymous one
+CREATE OR REPLACE FUNCTION score_spam_call(
+    p_duration_seconds DOUBLE PRECISION,
+    p_hangup_reason TEXT,
+    p_transcript TEXT,
+    p_caller_phone_number TEXT,
+    p_recent_calls INTEGER,
+    OUT score INTEGER,
+    OUT signals TEXT[]
+)
+AS $$
+BEGIN
+    score := 0;
+    signals := '{}'::text[];
+
+    IF COALESCE(p_duration_seconds, 0) < 3 THEN
+        score := score + 60;
+        signals := array_append(signals, 'instant_hang_up');
+    END IF;
+
+    IF COALESCE(p_transcript, '') ~* '(extended (auto |car |vehicle )?warranty|press (one|1|nine|9)\M|(automated|recorded|pre-?recorded) (message|call)|final (notice|attempt)|social security (number|administration)|student loan|credit card (debt|interest)|you have been selected|congratulations.{0,40}(won|winner))' THEN
+        score := score + 60;
+        signals := array_append(signals, 'robocall_script');
+    END IF;
+
+    IF COALESCE(p_recent_calls, 0) >= 4 THEN
+        score := score + 30;
+        signals := array_append(signals, 'repeat_caller');
+    END IF;
+
+    -- Matches the customer prefixes parsed by src/utils/callTranscript.ts
+    IF COALESCE(p_transcript, '') !~* '(^|\n)[^a-z\n]*(user|customer|caller|human)[^:\n]{0,12}:\s*\S' THEN
+        score := score + 30;
+        signals := array_append(signals, 'caller_never_spoke');
+    END IF;
+
+    IF lower(COALESCE(p_hangup_reason, '')) LIKE '%silence%' THEN
+        score := score + 20;
+        signals := array_append(signals, 'silent_hang_up');
+    END IF;
+
+    IF COALESCE(p_caller_phone_number, '') ~* '^\s*(\+?0*|anonymous|unknown|restricted|private|unavailable)\s*$' THEN
+        score := score + 10;
+        signals := array_append(signals, 'hidden_caller_id');
+    END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Score a call when it is written. Named to run before set_call_outcome_trigger
+-- (BEFORE triggers fire in name order), so the outcome sees the new verdict.
+CREATE OR REPLACE FUNCTION classify_call_spam()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_recent_calls INTEGER := 0;
+    v_result RECORD;
+BEGIN
+    IF NEW.caller_phone_number IS NOT NULL AND NEW.call_start_time IS NOT NULL THEN
+        SELECT count(*) INTO v_recent_calls
+        FROM calls
+        WHERE calls.client_id = NEW.client_id
+        AND calls.caller_phone_number = NEW.caller_phone_number
+        AND calls.call_start_time >= NEW.call_start_time - interval '24 hours'
+        AND calls.call_start_time < NEW.call_start_time
+        AND calls.id <> NEW.id;
+    END IF;
+
+    v_result := score_spam_call(
+        NEW.call_duration_seconds, NEW.hangup_reason, NEW.transcript,
+        NEW.caller_phone_number, v_recent_calls
+    );
+    NEW.spam_score := v_result.score;
+    NEW.spam_signals := v_result.signals;
+    NEW.is_spam := COALESCE(NEW.spam_override, v_result.score >= 60);
+
+    IF TG_OP = 'INSERT' OR NEW.spam_override IS DISTINCT FROM OLD.spam_override THEN
+        NEW.spam_overridden_by := CASE WHEN NEW.spam_override IS NULL THEN NULL ELSE auth.uid() END;
+        NEW.spam_overridden_at := CASE WHEN NEW.spam_override IS NULL THEN NULL ELSE now() END;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS classify_call_spam_trigger ON calls;
+
+CREATE TRIGGER classify_call_spam_trigger
+    BEFORE INSERT OR UPDATE OF call_duration_seconds, hangup_reason, transcript, caller_phone_number, call_start_time, spam_override ON calls
+    FOR EACH ROW EXECUTE FUNCTION classify_call_spam();
+
+-- Reclassify the outcome whenever the spam verdict can change
+DROP TRIGGER IF EXISTS set_call_outcome_trigger ON calls;
+
+CREATE TRIGGER set_call_outcome_trigger
+    BEFORE INSERT OR UPDATE OF hangup_reason, call_type, transfer_flag, call_duration_seconds, is_spam,
+        transcript, caller_phone_number, call_start_time, spam_override ON calls
+    FOR EACH ROW EXECUTE FUNCTION set_call_outcome();
+
+-- Score existing calls. Touching spam_override re-runs both triggers; the audit
+-- trigger is off meanwhile, so the backfill doesn't log one entry per call
+ALTER TABLE calls DISABLE TRIGGER audit_calls_trigger;
+
+UPDATE calls SET spam_override = spam_override;
+
+ALTER TABLE calls ENABLE TRIGGER audit_calls_trigger;
+
+COMMENT ON COLUMN calls.is_spam IS 'Spam or robocall: spam_override when set, otherwise spam_score >= 60. Set by classify_call_spam, do not write directly';
+COMMENT ON COLUMN calls.spam_score IS 'Sum of the weights of spam_signals; set by score_spam_call';
+COMMENT ON COLUMN calls.spam_signals IS 'Spam signals found on the call (instant_hang_up, robocall_script, repeat_caller, caller_never_spoke, silent_hang_up, hidden_caller_id)';
+COMMENT ON COLUMN calls.spam_override IS 'A user''s spam verdict; null uses the score';
@@ -0,0 +1,41 @@
+-- Caller history
+-- Calls and leads are matched to a caller by normalized phone number within a
+-- client. Numbers arrive in many formats ("+1 (416) 555-0123", "4165550123"),
+-- so each is normalized once, stored and indexed.
+
+-- Matches normalizePhone in src/utils/leadDuplicates.ts: digits only, without
+-- the North American country code; numbers under 7 digits are null
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN length(digits) = 11 AND left(digits, 1) = '1' THEN substr(digits, 2)
+        WHEN length(digits) >= 7 THEN digits
+        ELSE NULL
+    END
+    FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS digits) AS phone;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS caller_phone_normalized text
+  GENERATED ALWAYS AS (normalize_phone(caller_phone_number)) STORED;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS phone_normalized text
+  GENERATED ALWAYS AS (normalize_phone(phone_number)) STORED;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS from_phone_normalized text
+  GENERATED ALWAYS AS (normalize_phone(from_phone_number)) STORED;
+
+create index IF not exists idx_calls_client_caller_phone_normalized on public.calls using btree (client_id, caller_phone_normalized, call_start_time desc) TABLESPACE pg_default
+where
+  caller_phone_normalized is not null;
+
+create index IF not exists idx_leads_client_phone_normalized on public.leads using btree (client_id, phone_normalized) TABLESPACE pg_default
+where
+  phone_normalized is not null;
+
+create index IF not exists idx_leads_client_from_phone_normalized on public.leads using btree (client_id, from_phone_normalized) TABLESPACE pg_default
+where
+  from_phone_normalized is not null;
+
+COMMENT ON COLUMN calls.caller_phone_normalized IS 'caller_phone_number normalized by normalize_phone; used to find a caller''s history';
+COMMENT ON COLUMN leads.phone_normalized IS 'phone_number normalized by normalize_phone';
+COMMENT ON COLUMN leads.from_phone_normalized IS 'from_phone_number normalized by normalize_phone';
@@ -0,0 +1,35 @@
+-- Bulk actions on call logs
+-- Calls can be tagged, and the human review flag can be set or cleared on many
+-- calls at once from the call logs page.
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+create index IF not exists idx_calls_tags on public.calls using gin (tags) TABLESPACE pg_default;
+
+COMMENT ON COLUMN calls.tags IS 'Free-form labels added by users; lowercase, without duplicates';
+
+-- Queue a review when an evaluation flags a call, and take it off the queue
+-- when the flag is cleared before anyone resolved it. Resolved reviews are
+-- kept as the call's review history.
+CREATE OR REPLACE FUNCTION enqueue_call_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT NEW.human_review_required THEN
+        IF TG_OP = 'UPDATE' AND OLD.human_review_required THEN
+            DELETE FROM call_reviews
+            WHERE call_id = NEW.call_id
+            AND status = 'unresolved';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO call_reviews (call_id, evaluation_id, client_id, review_reason, flagged_at)
+    VALUES (NEW.call_id, NEW.id, NEW.client_id, NEW.review_reason, COALESCE(NEW.evaluated_at, now()))
+    ON CONFLICT (call_id) DO UPDATE
+        SET review_reason = EXCLUDED.review_reason,
+            evaluation_id = EXCLUDED.evaluation_id
+        WHERE call_reviews.status = 'unresolved';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
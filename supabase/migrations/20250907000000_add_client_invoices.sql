@@ -0,0 +1,246 @@
+-- Client invoices
+-- One invoice per client per billing month, built from the client's plan fee
+-- and the month's call usage. Line items are numbered per invoice: the base
+-- plan fee, usage over the included minutes, and credits (negative amounts).
+--
+-- Invoices start as drafts. Issuing one gives it its invoice number and due
+-- date and locks its line items; an issued invoice is then paid or voided.
+-- A voided month can be invoiced again.
+
+CREATE SEQUENCE IF NOT EXISTS client_invoice_number_seq;
+
+create table if not exists public.client_invoices (
+  id uuid not null default gen_random_uuid (),
+  client_id uuid not null,
+  invoice_number text null,
+  billing_month date not null,
+  period_start timestamp with time zone not null,
+  period_end timestamp with time zone not null,
+  status text not null default 'draft'::text,
+  currency text not null default 'CAD'::text,
+  billable_calls integer not null default 0,
+  billable_minutes integer not null default 0,
+  subtotal numeric(12, 2) not null default 0,
+  credits numeric(12, 2) not null default 0,
+  total numeric(12, 2) not null default 0,
+  notes text null,
+  void_reason text null,
+  issued_at timestamp with time zone null,
+  due_at timestamp with time zone null,
+  paid_at timestamp with time zone null,
+  voided_at timestamp with time zone null,
+  created_by uuid null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint client_invoices_pkey primary key (id),
+  constraint client_invoices_invoice_number_key unique (invoice_number),
+  constraint client_invoices_client_id_fkey foreign KEY (client_id) references clients (id) on delete CASCADE,
+  constraint client_invoices_created_by_fkey foreign KEY (created_by) references users (id) on delete set null,
+  constraint client_invoices_status_check check (
+    status = any (array['draft'::text, 'issued'::text, 'paid'::text, 'void'::text])
+  ),
+  constraint client_invoices_billing_month_check check (extract(day from billing_month) = 1),
+  constraint client_invoices_period_check check (period_end > period_start),
+  constraint client_invoices_total_check check (total >= 0)
+) TABLESPACE pg_default;
+
+-- One live invoice per client and month
+create unique index IF not exists idx_client_invoices_client_month on public.client_invoices using btree (client_id, billing_month) TABLESPACE pg_default
+where
+  status <> 'void'::text;
+
+create index IF not exists idx_client_invoices_client_id on public.client_invoices using btree (client_id, billing_month desc) TABLESPACE pg_default;
+
+create index IF not exists idx_client_invoices_status on public.client_invoices using btree (status) TABLESPACE pg_default;
+
+create table if not exists public.client_invoice_line_items (
+  id uuid not null default gen_random_uuid (),
+  invoice_id uuid not null,
+  line_number integer not null,
+  item_type text not null,
+  description text not null,
+  quantity numeric(12, 2) not null default 1,
+  unit_amount numeric(12, 4) not null default 0,
+  amount numeric(12, 2) not null,
+  created_at timestamp with time zone not null default now(),
+  constraint client_invoice_line_items_pkey primary key (id),
+  constraint client_invoice_line_items_invoice_line_key unique (invoice_id, line_number),
+  constraint client_invoice_line_items_invoice_id_fkey foreign KEY (invoice_id) references client_invoices (id) on delete CASCADE,
+  constraint client_invoice_line_items_item_type_check check (
+    item_type = any (array['base_fee'::text, 'overage'::text, 'credit'::text])
+  ),
+  constraint client_invoice_line_items_line_number_check check (line_number > 0),
+  constraint client_invoice_line_items_amount_check check (
+    (item_type = 'credit'::text and amount < 0)
+    or (item_type <> 'credit'::text and amount >= 0)
+  ),
+  constraint client_invoice_line_items_description_check check (length(btrim(description)) between 1 and 200)
+) TABLESPACE pg_default;
+
+DROP TRIGGER IF EXISTS update_client_invoices_updated_at ON client_invoices;
+
+CREATE TRIGGER update_client_invoices_updated_at
+    BEFORE UPDATE ON client_invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Status changes: draft -> issued -> paid, and draft or issued -> void.
+-- Issuing numbers the invoice (INV-YYYYMM-00001) and sets it due in 30 days.
+CREATE OR REPLACE FUNCTION manage_client_invoice_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'draft' AND NEW.status IN ('issued', 'void')) OR
+        (OLD.status = 'issued' AND NEW.status IN ('paid', 'void'))
+    ) THEN
+        RAISE EXCEPTION 'Invoice cannot go from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'issued' THEN
+        IF NOT EXISTS (SELECT 1 FROM client_invoice_line_items WHERE invoice_id = NEW.id) THEN
+            RAISE EXCEPTION 'Invoice has no line items';
+        END IF;
+        NEW.invoice_number := 'INV-' || to_char(NEW.billing_month, 'YYYYMM') || '-'
+            || lpad(nextval('client_invoice_number_seq')::text, 5, '0');
+        NEW.issued_at := now();
+        NEW.due_at := now() + interval '30 days';
+    ELSIF NEW.status = 'paid' THEN
+        NEW.paid_at := COALESCE(NEW.paid_at, now());
+    ELSIF NEW.status = 'void' THEN
+        IF NEW.void_reason IS NULL OR btrim(NEW.void_reason) = '' THEN
+            RAISE EXCEPTION 'A reason is required to void an invoice';
+        END IF;
+        NEW.voided_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS manage_client_invoice_status_trigger ON client_invoices;
+
+CREATE TRIGGER manage_client_invoice_status_trigger
+    BEFORE UPDATE OF status ON client_invoices
+    FOR EACH ROW EXECUTE FUNCTION manage_client_invoice_status();
+
+-- Line items can only change while their invoice is a draft. A missing
+-- invoice means it is being deleted and its lines go with it.
+CREATE OR REPLACE FUNCTION validate_client_invoice_line_item()
+RETURNS TRIGGER AS $$
+DECLARE
+    invoice_status TEXT;
+BEGIN
+    SELECT status INTO invoice_status
+    FROM client_invoices
+    WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+    IF invoice_status IS NOT NULL AND invoice_status <> 'draft' THEN
+        RAISE EXCEPTION 'Line items can only be changed on draft invoices';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_client_invoice_line_item_trigger ON client_invoice_line_items;
+
+CREATE TRIGGER validate_client_invoice_line_item_trigger
+    BEFORE INSERT OR UPDATE OR DELETE ON client_invoice_line_items
+    FOR EACH ROW EXECUTE FUNCTION validate_client_invoice_line_item();
+
+-- Keep the invoice totals in step with its line items. A credit larger than
+-- the charges fails the invoice's total check and the change is rolled back.
+CREATE OR REPLACE FUNCTION recalculate_client_invoice_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_invoice_id UUID := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+    UPDATE client_invoices
+    SET subtotal = totals.subtotal,
+        credits = totals.credits,
+        total = totals.subtotal - totals.credits
+    FROM (
+        SELECT
+            COALESCE(SUM(amount) FILTER (WHERE item_type <> 'credit'), 0) AS subtotal,
+            COALESCE(-SUM(amount) FILTER (WHERE item_type = 'credit'), 0) AS credits
+        FROM client_invoice_line_items
+        WHERE invoice_id = target_invoice_id
+    ) AS totals
+    WHERE client_invoices.id = target_invoice_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS recalculate_client_invoice_totals_trigger ON client_invoice_line_items;
+
+CREATE TRIGGER recalculate_client_invoice_totals_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON client_invoice_line_items
+    FOR EACH ROW EXECUTE FUNCTION recalculate_client_invoice_totals();
+
+-- Client data isolation: client users can read their issued, paid and void
+-- invoices; drafts and all changes are for admins and owners. Only drafts can
+-- be deleted, issued invoices are voided instead.
+ALTER TABLE client_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "client_invoices_select_policy" ON client_invoices;
+DROP POLICY IF EXISTS "client_invoices_insert_policy" ON client_invoices;
+DROP POLICY IF EXISTS "client_invoices_update_policy" ON client_invoices;
+DROP POLICY IF EXISTS "client_invoices_delete_policy" ON client_invoices;
+
+CREATE POLICY "client_invoices_select_policy" ON client_invoices
+    FOR SELECT USING (
+        is_admin_or_owner() OR
+        (status <> 'draft' AND user_has_client_access(client_id))
+    );
+
+CREATE POLICY "client_invoices_insert_policy" ON client_invoices
+    FOR INSERT WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "client_invoices_update_policy" ON client_invoices
+    FOR UPDATE USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "client_invoices_delete_policy" ON client_invoices
+    FOR DELETE USING (is_admin_or_owner() AND status = 'draft');
+
+DROP POLICY IF EXISTS "client_invoice_line_items_select_policy" ON client_invoice_line_items;
+DROP POLICY IF EXISTS "client_invoice_line_items_insert_policy" ON client_invoice_line_items;
+DROP POLICY IF EXISTS "client_invoice_line_items_update_policy" ON client_invoice_line_items;
+DROP POLICY IF EXISTS "client_invoice_line_items_delete_policy" ON client_invoice_line_items;
+
+CREATE POLICY "client_invoice_line_items_select_policy" ON client_invoice_line_items
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM client_invoices
+            WHERE client_invoices.id = client_invoice_line_items.invoice_id
+        )
+    );
+
+CREATE POLICY "client_invoice_line_items_insert_policy" ON client_invoice_line_items
+    FOR INSERT WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "client_invoice_line_items_update_policy" ON client_invoice_line_items
+    FOR UPDATE USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "client_invoice_line_items_delete_policy" ON client_invoice_line_items
+    FOR DELETE USING (is_admin_or_owner());
+
+-- Audit every invoice and line item change
+DROP TRIGGER IF EXISTS audit_client_invoices_trigger ON client_invoices;
+CREATE TRIGGER audit_client_invoices_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON client_invoices
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_client_invoice_line_items_trigger ON client_invoice_line_items;
+CREATE TRIGGER audit_client_invoice_line_items_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON client_invoice_line_items
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
@@ -0,0 +1,78 @@
+-- Month-end close
+-- Closing a month freezes its financial figures in monthly_billing_summary, at
+-- the USD to CAD rate in effect when it was closed. The financial dashboard
+-- and growth trends read closed months from here instead of recomputing them
+-- from calls. Admins can reopen a closed month to recompute it; every close
+-- and recompute is written to the audit log with the figures before and after.
+
+create table if not exists public.monthly_billing_summary (
+  id uuid not null default gen_random_uuid (),
+  month date not null,
+  usd_to_cad_rate numeric(10, 6) not null,
+  total_calls_processed integer not null default 0,
+  total_leads_captured integer not null default 0,
+  total_appointments_confirmed integer not null default 0,
+  active_clients integer not null default 0,
+  total_gross_revenue_cad numeric(12, 2) not null default 0,
+  total_variable_costs_usd numeric(12, 4) not null default 0,
+  total_fixed_costs_usd numeric(12, 4) not null default 0,
+  total_finders_fees_cad numeric(12, 2) not null default 0,
+  total_partner_payout_cad numeric(12, 2) not null default 0,
+  net_profit_usd_cad numeric(12, 2) not null default 0,
+  cost_breakdown jsonb not null default '{}'::jsonb,
+  client_profitability jsonb not null default '[]'::jsonb,
+  closed_at timestamp with time zone not null default now(),
+  closed_by uuid null,
+  reopened_at timestamp with time zone null,
+  reopened_by uuid null,
+  reopen_reason text null,
+  recompute_count integer not null default 0,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint monthly_billing_summary_pkey primary key (id),
+  constraint monthly_billing_summary_month_key unique (month),
+  constraint monthly_billing_summary_closed_by_fkey foreign KEY (closed_by) references users (id) on delete set null,
+  constraint monthly_billing_summary_reopened_by_fkey foreign KEY (reopened_by) references users (id) on delete set null,
+  constraint monthly_billing_summary_month_check check (extract(day from month) = 1),
+  constraint monthly_billing_summary_rate_check check (usd_to_cad_rate > 0),
+  constraint monthly_billing_summary_reopen_check check (
+    reopened_at is null
+    or (reopen_reason is not null and length(btrim(reopen_reason)) > 0)
+  )
+) TABLESPACE pg_default;
+
+COMMENT ON COLUMN monthly_billing_summary.total_variable_costs_usd IS 'Call and tool costs';
+COMMENT ON COLUMN monthly_billing_summary.total_fixed_costs_usd IS 'Make.com operations costs for the month';
+COMMENT ON COLUMN monthly_billing_summary.net_profit_usd_cad IS 'Gross revenue less all costs, in CAD at usd_to_cad_rate';
+COMMENT ON COLUMN monthly_billing_summary.cost_breakdown IS 'The financial dashboard cost breakdown for the month, in CAD';
+COMMENT ON COLUMN monthly_billing_summary.client_profitability IS 'The financial dashboard client profitability ranking for the month, in CAD';
+
+DROP TRIGGER IF EXISTS update_monthly_billing_summary_updated_at ON monthly_billing_summary;
+
+CREATE TRIGGER update_monthly_billing_summary_updated_at
+    BEFORE UPDATE ON monthly_billing_summary
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Figures are company-wide, so only admins and owners can read or close months.
+-- Closed months are never deleted, only recomputed.
+ALTER TABLE monthly_billing_summary ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "monthly_billing_summary_select_policy" ON monthly_billing_summary;
+DROP POLICY IF EXISTS "monthly_billing_summary_insert_policy" ON monthly_billing_summary;
+DROP POLICY IF EXISTS "monthly_billing_summary_update_policy" ON monthly_billing_summary;
+
+CREATE POLICY "monthly_billing_summary_select_policy" ON monthly_billing_summary
+    FOR SELECT USING (is_admin_or_owner());
+
+CREATE POLICY "monthly_billing_summary_insert_policy" ON monthly_billing_summary
+    FOR INSERT WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "monthly_billing_summary_update_policy" ON monthly_billing_summary
+    FOR UPDATE USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+-- Audit every close and recompute
+DROP TRIGGER IF EXISTS audit_monthly_billing_summary_trigger ON monthly_billing_summary;
+CREATE TRIGGER audit_monthly_billing_summary_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON monthly_billing_summary
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
@@ -0,0 +1,117 @@
+-- Dated exchange rates
+-- Every USD to CAD conversion looks up the rate for the day being converted in
+-- exchange_rate_history, so historical costs use that day's rate instead of
+-- today's. The rate feed writes one 'feed' row per day; admins can add a
+-- 'manual' override for any day, which wins over the feed rate for that day.
+-- Days without a row use the latest earlier rate.
+
+create table if not exists public.exchange_rate_history (
+  id uuid not null default gen_random_uuid (),
+  from_currency text not null,
+  to_currency text not null,
+  rate_date date not null,
+  rate numeric(12, 6) not null,
+  source text not null default 'feed',
+  note text null,
+  created_by uuid null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint exchange_rate_history_pkey primary key (id),
+  constraint exchange_rate_history_day_key unique (from_currency, to_currency, rate_date, source),
+  constraint exchange_rate_history_created_by_fkey foreign KEY (created_by) references users (id) on delete set null,
+  constraint exchange_rate_history_source_check check (source in ('feed', 'manual')),
+  constraint exchange_rate_history_rate_check check (rate > 0),
+  constraint exchange_rate_history_override_note_check check (
+    source = 'feed'
+    or (note is not null and length(btrim(note)) > 0)
+  )
+) TABLESPACE pg_default;
+
+create index IF not exists idx_exchange_rate_history_lookup on public.exchange_rate_history using btree (from_currency, to_currency, rate_date desc) TABLESPACE pg_default;
+
+COMMENT ON COLUMN exchange_rate_history.rate_date IS 'The day the rate applies to; later days without a row keep using it';
+COMMENT ON COLUMN exchange_rate_history.source IS 'feed: daily rate from the rate feed; manual: admin override, wins over the feed for its day';
+
+DROP TRIGGER IF EXISTS update_exchange_rate_history_updated_at ON exchange_rate_history;
+
+CREATE TRIGGER update_exchange_rate_history_updated_at
+    BEFORE UPDATE ON exchange_rate_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Start the history from the current rate
+INSERT INTO exchange_rate_history (from_currency, to_currency, rate_date, rate, source)
+SELECT from_currency, to_currency, last_updated::date, rate, 'feed'
+FROM exchange_rates
+ON CONFLICT (from_currency, to_currency, rate_date, source) DO NOTHING;
+
+-- Rate for a day: the latest rate on or before it, a manual override winning
+-- over the feed on the same day. Days before the history starts use its first
+-- rate, and 1.35 is used only while the history is empty.
+CREATE OR REPLACE FUNCTION get_exchange_rate(p_from_currency text, p_to_currency text, p_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        (
+            SELECT rate FROM exchange_rate_history
+            WHERE from_currency = p_from_currency
+              AND to_currency = p_to_currency
+              AND rate_date <= p_date
+            ORDER BY rate_date DESC, (source = 'manual') DESC
+            LIMIT 1
+        ),
+        (
+            SELECT rate FROM exchange_rate_history
+            WHERE from_currency = p_from_currency
+              AND to_currency = p_to_currency
+            ORDER BY rate_date ASC, (source = 'manual') DESC
+            LIMIT 1
+        ),
+        CASE WHEN p_from_currency = 'USD' AND p_to_currency = 'CAD' THEN 1.35 END
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION get_usd_to_cad_rate(p_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT get_exchange_rate('USD', 'CAD', p_date);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_exchange_rate(TEXT, TEXT, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_usd_to_cad_rate(DATE) TO authenticated;
+
+-- Closed months now convert each cost at its own day's rate
+COMMENT ON COLUMN monthly_billing_summary.usd_to_cad_rate IS 'USD to CAD rate of the month''s last day; costs are converted at the rate of the day they were incurred';
+COMMENT ON COLUMN monthly_billing_summary.net_profit_usd_cad IS 'Gross revenue less all costs, in CAD, USD costs converted at the rate of their day';
+
+-- Anyone signed in can read rates to convert the costs they can see; only
+-- admins and owners can add or remove rates.
+ALTER TABLE exchange_rate_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "exchange_rate_history_select_policy" ON exchange_rate_history;
+DROP POLICY IF EXISTS "exchange_rate_history_insert_policy" ON exchange_rate_history;
+DROP POLICY IF EXISTS "exchange_rate_history_update_policy" ON exchange_rate_history;
+DROP POLICY IF EXISTS "exchange_rate_history_delete_policy" ON exchange_rate_history;
+
+CREATE POLICY "exchange_rate_history_select_policy" ON exchange_rate_history
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "exchange_rate_history_insert_policy" ON exchange_rate_history
+    FOR INSERT WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "exchange_rate_history_update_policy" ON exchange_rate_history
+    FOR UPDATE USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+-- Feed rates are kept; only manual overrides can be removed
+CREATE POLICY "exchange_rate_history_delete_policy" ON exchange_rate_history
+    FOR DELETE USING (is_admin_or_owner() AND source = 'manual');
+
+-- Audit every rate change, overrides included
+DROP TRIGGER IF EXISTS audit_exchange_rate_history_trigger ON exchange_rate_history;
+CREATE TRIGGER audit_exchange_rate_history_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON exchange_rate_history
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
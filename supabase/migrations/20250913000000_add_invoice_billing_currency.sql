@@ -0,0 +1,27 @@
+-- Client billing currency on invoices
+-- Clients are billed in their billing currency (clients.config_json.billing_currency,
+-- CAD when not set). Plan fees and overage rates are kept in CAD, so a USD
+-- invoice's line items are converted at the USD to CAD rate of the billing
+-- month's last day, which is stored on the invoice so the conversion can be
+-- traced after later rate corrections.
+
+alter table public.client_invoices
+  add column if not exists usd_to_cad_rate numeric(12, 6) null;
+
+alter table public.client_invoices
+  drop constraint if exists client_invoices_currency_check;
+
+alter table public.client_invoices
+  add constraint client_invoices_currency_check check (currency in ('CAD', 'USD'));
+
+alter table public.client_invoices
+  drop constraint if exists client_invoices_usd_to_cad_rate_check;
+
+alter table public.client_invoices
+  add constraint client_invoices_usd_to_cad_rate_check check (
+    (currency = 'CAD' and usd_to_cad_rate is null)
+    or (currency <> 'CAD' and usd_to_cad_rate > 0)
+  );
+
+comment on column public.client_invoices.currency is 'Billing currency of the client when the invoice was generated';
+comment on column public.client_invoices.usd_to_cad_rate is 'USD to CAD rate the CAD plan fee and overage rate were converted at; null for CAD invoices';
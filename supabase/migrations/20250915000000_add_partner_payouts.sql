@@ -0,0 +1,243 @@
+-- Partner payout statements
+-- Partners bring in clients and are paid each month from those clients'
+-- billing: the client's finder's fee, plus the partner's split
+-- (clients.partner_split_percentage, 0-1) of the billing left after the fee.
+-- A statement per partner and month itemizes every linked active client; its
+-- lines are a snapshot, so later changes to a client's fee, split or plan do
+-- not change statements already generated.
+--
+-- Statements start pending and are marked paid once the partner is paid. Paid
+-- statements are final; a pending statement can be deleted and generated again.
+
+create table if not exists public.partners (
+  id uuid not null default gen_random_uuid (),
+  name text not null,
+  contact_person text null,
+  contact_email text null,
+  notes text null,
+  is_active boolean not null default true,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint partners_pkey primary key (id),
+  constraint partners_name_check check (length(btrim(name)) between 1 and 200)
+) TABLESPACE pg_default;
+
+create unique index IF not exists idx_partners_name on public.partners using btree (lower(name)) TABLESPACE pg_default;
+
+alter table public.clients
+  add column if not exists partner_id uuid null references public.partners (id) on delete set null;
+
+create index IF not exists idx_clients_partner_id on public.clients using btree (partner_id) TABLESPACE pg_default
+where
+  partner_id is not null;
+
+create table if not exists public.partner_payout_statements (
+  id uuid not null default gen_random_uuid (),
+  partner_id uuid not null,
+  billing_month date not null,
+  status text not null default 'pending'::text,
+  currency text not null default 'CAD'::text,
+  total_billing_cad numeric(12, 2) not null default 0,
+  total_finders_fees_cad numeric(12, 2) not null default 0,
+  total_splits_cad numeric(12, 2) not null default 0,
+  total_payout_cad numeric(12, 2) not null default 0,
+  payment_reference text null check (payment_reference is null or length(payment_reference) <= 100),
+  paid_at timestamp with time zone null,
+  paid_by uuid null,
+  created_by uuid null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint partner_payout_statements_pkey primary key (id),
+  constraint partner_payout_statements_partner_month_key unique (partner_id, billing_month),
+  constraint partner_payout_statements_partner_id_fkey foreign KEY (partner_id) references partners (id) on delete CASCADE,
+  constraint partner_payout_statements_paid_by_fkey foreign KEY (paid_by) references users (id) on delete set null,
+  constraint partner_payout_statements_created_by_fkey foreign KEY (created_by) references users (id) on delete set null,
+  constraint partner_payout_statements_status_check check (status in ('pending', 'paid')),
+  constraint partner_payout_statements_billing_month_check check (extract(day from billing_month) = 1),
+  constraint partner_payout_statements_paid_check check ((status = 'paid') = (paid_at is not null))
+) TABLESPACE pg_default;
+
+create index IF not exists idx_partner_payout_statements_month on public.partner_payout_statements using btree (billing_month desc, partner_id) TABLESPACE pg_default;
+
+create table if not exists public.partner_payout_statement_lines (
+  id uuid not null default gen_random_uuid (),
+  statement_id uuid not null,
+  client_id uuid null,
+  client_name text not null,
+  billing_source text not null,
+  billing_cad numeric(12, 2) not null,
+  finders_fee_cad numeric(12, 2) not null default 0,
+  net_revenue_cad numeric(12, 2) not null,
+  split_percentage numeric(5, 4) not null default 0,
+  split_cad numeric(12, 2) not null default 0,
+  payout_cad numeric(12, 2) not null,
+  created_at timestamp with time zone not null default now(),
+  constraint partner_payout_statement_lines_pkey primary key (id),
+  constraint partner_payout_statement_lines_statement_client_key unique (statement_id, client_id),
+  constraint partner_payout_statement_lines_statement_id_fkey foreign KEY (statement_id) references partner_payout_statements (id) on delete CASCADE,
+  constraint partner_payout_statement_lines_client_id_fkey foreign KEY (client_id) references clients (id) on delete set null,
+  constraint partner_payout_statement_lines_billing_source_check check (billing_source in ('invoice', 'plan')),
+  constraint partner_payout_statement_lines_split_check check (split_percentage between 0 and 1),
+  constraint partner_payout_statement_lines_amounts_check check (
+    billing_cad >= 0 and finders_fee_cad >= 0 and net_revenue_cad >= 0 and split_cad >= 0 and payout_cad >= 0
+  )
+) TABLESPACE pg_default;
+
+DROP TRIGGER IF EXISTS update_partners_updated_at ON partners;
+
+CREATE TRIGGER update_partners_updated_at
+    BEFORE UPDATE ON partners
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_partner_payout_statements_updated_at ON partner_payout_statements;
+
+CREATE TRIGGER update_partner_payout_statements_updated_at
+    BEFORE UPDATE ON partner_payout_statements
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Status changes: pending -> paid only. Paying stamps who paid and when; a
+-- paid statement's figures can no longer change.
+CREATE OR REPLACE FUNCTION manage_partner_payout_statement_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'paid' THEN
+        RAISE EXCEPTION 'Paid statements cannot be changed';
+    END IF;
+
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (OLD.status = 'pending' AND NEW.status = 'paid') THEN
+        RAISE EXCEPTION 'Statement cannot go from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM partner_payout_statement_lines WHERE statement_id = NEW.id) THEN
+        RAISE EXCEPTION 'Statement has no lines';
+    END IF;
+
+    NEW.paid_at := COALESCE(NEW.paid_at, now());
+    NEW.paid_by := COALESCE(NEW.paid_by, auth.uid());
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS manage_partner_payout_statement_status_trigger ON partner_payout_statements;
+
+CREATE TRIGGER manage_partner_payout_statement_status_trigger
+    BEFORE UPDATE ON partner_payout_statements
+    FOR EACH ROW EXECUTE FUNCTION manage_partner_payout_statement_status();
+
+-- Lines can only change while their statement is pending. A missing statement
+-- means it is being deleted and its lines go with it.
+CREATE OR REPLACE FUNCTION validate_partner_payout_statement_line()
+RETURNS TRIGGER AS $$
+DECLARE
+    statement_status TEXT;
+BEGIN
+    SELECT status INTO statement_status
+    FROM partner_payout_statements
+    WHERE id = COALESCE(NEW.statement_id, OLD.statement_id);
+
+    IF statement_status IS NOT NULL AND statement_status <> 'pending' THEN
+        RAISE EXCEPTION 'Lines can only be changed on pending statements';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_partner_payout_statement_line_trigger ON partner_payout_statement_lines;
+
+CREATE TRIGGER validate_partner_payout_statement_line_trigger
+    BEFORE INSERT OR UPDATE OR DELETE ON partner_payout_statement_lines
+    FOR EACH ROW EXECUTE FUNCTION validate_partner_payout_statement_line();
+
+-- Keep the statement totals in step with its lines
+CREATE OR REPLACE FUNCTION recalculate_partner_payout_statement_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_statement_id UUID := COALESCE(NEW.statement_id, OLD.statement_id);
+BEGIN
+    UPDATE partner_payout_statements
+    SET total_billing_cad = totals.billing,
+        total_finders_fees_cad = totals.finders_fees,
+        total_splits_cad = totals.splits,
+        total_payout_cad = totals.payout
+    FROM (
+        SELECT
+            COALESCE(SUM(billing_cad), 0) AS billing,
+            COALESCE(SUM(finders_fee_cad), 0) AS finders_fees,
+            COALESCE(SUM(split_cad), 0) AS splits,
+            COALESCE(SUM(payout_cad), 0) AS payout
+        FROM partner_payout_statement_lines
+        WHERE statement_id = target_statement_id
+    ) AS totals
+    WHERE partner_payout_statements.id = target_statement_id
+      AND partner_payout_statements.status = 'pending';
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS recalculate_partner_payout_statement_totals_trigger ON partner_payout_statement_lines;
+
+CREATE TRIGGER recalculate_partner_payout_statement_totals_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON partner_payout_statement_lines
+    FOR EACH ROW EXECUTE FUNCTION recalculate_partner_payout_statement_totals();
+
+-- Partners and their statements are business data for admins and owners only.
+-- Only pending statements can be deleted.
+ALTER TABLE partners ENABLE ROW LEVEL SECURITY;
+ALTER TABLE partner_payout_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE partner_payout_statement_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "partners_admin_policy" ON partners;
+
+CREATE POLICY "partners_admin_policy" ON partners
+    FOR ALL USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+DROP POLICY IF EXISTS "partner_payout_statements_select_policy" ON partner_payout_statements;
+DROP POLICY IF EXISTS "partner_payout_statements_insert_policy" ON partner_payout_statements;
+DROP POLICY IF EXISTS "partner_payout_statements_update_policy" ON partner_payout_statements;
+DROP POLICY IF EXISTS "partner_payout_statements_delete_policy" ON partner_payout_statements;
+
+CREATE POLICY "partner_payout_statements_select_policy" ON partner_payout_statements
+    FOR SELECT USING (is_admin_or_owner());
+
+CREATE POLICY "partner_payout_statements_insert_policy" ON partner_payout_statements
+    FOR INSERT WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "partner_payout_statements_update_policy" ON partner_payout_statements
+    FOR UPDATE USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+CREATE POLICY "partner_payout_statements_delete_policy" ON partner_payout_statements
+    FOR DELETE USING (is_admin_or_owner() AND status = 'pending');
+
+DROP POLICY IF EXISTS "partner_payout_statement_lines_admin_policy" ON partner_payout_statement_lines;
+
+CREATE POLICY "partner_payout_statement_lines_admin_policy" ON partner_payout_statement_lines
+    FOR ALL USING (is_admin_or_owner())
+    WITH CHECK (is_admin_or_owner());
+
+-- Audit every partner, statement and line change
+DROP TRIGGER IF EXISTS audit_partners_trigger ON partners;
+CREATE TRIGGER audit_partners_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON partners
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_partner_payout_statements_trigger ON partner_payout_statements;
+CREATE TRIGGER audit_partner_payout_statements_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON partner_payout_statements
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_partner_payout_statement_lines_trigger ON partner_payout_statement_lines;
+CREATE TRIGGER audit_partner_payout_statement_lines_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON partner_payout_statement_lines
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
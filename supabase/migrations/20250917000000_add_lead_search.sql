@@ -0,0 +1,26 @@
+-- Lead search
+-- The leads search box matches contact fields and the lead's call (summary,
+-- transcript, caller name and number, as calls_matching_search does). This
+-- returns every matching lead as leads rows, so PostgREST applies the other
+-- filters, embeds and order to it like any leads query.
+
+-- Runs as the caller (SECURITY INVOKER), so the leads and calls RLS policies
+-- keep each user to their own client's leads
+CREATE OR REPLACE FUNCTION leads_matching_search(p_query TEXT)
+RETURNS SETOF leads AS $$
+    SELECT l.*
+    FROM leads l,
+        btrim(COALESCE(p_query, '')) AS t(term)
+    WHERE t.term <> ''
+    AND (
+        strpos(lower(COALESCE(l.full_name, '')), lower(t.term)) > 0
+        OR strpos(lower(COALESCE(l.phone_number, '')), lower(t.term)) > 0
+        OR strpos(lower(COALESCE(l.email, '')), lower(t.term)) > 0
+        OR l.call_id IN (SELECT c.id FROM calls_matching_search(t.term) c)
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+COMMENT ON FUNCTION leads_matching_search(TEXT) IS 'Every lead whose contact details or call match a search';
+
+REVOKE EXECUTE ON FUNCTION leads_matching_search(TEXT) FROM public, anon;
+GRANT EXECUTE ON FUNCTION leads_matching_search(TEXT) TO authenticated;